@@ -17,6 +17,12 @@ export function LanguageSelector() {
         onChange={(event) => {
           const next = event.target.value as Locale;
           setLocale(next);
+          // Remembered as the email language when signed in; ignored for visitors.
+          void fetch("/api/auth/locale", {
+            method: "PATCH",
+            headers: { "Content-Type": "application/json" },
+            body: JSON.stringify({ locale: next }),
+          }).catch(() => undefined);
           router.refresh();
         }}
         className="rounded-full border border-slate-300 bg-white px-3 py-1.5 text-sm text-slate-900"
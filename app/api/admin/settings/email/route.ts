@@ -1,7 +1,16 @@
 import { NextResponse } from "next/server";
 import { requireAdminUser } from "@/lib/admin/auth";
 import { createSupabaseServiceClient } from "@/lib/supabase/service";
-import { DEFAULT_GMAIL_SENDER_EMAIL, loadAdminEmailSettings } from "@/lib/email/settings";
+import {
+  DEFAULT_GMAIL_SENDER_EMAIL,
+  loadAdminEmailSettings,
+  type AdminEmailSettingsRow,
+} from "@/lib/email/settings";
+import {
+  DEFAULT_HTTP_API_URL,
+  isEmailTransportKind,
+  parseTransportSettingsInput,
+} from "@/lib/email/transport-config";
 
 const EMAIL_REGEX = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
 
@@ -14,6 +23,27 @@ function isValidEmail(value: string): boolean {
   return EMAIL_REGEX.test(value);
 }
 
+// Secrets are never returned; the UI only learns whether each one is set.
+function toSettingsResponse(row: AdminEmailSettingsRow | null) {
+  const envOverride = normalizeText(process.env.EMAIL_TRANSPORT);
+  return {
+    senderEmail: row?.sender_email ?? DEFAULT_GMAIL_SENDER_EMAIL,
+    passwordIsSet: Boolean(normalizeText(row?.gmail_app_password)),
+    transport: isEmailTransportKind(row?.transport) ? row.transport : "gmail",
+    transportOverride: isEmailTransportKind(envOverride) ? envOverride : null,
+    smtpHost: row?.smtp_host ?? "",
+    smtpPort: row?.smtp_port ?? null,
+    smtpSecure: row?.smtp_secure !== false,
+    smtpUser: row?.smtp_user ?? "",
+    smtpPasswordIsSet: Boolean(normalizeText(row?.smtp_password)),
+    httpApiUrl: row?.http_api_url ?? "",
+    httpApiDefaultUrl: DEFAULT_HTTP_API_URL,
+    httpApiKeyIsSet: Boolean(normalizeText(row?.http_api_key)),
+    captureDir: row?.capture_dir ?? "",
+    updatedAt: row?.updated_at ?? null,
+  };
+}
+
 export async function GET() {
   const auth = await requireAdminUser();
   if ("errorResponse" in auth) return auth.errorResponse;
@@ -22,11 +52,7 @@ export async function GET() {
     const service = createSupabaseServiceClient();
     const row = await loadAdminEmailSettings(service);
 
-    return NextResponse.json({
-      senderEmail: row?.sender_email ?? DEFAULT_GMAIL_SENDER_EMAIL,
-      passwordIsSet: Boolean(normalizeText(row?.gmail_app_password)),
-      updatedAt: row?.updated_at ?? null,
-    });
+    return NextResponse.json(toSettingsResponse(row));
   } catch (error) {
     return NextResponse.json({ error: (error as Error).message }, { status: 500 });
   }
@@ -55,10 +81,15 @@ export async function PATCH(req: Request) {
   try {
     const service = createSupabaseServiceClient();
     const existing = await loadAdminEmailSettings(service);
+    const parsedTransport = parseTransportSettingsInput(body, existing);
+    if ("error" in parsedTransport) {
+      return NextResponse.json({ error: parsedTransport.error }, { status: 400 });
+    }
+
     const existingSender = normalizeText(existing?.sender_email).toLowerCase();
     const nextSender = senderEmail.toLowerCase();
     const senderChanged = Boolean(existingSender && existingSender !== nextSender);
-    if (senderChanged && !passwordInput) {
+    if (parsedTransport.values.transport === "gmail" && senderChanged && !passwordInput) {
       return NextResponse.json(
         {
           error:
@@ -80,10 +111,11 @@ export async function PATCH(req: Request) {
           id: true,
           sender_email: senderEmail,
           gmail_app_password: passwordToStore,
+          ...parsedTransport.values,
         },
         { onConflict: "id" }
       )
-      .select("sender_email,gmail_app_password,updated_at")
+      .select("*")
       .single();
 
     if (error) {
@@ -92,9 +124,7 @@ export async function PATCH(req: Request) {
 
     return NextResponse.json({
       ok: true,
-      senderEmail: data.sender_email,
-      passwordIsSet: Boolean(normalizeText(data.gmail_app_password)),
-      updatedAt: data.updated_at,
+      ...toSettingsResponse(data as AdminEmailSettingsRow),
     });
   } catch (error) {
     return NextResponse.json({ error: (error as Error).message }, { status: 500 });
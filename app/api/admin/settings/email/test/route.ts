@@ -2,7 +2,7 @@ import { NextResponse } from "next/server";
 import { requireAdminUser } from "@/lib/admin/auth";
 import { createSupabaseServiceClient } from "@/lib/supabase/service";
 import { loadEmailSenderRuntimeSettings } from "@/lib/email/settings";
-import { sendGmailTextEmail } from "@/lib/email/gmail";
+import { sendEmail } from "@/lib/email/transport";
 
 const EMAIL_REGEX = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
 
@@ -33,28 +33,20 @@ export async function POST(req: Request) {
 
   try {
     const settings = await loadEmailSenderRuntimeSettings(createSupabaseServiceClient());
-    if (!settings.gmailAppPassword) {
-      return NextResponse.json(
-        { error: "Google App Password is not configured" },
-        { status: 400 }
-      );
+    if (settings.transportError) {
+      return NextResponse.json({ error: settings.transportError }, { status: 400 });
     }
 
-    await sendGmailTextEmail(
+    await sendEmail(
       {
         to: recipientEmail,
         subject: "Global Friendship - Email settings test",
-        text: "This is a test email from Admin > Settings > Email.",
-        from: settings.senderEmail,
+        text: `This is a test email from Admin > Settings > Email (transport: ${settings.transport.kind}).`,
       },
-      {
-        gmailUser: settings.gmailUser,
-        gmailAppPassword: settings.gmailAppPassword,
-        senderEmail: settings.senderEmail,
-      }
+      settings
     );
 
-    return NextResponse.json({ ok: true });
+    return NextResponse.json({ ok: true, transport: settings.transport.kind });
   } catch (error) {
     return NextResponse.json(
       { error: (error as Error).message || "Unable to send test email" },
@@ -0,0 +1,157 @@
+import { NextResponse } from "next/server";
+import { requireAdminUser } from "@/lib/admin/auth";
+import { createSupabaseServiceClient } from "@/lib/supabase/service";
+import {
+  DEFAULT_TALLY_FIELD_MAPPING,
+  FIELD_TRANSFORMS,
+  MAPPING_TARGETS,
+  parseFieldMapping,
+} from "@/lib/tally/field-mapping";
+import {
+  loadStoredTallyFieldMapping,
+  loadTallyFieldMapping,
+  resetTallyFieldMapping,
+  saveTallyFieldMapping,
+} from "@/lib/tally/field-mapping-store";
+import {
+  asTallyPayload,
+  extractAnswerEntries,
+  extractAnswers,
+  mapSubmission,
+} from "@/lib/tally/submission";
+import { loadWebhookEvent, loadWebhookEvents } from "@/lib/tally/webhook-events";
+
+function normalizeText(value: unknown): string {
+  if (typeof value !== "string") return "";
+  return value.trim();
+}
+
+export async function GET() {
+  const auth = await requireAdminUser();
+  if ("errorResponse" in auth) return auth.errorResponse;
+
+  try {
+    const service = createSupabaseServiceClient();
+    const [stored, mapping, samples] = await Promise.all([
+      loadStoredTallyFieldMapping(service),
+      loadTallyFieldMapping(service),
+      loadWebhookEvents(service, "all", 25, ["tally"]),
+    ]);
+
+    return NextResponse.json({
+      mapping,
+      isDefault: !stored,
+      updatedAt: stored?.updated_at ?? null,
+      defaultMapping: DEFAULT_TALLY_FIELD_MAPPING,
+      targets: MAPPING_TARGETS,
+      transforms: FIELD_TRANSFORMS,
+      samples: samples.map((event) => ({
+        id: event.id,
+        created_at: event.created_at,
+        email: event.email,
+        status: event.status,
+        submission_id: event.submission_id,
+      })),
+    });
+  } catch (error) {
+    return NextResponse.json({ error: (error as Error).message }, { status: 500 });
+  }
+}
+
+// Previews a draft mapping against a logged submission, next to the saved mapping's result.
+export async function POST(req: Request) {
+  const auth = await requireAdminUser();
+  if ("errorResponse" in auth) return auth.errorResponse;
+
+  let body: Record<string, unknown> = {};
+  try {
+    body = await req.json();
+  } catch {
+    return NextResponse.json({ error: "Invalid JSON body" }, { status: 400 });
+  }
+
+  const eventId = normalizeText(body.eventId);
+  if (!eventId) {
+    return NextResponse.json({ error: "eventId is required" }, { status: 400 });
+  }
+
+  const parsed = parseFieldMapping(body.mapping);
+  if ("error" in parsed) {
+    return NextResponse.json({ error: parsed.error }, { status: 400 });
+  }
+
+  try {
+    const service = createSupabaseServiceClient();
+    const event = await loadWebhookEvent(service, eventId);
+    if (!event || event.source !== "tally") {
+      return NextResponse.json({ error: "Webhook event not found" }, { status: 404 });
+    }
+
+    let payload = asTallyPayload(event.payload);
+    if (event.raw_body) {
+      try {
+        payload = asTallyPayload(JSON.parse(event.raw_body));
+      } catch {
+        return NextResponse.json({ error: "Stored raw body is not valid JSON" }, { status: 400 });
+      }
+    }
+
+    const answers = extractAnswers(payload);
+    const current = mapSubmission(payload, answers, await loadTallyFieldMapping(service));
+    const preview = mapSubmission(payload, answers, parsed.mapping);
+
+    return NextResponse.json({
+      fields: extractAnswerEntries(payload),
+      current: { normalized: current.normalized, matched: current.mapping.matched },
+      preview: {
+        normalized: preview.normalized,
+        matched: preview.mapping.matched,
+        unmatchedLabels: preview.mapping.unmatchedLabels,
+      },
+    });
+  } catch (error) {
+    return NextResponse.json({ error: (error as Error).message }, { status: 500 });
+  }
+}
+
+export async function PUT(req: Request) {
+  const auth = await requireAdminUser();
+  if ("errorResponse" in auth) return auth.errorResponse;
+
+  let body: Record<string, unknown> = {};
+  try {
+    body = await req.json();
+  } catch {
+    return NextResponse.json({ error: "Invalid JSON body" }, { status: 400 });
+  }
+
+  const parsed = parseFieldMapping(body.mapping);
+  if ("error" in parsed) {
+    return NextResponse.json({ error: parsed.error }, { status: 400 });
+  }
+
+  try {
+    const service = createSupabaseServiceClient();
+    const stored = await saveTallyFieldMapping(service, auth.user.id, parsed.mapping);
+    return NextResponse.json({ mapping: stored.mapping, isDefault: false, updatedAt: stored.updated_at });
+  } catch (error) {
+    return NextResponse.json({ error: (error as Error).message }, { status: 500 });
+  }
+}
+
+export async function DELETE() {
+  const auth = await requireAdminUser();
+  if ("errorResponse" in auth) return auth.errorResponse;
+
+  try {
+    const service = createSupabaseServiceClient();
+    await resetTallyFieldMapping(service);
+    return NextResponse.json({
+      mapping: DEFAULT_TALLY_FIELD_MAPPING,
+      isDefault: true,
+      updatedAt: null,
+    });
+  } catch (error) {
+    return NextResponse.json({ error: (error as Error).message }, { status: 500 });
+  }
+}
@@ -0,0 +1,89 @@
+import { NextResponse } from "next/server";
+import { requireAdminUser } from "@/lib/admin/auth";
+import { createSupabaseServiceClient } from "@/lib/supabase/service";
+import {
+  dismissWebhookEvent,
+  loadWebhookEvent,
+  loadWebhookEvents,
+  replayWebhookEvent,
+} from "@/lib/tally/webhook-events";
+
+function normalizeText(value: unknown): string {
+  if (typeof value !== "string") return "";
+  return value.trim();
+}
+
+export async function GET(req: Request) {
+  const auth = await requireAdminUser();
+  if ("errorResponse" in auth) return auth.errorResponse;
+
+  const url = new URL(req.url);
+  const id = normalizeText(url.searchParams.get("id"));
+  const view = url.searchParams.get("view") === "all" ? "all" : "failed";
+  const limit = Math.min(Math.max(Number(url.searchParams.get("limit")) || 100, 1), 500);
+
+  try {
+    const service = createSupabaseServiceClient();
+
+    if (id) {
+      const event = await loadWebhookEvent(service, id);
+      if (!event) {
+        return NextResponse.json({ error: "Webhook event not found" }, { status: 404 });
+      }
+      return NextResponse.json({ event });
+    }
+
+    const events = await loadWebhookEvents(service, view, limit);
+    return NextResponse.json({ events });
+  } catch (error) {
+    return NextResponse.json({ error: (error as Error).message }, { status: 500 });
+  }
+}
+
+export async function PATCH(req: Request) {
+  const auth = await requireAdminUser();
+  if ("errorResponse" in auth) return auth.errorResponse;
+
+  let body: Record<string, unknown> = {};
+  try {
+    body = await req.json();
+  } catch {
+    return NextResponse.json({ error: "Invalid JSON body" }, { status: 400 });
+  }
+
+  const id = normalizeText(body.id);
+  const action = normalizeText(body.action);
+  if (!id) {
+    return NextResponse.json({ error: "id is required" }, { status: 400 });
+  }
+  if (action !== "replay" && action !== "dismiss") {
+    return NextResponse.json({ error: "action must be replay or dismiss" }, { status: 400 });
+  }
+
+  try {
+    const service = createSupabaseServiceClient();
+
+    if (action === "dismiss") {
+      const dismissed = await dismissWebhookEvent(service, auth.user.id, id);
+      if ("error" in dismissed) {
+        return NextResponse.json({ error: dismissed.error }, { status: dismissed.status });
+      }
+      return NextResponse.json({ ok: true });
+    }
+
+    const replayed = await replayWebhookEvent(service, auth.user.id, id);
+    if ("error" in replayed) {
+      return NextResponse.json({ error: replayed.error }, { status: replayed.status });
+    }
+
+    const { result } = replayed;
+    return NextResponse.json({
+      ok: result.eventStatus.startsWith("success"),
+      status: result.eventStatus,
+      eventId: result.eventId,
+      result: result.body,
+    });
+  } catch (error) {
+    return NextResponse.json({ error: (error as Error).message }, { status: 500 });
+  }
+}
@@ -0,0 +1,622 @@
+import { NextResponse } from "next/server";
+import { createSupabaseServerClient } from "@/lib/supabase/server";
+import { createSupabaseServiceClient } from "@/lib/supabase/service";
+import { ALLOGGIO_SHORT_OPTIONS, alloggioLongToShort } from "@/lib/partecipante/constants";
+import {
+  findAssignmentConflict,
+  participantStayRange,
+  type BedAssignmentLike,
+} from "@/lib/alloggi/allocation";
+import { needsAccessibleRoom } from "@/lib/alloggi/auto-assign";
+
+type StructureRow = {
+  id: string;
+  name: string;
+  address: string | null;
+  notes: string | null;
+  created_at: string;
+  updated_at: string;
+};
+
+type RoomRow = {
+  id: string;
+  structure_id: string;
+  name: string;
+  floor: string | null;
+  capacity: number;
+  is_accessible: boolean;
+  notes: string | null;
+  created_at: string;
+  updated_at: string;
+};
+
+type BedRow = {
+  id: string;
+  room_id: string;
+  label: string;
+  created_at: string;
+};
+
+type AssignmentRow = {
+  id: string;
+  bed_id: string;
+  participant_id: string;
+  night_from: string;
+  night_to: string;
+  notes: string | null;
+  created_at: string;
+};
+
+type ParticipantRow = {
+  id: string;
+  nome: string | null;
+  cognome: string | null;
+  sesso: string | null;
+  eta: number | null;
+  is_minorenne: boolean | null;
+  data_arrivo: string | null;
+  data_partenza: string | null;
+  alloggio: string | null;
+  alloggio_short: string | null;
+  gruppo_id: string | null;
+  gruppo_label: string | null;
+  difficolta_accessibilita: string | null;
+};
+
+type MutationPayload =
+  | {
+      entity: "structure";
+      action: "create" | "update" | "delete";
+      id?: string;
+      data?: Record<string, unknown>;
+    }
+  | {
+      entity: "room";
+      action: "create" | "update" | "delete";
+      id?: string;
+      data?: Record<string, unknown>;
+    }
+  | {
+      entity: "bed";
+      action: "create" | "delete";
+      id?: string;
+      data?: Record<string, unknown>;
+    }
+  | {
+      entity: "assignment";
+      action: "create" | "bulk_create" | "delete";
+      id?: string;
+      data?: Record<string, unknown>;
+    };
+
+type AlloggiAuth = {
+  user: { id: string };
+  service: ReturnType<typeof createSupabaseServiceClient>;
+};
+
+const PARTICIPANT_SELECT_FIELDS =
+  "id,nome,cognome,sesso,eta,is_minorenne,data_arrivo,data_partenza,alloggio,alloggio_short,gruppo_id,gruppo_label,difficolta_accessibilita";
+const ORGANIZATION_ALLOGGIO = ALLOGGIO_SHORT_OPTIONS[0];
+const MAX_BEDS_PER_ROOM = 50;
+
+function normalizeText(value: unknown): string | null {
+  if (typeof value !== "string") return null;
+  const trimmed = value.trim();
+  return trimmed.length > 0 ? trimmed : null;
+}
+
+function normalizeDate(value: unknown): string | null {
+  const normalized = normalizeText(value);
+  if (!normalized) return null;
+  return /^\d{4}-\d{2}-\d{2}$/.test(normalized) ? normalized : null;
+}
+
+function normalizeCapacity(value: unknown): number | null {
+  const numeric = typeof value === "number" ? value : Number(value);
+  if (!Number.isInteger(numeric) || numeric <= 0 || numeric > MAX_BEDS_PER_ROOM) return null;
+  return numeric;
+}
+
+function isOrganizationAccommodation(row: ParticipantRow): boolean {
+  return (row.alloggio_short ?? alloggioLongToShort(row.alloggio)) === ORGANIZATION_ALLOGGIO;
+}
+
+function toAssignmentLike(row: AssignmentRow): BedAssignmentLike {
+  return {
+    id: row.id,
+    bed_id: row.bed_id,
+    participant_id: row.participant_id,
+    from: row.night_from,
+    to: row.night_to,
+  };
+}
+
+function mapWriteError(error: { code?: string | null; message?: string | null }) {
+  const code = error.code ?? "";
+  if (code === "23P01") {
+    return NextResponse.json(
+      { error: "This assignment overlaps an existing stay on the same bed or participant." },
+      { status: 409 }
+    );
+  }
+  if (code === "23514" || code === "23505") {
+    return NextResponse.json({ error: error.message ?? "Constraint violation" }, { status: 409 });
+  }
+  return NextResponse.json({ error: error.message ?? "Unable to save changes" }, { status: 500 });
+}
+
+async function requireAlloggiContext() {
+  const supabase = await createSupabaseServerClient();
+  const {
+    data: { user },
+    error: userError,
+  } = await supabase.auth.getUser();
+
+  if (userError || !user) {
+    return {
+      errorResponse: NextResponse.json({ error: "Unauthorized" }, { status: 401 }),
+    };
+  }
+  const email = (user.email ?? "").trim().toLowerCase();
+  if (!email) {
+    return {
+      errorResponse: NextResponse.json({ error: "Forbidden" }, { status: 403 }),
+    };
+  }
+
+  const service = createSupabaseServiceClient();
+  const { data: profile, error: profileError } = await service
+    .from("profili")
+    .select("ruolo")
+    .ilike("email", email)
+    .in("ruolo", ["alloggi", "admin"])
+    .limit(1);
+
+  if (profileError) {
+    return {
+      errorResponse: NextResponse.json({ error: profileError.message }, { status: 500 }),
+    };
+  }
+
+  if (!profile || profile.length === 0) {
+    return {
+      errorResponse: NextResponse.json({ error: "Forbidden" }, { status: 403 }),
+    };
+  }
+
+  return { user, service };
+}
+
+async function loadAccommodationDataset(service = createSupabaseServiceClient()) {
+  const [structuresRes, roomsRes, bedsRes, assignmentsRes, participantsRes] = await Promise.all([
+    service.from("accommodation_structures").select("*").order("name", { ascending: true }),
+    service.from("accommodation_rooms").select("*").order("name", { ascending: true }),
+    service.from("accommodation_beds").select("*").order("label", { ascending: true }),
+    service
+      .from("accommodation_bed_assignments")
+      .select("*")
+      .order("night_from", { ascending: true }),
+    service
+      .from("partecipanti")
+      .select(PARTICIPANT_SELECT_FIELDS)
+      .eq("registration_status", "confirmed")
+      .order("cognome", { ascending: true })
+      .order("nome", { ascending: true }),
+  ]);
+
+  const possibleErrors = [
+    structuresRes.error,
+    roomsRes.error,
+    bedsRes.error,
+    assignmentsRes.error,
+    participantsRes.error,
+  ].filter(Boolean);
+
+  if (possibleErrors.length > 0) {
+    throw new Error(possibleErrors[0]?.message ?? "Unable to load accommodation data");
+  }
+
+  const participants = ((participantsRes.data ?? []) as ParticipantRow[])
+    .filter(isOrganizationAccommodation)
+    .map((row) => ({
+      ...row,
+      alloggio: row.alloggio_short ?? alloggioLongToShort(row.alloggio),
+      group: (row.gruppo_label ?? row.gruppo_id ?? "").trim() || "-",
+      needs_accessible_room: needsAccessibleRoom(row.difficolta_accessibilita),
+    }));
+
+  return {
+    structures: (structuresRes.data ?? []) as StructureRow[],
+    rooms: (roomsRes.data ?? []) as RoomRow[],
+    beds: (bedsRes.data ?? []) as BedRow[],
+    assignments: (assignmentsRes.data ?? []) as AssignmentRow[],
+    participants,
+  };
+}
+
+async function mutateStructure(
+  auth: AlloggiAuth,
+  payload: Extract<MutationPayload, { entity: "structure" }>
+) {
+  const id = normalizeText(payload.id);
+  const data = (payload.data ?? {}) as Record<string, unknown>;
+
+  if (payload.action === "delete") {
+    if (!id) return NextResponse.json({ error: "id is required" }, { status: 400 });
+    const { error } = await auth.service.from("accommodation_structures").delete().eq("id", id);
+    if (error) return mapWriteError(error);
+    return NextResponse.json({ ok: true });
+  }
+
+  const row = {
+    name: normalizeText(data.name),
+    address: normalizeText(data.address),
+    notes: normalizeText(data.notes),
+  };
+
+  if (!row.name) {
+    return NextResponse.json({ error: "name is required" }, { status: 400 });
+  }
+
+  if (payload.action === "create") {
+    const { data: created, error } = await auth.service
+      .from("accommodation_structures")
+      .insert(row)
+      .select("*")
+      .single();
+    if (error) return mapWriteError(error);
+    return NextResponse.json({ ok: true, structure: created as StructureRow });
+  }
+
+  if (!id) return NextResponse.json({ error: "id is required" }, { status: 400 });
+
+  const { data: updated, error } = await auth.service
+    .from("accommodation_structures")
+    .update(row)
+    .eq("id", id)
+    .select("*")
+    .maybeSingle();
+
+  if (error) return mapWriteError(error);
+  if (!updated) return NextResponse.json({ error: "Structure not found" }, { status: 404 });
+
+  return NextResponse.json({ ok: true, structure: updated as StructureRow });
+}
+
+async function mutateRoom(auth: AlloggiAuth, payload: Extract<MutationPayload, { entity: "room" }>) {
+  const id = normalizeText(payload.id);
+  const data = (payload.data ?? {}) as Record<string, unknown>;
+
+  if (payload.action === "delete") {
+    if (!id) return NextResponse.json({ error: "id is required" }, { status: 400 });
+    const { error } = await auth.service.from("accommodation_rooms").delete().eq("id", id);
+    if (error) return mapWriteError(error);
+    return NextResponse.json({ ok: true });
+  }
+
+  const capacity = normalizeCapacity(data.capacity);
+  const row = {
+    structure_id: normalizeText(data.structure_id),
+    name: normalizeText(data.name),
+    floor: normalizeText(data.floor),
+    capacity,
+    is_accessible: data.is_accessible === true,
+    notes: normalizeText(data.notes),
+  };
+
+  if (!row.structure_id || !row.name || capacity === null) {
+    return NextResponse.json(
+      {
+        error: `structure_id, name and a capacity between 1 and ${MAX_BEDS_PER_ROOM} are required`,
+      },
+      { status: 400 }
+    );
+  }
+
+  if (payload.action === "create") {
+    const { data: created, error } = await auth.service
+      .from("accommodation_rooms")
+      .insert(row)
+      .select("*")
+      .single();
+    if (error) return mapWriteError(error);
+
+    const room = created as RoomRow;
+    const beds = Array.from({ length: capacity }, (_, index) => ({
+      room_id: room.id,
+      label: `Bed ${index + 1}`,
+    }));
+    const { error: bedsError } = await auth.service.from("accommodation_beds").insert(beds);
+    if (bedsError) {
+      await auth.service.from("accommodation_rooms").delete().eq("id", room.id);
+      return mapWriteError(bedsError);
+    }
+
+    return NextResponse.json({ ok: true, room });
+  }
+
+  if (!id) return NextResponse.json({ error: "id is required" }, { status: 400 });
+
+  const { data: updated, error } = await auth.service
+    .from("accommodation_rooms")
+    .update(row)
+    .eq("id", id)
+    .select("*")
+    .maybeSingle();
+
+  if (error) return mapWriteError(error);
+  if (!updated) return NextResponse.json({ error: "Room not found" }, { status: 404 });
+
+  return NextResponse.json({ ok: true, room: updated as RoomRow });
+}
+
+async function mutateBed(auth: AlloggiAuth, payload: Extract<MutationPayload, { entity: "bed" }>) {
+  const id = normalizeText(payload.id);
+  const data = (payload.data ?? {}) as Record<string, unknown>;
+
+  if (payload.action === "delete") {
+    if (!id) return NextResponse.json({ error: "id is required" }, { status: 400 });
+    const { error } = await auth.service.from("accommodation_beds").delete().eq("id", id);
+    if (error) return mapWriteError(error);
+    return NextResponse.json({ ok: true });
+  }
+
+  const roomId = normalizeText(data.room_id);
+  const label = normalizeText(data.label);
+  if (!roomId || !label) {
+    return NextResponse.json({ error: "room_id and label are required" }, { status: 400 });
+  }
+
+  const [roomRes, bedsRes] = await Promise.all([
+    auth.service.from("accommodation_rooms").select("id,capacity").eq("id", roomId).maybeSingle(),
+    auth.service.from("accommodation_beds").select("id").eq("room_id", roomId),
+  ]);
+  if (roomRes.error) return mapWriteError(roomRes.error);
+  if (bedsRes.error) return mapWriteError(bedsRes.error);
+  if (!roomRes.data) return NextResponse.json({ error: "Room not found" }, { status: 404 });
+
+  const capacity = Number((roomRes.data as { capacity: number }).capacity);
+  if ((bedsRes.data ?? []).length >= capacity) {
+    return NextResponse.json(
+      { error: `Room capacity exceeded (${capacity} beds allowed)` },
+      { status: 409 }
+    );
+  }
+
+  const { data: created, error } = await auth.service
+    .from("accommodation_beds")
+    .insert({ room_id: roomId, label })
+    .select("*")
+    .single();
+  if (error) return mapWriteError(error);
+
+  return NextResponse.json({ ok: true, bed: created as BedRow });
+}
+
+async function mutateAssignment(
+  auth: AlloggiAuth,
+  payload: Extract<MutationPayload, { entity: "assignment" }>
+) {
+  const id = normalizeText(payload.id);
+  const data = (payload.data ?? {}) as Record<string, unknown>;
+
+  if (payload.action === "delete") {
+    if (!id) return NextResponse.json({ error: "id is required" }, { status: 400 });
+    const { error } = await auth.service
+      .from("accommodation_bed_assignments")
+      .delete()
+      .eq("id", id);
+    if (error) return mapWriteError(error);
+    return NextResponse.json({ ok: true });
+  }
+
+  if (payload.action === "bulk_create") {
+    return createAssignmentsInBulk(auth, data);
+  }
+
+  const bedId = normalizeText(data.bed_id);
+  const participantId = normalizeText(data.participant_id);
+  if (!bedId || !participantId) {
+    return NextResponse.json({ error: "bed_id and participant_id are required" }, { status: 400 });
+  }
+
+  const { data: participant, error: participantError } = await auth.service
+    .from("partecipanti")
+    .select(PARTICIPANT_SELECT_FIELDS)
+    .eq("id", participantId)
+    .maybeSingle();
+
+  if (participantError) return mapWriteError(participantError);
+  if (!participant) return NextResponse.json({ error: "Participant not found" }, { status: 404 });
+
+  const participantRow = participant as ParticipantRow;
+  if (!isOrganizationAccommodation(participantRow)) {
+    return NextResponse.json(
+      { error: "Only participants staying in organization accommodation can be assigned" },
+      { status: 400 }
+    );
+  }
+
+  const stay = participantStayRange(participantRow);
+  if (!stay) {
+    return NextResponse.json(
+      { error: "Participant has no valid arrival/departure dates" },
+      { status: 400 }
+    );
+  }
+
+  const nightFrom = normalizeDate(data.night_from) ?? stay.from;
+  const nightTo = normalizeDate(data.night_to) ?? stay.to;
+
+  let dataset: Awaited<ReturnType<typeof loadAccommodationDataset>>;
+  try {
+    dataset = await loadAccommodationDataset(auth.service);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "Unable to load accommodation data";
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+
+  const conflict = findAssignmentConflict(
+    { bed_id: bedId, participant_id: participantId, from: nightFrom, to: nightTo },
+    {
+      beds: dataset.beds,
+      rooms: dataset.rooms,
+      assignments: dataset.assignments.map(toAssignmentLike),
+      participantStay: stay,
+    }
+  );
+  if (conflict) {
+    return NextResponse.json({ error: conflict.message, code: conflict.code }, { status: 409 });
+  }
+
+  const { data: created, error } = await auth.service
+    .from("accommodation_bed_assignments")
+    .insert({
+      bed_id: bedId,
+      participant_id: participantId,
+      night_from: nightFrom,
+      night_to: nightTo,
+      notes: normalizeText(data.notes),
+      created_by: auth.user.id,
+    })
+    .select("*")
+    .single();
+
+  if (error) return mapWriteError(error);
+
+  return NextResponse.json({ ok: true, assignment: created as AssignmentRow });
+}
+
+// Commits a reviewed draft (e.g. from the auto assignment suggestion) all at once:
+// any conflict rejects the whole batch so the draft can be fixed and resubmitted.
+async function createAssignmentsInBulk(auth: AlloggiAuth, data: Record<string, unknown>) {
+  const rawRows = Array.isArray(data.assignments) ? data.assignments : [];
+  if (rawRows.length === 0) {
+    return NextResponse.json({ error: "assignments are required" }, { status: 400 });
+  }
+
+  let dataset: Awaited<ReturnType<typeof loadAccommodationDataset>>;
+  try {
+    dataset = await loadAccommodationDataset(auth.service);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "Unable to load accommodation data";
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+
+  const participantsById = new Map(dataset.participants.map((row) => [row.id, row]));
+  const accepted = dataset.assignments.map(toAssignmentLike);
+  const rows: Array<{
+    bed_id: string;
+    participant_id: string;
+    night_from: string;
+    night_to: string;
+    created_by: string;
+  }> = [];
+  const conflicts: Array<{ participant_id: string | null; code: string; message: string }> = [];
+
+  for (const rawRow of rawRows) {
+    const item = (rawRow ?? {}) as Record<string, unknown>;
+    const bedId = normalizeText(item.bed_id);
+    const participantId = normalizeText(item.participant_id);
+    const participant = participantId ? participantsById.get(participantId) : undefined;
+    const stay = participant ? participantStayRange(participant) : null;
+
+    if (!bedId || !participant || !stay) {
+      conflicts.push({
+        participant_id: participantId,
+        code: "invalid_row",
+        message: "Each row needs a bed and an eligible participant with valid stay dates.",
+      });
+      continue;
+    }
+
+    const candidate = {
+      bed_id: bedId,
+      participant_id: participant.id,
+      from: normalizeDate(item.night_from) ?? stay.from,
+      to: normalizeDate(item.night_to) ?? stay.to,
+    };
+    const conflict = findAssignmentConflict(candidate, {
+      beds: dataset.beds,
+      rooms: dataset.rooms,
+      assignments: accepted,
+      participantStay: stay,
+    });
+    if (conflict) {
+      conflicts.push({ participant_id: participant.id, code: conflict.code, message: conflict.message });
+      continue;
+    }
+
+    accepted.push(candidate);
+    rows.push({
+      bed_id: candidate.bed_id,
+      participant_id: candidate.participant_id,
+      night_from: candidate.from,
+      night_to: candidate.to,
+      created_by: auth.user.id,
+    });
+  }
+
+  if (conflicts.length > 0) {
+    return NextResponse.json(
+      { error: `${conflicts.length} draft row(s) conflict with current assignments.`, conflicts },
+      { status: 409 }
+    );
+  }
+
+  const { data: created, error } = await auth.service
+    .from("accommodation_bed_assignments")
+    .insert(rows)
+    .select("*");
+
+  if (error) return mapWriteError(error);
+
+  return NextResponse.json({ ok: true, created: (created ?? []).length });
+}
+
+export async function GET() {
+  const auth = await requireAlloggiContext();
+  if ("errorResponse" in auth) return auth.errorResponse;
+
+  try {
+    const dataset = await loadAccommodationDataset(auth.service);
+    return NextResponse.json(dataset);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "Unable to load accommodation data";
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
+
+export async function POST(req: Request) {
+  const auth = await requireAlloggiContext();
+  if ("errorResponse" in auth) return auth.errorResponse;
+
+  let payload: MutationPayload | null = null;
+  try {
+    payload = (await req.json()) as MutationPayload;
+  } catch {
+    return NextResponse.json({ error: "Invalid JSON body" }, { status: 400 });
+  }
+
+  if (!payload || typeof payload !== "object" || !("entity" in payload)) {
+    return NextResponse.json({ error: "Invalid payload" }, { status: 400 });
+  }
+
+  if (payload.entity === "structure") {
+    return mutateStructure(auth, payload);
+  }
+
+  if (payload.entity === "room") {
+    return mutateRoom(auth, payload);
+  }
+
+  if (payload.entity === "bed") {
+    return mutateBed(auth, payload);
+  }
+
+  if (payload.entity === "assignment") {
+    return mutateAssignment(auth, payload);
+  }
+
+  return NextResponse.json({ error: "Unsupported entity" }, { status: 400 });
+}
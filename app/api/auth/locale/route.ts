@@ -0,0 +1,38 @@
+import { NextResponse } from "next/server";
+import { parseStoredLocale } from "@/lib/i18n";
+import { savePreferredLocale } from "@/lib/i18n/preferred-locale-store";
+import { createSupabaseServerClient } from "@/lib/supabase/server";
+import { createSupabaseServiceClient } from "@/lib/supabase/service";
+
+export async function PATCH(req: Request) {
+  let body: Record<string, unknown> = {};
+  try {
+    body = await req.json();
+  } catch {
+    return NextResponse.json({ error: "Invalid JSON body" }, { status: 400 });
+  }
+
+  const locale = parseStoredLocale(body.locale);
+  if (!locale) {
+    return NextResponse.json({ error: "Unsupported locale" }, { status: 400 });
+  }
+
+  const supabase = await createSupabaseServerClient();
+  const {
+    data: { user },
+    error: userError,
+  } = await supabase.auth.getUser();
+
+  if (userError || !user) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  try {
+    await savePreferredLocale(createSupabaseServiceClient(), user, locale);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "Unable to save the language";
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+
+  return NextResponse.json({ locale });
+}
@@ -0,0 +1,140 @@
+import { NextResponse } from "next/server";
+import { createSupabaseServerClient } from "@/lib/supabase/server";
+import { createSupabaseServiceClient } from "@/lib/supabase/service";
+import { renderFeeDocumentPdf } from "@/lib/fees/documents";
+import {
+  issueGroupInvoice,
+  issueParticipantReceipt,
+  loadGroupParticipants,
+} from "@/lib/fees/document-store";
+
+function normalizeText(value: unknown): string | null {
+  if (typeof value !== "string") return null;
+  const trimmed = value.trim();
+  return trimmed.length > 0 ? trimmed : null;
+}
+
+async function requireCapogruppoContext() {
+  const supabase = await createSupabaseServerClient();
+  const {
+    data: { user },
+    error: userError,
+  } = await supabase.auth.getUser();
+
+  if (userError || !user) {
+    return {
+      errorResponse: NextResponse.json({ error: "Unauthorized" }, { status: 401 }),
+    };
+  }
+  const email = (user.email ?? "").trim().toLowerCase();
+  if (!email) {
+    return {
+      errorResponse: NextResponse.json({ error: "Forbidden" }, { status: 403 }),
+    };
+  }
+
+  const service = createSupabaseServiceClient();
+  const { data: profile, error: profileError } = await service
+    .from("profili")
+    .select("id")
+    .ilike("email", email)
+    .eq("ruolo", "capogruppo")
+    .order("created_at", { ascending: false })
+    .maybeSingle();
+
+  if (profileError) {
+    return {
+      errorResponse: NextResponse.json({ error: profileError.message }, { status: 500 }),
+    };
+  }
+
+  if (!profile?.id) {
+    return {
+      errorResponse: NextResponse.json({ error: "Forbidden" }, { status: 403 }),
+    };
+  }
+
+  const { data: links, error: linksError } = await service
+    .from("profili_gruppi")
+    .select("gruppo_id")
+    .eq("profilo_id", profile.id);
+
+  if (linksError) {
+    return {
+      errorResponse: NextResponse.json({ error: linksError.message }, { status: 500 }),
+    };
+  }
+
+  const groups = [...new Set((links ?? []).map((row) => String(row.gruppo_id ?? "").trim()))]
+    .filter(Boolean)
+    .sort((a, b) => a.localeCompare(b));
+
+  return { user, service, groups };
+}
+
+function pdfResponse(bytes: Uint8Array, number: string) {
+  return new NextResponse(Buffer.from(bytes), {
+    headers: {
+      "Content-Type": "application/pdf",
+      "Content-Disposition": `attachment; filename="${number}.pdf"`,
+      "Cache-Control": "no-store",
+    },
+  });
+}
+
+// Without a type this returns the fee summary per group; with type=receipt|invoice it
+// returns the PDF, limited to the leader's own groups.
+export async function GET(req: Request) {
+  const auth = await requireCapogruppoContext();
+  if ("errorResponse" in auth) return auth.errorResponse;
+
+  const params = new URL(req.url).searchParams;
+  const type = params.get("type");
+
+  try {
+    if (type === "invoice") {
+      const group = normalizeText(params.get("group"));
+      if (!group || !auth.groups.includes(group)) {
+        return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+      }
+      const result = await issueGroupInvoice(auth.service, auth.user.id, group);
+      if ("error" in result) {
+        return NextResponse.json({ error: result.error }, { status: result.status });
+      }
+      return pdfResponse(renderFeeDocumentPdf(result), result.number);
+    }
+
+    const groups = await Promise.all(
+      auth.groups.map(async (group) => ({
+        group,
+        participants: (await loadGroupParticipants(auth.service, group)).map((row) => ({
+          id: row.id,
+          nome: row.nome,
+          cognome: row.cognome,
+          quota_totale: row.quota_totale === null ? null : Number(row.quota_totale),
+          fee_paid: row.fee_paid === null ? null : Number(row.fee_paid),
+        })),
+      }))
+    );
+
+    if (type === "receipt") {
+      const participantId = normalizeText(params.get("participantId"));
+      const allowed = groups.some((item) =>
+        item.participants.some((participant) => participant.id === participantId)
+      );
+      if (!participantId || !allowed) {
+        return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+      }
+      const result = await issueParticipantReceipt(auth.service, auth.user.id, participantId);
+      if ("error" in result) {
+        return NextResponse.json({ error: result.error }, { status: result.status });
+      }
+      return pdfResponse(renderFeeDocumentPdf(result), result.number);
+    }
+
+    return NextResponse.json({ groups });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "Unable to load fee documents";
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
@@ -12,6 +12,8 @@ import {
   alloggioLongToShort,
   alloggioShortToLong,
 } from "@/lib/partecipante/constants";
+import { isBouncedAddress } from "@/lib/email/send-queue-policy";
+import { runProfileUpdatedTrigger } from "@/lib/email/automation";
 
 type ParticipantRow = {
   id: string;
@@ -33,10 +35,12 @@ type ParticipantRow = {
   quota_totale: number | null;
   gruppo_id: string | null;
   gruppo_label: string | null;
+  email_bounced_address: string | null;
+  email_bounce_reason: string | null;
 };
 
 const SELECT_FIELDS =
-  "id,created_at,nome,cognome,nazione,email,telefono,data_nascita,data_arrivo,data_partenza,alloggio,alloggio_short,allergie,esigenze_alimentari,disabilita_accessibilita,difficolta_accessibilita,quota_totale,gruppo_id,gruppo_label";
+  "id,created_at,nome,cognome,nazione,email,telefono,data_nascita,data_arrivo,data_partenza,alloggio,alloggio_short,allergie,esigenze_alimentari,disabilita_accessibilita,difficolta_accessibilita,quota_totale,gruppo_id,gruppo_label,email_bounced_address,email_bounce_reason";
 
 const esigenzeSet = new Set<string>(ESIGENZE_ALIMENTARI_OPTIONS);
 const difficoltaSet = new Set<string>(DIFFICOLTA_ACCESSIBILITA_OPTIONS);
@@ -210,6 +214,7 @@ async function loadParticipantsForGroups(groupIds: string[]) {
 function toResponseParticipant(row: ParticipantRow) {
   return {
     ...row,
+    email_bounced: isBouncedAddress(row.email, row.email_bounced_address),
     alloggio: row.alloggio_short ?? alloggioLongToShort(row.alloggio),
     group: buildGroupLabel(row),
     esigenze_alimentari: parseStoredEsigenze(row.esigenze_alimentari),
@@ -406,7 +411,6 @@ export async function PATCH(req: Request) {
       difficolta_accessibilita:
         normalizedDifficolta.length > 0 ? normalizedDifficolta.join(", ") : null,
       giorni_permanenza: calculated.giorniPermanenza,
-      quota_totale: calculated.quotaTotale,
       eta: calculated.eta,
       is_minorenne: calculated.isMinorenne,
     })
@@ -418,6 +422,8 @@ export async function PATCH(req: Request) {
     return NextResponse.json({ error: updateError.message }, { status: 500 });
   }
 
+  await runProfileUpdatedTrigger(auth.service, participantId, participant, updated);
+
   return NextResponse.json({ ok: true, participant: toResponseParticipant(updated as ParticipantRow) });
 }
 
@@ -0,0 +1,175 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { NextResponse } from "next/server";
+import { createSupabaseServerClient } from "@/lib/supabase/server";
+import { createSupabaseServiceClient } from "@/lib/supabase/service";
+import { isTravelDirection, parseTravelDetails } from "@/lib/travel/logistics";
+import { loadTravelDetails, saveTravelDetails } from "@/lib/travel/store";
+
+type GroupMemberRow = {
+  id: string;
+  nome: string | null;
+  cognome: string | null;
+  gruppo_id: string | null;
+  gruppo_label: string | null;
+  data_arrivo: string | null;
+  data_partenza: string | null;
+};
+
+const MEMBER_FIELDS = "id,nome,cognome,gruppo_id,gruppo_label,data_arrivo,data_partenza";
+
+function normalizeText(value: unknown): string | null {
+  if (typeof value !== "string") return null;
+  const trimmed = value.trim();
+  return trimmed.length > 0 ? trimmed : null;
+}
+
+async function requireCapogruppoContext() {
+  const supabase = await createSupabaseServerClient();
+  const {
+    data: { user },
+    error: userError,
+  } = await supabase.auth.getUser();
+
+  if (userError || !user) {
+    return {
+      errorResponse: NextResponse.json({ error: "Unauthorized" }, { status: 401 }),
+    };
+  }
+  const email = (user.email ?? "").trim().toLowerCase();
+  if (!email) {
+    return {
+      errorResponse: NextResponse.json({ error: "Forbidden" }, { status: 403 }),
+    };
+  }
+
+  const service = createSupabaseServiceClient();
+  const { data: profile, error: profileError } = await service
+    .from("profili")
+    .select("id")
+    .ilike("email", email)
+    .eq("ruolo", "capogruppo")
+    .order("created_at", { ascending: false })
+    .maybeSingle();
+
+  if (profileError) {
+    return {
+      errorResponse: NextResponse.json({ error: profileError.message }, { status: 500 }),
+    };
+  }
+
+  if (!profile?.id) {
+    return {
+      errorResponse: NextResponse.json({ error: "Forbidden" }, { status: 403 }),
+    };
+  }
+
+  const { data: links, error: linksError } = await service
+    .from("profili_gruppi")
+    .select("gruppo_id")
+    .eq("profilo_id", profile.id);
+
+  if (linksError) {
+    return {
+      errorResponse: NextResponse.json({ error: linksError.message }, { status: 500 }),
+    };
+  }
+
+  const groups = [...new Set((links ?? []).map((row) => String(row.gruppo_id ?? "").trim()))]
+    .filter(Boolean)
+    .sort((a, b) => a.localeCompare(b));
+
+  return { user, service, groups };
+}
+
+async function loadGroupMembers(service: SupabaseClient, groupIds: string[]) {
+  if (groupIds.length === 0) return [] as GroupMemberRow[];
+
+  const [byGroupId, byGroupLabel] = await Promise.all([
+    service.from("partecipanti").select(MEMBER_FIELDS).in("gruppo_id", groupIds),
+    service.from("partecipanti").select(MEMBER_FIELDS).in("gruppo_label", groupIds),
+  ]);
+
+  if (byGroupId.error) throw new Error(byGroupId.error.message);
+  if (byGroupLabel.error) throw new Error(byGroupLabel.error.message);
+
+  const merged = new Map<string, GroupMemberRow>();
+  for (const row of [...(byGroupId.data ?? []), ...(byGroupLabel.data ?? [])] as GroupMemberRow[]) {
+    merged.set(row.id, row);
+  }
+
+  return [...merged.values()].sort(
+    (a, b) =>
+      (a.cognome ?? "").localeCompare(b.cognome ?? "") || (a.nome ?? "").localeCompare(b.nome ?? "")
+  );
+}
+
+export async function GET() {
+  const auth = await requireCapogruppoContext();
+  if ("errorResponse" in auth) return auth.errorResponse;
+
+  try {
+    const members = await loadGroupMembers(auth.service, auth.groups);
+    const travel = await loadTravelDetails(auth.service, members.map((member) => member.id));
+    return NextResponse.json({
+      participants: members.map((member) => ({
+        id: member.id,
+        nome: member.nome,
+        cognome: member.cognome,
+        group: (member.gruppo_label ?? member.gruppo_id ?? "").trim() || "-",
+        data_arrivo: member.data_arrivo,
+        data_partenza: member.data_partenza,
+      })),
+      travel,
+    });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "Unable to load travel details";
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
+
+// Same payload as the participant endpoint, for any member of the leader's groups.
+export async function PUT(req: Request) {
+  const auth = await requireCapogruppoContext();
+  if ("errorResponse" in auth) return auth.errorResponse;
+
+  let body: Record<string, unknown> = {};
+  try {
+    body = await req.json();
+  } catch {
+    return NextResponse.json({ error: "Invalid JSON body" }, { status: 400 });
+  }
+
+  const participantId = normalizeText(body.participant_id);
+  if (!participantId) {
+    return NextResponse.json({ error: "Missing participant id" }, { status: 400 });
+  }
+  if (!isTravelDirection(body.direction)) {
+    return NextResponse.json({ error: "Invalid direction" }, { status: 400 });
+  }
+  const details =
+    body.details && typeof body.details === "object"
+      ? parseTravelDetails(body.details as Record<string, unknown>)
+      : null;
+  if (details && details.error !== null) {
+    return NextResponse.json({ error: details.error }, { status: 400 });
+  }
+
+  try {
+    const members = await loadGroupMembers(auth.service, auth.groups);
+    if (!members.some((member) => member.id === participantId)) {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+
+    const travel = await saveTravelDetails(
+      auth.service,
+      participantId,
+      body.direction,
+      details?.input ?? null,
+      auth.user.id
+    );
+    return NextResponse.json({ travel });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "Unable to save travel details";
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
@@ -0,0 +1,34 @@
+import { NextResponse } from "next/server";
+import { isCronRequestAuthorized } from "@/lib/auth/cron";
+import { createSupabaseServiceClient } from "@/lib/supabase/service";
+import { runScheduledAutomations } from "@/lib/email/automation";
+
+// Evaluates the date-based automatic email rules. Call it at least daily from a scheduler
+// with "Authorization: Bearer $CRON_SECRET"; the queued emails are then delivered by
+// /api/cron/email-queue.
+async function handle(req: Request) {
+  const secret = process.env.CRON_SECRET?.trim() ?? "";
+  if (!secret) {
+    return NextResponse.json({ error: "Server cron secret is not configured" }, { status: 500 });
+  }
+  if (!isCronRequestAuthorized(req, secret)) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  try {
+    const summary = await runScheduledAutomations(createSupabaseServiceClient());
+    return NextResponse.json(summary, { status: summary.errors.length > 0 ? 503 : 200 });
+  } catch (error) {
+    console.error("Email automation worker error", error);
+    const message = error instanceof Error ? error.message : "Unable to run email automations";
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
+
+export async function GET(req: Request) {
+  return handle(req);
+}
+
+export async function POST(req: Request) {
+  return handle(req);
+}
@@ -0,0 +1,37 @@
+import { NextResponse } from "next/server";
+import { isCronRequestAuthorized } from "@/lib/auth/cron";
+import { createSupabaseServiceClient } from "@/lib/supabase/service";
+import { drainEmailQueue } from "@/lib/email/campaign-queue";
+
+// Queue worker for scheduled campaigns and retries. Call it every minute from a
+// scheduler (e.g. Vercel Cron) with "Authorization: Bearer $CRON_SECRET".
+const WORKER_DEADLINE_MS = 45 * 1000;
+
+async function handle(req: Request) {
+  const secret = process.env.CRON_SECRET?.trim() ?? "";
+  if (!secret) {
+    return NextResponse.json({ error: "Server cron secret is not configured" }, { status: 500 });
+  }
+  if (!isCronRequestAuthorized(req, secret)) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  try {
+    const summary = await drainEmailQueue(createSupabaseServiceClient(), {
+      deadlineMs: WORKER_DEADLINE_MS,
+    });
+    return NextResponse.json(summary, { status: summary.error ? 503 : 200 });
+  } catch (error) {
+    console.error("Email queue worker error", error);
+    const message = error instanceof Error ? error.message : "Unable to process email queue";
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
+
+export async function GET(req: Request) {
+  return handle(req);
+}
+
+export async function POST(req: Request) {
+  return handle(req);
+}
@@ -0,0 +1,47 @@
+import { NextResponse } from "next/server";
+import { createSupabaseServiceClient } from "@/lib/supabase/service";
+import { preferenceLinkSecret, saveEmailPreferences } from "@/lib/email/preferences";
+import { verifyPreferenceToken } from "@/lib/email/preference-token";
+
+// Public endpoint behind the signed link in campaign emails; the token is the only
+// credential. Accepts the preference page form (JSON) and RFC 8058 one-click
+// unsubscribe requests sent by mail clients (form body, token in the query string).
+export async function POST(req: Request) {
+  const contentType = req.headers.get("content-type") ?? "";
+  let token = new URL(req.url).searchParams.get("token") ?? "";
+  let newsletter = false;
+
+  if (contentType.includes("application/json")) {
+    let body: Record<string, unknown> = {};
+    try {
+      body = await req.json();
+    } catch {
+      return NextResponse.json({ error: "Invalid JSON body" }, { status: 400 });
+    }
+    if (typeof body.token === "string") token = body.token;
+    if (typeof body.newsletter !== "boolean") {
+      return NextResponse.json({ error: "newsletter must be true or false" }, { status: 400 });
+    }
+    newsletter = body.newsletter;
+  }
+
+  let email: string | null = null;
+  try {
+    email = token ? verifyPreferenceToken(token, preferenceLinkSecret()) : null;
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "Preferences are not configured";
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+  if (!email) {
+    return NextResponse.json({ error: "Invalid or expired link" }, { status: 400 });
+  }
+
+  try {
+    await saveEmailPreferences(createSupabaseServiceClient(), email, { newsletter });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "Unable to save preferences";
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+
+  return NextResponse.json({ email, newsletter });
+}
@@ -0,0 +1,35 @@
+import { NextResponse } from "next/server";
+import { createSupabaseServiceClient } from "@/lib/supabase/service";
+import { recordTrackingEvent, trackingLinkSecret } from "@/lib/email/campaign-tracking";
+import { isTrackableUrl, verifyTrackingEvent } from "@/lib/email/tracking";
+
+// Public redirect behind the links of tracked campaign emails. Only URLs signed for the
+// recipient row are followed, so the route cannot be used as an open redirect; a failure
+// to record the click still sends the reader on to the link.
+export async function GET(req: Request) {
+  const params = new URL(req.url).searchParams;
+  const rowId = params.get("r") ?? "";
+  const url = params.get("u") ?? "";
+  const signed = params.get("s") ?? "";
+
+  let valid = false;
+  try {
+    valid =
+      Boolean(rowId && signed) &&
+      isTrackableUrl(url) &&
+      verifyTrackingEvent("click", rowId, url, signed, trackingLinkSecret());
+  } catch (error) {
+    console.error("Email click tracking error", error);
+  }
+  if (!valid) {
+    return NextResponse.json({ error: "Invalid link" }, { status: 400 });
+  }
+
+  try {
+    await recordTrackingEvent(createSupabaseServiceClient(), rowId, "click", url);
+  } catch (error) {
+    console.error("Email click tracking error", error);
+  }
+
+  return NextResponse.redirect(url, 302);
+}
@@ -0,0 +1,30 @@
+import { createSupabaseServiceClient } from "@/lib/supabase/service";
+import { recordTrackingEvent, trackingLinkSecret } from "@/lib/email/campaign-tracking";
+import { verifyTrackingEvent } from "@/lib/email/tracking";
+
+// Transparent 1x1 GIF.
+const PIXEL = Buffer.from("R0lGODlhAQABAIAAAAAAAP///yH5BAEAAAAALAAAAAABAAEAAAIBRAA7", "base64");
+
+// Public open pixel of tracked campaign emails. The image is returned whatever happens,
+// so a broken or forged link never shows up as a broken image in the email.
+export async function GET(req: Request) {
+  const params = new URL(req.url).searchParams;
+  const rowId = params.get("r") ?? "";
+  const signed = params.get("s") ?? "";
+
+  try {
+    if (rowId && signed && verifyTrackingEvent("open", rowId, "", signed, trackingLinkSecret())) {
+      await recordTrackingEvent(createSupabaseServiceClient(), rowId, "open", null);
+    }
+  } catch (error) {
+    console.error("Email open tracking error", error);
+  }
+
+  return new Response(PIXEL, {
+    headers: {
+      "Content-Type": "image/gif",
+      "Content-Length": String(PIXEL.length),
+      "Cache-Control": "no-store, no-cache, must-revalidate, private",
+    },
+  });
+}
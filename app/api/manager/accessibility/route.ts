@@ -0,0 +1,141 @@
+import { NextResponse } from "next/server";
+import { createSupabaseServerClient } from "@/lib/supabase/server";
+import { createSupabaseServiceClient } from "@/lib/supabase/service";
+import {
+  briefingEntries,
+  isSupportStatus,
+  supportBriefingCsvRows,
+} from "@/lib/accessibility/support";
+import {
+  loadSupportEntries,
+  renderAccessibilityBriefing,
+  saveSupportPlan,
+} from "@/lib/accessibility/store";
+import { toCsvText } from "@/lib/csv/write";
+
+function normalizeText(value: unknown): string | null {
+  if (typeof value !== "string") return null;
+  const trimmed = value.trim();
+  return trimmed.length > 0 ? trimmed : null;
+}
+
+async function requireManagerOrAdmin() {
+  const supabase = await createSupabaseServerClient();
+  const {
+    data: { user },
+    error: userError,
+  } = await supabase.auth.getUser();
+
+  if (userError || !user) {
+    return {
+      errorResponse: NextResponse.json({ error: "Unauthorized" }, { status: 401 }),
+    };
+  }
+  const email = (user.email ?? "").trim().toLowerCase();
+  if (!email) {
+    return {
+      errorResponse: NextResponse.json({ error: "Forbidden" }, { status: 403 }),
+    };
+  }
+
+  const service = createSupabaseServiceClient();
+  const { data: profile, error: profileError } = await service
+    .from("profili")
+    .select("ruolo")
+    .ilike("email", email)
+    .in("ruolo", ["manager", "admin"]);
+
+  if (profileError) {
+    return {
+      errorResponse: NextResponse.json({ error: profileError.message }, { status: 500 }),
+    };
+  }
+
+  if (!profile || profile.length === 0) {
+    return {
+      errorResponse: NextResponse.json({ error: "Forbidden" }, { status: 403 }),
+    };
+  }
+
+  return { service, userId: user.id };
+}
+
+
+export async function GET(req: Request) {
+  const auth = await requireManagerOrAdmin();
+  if ("errorResponse" in auth) return auth.errorResponse;
+
+  const format = new URL(req.url).searchParams.get("format");
+
+  try {
+    const entries = await loadSupportEntries(auth.service);
+
+    if (format === "csv") {
+      return new NextResponse(toCsvText(supportBriefingCsvRows(briefingEntries(entries))), {
+        headers: {
+          "Content-Type": "text/csv; charset=utf-8",
+          "Content-Disposition": 'attachment; filename="accessibility-briefing.csv"',
+          "Cache-Control": "no-store",
+        },
+      });
+    }
+
+    if (format === "pdf") {
+      const pdf = await renderAccessibilityBriefing(auth.service, entries);
+      return new NextResponse(Buffer.from(pdf), {
+        headers: {
+          "Content-Type": "application/pdf",
+          "Content-Disposition": 'attachment; filename="accessibility-briefing.pdf"',
+          "Cache-Control": "no-store",
+        },
+      });
+    }
+
+    return NextResponse.json({ entries });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "Unable to load accessibility needs";
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
+
+export async function PUT(req: Request) {
+  const auth = await requireManagerOrAdmin();
+  if ("errorResponse" in auth) return auth.errorResponse;
+
+  let body: Record<string, unknown> = {};
+  try {
+    body = await req.json();
+  } catch {
+    return NextResponse.json({ error: "Invalid JSON body" }, { status: 400 });
+  }
+
+  const participantId = normalizeText(body.participantId);
+  if (!participantId) {
+    return NextResponse.json({ error: "Missing participant id" }, { status: 400 });
+  }
+  if (!isSupportStatus(body.status)) {
+    return NextResponse.json({ error: "Invalid status" }, { status: 400 });
+  }
+
+  try {
+    const plan = await saveSupportPlan(
+      auth.service,
+      participantId,
+      {
+        status: body.status,
+        buddy_name: normalizeText(body.buddy_name),
+        buddy_contact: normalizeText(body.buddy_contact),
+        action_item: normalizeText(body.action_item),
+        notes: normalizeText(body.notes),
+      },
+      auth.userId
+    );
+    if (!plan) {
+      return NextResponse.json({ error: "Participant not found" }, { status: 404 });
+    }
+    return NextResponse.json({ plan });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "Unable to save support plan";
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
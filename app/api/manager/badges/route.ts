@@ -0,0 +1,109 @@
+import { NextResponse } from "next/server";
+import { createSupabaseServerClient } from "@/lib/supabase/server";
+import { createSupabaseServiceClient } from "@/lib/supabase/service";
+import { isCheckInDate } from "@/lib/check-in/badge-token";
+import {
+  badgeFilename,
+  badgeSheetFilename,
+  loadBadgeParticipants,
+  participantBadgeMarkers,
+  renderBadgeSheet,
+  type BadgeFilters,
+} from "@/lib/check-in/store";
+
+function normalizeText(value: unknown): string | null {
+  if (typeof value !== "string") return null;
+  const trimmed = value.trim();
+  return trimmed.length > 0 ? trimmed : null;
+}
+
+async function requireManagerOrAdmin() {
+  const supabase = await createSupabaseServerClient();
+  const {
+    data: { user },
+    error: userError,
+  } = await supabase.auth.getUser();
+
+  if (userError || !user) {
+    return {
+      errorResponse: NextResponse.json({ error: "Unauthorized" }, { status: 401 }),
+    };
+  }
+  const email = (user.email ?? "").trim().toLowerCase();
+  if (!email) {
+    return {
+      errorResponse: NextResponse.json({ error: "Forbidden" }, { status: 403 }),
+    };
+  }
+
+  const service = createSupabaseServiceClient();
+  const { data: profile, error: profileError } = await service
+    .from("profili")
+    .select("ruolo")
+    .ilike("email", email)
+    .in("ruolo", ["manager", "admin"]);
+
+  if (profileError) {
+    return {
+      errorResponse: NextResponse.json({ error: profileError.message }, { status: 500 }),
+    };
+  }
+
+  if (!profile || profile.length === 0) {
+    return {
+      errorResponse: NextResponse.json({ error: "Forbidden" }, { status: 403 }),
+    };
+  }
+
+  return { service, userId: user.id };
+}
+
+export async function GET(req: Request) {
+  const auth = await requireManagerOrAdmin();
+  if ("errorResponse" in auth) return auth.errorResponse;
+
+  const params = new URL(req.url).searchParams;
+  const arrivalDate = normalizeText(params.get("arrival"));
+  if (arrivalDate && !isCheckInDate(arrivalDate)) {
+    return NextResponse.json({ error: "Invalid arrival date" }, { status: 400 });
+  }
+  const filters: BadgeFilters = {
+    group: normalizeText(params.get("group")),
+    arrivalDate,
+    participantId: normalizeText(params.get("participantId")),
+  };
+
+  try {
+    const participants = await loadBadgeParticipants(auth.service, filters);
+
+    if (params.get("format") !== "pdf") {
+      return NextResponse.json({
+        participants: participants.map((participant) => ({
+          ...participant,
+          markers: participantBadgeMarkers(participant).map((marker) => marker.label),
+        })),
+      });
+    }
+
+    if (participants.length === 0) {
+      return NextResponse.json(
+        { error: "No confirmed participants match these filters" },
+        { status: 404 }
+      );
+    }
+
+    const single = filters.participantId ? participants[0] : null;
+    const filename = single ? badgeFilename(single) : badgeSheetFilename(filters);
+    const pdf = await renderBadgeSheet(auth.service, participants, filename.replace(/\.pdf$/, ""));
+    return new NextResponse(Buffer.from(pdf), {
+      headers: {
+        "Content-Type": "application/pdf",
+        "Content-Disposition": `attachment; filename="${filename}"`,
+        "Cache-Control": "no-store",
+      },
+    });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "Unable to generate badges";
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
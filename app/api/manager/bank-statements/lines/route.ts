@@ -0,0 +1,164 @@
+import { NextResponse } from "next/server";
+import { createSupabaseServerClient } from "@/lib/supabase/server";
+import { createSupabaseServiceClient } from "@/lib/supabase/service";
+import type { MatchAllocation } from "@/lib/fees/bank-statement";
+import { confirmBankStatementLine, type BankStatementLineRow } from "@/lib/fees/bank-store";
+
+function normalizeText(value: unknown): string | null {
+  if (typeof value !== "string") return null;
+  const trimmed = value.trim();
+  return trimmed.length > 0 ? trimmed : null;
+}
+
+function normalizeAmount(value: unknown): number | null {
+  const numeric = typeof value === "number" ? value : Number(value);
+  if (!Number.isFinite(numeric) || numeric <= 0) return null;
+  return Number(numeric.toFixed(2));
+}
+
+function parseAllocations(value: unknown): MatchAllocation[] | { error: string } {
+  const allocations: MatchAllocation[] = [];
+  for (const rawItem of Array.isArray(value) ? value : []) {
+    const item = (rawItem ?? {}) as Record<string, unknown>;
+    const participantId = normalizeText(item.participant_id);
+    const amount = normalizeAmount(item.amount);
+    if (!participantId || amount === null) {
+      return { error: "Each allocation needs a participant_id and an amount greater than 0" };
+    }
+    allocations.push({ participant_id: participantId, amount });
+  }
+  if (allocations.length === 0) return { error: "allocations is required" };
+  return allocations;
+}
+
+async function requireManagerContext() {
+  const supabase = await createSupabaseServerClient();
+  const {
+    data: { user },
+    error: userError,
+  } = await supabase.auth.getUser();
+
+  if (userError || !user) {
+    return {
+      errorResponse: NextResponse.json({ error: "Unauthorized" }, { status: 401 }),
+    };
+  }
+  const email = (user.email ?? "").trim().toLowerCase();
+  if (!email) {
+    return {
+      errorResponse: NextResponse.json({ error: "Forbidden" }, { status: 403 }),
+    };
+  }
+
+  const service = createSupabaseServiceClient();
+  const { data: profile, error: profileError } = await service
+    .from("profili")
+    .select("ruolo")
+    .ilike("email", email)
+    .eq("ruolo", "manager")
+    .limit(1);
+
+  if (profileError) {
+    return {
+      errorResponse: NextResponse.json({ error: profileError.message }, { status: 500 }),
+    };
+  }
+
+  if (!profile || profile.length === 0) {
+    return {
+      errorResponse: NextResponse.json({ error: "Forbidden" }, { status: 403 }),
+    };
+  }
+
+  return { user, service };
+}
+
+export async function PATCH(req: Request) {
+  const auth = await requireManagerContext();
+  if ("errorResponse" in auth) return auth.errorResponse;
+
+  let body: Record<string, unknown> = {};
+  try {
+    body = await req.json();
+  } catch {
+    return NextResponse.json({ error: "Invalid JSON body" }, { status: 400 });
+  }
+
+  const lineId = normalizeText(body.id);
+  if (!lineId) {
+    return NextResponse.json({ error: "id is required" }, { status: 400 });
+  }
+
+  const { data: existing, error: loadError } = await auth.service
+    .from("bank_statement_lines")
+    .select("*")
+    .eq("id", lineId)
+    .maybeSingle();
+
+  if (loadError) {
+    return NextResponse.json({ error: loadError.message }, { status: 500 });
+  }
+  if (!existing) {
+    return NextResponse.json({ error: "Line not found" }, { status: 404 });
+  }
+
+  const line = { ...(existing as BankStatementLineRow), amount: Number(existing.amount) };
+  const action = body.action;
+
+  if (action === "ignore" || action === "reopen") {
+    const fromStatus = action === "ignore" ? "pending" : "ignored";
+    const { data: updated, error: updateError } = await auth.service
+      .from("bank_statement_lines")
+      .update({ status: action === "ignore" ? "ignored" : "pending" })
+      .eq("id", lineId)
+      .eq("status", fromStatus)
+      .select("*")
+      .maybeSingle();
+
+    if (updateError) {
+      return NextResponse.json({ error: updateError.message }, { status: 500 });
+    }
+    if (!updated) {
+      return NextResponse.json({ error: `Line is not ${fromStatus}` }, { status: 409 });
+    }
+
+    return NextResponse.json({ ok: true, line: updated });
+  }
+
+  if (action !== "confirm") {
+    return NextResponse.json({ error: "Invalid action" }, { status: 400 });
+  }
+
+  if (line.amount <= 0) {
+    return NextResponse.json({ error: "Only incoming transfers can be matched" }, { status: 400 });
+  }
+
+  const allocations = parseAllocations(body.allocations);
+  if ("error" in allocations) {
+    return NextResponse.json({ error: allocations.error }, { status: 400 });
+  }
+
+  const allocated = allocations.reduce((sum, allocation) => sum + allocation.amount, 0);
+  if (Math.abs(allocated - line.amount) > 0.01) {
+    return NextResponse.json(
+      { error: `Allocations must add up to the line amount (${line.amount.toFixed(2)})` },
+      { status: 400 }
+    );
+  }
+
+  try {
+    await confirmBankStatementLine(
+      auth.service,
+      auth.user.id,
+      line,
+      allocations,
+      body.post_to_finance === true
+    );
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "Unable to confirm match";
+    const status = message === "Line is no longer pending" ? 409 : 500;
+    return NextResponse.json({ error: message }, { status });
+  }
+
+  return NextResponse.json({ ok: true });
+}
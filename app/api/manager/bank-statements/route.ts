@@ -0,0 +1,355 @@
+import { NextResponse } from "next/server";
+import { createSupabaseServerClient } from "@/lib/supabase/server";
+import { createSupabaseServiceClient } from "@/lib/supabase/service";
+import { parseCsvText } from "@/lib/csv/parse";
+import {
+  bankLinesFromRows,
+  detectCsvDelimiter,
+  pickConfidentMatch,
+  suggestBankMatches,
+  type BankDateFormat,
+  type BankStatementLayout,
+} from "@/lib/fees/bank-statement";
+import {
+  confirmBankStatementLine,
+  loadHufToEurRate,
+  loadMatchableParticipants,
+  type BankStatementLineRow,
+} from "@/lib/fees/bank-store";
+
+const MAX_CSV_BYTES = 5 * 1024 * 1024;
+const MAX_CSV_ROWS = 5000;
+const PREVIEW_LINES = 20;
+const DATE_FORMATS: BankDateFormat[] = ["YYYY-MM-DD", "DD/MM/YYYY", "DD.MM.YYYY", "MM/DD/YYYY"];
+const LINE_STATUSES = ["pending", "matched", "ignored"];
+
+function normalizeText(value: unknown): string | null {
+  if (typeof value !== "string") return null;
+  const trimmed = value.trim();
+  return trimmed.length > 0 ? trimmed : null;
+}
+
+function parseLayout(value: unknown): BankStatementLayout | { error: string } {
+  let data: Record<string, unknown>;
+  try {
+    data = typeof value === "string" ? JSON.parse(value) : ((value ?? {}) as Record<string, unknown>);
+  } catch {
+    return { error: "Invalid layout" };
+  }
+
+  const dateColumn = normalizeText(data.dateColumn);
+  const amountColumn = normalizeText(data.amountColumn);
+  const creditColumn = normalizeText(data.creditColumn);
+  const debitColumn = normalizeText(data.debitColumn);
+  const dateFormat = DATE_FORMATS.find((format) => format === data.dateFormat);
+
+  if (!dateColumn) return { error: "Date column is required" };
+  if (!amountColumn && !creditColumn) {
+    return { error: "Either an amount column or a credit column is required" };
+  }
+  if (!dateFormat) return { error: "Invalid date format" };
+
+  return {
+    delimiter: data.delimiter === "," ? "," : data.delimiter === "\t" ? "\t" : ";",
+    dateColumn,
+    amountColumn,
+    creditColumn: amountColumn ? null : creditColumn,
+    debitColumn: amountColumn ? null : debitColumn,
+    currencyColumn: normalizeText(data.currencyColumn),
+    defaultCurrency: data.defaultCurrency === "HUF" ? "HUF" : "EUR",
+    counterpartyColumn: normalizeText(data.counterpartyColumn),
+    referenceColumn: normalizeText(data.referenceColumn),
+    dateFormat,
+    decimalSeparator: data.decimalSeparator === "," ? "," : ".",
+  };
+}
+
+async function requireManagerContext() {
+  const supabase = await createSupabaseServerClient();
+  const {
+    data: { user },
+    error: userError,
+  } = await supabase.auth.getUser();
+
+  if (userError || !user) {
+    return {
+      errorResponse: NextResponse.json({ error: "Unauthorized" }, { status: 401 }),
+    };
+  }
+  const email = (user.email ?? "").trim().toLowerCase();
+  if (!email) {
+    return {
+      errorResponse: NextResponse.json({ error: "Forbidden" }, { status: 403 }),
+    };
+  }
+
+  const service = createSupabaseServiceClient();
+  const { data: profile, error: profileError } = await service
+    .from("profili")
+    .select("ruolo")
+    .ilike("email", email)
+    .eq("ruolo", "manager")
+    .limit(1);
+
+  if (profileError) {
+    return {
+      errorResponse: NextResponse.json({ error: profileError.message }, { status: 500 }),
+    };
+  }
+
+  if (!profile || profile.length === 0) {
+    return {
+      errorResponse: NextResponse.json({ error: "Forbidden" }, { status: 403 }),
+    };
+  }
+
+  return { user, service };
+}
+
+export async function GET(req: Request) {
+  const auth = await requireManagerContext();
+  if ("errorResponse" in auth) return auth.errorResponse;
+
+  const requestedStatus = new URL(req.url).searchParams.get("status") ?? "pending";
+  const status = LINE_STATUSES.includes(requestedStatus) ? requestedStatus : "pending";
+
+  try {
+    const [layoutsRes, importsRes, linesRes, participants, hufToEurRate] = await Promise.all([
+      auth.service.from("bank_statement_layouts").select("*").order("name", { ascending: true }),
+      auth.service
+        .from("bank_statement_imports")
+        .select("*")
+        .order("created_at", { ascending: false })
+        .limit(20),
+      auth.service
+        .from("bank_statement_lines")
+        .select("*")
+        .eq("status", status)
+        .order("booking_date", { ascending: false })
+        .order("line_number", { ascending: true })
+        .limit(500),
+      loadMatchableParticipants(auth.service),
+      loadHufToEurRate(auth.service),
+    ]);
+
+    const possibleError = [layoutsRes.error, importsRes.error, linesRes.error].find(Boolean);
+    if (possibleError) {
+      return NextResponse.json({ error: possibleError.message }, { status: 500 });
+    }
+
+    const lines = ((linesRes.data ?? []) as BankStatementLineRow[]).map((line) => ({
+      ...line,
+      amount: Number(line.amount),
+      suggestions:
+        line.status === "pending"
+          ? suggestBankMatches(
+              { ...line, amount: Number(line.amount) },
+              participants,
+              hufToEurRate
+            )
+          : [],
+    }));
+
+    return NextResponse.json({
+      layouts: layoutsRes.data ?? [],
+      imports: importsRes.data ?? [],
+      lines,
+      participants,
+      hufToEurRate,
+    });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "Unable to load bank statements";
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
+
+// Multipart upload. With preview=true nothing is stored and the parsed sample is returned
+// so the column mapping can be checked before importing.
+export async function POST(req: Request) {
+  const auth = await requireManagerContext();
+  if ("errorResponse" in auth) return auth.errorResponse;
+
+  let formData: FormData;
+  try {
+    formData = await req.formData();
+  } catch {
+    return NextResponse.json({ error: "Invalid form data" }, { status: 400 });
+  }
+
+  const file = formData.get("file");
+  if (!(file instanceof File)) {
+    return NextResponse.json({ error: "Missing file" }, { status: 400 });
+  }
+  if (file.size > MAX_CSV_BYTES) {
+    return NextResponse.json({ error: "CSV file is too large (max 5 MB)" }, { status: 400 });
+  }
+
+  const text = await file.text();
+  const isPreview = formData.get("preview") === "true";
+  const rawLayout = formData.get("layout");
+
+  if (isPreview && !rawLayout) {
+    const delimiter = detectCsvDelimiter(text);
+    const rows = parseCsvText(text, delimiter);
+    return NextResponse.json({
+      delimiter,
+      headers: (rows[0] ?? []).map((header) => header.replace(/^\uFEFF/, "").trim()),
+      sampleRows: rows.slice(1, PREVIEW_LINES + 1),
+    });
+  }
+
+  const layout = parseLayout(rawLayout);
+  if ("error" in layout) {
+    return NextResponse.json({ error: layout.error }, { status: 400 });
+  }
+
+  const rows = parseCsvText(text, layout.delimiter);
+  if (rows.length - 1 > MAX_CSV_ROWS) {
+    return NextResponse.json(
+      { error: `Too many rows in CSV (max ${MAX_CSV_ROWS})` },
+      { status: 400 }
+    );
+  }
+
+  const parsed = bankLinesFromRows(rows, layout);
+  if (isPreview) {
+    return NextResponse.json({
+      delimiter: layout.delimiter,
+      headers: parsed.headers,
+      lines: parsed.lines.slice(0, PREVIEW_LINES),
+      lineCount: parsed.lines.length,
+      errors: parsed.errors,
+    });
+  }
+
+  if (parsed.lines.length === 0) {
+    return NextResponse.json(
+      { error: "No valid lines found", errors: parsed.errors },
+      { status: 400 }
+    );
+  }
+
+  const layoutName = normalizeText(formData.get("saveLayoutName"));
+  if (layoutName) {
+    const { error: layoutError } = await auth.service
+      .from("bank_statement_layouts")
+      .upsert({ name: layoutName, layout }, { onConflict: "name" });
+    if (layoutError) {
+      return NextResponse.json({ error: layoutError.message }, { status: 500 });
+    }
+  }
+
+  const existingKeys = new Set<string>();
+  const keys = parsed.lines.map((line) => line.dedupeKey);
+  for (let index = 0; index < keys.length; index += 200) {
+    const { data, error } = await auth.service
+      .from("bank_statement_lines")
+      .select("dedupe_key")
+      .in("dedupe_key", keys.slice(index, index + 200));
+    if (error) {
+      return NextResponse.json({ error: error.message }, { status: 500 });
+    }
+    for (const row of (data ?? []) as Array<{ dedupe_key: string }>) {
+      existingKeys.add(row.dedupe_key);
+    }
+  }
+
+  const newLines = parsed.lines.filter((line) => !existingKeys.has(line.dedupeKey));
+
+  const { data: createdImport, error: importError } = await auth.service
+    .from("bank_statement_imports")
+    .insert({
+      file_name: file.name || null,
+      layout,
+      line_count: newLines.length,
+      duplicate_count: parsed.lines.length - newLines.length,
+      error_count: parsed.errors.length,
+      created_by: auth.user.id,
+    })
+    .select("id")
+    .single();
+
+  if (importError) {
+    return NextResponse.json({ error: importError.message }, { status: 500 });
+  }
+
+  const importId = (createdImport as { id: string }).id;
+  let insertedLines: BankStatementLineRow[] = [];
+
+  if (newLines.length > 0) {
+    const { data: inserted, error: linesError } = await auth.service
+      .from("bank_statement_lines")
+      .insert(
+        newLines.map((line) => ({
+          import_id: importId,
+          line_number: line.lineNumber,
+          booking_date: line.bookingDate,
+          amount: line.amount,
+          currency: line.currency,
+          counterparty: line.counterparty,
+          reference: line.reference,
+          raw: line.raw,
+          dedupe_key: line.dedupeKey,
+          // Outgoing transfers are never fee payments; keep them out of the review queue.
+          status: line.amount > 0 ? "pending" : "ignored",
+        }))
+      )
+      .select("*");
+
+    if (linesError) {
+      await auth.service.from("bank_statement_imports").delete().eq("id", importId);
+      return NextResponse.json({ error: linesError.message }, { status: 500 });
+    }
+
+    insertedLines = (inserted ?? []) as BankStatementLineRow[];
+  }
+
+  let autoConfirmed = 0;
+  const autoConfirmErrors: Array<{ lineNumber: number; message: string }> = [];
+
+  if (formData.get("autoConfirm") === "true") {
+    try {
+      const hufToEurRate = await loadHufToEurRate(auth.service);
+      const postToFinance = formData.get("postToFinance") === "true";
+      let participants = await loadMatchableParticipants(auth.service);
+
+      for (const line of insertedLines) {
+        if (line.status !== "pending") continue;
+        const match = pickConfidentMatch(
+          suggestBankMatches({ ...line, amount: Number(line.amount) }, participants, hufToEurRate)
+        );
+        if (!match) continue;
+
+        try {
+          await confirmBankStatementLine(
+            auth.service,
+            auth.user.id,
+            line,
+            match.allocations,
+            postToFinance
+          );
+          autoConfirmed += 1;
+          // Outstanding balances changed; later lines must see the new fee_paid values.
+          participants = await loadMatchableParticipants(auth.service);
+        } catch (error) {
+          autoConfirmErrors.push({
+            lineNumber: line.line_number,
+            message: error instanceof Error ? error.message : "Unable to confirm match",
+          });
+        }
+      }
+    } catch (error) {
+      const message = error instanceof Error ? error.message : "Unable to reconcile lines";
+      return NextResponse.json({ error: message }, { status: 500 });
+    }
+  }
+
+  return NextResponse.json({
+    ok: true,
+    importId,
+    imported: newLines.length,
+    duplicates: parsed.lines.length - newLines.length,
+    errors: [...parsed.errors, ...autoConfirmErrors],
+    autoConfirmed,
+  });
+}
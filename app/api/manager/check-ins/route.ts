@@ -0,0 +1,129 @@
+import { NextResponse } from "next/server";
+import { createSupabaseServerClient } from "@/lib/supabase/server";
+import { createSupabaseServiceClient } from "@/lib/supabase/service";
+import { isCheckInDate } from "@/lib/check-in/badge-token";
+import { listCheckIns, recordCheckIn, undoCheckIn } from "@/lib/check-in/store";
+
+function normalizeText(value: unknown): string | null {
+  if (typeof value !== "string") return null;
+  const trimmed = value.trim();
+  return trimmed.length > 0 ? trimmed : null;
+}
+
+async function requireManagerOrAdmin() {
+  const supabase = await createSupabaseServerClient();
+  const {
+    data: { user },
+    error: userError,
+  } = await supabase.auth.getUser();
+
+  if (userError || !user) {
+    return {
+      errorResponse: NextResponse.json({ error: "Unauthorized" }, { status: 401 }),
+    };
+  }
+  const email = (user.email ?? "").trim().toLowerCase();
+  if (!email) {
+    return {
+      errorResponse: NextResponse.json({ error: "Forbidden" }, { status: 403 }),
+    };
+  }
+
+  const service = createSupabaseServiceClient();
+  const { data: profile, error: profileError } = await service
+    .from("profili")
+    .select("ruolo")
+    .ilike("email", email)
+    .in("ruolo", ["manager", "admin"]);
+
+  if (profileError) {
+    return {
+      errorResponse: NextResponse.json({ error: profileError.message }, { status: 500 }),
+    };
+  }
+
+  if (!profile || profile.length === 0) {
+    return {
+      errorResponse: NextResponse.json({ error: "Forbidden" }, { status: 403 }),
+    };
+  }
+
+  return { service, userId: user.id };
+}
+
+// The scanning device sends its own local date, so check-ins land on the event day
+// staff are working even around midnight UTC.
+function parseDay(value: unknown): string | null {
+  const day = normalizeText(value);
+  return day && isCheckInDate(day) ? day : null;
+}
+
+export async function GET(req: Request) {
+  const auth = await requireManagerOrAdmin();
+  if ("errorResponse" in auth) return auth.errorResponse;
+
+  const day = parseDay(new URL(req.url).searchParams.get("day"));
+  if (!day) {
+    return NextResponse.json({ error: "Invalid day" }, { status: 400 });
+  }
+
+  try {
+    return NextResponse.json({ day, checkIns: await listCheckIns(auth.service, day) });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "Unable to load check-ins";
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
+
+export async function POST(req: Request) {
+  const auth = await requireManagerOrAdmin();
+  if ("errorResponse" in auth) return auth.errorResponse;
+
+  let body: Record<string, unknown> = {};
+  try {
+    body = await req.json();
+  } catch {
+    return NextResponse.json({ error: "Invalid JSON body" }, { status: 400 });
+  }
+
+  const code = normalizeText(body.code);
+  const day = parseDay(body.day);
+  if (!code) {
+    return NextResponse.json({ error: "Missing badge code" }, { status: 400 });
+  }
+  if (!day) {
+    return NextResponse.json({ error: "Invalid day" }, { status: 400 });
+  }
+
+  try {
+    const result = await recordCheckIn(auth.service, { code, day, userId: auth.userId });
+    if ("error" in result) {
+      return NextResponse.json({ error: result.error }, { status: result.status });
+    }
+    return NextResponse.json(result);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "Unable to record check-in";
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
+
+export async function DELETE(req: Request) {
+  const auth = await requireManagerOrAdmin();
+  if ("errorResponse" in auth) return auth.errorResponse;
+
+  const id = normalizeText(new URL(req.url).searchParams.get("id"));
+  if (!id) {
+    return NextResponse.json({ error: "Missing check-in id" }, { status: 400 });
+  }
+
+  try {
+    const removed = await undoCheckIn(auth.service, id);
+    if (!removed) {
+      return NextResponse.json({ error: "Check-in not found" }, { status: 404 });
+    }
+    return NextResponse.json({ ok: true });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "Unable to undo check-in";
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
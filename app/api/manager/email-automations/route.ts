@@ -0,0 +1,180 @@
+import { NextResponse } from "next/server";
+import { createSupabaseServerClient } from "@/lib/supabase/server";
+import { AUTOMATION_RULE_FIELDS, type AutomationRuleRow } from "@/lib/email/automation";
+import { parseAutomationRuleInput } from "@/lib/email/automation-rules";
+
+type AutomationRuleResponseRow = AutomationRuleRow & { updated_at: string };
+
+const RULE_FIELDS = `${AUTOMATION_RULE_FIELDS},updated_at`;
+
+function normalizeText(value: unknown): string {
+  if (typeof value !== "string") return "";
+  return value.trim();
+}
+
+async function requireManagerOrAdmin() {
+  const supabase = await createSupabaseServerClient();
+  const {
+    data: { user },
+    error: userError,
+  } = await supabase.auth.getUser();
+
+  if (userError || !user) {
+    return {
+      errorResponse: NextResponse.json({ error: "Unauthorized" }, { status: 401 }),
+    };
+  }
+  const email = (user.email ?? "").trim().toLowerCase();
+  if (!email) {
+    return {
+      errorResponse: NextResponse.json({ error: "Forbidden" }, { status: 403 }),
+    };
+  }
+
+  const { data: profile, error: profileError } = await supabase
+    .from("profili")
+    .select("ruolo")
+    .ilike("email", email)
+    .in("ruolo", ["manager", "admin"]);
+
+  if (profileError) {
+    return {
+      errorResponse: NextResponse.json({ error: profileError.message }, { status: 500 }),
+    };
+  }
+
+  if (!profile || profile.length === 0) {
+    return {
+      errorResponse: NextResponse.json({ error: "Forbidden" }, { status: 403 }),
+    };
+  }
+
+  return { supabase, userId: user.id };
+}
+
+function toRuleResponse(row: AutomationRuleResponseRow) {
+  return {
+    id: row.id,
+    name: row.name,
+    trigger: row.trigger,
+    templateId: row.template_id,
+    recipientType: row.recipient_type,
+    daysBefore: row.days_before,
+    dueDate: row.due_date,
+    enabled: row.enabled,
+    updatedAt: row.updated_at,
+  };
+}
+
+function ruleWriteError(error: { code?: string; message: string }) {
+  if (error.code === "23503") {
+    return NextResponse.json({ error: "Email template not found" }, { status: 400 });
+  }
+  return NextResponse.json({ error: error.message }, { status: 500 });
+}
+
+export async function GET() {
+  const auth = await requireManagerOrAdmin();
+  if ("errorResponse" in auth) return auth.errorResponse;
+
+  const { data, error } = await auth.supabase
+    .from("email_automation_rules")
+    .select(RULE_FIELDS)
+    .order("created_at", { ascending: true });
+
+  if (error) {
+    return NextResponse.json({ error: error.message }, { status: 500 });
+  }
+
+  return NextResponse.json({
+    rules: ((data ?? []) as AutomationRuleResponseRow[]).map(toRuleResponse),
+  });
+}
+
+export async function POST(req: Request) {
+  const auth = await requireManagerOrAdmin();
+  if ("errorResponse" in auth) return auth.errorResponse;
+
+  let body: Record<string, unknown> = {};
+  try {
+    body = await req.json();
+  } catch {
+    return NextResponse.json({ error: "Invalid JSON body" }, { status: 400 });
+  }
+
+  const parsed = parseAutomationRuleInput(body);
+  if ("error" in parsed) {
+    return NextResponse.json({ error: parsed.error }, { status: 400 });
+  }
+
+  const { data, error } = await auth.supabase
+    .from("email_automation_rules")
+    .insert({
+      ...parsed.values,
+      created_by: auth.userId,
+      updated_by: auth.userId,
+    })
+    .select(RULE_FIELDS)
+    .single();
+
+  if (error) return ruleWriteError(error);
+
+  return NextResponse.json({ rule: toRuleResponse(data as AutomationRuleResponseRow) });
+}
+
+export async function PATCH(req: Request) {
+  const auth = await requireManagerOrAdmin();
+  if ("errorResponse" in auth) return auth.errorResponse;
+
+  let body: Record<string, unknown> = {};
+  try {
+    body = await req.json();
+  } catch {
+    return NextResponse.json({ error: "Invalid JSON body" }, { status: 400 });
+  }
+
+  const id = normalizeText(body.id);
+  if (!id) {
+    return NextResponse.json({ error: "Rule id is required" }, { status: 400 });
+  }
+
+  const parsed = parseAutomationRuleInput(body);
+  if ("error" in parsed) {
+    return NextResponse.json({ error: parsed.error }, { status: 400 });
+  }
+
+  const { data, error } = await auth.supabase
+    .from("email_automation_rules")
+    .update({ ...parsed.values, updated_by: auth.userId })
+    .eq("id", id)
+    .select(RULE_FIELDS)
+    .single();
+
+  if (error) return ruleWriteError(error);
+
+  return NextResponse.json({ rule: toRuleResponse(data as AutomationRuleResponseRow) });
+}
+
+export async function DELETE(req: Request) {
+  const auth = await requireManagerOrAdmin();
+  if ("errorResponse" in auth) return auth.errorResponse;
+
+  let body: Record<string, unknown> = {};
+  try {
+    body = await req.json();
+  } catch {
+    return NextResponse.json({ error: "Invalid JSON body" }, { status: 400 });
+  }
+
+  const id = normalizeText(body.id);
+  if (!id) {
+    return NextResponse.json({ error: "Rule id is required" }, { status: 400 });
+  }
+
+  const { error } = await auth.supabase.from("email_automation_rules").delete().eq("id", id);
+  if (error) {
+    return NextResponse.json({ error: error.message }, { status: 500 });
+  }
+
+  return NextResponse.json({ success: true });
+}
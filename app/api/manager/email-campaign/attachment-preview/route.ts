@@ -0,0 +1,116 @@
+import { NextResponse } from "next/server";
+import { createSupabaseServerClient } from "@/lib/supabase/server";
+import { createSupabaseServiceClient } from "@/lib/supabase/service";
+import {
+  loadCampaignRecipients,
+  validateGeneratedAttachmentTemplates,
+} from "@/lib/email/campaign-recipients";
+import { parseGeneratedAttachments } from "@/lib/email/generated-attachments";
+import { renderGeneratedAttachments } from "@/lib/email/generated-documents";
+import { loadOrganizationSettings } from "@/lib/fees/document-store";
+import { isSupportedLocale } from "@/lib/i18n";
+
+function normalizeText(value: unknown): string {
+  if (typeof value !== "string") return "";
+  return value.trim();
+}
+
+async function requireManagerOrAdmin() {
+  const supabase = await createSupabaseServerClient();
+  const {
+    data: { user },
+    error: userError,
+  } = await supabase.auth.getUser();
+
+  if (userError || !user) {
+    return {
+      errorResponse: NextResponse.json({ error: "Unauthorized" }, { status: 401 }),
+    };
+  }
+  const email = (user.email ?? "").trim().toLowerCase();
+  if (!email) {
+    return {
+      errorResponse: NextResponse.json({ error: "Forbidden" }, { status: 403 }),
+    };
+  }
+
+  const service = createSupabaseServiceClient();
+  const { data: profile, error: profileError } = await service
+    .from("profili")
+    .select("ruolo")
+    .ilike("email", email)
+    .in("ruolo", ["manager", "admin"]);
+
+  if (profileError) {
+    return {
+      errorResponse: NextResponse.json({ error: profileError.message }, { status: 500 }),
+    };
+  }
+
+  if (!profile || profile.length === 0) {
+    return {
+      errorResponse: NextResponse.json({ error: "Forbidden" }, { status: 403 }),
+    };
+  }
+
+  return { service };
+}
+
+// Renders one generated attachment for one participant, exactly as the queue worker
+// would attach it, so the composer can show the PDF before sending.
+export async function POST(req: Request) {
+  const auth = await requireManagerOrAdmin();
+  if ("errorResponse" in auth) return auth.errorResponse;
+
+  let body: Record<string, unknown> = {};
+  try {
+    body = await req.json();
+  } catch {
+    return NextResponse.json({ error: "Invalid JSON body" }, { status: 400 });
+  }
+
+  const recipientId = normalizeText(body.recipientId);
+  if (!recipientId) {
+    return NextResponse.json({ error: "recipientId is required" }, { status: 400 });
+  }
+
+  const parsed = parseGeneratedAttachments(body.attachment ? [body.attachment] : []);
+  if (parsed.error || parsed.attachments.length === 0) {
+    return NextResponse.json(
+      { error: parsed.error ?? "attachment is required" },
+      { status: 400 }
+    );
+  }
+  const templateErrors = validateGeneratedAttachmentTemplates(parsed.attachments);
+  if (templateErrors.length > 0) {
+    return NextResponse.json({ error: templateErrors[0], templateErrors }, { status: 400 });
+  }
+
+  try {
+    const [recipient] = await loadCampaignRecipients(auth.service, "participants", [recipientId]);
+    if (!recipient) {
+      return NextResponse.json({ error: "Participant not found" }, { status: 404 });
+    }
+
+    const [document] = await renderGeneratedAttachments(
+      auth.service,
+      recipient,
+      parsed.attachments,
+      {
+        locale: isSupportedLocale(body.locale) ? body.locale : recipient.locale,
+        organization: await loadOrganizationSettings(auth.service),
+      }
+    );
+
+    return new NextResponse(Buffer.from(document.content, "base64"), {
+      headers: {
+        "Content-Type": "application/pdf",
+        "Content-Disposition": `inline; filename="${document.filename}"`,
+        "Cache-Control": "no-store",
+      },
+    });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "Unable to render attachment";
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
@@ -0,0 +1,106 @@
+import { NextResponse } from "next/server";
+import { createSupabaseServerClient } from "@/lib/supabase/server";
+import { createSupabaseServiceClient } from "@/lib/supabase/service";
+import {
+  loadCampaignRecipients,
+  validateCampaignTemplates,
+  type CampaignRecipientType,
+} from "@/lib/email/campaign-recipients";
+import { parseTemplateVariants } from "@/lib/email/template-variants";
+import { isSupportedLocale } from "@/lib/i18n";
+
+function normalizeText(value: unknown): string {
+  if (typeof value !== "string") return "";
+  return value.trim();
+}
+
+async function requireManagerOrAdmin() {
+  const supabase = await createSupabaseServerClient();
+  const {
+    data: { user },
+    error: userError,
+  } = await supabase.auth.getUser();
+
+  if (userError || !user) {
+    return {
+      errorResponse: NextResponse.json({ error: "Unauthorized" }, { status: 401 }),
+    };
+  }
+  const email = (user.email ?? "").trim().toLowerCase();
+  if (!email) {
+    return {
+      errorResponse: NextResponse.json({ error: "Forbidden" }, { status: 403 }),
+    };
+  }
+
+  const service = createSupabaseServiceClient();
+  const { data: profile, error: profileError } = await service
+    .from("profili")
+    .select("ruolo")
+    .ilike("email", email)
+    .in("ruolo", ["manager", "admin"]);
+
+  if (profileError) {
+    return {
+      errorResponse: NextResponse.json({ error: profileError.message }, { status: 500 }),
+    };
+  }
+
+  if (!profile || profile.length === 0) {
+    return {
+      errorResponse: NextResponse.json({ error: "Forbidden" }, { status: 403 }),
+    };
+  }
+
+  return { service };
+}
+
+// Renders the campaign for one recipient with the same data the queue worker will
+// use (group members for leader loops included).
+export async function POST(req: Request) {
+  const auth = await requireManagerOrAdmin();
+  if ("errorResponse" in auth) return auth.errorResponse;
+
+  let body: Record<string, unknown> = {};
+  try {
+    body = await req.json();
+  } catch {
+    return NextResponse.json({ error: "Invalid JSON body" }, { status: 400 });
+  }
+
+  const recipientType: CampaignRecipientType =
+    body.recipientType === "group_leaders" ? "group_leaders" : "participants";
+  const recipientId = normalizeText(body.recipientId);
+  const template = {
+    subject: normalizeText(body.subject),
+    html: normalizeText(body.html),
+    variants: parseTemplateVariants(body.variants),
+  };
+  // Without a locale the preview uses the recipient's own preferred language.
+  const localeOverride = isSupportedLocale(body.locale) ? body.locale : undefined;
+
+  if (!recipientId) {
+    return NextResponse.json({ error: "recipientId is required" }, { status: 400 });
+  }
+
+  const templateErrors = validateCampaignTemplates(recipientType, template);
+
+  try {
+    const [recipient] = await loadCampaignRecipients(auth.service, recipientType, [recipientId]);
+    if (!recipient) {
+      return NextResponse.json({ error: "Recipient not found" }, { status: 404 });
+    }
+
+    const rendered = recipient.render(template, localeOverride);
+    return NextResponse.json({
+      subject: rendered.subject,
+      html: rendered.html,
+      locale: rendered.locale,
+      recipientLocale: recipient.locale,
+      templateErrors,
+    });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "Unable to render preview";
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
@@ -1,91 +1,29 @@
 import { NextResponse } from "next/server";
 import { createSupabaseServerClient } from "@/lib/supabase/server";
 import { createSupabaseServiceClient } from "@/lib/supabase/service";
-import { sendGmailEmail } from "@/lib/email/gmail";
 import { loadEmailSenderRuntimeSettings } from "@/lib/email/settings";
 import {
-  htmlToText,
-  renderParticipantTemplateHtml,
-  renderParticipantTemplateText,
-  type ParticipantTemplateData,
-} from "@/lib/email/participant-template";
+  validateCampaignTemplates,
+  validateGeneratedAttachmentTemplates,
+  type CampaignRecipientType,
+} from "@/lib/email/campaign-recipients";
 import {
-  renderGroupLeaderTemplateHtml,
-  renderGroupLeaderTemplateText,
-  type GroupLeaderTemplateData,
-} from "@/lib/email/group-leader-template";
-import {
-  DIFFICOLTA_ACCESSIBILITA_OPTIONS,
-  ESIGENZE_ALIMENTARI_OPTIONS,
-  alloggioLongToShort,
-} from "@/lib/partecipante/constants";
-
-type ParticipantRow = {
-  id: string;
-  nome: string | null;
-  cognome: string | null;
-  email: string | null;
-  telefono: string | null;
-  paese_residenza: string | null;
-  nazione: string | null;
-  data_nascita: string | null;
-  data_arrivo: string | null;
-  data_partenza: string | null;
-  alloggio: string | null;
-  alloggio_short: string | null;
-  allergie: string | null;
-  esigenze_alimentari: string | null;
-  disabilita_accessibilita: boolean | null;
-  difficolta_accessibilita: string | null;
-  quota_totale: number | null;
-  gruppo_id: string | null;
-  gruppo_label: string | null;
-};
-
-type GroupLeaderRow = {
-  id: string;
-  email: string | null;
-  nome: string | null;
-  cognome: string | null;
-  ruolo: string | null;
-  telefono: string | null;
-  italia: boolean | null;
-  roma: boolean | null;
-  gruppi?: string[];
-};
-
-type ProfileGroupRow = {
-  profilo_id: string | null;
-  gruppo_id: string | null;
-};
-
-type EmailAttachment = {
-  filename: string;
-  content: string;
-  encoding: "base64";
-  contentType?: string;
-};
-
-type CampaignRecipientType = "participants" | "group_leaders";
-
-type SendLogInsertPayload = {
-  recipientType: CampaignRecipientType;
-  subject: string;
-  html: string;
-  senderUserId: string;
-  recipientIds: string[];
-};
-
-const SELECT_FIELDS =
-  "id,nome,cognome,email,telefono,paese_residenza,nazione,data_nascita,data_arrivo,data_partenza,alloggio,alloggio_short,allergie,esigenze_alimentari,disabilita_accessibilita,difficolta_accessibilita,quota_totale,gruppo_id,gruppo_label";
-const GROUP_LEADER_SELECT_FIELDS = "id,email,nome,cognome,ruolo,telefono,italia,roma";
+  cancelCampaign,
+  drainEmailQueue,
+  enqueueCampaign,
+  loadCampaignDelivery,
+  type EmailAttachment,
+} from "@/lib/email/campaign-queue";
+import { parseEmailCategory } from "@/lib/email/email-category";
+import { parseGeneratedAttachments } from "@/lib/email/generated-attachments";
+import { parseTemplateVariants } from "@/lib/email/template-variants";
+
 const MAX_ATTACHMENTS = 5;
 const MAX_ATTACHMENT_BASE64_LENGTH = 10 * 1024 * 1024;
 const MAX_TOTAL_BASE64_LENGTH = 20 * 1024 * 1024;
-const SEND_CONCURRENCY = 5;
-
-const esigenzeSet = new Set<string>(ESIGENZE_ALIMENTARI_OPTIONS);
-const difficoltaSet = new Set<string>(DIFFICOLTA_ACCESSIBILITA_OPTIONS);
+// Campaigns due now get one drain pass inside the request; whatever is left is
+// picked up by the queue worker (/api/cron/email-queue).
+const INLINE_DRAIN_MS = 20 * 1000;
 
 function normalizeText(value: unknown): string {
   if (typeof value !== "string") return "";
@@ -145,132 +83,6 @@ function parseAttachments(value: unknown): { attachments: EmailAttachment[]; err
   return { attachments, error: null };
 }
 
-function parseStoredEsigenze(value: string | null): string[] {
-  if (!value) return [];
-  return value
-    .split(",")
-    .map((item) => item.trim())
-    .filter((item) => item && esigenzeSet.has(item));
-}
-
-function parseStoredDifficolta(value: string | null): string[] {
-  if (!value) return [];
-  return value
-    .split(",")
-    .map((item) => item.trim())
-    .filter((item) => item && difficoltaSet.has(item));
-}
-
-function buildGroupLabel(row: ParticipantRow): string {
-  const value = (row.gruppo_label ?? row.gruppo_id ?? "").trim();
-  return value || "-";
-}
-
-async function persistSendLog(
-  service: ReturnType<typeof createSupabaseServiceClient>,
-  payload: SendLogInsertPayload
-): Promise<{ ok: true } | { ok: false; error: string }> {
-  if (payload.recipientIds.length === 0) {
-    return { ok: true };
-  }
-
-  const recipientIds = [...new Set(payload.recipientIds)];
-  const { data: log, error: logError } = await service
-    .from("email_send_logs")
-    .insert({
-      recipient_type: payload.recipientType,
-      subject: payload.subject,
-      body_content: payload.html,
-      sender_user_id: payload.senderUserId,
-      recipient_count: recipientIds.length,
-      recipient_ids_snapshot: recipientIds,
-      sent_at: new Date().toISOString(),
-    })
-    .select("id")
-    .single();
-
-  if (logError || !log) {
-    return { ok: false, error: logError?.message ?? "Unable to create email send log." };
-  }
-
-  const logId = String((log as { id: string }).id ?? "");
-  if (!logId) {
-    return { ok: false, error: "Unable to create email send log." };
-  }
-
-  const recipientRows = recipientIds.map((recipientId) => ({
-    send_log_id: logId,
-    recipient_type: payload.recipientType,
-    recipient_id: recipientId,
-  }));
-
-  const { error: recipientsError } = await service
-    .from("email_send_log_recipients")
-    .insert(recipientRows);
-
-  if (recipientsError) {
-    await service.from("email_send_logs").delete().eq("id", logId);
-    return { ok: false, error: recipientsError.message };
-  }
-
-  return { ok: true };
-}
-
-async function runWithConcurrency<T>(
-  items: T[],
-  concurrency: number,
-  worker: (item: T) => Promise<void>
-) {
-  let index = 0;
-  const workers = Array.from(
-    { length: Math.max(1, Math.min(concurrency, items.length || 1)) },
-    async () => {
-      while (index < items.length) {
-        const current = items[index];
-        index += 1;
-        await worker(current);
-      }
-    }
-  );
-  await Promise.all(workers);
-}
-
-function toTemplateData(row: ParticipantRow): ParticipantTemplateData {
-  return {
-    id: row.id,
-    nome: row.nome,
-    cognome: row.cognome,
-    email: row.email,
-    telefono: row.telefono,
-    paese_residenza: row.paese_residenza,
-    nazione: row.nazione,
-    data_nascita: row.data_nascita,
-    data_arrivo: row.data_arrivo,
-    data_partenza: row.data_partenza,
-    alloggio: row.alloggio_short ?? alloggioLongToShort(row.alloggio),
-    allergie: row.allergie,
-    esigenze_alimentari: parseStoredEsigenze(row.esigenze_alimentari),
-    disabilita_accessibilita: row.disabilita_accessibilita,
-    difficolta_accessibilita: parseStoredDifficolta(row.difficolta_accessibilita),
-    quota_totale: row.quota_totale,
-    group: buildGroupLabel(row),
-  };
-}
-
-function toGroupLeaderTemplateData(row: GroupLeaderRow): GroupLeaderTemplateData {
-  return {
-    id: row.id,
-    email: row.email,
-    nome: row.nome,
-    cognome: row.cognome,
-    ruolo: row.ruolo,
-    telefono: row.telefono,
-    italia: row.italia,
-    roma: row.roma,
-    gruppi: row.gruppi ?? [],
-  };
-}
-
 async function requireManagerOrAdmin() {
   const supabase = await createSupabaseServerClient();
   const {
@@ -312,6 +124,42 @@ async function requireManagerOrAdmin() {
   return { service, userId: user.id };
 }
 
+function parseSendAt(value: unknown): { sendAt: Date; error: string | null } {
+  const raw = normalizeText(value);
+  const now = new Date();
+  if (!raw) {
+    return { sendAt: now, error: null };
+  }
+
+  const parsed = new Date(raw);
+  if (Number.isNaN(parsed.getTime())) {
+    return { sendAt: now, error: "Invalid send time." };
+  }
+
+  return { sendAt: parsed.getTime() < now.getTime() ? now : parsed, error: null };
+}
+
+export async function GET(req: Request) {
+  const auth = await requireManagerOrAdmin();
+  if ("errorResponse" in auth) return auth.errorResponse;
+
+  const logId = normalizeText(new URL(req.url).searchParams.get("logId"));
+  if (!logId) {
+    return NextResponse.json({ error: "logId is required" }, { status: 400 });
+  }
+
+  try {
+    const delivery = await loadCampaignDelivery(auth.service, logId);
+    if (!delivery) {
+      return NextResponse.json({ error: "Campaign not found" }, { status: 404 });
+    }
+    return NextResponse.json(delivery);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "Unable to load campaign";
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
+
 export async function POST(req: Request) {
   const auth = await requireManagerOrAdmin();
   if ("errorResponse" in auth) return auth.errorResponse;
@@ -334,12 +182,28 @@ export async function POST(req: Request) {
     ...new Set(recipientIdsInput.filter((item): item is string => typeof item === "string")),
   ];
   const subjectTemplate = normalizeText(body.subject);
+  const subjectBTemplate = normalizeText(body.subjectB) || null;
   const htmlTemplate = normalizeText(body.html);
+  const variants = parseTemplateVariants(body.variants);
+  const category = parseEmailCategory(body.category);
   const parsedAttachments = parseAttachments(body.attachments);
   if (parsedAttachments.error) {
     return NextResponse.json({ error: parsedAttachments.error }, { status: 400 });
   }
-  const attachments = parsedAttachments.attachments;
+  const parsedGenerated = parseGeneratedAttachments(body.generatedAttachments);
+  if (parsedGenerated.error) {
+    return NextResponse.json({ error: parsedGenerated.error }, { status: 400 });
+  }
+  if (parsedGenerated.attachments.length > 0 && recipientType !== "participants") {
+    return NextResponse.json(
+      { error: "Generated attachments are only available for participant campaigns" },
+      { status: 400 }
+    );
+  }
+  const parsedSendAt = parseSendAt(body.sendAt);
+  if (parsedSendAt.error) {
+    return NextResponse.json({ error: parsedSendAt.error }, { status: 400 });
+  }
 
   if (recipientIds.length === 0) {
     return NextResponse.json({ error: "No recipients selected" }, { status: 400 });
@@ -352,169 +216,133 @@ export async function POST(req: Request) {
   if (!htmlTemplate) {
     return NextResponse.json({ error: "Message body is required" }, { status: 400 });
   }
+  if (subjectBTemplate) {
+    // Translations have their own subjects, which would mix languages into the test.
+    if (Object.keys(variants).length > 0) {
+      return NextResponse.json(
+        { error: "A/B subject tests cannot be combined with translations" },
+        { status: 400 }
+      );
+    }
+    if (subjectBTemplate === subjectTemplate) {
+      return NextResponse.json({ error: "Subject B must differ from subject A" }, { status: 400 });
+    }
+  }
 
-  const sentTo: string[] = [];
-  const skipped: { id: string; reason: string }[] = [];
-  const failed: { id: string; reason: string }[] = [];
-  const senderSettings = await loadEmailSenderRuntimeSettings(auth.service);
-
-  if (!senderSettings.gmailAppPassword) {
+  const templateErrors = [
+    ...validateCampaignTemplates(recipientType, {
+      subject: subjectTemplate,
+      html: htmlTemplate,
+      variants,
+    }),
+    ...(subjectBTemplate
+      ? validateCampaignTemplates(recipientType, {
+          subject: subjectBTemplate,
+          html: "",
+          variants: {},
+        }).map((error) => error.replace(/^Subject:/, "Subject B:"))
+      : []),
+    ...validateGeneratedAttachmentTemplates(parsedGenerated.attachments),
+  ];
+  if (templateErrors.length > 0) {
     return NextResponse.json(
-      { error: "Google App Password is not configured for email sending" },
+      { error: `Fix the template before sending. ${templateErrors[0]}`, templateErrors },
       { status: 400 }
     );
   }
 
-  if (recipientType === "group_leaders") {
-    const { data, error } = await auth.service
-      .from("profili")
-      .select(GROUP_LEADER_SELECT_FIELDS)
-      .eq("ruolo", "capogruppo")
-      .in("id", recipientIds);
-
-    if (error) {
-      return NextResponse.json({ error: error.message }, { status: 500 });
-    }
-
-    const rows = (data ?? []) as GroupLeaderRow[];
-    const byId = new Map(rows.map((row) => [row.id, row]));
-    const recipients = recipientIds
-      .map((id) => byId.get(id))
-      .filter((row): row is GroupLeaderRow => Boolean(row));
-
-    if (recipients.length === 0) {
-      return NextResponse.json({ error: "No matching recipients found" }, { status: 404 });
-    }
-
-    const groupsByLeader = new Map<string, string[]>();
-    const leaderIds = recipients.map((recipient) => recipient.id);
-    if (leaderIds.length > 0) {
-      const { data: profileGroups, error: groupsError } = await auth.service
-        .from("profili_gruppi")
-        .select("profilo_id,gruppo_id")
-        .in("profilo_id", leaderIds);
+  const senderSettings = await loadEmailSenderRuntimeSettings(auth.service);
+  if (senderSettings.transportError) {
+    return NextResponse.json({ error: senderSettings.transportError }, { status: 400 });
+  }
 
-      if (groupsError) {
-        return NextResponse.json({ error: groupsError.message }, { status: 500 });
-      }
+  try {
+    const queued = await enqueueCampaign(auth.service, {
+      recipientType,
+      recipientIds,
+      subject: subjectTemplate,
+      html: htmlTemplate,
+      variants,
+      attachments: parsedAttachments.attachments,
+      generatedAttachments: parsedGenerated.attachments,
+      category,
+      trackOpens: body.trackOpens === true,
+      trackClicks: body.trackClicks === true,
+      subjectB: subjectBTemplate,
+      senderUserId: auth.userId,
+      sendAt: parsedSendAt.sendAt,
+    });
 
-      for (const row of (profileGroups ?? []) as ProfileGroupRow[]) {
-        const profileId = (row.profilo_id ?? "").trim();
-        const groupId = (row.gruppo_id ?? "").trim();
-        if (!profileId || !groupId) continue;
-        const existing = groupsByLeader.get(profileId) ?? [];
-        if (!existing.includes(groupId)) {
-          existing.push(groupId);
-          existing.sort((a, b) => a.localeCompare(b));
-          groupsByLeader.set(profileId, existing);
-        }
-      }
+    if ("error" in queued) {
+      return NextResponse.json({ error: queued.error }, { status: queued.status });
     }
 
-    await runWithConcurrency(recipients, SEND_CONCURRENCY, async (row) => {
-      const groupLeader = toGroupLeaderTemplateData({
-        ...row,
-        gruppi: groupsByLeader.get(row.id) ?? [],
-      });
-      const to = normalizeText(groupLeader.email);
-      if (!to) {
-        skipped.push({ id: row.id, reason: "Missing email" });
-        return;
-      }
+    const scheduled = parsedSendAt.sendAt.getTime() > Date.now();
+    const drain =
+      !scheduled && queued.queued > 0
+        ? await drainEmailQueue(auth.service, { deadlineMs: INLINE_DRAIN_MS })
+        : null;
+    const delivery = await loadCampaignDelivery(auth.service, queued.logId);
 
-      const subject = renderGroupLeaderTemplateText(subjectTemplate, groupLeader);
-      const html = renderGroupLeaderTemplateHtml(htmlTemplate, groupLeader);
-      const text = htmlToText(html);
-
-      try {
-        await sendGmailEmail(
-          { to, subject, html, text, attachments, from: senderSettings.senderEmail },
-          {
-            gmailUser: senderSettings.gmailUser,
-            gmailAppPassword: senderSettings.gmailAppPassword,
-            senderEmail: senderSettings.senderEmail,
-          }
-        );
-        sentTo.push(row.id);
-      } catch (sendError) {
-        const reason = sendError instanceof Error ? sendError.message : "Send failed";
-        failed.push({ id: row.id, reason });
-      }
+    return NextResponse.json({
+      recipientType,
+      category,
+      logId: queued.logId,
+      sendAt: queued.sendAt,
+      scheduled,
+      status: delivery?.status ?? "scheduled",
+      requested: recipientIds.length,
+      queued: queued.queued,
+      skipped: queued.skipped,
+      counts: delivery?.counts ?? null,
+      drainError: drain?.error ?? null,
     });
-  } else {
-    const { data, error } = await auth.service
-      .from("partecipanti")
-      .select(SELECT_FIELDS)
-      .in("id", recipientIds);
-
-    if (error) {
-      return NextResponse.json({ error: error.message }, { status: 500 });
-    }
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "Unable to queue campaign";
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
 
-    const rows = (data ?? []) as ParticipantRow[];
-    const byId = new Map(rows.map((row) => [row.id, row]));
-    const recipients = recipientIds
-      .map((id) => byId.get(id))
-      .filter((row): row is ParticipantRow => Boolean(row));
+export async function PATCH(req: Request) {
+  const auth = await requireManagerOrAdmin();
+  if ("errorResponse" in auth) return auth.errorResponse;
 
-    if (recipients.length === 0) {
-      return NextResponse.json({ error: "No matching recipients found" }, { status: 404 });
-    }
+  let body: Record<string, unknown> = {};
+  try {
+    body = await req.json();
+  } catch {
+    return NextResponse.json({ error: "Invalid JSON body" }, { status: 400 });
+  }
 
-    await runWithConcurrency(recipients, SEND_CONCURRENCY, async (row) => {
-      const participant = toTemplateData(row);
-      const to = normalizeText(participant.email);
-      if (!to) {
-        skipped.push({ id: row.id, reason: "Missing email" });
-        return;
-      }
+  const logId = normalizeText(body.logId);
+  const action = normalizeText(body.action);
+  if (!logId) {
+    return NextResponse.json({ error: "logId is required" }, { status: 400 });
+  }
 
-      const subject = renderParticipantTemplateText(subjectTemplate, participant);
-      const html = renderParticipantTemplateHtml(htmlTemplate, participant);
-      const text = htmlToText(html);
-
-      try {
-        await sendGmailEmail(
-          { to, subject, html, text, attachments, from: senderSettings.senderEmail },
-          {
-            gmailUser: senderSettings.gmailUser,
-            gmailAppPassword: senderSettings.gmailAppPassword,
-            senderEmail: senderSettings.senderEmail,
-          }
-        );
-        sentTo.push(row.id);
-      } catch (sendError) {
-        const reason = sendError instanceof Error ? sendError.message : "Send failed";
-        failed.push({ id: row.id, reason });
+  try {
+    if (action === "cancel") {
+      const result = await cancelCampaign(auth.service, auth.userId, logId);
+      if ("error" in result) {
+        return NextResponse.json({ error: result.error }, { status: result.status });
       }
-    });
-  }
+    } else if (action === "process") {
+      // Lets managers push a due campaign forward without waiting for the worker.
+      const drain = await drainEmailQueue(auth.service, { deadlineMs: INLINE_DRAIN_MS });
+      if (drain.error) {
+        return NextResponse.json({ error: drain.error }, { status: 400 });
+      }
+    } else {
+      return NextResponse.json({ error: "Unsupported action" }, { status: 400 });
+    }
 
-  let logSaved = true;
-  let logError: string | null = null;
-  if (sentTo.length > 0) {
-    const saveResult = await persistSendLog(auth.service, {
-      recipientType,
-      subject: subjectTemplate,
-      html: htmlTemplate,
-      senderUserId: auth.userId,
-      recipientIds: sentTo,
-    });
-    if (!saveResult.ok) {
-      logSaved = false;
-      logError = saveResult.error;
+    const delivery = await loadCampaignDelivery(auth.service, logId);
+    if (!delivery) {
+      return NextResponse.json({ error: "Campaign not found" }, { status: 404 });
     }
+    return NextResponse.json(delivery);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "Unable to update campaign";
+    return NextResponse.json({ error: message }, { status: 500 });
   }
-
-  return NextResponse.json({
-    recipientType,
-    requested: recipientIds.length,
-    resolved: sentTo.length + skipped.length + failed.length,
-    sent: sentTo.length,
-    sentIds: sentTo,
-    skipped,
-    failed,
-    logSaved,
-    logError,
-  });
 }
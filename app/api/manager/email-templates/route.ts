@@ -1,14 +1,18 @@
 import { NextResponse } from "next/server";
 import { createSupabaseServerClient } from "@/lib/supabase/server";
+import { parseTemplateVariants } from "@/lib/email/template-variants";
 
 type EmailTemplateRow = {
   id: string;
   name: string;
   subject: string;
   html: string;
+  variants: unknown;
   updated_at: string;
 };
 
+const TEMPLATE_FIELDS = "id,name,subject,html,variants,updated_at";
+
 function normalizeText(value: unknown): string {
   if (typeof value !== "string") return "";
   return value.trim();
@@ -60,6 +64,7 @@ function toTemplateResponse(row: EmailTemplateRow) {
     name: row.name,
     subject: row.subject,
     html: row.html,
+    variants: parseTemplateVariants(row.variants),
     updatedAt: row.updated_at,
   };
 }
@@ -70,7 +75,7 @@ export async function GET() {
 
   const { data, error } = await auth.supabase
     .from("email_templates")
-    .select("id,name,subject,html,updated_at")
+    .select(TEMPLATE_FIELDS)
     .order("updated_at", { ascending: false });
 
   if (error) {
@@ -96,6 +101,7 @@ export async function POST(req: Request) {
   const name = normalizeText(body.name);
   const subject = typeof body.subject === "string" ? body.subject : "";
   const html = typeof body.html === "string" ? body.html : "";
+  const variants = parseTemplateVariants(body.variants);
 
   if (!name) {
     return NextResponse.json({ error: "Template name is required" }, { status: 400 });
@@ -111,10 +117,11 @@ export async function POST(req: Request) {
       name,
       subject,
       html,
+      variants,
       created_by: auth.userId,
       updated_by: auth.userId,
     })
-    .select("id,name,subject,html,updated_at")
+    .select(TEMPLATE_FIELDS)
     .single();
 
   if (error) {
@@ -139,6 +146,7 @@ export async function PATCH(req: Request) {
   const name = normalizeText(body.name);
   const subject = typeof body.subject === "string" ? body.subject : "";
   const html = typeof body.html === "string" ? body.html : "";
+  const variants = parseTemplateVariants(body.variants);
 
   if (!id) {
     return NextResponse.json({ error: "Template id is required" }, { status: 400 });
@@ -158,10 +166,11 @@ export async function PATCH(req: Request) {
       name,
       subject,
       html,
+      variants,
       updated_by: auth.userId,
     })
     .eq("id", id)
-    .select("id,name,subject,html,updated_at")
+    .select(TEMPLATE_FIELDS)
     .single();
 
   if (error) {
@@ -188,6 +197,12 @@ export async function DELETE(req: Request) {
   }
 
   const { error } = await auth.supabase.from("email_templates").delete().eq("id", id);
+  if (error?.code === "23503") {
+    return NextResponse.json(
+      { error: "Template is used by an automatic email rule" },
+      { status: 409 }
+    );
+  }
   if (error) {
     return NextResponse.json({ error: error.message }, { status: 500 });
   }
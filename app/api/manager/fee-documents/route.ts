@@ -0,0 +1,95 @@
+import { NextResponse } from "next/server";
+import { createSupabaseServerClient } from "@/lib/supabase/server";
+import { createSupabaseServiceClient } from "@/lib/supabase/service";
+import { renderFeeDocumentPdf } from "@/lib/fees/documents";
+import { issueGroupInvoice, issueParticipantReceipt } from "@/lib/fees/document-store";
+
+function normalizeText(value: unknown): string | null {
+  if (typeof value !== "string") return null;
+  const trimmed = value.trim();
+  return trimmed.length > 0 ? trimmed : null;
+}
+
+async function requireManagerContext() {
+  const supabase = await createSupabaseServerClient();
+  const {
+    data: { user },
+    error: userError,
+  } = await supabase.auth.getUser();
+
+  if (userError || !user) {
+    return {
+      errorResponse: NextResponse.json({ error: "Unauthorized" }, { status: 401 }),
+    };
+  }
+  const email = (user.email ?? "").trim().toLowerCase();
+  if (!email) {
+    return {
+      errorResponse: NextResponse.json({ error: "Forbidden" }, { status: 403 }),
+    };
+  }
+
+  const service = createSupabaseServiceClient();
+  const { data: profile, error: profileError } = await service
+    .from("profili")
+    .select("ruolo")
+    .ilike("email", email)
+    .eq("ruolo", "manager")
+    .limit(1);
+
+  if (profileError) {
+    return {
+      errorResponse: NextResponse.json({ error: profileError.message }, { status: 500 }),
+    };
+  }
+
+  if (!profile || profile.length === 0) {
+    return {
+      errorResponse: NextResponse.json({ error: "Forbidden" }, { status: 403 }),
+    };
+  }
+
+  return { user, service };
+}
+
+export async function GET(req: Request) {
+  const auth = await requireManagerContext();
+  if ("errorResponse" in auth) return auth.errorResponse;
+
+  const params = new URL(req.url).searchParams;
+  const type = params.get("type");
+
+  try {
+    let result;
+    if (type === "receipt") {
+      const participantId = normalizeText(params.get("participantId"));
+      if (!participantId) {
+        return NextResponse.json({ error: "participantId is required" }, { status: 400 });
+      }
+      result = await issueParticipantReceipt(auth.service, auth.user.id, participantId);
+    } else if (type === "invoice") {
+      const group = normalizeText(params.get("group"));
+      if (!group) {
+        return NextResponse.json({ error: "group is required" }, { status: 400 });
+      }
+      result = await issueGroupInvoice(auth.service, auth.user.id, group);
+    } else {
+      return NextResponse.json({ error: "type must be receipt or invoice" }, { status: 400 });
+    }
+
+    if ("error" in result) {
+      return NextResponse.json({ error: result.error }, { status: result.status });
+    }
+
+    return new NextResponse(Buffer.from(renderFeeDocumentPdf(result)), {
+      headers: {
+        "Content-Type": "application/pdf",
+        "Content-Disposition": `attachment; filename="${result.number}.pdf"`,
+        "Cache-Control": "no-store",
+      },
+    });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "Unable to generate document";
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
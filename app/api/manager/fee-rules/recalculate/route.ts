@@ -0,0 +1,163 @@
+import { NextResponse } from "next/server";
+import { createSupabaseServerClient } from "@/lib/supabase/server";
+import { createSupabaseServiceClient } from "@/lib/supabase/service";
+import { evaluateParticipationFee, feeRuleInputFromParticipant } from "@/lib/fees/rules";
+import { loadParticipationFeeRules } from "@/lib/fees/store";
+
+type ParticipantFeeSourceRow = {
+  id: string;
+  nome: string | null;
+  cognome: string | null;
+  gruppo_id: string | null;
+  gruppo_label: string | null;
+  data_arrivo: string | null;
+  data_partenza: string | null;
+  alloggio_short: string | null;
+  tipo_iscrizione: string | null;
+  eta: number | null;
+  submitted_at_tally: string | null;
+  created_at: string | null;
+  quota_totale: number | null;
+};
+
+const SELECT_FIELDS =
+  "id,nome,cognome,gruppo_id,gruppo_label,data_arrivo,data_partenza,alloggio_short,tipo_iscrizione,eta,submitted_at_tally,created_at,quota_totale";
+
+function normalizeText(value: unknown): string | null {
+  if (typeof value !== "string") return null;
+  const trimmed = value.trim();
+  return trimmed.length > 0 ? trimmed : null;
+}
+
+function sameAmount(a: number | null, b: number | null): boolean {
+  if (a === null || b === null) return a === b;
+  return Math.abs(Number(a) - Number(b)) < 0.005;
+}
+
+async function requireManagerContext() {
+  const supabase = await createSupabaseServerClient();
+  const {
+    data: { user },
+    error: userError,
+  } = await supabase.auth.getUser();
+
+  if (userError || !user) {
+    return {
+      errorResponse: NextResponse.json({ error: "Unauthorized" }, { status: 401 }),
+    };
+  }
+  const email = (user.email ?? "").trim().toLowerCase();
+  if (!email) {
+    return {
+      errorResponse: NextResponse.json({ error: "Forbidden" }, { status: 403 }),
+    };
+  }
+
+  const service = createSupabaseServiceClient();
+  const { data: profile, error: profileError } = await service
+    .from("profili")
+    .select("ruolo")
+    .ilike("email", email)
+    .eq("ruolo", "manager")
+    .limit(1);
+
+  if (profileError) {
+    return {
+      errorResponse: NextResponse.json({ error: profileError.message }, { status: 500 }),
+    };
+  }
+
+  if (!profile || profile.length === 0) {
+    return {
+      errorResponse: NextResponse.json({ error: "Forbidden" }, { status: 403 }),
+    };
+  }
+
+  return { user, service };
+}
+
+// Preview: evaluates the current rules in TS and lists every participant whose
+// stored quota_totale would change.
+export async function GET() {
+  const auth = await requireManagerContext();
+  if ("errorResponse" in auth) return auth.errorResponse;
+
+  try {
+    const [rules, participantsRes] = await Promise.all([
+      loadParticipationFeeRules(auth.service),
+      auth.service
+        .from("partecipanti")
+        .select(SELECT_FIELDS)
+        .order("cognome", { ascending: true })
+        .order("nome", { ascending: true }),
+    ]);
+
+    if (participantsRes.error) {
+      return NextResponse.json({ error: participantsRes.error.message }, { status: 500 });
+    }
+
+    const participants = (participantsRes.data ?? []) as ParticipantFeeSourceRow[];
+    const changes = participants.flatMap((participant) => {
+      const evaluation = evaluateParticipationFee(
+        rules,
+        feeRuleInputFromParticipant(participant)
+      );
+      if (sameAmount(participant.quota_totale, evaluation.amount)) return [];
+      return [
+        {
+          id: participant.id,
+          nome: participant.nome,
+          cognome: participant.cognome,
+          group: (participant.gruppo_label ?? participant.gruppo_id ?? "").trim() || "-",
+          current_quota: participant.quota_totale,
+          new_quota: evaluation.amount,
+          rule_label: evaluation.rule?.label ?? null,
+        },
+      ];
+    });
+
+    return NextResponse.json({ totalParticipants: participants.length, changes });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "Unable to preview recalculation";
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
+
+// Apply: the DB recomputes the selected participants with the same rules.
+export async function POST(req: Request) {
+  const auth = await requireManagerContext();
+  if ("errorResponse" in auth) return auth.errorResponse;
+
+  let body: Record<string, unknown> = {};
+  try {
+    body = await req.json();
+  } catch {
+    return NextResponse.json({ error: "Invalid JSON body" }, { status: 400 });
+  }
+
+  const rawIds = Array.isArray(body.participantIds) ? body.participantIds : [];
+  const participantIds = rawIds
+    .map((value) => normalizeText(value))
+    .filter((value): value is string => Boolean(value));
+
+  if (participantIds.length === 0) {
+    return NextResponse.json({ error: "participantIds is required" }, { status: 400 });
+  }
+
+  const { data: updatedRows, error } = await auth.service.rpc(
+    "manager_recalculate_participation_fees",
+    {
+      participant_ids: participantIds,
+      actor_id: auth.user.id,
+    }
+  );
+
+  if (error) {
+    return NextResponse.json({ error: error.message }, { status: 500 });
+  }
+
+  return NextResponse.json({
+    ok: true,
+    updated: ((updatedRows ?? []) as Array<{ id: string }>).length,
+  });
+}
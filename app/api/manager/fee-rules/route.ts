@@ -0,0 +1,247 @@
+import { NextResponse } from "next/server";
+import { createSupabaseServerClient } from "@/lib/supabase/server";
+import { createSupabaseServiceClient } from "@/lib/supabase/service";
+import { loadParticipationFeeRules } from "@/lib/fees/store";
+
+type FeeRuleWrite = {
+  label: string | null;
+  priority: number | null;
+  amount: number | null;
+  min_nights: number | null;
+  max_nights: number | null;
+  alloggio_short: string | null;
+  tipo_iscrizione: string | null;
+  min_age: number | null;
+  max_age: number | null;
+  registered_until: string | null;
+  is_active: boolean;
+};
+
+function normalizeText(value: unknown): string | null {
+  if (typeof value !== "string") return null;
+  const trimmed = value.trim();
+  return trimmed.length > 0 ? trimmed : null;
+}
+
+function normalizeDate(value: unknown): string | null {
+  const normalized = normalizeText(value);
+  if (!normalized) return null;
+  return /^\d{4}-\d{2}-\d{2}$/.test(normalized) ? normalized : null;
+}
+
+function normalizeOptionalInteger(value: unknown): number | null | undefined {
+  if (value === null || value === undefined || value === "") return null;
+  const numeric = typeof value === "number" ? value : Number(value);
+  if (!Number.isInteger(numeric) || numeric < 0) return undefined;
+  return numeric;
+}
+
+function normalizeAmount(value: unknown): number | null {
+  const numeric = typeof value === "number" ? value : Number(value);
+  if (!Number.isFinite(numeric) || numeric < 0) return null;
+  return Number(numeric.toFixed(2));
+}
+
+function parseRuleWrite(data: Record<string, unknown>): FeeRuleWrite | { error: string } {
+  const label = normalizeText(data.label);
+  const priority = normalizeOptionalInteger(data.priority);
+  const amount = normalizeAmount(data.amount);
+  const minNights = normalizeOptionalInteger(data.min_nights);
+  const maxNights = normalizeOptionalInteger(data.max_nights);
+  const minAge = normalizeOptionalInteger(data.min_age);
+  const maxAge = normalizeOptionalInteger(data.max_age);
+  const registeredUntil = normalizeDate(data.registered_until);
+
+  if (!label) return { error: "label is required" };
+  if (priority === undefined || priority === null) {
+    return { error: "priority must be a whole number" };
+  }
+  if (amount === null) return { error: "amount must be a number greater than or equal to 0" };
+  if (minNights === undefined || maxNights === undefined) {
+    return { error: "nights must be whole numbers" };
+  }
+  if (minNights !== null && maxNights !== null && minNights > maxNights) {
+    return { error: "min_nights cannot be greater than max_nights" };
+  }
+  if (minAge === undefined || maxAge === undefined) {
+    return { error: "ages must be whole numbers" };
+  }
+  if (minAge !== null && maxAge !== null && minAge > maxAge) {
+    return { error: "min_age cannot be greater than max_age" };
+  }
+  if (normalizeText(data.registered_until) && !registeredUntil) {
+    return { error: "registered_until must be a YYYY-MM-DD date" };
+  }
+
+  return {
+    label,
+    priority,
+    amount,
+    min_nights: minNights,
+    max_nights: maxNights,
+    alloggio_short: normalizeText(data.alloggio_short),
+    tipo_iscrizione: normalizeText(data.tipo_iscrizione),
+    min_age: minAge,
+    max_age: maxAge,
+    registered_until: registeredUntil,
+    is_active: data.is_active !== false,
+  };
+}
+
+function mapWriteError(error: { code?: string | null; message?: string | null }) {
+  if (error.code === "23505") {
+    return NextResponse.json(
+      { error: "Another rule already uses this priority" },
+      { status: 409 }
+    );
+  }
+  if (error.code === "23514") {
+    return NextResponse.json({ error: error.message ?? "Invalid rule" }, { status: 400 });
+  }
+  return NextResponse.json({ error: error.message ?? "Unable to save rule" }, { status: 500 });
+}
+
+async function requireManagerContext() {
+  const supabase = await createSupabaseServerClient();
+  const {
+    data: { user },
+    error: userError,
+  } = await supabase.auth.getUser();
+
+  if (userError || !user) {
+    return {
+      errorResponse: NextResponse.json({ error: "Unauthorized" }, { status: 401 }),
+    };
+  }
+  const email = (user.email ?? "").trim().toLowerCase();
+  if (!email) {
+    return {
+      errorResponse: NextResponse.json({ error: "Forbidden" }, { status: 403 }),
+    };
+  }
+
+  const service = createSupabaseServiceClient();
+  const { data: profile, error: profileError } = await service
+    .from("profili")
+    .select("ruolo")
+    .ilike("email", email)
+    .eq("ruolo", "manager")
+    .limit(1);
+
+  if (profileError) {
+    return {
+      errorResponse: NextResponse.json({ error: profileError.message }, { status: 500 }),
+    };
+  }
+
+  if (!profile || profile.length === 0) {
+    return {
+      errorResponse: NextResponse.json({ error: "Forbidden" }, { status: 403 }),
+    };
+  }
+
+  return { user, service };
+}
+
+export async function GET() {
+  const auth = await requireManagerContext();
+  if ("errorResponse" in auth) return auth.errorResponse;
+
+  try {
+    const [rules, typesRes] = await Promise.all([
+      loadParticipationFeeRules(auth.service),
+      auth.service.from("partecipanti").select("tipo_iscrizione"),
+    ]);
+    if (typesRes.error) {
+      return NextResponse.json({ error: typesRes.error.message }, { status: 500 });
+    }
+
+    const enrollmentTypes = [
+      ...new Set(
+        ((typesRes.data ?? []) as Array<{ tipo_iscrizione: string | null }>)
+          .map((row) => (row.tipo_iscrizione ?? "").trim())
+          .filter(Boolean)
+      ),
+    ].sort((a, b) => a.localeCompare(b));
+
+    return NextResponse.json({ rules, enrollmentTypes });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "Unable to load fee rules";
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
+
+export async function POST(req: Request) {
+  const auth = await requireManagerContext();
+  if ("errorResponse" in auth) return auth.errorResponse;
+
+  let body: Record<string, unknown> = {};
+  try {
+    body = await req.json();
+  } catch {
+    return NextResponse.json({ error: "Invalid JSON body" }, { status: 400 });
+  }
+
+  const parsed = parseRuleWrite(body);
+  if ("error" in parsed) return NextResponse.json({ error: parsed.error }, { status: 400 });
+
+  const { data: created, error } = await auth.service
+    .from("participation_fee_rules")
+    .insert(parsed)
+    .select("*")
+    .single();
+
+  if (error) return mapWriteError(error);
+
+  return NextResponse.json({ ok: true, rule: created });
+}
+
+export async function PATCH(req: Request) {
+  const auth = await requireManagerContext();
+  if ("errorResponse" in auth) return auth.errorResponse;
+
+  let body: Record<string, unknown> = {};
+  try {
+    body = await req.json();
+  } catch {
+    return NextResponse.json({ error: "Invalid JSON body" }, { status: 400 });
+  }
+
+  const ruleId = normalizeText(body.id);
+  if (!ruleId) return NextResponse.json({ error: "id is required" }, { status: 400 });
+
+  const parsed = parseRuleWrite(body);
+  if ("error" in parsed) return NextResponse.json({ error: parsed.error }, { status: 400 });
+
+  const { data: updated, error } = await auth.service
+    .from("participation_fee_rules")
+    .update(parsed)
+    .eq("id", ruleId)
+    .select("*")
+    .maybeSingle();
+
+  if (error) return mapWriteError(error);
+  if (!updated) return NextResponse.json({ error: "Rule not found" }, { status: 404 });
+
+  return NextResponse.json({ ok: true, rule: updated });
+}
+
+export async function DELETE(req: Request) {
+  const auth = await requireManagerContext();
+  if ("errorResponse" in auth) return auth.errorResponse;
+
+  let body: Record<string, unknown> = {};
+  try {
+    body = await req.json();
+  } catch {
+    return NextResponse.json({ error: "Invalid JSON body" }, { status: 400 });
+  }
+
+  const ruleId = normalizeText(body.id);
+  if (!ruleId) return NextResponse.json({ error: "id is required" }, { status: 400 });
+
+  const { error } = await auth.service.from("participation_fee_rules").delete().eq("id", ruleId);
+  if (error) return mapWriteError(error);
+
+  return NextResponse.json({ ok: true });
+}
@@ -1,6 +1,7 @@
 import { NextResponse } from "next/server";
 import { createSupabaseServerClient } from "@/lib/supabase/server";
 import { createSupabaseServiceClient } from "@/lib/supabase/service";
+import { isBouncedAddress } from "@/lib/email/send-queue-policy";
 
 type GroupLeaderRow = {
   id: string;
@@ -11,6 +12,7 @@ type GroupLeaderRow = {
   telefono: string | null;
   italia: boolean | null;
   roma: boolean | null;
+  email_bounced_address: string | null;
 };
 
 type ProfileGroupRow = {
@@ -18,7 +20,8 @@ type ProfileGroupRow = {
   gruppo_id: string | null;
 };
 
-const SELECT_FIELDS = "id,email,nome,cognome,ruolo,telefono,italia,roma";
+const SELECT_FIELDS =
+  "id,email,nome,cognome,ruolo,telefono,italia,roma,email_bounced_address";
 
 async function requireManagerContext() {
   const supabase = await createSupabaseServerClient();
@@ -110,8 +113,9 @@ export async function GET() {
   }
 
   return NextResponse.json({
-    groupLeaders: groupLeaders.map((leader) => ({
+    groupLeaders: groupLeaders.map(({ email_bounced_address, ...leader }) => ({
       ...leader,
+      email_bounced: isBouncedAddress(leader.email, email_bounced_address),
       gruppi: groupsByLeader.get(leader.id) ?? [],
     })),
   });
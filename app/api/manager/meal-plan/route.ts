@@ -0,0 +1,166 @@
+import { NextResponse } from "next/server";
+import { createSupabaseServerClient } from "@/lib/supabase/server";
+import { createSupabaseServiceClient } from "@/lib/supabase/service";
+import { isMealKind, mealPlanCsvRows, type MealKind } from "@/lib/catering/meal-plan";
+import {
+  addMealSlots,
+  deleteMealSlot,
+  loadMealPlan,
+  mealPlanFilename,
+  renderKitchenSheet,
+} from "@/lib/catering/store";
+import { toCsvText } from "@/lib/csv/write";
+
+function normalizeText(value: unknown): string | null {
+  if (typeof value !== "string") return null;
+  const trimmed = value.trim();
+  return trimmed.length > 0 ? trimmed : null;
+}
+
+async function requireManagerOrAdmin() {
+  const supabase = await createSupabaseServerClient();
+  const {
+    data: { user },
+    error: userError,
+  } = await supabase.auth.getUser();
+
+  if (userError || !user) {
+    return {
+      errorResponse: NextResponse.json({ error: "Unauthorized" }, { status: 401 }),
+    };
+  }
+  const email = (user.email ?? "").trim().toLowerCase();
+  if (!email) {
+    return {
+      errorResponse: NextResponse.json({ error: "Forbidden" }, { status: 403 }),
+    };
+  }
+
+  const service = createSupabaseServiceClient();
+  const { data: profile, error: profileError } = await service
+    .from("profili")
+    .select("ruolo")
+    .ilike("email", email)
+    .in("ruolo", ["manager", "admin"]);
+
+  if (profileError) {
+    return {
+      errorResponse: NextResponse.json({ error: profileError.message }, { status: 500 }),
+    };
+  }
+
+  if (!profile || profile.length === 0) {
+    return {
+      errorResponse: NextResponse.json({ error: "Forbidden" }, { status: 403 }),
+    };
+  }
+
+  return { service, userId: user.id };
+}
+
+function normalizeDate(value: unknown): string | null {
+  const normalized = normalizeText(value);
+  if (!normalized) return null;
+  return /^\d{4}-\d{2}-\d{2}$/.test(normalized) ? normalized : null;
+}
+
+export async function GET(req: Request) {
+  const auth = await requireManagerOrAdmin();
+  if ("errorResponse" in auth) return auth.errorResponse;
+
+  const params = new URL(req.url).searchParams;
+  const rawDate = params.get("date");
+  const serviceDate = normalizeDate(rawDate);
+  if (rawDate && !serviceDate) {
+    return NextResponse.json({ error: "Invalid date" }, { status: 400 });
+  }
+
+  try {
+    const { slots, plan } = await loadMealPlan(auth.service, serviceDate);
+    const format = params.get("format");
+
+    if (format === "csv") {
+      return new NextResponse(toCsvText(mealPlanCsvRows(plan)), {
+        headers: {
+          "Content-Type": "text/csv; charset=utf-8",
+          "Content-Disposition": `attachment; filename="${mealPlanFilename(serviceDate, "csv")}"`,
+          "Cache-Control": "no-store",
+        },
+      });
+    }
+
+    if (format === "pdf") {
+      if (plan.length === 0) {
+        return NextResponse.json({ error: "No meal slots planned for this date" }, { status: 404 });
+      }
+      const filename = mealPlanFilename(serviceDate, "pdf");
+      const pdf = await renderKitchenSheet(auth.service, plan, filename.replace(/\.pdf$/, ""));
+      return new NextResponse(Buffer.from(pdf), {
+        headers: {
+          "Content-Type": "application/pdf",
+          "Content-Disposition": `attachment; filename="${filename}"`,
+          "Cache-Control": "no-store",
+        },
+      });
+    }
+
+    return NextResponse.json({ slots, plan });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "Unable to load meal plan";
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
+
+export async function POST(req: Request) {
+  const auth = await requireManagerOrAdmin();
+  if ("errorResponse" in auth) return auth.errorResponse;
+
+  let body: Record<string, unknown> = {};
+  try {
+    body = await req.json();
+  } catch {
+    return NextResponse.json({ error: "Invalid JSON body" }, { status: 400 });
+  }
+
+  const from = normalizeDate(body.from);
+  const to = normalizeDate(body.to) ?? from;
+  const meals: MealKind[] = Array.isArray(body.meals) ? body.meals.filter(isMealKind) : [];
+  if (!from || !to) {
+    return NextResponse.json({ error: "Invalid date" }, { status: 400 });
+  }
+  if (meals.length === 0) {
+    return NextResponse.json({ error: "Select at least one meal" }, { status: 400 });
+  }
+
+  try {
+    const result = await addMealSlots(auth.service, { from, to, meals, userId: auth.userId });
+    if ("error" in result) {
+      return NextResponse.json({ error: result.error }, { status: result.status });
+    }
+    return NextResponse.json(result);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "Unable to add meal slots";
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
+
+export async function DELETE(req: Request) {
+  const auth = await requireManagerOrAdmin();
+  if ("errorResponse" in auth) return auth.errorResponse;
+
+  const id = normalizeText(new URL(req.url).searchParams.get("id"));
+  if (!id) {
+    return NextResponse.json({ error: "Missing meal slot id" }, { status: 400 });
+  }
+
+  try {
+    const removed = await deleteMealSlot(auth.service, id);
+    if (!removed) {
+      return NextResponse.json({ error: "Meal slot not found" }, { status: 404 });
+    }
+    return NextResponse.json({ ok: true });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "Unable to delete meal slot";
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
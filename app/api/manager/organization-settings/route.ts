@@ -0,0 +1,121 @@
+import { NextResponse } from "next/server";
+import { createSupabaseServerClient } from "@/lib/supabase/server";
+import { createSupabaseServiceClient } from "@/lib/supabase/service";
+import { loadOrganizationSettings } from "@/lib/fees/document-store";
+
+const TEXT_FIELDS = [
+  "legal_name",
+  "address",
+  "tax_id",
+  "email",
+  "phone",
+  "website",
+  "bank_details",
+  "signatory_name",
+  "signatory_role",
+  "document_footer",
+] as const;
+
+function normalizeText(value: unknown): string | null {
+  if (typeof value !== "string") return null;
+  const trimmed = value.trim();
+  return trimmed.length > 0 ? trimmed : null;
+}
+
+async function requireManagerContext() {
+  const supabase = await createSupabaseServerClient();
+  const {
+    data: { user },
+    error: userError,
+  } = await supabase.auth.getUser();
+
+  if (userError || !user) {
+    return {
+      errorResponse: NextResponse.json({ error: "Unauthorized" }, { status: 401 }),
+    };
+  }
+  const email = (user.email ?? "").trim().toLowerCase();
+  if (!email) {
+    return {
+      errorResponse: NextResponse.json({ error: "Forbidden" }, { status: 403 }),
+    };
+  }
+
+  const service = createSupabaseServiceClient();
+  const { data: profile, error: profileError } = await service
+    .from("profili")
+    .select("ruolo")
+    .ilike("email", email)
+    .eq("ruolo", "manager")
+    .limit(1);
+
+  if (profileError) {
+    return {
+      errorResponse: NextResponse.json({ error: profileError.message }, { status: 500 }),
+    };
+  }
+
+  if (!profile || profile.length === 0) {
+    return {
+      errorResponse: NextResponse.json({ error: "Forbidden" }, { status: 403 }),
+    };
+  }
+
+  return { user, service };
+}
+
+export async function GET() {
+  const auth = await requireManagerContext();
+  if ("errorResponse" in auth) return auth.errorResponse;
+
+  try {
+    return NextResponse.json({ settings: await loadOrganizationSettings(auth.service) });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "Unable to load settings";
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
+
+export async function PUT(req: Request) {
+  const auth = await requireManagerContext();
+  if ("errorResponse" in auth) return auth.errorResponse;
+
+  let body: Record<string, unknown> = {};
+  try {
+    body = await req.json();
+  } catch {
+    return NextResponse.json({ error: "Invalid JSON body" }, { status: 400 });
+  }
+
+  const name = normalizeText(body.name);
+  const receiptPrefix = normalizeText(body.receipt_prefix);
+  const invoicePrefix = normalizeText(body.invoice_prefix);
+  const visaLetterPrefix = normalizeText(body.visa_letter_prefix) ?? "VL";
+  if (!name) return NextResponse.json({ error: "name is required" }, { status: 400 });
+  if (!receiptPrefix || !invoicePrefix) {
+    return NextResponse.json({ error: "Document prefixes are required" }, { status: 400 });
+  }
+
+  const update: Record<string, string | boolean | null> = {
+    id: true,
+    name,
+    receipt_prefix: receiptPrefix,
+    invoice_prefix: invoicePrefix,
+    visa_letter_prefix: visaLetterPrefix,
+  };
+  for (const field of TEXT_FIELDS) {
+    update[field] = normalizeText(body[field]);
+  }
+
+  const { data, error } = await auth.service
+    .from("organization_settings")
+    .upsert(update, { onConflict: "id" })
+    .select("*")
+    .single();
+
+  if (error) {
+    return NextResponse.json({ error: error.message }, { status: 500 });
+  }
+
+  return NextResponse.json({ ok: true, settings: data });
+}
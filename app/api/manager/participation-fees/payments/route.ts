@@ -0,0 +1,322 @@
+import { NextResponse } from "next/server";
+import { createSupabaseServerClient } from "@/lib/supabase/server";
+import { createSupabaseServiceClient } from "@/lib/supabase/service";
+import { alloggioLongToShort } from "@/lib/partecipante/constants";
+import {
+  deleteParticipantPayment,
+  recordParticipantPayments,
+  type PaymentCurrency as Currency,
+  type PaymentEntryType as EntryType,
+  type PaymentMethod,
+} from "@/lib/fees/payments";
+
+type ParticipantFeeRow = {
+  id: string;
+  nome: string | null;
+  cognome: string | null;
+  data_arrivo: string | null;
+  data_partenza: string | null;
+  alloggio: string | null;
+  alloggio_short: string | null;
+  quota_totale: number | null;
+  fee_paid: number | null;
+  gruppo_id: string | null;
+  gruppo_label: string | null;
+};
+
+type PaymentRow = {
+  id: string;
+  participant_id: string;
+  entry_type: EntryType;
+  amount: number;
+  currency: Currency;
+  amount_eur: number;
+  payment_date: string;
+  payment_method: PaymentMethod;
+  payer_name: string | null;
+  payer_participant_id: string | null;
+  reference: string | null;
+  notes: string | null;
+  event_finance_transaction_id: string | null;
+  created_at: string;
+};
+
+type ManagerAuth = {
+  user: { id: string };
+  service: ReturnType<typeof createSupabaseServiceClient>;
+};
+
+const SELECT_FIELDS =
+  "id,nome,cognome,data_arrivo,data_partenza,alloggio,alloggio_short,quota_totale,fee_paid,gruppo_id,gruppo_label";
+
+function normalizeText(value: unknown): string | null {
+  if (typeof value !== "string") return null;
+  const trimmed = value.trim();
+  return trimmed.length > 0 ? trimmed : null;
+}
+
+function normalizeDate(value: unknown): string | null {
+  const normalized = normalizeText(value);
+  if (!normalized) return null;
+  return /^\d{4}-\d{2}-\d{2}$/.test(normalized) ? normalized : null;
+}
+
+function normalizeCurrency(value: unknown): Currency {
+  return value === "HUF" ? "HUF" : "EUR";
+}
+
+function normalizePaymentMethod(value: unknown): PaymentMethod {
+  if (value === "bank transfer") return "bank transfer";
+  if (value === "card") return "card";
+  if (value === "cash") return "cash";
+  return "other";
+}
+
+function normalizeAmount(value: unknown): number | null {
+  const numeric = typeof value === "number" ? value : Number(value);
+  if (!Number.isFinite(numeric) || numeric <= 0) return null;
+  return Number(numeric.toFixed(2));
+}
+
+function buildGroupLabel(row: ParticipantFeeRow): string {
+  const value = (row.gruppo_label ?? row.gruppo_id ?? "").trim();
+  return value || "-";
+}
+
+function buildFullName(row: { nome: string | null; cognome: string | null }): string {
+  return [row.nome, row.cognome].filter(Boolean).join(" ").trim() || "Participant";
+}
+
+function toResponseParticipant(row: ParticipantFeeRow) {
+  return {
+    ...row,
+    alloggio: row.alloggio_short ?? alloggioLongToShort(row.alloggio),
+    group: buildGroupLabel(row),
+  };
+}
+
+async function requireManagerContext() {
+  const supabase = await createSupabaseServerClient();
+  const {
+    data: { user },
+    error: userError,
+  } = await supabase.auth.getUser();
+
+  if (userError || !user) {
+    return {
+      errorResponse: NextResponse.json({ error: "Unauthorized" }, { status: 401 }),
+    };
+  }
+  const email = (user.email ?? "").trim().toLowerCase();
+  if (!email) {
+    return {
+      errorResponse: NextResponse.json({ error: "Forbidden" }, { status: 403 }),
+    };
+  }
+
+  const service = createSupabaseServiceClient();
+  const { data: profile, error: profileError } = await service
+    .from("profili")
+    .select("ruolo")
+    .ilike("email", email)
+    .eq("ruolo", "manager")
+    .limit(1);
+
+  if (profileError) {
+    return {
+      errorResponse: NextResponse.json({ error: profileError.message }, { status: 500 }),
+    };
+  }
+
+  if (!profile || profile.length === 0) {
+    return {
+      errorResponse: NextResponse.json({ error: "Forbidden" }, { status: 403 }),
+    };
+  }
+
+  return { user, service };
+}
+
+async function loadParticipantsByIds(auth: ManagerAuth, participantIds: string[]) {
+  const { data, error } = await auth.service
+    .from("partecipanti")
+    .select(SELECT_FIELDS)
+    .in("id", participantIds);
+
+  if (error) {
+    throw new Error(error.message);
+  }
+
+  return (data ?? []) as ParticipantFeeRow[];
+}
+
+export async function GET(req: Request) {
+  const auth = await requireManagerContext();
+  if ("errorResponse" in auth) return auth.errorResponse;
+
+  const participantId = normalizeText(new URL(req.url).searchParams.get("participantId"));
+  if (!participantId) {
+    return NextResponse.json({ error: "participantId is required" }, { status: 400 });
+  }
+
+  const { data, error } = await auth.service
+    .from("participant_payments")
+    .select("*")
+    .eq("participant_id", participantId)
+    .order("payment_date", { ascending: false })
+    .order("created_at", { ascending: false });
+
+  if (error) {
+    return NextResponse.json({ error: error.message }, { status: 500 });
+  }
+
+  return NextResponse.json({ payments: (data ?? []) as PaymentRow[] });
+}
+
+// Records one ledger entry per participant. A group leader paying for several
+// participants produces several entries sharing payer, reference and finance transaction.
+export async function POST(req: Request) {
+  const auth = await requireManagerContext();
+  if ("errorResponse" in auth) return auth.errorResponse;
+
+  let body: Record<string, unknown> = {};
+  try {
+    body = await req.json();
+  } catch {
+    return NextResponse.json({ error: "Invalid JSON body" }, { status: 400 });
+  }
+
+  const rawEntries = Array.isArray(body.entries) ? body.entries : [];
+  const entries: Array<{ participant_id: string; amount: number }> = [];
+  for (const rawEntry of rawEntries) {
+    const item = (rawEntry ?? {}) as Record<string, unknown>;
+    const participantId = normalizeText(item.participant_id);
+    const amount = normalizeAmount(item.amount);
+    if (!participantId || amount === null) {
+      return NextResponse.json(
+        { error: "Each entry needs a participant_id and an amount greater than 0" },
+        { status: 400 }
+      );
+    }
+    entries.push({ participant_id: participantId, amount });
+  }
+
+  if (entries.length === 0) {
+    return NextResponse.json({ error: "entries is required" }, { status: 400 });
+  }
+
+  const entryType: EntryType = body.entry_type === "refund" ? "refund" : "payment";
+  const currency = normalizeCurrency(body.currency);
+  const paymentMethod = normalizePaymentMethod(body.payment_method);
+  const paymentDate = normalizeDate(body.payment_date) ?? new Date().toISOString().slice(0, 10);
+  const payerName = normalizeText(body.payer_name);
+  const payerParticipantId = normalizeText(body.payer_participant_id);
+  const reference = normalizeText(body.reference);
+  const notes = normalizeText(body.notes);
+
+  const participantIds = [...new Set(entries.map((entry) => entry.participant_id))];
+  let participants: ParticipantFeeRow[];
+  try {
+    participants = await loadParticipantsByIds(auth, participantIds);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "Unable to load participants";
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+
+  if (participants.length !== participantIds.length) {
+    return NextResponse.json({ error: "Participant not found" }, { status: 404 });
+  }
+
+  let payerLabel = payerName;
+  if (payerParticipantId && !payerLabel) {
+    const { data: payer, error: payerError } = await auth.service
+      .from("partecipanti")
+      .select("nome,cognome")
+      .eq("id", payerParticipantId)
+      .maybeSingle();
+    if (payerError) {
+      return NextResponse.json({ error: payerError.message }, { status: 500 });
+    }
+    if (!payer) {
+      return NextResponse.json({ error: "Payer not found" }, { status: 404 });
+    }
+    payerLabel = buildFullName(payer as { nome: string | null; cognome: string | null });
+  }
+
+  const feeLabel = entryType === "refund" ? "refund" : "payment";
+  try {
+    await recordParticipantPayments(auth.service, auth.user.id, {
+      entries,
+      entryType,
+      currency,
+      paymentMethod,
+      paymentDate,
+      payerName,
+      payerParticipantId,
+      reference,
+      notes,
+      finance:
+        body.post_to_finance === true
+          ? {
+              description:
+                participants.length === 1
+                  ? `Participation fee ${feeLabel} - ${buildFullName(participants[0])}`
+                  : `Participation fee ${feeLabel} - ${participants.length} participants`,
+              party:
+                payerLabel ?? (participants.length === 1 ? buildFullName(participants[0]) : null),
+            }
+          : null,
+    });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "Unable to save payment";
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+
+  try {
+    const refreshed = await loadParticipantsByIds(auth, participantIds);
+    return NextResponse.json({ ok: true, participants: refreshed.map(toResponseParticipant) });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "Unable to load participants";
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
+
+export async function DELETE(req: Request) {
+  const auth = await requireManagerContext();
+  if ("errorResponse" in auth) return auth.errorResponse;
+
+  let body: Record<string, unknown> = {};
+  try {
+    body = await req.json();
+  } catch {
+    return NextResponse.json({ error: "Invalid JSON body" }, { status: 400 });
+  }
+
+  const paymentId = normalizeText(body.id);
+  if (!paymentId) {
+    return NextResponse.json({ error: "id is required" }, { status: 400 });
+  }
+
+  let payment: { participant_id: string } | null;
+  try {
+    payment = await deleteParticipantPayment(auth.service, auth.user.id, paymentId);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "Unable to delete payment";
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+
+  if (!payment) {
+    return NextResponse.json({ error: "Payment not found" }, { status: 404 });
+  }
+
+  try {
+    const [participant] = await loadParticipantsByIds(auth, [payment.participant_id]);
+    return NextResponse.json({
+      ok: true,
+      participant: participant ? toResponseParticipant(participant) : null,
+    });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "Unable to load participants";
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
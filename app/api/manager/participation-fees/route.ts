@@ -120,64 +120,6 @@ export async function GET() {
   }
 }
 
-export async function PATCH(req: Request) {
-  const auth = await requireManagerContext();
-  if ("errorResponse" in auth) return auth.errorResponse;
-
-  let body: Record<string, unknown> = {};
-  try {
-    body = await req.json();
-  } catch {
-    return NextResponse.json({ error: "Invalid JSON body" }, { status: 400 });
-  }
-
-  const participantId = normalizeText(body.id);
-  if (!participantId) {
-    return NextResponse.json({ error: "id is required" }, { status: 400 });
-  }
-
-  const rawFeePaid = body.fee_paid;
-  let feePaid: number | null = null;
-
-  if (rawFeePaid !== null && rawFeePaid !== undefined && rawFeePaid !== "") {
-    const parsed =
-      typeof rawFeePaid === "number"
-        ? rawFeePaid
-        : typeof rawFeePaid === "string"
-          ? Number(rawFeePaid.trim())
-          : Number.NaN;
-
-    if (!Number.isFinite(parsed) || parsed < 0) {
-      return NextResponse.json(
-        { error: "fee_paid must be a number greater than or equal to 0" },
-        { status: 400 }
-      );
-    }
-
-    feePaid = Number(parsed.toFixed(2));
-  }
-
-  const { data: updated, error: updateError } = await auth.service
-    .from("partecipanti")
-    .update({ fee_paid: feePaid })
-    .eq("id", participantId)
-    .select(SELECT_FIELDS)
-    .maybeSingle();
-
-  if (updateError) {
-    return NextResponse.json({ error: updateError.message }, { status: 500 });
-  }
-
-  if (!updated) {
-    return NextResponse.json({ error: "Participant not found" }, { status: 404 });
-  }
-
-  return NextResponse.json({
-    ok: true,
-    participant: toResponseParticipant(updated as ParticipantFeeRow),
-  });
-}
-
 export async function POST(req: Request) {
   const auth = await requireManagerContext();
   if ("errorResponse" in auth) return auth.errorResponse;
@@ -0,0 +1,171 @@
+import { NextResponse } from "next/server";
+import { createSupabaseServerClient } from "@/lib/supabase/server";
+import { createSupabaseServiceClient } from "@/lib/supabase/service";
+import {
+  ALLOGGIO_SHORT_OPTIONS,
+  ARRIVAL_DATE_MIN,
+  DEPARTURE_DATE_MAX,
+} from "@/lib/partecipante/constants";
+import {
+  UNLIMITED_CAPACITY,
+  parseCapacitySettings,
+  stayNights,
+  summarizeCapacity,
+} from "@/lib/registration/capacity";
+import {
+  loadCapacityConfig,
+  loadConfirmedStays,
+  saveCapacityConfig,
+} from "@/lib/registration/capacity-store";
+import { loadWaitlist, promoteFromWaitlist } from "@/lib/registration/waitlist";
+
+function normalizeText(value: unknown): string {
+  if (typeof value !== "string") return "";
+  return value.trim();
+}
+
+async function requireManagerContext() {
+  const supabase = await createSupabaseServerClient();
+  const {
+    data: { user },
+    error: userError,
+  } = await supabase.auth.getUser();
+
+  if (userError || !user) {
+    return {
+      errorResponse: NextResponse.json({ error: "Unauthorized" }, { status: 401 }),
+    };
+  }
+  const email = (user.email ?? "").trim().toLowerCase();
+  if (!email) {
+    return {
+      errorResponse: NextResponse.json({ error: "Forbidden" }, { status: 403 }),
+    };
+  }
+
+  const service = createSupabaseServiceClient();
+  const { data: profile, error: profileError } = await service
+    .from("profili")
+    .select("ruolo")
+    .ilike("email", email)
+    .eq("ruolo", "manager")
+    .limit(1);
+
+  if (profileError) {
+    return {
+      errorResponse: NextResponse.json({ error: profileError.message }, { status: 500 }),
+    };
+  }
+
+  if (!profile || profile.length === 0) {
+    return {
+      errorResponse: NextResponse.json({ error: "Forbidden" }, { status: 403 }),
+    };
+  }
+
+  return { user, service };
+}
+
+export async function GET() {
+  const auth = await requireManagerContext();
+  if ("errorResponse" in auth) return auth.errorResponse;
+
+  try {
+    const config = await loadCapacityConfig(auth.service);
+    if (!config) {
+      return NextResponse.json(
+        { error: "Capacity settings are not available. Run registration_capacity_migration.sql." },
+        { status: 503 }
+      );
+    }
+
+    const [confirmed, waitlist] = await Promise.all([
+      loadConfirmedStays(auth.service),
+      loadWaitlist(auth.service),
+    ]);
+
+    return NextResponse.json({
+      config,
+      usage: summarizeCapacity(config, confirmed),
+      waitlist,
+      accommodationOptions: [...ALLOGGIO_SHORT_OPTIONS],
+      eventNights: stayNights(ARRIVAL_DATE_MIN, DEPARTURE_DATE_MAX),
+    });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "Unable to load capacity";
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
+
+export async function PUT(req: Request) {
+  const auth = await requireManagerContext();
+  if ("errorResponse" in auth) return auth.errorResponse;
+
+  let body: Record<string, unknown> = {};
+  try {
+    body = await req.json();
+  } catch {
+    return NextResponse.json({ error: "Invalid JSON body" }, { status: 400 });
+  }
+
+  const parsed = parseCapacitySettings(body.settings ?? UNLIMITED_CAPACITY);
+  if ("error" in parsed) {
+    return NextResponse.json({ error: parsed.error }, { status: 400 });
+  }
+
+  const promotionSubject = normalizeText(body.promotion_subject);
+  const promotionHtml = normalizeText(body.promotion_html);
+  if (!promotionSubject) {
+    return NextResponse.json({ error: "Promotion email subject is required" }, { status: 400 });
+  }
+  if (!promotionHtml) {
+    return NextResponse.json({ error: "Promotion email body is required" }, { status: 400 });
+  }
+
+  try {
+    await saveCapacityConfig(auth.service, auth.user.id, parsed.settings, {
+      promotion_subject: promotionSubject,
+      promotion_html: promotionHtml,
+    });
+    return NextResponse.json({ ok: true });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "Unable to save capacity";
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
+
+export async function POST(req: Request) {
+  const auth = await requireManagerContext();
+  if ("errorResponse" in auth) return auth.errorResponse;
+
+  let body: Record<string, unknown> = {};
+  try {
+    body = await req.json();
+  } catch {
+    return NextResponse.json({ error: "Invalid JSON body" }, { status: 400 });
+  }
+
+  const participantId = normalizeText(body.participantId);
+  if (!participantId) {
+    return NextResponse.json({ error: "participantId is required" }, { status: 400 });
+  }
+
+  try {
+    const result = await promoteFromWaitlist(auth.service, auth.user.id, participantId, {
+      force: body.force === true,
+      sendEmail: body.sendEmail !== false,
+    });
+
+    if ("error" in result) {
+      return NextResponse.json(
+        { error: result.error, breaches: result.breaches ?? [] },
+        { status: result.status }
+      );
+    }
+
+    return NextResponse.json(result);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "Unable to promote participant";
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
@@ -0,0 +1,222 @@
+import { NextResponse } from "next/server";
+import { createSupabaseServerClient } from "@/lib/supabase/server";
+import { createSupabaseServiceClient } from "@/lib/supabase/service";
+import { isTravelDirection, parseShuttleRun } from "@/lib/travel/logistics";
+import {
+  assignShuttleSeat,
+  createShuttleRun,
+  deleteShuttleRun,
+  loadShuttleManifests,
+  loadTravelPlan,
+  renderShuttleManifests,
+  shuttleManifestFilename,
+  updateShuttleRun,
+} from "@/lib/travel/store";
+
+function normalizeText(value: unknown): string | null {
+  if (typeof value !== "string") return null;
+  const trimmed = value.trim();
+  return trimmed.length > 0 ? trimmed : null;
+}
+
+async function requireManagerOrAdmin() {
+  const supabase = await createSupabaseServerClient();
+  const {
+    data: { user },
+    error: userError,
+  } = await supabase.auth.getUser();
+
+  if (userError || !user) {
+    return {
+      errorResponse: NextResponse.json({ error: "Unauthorized" }, { status: 401 }),
+    };
+  }
+  const email = (user.email ?? "").trim().toLowerCase();
+  if (!email) {
+    return {
+      errorResponse: NextResponse.json({ error: "Forbidden" }, { status: 403 }),
+    };
+  }
+
+  const service = createSupabaseServiceClient();
+  const { data: profile, error: profileError } = await service
+    .from("profili")
+    .select("ruolo")
+    .ilike("email", email)
+    .in("ruolo", ["manager", "admin"]);
+
+  if (profileError) {
+    return {
+      errorResponse: NextResponse.json({ error: profileError.message }, { status: 500 }),
+    };
+  }
+
+  if (!profile || profile.length === 0) {
+    return {
+      errorResponse: NextResponse.json({ error: "Forbidden" }, { status: 403 }),
+    };
+  }
+
+  return { service, userId: user.id };
+}
+
+
+async function readBody(req: Request): Promise<Record<string, unknown> | null> {
+  try {
+    return await req.json();
+  } catch {
+    return null;
+  }
+}
+
+// JSON plan for the planner, or with format=pdf the driver manifests of one run (runId)
+// or of every run on a date.
+export async function GET(req: Request) {
+  const auth = await requireManagerOrAdmin();
+  if ("errorResponse" in auth) return auth.errorResponse;
+
+  const params = new URL(req.url).searchParams;
+
+  try {
+    if (params.get("format") === "pdf") {
+      const runId = normalizeText(params.get("runId"));
+      const date = normalizeText(params.get("date"));
+      const manifests = await loadShuttleManifests(auth.service, { runId, date });
+      if (manifests.length === 0) {
+        return NextResponse.json({ error: "No shuttle runs found" }, { status: 404 });
+      }
+      const filename = shuttleManifestFilename(runId ? manifests[0].run : null, date);
+      const pdf = await renderShuttleManifests(
+        auth.service,
+        manifests,
+        filename.replace(/\.pdf$/, "")
+      );
+      return new NextResponse(Buffer.from(pdf), {
+        headers: {
+          "Content-Type": "application/pdf",
+          "Content-Disposition": `attachment; filename="${filename}"`,
+          "Cache-Control": "no-store",
+        },
+      });
+    }
+
+    return NextResponse.json(await loadTravelPlan(auth.service));
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "Unable to load transport plan";
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
+
+// Creates a run, seating participantIds when given (e.g. a whole arrival window).
+export async function POST(req: Request) {
+  const auth = await requireManagerOrAdmin();
+  if ("errorResponse" in auth) return auth.errorResponse;
+
+  const body = await readBody(req);
+  if (!body) {
+    return NextResponse.json({ error: "Invalid JSON body" }, { status: 400 });
+  }
+
+  const parsed = parseShuttleRun(body);
+  if (parsed.error !== null) {
+    return NextResponse.json({ error: parsed.error }, { status: 400 });
+  }
+  const participantIds = Array.isArray(body.participantIds)
+    ? body.participantIds.filter((id): id is string => typeof id === "string")
+    : [];
+
+  try {
+    return NextResponse.json(
+      await createShuttleRun(auth.service, parsed.input, participantIds, auth.userId)
+    );
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "Unable to create shuttle run";
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
+
+export async function PUT(req: Request) {
+  const auth = await requireManagerOrAdmin();
+  if ("errorResponse" in auth) return auth.errorResponse;
+
+  const body = await readBody(req);
+  if (!body) {
+    return NextResponse.json({ error: "Invalid JSON body" }, { status: 400 });
+  }
+
+  const id = normalizeText(body.id);
+  if (!id) {
+    return NextResponse.json({ error: "Missing shuttle run id" }, { status: 400 });
+  }
+  const parsed = parseShuttleRun(body);
+  if (parsed.error !== null) {
+    return NextResponse.json({ error: parsed.error }, { status: 400 });
+  }
+
+  try {
+    const result = await updateShuttleRun(auth.service, id, parsed.input);
+    if ("error" in result) {
+      return NextResponse.json({ error: result.error }, { status: result.status });
+    }
+    return NextResponse.json(result);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "Unable to update shuttle run";
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
+
+// Seats a participant on a run ({ participantId, direction, runId }) or frees the seat
+// with runId: null.
+export async function PATCH(req: Request) {
+  const auth = await requireManagerOrAdmin();
+  if ("errorResponse" in auth) return auth.errorResponse;
+
+  const body = await readBody(req);
+  if (!body) {
+    return NextResponse.json({ error: "Invalid JSON body" }, { status: 400 });
+  }
+
+  const participantId = normalizeText(body.participantId);
+  if (!participantId) {
+    return NextResponse.json({ error: "Missing participant id" }, { status: 400 });
+  }
+  if (!isTravelDirection(body.direction)) {
+    return NextResponse.json({ error: "Invalid direction" }, { status: 400 });
+  }
+
+  try {
+    const result = await assignShuttleSeat(auth.service, {
+      participantId,
+      direction: body.direction,
+      runId: normalizeText(body.runId),
+    });
+    if ("error" in result) {
+      return NextResponse.json({ error: result.error }, { status: result.status });
+    }
+    return NextResponse.json(result);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "Unable to assign shuttle seat";
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
+
+export async function DELETE(req: Request) {
+  const auth = await requireManagerOrAdmin();
+  if ("errorResponse" in auth) return auth.errorResponse;
+
+  const id = normalizeText(new URL(req.url).searchParams.get("id"));
+  if (!id) {
+    return NextResponse.json({ error: "Missing shuttle run id" }, { status: 400 });
+  }
+
+  try {
+    const removed = await deleteShuttleRun(auth.service, id);
+    if (!removed) {
+      return NextResponse.json({ error: "Shuttle run not found" }, { status: 404 });
+    }
+    return NextResponse.json({ ok: true });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "Unable to delete shuttle run";
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
@@ -0,0 +1,160 @@
+import { NextResponse } from "next/server";
+import { createSupabaseServerClient } from "@/lib/supabase/server";
+import { createSupabaseServiceClient } from "@/lib/supabase/service";
+import { isVisaLetterStatus } from "@/lib/visa/letter-policy";
+import {
+  approveVisaLetterRequest,
+  emailVisaLetter,
+  listVisaLetterRequests,
+  loadVisaLetterRequest,
+  rejectVisaLetterRequest,
+  renderVisaLetterPdf,
+  visaLetterFilename,
+} from "@/lib/visa/letter-store";
+
+function normalizeText(value: unknown): string | null {
+  if (typeof value !== "string") return null;
+  const trimmed = value.trim();
+  return trimmed.length > 0 ? trimmed : null;
+}
+
+async function requireManagerContext() {
+  const supabase = await createSupabaseServerClient();
+  const {
+    data: { user },
+    error: userError,
+  } = await supabase.auth.getUser();
+
+  if (userError || !user) {
+    return {
+      errorResponse: NextResponse.json({ error: "Unauthorized" }, { status: 401 }),
+    };
+  }
+  const email = (user.email ?? "").trim().toLowerCase();
+  if (!email) {
+    return {
+      errorResponse: NextResponse.json({ error: "Forbidden" }, { status: 403 }),
+    };
+  }
+
+  const service = createSupabaseServiceClient();
+  const { data: profile, error: profileError } = await service
+    .from("profili")
+    .select("ruolo")
+    .ilike("email", email)
+    .eq("ruolo", "manager")
+    .limit(1);
+
+  if (profileError) {
+    return {
+      errorResponse: NextResponse.json({ error: profileError.message }, { status: 500 }),
+    };
+  }
+
+  if (!profile || profile.length === 0) {
+    return {
+      errorResponse: NextResponse.json({ error: "Forbidden" }, { status: 403 }),
+    };
+  }
+
+  return { user, service };
+}
+
+export async function GET(req: Request) {
+  const auth = await requireManagerContext();
+  if ("errorResponse" in auth) return auth.errorResponse;
+
+  const params = new URL(req.url).searchParams;
+  const id = normalizeText(params.get("id"));
+
+  try {
+    if (id) {
+      const request = await loadVisaLetterRequest(auth.service, id);
+      if (!request) {
+        return NextResponse.json({ error: "Visa letter request not found" }, { status: 404 });
+      }
+      if (request.status !== "approved" || !request.snapshot) {
+        return NextResponse.json({ error: "The letter has not been approved" }, { status: 409 });
+      }
+
+      return new NextResponse(Buffer.from(renderVisaLetterPdf(request.snapshot)), {
+        headers: {
+          "Content-Type": "application/pdf",
+          "Content-Disposition": `attachment; filename="${visaLetterFilename(request.snapshot)}"`,
+          "Cache-Control": "no-store",
+        },
+      });
+    }
+
+    const status = params.get("status");
+    const requests = await listVisaLetterRequests(
+      auth.service,
+      isVisaLetterStatus(status) ? status : null
+    );
+    return NextResponse.json({ requests });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "Unable to load visa letters";
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
+
+export async function PATCH(req: Request) {
+  const auth = await requireManagerContext();
+  if ("errorResponse" in auth) return auth.errorResponse;
+
+  let body: Record<string, unknown> = {};
+  try {
+    body = await req.json();
+  } catch {
+    return NextResponse.json({ error: "Invalid JSON body" }, { status: 400 });
+  }
+
+  const id = normalizeText(body.id);
+  if (!id) {
+    return NextResponse.json({ error: "id is required" }, { status: 400 });
+  }
+
+  try {
+    if (body.action === "approve") {
+      const result = await approveVisaLetterRequest(auth.service, auth.user.id, id);
+      if ("error" in result) {
+        return NextResponse.json({ error: result.error }, { status: result.status });
+      }
+      return NextResponse.json(result);
+    }
+
+    if (body.action === "reject") {
+      const reason = normalizeText(body.reason);
+      if (reason && reason.length > 1000) {
+        return NextResponse.json(
+          { error: "Reason is too long (max 1000 characters)" },
+          { status: 400 }
+        );
+      }
+      const result = await rejectVisaLetterRequest(auth.service, auth.user.id, id, reason);
+      if ("error" in result) {
+        return NextResponse.json({ error: result.error }, { status: result.status });
+      }
+      return NextResponse.json(result);
+    }
+
+    if (body.action === "resend") {
+      const request = await loadVisaLetterRequest(auth.service, id);
+      if (!request) {
+        return NextResponse.json({ error: "Visa letter request not found" }, { status: 404 });
+      }
+      if (request.status !== "approved") {
+        return NextResponse.json({ error: "The letter has not been approved" }, { status: 409 });
+      }
+      return NextResponse.json(await emailVisaLetter(auth.service, request));
+    }
+
+    return NextResponse.json(
+      { error: "action must be approve, reject or resend" },
+      { status: 400 }
+    );
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "Unable to update visa letter";
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
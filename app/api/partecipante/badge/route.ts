@@ -0,0 +1,119 @@
+import { NextResponse } from "next/server";
+import { createSupabaseServerClient } from "@/lib/supabase/server";
+import { createSupabaseServiceClient } from "@/lib/supabase/service";
+import {
+  badgeFilename,
+  participantBadgeQr,
+  renderParticipantBadgePdf,
+} from "@/lib/check-in/store";
+import { qrSvgPath } from "@/lib/qr/encode";
+
+type ParticipantBadgeRow = {
+  id: string;
+  nome: string | null;
+  cognome: string | null;
+  nazione: string | null;
+  gruppo_label: string | null;
+  esigenze_alimentari: string | null;
+  is_minorenne: boolean | null;
+  registration_status: string | null;
+  submitted_at_tally: string | null;
+};
+
+function normalizeText(value: unknown): string | null {
+  if (typeof value !== "string") return null;
+  const trimmed = value.trim();
+  return trimmed.length > 0 ? trimmed : null;
+}
+
+async function resolveParticipant(participantId: string | null) {
+  const supabase = await createSupabaseServerClient();
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+
+  const userEmail = (user?.email ?? "").trim().toLowerCase();
+  if (!userEmail) {
+    return {
+      errorResponse: NextResponse.json({ error: "Unauthorized" }, { status: 401 }),
+    };
+  }
+
+  const service = createSupabaseServiceClient();
+  const { data, error } = await service
+    .from("partecipanti")
+    .select(
+      "id,nome,cognome,nazione,gruppo_label,esigenze_alimentari,is_minorenne,registration_status,submitted_at_tally"
+    )
+    .ilike("email", userEmail);
+
+  if (error) {
+    return {
+      errorResponse: NextResponse.json({ error: error.message }, { status: 500 }),
+    };
+  }
+
+  const participants = ((data ?? []) as ParticipantBadgeRow[]).sort((a, b) =>
+    (b.submitted_at_tally ?? "").localeCompare(a.submitted_at_tally ?? "")
+  );
+  if (participants.length > 1 && !participantId) {
+    return {
+      errorResponse: NextResponse.json(
+        {
+          error: "Multiple participants found for this email",
+          code: "PARTICIPANT_SELECTION_REQUIRED",
+          requiresSelection: true,
+        },
+        { status: 409 }
+      ),
+    };
+  }
+
+  const participant = participantId
+    ? participants.find((row) => row.id === participantId) ?? null
+    : participants[0] ?? null;
+  if (!participant) {
+    return {
+      errorResponse: NextResponse.json(
+        { error: "Participant not found", code: "PARTICIPANT_NOT_FOUND" },
+        { status: 404 }
+      ),
+    };
+  }
+
+  return { service, participant };
+}
+
+export async function GET(req: Request) {
+  const params = new URL(req.url).searchParams;
+  const resolved = await resolveParticipant(normalizeText(params.get("participantId")));
+  if ("errorResponse" in resolved) return resolved.errorResponse;
+
+  const { service, participant } = resolved;
+  // Waitlisted participants have no place at the event yet, so nothing to check in with.
+  if (participant.registration_status && participant.registration_status !== "confirmed") {
+    return NextResponse.json(
+      { error: "Badges are issued to confirmed participants", code: "BADGE_NOT_AVAILABLE" },
+      { status: 409 }
+    );
+  }
+
+  try {
+    if (params.get("download") === "1") {
+      const pdf = await renderParticipantBadgePdf(service, participant);
+      return new NextResponse(Buffer.from(pdf), {
+        headers: {
+          "Content-Type": "application/pdf",
+          "Content-Disposition": `attachment; filename="${badgeFilename(participant)}"`,
+          "Cache-Control": "no-store",
+        },
+      });
+    }
+
+    const qr = participantBadgeQr(participant.id);
+    return NextResponse.json({ qr: { size: qr.length, path: qrSvgPath(qr) } });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "Unable to load badge";
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
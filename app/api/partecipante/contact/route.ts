@@ -1,7 +1,8 @@
 import { NextResponse } from "next/server";
 import { createSupabaseServerClient } from "@/lib/supabase/server";
 import { createSupabaseServiceClient } from "@/lib/supabase/service";
-import { getGmailSenderAddress, sendGmailTextEmail } from "@/lib/email/gmail";
+import { loadEmailSenderRuntimeSettings } from "@/lib/email/settings";
+import { sendEmail } from "@/lib/email/transport";
 
 type ParticipantContactRow = {
   id: string;
@@ -133,7 +134,6 @@ export async function POST(req: Request) {
   const cognome = (participant.cognome ?? "").trim() || "-";
   const gruppo = buildParticipantGroup(participant);
   const tallySubmissionId = (participant.tally_submission_id ?? "").trim() || "-";
-  const from = getGmailSenderAddress();
 
   const subject = `Participant message - ${nome} ${cognome}`;
   const text = [
@@ -150,7 +150,11 @@ export async function POST(req: Request) {
   ].join("\n");
 
   try {
-    await sendGmailTextEmail({ from, to: ORGANIZERS_EMAIL, subject, text, replyTo: userEmail });
+    const senderSettings = await loadEmailSenderRuntimeSettings();
+    await sendEmail(
+      { to: ORGANIZERS_EMAIL, subject, text, replyTo: userEmail },
+      senderSettings
+    );
   } catch (sendError) {
     return NextResponse.json(
       { error: (sendError as Error).message },
@@ -1,7 +1,9 @@
 import { NextResponse } from "next/server";
 import { createSupabaseServerClient } from "@/lib/supabase/server";
 import { createSupabaseServiceClient } from "@/lib/supabase/service";
-import { getGmailSenderAddress, sendGmailTextEmail } from "@/lib/email/gmail";
+import { runProfileUpdatedTrigger } from "@/lib/email/automation";
+import { loadEmailSenderRuntimeSettings } from "@/lib/email/settings";
+import { sendEmail } from "@/lib/email/transport";
 import { computeParticipantCalculatedFields } from "@/lib/tally/calculated-fields";
 import {
   ALLOGGIO_OPTIONS,
@@ -393,30 +395,31 @@ export async function PATCH(req: Request) {
     dataNascita,
   });
 
+  const profileUpdate = {
+    nome,
+    cognome,
+    nazione,
+    data_nascita: dataNascita,
+    data_arrivo: dataArrivo,
+    data_partenza: dataPartenza,
+    alloggio,
+    allergie,
+    esigenze_alimentari:
+      esigenzeAlimentari.length > 0 ? esigenzeAlimentari.join(", ") : null,
+    disabilita_accessibilita: disabilitaAccessibilita,
+    difficolta_accessibilita:
+      difficoltaAccessibilita.length > 0
+        ? difficoltaAccessibilita.join(", ")
+        : null,
+    giorni_permanenza: calculated.giorniPermanenza,
+    eta: calculated.eta,
+    is_minorenne: calculated.isMinorenne,
+  };
+
   const service = createSupabaseServiceClient();
   const { error: updateError } = await service
     .from("partecipanti")
-    .update({
-      nome,
-      cognome,
-      nazione,
-      data_nascita: dataNascita,
-      data_arrivo: dataArrivo,
-      data_partenza: dataPartenza,
-      alloggio,
-      allergie,
-      esigenze_alimentari:
-        esigenzeAlimentari.length > 0 ? esigenzeAlimentari.join(", ") : null,
-      disabilita_accessibilita: disabilitaAccessibilita,
-      difficolta_accessibilita:
-        difficoltaAccessibilita.length > 0
-          ? difficoltaAccessibilita.join(", ")
-          : null,
-      giorni_permanenza: calculated.giorniPermanenza,
-      quota_totale: calculated.quotaTotale,
-      eta: calculated.eta,
-      is_minorenne: calculated.isMinorenne,
-    })
+    .update(profileUpdate)
     .eq("id", participant.id)
     .ilike("email", auth.email);
 
@@ -424,6 +427,8 @@ export async function PATCH(req: Request) {
     return NextResponse.json({ error: updateError.message }, { status: 500 });
   }
 
+  await runProfileUpdatedTrigger(service, participant.id, participant, profileUpdate);
+
   return NextResponse.json({ ok: true });
 }
 
@@ -488,12 +493,8 @@ export async function DELETE(req: Request) {
 
   let emailSent = true;
   try {
-    await sendGmailTextEmail({
-      from: getGmailSenderAddress(),
-      to: auth.email,
-      subject,
-      text,
-    });
+    const senderSettings = await loadEmailSenderRuntimeSettings();
+    await sendEmail({ to: auth.email, subject, text }, senderSettings);
   } catch {
     emailSent = false;
   }
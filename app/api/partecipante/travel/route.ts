@@ -0,0 +1,130 @@
+import { NextResponse } from "next/server";
+import { createSupabaseServerClient } from "@/lib/supabase/server";
+import { createSupabaseServiceClient } from "@/lib/supabase/service";
+import { isTravelDirection, parseTravelDetails } from "@/lib/travel/logistics";
+import { loadTravelDetails, saveTravelDetails } from "@/lib/travel/store";
+
+type ParticipantTravelRow = {
+  id: string;
+  data_arrivo: string | null;
+  data_partenza: string | null;
+  submitted_at_tally: string | null;
+};
+
+function normalizeText(value: unknown): string | null {
+  if (typeof value !== "string") return null;
+  const trimmed = value.trim();
+  return trimmed.length > 0 ? trimmed : null;
+}
+
+async function resolveParticipant(participantId: string | null) {
+  const supabase = await createSupabaseServerClient();
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+
+  const userEmail = (user?.email ?? "").trim().toLowerCase();
+  if (!user || !userEmail) {
+    return {
+      errorResponse: NextResponse.json({ error: "Unauthorized" }, { status: 401 }),
+    };
+  }
+
+  const service = createSupabaseServiceClient();
+  const { data, error } = await service
+    .from("partecipanti")
+    .select("id,data_arrivo,data_partenza,submitted_at_tally")
+    .ilike("email", userEmail);
+
+  if (error) {
+    return {
+      errorResponse: NextResponse.json({ error: error.message }, { status: 500 }),
+    };
+  }
+
+  const participants = ((data ?? []) as ParticipantTravelRow[]).sort((a, b) =>
+    (b.submitted_at_tally ?? "").localeCompare(a.submitted_at_tally ?? "")
+  );
+  if (participants.length > 1 && !participantId) {
+    return {
+      errorResponse: NextResponse.json(
+        {
+          error: "Multiple participants found for this email",
+          code: "PARTICIPANT_SELECTION_REQUIRED",
+          requiresSelection: true,
+        },
+        { status: 409 }
+      ),
+    };
+  }
+
+  const participant = participantId
+    ? participants.find((row) => row.id === participantId) ?? null
+    : participants[0] ?? null;
+  if (!participant) {
+    return {
+      errorResponse: NextResponse.json(
+        { error: "Participant not found", code: "PARTICIPANT_NOT_FOUND" },
+        { status: 404 }
+      ),
+    };
+  }
+
+  return { service, participant, userId: user.id };
+}
+
+export async function GET(req: Request) {
+  const params = new URL(req.url).searchParams;
+  const resolved = await resolveParticipant(normalizeText(params.get("participantId")));
+  if ("errorResponse" in resolved) return resolved.errorResponse;
+
+  const { service, participant } = resolved;
+  try {
+    return NextResponse.json({
+      arrivalDate: participant.data_arrivo,
+      departureDate: participant.data_partenza,
+      travel: await loadTravelDetails(service, [participant.id]),
+    });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "Unable to load travel details";
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
+
+// Saves the arrival or the departure; details: null clears it.
+export async function PUT(req: Request) {
+  let body: Record<string, unknown> = {};
+  try {
+    body = await req.json();
+  } catch {
+    return NextResponse.json({ error: "Invalid JSON body" }, { status: 400 });
+  }
+
+  const resolved = await resolveParticipant(normalizeText(body.participant_id));
+  if ("errorResponse" in resolved) return resolved.errorResponse;
+
+  if (!isTravelDirection(body.direction)) {
+    return NextResponse.json({ error: "Invalid direction" }, { status: 400 });
+  }
+  const details =
+    body.details && typeof body.details === "object"
+      ? parseTravelDetails(body.details as Record<string, unknown>)
+      : null;
+  if (details && details.error !== null) {
+    return NextResponse.json({ error: details.error }, { status: 400 });
+  }
+
+  try {
+    const travel = await saveTravelDetails(
+      resolved.service,
+      resolved.participant.id,
+      body.direction,
+      details?.input ?? null,
+      resolved.userId
+    );
+    return NextResponse.json({ travel });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "Unable to save travel details";
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
@@ -0,0 +1,159 @@
+import { NextResponse } from "next/server";
+import { createSupabaseServerClient } from "@/lib/supabase/server";
+import { createSupabaseServiceClient } from "@/lib/supabase/service";
+import { parseVisaLetterRequest } from "@/lib/visa/letter-policy";
+import {
+  createVisaLetterRequest,
+  loadLatestVisaLetterRequest,
+  renderVisaLetterPdf,
+  visaLetterFilename,
+  type VisaLetterRequestRow,
+} from "@/lib/visa/letter-store";
+
+type ParticipantVisaRow = {
+  id: string;
+  data_partenza: string | null;
+  submitted_at_tally: string | null;
+};
+
+function normalizeText(value: unknown): string | null {
+  if (typeof value !== "string") return null;
+  const trimmed = value.trim();
+  return trimmed.length > 0 ? trimmed : null;
+}
+
+// The participant sees the state of the request, never the stored letter snapshot.
+function toParticipantView(request: VisaLetterRequestRow | null) {
+  if (!request) return null;
+  return {
+    id: request.id,
+    status: request.status,
+    passport_number: request.passport_number,
+    passport_expiry: request.passport_expiry,
+    consulate: request.consulate,
+    letter_number: request.letter_number,
+    rejection_reason: request.rejection_reason,
+    decided_at: request.decided_at,
+    emailed_at: request.emailed_at,
+    created_at: request.created_at,
+  };
+}
+
+async function resolveParticipant(participantId: string | null) {
+  const supabase = await createSupabaseServerClient();
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+
+  const userEmail = (user?.email ?? "").trim().toLowerCase();
+  if (!userEmail) {
+    return {
+      errorResponse: NextResponse.json({ error: "Unauthorized" }, { status: 401 }),
+    };
+  }
+
+  const service = createSupabaseServiceClient();
+  const { data, error } = await service
+    .from("partecipanti")
+    .select("id,data_partenza,submitted_at_tally")
+    .ilike("email", userEmail);
+
+  if (error) {
+    return {
+      errorResponse: NextResponse.json({ error: error.message }, { status: 500 }),
+    };
+  }
+
+  const participants = ((data ?? []) as ParticipantVisaRow[]).sort((a, b) =>
+    (b.submitted_at_tally ?? "").localeCompare(a.submitted_at_tally ?? "")
+  );
+  if (participants.length > 1 && !participantId) {
+    return {
+      errorResponse: NextResponse.json(
+        {
+          error: "Multiple participants found for this email",
+          code: "PARTICIPANT_SELECTION_REQUIRED",
+          requiresSelection: true,
+        },
+        { status: 409 }
+      ),
+    };
+  }
+
+  const participant = participantId
+    ? participants.find((row) => row.id === participantId) ?? null
+    : participants[0] ?? null;
+  if (!participant) {
+    return {
+      errorResponse: NextResponse.json(
+        { error: "Participant not found", code: "PARTICIPANT_NOT_FOUND" },
+        { status: 404 }
+      ),
+    };
+  }
+
+  return { service, participant };
+}
+
+export async function GET(req: Request) {
+  const params = new URL(req.url).searchParams;
+  const resolved = await resolveParticipant(normalizeText(params.get("participantId")));
+  if ("errorResponse" in resolved) return resolved.errorResponse;
+
+  try {
+    const request = await loadLatestVisaLetterRequest(resolved.service, resolved.participant.id);
+
+    if (params.get("download") === "1") {
+      if (request?.status !== "approved" || !request.snapshot) {
+        return NextResponse.json({ error: "No approved letter is available" }, { status: 404 });
+      }
+      return new NextResponse(Buffer.from(renderVisaLetterPdf(request.snapshot)), {
+        headers: {
+          "Content-Type": "application/pdf",
+          "Content-Disposition": `attachment; filename="${visaLetterFilename(request.snapshot)}"`,
+          "Cache-Control": "no-store",
+        },
+      });
+    }
+
+    return NextResponse.json({ request: toParticipantView(request) });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "Unable to load visa letter";
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
+
+export async function POST(req: Request) {
+  let body: Record<string, unknown> = {};
+  try {
+    body = await req.json();
+  } catch {
+    return NextResponse.json({ error: "Invalid JSON body" }, { status: 400 });
+  }
+
+  const resolved = await resolveParticipant(normalizeText(body.participant_id));
+  if ("errorResponse" in resolved) return resolved.errorResponse;
+
+  const parsed = parseVisaLetterRequest(body, {
+    today: new Date().toISOString().slice(0, 10),
+    departureDate: resolved.participant.data_partenza,
+  });
+  if (parsed.error !== null) {
+    return NextResponse.json({ error: parsed.error }, { status: 400 });
+  }
+
+  try {
+    const result = await createVisaLetterRequest(
+      resolved.service,
+      resolved.participant.id,
+      parsed.input
+    );
+    if ("error" in result) {
+      return NextResponse.json({ error: result.error }, { status: result.status });
+    }
+    return NextResponse.json({ request: toParticipantView(result.request) });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "Unable to request visa letter";
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
@@ -0,0 +1,57 @@
+import { NextResponse } from "next/server";
+import { getMessage, parseStoredLocale } from "@/lib/i18n";
+import { getServerLocale } from "@/lib/i18n/server";
+import { REGISTRATION_SUGGESTIONS } from "@/lib/registration/form";
+import { isHoneypotSubmission } from "@/lib/registration/submit";
+import { processRegistrationForm } from "@/lib/registration/submit-store";
+import { createSupabaseServiceClient } from "@/lib/supabase/service";
+
+// Suggestions for the free-text answers. Static on purpose: this route is public.
+export async function GET() {
+  return NextResponse.json(REGISTRATION_SUGGESTIONS);
+}
+
+export async function POST(req: Request) {
+  const rawBody = await req.text();
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(rawBody);
+  } catch {
+    return NextResponse.json({ error: "Invalid JSON body" }, { status: 400 });
+  }
+  if (!parsed || typeof parsed !== "object" || Array.isArray(parsed)) {
+    return NextResponse.json({ error: "Invalid JSON body" }, { status: 400 });
+  }
+  const body = parsed as Record<string, unknown>;
+
+  if (isHoneypotSubmission(body)) {
+    return NextResponse.json({ ok: true });
+  }
+
+  try {
+    const service = createSupabaseServiceClient();
+    const outcome = await processRegistrationForm(service, body, { rawBody });
+
+    if ("error" in outcome) {
+      return NextResponse.json({ error: outcome.error }, { status: outcome.status });
+    }
+
+    if ("validationErrors" in outcome) {
+      const locale = parseStoredLocale(body.locale) ?? (await getServerLocale());
+      const errors = outcome.validationErrors.map((item) => ({
+        ...item,
+        message: getMessage(locale, item.key, item.params),
+      }));
+      return NextResponse.json(
+        { error: `Invalid fields: ${errors.map((item) => item.field).join(", ")}`, errors },
+        { status: 400 }
+      );
+    }
+
+    const { result } = outcome;
+    return NextResponse.json(result.body, { status: result.httpStatus });
+  } catch (error) {
+    return NextResponse.json({ error: (error as Error).message }, { status: 500 });
+  }
+}
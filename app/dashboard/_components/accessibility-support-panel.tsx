@@ -0,0 +1,377 @@
+"use client";
+
+import { useEffect, useMemo, useState } from "react";
+import {
+  groupByDifficulty,
+  SUPPORT_STATUS_LABELS,
+  SUPPORT_STATUSES,
+  type SupportEntry,
+  type SupportPlan,
+  type SupportStatus,
+} from "@/lib/accessibility/support";
+import { DIFFICOLTA_ACCESSIBILITA_OPTIONS } from "@/lib/partecipante/constants";
+
+type PlanDraft = {
+  status: SupportStatus;
+  buddy_name: string;
+  buddy_contact: string;
+  action_item: string;
+  notes: string;
+};
+
+const STATUS_STYLES: Record<SupportStatus, string> = {
+  to_contact: "bg-amber-100 text-amber-800",
+  in_progress: "bg-sky-100 text-sky-800",
+  arranged: "bg-emerald-100 text-emerald-800",
+  not_needed: "bg-slate-100 text-slate-600",
+};
+
+function fullName(entry: SupportEntry) {
+  return [entry.nome ?? "", entry.cognome ?? ""].join(" ").trim() || "-";
+}
+
+function toDraft(plan: SupportPlan): PlanDraft {
+  return {
+    status: plan.status,
+    buddy_name: plan.buddy_name ?? "",
+    buddy_contact: plan.buddy_contact ?? "",
+    action_item: plan.action_item ?? "",
+    notes: plan.notes ?? "",
+  };
+}
+
+export function AccessibilitySupportPanel() {
+  const [entries, setEntries] = useState<SupportEntry[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [statusFilter, setStatusFilter] = useState<SupportStatus | "">("");
+  const [search, setSearch] = useState("");
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [draft, setDraft] = useState<PlanDraft | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    async function load() {
+      try {
+        const res = await fetch("/api/manager/accessibility", { cache: "no-store" });
+        const json = (await res.json()) as { entries?: SupportEntry[]; error?: string };
+        if (cancelled) return;
+        if (!res.ok) {
+          setError(json.error ?? "Unable to load accessibility needs.");
+          return;
+        }
+        setEntries(json.entries ?? []);
+      } catch {
+        if (!cancelled) setError("Unable to load accessibility needs.");
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    }
+
+    void load();
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  const statusCounts = useMemo(() => {
+    const counts = Object.fromEntries(SUPPORT_STATUSES.map((status) => [status, 0])) as Record<
+      SupportStatus,
+      number
+    >;
+    for (const entry of entries) counts[entry.plan.status] += 1;
+    return counts;
+  }, [entries]);
+
+  const groups = useMemo(() => {
+    const needle = search.trim().toLowerCase();
+    const visible = entries.filter(
+      (entry) =>
+        (!statusFilter || entry.plan.status === statusFilter) &&
+        (!needle ||
+          [fullName(entry), entry.gruppo_label ?? "", entry.plan.buddy_name ?? ""]
+            .join(" ")
+            .toLowerCase()
+            .includes(needle))
+    );
+    return groupByDifficulty(visible, DIFFICOLTA_ACCESSIBILITA_OPTIONS);
+  }, [entries, search, statusFilter]);
+
+  function startEditing(entry: SupportEntry) {
+    setEditingId(entry.id);
+    setDraft(toDraft(entry.plan));
+  }
+
+  async function saveDraft(participantId: string) {
+    if (!draft) return;
+    setSaving(true);
+    setError(null);
+    try {
+      const res = await fetch("/api/manager/accessibility", {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ participantId, ...draft }),
+      });
+      const json = (await res.json()) as { plan?: SupportPlan; error?: string };
+      if (!res.ok || !json.plan) {
+        setError(json.error ?? "Unable to save support plan.");
+        return;
+      }
+      const plan = json.plan;
+      setEntries((current) =>
+        current.map((entry) => (entry.id === participantId ? { ...entry, plan } : entry))
+      );
+      setEditingId(null);
+      setDraft(null);
+    } catch {
+      setError("Unable to save support plan.");
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  const inputClass = "w-full rounded border border-slate-300 px-3 py-2 text-sm";
+
+  return (
+    <div className="space-y-4">
+      {error && (
+        <div className="rounded border border-red-200 bg-red-50 px-4 py-3 text-sm text-red-700">
+          {error}
+        </div>
+      )}
+
+      <section className="rounded-xl border border-slate-200 bg-white p-4 shadow-sm">
+        <div className="flex flex-wrap items-start justify-between gap-3">
+          <div>
+            <h2 className="text-lg font-semibold text-slate-900">Accessibility support</h2>
+            <p className="mt-1 max-w-2xl text-xs text-slate-500">
+              Confirmed participants who declared a disability or an accessibility difficulty.
+              Assign a volunteer buddy or an action item to each person and track the follow-up.
+              The briefing for venue staff leaves out internal notes and people marked as not
+              needing support.
+            </p>
+          </div>
+          {entries.length > 0 ? (
+            <div className="flex gap-2">
+              <a
+                href="/api/manager/accessibility?format=pdf"
+                className="rounded bg-indigo-600 px-4 py-2 text-sm font-medium text-white hover:bg-indigo-700"
+              >
+                Venue briefing (PDF)
+              </a>
+              <a
+                href="/api/manager/accessibility?format=csv"
+                className="rounded border border-slate-300 px-4 py-2 text-sm font-medium text-slate-700 hover:bg-slate-100"
+              >
+                CSV
+              </a>
+            </div>
+          ) : null}
+        </div>
+
+        <div className="mt-4 flex flex-wrap gap-2">
+          <button
+            type="button"
+            onClick={() => setStatusFilter("")}
+            className={`rounded-full px-3 py-1 text-xs font-medium ${
+              statusFilter === "" ? "bg-slate-900 text-white" : "bg-slate-100 text-slate-700"
+            }`}
+          >
+            All ({entries.length})
+          </button>
+          {SUPPORT_STATUSES.map((status) => (
+            <button
+              key={status}
+              type="button"
+              onClick={() => setStatusFilter(status)}
+              className={`rounded-full px-3 py-1 text-xs font-medium ${
+                statusFilter === status ? "bg-slate-900 text-white" : STATUS_STYLES[status]
+              }`}
+            >
+              {SUPPORT_STATUS_LABELS[status]} ({statusCounts[status]})
+            </button>
+          ))}
+          <input
+            value={search}
+            onChange={(e) => setSearch(e.target.value)}
+            placeholder="Search name, group or buddy"
+            className="ml-auto w-full max-w-xs rounded border border-slate-300 px-3 py-1.5 text-sm"
+          />
+        </div>
+      </section>
+
+      {loading ? (
+        <p className="text-sm text-slate-500">Loading accessibility needs...</p>
+      ) : groups.length === 0 ? (
+        <p className="text-sm text-slate-500">No participants match.</p>
+      ) : (
+        groups.map((group) => (
+          <section
+            key={group.difficulty}
+            className="rounded-xl border border-slate-200 bg-white p-4 shadow-sm"
+          >
+            <h3 className="text-sm font-semibold text-slate-900">
+              {group.difficulty} ({group.entries.length})
+            </h3>
+            <div className="mt-3 overflow-x-auto rounded border border-slate-200">
+              <table className="w-full border-collapse text-left text-sm">
+                <thead className="bg-slate-50 text-slate-700">
+                  <tr>
+                    <th className="px-4 py-3">Name</th>
+                    <th className="px-4 py-3">Group</th>
+                    <th className="px-4 py-3">Stay</th>
+                    <th className="px-4 py-3">Accommodation</th>
+                    <th className="px-4 py-3">Buddy / action</th>
+                    <th className="px-4 py-3">Status</th>
+                    <th className="px-4 py-3" />
+                  </tr>
+                </thead>
+                <tbody>
+                  {group.entries.map((entry) =>
+                    editingId === entry.id && draft ? (
+                      <tr
+                        key={entry.id}
+                        className="border-t border-slate-100 bg-slate-50 align-top"
+                      >
+                        <td className="px-4 py-3 font-medium">{fullName(entry)}</td>
+                        <td colSpan={6} className="px-4 py-3">
+                          <div className="grid gap-3 md:grid-cols-2">
+                            <label className="flex flex-col gap-1 text-xs text-slate-600">
+                              Buddy
+                              <input
+                                value={draft.buddy_name}
+                                onChange={(e) => setDraft({ ...draft, buddy_name: e.target.value })}
+                                className={inputClass}
+                              />
+                            </label>
+                            <label className="flex flex-col gap-1 text-xs text-slate-600">
+                              Buddy contact
+                              <input
+                                value={draft.buddy_contact}
+                                onChange={(e) =>
+                                  setDraft({ ...draft, buddy_contact: e.target.value })
+                                }
+                                className={inputClass}
+                              />
+                            </label>
+                            <label className="flex flex-col gap-1 text-xs text-slate-600">
+                              Action item
+                              <input
+                                value={draft.action_item}
+                                onChange={(e) =>
+                                  setDraft({ ...draft, action_item: e.target.value })
+                                }
+                                placeholder="e.g. ground floor room, reserved seat near the stage"
+                                className={inputClass}
+                              />
+                            </label>
+                            <label className="flex flex-col gap-1 text-xs text-slate-600">
+                              Status
+                              <select
+                                value={draft.status}
+                                onChange={(e) =>
+                                  setDraft({ ...draft, status: e.target.value as SupportStatus })
+                                }
+                                className={inputClass}
+                              >
+                                {SUPPORT_STATUSES.map((status) => (
+                                  <option key={status} value={status}>
+                                    {SUPPORT_STATUS_LABELS[status]}
+                                  </option>
+                                ))}
+                              </select>
+                            </label>
+                            <label className="flex flex-col gap-1 text-xs text-slate-600 md:col-span-2">
+                              Internal notes (not in the briefing)
+                              <textarea
+                                value={draft.notes}
+                                onChange={(e) => setDraft({ ...draft, notes: e.target.value })}
+                                rows={2}
+                                className={inputClass}
+                              />
+                            </label>
+                          </div>
+                          <div className="mt-3 flex gap-2">
+                            <button
+                              type="button"
+                              onClick={() => void saveDraft(entry.id)}
+                              disabled={saving}
+                              className="rounded bg-indigo-600 px-4 py-2 text-sm font-medium text-white hover:bg-indigo-700 disabled:opacity-50"
+                            >
+                              {saving ? "Saving..." : "Save"}
+                            </button>
+                            <button
+                              type="button"
+                              onClick={() => {
+                                setEditingId(null);
+                                setDraft(null);
+                              }}
+                              className="rounded border border-slate-300 px-4 py-2 text-sm font-medium text-slate-700 hover:bg-slate-100"
+                            >
+                              Cancel
+                            </button>
+                          </div>
+                        </td>
+                      </tr>
+                    ) : (
+                      <tr key={entry.id} className="border-t border-slate-100 align-top">
+                        <td className="px-4 py-3">
+                          <div className="font-medium">{fullName(entry)}</div>
+                          {entry.telefono ? (
+                            <div className="text-xs text-slate-500">{entry.telefono}</div>
+                          ) : null}
+                        </td>
+                        <td className="px-4 py-3">{entry.gruppo_label ?? "-"}</td>
+                        <td className="px-4 py-3 whitespace-nowrap">
+                          {entry.data_arrivo ?? "?"} - {entry.data_partenza ?? "?"}
+                        </td>
+                        <td className="px-4 py-3">{entry.accommodation ?? "-"}</td>
+                        <td className="px-4 py-3">
+                          {entry.plan.buddy_name ? (
+                            <div>
+                              {entry.plan.buddy_name}
+                              {entry.plan.buddy_contact ? (
+                                <span className="text-xs text-slate-500">
+                                  {" "}
+                                  ({entry.plan.buddy_contact})
+                                </span>
+                              ) : null}
+                            </div>
+                          ) : null}
+                          {entry.plan.action_item ? (
+                            <div className="text-xs text-slate-600">{entry.plan.action_item}</div>
+                          ) : null}
+                          {!entry.plan.buddy_name && !entry.plan.action_item ? "-" : null}
+                        </td>
+                        <td className="px-4 py-3">
+                          <span
+                            className={`rounded px-2 py-0.5 text-xs font-semibold ${
+                              STATUS_STYLES[entry.plan.status]
+                            }`}
+                          >
+                            {SUPPORT_STATUS_LABELS[entry.plan.status]}
+                          </span>
+                        </td>
+                        <td className="px-4 py-3 text-right">
+                          <button
+                            type="button"
+                            onClick={() => startEditing(entry)}
+                            className="rounded border border-slate-300 px-3 py-1.5 text-xs font-medium text-slate-700 hover:bg-slate-100"
+                          >
+                            Edit
+                          </button>
+                        </td>
+                      </tr>
+                    )
+                  )}
+                </tbody>
+              </table>
+            </div>
+          </section>
+        ))
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,338 @@
+"use client";
+
+import { useMemo, useState } from "react";
+import {
+  findAssignmentConflict,
+  participantStayRange,
+  type BedAssignmentLike,
+} from "@/lib/alloggi/allocation";
+import {
+  suggestRoomAssignments,
+  type UnplacedParticipant,
+} from "@/lib/alloggi/auto-assign";
+
+type AutoAssignParticipant = {
+  id: string;
+  nome: string | null;
+  cognome: string | null;
+  sesso: string | null;
+  is_minorenne: boolean | null;
+  data_arrivo: string | null;
+  data_partenza: string | null;
+  gruppo_id: string | null;
+  group: string;
+  needs_accessible_room: boolean;
+};
+
+type AutoAssignStructure = {
+  id: string;
+  name: string;
+};
+
+type AutoAssignRoom = {
+  id: string;
+  structure_id: string;
+  name: string;
+  capacity: number;
+  is_accessible: boolean;
+};
+
+type AutoAssignBed = {
+  id: string;
+  room_id: string;
+  label: string;
+};
+
+type AutoAssignExisting = {
+  id: string;
+  bed_id: string;
+  participant_id: string;
+  night_from: string;
+  night_to: string;
+};
+
+type AccommodationAutoAssignProps = {
+  participants: AutoAssignParticipant[];
+  structures: AutoAssignStructure[];
+  rooms: AutoAssignRoom[];
+  beds: AutoAssignBed[];
+  assignments: AutoAssignExisting[];
+  busy: boolean;
+  onCommit: (draft: BedAssignmentLike[]) => Promise<boolean>;
+};
+
+function fullName(participant: AutoAssignParticipant | undefined) {
+  if (!participant) return "Unknown participant";
+  return [participant.nome, participant.cognome].filter(Boolean).join(" ").trim() || "-";
+}
+
+export function AccommodationAutoAssign({
+  participants,
+  structures,
+  rooms,
+  beds,
+  assignments,
+  busy,
+  onCommit,
+}: AccommodationAutoAssignProps) {
+  const [draft, setDraft] = useState<BedAssignmentLike[] | null>(null);
+  const [unplaced, setUnplaced] = useState<UnplacedParticipant[]>([]);
+
+  const participantsById = useMemo(
+    () => new Map(participants.map((participant) => [participant.id, participant])),
+    [participants]
+  );
+
+  const structureNames = useMemo(
+    () => new Map(structures.map((structure) => [structure.id, structure.name])),
+    [structures]
+  );
+
+  const orderedRooms = useMemo(() => {
+    return [...rooms].sort(
+      (a, b) =>
+        (structureNames.get(a.structure_id) ?? "").localeCompare(
+          structureNames.get(b.structure_id) ?? ""
+        ) || a.name.localeCompare(b.name, undefined, { numeric: true })
+    );
+  }, [rooms, structureNames]);
+
+  const bedOptions = useMemo(() => {
+    const roomsById = new Map(rooms.map((room) => [room.id, room]));
+    return beds
+      .map((bed) => {
+        const room = roomsById.get(bed.room_id);
+        const structureName = room ? structureNames.get(room.structure_id) : undefined;
+        return {
+          id: bed.id,
+          label: `${structureName ?? "?"} / ${room?.name ?? "?"} / ${bed.label}${
+            room?.is_accessible ? " (accessible)" : ""
+          }`,
+        };
+      })
+      .sort((a, b) => a.label.localeCompare(b.label, undefined, { numeric: true }));
+  }, [beds, rooms, structureNames]);
+
+  const existingAssignments = useMemo<BedAssignmentLike[]>(
+    () =>
+      assignments.map((row) => ({
+        id: row.id,
+        bed_id: row.bed_id,
+        participant_id: row.participant_id,
+        from: row.night_from,
+        to: row.night_to,
+      })),
+    [assignments]
+  );
+
+  // Re-check the draft after manual edits; every row is validated against the saved
+  // assignments plus the draft rows above it, the same way the server commits them.
+  const draftIssues = useMemo(() => {
+    const issues = new Map<number, string>();
+    if (!draft) return issues;
+
+    const accepted = [...existingAssignments];
+    draft.forEach((row, index) => {
+      const participant = participantsById.get(row.participant_id);
+      const conflict = findAssignmentConflict(row, {
+        beds,
+        rooms,
+        assignments: accepted,
+        participantStay: participant ? participantStayRange(participant) : null,
+      });
+      if (conflict) issues.set(index, conflict.message);
+      else accepted.push(row);
+    });
+    return issues;
+  }, [beds, draft, existingAssignments, participantsById, rooms]);
+
+  function handleGenerate() {
+    const result = suggestRoomAssignments({
+      participants: participants.map((participant) => ({
+        id: participant.id,
+        sesso: participant.sesso,
+        is_minorenne: participant.is_minorenne,
+        gruppo_id: participant.gruppo_id,
+        needs_accessible_room: participant.needs_accessible_room,
+        stay: participantStayRange(participant),
+      })),
+      rooms: orderedRooms,
+      beds,
+      assignments: existingAssignments,
+    });
+    setDraft(result.draft);
+    setUnplaced(result.unplaced);
+  }
+
+  function updateDraftBed(index: number, bedId: string) {
+    setDraft((prev) =>
+      prev ? prev.map((row, rowIndex) => (rowIndex === index ? { ...row, bed_id: bedId } : row)) : prev
+    );
+  }
+
+  function removeDraftRow(index: number) {
+    setDraft((prev) => (prev ? prev.filter((_, rowIndex) => rowIndex !== index) : prev));
+  }
+
+  async function handleCommit() {
+    if (!draft || draft.length === 0 || draftIssues.size > 0) return;
+    const ok = await onCommit(draft);
+    if (ok) {
+      setDraft(null);
+      setUnplaced([]);
+    }
+  }
+
+  return (
+    <section className="space-y-4">
+      <div className="rounded-xl border border-slate-200 bg-white p-4 shadow-sm">
+        <div className="flex flex-wrap items-center justify-between gap-3">
+          <div>
+            <h3 className="text-base font-semibold text-slate-900">Suggest assignment</h3>
+            <p className="mt-1 text-xs text-slate-500">
+              Fills free beds with guests who have no bed yet: one sex per room, minors only with
+              minors or adults of their own group, groups kept together where possible and
+              accessible rooms for guests who need them. Nothing is saved until you commit.
+            </p>
+          </div>
+          <div className="flex flex-wrap gap-2">
+            <button
+              type="button"
+              disabled={busy}
+              onClick={handleGenerate}
+              className="rounded border border-slate-300 bg-white px-4 py-2 text-sm font-medium text-slate-700 hover:bg-slate-100 disabled:cursor-not-allowed disabled:opacity-60"
+            >
+              {draft ? "Regenerate" : "Generate Suggestion"}
+            </button>
+            <button
+              type="button"
+              disabled={busy || !draft || draft.length === 0 || draftIssues.size > 0}
+              onClick={() => void handleCommit()}
+              className="rounded bg-indigo-600 px-4 py-2 text-sm font-medium text-white hover:bg-indigo-700 disabled:cursor-not-allowed disabled:opacity-60"
+            >
+              Commit {draft?.length ?? 0} Assignments
+            </button>
+          </div>
+        </div>
+
+        {draft && (
+          <div className="mt-4 overflow-x-auto rounded border border-slate-200">
+            <table className="w-full border-collapse text-left text-sm">
+              <thead className="bg-slate-50 text-slate-700">
+                <tr>
+                  <th className="px-4 py-3">Participant</th>
+                  <th className="px-4 py-3">Group</th>
+                  <th className="px-4 py-3">Sex</th>
+                  <th className="px-4 py-3">Stay</th>
+                  <th className="px-4 py-3">Bed</th>
+                  <th className="px-4 py-3">Actions</th>
+                </tr>
+              </thead>
+              <tbody>
+                {draft.length === 0 ? (
+                  <tr>
+                    <td colSpan={6} className="px-4 py-4 text-slate-500">
+                      No new assignments to suggest.
+                    </td>
+                  </tr>
+                ) : (
+                  draft.map((row, index) => {
+                    const participant = participantsById.get(row.participant_id);
+                    const issue = draftIssues.get(index);
+                    return (
+                      <tr
+                        key={row.participant_id}
+                        className={`border-t border-slate-100 align-top ${issue ? "bg-red-50" : ""}`}
+                      >
+                        <td className="px-4 py-3">
+                          {fullName(participant)}
+                          {participant?.is_minorenne ? (
+                            <span className="ml-2 rounded bg-amber-100 px-1.5 py-0.5 text-xs text-amber-800">
+                              minor
+                            </span>
+                          ) : null}
+                          {participant?.needs_accessible_room ? (
+                            <span className="ml-2 rounded bg-sky-100 px-1.5 py-0.5 text-xs text-sky-800">
+                              accessible
+                            </span>
+                          ) : null}
+                        </td>
+                        <td className="px-4 py-3">{participant?.group ?? "-"}</td>
+                        <td className="px-4 py-3">{participant?.sesso ?? "-"}</td>
+                        <td className="px-4 py-3">
+                          {row.from} - {row.to}
+                        </td>
+                        <td className="px-4 py-3">
+                          <select
+                            value={row.bed_id}
+                            onChange={(e) => updateDraftBed(index, e.target.value)}
+                            className="w-full min-w-56 rounded border border-slate-300 px-2 py-1 text-sm"
+                          >
+                            {bedOptions.map((option) => (
+                              <option key={option.id} value={option.id}>
+                                {option.label}
+                              </option>
+                            ))}
+                          </select>
+                          {issue && <p className="mt-1 text-xs text-red-700">{issue}</p>}
+                        </td>
+                        <td className="px-4 py-3">
+                          <button
+                            type="button"
+                            onClick={() => removeDraftRow(index)}
+                            className="rounded border border-red-300 px-3 py-1.5 text-xs font-medium text-red-700 hover:bg-red-50"
+                          >
+                            Remove
+                          </button>
+                        </td>
+                      </tr>
+                    );
+                  })
+                )}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+
+      {draft && (
+        <div className="rounded-xl border border-slate-200 bg-white p-4 shadow-sm">
+          <h3 className="text-base font-semibold text-slate-900">
+            Not placed ({unplaced.length})
+          </h3>
+          <div className="mt-3 overflow-x-auto rounded border border-slate-200">
+            <table className="w-full border-collapse text-left text-sm">
+              <thead className="bg-slate-50 text-slate-700">
+                <tr>
+                  <th className="px-4 py-3">Participant</th>
+                  <th className="px-4 py-3">Group</th>
+                  <th className="px-4 py-3">Reason</th>
+                </tr>
+              </thead>
+              <tbody>
+                {unplaced.length === 0 ? (
+                  <tr>
+                    <td colSpan={3} className="px-4 py-4 text-slate-500">
+                      Every guest without a bed was placed.
+                    </td>
+                  </tr>
+                ) : (
+                  unplaced.map((row) => {
+                    const participant = participantsById.get(row.participant_id);
+                    return (
+                      <tr key={row.participant_id} className="border-t border-slate-100">
+                        <td className="px-4 py-3">{fullName(participant)}</td>
+                        <td className="px-4 py-3">{participant?.group ?? "-"}</td>
+                        <td className="px-4 py-3 text-amber-800">{row.message}</td>
+                      </tr>
+                    );
+                  })
+                )}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      )}
+    </section>
+  );
+}
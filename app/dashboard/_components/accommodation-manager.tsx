@@ -0,0 +1,1158 @@
+"use client";
+
+import { FormEvent, useEffect, useMemo, useState } from "react";
+import {
+  findAssignmentConflict,
+  listNights,
+  participantStayRange,
+  type BedAssignmentLike,
+} from "@/lib/alloggi/allocation";
+import { AccommodationAutoAssign } from "./accommodation-auto-assign";
+
+type AccommodationTab = "overview" | "structures" | "assignments" | "auto";
+
+type Structure = {
+  id: string;
+  name: string;
+  address: string | null;
+  notes: string | null;
+};
+
+type Room = {
+  id: string;
+  structure_id: string;
+  name: string;
+  floor: string | null;
+  capacity: number;
+  is_accessible: boolean;
+  notes: string | null;
+};
+
+type Bed = {
+  id: string;
+  room_id: string;
+  label: string;
+};
+
+type Assignment = {
+  id: string;
+  bed_id: string;
+  participant_id: string;
+  night_from: string;
+  night_to: string;
+  notes: string | null;
+};
+
+type Participant = {
+  id: string;
+  nome: string | null;
+  cognome: string | null;
+  sesso: string | null;
+  eta: number | null;
+  is_minorenne: boolean | null;
+  data_arrivo: string | null;
+  data_partenza: string | null;
+  alloggio: string | null;
+  gruppo_id: string | null;
+  gruppo_label: string | null;
+  group: string;
+  needs_accessible_room: boolean;
+};
+
+type AccommodationDataset = {
+  structures: Structure[];
+  rooms: Room[];
+  beds: Bed[];
+  assignments: Assignment[];
+  participants: Participant[];
+};
+
+type StructureForm = {
+  id: string | null;
+  name: string;
+  address: string;
+  notes: string;
+};
+
+type RoomForm = {
+  id: string | null;
+  structure_id: string;
+  name: string;
+  floor: string;
+  capacity: string;
+  is_accessible: boolean;
+  notes: string;
+};
+
+type AssignmentForm = {
+  participant_id: string;
+  bed_id: string;
+  night_from: string;
+  night_to: string;
+  notes: string;
+};
+
+const EMPTY_DATASET: AccommodationDataset = {
+  structures: [],
+  rooms: [],
+  beds: [],
+  assignments: [],
+  participants: [],
+};
+
+const TABS: Array<{ id: AccommodationTab; label: string }> = [
+  { id: "overview", label: "Overview" },
+  { id: "structures", label: "Structures & Rooms" },
+  { id: "assignments", label: "Bed Assignments" },
+  { id: "auto", label: "Auto Assign" },
+];
+
+function emptyStructureForm(): StructureForm {
+  return { id: null, name: "", address: "", notes: "" };
+}
+
+function emptyRoomForm(structureId = ""): RoomForm {
+  return {
+    id: null,
+    structure_id: structureId,
+    name: "",
+    floor: "",
+    capacity: "2",
+    is_accessible: false,
+    notes: "",
+  };
+}
+
+function emptyAssignmentForm(): AssignmentForm {
+  return { participant_id: "", bed_id: "", night_from: "", night_to: "", notes: "" };
+}
+
+function fullName(participant: Pick<Participant, "nome" | "cognome"> | undefined) {
+  if (!participant) return "Unknown participant";
+  return [participant.nome, participant.cognome].filter(Boolean).join(" ").trim() || "-";
+}
+
+function toAssignmentLike(row: Assignment): BedAssignmentLike {
+  return {
+    id: row.id,
+    bed_id: row.bed_id,
+    participant_id: row.participant_id,
+    from: row.night_from,
+    to: row.night_to,
+  };
+}
+
+export function AccommodationManager() {
+  const [dataset, setDataset] = useState<AccommodationDataset>(EMPTY_DATASET);
+  const [activeTab, setActiveTab] = useState<AccommodationTab>("overview");
+  const [loading, setLoading] = useState(true);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [success, setSuccess] = useState<string | null>(null);
+
+  const [structureForm, setStructureForm] = useState<StructureForm>(emptyStructureForm());
+  const [roomForm, setRoomForm] = useState<RoomForm>(emptyRoomForm());
+  const [assignmentForm, setAssignmentForm] = useState<AssignmentForm>(emptyAssignmentForm());
+  const [showStructureModal, setShowStructureModal] = useState(false);
+  const [showRoomModal, setShowRoomModal] = useState(false);
+  const [showAssignmentModal, setShowAssignmentModal] = useState(false);
+  const [assignmentFormError, setAssignmentFormError] = useState<string | null>(null);
+
+  const [participantSearch, setParticipantSearch] = useState("");
+  const [onlyUnassigned, setOnlyUnassigned] = useState(true);
+
+  const { structures, rooms, beds, assignments, participants } = dataset;
+
+  const participantsById = useMemo(
+    () => new Map(participants.map((participant) => [participant.id, participant])),
+    [participants]
+  );
+
+  const roomsById = useMemo(() => new Map(rooms.map((room) => [room.id, room])), [rooms]);
+  const structuresById = useMemo(
+    () => new Map(structures.map((structure) => [structure.id, structure])),
+    [structures]
+  );
+
+  const bedsByRoom = useMemo(() => {
+    const grouped = new Map<string, Bed[]>();
+    for (const bed of beds) {
+      const row = grouped.get(bed.room_id);
+      if (row) row.push(bed);
+      else grouped.set(bed.room_id, [bed]);
+    }
+    return grouped;
+  }, [beds]);
+
+  const assignmentsByBed = useMemo(() => {
+    const grouped = new Map<string, Assignment[]>();
+    for (const assignment of assignments) {
+      const row = grouped.get(assignment.bed_id);
+      if (row) row.push(assignment);
+      else grouped.set(assignment.bed_id, [assignment]);
+    }
+    return grouped;
+  }, [assignments]);
+
+  const assignedNightsByParticipant = useMemo(() => {
+    const grouped = new Map<string, number>();
+    for (const assignment of assignments) {
+      const nights = listNights({ from: assignment.night_from, to: assignment.night_to }).length;
+      grouped.set(assignment.participant_id, (grouped.get(assignment.participant_id) ?? 0) + nights);
+    }
+    return grouped;
+  }, [assignments]);
+
+  const participantRows = useMemo(() => {
+    return participants.map((participant) => {
+      const stay = participantStayRange(participant);
+      const stayNights = stay ? listNights(stay).length : 0;
+      const assignedNights = assignedNightsByParticipant.get(participant.id) ?? 0;
+      return {
+        participant,
+        stay,
+        stayNights,
+        assignedNights,
+        fullyAssigned: stayNights > 0 && assignedNights >= stayNights,
+      };
+    });
+  }, [assignedNightsByParticipant, participants]);
+
+  const visibleParticipantRows = useMemo(() => {
+    const term = participantSearch.trim().toLowerCase();
+    return participantRows.filter((row) => {
+      if (onlyUnassigned && row.fullyAssigned) return false;
+      if (!term) return true;
+      return [row.participant.nome, row.participant.cognome, row.participant.group]
+        .map((value) => (value ?? "").toLowerCase())
+        .join(" ")
+        .includes(term);
+    });
+  }, [onlyUnassigned, participantRows, participantSearch]);
+
+  const overview = useMemo(() => {
+    const totalCapacity = rooms.reduce((sum, room) => sum + room.capacity, 0);
+    const fullyAssigned = participantRows.filter((row) => row.fullyAssigned).length;
+    const nights = new Map<string, number>();
+    for (const assignment of assignments) {
+      for (const night of listNights({ from: assignment.night_from, to: assignment.night_to })) {
+        nights.set(night, (nights.get(night) ?? 0) + 1);
+      }
+    }
+    const neededByNight = new Map<string, number>();
+    for (const row of participantRows) {
+      if (!row.stay) continue;
+      for (const night of listNights(row.stay)) {
+        neededByNight.set(night, (neededByNight.get(night) ?? 0) + 1);
+      }
+    }
+    const nightRows = [...new Set([...nights.keys(), ...neededByNight.keys()])]
+      .sort((a, b) => a.localeCompare(b))
+      .map((night) => ({
+        night,
+        occupied: nights.get(night) ?? 0,
+        needed: neededByNight.get(night) ?? 0,
+      }));
+
+    return {
+      totalCapacity,
+      bedCount: beds.length,
+      participantCount: participants.length,
+      fullyAssigned,
+      nightRows,
+    };
+  }, [assignments, beds.length, participantRows, participants.length, rooms]);
+
+  const bedOptions = useMemo(() => {
+    return beds
+      .map((bed) => {
+        const room = roomsById.get(bed.room_id);
+        const structure = room ? structuresById.get(room.structure_id) : undefined;
+        return {
+          id: bed.id,
+          label: `${structure?.name ?? "?"} / ${room?.name ?? "?"} / ${bed.label}`,
+        };
+      })
+      .sort((a, b) => a.label.localeCompare(b.label));
+  }, [beds, roomsById, structuresById]);
+
+  useEffect(() => {
+    void reloadData();
+  }, []);
+
+  async function reloadData() {
+    setLoading(true);
+    setError(null);
+
+    try {
+      const res = await fetch("/api/alloggi", { method: "GET" });
+      const json = (await res.json()) as AccommodationDataset & { error?: string };
+      if (!res.ok) {
+        setError(json.error ?? "Unable to load accommodation data.");
+        return;
+      }
+      setDataset(json);
+    } catch {
+      setError("Unable to load accommodation data.");
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  async function runMutation(payload: Record<string, unknown>, successMessage: string) {
+    setBusy(true);
+    setError(null);
+    setSuccess(null);
+
+    try {
+      const res = await fetch("/api/alloggi", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(payload),
+      });
+      const json = (await res.json()) as { error?: string };
+
+      if (!res.ok) {
+        setError(json.error ?? "Unable to save changes.");
+        return false;
+      }
+
+      setSuccess(successMessage);
+      await reloadData();
+      return true;
+    } catch {
+      setError("Unable to save changes.");
+      return false;
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  async function handleSaveStructure(event: FormEvent<HTMLFormElement>) {
+    event.preventDefault();
+    if (!structureForm.name.trim()) return;
+
+    const ok = await runMutation(
+      {
+        entity: "structure",
+        action: structureForm.id ? "update" : "create",
+        id: structureForm.id ?? undefined,
+        data: {
+          name: structureForm.name,
+          address: structureForm.address,
+          notes: structureForm.notes,
+        },
+      },
+      structureForm.id ? "Structure updated." : "Structure created."
+    );
+
+    if (ok) {
+      setStructureForm(emptyStructureForm());
+      setShowStructureModal(false);
+    }
+  }
+
+  async function handleDeleteStructure(id: string) {
+    if (!window.confirm("Delete this structure with all its rooms, beds and assignments?")) return;
+    await runMutation({ entity: "structure", action: "delete", id }, "Structure deleted.");
+  }
+
+  async function handleSaveRoom(event: FormEvent<HTMLFormElement>) {
+    event.preventDefault();
+    if (!roomForm.name.trim() || !roomForm.structure_id) return;
+
+    const ok = await runMutation(
+      {
+        entity: "room",
+        action: roomForm.id ? "update" : "create",
+        id: roomForm.id ?? undefined,
+        data: {
+          structure_id: roomForm.structure_id,
+          name: roomForm.name,
+          floor: roomForm.floor,
+          capacity: Number(roomForm.capacity),
+          is_accessible: roomForm.is_accessible,
+          notes: roomForm.notes,
+        },
+      },
+      roomForm.id ? "Room updated." : "Room created with its beds."
+    );
+
+    if (ok) {
+      setRoomForm(emptyRoomForm());
+      setShowRoomModal(false);
+    }
+  }
+
+  async function handleDeleteRoom(id: string) {
+    if (!window.confirm("Delete this room with its beds and assignments?")) return;
+    await runMutation({ entity: "room", action: "delete", id }, "Room deleted.");
+  }
+
+  async function handleAddBed(room: Room) {
+    const existing = bedsByRoom.get(room.id) ?? [];
+    await runMutation(
+      {
+        entity: "bed",
+        action: "create",
+        data: { room_id: room.id, label: `Bed ${existing.length + 1}` },
+      },
+      "Bed added."
+    );
+  }
+
+  async function handleDeleteBed(id: string) {
+    if (!window.confirm("Delete this bed and its assignments?")) return;
+    await runMutation({ entity: "bed", action: "delete", id }, "Bed deleted.");
+  }
+
+  function openAssignmentModal(participant: Participant) {
+    setAssignmentForm({
+      participant_id: participant.id,
+      bed_id: "",
+      night_from: participant.data_arrivo ?? "",
+      night_to: participant.data_partenza ?? "",
+      notes: "",
+    });
+    setAssignmentFormError(null);
+    setShowAssignmentModal(true);
+  }
+
+  async function handleSaveAssignment(event: FormEvent<HTMLFormElement>) {
+    event.preventDefault();
+    setAssignmentFormError(null);
+
+    const participant = participantsById.get(assignmentForm.participant_id);
+    if (!participant || !assignmentForm.bed_id) {
+      setAssignmentFormError("Select a participant and a bed.");
+      return;
+    }
+
+    const conflict = findAssignmentConflict(
+      {
+        bed_id: assignmentForm.bed_id,
+        participant_id: assignmentForm.participant_id,
+        from: assignmentForm.night_from,
+        to: assignmentForm.night_to,
+      },
+      {
+        beds,
+        rooms,
+        assignments: assignments.map(toAssignmentLike),
+        participantStay: participantStayRange(participant),
+      }
+    );
+    if (conflict) {
+      setAssignmentFormError(conflict.message);
+      return;
+    }
+
+    const ok = await runMutation(
+      {
+        entity: "assignment",
+        action: "create",
+        data: assignmentForm,
+      },
+      "Bed assigned."
+    );
+
+    if (ok) {
+      setAssignmentForm(emptyAssignmentForm());
+      setShowAssignmentModal(false);
+    }
+  }
+
+  async function handleCommitDraft(draft: BedAssignmentLike[]) {
+    return runMutation(
+      {
+        entity: "assignment",
+        action: "bulk_create",
+        data: {
+          assignments: draft.map((row) => ({
+            bed_id: row.bed_id,
+            participant_id: row.participant_id,
+            night_from: row.from,
+            night_to: row.to,
+          })),
+        },
+      },
+      `${draft.length} assignments saved.`
+    );
+  }
+
+  async function handleDeleteAssignment(id: string) {
+    if (!window.confirm("Remove this bed assignment?")) return;
+    await runMutation({ entity: "assignment", action: "delete", id }, "Assignment removed.");
+  }
+
+  if (loading && structures.length === 0 && participants.length === 0) {
+    return (
+      <div className="rounded border border-slate-200 bg-white px-4 py-6 text-sm text-slate-500">
+        Loading accommodation data...
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      {error && (
+        <div className="rounded border border-red-200 bg-red-50 px-4 py-3 text-sm text-red-700">
+          {error}
+        </div>
+      )}
+      {success && (
+        <div className="rounded border border-emerald-200 bg-emerald-50 px-4 py-3 text-sm text-emerald-700">
+          {success}
+        </div>
+      )}
+
+      <div className="grid gap-4 lg:grid-cols-[220px_1fr]">
+        <aside className="rounded-xl border border-slate-200 bg-white p-3 shadow-sm">
+          <nav className="space-y-1">
+            {TABS.map((tab) => (
+              <button
+                key={tab.id}
+                type="button"
+                onClick={() => setActiveTab(tab.id)}
+                className={`w-full rounded-lg border px-3 py-2 text-left text-sm font-medium transition-all ${
+                  activeTab === tab.id
+                    ? "border-indigo-600 bg-indigo-600 text-white"
+                    : "border-slate-300 bg-white text-slate-700 hover:border-slate-400 hover:bg-slate-100"
+                }`}
+              >
+                {tab.label}
+              </button>
+            ))}
+          </nav>
+        </aside>
+
+        <div>
+          {activeTab === "overview" && (
+            <section className="space-y-4">
+              <div className="grid gap-3 md:grid-cols-2 xl:grid-cols-4">
+                <div className="rounded-xl border border-slate-200 bg-white p-4 shadow-sm">
+                  <p className="text-xs font-medium uppercase tracking-wide text-slate-500">
+                    Structures
+                  </p>
+                  <p className="mt-2 text-lg font-semibold text-slate-900">{structures.length}</p>
+                </div>
+                <div className="rounded-xl border border-slate-200 bg-white p-4 shadow-sm">
+                  <p className="text-xs font-medium uppercase tracking-wide text-slate-500">
+                    Beds / Capacity
+                  </p>
+                  <p className="mt-2 text-lg font-semibold text-slate-900">
+                    {overview.bedCount} / {overview.totalCapacity}
+                  </p>
+                </div>
+                <div className="rounded-xl border border-slate-200 bg-white p-4 shadow-sm">
+                  <p className="text-xs font-medium uppercase tracking-wide text-slate-500">
+                    Guests to host
+                  </p>
+                  <p className="mt-2 text-lg font-semibold text-slate-900">
+                    {overview.participantCount}
+                  </p>
+                </div>
+                <div className="rounded-xl border border-slate-200 bg-white p-4 shadow-sm">
+                  <p className="text-xs font-medium uppercase tracking-wide text-slate-500">
+                    Fully assigned
+                  </p>
+                  <p className="mt-2 text-lg font-semibold text-emerald-700">
+                    {overview.fullyAssigned}
+                  </p>
+                </div>
+              </div>
+
+              <div className="rounded-xl border border-slate-200 bg-white p-4 shadow-sm">
+                <h3 className="text-base font-semibold text-slate-900">Nightly occupancy</h3>
+                <p className="mt-1 text-xs text-slate-500">
+                  Guests needing a bed vs beds assigned for each night.
+                </p>
+                <div className="mt-3 overflow-x-auto rounded border border-slate-200">
+                  <table className="w-full border-collapse text-left text-sm">
+                    <thead className="bg-slate-50 text-slate-700">
+                      <tr>
+                        <th className="px-4 py-3">Night</th>
+                        <th className="px-4 py-3">Needed</th>
+                        <th className="px-4 py-3">Assigned</th>
+                        <th className="px-4 py-3">Free beds</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {overview.nightRows.length === 0 ? (
+                        <tr>
+                          <td colSpan={4} className="px-4 py-4 text-slate-500">
+                            No stays to plan yet.
+                          </td>
+                        </tr>
+                      ) : (
+                        overview.nightRows.map((row) => (
+                          <tr key={row.night} className="border-t border-slate-100">
+                            <td className="px-4 py-3">{row.night}</td>
+                            <td className="px-4 py-3">{row.needed}</td>
+                            <td
+                              className={`px-4 py-3 font-medium ${
+                                row.occupied >= row.needed ? "text-emerald-700" : "text-amber-700"
+                              }`}
+                            >
+                              {row.occupied}
+                            </td>
+                            <td className="px-4 py-3">{overview.bedCount - row.occupied}</td>
+                          </tr>
+                        ))
+                      )}
+                    </tbody>
+                  </table>
+                </div>
+              </div>
+            </section>
+          )}
+
+          {activeTab === "structures" && (
+            <section className="space-y-4">
+              <div className="flex flex-wrap items-center justify-between gap-2 rounded-xl border border-slate-200 bg-white p-4 shadow-sm">
+                <p className="text-sm text-slate-500">
+                  Rooms are created with one bed per capacity slot.
+                </p>
+                <div className="flex flex-wrap gap-2">
+                  <button
+                    type="button"
+                    onClick={() => {
+                      setStructureForm(emptyStructureForm());
+                      setShowStructureModal(true);
+                    }}
+                    className="rounded bg-indigo-600 px-4 py-2 text-sm font-medium text-white hover:bg-indigo-700"
+                  >
+                    Create Structure
+                  </button>
+                  <button
+                    type="button"
+                    disabled={structures.length === 0}
+                    onClick={() => {
+                      setRoomForm(emptyRoomForm(structures[0]?.id ?? ""));
+                      setShowRoomModal(true);
+                    }}
+                    className="rounded border border-slate-300 bg-white px-4 py-2 text-sm font-medium text-slate-700 hover:bg-slate-100 disabled:cursor-not-allowed disabled:opacity-60"
+                  >
+                    Create Room
+                  </button>
+                </div>
+              </div>
+
+              {structures.length === 0 ? (
+                <div className="rounded-xl border border-slate-200 bg-white p-4 text-sm text-slate-500 shadow-sm">
+                  No structures yet.
+                </div>
+              ) : (
+                structures.map((structure) => {
+                  const structureRooms = rooms.filter((room) => room.structure_id === structure.id);
+                  return (
+                    <div
+                      key={structure.id}
+                      className="rounded-xl border border-slate-200 bg-white p-4 shadow-sm"
+                    >
+                      <div className="flex flex-wrap items-start justify-between gap-2">
+                        <div>
+                          <h3 className="text-base font-semibold text-slate-900">{structure.name}</h3>
+                          {structure.address && (
+                            <p className="text-xs text-slate-500">{structure.address}</p>
+                          )}
+                        </div>
+                        <div className="flex gap-2">
+                          <button
+                            type="button"
+                            onClick={() => {
+                              setStructureForm({
+                                id: structure.id,
+                                name: structure.name,
+                                address: structure.address ?? "",
+                                notes: structure.notes ?? "",
+                              });
+                              setShowStructureModal(true);
+                            }}
+                            className="rounded border border-slate-300 px-3 py-1.5 text-xs font-medium text-slate-700 hover:bg-slate-100"
+                          >
+                            Edit
+                          </button>
+                          <button
+                            type="button"
+                            disabled={busy}
+                            onClick={() => void handleDeleteStructure(structure.id)}
+                            className="rounded border border-red-300 px-3 py-1.5 text-xs font-medium text-red-700 hover:bg-red-50"
+                          >
+                            Delete
+                          </button>
+                        </div>
+                      </div>
+
+                      <div className="mt-3 overflow-x-auto rounded border border-slate-200">
+                        <table className="w-full border-collapse text-left text-sm">
+                          <thead className="bg-slate-50 text-slate-700">
+                            <tr>
+                              <th className="px-4 py-3">Room</th>
+                              <th className="px-4 py-3">Floor</th>
+                              <th className="px-4 py-3">Beds</th>
+                              <th className="px-4 py-3">Actions</th>
+                            </tr>
+                          </thead>
+                          <tbody>
+                            {structureRooms.length === 0 ? (
+                              <tr>
+                                <td colSpan={4} className="px-4 py-4 text-slate-500">
+                                  No rooms in this structure.
+                                </td>
+                              </tr>
+                            ) : (
+                              structureRooms.map((room) => {
+                                const roomBeds = bedsByRoom.get(room.id) ?? [];
+                                return (
+                                  <tr key={room.id} className="border-t border-slate-100 align-top">
+                                    <td className="px-4 py-3 font-medium">
+                                      {room.name}
+                                      {room.is_accessible ? (
+                                        <span className="ml-2 rounded bg-sky-100 px-1.5 py-0.5 text-xs font-normal text-sky-800">
+                                          accessible
+                                        </span>
+                                      ) : null}
+                                    </td>
+                                    <td className="px-4 py-3">{room.floor ?? "-"}</td>
+                                    <td className="px-4 py-3">
+                                      <p className="text-xs text-slate-500">
+                                        {roomBeds.length} / {room.capacity}
+                                      </p>
+                                      <ul className="mt-1 space-y-1">
+                                        {roomBeds.map((bed) => (
+                                          <li key={bed.id} className="flex items-center gap-2 text-xs">
+                                            <span>{bed.label}</span>
+                                            <span className="text-slate-500">
+                                              {(assignmentsByBed.get(bed.id) ?? [])
+                                                .map(
+                                                  (row) =>
+                                                    `${fullName(participantsById.get(row.participant_id))} (${row.night_from} - ${row.night_to})`
+                                                )
+                                                .join(", ") || "free"}
+                                            </span>
+                                            <button
+                                              type="button"
+                                              disabled={busy}
+                                              onClick={() => void handleDeleteBed(bed.id)}
+                                              className="text-red-700 hover:underline"
+                                            >
+                                              remove
+                                            </button>
+                                          </li>
+                                        ))}
+                                      </ul>
+                                    </td>
+                                    <td className="px-4 py-3">
+                                      <div className="flex flex-wrap gap-2">
+                                        <button
+                                          type="button"
+                                          disabled={busy || roomBeds.length >= room.capacity}
+                                          onClick={() => void handleAddBed(room)}
+                                          className="rounded border border-slate-300 px-3 py-1.5 text-xs font-medium text-slate-700 hover:bg-slate-100 disabled:cursor-not-allowed disabled:opacity-60"
+                                        >
+                                          Add bed
+                                        </button>
+                                        <button
+                                          type="button"
+                                          onClick={() => {
+                                            setRoomForm({
+                                              id: room.id,
+                                              structure_id: room.structure_id,
+                                              name: room.name,
+                                              floor: room.floor ?? "",
+                                              capacity: String(room.capacity),
+                                              is_accessible: room.is_accessible,
+                                              notes: room.notes ?? "",
+                                            });
+                                            setShowRoomModal(true);
+                                          }}
+                                          className="rounded border border-slate-300 px-3 py-1.5 text-xs font-medium text-slate-700 hover:bg-slate-100"
+                                        >
+                                          Edit
+                                        </button>
+                                        <button
+                                          type="button"
+                                          disabled={busy}
+                                          onClick={() => void handleDeleteRoom(room.id)}
+                                          className="rounded border border-red-300 px-3 py-1.5 text-xs font-medium text-red-700 hover:bg-red-50"
+                                        >
+                                          Delete
+                                        </button>
+                                      </div>
+                                    </td>
+                                  </tr>
+                                );
+                              })
+                            )}
+                          </tbody>
+                        </table>
+                      </div>
+                    </div>
+                  );
+                })
+              )}
+            </section>
+          )}
+
+          {activeTab === "assignments" && (
+            <section className="space-y-4">
+              <div className="rounded-xl border border-slate-200 bg-white p-4 shadow-sm">
+                <div className="flex flex-wrap items-center gap-3">
+                  <input
+                    value={participantSearch}
+                    onChange={(e) => setParticipantSearch(e.target.value)}
+                    placeholder="Search name or group"
+                    className="w-full max-w-sm rounded border border-slate-300 px-3 py-2 text-sm"
+                  />
+                  <label className="flex items-center gap-2 text-sm text-slate-700">
+                    <input
+                      type="checkbox"
+                      checked={onlyUnassigned}
+                      onChange={(e) => setOnlyUnassigned(e.target.checked)}
+                    />
+                    Only participants still missing nights
+                  </label>
+                </div>
+
+                <div className="mt-4 overflow-x-auto rounded border border-slate-200">
+                  <table className="w-full border-collapse text-left text-sm">
+                    <thead className="bg-slate-50 text-slate-700">
+                      <tr>
+                        <th className="px-4 py-3">Participant</th>
+                        <th className="px-4 py-3">Group</th>
+                        <th className="px-4 py-3">Sex</th>
+                        <th className="px-4 py-3">Stay</th>
+                        <th className="px-4 py-3">Beds</th>
+                        <th className="px-4 py-3">Actions</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {visibleParticipantRows.length === 0 ? (
+                        <tr>
+                          <td colSpan={6} className="px-4 py-4 text-slate-500">
+                            No participants match the current filters.
+                          </td>
+                        </tr>
+                      ) : (
+                        visibleParticipantRows.map((row) => {
+                          const participantAssignments = assignments.filter(
+                            (assignment) => assignment.participant_id === row.participant.id
+                          );
+                          return (
+                            <tr key={row.participant.id} className="border-t border-slate-100 align-top">
+                              <td className="px-4 py-3">
+                                {fullName(row.participant)}
+                                {row.participant.is_minorenne ? (
+                                  <span className="ml-2 rounded bg-amber-100 px-1.5 py-0.5 text-xs text-amber-800">
+                                    minor
+                                  </span>
+                                ) : null}
+                                {row.participant.needs_accessible_room ? (
+                                  <span className="ml-2 rounded bg-sky-100 px-1.5 py-0.5 text-xs text-sky-800">
+                                    accessible
+                                  </span>
+                                ) : null}
+                              </td>
+                              <td className="px-4 py-3">{row.participant.group}</td>
+                              <td className="px-4 py-3">{row.participant.sesso ?? "-"}</td>
+                              <td className="px-4 py-3">
+                                {row.stay ? `${row.stay.from} - ${row.stay.to}` : "Missing dates"}
+                              </td>
+                              <td className="px-4 py-3">
+                                <p className="text-xs text-slate-500">
+                                  {row.assignedNights} / {row.stayNights} nights
+                                </p>
+                                <ul className="mt-1 space-y-1">
+                                  {participantAssignments.map((assignment) => {
+                                    const bed = beds.find((item) => item.id === assignment.bed_id);
+                                    const room = bed ? roomsById.get(bed.room_id) : undefined;
+                                    return (
+                                      <li key={assignment.id} className="flex items-center gap-2 text-xs">
+                                        <span>
+                                          {room?.name ?? "?"} / {bed?.label ?? "?"} ({assignment.night_from} -{" "}
+                                          {assignment.night_to})
+                                        </span>
+                                        <button
+                                          type="button"
+                                          disabled={busy}
+                                          onClick={() => void handleDeleteAssignment(assignment.id)}
+                                          className="text-red-700 hover:underline"
+                                        >
+                                          remove
+                                        </button>
+                                      </li>
+                                    );
+                                  })}
+                                </ul>
+                              </td>
+                              <td className="px-4 py-3">
+                                <button
+                                  type="button"
+                                  disabled={busy || !row.stay || row.fullyAssigned}
+                                  onClick={() => openAssignmentModal(row.participant)}
+                                  className="rounded border border-slate-300 px-3 py-1.5 text-xs font-medium text-slate-700 hover:bg-slate-100 disabled:cursor-not-allowed disabled:opacity-60"
+                                >
+                                  Assign bed
+                                </button>
+                              </td>
+                            </tr>
+                          );
+                        })
+                      )}
+                    </tbody>
+                  </table>
+                </div>
+              </div>
+            </section>
+          )}
+
+          {activeTab === "auto" && (
+            <AccommodationAutoAssign
+              participants={participants}
+              structures={structures}
+              rooms={rooms}
+              beds={beds}
+              assignments={assignments}
+              busy={busy}
+              onCommit={handleCommitDraft}
+            />
+          )}
+        </div>
+      </div>
+
+      {showStructureModal && (
+        <div className="fixed inset-0 z-50 flex items-start justify-center overflow-y-auto bg-black/40 px-4 py-8">
+          <form
+            onSubmit={handleSaveStructure}
+            className="w-full max-w-xl space-y-3 rounded-lg border border-slate-200 bg-white p-5 shadow-xl"
+          >
+            <h3 className="text-lg font-semibold text-slate-900">
+              {structureForm.id ? "Edit Structure" : "Create Structure"}
+            </h3>
+            <label className="block text-sm text-slate-700">
+              Name
+              <input
+                required
+                value={structureForm.name}
+                onChange={(e) => setStructureForm((prev) => ({ ...prev, name: e.target.value }))}
+                className="mt-1 w-full rounded border border-slate-300 px-3 py-2 text-sm"
+              />
+            </label>
+            <label className="block text-sm text-slate-700">
+              Address
+              <input
+                value={structureForm.address}
+                onChange={(e) => setStructureForm((prev) => ({ ...prev, address: e.target.value }))}
+                className="mt-1 w-full rounded border border-slate-300 px-3 py-2 text-sm"
+              />
+            </label>
+            <label className="block text-sm text-slate-700">
+              Notes
+              <textarea
+                value={structureForm.notes}
+                onChange={(e) => setStructureForm((prev) => ({ ...prev, notes: e.target.value }))}
+                rows={3}
+                className="mt-1 w-full rounded border border-slate-300 px-3 py-2 text-sm"
+              />
+            </label>
+            <div className="flex justify-end gap-2">
+              <button
+                type="button"
+                onClick={() => setShowStructureModal(false)}
+                className="rounded border border-slate-300 px-4 py-2 text-sm font-medium text-slate-700 hover:bg-slate-100"
+              >
+                Cancel
+              </button>
+              <button
+                type="submit"
+                disabled={busy}
+                className="rounded bg-indigo-600 px-4 py-2 text-sm font-medium text-white hover:bg-indigo-700 disabled:opacity-60"
+              >
+                Save
+              </button>
+            </div>
+          </form>
+        </div>
+      )}
+
+      {showRoomModal && (
+        <div className="fixed inset-0 z-50 flex items-start justify-center overflow-y-auto bg-black/40 px-4 py-8">
+          <form
+            onSubmit={handleSaveRoom}
+            className="w-full max-w-xl space-y-3 rounded-lg border border-slate-200 bg-white p-5 shadow-xl"
+          >
+            <h3 className="text-lg font-semibold text-slate-900">
+              {roomForm.id ? "Edit Room" : "Create Room"}
+            </h3>
+            <label className="block text-sm text-slate-700">
+              Structure
+              <select
+                required
+                value={roomForm.structure_id}
+                onChange={(e) => setRoomForm((prev) => ({ ...prev, structure_id: e.target.value }))}
+                className="mt-1 w-full rounded border border-slate-300 px-3 py-2 text-sm"
+              >
+                {structures.map((structure) => (
+                  <option key={structure.id} value={structure.id}>
+                    {structure.name}
+                  </option>
+                ))}
+              </select>
+            </label>
+            <div className="grid gap-3 md:grid-cols-3">
+              <label className="block text-sm text-slate-700">
+                Name
+                <input
+                  required
+                  value={roomForm.name}
+                  onChange={(e) => setRoomForm((prev) => ({ ...prev, name: e.target.value }))}
+                  className="mt-1 w-full rounded border border-slate-300 px-3 py-2 text-sm"
+                />
+              </label>
+              <label className="block text-sm text-slate-700">
+                Floor
+                <input
+                  value={roomForm.floor}
+                  onChange={(e) => setRoomForm((prev) => ({ ...prev, floor: e.target.value }))}
+                  className="mt-1 w-full rounded border border-slate-300 px-3 py-2 text-sm"
+                />
+              </label>
+              <label className="block text-sm text-slate-700">
+                Capacity
+                <input
+                  required
+                  type="number"
+                  min="1"
+                  max="50"
+                  value={roomForm.capacity}
+                  onChange={(e) => setRoomForm((prev) => ({ ...prev, capacity: e.target.value }))}
+                  className="mt-1 w-full rounded border border-slate-300 px-3 py-2 text-sm"
+                />
+              </label>
+            </div>
+            <label className="flex items-center gap-2 text-sm text-slate-700">
+              <input
+                type="checkbox"
+                checked={roomForm.is_accessible}
+                onChange={(e) =>
+                  setRoomForm((prev) => ({ ...prev, is_accessible: e.target.checked }))
+                }
+              />
+              Accessible room (step-free, suitable for wheelchairs)
+            </label>
+            <label className="block text-sm text-slate-700">
+              Notes
+              <textarea
+                value={roomForm.notes}
+                onChange={(e) => setRoomForm((prev) => ({ ...prev, notes: e.target.value }))}
+                rows={3}
+                className="mt-1 w-full rounded border border-slate-300 px-3 py-2 text-sm"
+              />
+            </label>
+            <div className="flex justify-end gap-2">
+              <button
+                type="button"
+                onClick={() => setShowRoomModal(false)}
+                className="rounded border border-slate-300 px-4 py-2 text-sm font-medium text-slate-700 hover:bg-slate-100"
+              >
+                Cancel
+              </button>
+              <button
+                type="submit"
+                disabled={busy}
+                className="rounded bg-indigo-600 px-4 py-2 text-sm font-medium text-white hover:bg-indigo-700 disabled:opacity-60"
+              >
+                Save
+              </button>
+            </div>
+          </form>
+        </div>
+      )}
+
+      {showAssignmentModal && (
+        <div className="fixed inset-0 z-50 flex items-start justify-center overflow-y-auto bg-black/40 px-4 py-8">
+          <form
+            onSubmit={handleSaveAssignment}
+            className="w-full max-w-xl space-y-3 rounded-lg border border-slate-200 bg-white p-5 shadow-xl"
+          >
+            <h3 className="text-lg font-semibold text-slate-900">
+              Assign bed to {fullName(participantsById.get(assignmentForm.participant_id))}
+            </h3>
+            <label className="block text-sm text-slate-700">
+              Bed
+              <select
+                required
+                value={assignmentForm.bed_id}
+                onChange={(e) => setAssignmentForm((prev) => ({ ...prev, bed_id: e.target.value }))}
+                className="mt-1 w-full rounded border border-slate-300 px-3 py-2 text-sm"
+              >
+                <option value="">Select...</option>
+                {bedOptions.map((option) => (
+                  <option key={option.id} value={option.id}>
+                    {option.label}
+                  </option>
+                ))}
+              </select>
+            </label>
+            <div className="grid gap-3 md:grid-cols-2">
+              <label className="block text-sm text-slate-700">
+                First night
+                <input
+                  type="date"
+                  required
+                  value={assignmentForm.night_from}
+                  onChange={(e) =>
+                    setAssignmentForm((prev) => ({ ...prev, night_from: e.target.value }))
+                  }
+                  className="mt-1 w-full rounded border border-slate-300 px-3 py-2 text-sm"
+                />
+              </label>
+              <label className="block text-sm text-slate-700">
+                Check-out day
+                <input
+                  type="date"
+                  required
+                  value={assignmentForm.night_to}
+                  onChange={(e) =>
+                    setAssignmentForm((prev) => ({ ...prev, night_to: e.target.value }))
+                  }
+                  className="mt-1 w-full rounded border border-slate-300 px-3 py-2 text-sm"
+                />
+              </label>
+            </div>
+            <label className="block text-sm text-slate-700">
+              Notes
+              <input
+                value={assignmentForm.notes}
+                onChange={(e) => setAssignmentForm((prev) => ({ ...prev, notes: e.target.value }))}
+                className="mt-1 w-full rounded border border-slate-300 px-3 py-2 text-sm"
+              />
+            </label>
+            {assignmentFormError && (
+              <p className="rounded border border-red-200 bg-red-50 px-3 py-2 text-sm text-red-700">
+                {assignmentFormError}
+              </p>
+            )}
+            <div className="flex justify-end gap-2">
+              <button
+                type="button"
+                onClick={() => setShowAssignmentModal(false)}
+                className="rounded border border-slate-300 px-4 py-2 text-sm font-medium text-slate-700 hover:bg-slate-100"
+              >
+                Cancel
+              </button>
+              <button
+                type="submit"
+                disabled={busy}
+                className="rounded bg-indigo-600 px-4 py-2 text-sm font-medium text-white hover:bg-indigo-700 disabled:opacity-60"
+              >
+                Assign
+              </button>
+            </div>
+          </form>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,21 +1,51 @@
 "use client";
 
-import { FormEvent, useEffect, useState } from "react";
+import { FormEvent, useCallback, useEffect, useState } from "react";
 
-type LoadResponse = {
-  senderEmail: string;
-  passwordIsSet: boolean;
-  updatedAt: string | null;
-};
+type TransportKind = "gmail" | "smtp" | "capture" | "http_api";
 
-type SaveResponse = {
+type SettingsResponse = {
   senderEmail: string;
   passwordIsSet: boolean;
+  transport: TransportKind;
+  transportOverride: TransportKind | null;
+  smtpHost: string;
+  smtpPort: number | null;
+  smtpSecure: boolean;
+  smtpUser: string;
+  smtpPasswordIsSet: boolean;
+  httpApiUrl: string;
+  httpApiDefaultUrl: string;
+  httpApiKeyIsSet: boolean;
+  captureDir: string;
   updatedAt: string | null;
 };
 
 const EMAIL_REGEX = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
-const EMAIL_SETTINGS_FROZEN = true;
+
+const TRANSPORT_OPTIONS: Array<{ value: TransportKind; label: string; description: string }> = [
+  {
+    value: "gmail",
+    label: "Gmail",
+    description: "Gmail SMTP with the sender mailbox and a Google App Password.",
+  },
+  {
+    value: "smtp",
+    label: "SMTP server",
+    description: "Any SMTP server (host, port, TLS and optional login).",
+  },
+  {
+    value: "http_api",
+    label: "HTTP email API",
+    description: "Provider API accepting Resend-style JSON requests with a bearer API key.",
+  },
+  {
+    value: "capture",
+    label: "Capture (no delivery)",
+    description:
+      "Writes each email as a JSON file on the server instead of sending it. For development and testing only.",
+  },
+];
 
 function isValidEmail(value: string): boolean {
   return EMAIL_REGEX.test(value.trim());
@@ -29,36 +59,63 @@ export function AdminEmailSettings() {
   const [senderEmail, setSenderEmail] = useState("");
   const [googleAppPassword, setGoogleAppPassword] = useState("");
   const [passwordIsSet, setPasswordIsSet] = useState(false);
+  const [transport, setTransport] = useState<TransportKind>("gmail");
+  const [transportOverride, setTransportOverride] = useState<TransportKind | null>(null);
+  const [smtpHost, setSmtpHost] = useState("");
+  const [smtpPort, setSmtpPort] = useState("");
+  const [smtpSecure, setSmtpSecure] = useState(true);
+  const [smtpUser, setSmtpUser] = useState("");
+  const [smtpPassword, setSmtpPassword] = useState("");
+  const [smtpPasswordIsSet, setSmtpPasswordIsSet] = useState(false);
+  const [httpApiUrl, setHttpApiUrl] = useState("");
+  const [httpApiDefaultUrl, setHttpApiDefaultUrl] = useState("");
+  const [httpApiKey, setHttpApiKey] = useState("");
+  const [httpApiKeyIsSet, setHttpApiKeyIsSet] = useState(false);
+  const [captureDir, setCaptureDir] = useState("");
   const [updatedAt, setUpdatedAt] = useState<string | null>(null);
 
   const [testRecipient, setTestRecipient] = useState("");
   const [error, setError] = useState<string | null>(null);
   const [success, setSuccess] = useState<string | null>(null);
 
-  async function loadSettings() {
-    setLoading(true);
-    setError(null);
-    try {
-      const res = await fetch("/api/admin/settings/email", { cache: "no-store" });
-      const json = (await res.json()) as LoadResponse & { error?: string };
-      if (!res.ok) throw new Error(json.error || "Unable to load settings");
-      setSenderEmail(json.senderEmail || "");
-      setPasswordIsSet(Boolean(json.passwordIsSet));
-      setUpdatedAt(json.updatedAt ?? null);
-    } catch (err) {
-      setError((err as Error).message);
-    } finally {
-      setLoading(false);
-    }
-  }
+  const applySettings = useCallback((json: SettingsResponse) => {
+    setSenderEmail(json.senderEmail || "");
+    setPasswordIsSet(Boolean(json.passwordIsSet));
+    setTransport(json.transport ?? "gmail");
+    setTransportOverride(json.transportOverride ?? null);
+    setSmtpHost(json.smtpHost ?? "");
+    setSmtpPort(json.smtpPort ? String(json.smtpPort) : "");
+    setSmtpSecure(json.smtpSecure !== false);
+    setSmtpUser(json.smtpUser ?? "");
+    setSmtpPasswordIsSet(Boolean(json.smtpPasswordIsSet));
+    setHttpApiUrl(json.httpApiUrl ?? "");
+    setHttpApiDefaultUrl(json.httpApiDefaultUrl ?? "");
+    setHttpApiKeyIsSet(Boolean(json.httpApiKeyIsSet));
+    setCaptureDir(json.captureDir ?? "");
+    setUpdatedAt(json.updatedAt ?? null);
+  }, []);
 
   useEffect(() => {
+    async function loadSettings() {
+      setLoading(true);
+      setError(null);
+      try {
+        const res = await fetch("/api/admin/settings/email", { cache: "no-store" });
+        const json = (await res.json()) as SettingsResponse & { error?: string };
+        if (!res.ok) throw new Error(json.error || "Unable to load settings");
+        applySettings(json);
+      } catch (err) {
+        setError((err as Error).message);
+      } finally {
+        setLoading(false);
+      }
+    }
+
     loadSettings();
-  }, []);
+  }, [applySettings]);
 
   async function handleSave(event: FormEvent<HTMLFormElement>) {
     event.preventDefault();
-    if (EMAIL_SETTINGS_FROZEN) return;
     setError(null);
     setSuccess(null);
 
@@ -75,16 +132,25 @@ export function AdminEmailSettings() {
         body: JSON.stringify({
           senderEmail: senderEmail.trim(),
           googleAppPassword: googleAppPassword,
+          transport,
+          smtpHost,
+          smtpPort,
+          smtpSecure,
+          smtpUser,
+          smtpPassword,
+          httpApiUrl,
+          httpApiKey,
+          captureDir,
         }),
       });
 
-      const json = (await res.json()) as SaveResponse & { error?: string };
+      const json = (await res.json()) as SettingsResponse & { error?: string };
       if (!res.ok) throw new Error(json.error || "Unable to save settings");
 
-      setSenderEmail(json.senderEmail || senderEmail.trim());
-      setPasswordIsSet(Boolean(json.passwordIsSet));
-      setUpdatedAt(json.updatedAt ?? null);
+      applySettings(json);
       setGoogleAppPassword("");
+      setSmtpPassword("");
+      setHttpApiKey("");
       setSuccess("Email settings saved.");
     } catch (err) {
       setError((err as Error).message);
@@ -94,7 +160,6 @@ export function AdminEmailSettings() {
   }
 
   async function handleTestEmail() {
-    if (EMAIL_SETTINGS_FROZEN) return;
     setError(null);
     setSuccess(null);
 
@@ -110,9 +175,13 @@ export function AdminEmailSettings() {
         headers: { "Content-Type": "application/json" },
         body: JSON.stringify({ recipientEmail: testRecipient.trim() }),
       });
-      const json = (await res.json()) as { ok?: boolean; error?: string };
+      const json = (await res.json()) as { ok?: boolean; error?: string; transport?: string };
       if (!res.ok || !json.ok) throw new Error(json.error || "Unable to send test email");
-      setSuccess("Test email sent successfully.");
+      setSuccess(
+        json.transport === "capture"
+          ? "Test email captured. Check the capture directory on the server."
+          : "Test email sent successfully."
+      );
     } catch (err) {
       setError((err as Error).message);
     } finally {
@@ -120,16 +189,20 @@ export function AdminEmailSettings() {
     }
   }
 
+  const inputClass = "mt-1 w-full rounded-md border border-slate-300 px-3 py-2 text-sm";
+  const activeOption = TRANSPORT_OPTIONS.find((option) => option.value === transport);
+
   return (
     <section className="space-y-6">
       <div className="rounded-xl border border-slate-200 bg-white p-6 shadow-sm">
         <h3 className="text-lg font-semibold text-slate-900">Email Sending Settings</h3>
         <p className="mt-1 text-sm text-slate-600">
-          Used by Email Campaigns for sender identity and SMTP authentication.
+          Used by every email the app sends: sender identity and the transport that delivers it.
         </p>
-        {EMAIL_SETTINGS_FROZEN ? (
+        {transportOverride ? (
           <p className="mt-2 rounded-md border border-amber-200 bg-amber-50 px-3 py-2 text-xs text-amber-700">
-            Email sender settings are temporarily locked.
+            The EMAIL_TRANSPORT environment variable forces the &quot;{transportOverride}&quot;
+            transport on this server; the choice below is stored but not used.
           </p>
         ) : null}
 
@@ -143,34 +216,150 @@ export function AdminEmailSettings() {
                 type="email"
                 value={senderEmail}
                 onChange={(event) => setSenderEmail(event.target.value)}
-                className="mt-1 w-full rounded-md border border-slate-300 px-3 py-2 text-sm"
+                className={inputClass}
                 autoComplete="email"
                 required
-                disabled={EMAIL_SETTINGS_FROZEN}
               />
             </label>
 
             <label className="block text-sm font-medium text-slate-700">
-              Google App Password
-              <input
-                type="password"
-                value={googleAppPassword}
-                onChange={(event) => setGoogleAppPassword(event.target.value)}
-                className="mt-1 w-full rounded-md border border-slate-300 px-3 py-2 text-sm"
-                autoComplete="new-password"
-                placeholder={passwordIsSet ? "Password is set (leave blank to keep)" : ""}
-                disabled={EMAIL_SETTINGS_FROZEN}
-              />
+              Transport
+              <select
+                value={transport}
+                onChange={(event) => setTransport(event.target.value as TransportKind)}
+                className={inputClass}
+              >
+                {TRANSPORT_OPTIONS.map((option) => (
+                  <option key={option.value} value={option.value}>
+                    {option.label}
+                  </option>
+                ))}
+              </select>
             </label>
+            {activeOption ? (
+              <p className="text-xs text-slate-500">{activeOption.description}</p>
+            ) : null}
+
+            {transport === "gmail" ? (
+              <>
+                <label className="block text-sm font-medium text-slate-700">
+                  Google App Password
+                  <input
+                    type="password"
+                    value={googleAppPassword}
+                    onChange={(event) => setGoogleAppPassword(event.target.value)}
+                    className={inputClass}
+                    autoComplete="new-password"
+                    placeholder={passwordIsSet ? "Password is set (leave blank to keep)" : ""}
+                  />
+                </label>
 
-            <p className="text-xs text-slate-500">
-              {passwordIsSet
-                ? "Password is set. Leave it empty to keep the current one."
-                : "No password set yet."}
-            </p>
-            <p className="text-xs text-slate-500">
-              If you change the sender email, enter the Google App Password of that mailbox.
-            </p>
+                <p className="text-xs text-slate-500">
+                  {passwordIsSet
+                    ? "Password is set. Leave it empty to keep the current one."
+                    : "No password set yet."}
+                </p>
+                <p className="text-xs text-slate-500">
+                  If you change the sender email, enter the Google App Password of that mailbox.
+                </p>
+              </>
+            ) : null}
+
+            {transport === "smtp" ? (
+              <div className="grid gap-4 sm:grid-cols-2">
+                <label className="block text-sm font-medium text-slate-700">
+                  SMTP host
+                  <input
+                    type="text"
+                    value={smtpHost}
+                    onChange={(event) => setSmtpHost(event.target.value)}
+                    className={inputClass}
+                    placeholder="smtp.example.com"
+                    required
+                  />
+                </label>
+                <label className="block text-sm font-medium text-slate-700">
+                  Port
+                  <input
+                    type="number"
+                    min={1}
+                    max={65535}
+                    value={smtpPort}
+                    onChange={(event) => setSmtpPort(event.target.value)}
+                    className={inputClass}
+                    placeholder={smtpSecure ? "465" : "587"}
+                  />
+                </label>
+                <label className="flex items-center gap-2 text-sm text-slate-700 sm:col-span-2">
+                  <input
+                    type="checkbox"
+                    checked={smtpSecure}
+                    onChange={(event) => setSmtpSecure(event.target.checked)}
+                  />
+                  Use TLS from the start (port 465). Leave unchecked for STARTTLS.
+                </label>
+                <label className="block text-sm font-medium text-slate-700">
+                  Username
+                  <input
+                    type="text"
+                    value={smtpUser}
+                    onChange={(event) => setSmtpUser(event.target.value)}
+                    className={inputClass}
+                    autoComplete="off"
+                  />
+                </label>
+                <label className="block text-sm font-medium text-slate-700">
+                  Password
+                  <input
+                    type="password"
+                    value={smtpPassword}
+                    onChange={(event) => setSmtpPassword(event.target.value)}
+                    className={inputClass}
+                    autoComplete="new-password"
+                    placeholder={smtpPasswordIsSet ? "Password is set (leave blank to keep)" : ""}
+                  />
+                </label>
+              </div>
+            ) : null}
+
+            {transport === "http_api" ? (
+              <>
+                <label className="block text-sm font-medium text-slate-700">
+                  API endpoint
+                  <input
+                    type="url"
+                    value={httpApiUrl}
+                    onChange={(event) => setHttpApiUrl(event.target.value)}
+                    className={inputClass}
+                    placeholder={httpApiDefaultUrl}
+                  />
+                </label>
+                <label className="block text-sm font-medium text-slate-700">
+                  API key
+                  <input
+                    type="password"
+                    value={httpApiKey}
+                    onChange={(event) => setHttpApiKey(event.target.value)}
+                    className={inputClass}
+                    autoComplete="new-password"
+                    placeholder={httpApiKeyIsSet ? "API key is set (leave blank to keep)" : ""}
+                  />
+                </label>
+              </>
+            ) : null}
+
+            {transport === "capture" ? (
+              <label className="block text-sm font-medium text-slate-700">
+                Capture directory
+                <input
+                  type="text"
+                  value={captureDir}
+                  onChange={(event) => setCaptureDir(event.target.value)}
+                  className={inputClass}
+                  placeholder="System temp directory"
+                />
+              </label>
+            ) : null}
 
             {updatedAt ? (
               <p className="text-xs text-slate-500">
@@ -180,10 +369,10 @@ export function AdminEmailSettings() {
 
             <button
               type="submit"
-              disabled={saving || EMAIL_SETTINGS_FROZEN}
+              disabled={saving}
               className="rounded-md bg-indigo-600 px-4 py-2 text-sm font-medium text-white disabled:opacity-60"
             >
-              {EMAIL_SETTINGS_FROZEN ? "Locked" : saving ? "Saving..." : "Save"}
+              {saving ? "Saving..." : "Save"}
             </button>
           </form>
         )}
@@ -201,15 +390,14 @@ export function AdminEmailSettings() {
             onChange={(event) => setTestRecipient(event.target.value)}
             placeholder="recipient@example.com"
             className="w-full rounded-md border border-slate-300 px-3 py-2 text-sm"
-            disabled={EMAIL_SETTINGS_FROZEN}
           />
           <button
             type="button"
-            disabled={testing || EMAIL_SETTINGS_FROZEN}
+            disabled={testing}
             onClick={handleTestEmail}
             className="rounded-md border border-slate-300 bg-white px-4 py-2 text-sm font-medium text-slate-700 disabled:opacity-60"
           >
-            {EMAIL_SETTINGS_FROZEN ? "Locked" : testing ? "Sending..." : "Test email"}
+            {testing ? "Sending..." : "Test email"}
           </button>
         </div>
       </div>
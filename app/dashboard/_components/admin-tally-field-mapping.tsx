@@ -0,0 +1,526 @@
+"use client";
+
+import { useEffect, useState } from "react";
+
+type FieldMappingRule = {
+  target: string;
+  sources: string[];
+  match: "exact" | "contains";
+  transform: string;
+  options?: Record<string, string>;
+};
+
+type TallyFieldMapping = { rules: FieldMappingRule[] };
+
+type MappingTarget = { target: string; label: string; required: boolean };
+
+type Sample = {
+  id: string;
+  created_at: string;
+  email: string | null;
+  status: string;
+  submission_id: string | null;
+};
+
+type LoadResponse = {
+  mapping: TallyFieldMapping;
+  isDefault: boolean;
+  updatedAt: string | null;
+  defaultMapping: TallyFieldMapping;
+  targets: MappingTarget[];
+  transforms: string[];
+  samples: Sample[];
+};
+
+type PreviewResponse = {
+  fields: Array<{ key: string; label: string; value: string }>;
+  current: { normalized: Record<string, unknown>; matched: Record<string, string> };
+  preview: {
+    normalized: Record<string, unknown>;
+    matched: Record<string, string>;
+    unmatchedLabels: string[];
+  };
+};
+
+type DraftRule = {
+  target: string;
+  sources: string;
+  match: "exact" | "contains";
+  transform: string;
+  options: string;
+};
+
+// partecipanti column -> key of the normalized submission returned by the preview.
+const NORMALIZED_KEYS: Record<string, string> = {
+  nome: "nome",
+  cognome: "cognome",
+  email: "email",
+  email_secondaria: "emailSecondaria",
+  telefono: "telefono",
+  tipo_iscrizione: "tipoIscrizione",
+  data_nascita: "dataNascita",
+  sesso: "sesso",
+  nazione: "nazione",
+  paese_residenza: "paeseResidenza",
+  "città": "citta",
+  gruppo_roma: "gruppoRoma",
+  gruppo_leader: "groupLeader",
+  partecipa_intero_evento: "partecipaInteroEvento",
+  presenza_dettaglio: "presenzaDettaglio",
+  data_arrivo: "dataArrivo",
+  data_partenza: "dataPartenza",
+  alloggio: "alloggio",
+  esigenze_alimentari: "esigenzeAlimentari",
+  allergie: "allergie",
+  disabilita_accessibilita: "disabilitaAccessibilita",
+  difficolta_accessibilita: "difficoltaAccessibilita",
+  note: "note",
+  privacy_accettata: "privacyAccettata",
+  submitted_at_tally: "submittedAtTally",
+};
+
+const DERIVED_ROWS: Array<{ key: string; label: string }> = [
+  { key: "gruppoLabel", label: "gruppo_label (derived)" },
+  { key: "alloggioShort", label: "alloggio_short (derived)" },
+  { key: "eta", label: "eta (derived)" },
+  { key: "tallySubmissionId", label: "tally_submission_id" },
+];
+
+function toDraft(mapping: TallyFieldMapping): DraftRule[] {
+  return mapping.rules.map((rule) => ({
+    target: rule.target,
+    sources: rule.sources.join("\n"),
+    match: rule.match,
+    transform: rule.transform,
+    options: Object.entries(rule.options ?? {})
+      .map(([from, to]) => `${from} => ${to}`)
+      .join("\n"),
+  }));
+}
+
+function fromDraft(rules: DraftRule[]): TallyFieldMapping {
+  return {
+    rules: rules.map((rule) => {
+      const next: FieldMappingRule = {
+        target: rule.target,
+        sources: rule.sources
+          .split("\n")
+          .map((line) => line.trim())
+          .filter(Boolean),
+        match: rule.match,
+        transform: rule.transform,
+      };
+      if (rule.transform === "option_map") {
+        next.options = Object.fromEntries(
+          rule.options
+            .split("\n")
+            .map((line) => line.split("=>").map((part) => part.trim()))
+            .filter((parts) => parts.length === 2 && parts[0])
+        );
+      }
+      return next;
+    }),
+  };
+}
+
+function displayValue(value: unknown): string {
+  if (value === null || value === undefined || value === "") return "-";
+  if (typeof value === "object") return JSON.stringify(value);
+  return String(value);
+}
+
+export function AdminTallyFieldMapping() {
+  const [loading, setLoading] = useState(true);
+  const [config, setConfig] = useState<LoadResponse | null>(null);
+  const [rules, setRules] = useState<DraftRule[]>([]);
+  const [sampleId, setSampleId] = useState("");
+  const [preview, setPreview] = useState<PreviewResponse | null>(null);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [success, setSuccess] = useState<string | null>(null);
+
+  useEffect(() => {
+    async function loadMapping() {
+      setLoading(true);
+      setError(null);
+      try {
+        const res = await fetch("/api/admin/tally-field-mapping", { cache: "no-store" });
+        const json = (await res.json()) as LoadResponse & { error?: string };
+        if (!res.ok) throw new Error(json.error || "Unable to load the field mapping");
+        setConfig(json);
+        setRules(toDraft(json.mapping));
+        setSampleId(json.samples[0]?.id ?? "");
+      } catch (err) {
+        setError((err as Error).message);
+      } finally {
+        setLoading(false);
+      }
+    }
+
+    void loadMapping();
+  }, []);
+
+  function updateRule(index: number, patch: Partial<DraftRule>) {
+    setRules((prev) => prev.map((rule, i) => (i === index ? { ...rule, ...patch } : rule)));
+    setPreview(null);
+  }
+
+  function moveRule(index: number, offset: number) {
+    setRules((prev) => {
+      const target = index + offset;
+      if (target < 0 || target >= prev.length) return prev;
+      const next = [...prev];
+      [next[index], next[target]] = [next[target], next[index]];
+      return next;
+    });
+    setPreview(null);
+  }
+
+  async function runPreview() {
+    if (!sampleId || busy) return;
+    setBusy(true);
+    setError(null);
+    setSuccess(null);
+    try {
+      const res = await fetch("/api/admin/tally-field-mapping", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ eventId: sampleId, mapping: fromDraft(rules) }),
+      });
+      const json = (await res.json()) as PreviewResponse & { error?: string };
+      if (!res.ok) throw new Error(json.error || "Unable to preview the mapping");
+      setPreview(json);
+    } catch (err) {
+      setError((err as Error).message);
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  async function save(method: "PUT" | "DELETE") {
+    if (busy) return;
+    if (method === "DELETE" && !window.confirm("Discard the stored mapping and use the default?")) {
+      return;
+    }
+    setBusy(true);
+    setError(null);
+    setSuccess(null);
+    try {
+      const res = await fetch("/api/admin/tally-field-mapping", {
+        method,
+        headers: { "Content-Type": "application/json" },
+        body: method === "PUT" ? JSON.stringify({ mapping: fromDraft(rules) }) : undefined,
+      });
+      const json = (await res.json()) as {
+        mapping?: TallyFieldMapping;
+        isDefault?: boolean;
+        updatedAt?: string | null;
+        error?: string;
+      };
+      if (!res.ok || !json.mapping) throw new Error(json.error || "Unable to save the mapping");
+      setRules(toDraft(json.mapping));
+      setConfig((prev) =>
+        prev
+          ? { ...prev, mapping: json.mapping!, isDefault: Boolean(json.isDefault), updatedAt: json.updatedAt ?? null }
+          : prev
+      );
+      setPreview(null);
+      setSuccess(method === "PUT" ? "Field mapping saved." : "Default mapping restored.");
+    } catch (err) {
+      setError((err as Error).message);
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  if (loading) {
+    return <p className="text-sm text-slate-500">Loading field mapping...</p>;
+  }
+
+  if (!config) {
+    return (
+      <p className="rounded-md border border-red-200 bg-red-50 px-3 py-2 text-sm text-red-700">
+        {error ?? "Unable to load the field mapping"}
+      </p>
+    );
+  }
+
+  return (
+    <section className="space-y-6">
+      <div className="rounded-xl border border-slate-200 bg-white p-6 shadow-sm">
+        <h3 className="text-lg font-semibold text-slate-900">Tally field mapping</h3>
+        <p className="mt-1 text-sm text-slate-600">
+          Each rule reads a Tally question (by field key or label) into a participant column. Rules
+          run top to bottom and the first one that yields a value wins, so later rules for the same
+          column act as fallbacks.
+        </p>
+        <p className="mt-2 text-xs text-slate-500">
+          {config.isDefault
+            ? "Using the built-in default mapping."
+            : `Stored mapping, last updated ${config.updatedAt ? new Date(config.updatedAt).toLocaleString() : "-"}.`}
+        </p>
+
+        {error ? (
+          <p className="mt-4 rounded-md border border-red-200 bg-red-50 px-3 py-2 text-sm text-red-700">
+            {error}
+          </p>
+        ) : null}
+        {success ? (
+          <p className="mt-4 rounded-md border border-emerald-200 bg-emerald-50 px-3 py-2 text-sm text-emerald-700">
+            {success}
+          </p>
+        ) : null}
+
+        <div className="mt-5 space-y-3">
+          {rules.map((rule, index) => (
+            <div key={index} className="grid gap-3 rounded-lg border border-slate-200 p-3 lg:grid-cols-12">
+              <label className="text-xs font-medium text-slate-600 lg:col-span-3">
+                Column
+                <select
+                  value={rule.target}
+                  onChange={(e) => updateRule(index, { target: e.target.value })}
+                  className="mt-1 w-full rounded-md border border-slate-300 px-2 py-1.5 text-sm"
+                >
+                  {config.targets.map((target) => (
+                    <option key={target.target} value={target.target}>
+                      {target.target} - {target.label}
+                    </option>
+                  ))}
+                </select>
+              </label>
+              <label className="text-xs font-medium text-slate-600 lg:col-span-4">
+                Tally field keys or labels (one per line)
+                <textarea
+                  value={rule.sources}
+                  onChange={(e) => updateRule(index, { sources: e.target.value })}
+                  rows={Math.min(Math.max(rule.sources.split("\n").length, 2), 5)}
+                  className="mt-1 w-full rounded-md border border-slate-300 px-2 py-1.5 font-mono text-xs"
+                />
+              </label>
+              <label className="text-xs font-medium text-slate-600 lg:col-span-2">
+                Match
+                <select
+                  value={rule.match}
+                  onChange={(e) => updateRule(index, { match: e.target.value as DraftRule["match"] })}
+                  className="mt-1 w-full rounded-md border border-slate-300 px-2 py-1.5 text-sm"
+                >
+                  <option value="exact">Key or label</option>
+                  <option value="contains">Label contains</option>
+                </select>
+              </label>
+              <label className="text-xs font-medium text-slate-600 lg:col-span-2">
+                Transform
+                <select
+                  value={rule.transform}
+                  onChange={(e) => updateRule(index, { transform: e.target.value })}
+                  className="mt-1 w-full rounded-md border border-slate-300 px-2 py-1.5 text-sm"
+                >
+                  {config.transforms.map((transform) => (
+                    <option key={transform} value={transform}>
+                      {transform}
+                    </option>
+                  ))}
+                </select>
+              </label>
+              <div className="flex items-end justify-end gap-1 lg:col-span-1">
+                <button
+                  type="button"
+                  onClick={() => moveRule(index, -1)}
+                  className="rounded border border-slate-300 px-2 py-1 text-xs text-slate-700 hover:bg-slate-100"
+                  aria-label="Move up"
+                >
+                  ↑
+                </button>
+                <button
+                  type="button"
+                  onClick={() => moveRule(index, 1)}
+                  className="rounded border border-slate-300 px-2 py-1 text-xs text-slate-700 hover:bg-slate-100"
+                  aria-label="Move down"
+                >
+                  ↓
+                </button>
+                <button
+                  type="button"
+                  onClick={() => {
+                    setRules((prev) => prev.filter((_, i) => i !== index));
+                    setPreview(null);
+                  }}
+                  className="rounded border border-red-200 px-2 py-1 text-xs text-red-700 hover:bg-red-50"
+                  aria-label="Remove rule"
+                >
+                  ×
+                </button>
+              </div>
+              {rule.transform === "option_map" ? (
+                <label className="text-xs font-medium text-slate-600 lg:col-span-12">
+                  Options (one per line: <code>answer =&gt; stored value</code>)
+                  <textarea
+                    value={rule.options}
+                    onChange={(e) => updateRule(index, { options: e.target.value })}
+                    rows={3}
+                    className="mt-1 w-full rounded-md border border-slate-300 px-2 py-1.5 font-mono text-xs"
+                  />
+                </label>
+              ) : null}
+            </div>
+          ))}
+        </div>
+
+        <div className="mt-4 flex flex-wrap gap-2">
+          <button
+            type="button"
+            onClick={() => {
+              setRules((prev) => [
+                ...prev,
+                { target: "note", sources: "", match: "exact", transform: "text", options: "" },
+              ]);
+              setPreview(null);
+            }}
+            className="rounded-md border border-slate-300 px-3 py-2 text-sm text-slate-700 hover:bg-slate-100"
+          >
+            Add rule
+          </button>
+          <button
+            type="button"
+            onClick={() => {
+              setRules(toDraft(config.defaultMapping));
+              setPreview(null);
+            }}
+            className="rounded-md border border-slate-300 px-3 py-2 text-sm text-slate-700 hover:bg-slate-100"
+          >
+            Load default rules
+          </button>
+        </div>
+      </div>
+
+      <div className="rounded-xl border border-slate-200 bg-white p-6 shadow-sm">
+        <h3 className="text-base font-semibold text-slate-900">Preview</h3>
+        <p className="mt-1 text-sm text-slate-600">
+          Run the draft rules against a logged submission and compare with the saved mapping before
+          saving.
+        </p>
+        <div className="mt-4 flex flex-col gap-3 sm:flex-row">
+          <select
+            value={sampleId}
+            onChange={(e) => {
+              setSampleId(e.target.value);
+              setPreview(null);
+            }}
+            className="w-full rounded-md border border-slate-300 px-3 py-2 text-sm"
+          >
+            {config.samples.length === 0 ? <option value="">No logged submissions</option> : null}
+            {config.samples.map((sample) => (
+              <option key={sample.id} value={sample.id}>
+                {new Date(sample.created_at).toLocaleString()} - {sample.email ?? sample.submission_id ?? sample.id} ({sample.status})
+              </option>
+            ))}
+          </select>
+          <button
+            type="button"
+            onClick={() => void runPreview()}
+            disabled={busy || !sampleId}
+            className="rounded-md border border-slate-300 px-4 py-2 text-sm font-medium text-slate-700 hover:bg-slate-100 disabled:opacity-60"
+          >
+            Preview
+          </button>
+          <button
+            type="button"
+            onClick={() => void save("PUT")}
+            disabled={busy}
+            className="rounded-md bg-indigo-600 px-4 py-2 text-sm font-medium text-white disabled:opacity-60"
+          >
+            {busy ? "Working..." : "Save mapping"}
+          </button>
+          {!config.isDefault ? (
+            <button
+              type="button"
+              onClick={() => void save("DELETE")}
+              disabled={busy}
+              className="rounded-md border border-red-200 px-4 py-2 text-sm text-red-700 hover:bg-red-50 disabled:opacity-60"
+            >
+              Reset to default
+            </button>
+          ) : null}
+        </div>
+
+        {preview ? (
+          <div className="mt-5 space-y-5">
+            <div className="overflow-x-auto">
+              <table className="w-full border-collapse text-left text-sm">
+                <thead>
+                  <tr className="border-b border-slate-200 text-xs uppercase text-slate-500">
+                    <th className="px-3 py-2">Column</th>
+                    <th className="px-3 py-2">Saved mapping</th>
+                    <th className="px-3 py-2">Draft</th>
+                    <th className="px-3 py-2">Read from</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {[
+                    ...config.targets.map((target) => ({
+                      key: NORMALIZED_KEYS[target.target] ?? target.target,
+                      label: target.target,
+                      source: preview.preview.matched[target.target],
+                      required: target.required,
+                    })),
+                    ...DERIVED_ROWS.map((row) => ({ ...row, source: undefined, required: false })),
+                  ].map((row) => {
+                    const before = displayValue(preview.current.normalized[row.key]);
+                    const after = displayValue(preview.preview.normalized[row.key]);
+                    const changed = before !== after;
+                    const missing = row.required && after === "-";
+                    return (
+                      <tr
+                        key={row.label}
+                        className={`border-b border-slate-100 align-top ${
+                          missing ? "bg-red-50" : changed ? "bg-amber-50" : ""
+                        }`}
+                      >
+                        <td className="px-3 py-2 font-mono text-xs">{row.label}</td>
+                        <td className="max-w-xs break-words px-3 py-2 text-xs text-slate-600">{before}</td>
+                        <td className="max-w-xs break-words px-3 py-2 text-xs">{after}</td>
+                        <td className="max-w-xs break-words px-3 py-2 text-xs text-slate-500">
+                          {row.source ?? "-"}
+                        </td>
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
+            </div>
+
+            {preview.preview.unmatchedLabels.length > 0 ? (
+              <div className="rounded-md border border-amber-200 bg-amber-50 p-3">
+                <p className="text-sm font-medium text-amber-800">
+                  Answered questions not read by any rule
+                </p>
+                <ul className="mt-2 space-y-1 text-xs text-amber-800">
+                  {preview.preview.unmatchedLabels.map((label) => (
+                    <li key={label}>{label}</li>
+                  ))}
+                </ul>
+              </div>
+            ) : null}
+
+            <details className="rounded-md border border-slate-200 p-3">
+              <summary className="cursor-pointer text-sm font-medium text-slate-700">
+                All fields in this submission ({preview.fields.length})
+              </summary>
+              <table className="mt-3 w-full border-collapse text-left text-xs">
+                <tbody>
+                  {preview.fields.map((field) => (
+                    <tr key={`${field.key}:${field.label}`} className="border-t border-slate-100 align-top">
+                      <td className="px-2 py-1 font-mono text-slate-500">{field.key}</td>
+                      <td className="px-2 py-1">{field.label}</td>
+                      <td className="px-2 py-1 text-slate-600">{field.value || "-"}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </details>
+          </div>
+        ) : null}
+      </div>
+    </section>
+  );
+}
@@ -0,0 +1,309 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+
+type WebhookEventSummary = {
+  id: string;
+  source: string;
+  submission_id: string | null;
+  respondent_id: string | null;
+  email: string | null;
+  status: string;
+  error_code: string | null;
+  error_message: string | null;
+  replay_of: string | null;
+  replay_count: number;
+  last_replayed_at: string | null;
+  resolved_at: string | null;
+  resolution: string | null;
+  created_at: string;
+  has_raw_body: boolean;
+  participant_exists: boolean;
+};
+
+type WebhookEventDetail = WebhookEventSummary & {
+  raw_body: string | null;
+  payload: unknown;
+};
+
+type View = "failed" | "all";
+
+function formatDateTime(value: string | null) {
+  return value ? new Date(value).toLocaleString() : "-";
+}
+
+function statusClass(status: string) {
+  if (status.startsWith("success")) return "bg-emerald-50 text-emerald-700 border-emerald-200";
+  if (status === "invalid_signature") return "bg-slate-100 text-slate-600 border-slate-200";
+  return "bg-red-50 text-red-700 border-red-200";
+}
+
+function prettyBody(event: WebhookEventDetail) {
+  if (event.raw_body) {
+    try {
+      return JSON.stringify(JSON.parse(event.raw_body), null, 2);
+    } catch {
+      return event.raw_body;
+    }
+  }
+  return JSON.stringify(event.payload, null, 2);
+}
+
+export function AdminWebhookEvents() {
+  const [view, setView] = useState<View>("failed");
+  const [events, setEvents] = useState<WebhookEventSummary[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [detail, setDetail] = useState<WebhookEventDetail | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [success, setSuccess] = useState<string | null>(null);
+
+  const loadEvents = useCallback(async (nextView: View) => {
+    setLoading(true);
+    setError(null);
+    try {
+      const res = await fetch(`/api/admin/webhook-events?view=${nextView}`, { cache: "no-store" });
+      const json = (await res.json()) as { events?: WebhookEventSummary[]; error?: string };
+      if (!res.ok) throw new Error(json.error || "Unable to load webhook events");
+      setEvents(json.events ?? []);
+    } catch (err) {
+      setError((err as Error).message);
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    void loadEvents(view);
+  }, [loadEvents, view]);
+
+  async function openDetail(id: string) {
+    setError(null);
+    try {
+      const res = await fetch(`/api/admin/webhook-events?id=${encodeURIComponent(id)}`, {
+        cache: "no-store",
+      });
+      const json = (await res.json()) as { event?: WebhookEventDetail; error?: string };
+      if (!res.ok || !json.event) throw new Error(json.error || "Unable to load webhook event");
+      setDetail(json.event);
+    } catch (err) {
+      setError((err as Error).message);
+    }
+  }
+
+  async function runAction(id: string, action: "replay" | "dismiss") {
+    if (busyId) return;
+    if (action === "dismiss" && !window.confirm("Dismiss this event without replaying it?")) return;
+
+    setBusyId(id);
+    setError(null);
+    setSuccess(null);
+    try {
+      const res = await fetch("/api/admin/webhook-events", {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ id, action }),
+      });
+      const json = (await res.json()) as {
+        ok?: boolean;
+        status?: string;
+        result?: { error?: string };
+        error?: string;
+      };
+      if (!res.ok) throw new Error(json.error || "Unable to update webhook event");
+
+      if (action === "dismiss") {
+        setSuccess("Event dismissed.");
+      } else if (json.ok) {
+        setSuccess(
+          json.status === "success_duplicate_submission"
+            ? "Replay completed: the participant already existed, nothing was inserted."
+            : "Replay completed: the participant was registered."
+        );
+      } else {
+        setError(`Replay failed (${json.status}): ${json.result?.error ?? "unknown error"}`);
+      }
+
+      setDetail(null);
+      await loadEvents(view);
+    } catch (err) {
+      setError((err as Error).message);
+    } finally {
+      setBusyId(null);
+    }
+  }
+
+  return (
+    <section className="space-y-6">
+      <div className="rounded-xl border border-slate-200 bg-white p-6 shadow-sm">
+        <div className="flex flex-wrap items-start justify-between gap-3">
+          <div>
+            <h3 className="text-lg font-semibold text-slate-900">Registration events</h3>
+            <p className="mt-1 text-sm text-slate-600">
+              Tally webhook deliveries and native form submissions. Failed ones stay here until a replay succeeds or they are dismissed. A replay
+              re-runs normalization and the insert with the stored raw body; a submission that
+              already has a participant is never inserted twice.
+            </p>
+          </div>
+          <div className="flex gap-2 text-sm">
+            {(["failed", "all"] as View[]).map((option) => (
+              <button
+                key={option}
+                type="button"
+                onClick={() => setView(option)}
+                className={`rounded-full border px-3 py-1.5 font-medium ${
+                  view === option
+                    ? "border-indigo-600 bg-indigo-600 text-white"
+                    : "border-slate-300 text-slate-700 hover:bg-slate-100"
+                }`}
+              >
+                {option === "failed" ? "Failed queue" : "All submissions"}
+              </button>
+            ))}
+          </div>
+        </div>
+
+        {error ? (
+          <p className="mt-4 rounded-md border border-red-200 bg-red-50 px-3 py-2 text-sm text-red-700">
+            {error}
+          </p>
+        ) : null}
+        {success ? (
+          <p className="mt-4 rounded-md border border-emerald-200 bg-emerald-50 px-3 py-2 text-sm text-emerald-700">
+            {success}
+          </p>
+        ) : null}
+
+        {loading ? (
+          <p className="mt-4 text-sm text-slate-500">Loading events...</p>
+        ) : events.length === 0 ? (
+          <p className="mt-4 text-sm text-slate-500">
+            {view === "failed" ? "No failed submissions." : "No submissions logged yet."}
+          </p>
+        ) : (
+          <div className="mt-4 overflow-x-auto">
+            <table className="w-full border-collapse text-left text-sm">
+              <thead>
+                <tr className="border-b border-slate-200 text-xs uppercase text-slate-500">
+                  <th className="px-3 py-2">Received</th>
+                  <th className="px-3 py-2">Submission</th>
+                  <th className="px-3 py-2">Email</th>
+                  <th className="px-3 py-2">Status</th>
+                  <th className="px-3 py-2">Error</th>
+                  <th className="px-3 py-2">Replays</th>
+                  <th className="px-3 py-2" />
+                </tr>
+              </thead>
+              <tbody>
+                {events.map((event) => (
+                  <tr key={event.id} className="border-b border-slate-100 align-top">
+                    <td className="px-3 py-2 whitespace-nowrap">{formatDateTime(event.created_at)}</td>
+                    <td className="px-3 py-2 font-mono text-xs">
+                      {event.submission_id ?? "-"}
+                      {event.source === "registration_form" ? (
+                        <span className="ml-2 rounded bg-indigo-50 px-1.5 py-0.5 font-sans text-indigo-700">
+                          native form
+                        </span>
+                      ) : null}
+                      {event.participant_exists ? (
+                        <span className="ml-2 rounded bg-emerald-50 px-1.5 py-0.5 font-sans text-emerald-700">
+                          registered
+                        </span>
+                      ) : null}
+                      {event.replay_of ? (
+                        <span className="ml-2 rounded bg-slate-100 px-1.5 py-0.5 font-sans text-slate-600">
+                          replay
+                        </span>
+                      ) : null}
+                    </td>
+                    <td className="px-3 py-2">{event.email ?? "-"}</td>
+                    <td className="px-3 py-2">
+                      <span className={`rounded border px-2 py-0.5 text-xs ${statusClass(event.status)}`}>
+                        {event.status}
+                      </span>
+                      {event.resolution ? (
+                        <span className="mt-1 block text-xs text-slate-500">
+                          {event.resolution} {formatDateTime(event.resolved_at)}
+                        </span>
+                      ) : null}
+                    </td>
+                    <td className="max-w-xs px-3 py-2 text-xs text-slate-600">
+                      {event.error_message ?? "-"}
+                    </td>
+                    <td className="px-3 py-2 text-xs text-slate-600">
+                      {event.replay_count > 0
+                        ? `${event.replay_count} (last ${formatDateTime(event.last_replayed_at)})`
+                        : "-"}
+                    </td>
+                    <td className="px-3 py-2">
+                      <div className="flex justify-end gap-2">
+                        <button
+                          type="button"
+                          onClick={() => void openDetail(event.id)}
+                          className="rounded border border-slate-300 px-2 py-1 text-xs text-slate-700 hover:bg-slate-100"
+                        >
+                          Payload
+                        </button>
+                        {event.status !== "invalid_signature" ? (
+                          <button
+                            type="button"
+                            onClick={() => void runAction(event.id, "replay")}
+                            disabled={busyId !== null}
+                            className="rounded border border-indigo-600 bg-indigo-600 px-2 py-1 text-xs font-medium text-white disabled:opacity-60"
+                          >
+                            {busyId === event.id ? "Working..." : "Replay"}
+                          </button>
+                        ) : null}
+                        {view === "failed" ? (
+                          <button
+                            type="button"
+                            onClick={() => void runAction(event.id, "dismiss")}
+                            disabled={busyId !== null}
+                            className="rounded border border-slate-300 px-2 py-1 text-xs text-slate-700 hover:bg-slate-100 disabled:opacity-60"
+                          >
+                            Dismiss
+                          </button>
+                        ) : null}
+                      </div>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+
+      {detail ? (
+        <div className="fixed inset-0 z-50 flex items-start justify-center overflow-y-auto bg-black/40 px-4 py-8">
+          <div className="w-full max-w-3xl rounded-xl bg-white p-6 shadow-xl">
+            <div className="flex items-start justify-between gap-3">
+              <div>
+                <h3 className="text-base font-semibold text-slate-900">
+                  Submission {detail.submission_id ?? detail.id}
+                </h3>
+                <p className="text-xs text-slate-500">
+                  {detail.raw_body
+                    ? detail.source === "registration_form"
+                      ? "Raw body as posted by the registration form."
+                      : "Raw body as received from Tally."
+                    : "Raw body not stored for this event; showing the parsed payload."}
+                </p>
+              </div>
+              <button
+                type="button"
+                onClick={() => setDetail(null)}
+                className="rounded border border-slate-300 px-3 py-1.5 text-sm text-slate-700 hover:bg-slate-100"
+              >
+                Close
+              </button>
+            </div>
+            <pre className="mt-4 max-h-[60vh] overflow-auto rounded bg-slate-950 p-4 text-xs text-slate-100">
+              {prettyBody(detail)}
+            </pre>
+          </div>
+        </div>
+      ) : null}
+    </section>
+  );
+}
@@ -0,0 +1,229 @@
+"use client";
+
+import { useEffect, useMemo, useState } from "react";
+
+type BadgeParticipant = {
+  id: string;
+  nome: string | null;
+  cognome: string | null;
+  nazione: string | null;
+  gruppo_label: string | null;
+  data_arrivo: string | null;
+  markers: string[];
+};
+
+const MARKER_STYLES: Record<string, string> = {
+  U18: "bg-red-100 text-red-800",
+  VEGAN: "bg-emerald-200 text-emerald-900",
+  VEG: "bg-emerald-100 text-emerald-800",
+  "NO PORK": "bg-orange-100 text-orange-800",
+  DIET: "bg-violet-100 text-violet-800",
+};
+
+function fullName(participant: BadgeParticipant) {
+  return [participant.nome ?? "", participant.cognome ?? ""].join(" ").trim() || "-";
+}
+
+function sortedValues(values: Array<string | null>): string[] {
+  return [...new Set(values.filter((value): value is string => Boolean(value)))].sort((a, b) =>
+    a.localeCompare(b)
+  );
+}
+
+export function BadgeSheetGenerator() {
+  const [participants, setParticipants] = useState<BadgeParticipant[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [group, setGroup] = useState("");
+  const [arrival, setArrival] = useState("");
+  const [search, setSearch] = useState("");
+
+  useEffect(() => {
+    let cancelled = false;
+
+    async function load() {
+      try {
+        const res = await fetch("/api/manager/badges", { cache: "no-store" });
+        const json = (await res.json()) as { participants?: BadgeParticipant[]; error?: string };
+        if (cancelled) return;
+        if (!res.ok) {
+          setError(json.error ?? "Unable to load participants.");
+          return;
+        }
+        setParticipants(json.participants ?? []);
+      } catch {
+        if (!cancelled) setError("Unable to load participants.");
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    }
+
+    void load();
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  const groups = useMemo(
+    () => sortedValues(participants.map((participant) => participant.gruppo_label)),
+    [participants]
+  );
+  const arrivalDates = useMemo(
+    () => sortedValues(participants.map((participant) => participant.data_arrivo)),
+    [participants]
+  );
+
+  const batch = useMemo(
+    () =>
+      participants.filter(
+        (participant) =>
+          (!group || participant.gruppo_label === group) &&
+          (!arrival || participant.data_arrivo === arrival)
+      ),
+    [arrival, group, participants]
+  );
+
+  const visible = useMemo(() => {
+    const needle = search.trim().toLowerCase();
+    if (!needle) return batch;
+    return batch.filter((participant) =>
+      [fullName(participant), participant.gruppo_label ?? "", participant.nazione ?? ""]
+        .join(" ")
+        .toLowerCase()
+        .includes(needle)
+    );
+  }, [batch, search]);
+
+  const batchQuery = new URLSearchParams({ format: "pdf" });
+  if (group) batchQuery.set("group", group);
+  if (arrival) batchQuery.set("arrival", arrival);
+  const sheets = Math.ceil(batch.length / 4);
+
+  return (
+    <div className="space-y-4">
+      {error && (
+        <div className="rounded border border-red-200 bg-red-50 px-4 py-3 text-sm text-red-700">
+          {error}
+        </div>
+      )}
+
+      <section className="rounded-xl border border-slate-200 bg-white p-4 shadow-sm">
+        <h2 className="text-lg font-semibold text-slate-900">Badges</h2>
+        <p className="mt-1 text-xs text-slate-500">
+          Print-ready A4 sheets with four A6 badges each, for confirmed participants. Badges show
+          name, group, country, the check-in QR code and markers for minors (U18) and dietary
+          needs: VEG vegetarian, VEGAN, NO PORK, DIET other needs to check with the kitchen.
+        </p>
+
+        <div className="mt-4 flex flex-wrap items-end gap-3">
+          <label className="flex flex-col gap-1 text-xs text-slate-600">
+            Group
+            <select
+              value={group}
+              onChange={(e) => setGroup(e.target.value)}
+              className="rounded border border-slate-300 px-3 py-2 text-sm"
+            >
+              <option value="">All groups</option>
+              {groups.map((value) => (
+                <option key={value} value={value}>
+                  {value}
+                </option>
+              ))}
+            </select>
+          </label>
+          <label className="flex flex-col gap-1 text-xs text-slate-600">
+            Arrival date
+            <select
+              value={arrival}
+              onChange={(e) => setArrival(e.target.value)}
+              className="rounded border border-slate-300 px-3 py-2 text-sm"
+            >
+              <option value="">Any date</option>
+              {arrivalDates.map((value) => (
+                <option key={value} value={value}>
+                  {value}
+                </option>
+              ))}
+            </select>
+          </label>
+          {batch.length > 0 ? (
+            <a
+              href={`/api/manager/badges?${batchQuery.toString()}`}
+              className="rounded bg-indigo-600 px-4 py-2 text-sm font-medium text-white hover:bg-indigo-700"
+            >
+              Download {batch.length} badge{batch.length === 1 ? "" : "s"} ({sheets} sheet
+              {sheets === 1 ? "" : "s"})
+            </a>
+          ) : null}
+        </div>
+      </section>
+
+      <section className="rounded-xl border border-slate-200 bg-white p-4 shadow-sm">
+        <div className="flex flex-wrap items-center justify-between gap-3">
+          <h3 className="text-sm font-semibold text-slate-900">
+            Participants in this batch: {batch.length}
+          </h3>
+          <input
+            value={search}
+            onChange={(e) => setSearch(e.target.value)}
+            placeholder="Find a participant to reprint"
+            className="w-full max-w-xs rounded border border-slate-300 px-3 py-2 text-sm"
+          />
+        </div>
+
+        {loading ? (
+          <p className="mt-4 text-sm text-slate-500">Loading participants...</p>
+        ) : visible.length === 0 ? (
+          <p className="mt-4 text-sm text-slate-500">No confirmed participants match.</p>
+        ) : (
+          <div className="mt-4 overflow-x-auto rounded border border-slate-200">
+            <table className="w-full border-collapse text-left text-sm">
+              <thead className="bg-slate-50 text-slate-700">
+                <tr>
+                  <th className="px-4 py-3">Name</th>
+                  <th className="px-4 py-3">Group</th>
+                  <th className="px-4 py-3">Country</th>
+                  <th className="px-4 py-3">Arrival</th>
+                  <th className="px-4 py-3">Markers</th>
+                  <th className="px-4 py-3" />
+                </tr>
+              </thead>
+              <tbody>
+                {visible.map((participant) => (
+                  <tr key={participant.id} className="border-t border-slate-100">
+                    <td className="px-4 py-3">{fullName(participant)}</td>
+                    <td className="px-4 py-3">{participant.gruppo_label ?? "-"}</td>
+                    <td className="px-4 py-3">{participant.nazione ?? "-"}</td>
+                    <td className="px-4 py-3 whitespace-nowrap">{participant.data_arrivo ?? "-"}</td>
+                    <td className="px-4 py-3">
+                      <div className="flex flex-wrap gap-1">
+                        {participant.markers.map((marker) => (
+                          <span
+                            key={marker}
+                            className={`rounded px-2 py-0.5 text-xs font-semibold ${
+                              MARKER_STYLES[marker] ?? "bg-slate-100 text-slate-700"
+                            }`}
+                          >
+                            {marker}
+                          </span>
+                        ))}
+                      </div>
+                    </td>
+                    <td className="px-4 py-3 text-right">
+                      <a
+                        href={`/api/manager/badges?format=pdf&participantId=${participant.id}`}
+                        className="rounded border border-slate-300 px-3 py-1.5 text-xs font-medium text-slate-700 hover:bg-slate-100"
+                      >
+                        Reprint
+                      </a>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </section>
+    </div>
+  );
+}
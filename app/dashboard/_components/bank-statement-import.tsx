@@ -0,0 +1,877 @@
+"use client";
+
+import { useCallback, useEffect, useMemo, useState } from "react";
+import type {
+  BankDateFormat,
+  BankMatchSuggestion,
+  BankStatementLayout,
+  BankStatementLine,
+  MatchableParticipant,
+} from "@/lib/fees/bank-statement";
+
+type LineStatus = "pending" | "matched" | "ignored";
+
+type QueueLine = {
+  id: string;
+  line_number: number;
+  booking_date: string;
+  amount: number;
+  currency: "EUR" | "HUF";
+  counterparty: string | null;
+  reference: string | null;
+  status: LineStatus;
+  matched_at: string | null;
+  suggestions: BankMatchSuggestion[];
+};
+
+type SavedLayout = {
+  id: string;
+  name: string;
+  layout: BankStatementLayout;
+};
+
+type ImportRow = {
+  id: string;
+  file_name: string | null;
+  line_count: number;
+  duplicate_count: number;
+  error_count: number;
+  created_at: string;
+};
+
+type LayoutForm = {
+  delimiter: string;
+  dateColumn: string;
+  amountMode: "signed" | "split";
+  amountColumn: string;
+  creditColumn: string;
+  debitColumn: string;
+  currencyColumn: string;
+  defaultCurrency: "EUR" | "HUF";
+  counterpartyColumn: string;
+  referenceColumn: string;
+  dateFormat: BankDateFormat;
+  decimalSeparator: "." | ",";
+};
+
+type ParsedPreview = {
+  lines: BankStatementLine[];
+  lineCount: number;
+  errors: Array<{ lineNumber: number; message: string }>;
+};
+
+type ImportSummary = {
+  imported: number;
+  duplicates: number;
+  autoConfirmed: number;
+  errors: Array<{ lineNumber: number; message: string }>;
+};
+
+const DATE_FORMATS: BankDateFormat[] = ["YYYY-MM-DD", "DD/MM/YYYY", "DD.MM.YYYY", "MM/DD/YYYY"];
+
+const EMPTY_LAYOUT: LayoutForm = {
+  delimiter: ";",
+  dateColumn: "",
+  amountMode: "signed",
+  amountColumn: "",
+  creditColumn: "",
+  debitColumn: "",
+  currencyColumn: "",
+  defaultCurrency: "EUR",
+  counterpartyColumn: "",
+  referenceColumn: "",
+  dateFormat: "DD/MM/YYYY",
+  decimalSeparator: ",",
+};
+
+function formatMoney(amount: number, currency: string) {
+  return `${currency} ${Number(amount).toFixed(2)}`;
+}
+
+function participantLabel(participant: MatchableParticipant) {
+  const name = [participant.nome, participant.cognome].filter(Boolean).join(" ").trim() || "-";
+  return `${name} (${participant.group || "-"})`;
+}
+
+// Picks the first header that looks like the wanted column, for a sensible starting mapping.
+function guessColumn(headers: string[], hints: string[]) {
+  const lowered = headers.map((header) => header.toLowerCase());
+  for (const hint of hints) {
+    const index = lowered.findIndex((header) => header.includes(hint));
+    if (index >= 0) return headers[index];
+  }
+  return "";
+}
+
+function guessLayout(headers: string[], delimiter: string): LayoutForm {
+  const amountColumn = guessColumn(headers, ["amount", "importo", "betrag", "összeg", "montant"]);
+  const creditColumn = guessColumn(headers, ["credit", "avere", "entrate"]);
+  return {
+    ...EMPTY_LAYOUT,
+    delimiter,
+    dateColumn: guessColumn(headers, ["booking", "date", "data", "datum", "dátum"]),
+    amountMode: !amountColumn && creditColumn ? "split" : "signed",
+    amountColumn,
+    creditColumn,
+    debitColumn: guessColumn(headers, ["debit", "dare", "uscite"]),
+    currencyColumn: guessColumn(headers, ["currency", "valuta", "währung", "deviza"]),
+    counterpartyColumn: guessColumn(headers, [
+      "counterparty",
+      "payer",
+      "ordinante",
+      "name",
+      "partner",
+    ]),
+    referenceColumn: guessColumn(headers, [
+      "reference",
+      "description",
+      "causale",
+      "verwendungszweck",
+      "közlemény",
+    ]),
+  };
+}
+
+function formToLayout(form: LayoutForm): BankStatementLayout {
+  return {
+    delimiter: form.delimiter === "," ? "," : form.delimiter === "\t" ? "\t" : ";",
+    dateColumn: form.dateColumn,
+    amountColumn: form.amountMode === "signed" ? form.amountColumn || null : null,
+    creditColumn: form.amountMode === "split" ? form.creditColumn || null : null,
+    debitColumn: form.amountMode === "split" ? form.debitColumn || null : null,
+    currencyColumn: form.currencyColumn || null,
+    defaultCurrency: form.defaultCurrency,
+    counterpartyColumn: form.counterpartyColumn || null,
+    referenceColumn: form.referenceColumn || null,
+    dateFormat: form.dateFormat,
+    decimalSeparator: form.decimalSeparator,
+  };
+}
+
+function layoutToForm(layout: BankStatementLayout): LayoutForm {
+  return {
+    delimiter: layout.delimiter,
+    dateColumn: layout.dateColumn,
+    amountMode: layout.amountColumn ? "signed" : "split",
+    amountColumn: layout.amountColumn ?? "",
+    creditColumn: layout.creditColumn ?? "",
+    debitColumn: layout.debitColumn ?? "",
+    currencyColumn: layout.currencyColumn ?? "",
+    defaultCurrency: layout.defaultCurrency,
+    counterpartyColumn: layout.counterpartyColumn ?? "",
+    referenceColumn: layout.referenceColumn ?? "",
+    dateFormat: layout.dateFormat,
+    decimalSeparator: layout.decimalSeparator,
+  };
+}
+
+function ColumnSelect({
+  label,
+  value,
+  headers,
+  optional,
+  onChange,
+}: {
+  label: string;
+  value: string;
+  headers: string[];
+  optional?: boolean;
+  onChange: (value: string) => void;
+}) {
+  return (
+    <label className="text-sm text-slate-700">
+      {label}
+      <select
+        value={value}
+        onChange={(e) => onChange(e.target.value)}
+        className="mt-1 w-full rounded border border-slate-300 px-2 py-1.5 text-sm"
+      >
+        <option value="">{optional ? "Not in file" : "Select column"}</option>
+        {headers.map((header) => (
+          <option key={header} value={header}>
+            {header}
+          </option>
+        ))}
+      </select>
+    </label>
+  );
+}
+
+export function BankStatementImport() {
+  const [file, setFile] = useState<File | null>(null);
+  const [headers, setHeaders] = useState<string[]>([]);
+  const [layoutForm, setLayoutForm] = useState<LayoutForm>(EMPTY_LAYOUT);
+  const [layoutName, setLayoutName] = useState("");
+  const [preview, setPreview] = useState<ParsedPreview | null>(null);
+  const [autoConfirm, setAutoConfirm] = useState(true);
+  const [postToFinance, setPostToFinance] = useState(true);
+  const [uploading, setUploading] = useState(false);
+  const [summary, setSummary] = useState<ImportSummary | null>(null);
+
+  const [status, setStatus] = useState<LineStatus>("pending");
+  const [lines, setLines] = useState<QueueLine[]>([]);
+  const [participants, setParticipants] = useState<MatchableParticipant[]>([]);
+  const [layouts, setLayouts] = useState<SavedLayout[]>([]);
+  const [imports, setImports] = useState<ImportRow[]>([]);
+  const [manualMatches, setManualMatches] = useState<Record<string, string>>({});
+  const [busyLineId, setBusyLineId] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [success, setSuccess] = useState<string | null>(null);
+
+  const participantsById = useMemo(
+    () => new Map(participants.map((participant) => [participant.id, participant])),
+    [participants]
+  );
+
+  const loadQueue = useCallback(async (nextStatus: LineStatus) => {
+    setLoading(true);
+    try {
+      const res = await fetch(`/api/manager/bank-statements?status=${nextStatus}`, {
+        method: "GET",
+      });
+      const json = await res.json();
+
+      if (!res.ok) {
+        setError(json.error ?? "Unable to load bank statements.");
+        return;
+      }
+
+      setLines(Array.isArray(json.lines) ? json.lines : []);
+      setParticipants(Array.isArray(json.participants) ? json.participants : []);
+      setLayouts(Array.isArray(json.layouts) ? json.layouts : []);
+      setImports(Array.isArray(json.imports) ? json.imports : []);
+    } catch {
+      setError("Unable to load bank statements.");
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    void loadQueue(status);
+  }, [loadQueue, status]);
+
+  function updateLayout(patch: Partial<LayoutForm>) {
+    setLayoutForm((prev) => ({ ...prev, ...patch }));
+    setPreview(null);
+  }
+
+  async function handleFileChange(nextFile: File | null) {
+    setFile(nextFile);
+    setHeaders([]);
+    setPreview(null);
+    setSummary(null);
+    setError(null);
+    if (!nextFile) return;
+
+    const formData = new FormData();
+    formData.append("file", nextFile);
+    formData.append("preview", "true");
+
+    try {
+      const res = await fetch("/api/manager/bank-statements", { method: "POST", body: formData });
+      const json = await res.json();
+      if (!res.ok) {
+        setError(json.error ?? "Unable to read the file.");
+        return;
+      }
+
+      const nextHeaders = Array.isArray(json.headers) ? (json.headers as string[]) : [];
+      setHeaders(nextHeaders);
+      const saved = layouts.find((item) =>
+        [item.layout.dateColumn, item.layout.amountColumn ?? item.layout.creditColumn].every(
+          (column) => column && nextHeaders.includes(column)
+        )
+      );
+      if (saved) {
+        setLayoutForm(layoutToForm(saved.layout));
+        setLayoutName(saved.name);
+      } else {
+        setLayoutForm(guessLayout(nextHeaders, String(json.delimiter ?? ";")));
+      }
+    } catch {
+      setError("Unable to read the file.");
+    }
+  }
+
+  async function uploadStatement(mode: "preview" | "import") {
+    if (!file || uploading) return;
+
+    setUploading(true);
+    setError(null);
+    setSuccess(null);
+
+    const formData = new FormData();
+    formData.append("file", file);
+    formData.append("layout", JSON.stringify(formToLayout(layoutForm)));
+    if (mode === "preview") {
+      formData.append("preview", "true");
+    } else {
+      formData.append("autoConfirm", String(autoConfirm));
+      formData.append("postToFinance", String(postToFinance));
+      if (layoutName.trim()) formData.append("saveLayoutName", layoutName.trim());
+    }
+
+    try {
+      const res = await fetch("/api/manager/bank-statements", { method: "POST", body: formData });
+      const json = await res.json();
+
+      if (!res.ok) {
+        setError(json.error ?? "Unable to import the statement.");
+        return;
+      }
+
+      if (mode === "preview") {
+        setHeaders(Array.isArray(json.headers) ? json.headers : headers);
+        setPreview({
+          lines: Array.isArray(json.lines) ? json.lines : [],
+          lineCount: Number(json.lineCount ?? 0),
+          errors: Array.isArray(json.errors) ? json.errors : [],
+        });
+        return;
+      }
+
+      setSummary({
+        imported: Number(json.imported ?? 0),
+        duplicates: Number(json.duplicates ?? 0),
+        autoConfirmed: Number(json.autoConfirmed ?? 0),
+        errors: Array.isArray(json.errors) ? json.errors : [],
+      });
+      setFile(null);
+      setHeaders([]);
+      setPreview(null);
+      await loadQueue(status);
+    } catch {
+      setError("Unable to import the statement.");
+    } finally {
+      setUploading(false);
+    }
+  }
+
+  async function updateLine(line: QueueLine, payload: Record<string, unknown>, message: string) {
+    if (busyLineId) return;
+
+    setBusyLineId(line.id);
+    setError(null);
+    setSuccess(null);
+
+    try {
+      const res = await fetch("/api/manager/bank-statements/lines", {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ id: line.id, ...payload }),
+      });
+      const json = await res.json();
+
+      if (!res.ok) {
+        setError(json.error ?? "Unable to update the line.");
+        return;
+      }
+
+      setSuccess(message);
+      await loadQueue(status);
+    } catch {
+      setError("Unable to update the line.");
+    } finally {
+      setBusyLineId(null);
+    }
+  }
+
+  function confirmSuggestion(line: QueueLine, suggestion: BankMatchSuggestion) {
+    void updateLine(
+      line,
+      { action: "confirm", allocations: suggestion.allocations, post_to_finance: postToFinance },
+      `Line ${line.line_number} matched to ${suggestion.label}.`
+    );
+  }
+
+  function confirmManual(line: QueueLine) {
+    const participantId = manualMatches[line.id];
+    const participant = participantId ? participantsById.get(participantId) : undefined;
+    if (!participant) return;
+
+    void updateLine(
+      line,
+      {
+        action: "confirm",
+        allocations: [{ participant_id: participant.id, amount: line.amount }],
+        post_to_finance: postToFinance,
+      },
+      `Line ${line.line_number} matched to ${participantLabel(participant)}.`
+    );
+  }
+
+  const layoutReady =
+    Boolean(layoutForm.dateColumn) &&
+    Boolean(layoutForm.amountMode === "signed" ? layoutForm.amountColumn : layoutForm.creditColumn);
+
+  return (
+    <div className="space-y-4">
+      {error && (
+        <p className="rounded border border-red-200 bg-red-50 px-3 py-2 text-sm text-red-700">
+          {error}
+        </p>
+      )}
+      {success && (
+        <p className="rounded border border-emerald-200 bg-emerald-50 px-3 py-2 text-sm text-emerald-700">
+          {success}
+        </p>
+      )}
+
+      <section className="rounded-xl border border-slate-200 bg-white p-6 shadow-sm">
+        <h2 className="text-lg font-semibold text-slate-900">Import Bank Statement</h2>
+        <p className="mt-1 text-sm text-slate-500">
+          Upload the CSV exported from the bank, check the column mapping and import. Lines already
+          imported are skipped.
+        </p>
+
+        <div className="mt-4 flex flex-wrap items-end gap-3">
+          <label className="text-sm text-slate-700">
+            CSV file
+            <input
+              type="file"
+              accept=".csv,text/csv"
+              onChange={(e) => void handleFileChange(e.target.files?.[0] ?? null)}
+              className="mt-1 block text-sm"
+            />
+          </label>
+          {layouts.length > 0 && (
+            <label className="text-sm text-slate-700">
+              Saved layout
+              <select
+                value=""
+                onChange={(e) => {
+                  const saved = layouts.find((item) => item.id === e.target.value);
+                  if (!saved) return;
+                  setLayoutForm(layoutToForm(saved.layout));
+                  setLayoutName(saved.name);
+                  setPreview(null);
+                }}
+                className="mt-1 block rounded border border-slate-300 px-2 py-1.5 text-sm"
+              >
+                <option value="">Load layout...</option>
+                {layouts.map((item) => (
+                  <option key={item.id} value={item.id}>
+                    {item.name}
+                  </option>
+                ))}
+              </select>
+            </label>
+          )}
+        </div>
+
+        {headers.length > 0 && (
+          <div className="mt-4 space-y-4">
+            <div className="grid gap-3 sm:grid-cols-2 lg:grid-cols-4">
+              <label className="text-sm text-slate-700">
+                Delimiter
+                <select
+                  value={layoutForm.delimiter}
+                  onChange={(e) => updateLayout({ delimiter: e.target.value })}
+                  className="mt-1 w-full rounded border border-slate-300 px-2 py-1.5 text-sm"
+                >
+                  <option value=";">Semicolon (;)</option>
+                  <option value=",">Comma (,)</option>
+                  <option value={"\t"}>Tab</option>
+                </select>
+              </label>
+              <label className="text-sm text-slate-700">
+                Date format
+                <select
+                  value={layoutForm.dateFormat}
+                  onChange={(e) => updateLayout({ dateFormat: e.target.value as BankDateFormat })}
+                  className="mt-1 w-full rounded border border-slate-300 px-2 py-1.5 text-sm"
+                >
+                  {DATE_FORMATS.map((format) => (
+                    <option key={format} value={format}>
+                      {format}
+                    </option>
+                  ))}
+                </select>
+              </label>
+              <label className="text-sm text-slate-700">
+                Decimal separator
+                <select
+                  value={layoutForm.decimalSeparator}
+                  onChange={(e) =>
+                    updateLayout({ decimalSeparator: e.target.value === "," ? "," : "." })
+                  }
+                  className="mt-1 w-full rounded border border-slate-300 px-2 py-1.5 text-sm"
+                >
+                  <option value=",">Comma (1.234,56)</option>
+                  <option value=".">Dot (1,234.56)</option>
+                </select>
+              </label>
+              <label className="text-sm text-slate-700">
+                Default currency
+                <select
+                  value={layoutForm.defaultCurrency}
+                  onChange={(e) =>
+                    updateLayout({ defaultCurrency: e.target.value === "HUF" ? "HUF" : "EUR" })
+                  }
+                  className="mt-1 w-full rounded border border-slate-300 px-2 py-1.5 text-sm"
+                >
+                  <option value="EUR">EUR</option>
+                  <option value="HUF">HUF</option>
+                </select>
+              </label>
+              <ColumnSelect
+                label="Booking date column"
+                value={layoutForm.dateColumn}
+                headers={headers}
+                onChange={(value) => updateLayout({ dateColumn: value })}
+              />
+              <label className="text-sm text-slate-700">
+                Amount layout
+                <select
+                  value={layoutForm.amountMode}
+                  onChange={(e) =>
+                    updateLayout({ amountMode: e.target.value === "split" ? "split" : "signed" })
+                  }
+                  className="mt-1 w-full rounded border border-slate-300 px-2 py-1.5 text-sm"
+                >
+                  <option value="signed">One signed amount column</option>
+                  <option value="split">Separate credit / debit columns</option>
+                </select>
+              </label>
+              {layoutForm.amountMode === "signed" ? (
+                <ColumnSelect
+                  label="Amount column"
+                  value={layoutForm.amountColumn}
+                  headers={headers}
+                  onChange={(value) => updateLayout({ amountColumn: value })}
+                />
+              ) : (
+                <>
+                  <ColumnSelect
+                    label="Credit column"
+                    value={layoutForm.creditColumn}
+                    headers={headers}
+                    onChange={(value) => updateLayout({ creditColumn: value })}
+                  />
+                  <ColumnSelect
+                    label="Debit column"
+                    value={layoutForm.debitColumn}
+                    headers={headers}
+                    optional
+                    onChange={(value) => updateLayout({ debitColumn: value })}
+                  />
+                </>
+              )}
+              <ColumnSelect
+                label="Currency column"
+                value={layoutForm.currencyColumn}
+                headers={headers}
+                optional
+                onChange={(value) => updateLayout({ currencyColumn: value })}
+              />
+              <ColumnSelect
+                label="Counterparty column"
+                value={layoutForm.counterpartyColumn}
+                headers={headers}
+                optional
+                onChange={(value) => updateLayout({ counterpartyColumn: value })}
+              />
+              <ColumnSelect
+                label="Reference column"
+                value={layoutForm.referenceColumn}
+                headers={headers}
+                optional
+                onChange={(value) => updateLayout({ referenceColumn: value })}
+              />
+              <label className="text-sm text-slate-700">
+                Save layout as
+                <input
+                  value={layoutName}
+                  onChange={(e) => setLayoutName(e.target.value)}
+                  placeholder="e.g. OTP Bank"
+                  className="mt-1 w-full rounded border border-slate-300 px-2 py-1.5 text-sm"
+                />
+              </label>
+            </div>
+
+            <div className="flex flex-wrap items-center gap-4 text-sm text-slate-700">
+              <label className="flex items-center gap-2">
+                <input
+                  type="checkbox"
+                  checked={autoConfirm}
+                  onChange={(e) => setAutoConfirm(e.target.checked)}
+                />
+                Confirm high-confidence matches automatically
+              </label>
+              <label className="flex items-center gap-2">
+                <input
+                  type="checkbox"
+                  checked={postToFinance}
+                  onChange={(e) => setPostToFinance(e.target.checked)}
+                />
+                Also record confirmed payments in Event Finance
+              </label>
+            </div>
+
+            <div className="flex flex-wrap gap-2">
+              <button
+                type="button"
+                onClick={() => void uploadStatement("preview")}
+                disabled={!layoutReady || uploading}
+                className="rounded border border-slate-300 px-3 py-2 text-sm font-medium text-slate-700 hover:bg-slate-100 disabled:cursor-not-allowed disabled:opacity-60"
+              >
+                Preview
+              </button>
+              <button
+                type="button"
+                onClick={() => void uploadStatement("import")}
+                disabled={!layoutReady || uploading}
+                className="rounded border border-indigo-600 bg-indigo-600 px-3 py-2 text-sm font-medium text-white disabled:cursor-not-allowed disabled:opacity-60"
+              >
+                {uploading ? "Working..." : "Import"}
+              </button>
+            </div>
+          </div>
+        )}
+
+        {preview && (
+          <div className="mt-4 space-y-2">
+            <p className="text-sm text-slate-600">
+              {preview.lineCount} valid line(s), {preview.errors.length} error(s).
+            </p>
+            {preview.errors.length > 0 && (
+              <ul className="list-disc pl-5 text-xs text-red-700">
+                {preview.errors.slice(0, 20).map((item) => (
+                  <li key={`${item.lineNumber}-${item.message}`}>
+                    Line {item.lineNumber}: {item.message}
+                  </li>
+                ))}
+              </ul>
+            )}
+            <div className="overflow-x-auto rounded border border-slate-200">
+              <table className="w-full border-collapse text-left text-sm">
+                <thead className="bg-slate-50 text-slate-700">
+                  <tr>
+                    <th className="px-3 py-2">Line</th>
+                    <th className="px-3 py-2">Date</th>
+                    <th className="px-3 py-2">Amount</th>
+                    <th className="px-3 py-2">Counterparty</th>
+                    <th className="px-3 py-2">Reference</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {preview.lines.map((line) => (
+                    <tr key={line.dedupeKey} className="border-t border-slate-100">
+                      <td className="px-3 py-2">{line.lineNumber}</td>
+                      <td className="px-3 py-2">{line.bookingDate}</td>
+                      <td className="px-3 py-2">{formatMoney(line.amount, line.currency)}</td>
+                      <td className="px-3 py-2">{line.counterparty ?? "-"}</td>
+                      <td className="px-3 py-2">{line.reference ?? "-"}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </div>
+        )}
+
+        {summary && (
+          <div className="mt-4 rounded border border-slate-200 bg-slate-50 px-3 py-2 text-sm text-slate-700">
+            Imported {summary.imported} line(s), skipped {summary.duplicates} duplicate(s),
+            confirmed {summary.autoConfirmed} automatically.
+            {summary.errors.length > 0 && (
+              <ul className="mt-2 list-disc pl-5 text-xs text-red-700">
+                {summary.errors.slice(0, 20).map((item) => (
+                  <li key={`${item.lineNumber}-${item.message}`}>
+                    Line {item.lineNumber}: {item.message}
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+        )}
+      </section>
+
+      <section className="rounded-xl border border-slate-200 bg-white p-6 shadow-sm">
+        <div className="flex flex-wrap items-center justify-between gap-3">
+          <h2 className="text-lg font-semibold text-slate-900">Review Queue</h2>
+          <div className="flex gap-2 text-sm">
+            {(["pending", "matched", "ignored"] as LineStatus[]).map((item) => (
+              <button
+                key={item}
+                type="button"
+                onClick={() => setStatus(item)}
+                className={`rounded-full border px-3 py-1 capitalize ${
+                  status === item
+                    ? "border-indigo-600 bg-indigo-600 text-white"
+                    : "border-slate-300 text-slate-700 hover:bg-slate-100"
+                }`}
+              >
+                {item}
+              </button>
+            ))}
+          </div>
+        </div>
+
+        <div className="mt-4 overflow-x-auto rounded border border-slate-200">
+          <table className="w-full border-collapse text-left text-sm">
+            <thead className="bg-slate-50 text-slate-700">
+              <tr>
+                <th className="px-3 py-2">Date</th>
+                <th className="px-3 py-2">Amount</th>
+                <th className="px-3 py-2">Counterparty / Reference</th>
+                <th className="px-3 py-2">{status === "pending" ? "Suggested matches" : "Status"}</th>
+                <th className="px-3 py-2" />
+              </tr>
+            </thead>
+            <tbody>
+              {loading ? (
+                <tr>
+                  <td className="px-3 py-4 text-slate-500" colSpan={5}>
+                    Loading...
+                  </td>
+                </tr>
+              ) : lines.length === 0 ? (
+                <tr>
+                  <td className="px-3 py-4 text-slate-500" colSpan={5}>
+                    No lines.
+                  </td>
+                </tr>
+              ) : (
+                lines.map((line) => (
+                  <tr key={line.id} className="border-t border-slate-100 align-top">
+                    <td className="px-3 py-2 whitespace-nowrap">{line.booking_date}</td>
+                    <td className="px-3 py-2 whitespace-nowrap">
+                      {formatMoney(line.amount, line.currency)}
+                    </td>
+                    <td className="px-3 py-2">
+                      <span className="block">{line.counterparty ?? "-"}</span>
+                      <span className="block text-xs text-slate-500">{line.reference ?? "-"}</span>
+                    </td>
+                    <td className="px-3 py-2">
+                      {status !== "pending" ? (
+                        <span className="capitalize">{line.status}</span>
+                      ) : (
+                        <div className="space-y-2">
+                          {line.suggestions.length === 0 && (
+                            <span className="text-xs text-slate-500">No suggestion</span>
+                          )}
+                          {line.suggestions.map((suggestion) => (
+                            <div
+                              key={`${suggestion.kind}-${suggestion.key}`}
+                              className="flex flex-wrap items-center gap-2"
+                            >
+                              <button
+                                type="button"
+                                onClick={() => confirmSuggestion(line, suggestion)}
+                                disabled={busyLineId !== null}
+                                className="rounded border border-indigo-300 px-2 py-1 text-xs text-indigo-700 hover:bg-indigo-50 disabled:opacity-60"
+                              >
+                                Confirm
+                              </button>
+                              <span>{suggestion.label}</span>
+                              <span className="text-xs text-slate-500">
+                                {suggestion.score} · {suggestion.reasons.join(", ")}
+                              </span>
+                            </div>
+                          ))}
+                          <div className="flex flex-wrap items-center gap-2">
+                            <select
+                              value={manualMatches[line.id] ?? ""}
+                              onChange={(e) =>
+                                setManualMatches((prev) => ({ ...prev, [line.id]: e.target.value }))
+                              }
+                              className="max-w-xs rounded border border-slate-300 px-2 py-1 text-xs"
+                            >
+                              <option value="">Match manually...</option>
+                              {participants.map((participant) => (
+                                <option key={participant.id} value={participant.id}>
+                                  {participantLabel(participant)}
+                                </option>
+                              ))}
+                            </select>
+                            <button
+                              type="button"
+                              onClick={() => confirmManual(line)}
+                              disabled={busyLineId !== null || !manualMatches[line.id]}
+                              className="rounded border border-slate-300 px-2 py-1 text-xs text-slate-700 hover:bg-slate-100 disabled:opacity-60"
+                            >
+                              Match
+                            </button>
+                          </div>
+                        </div>
+                      )}
+                    </td>
+                    <td className="px-3 py-2 text-right">
+                      {line.status === "pending" && (
+                        <button
+                          type="button"
+                          onClick={() =>
+                            void updateLine(line, { action: "ignore" }, `Line ${line.line_number} ignored.`)
+                          }
+                          disabled={busyLineId !== null}
+                          className="rounded border border-slate-300 px-2 py-1 text-xs text-slate-700 hover:bg-slate-100 disabled:opacity-60"
+                        >
+                          Ignore
+                        </button>
+                      )}
+                      {line.status === "ignored" && (
+                        <button
+                          type="button"
+                          onClick={() =>
+                            void updateLine(
+                              line,
+                              { action: "reopen" },
+                              `Line ${line.line_number} moved back to review.`
+                            )
+                          }
+                          disabled={busyLineId !== null}
+                          className="rounded border border-slate-300 px-2 py-1 text-xs text-slate-700 hover:bg-slate-100 disabled:opacity-60"
+                        >
+                          Reopen
+                        </button>
+                      )}
+                    </td>
+                  </tr>
+                ))
+              )}
+            </tbody>
+          </table>
+        </div>
+        {status === "matched" && (
+          <p className="mt-2 text-xs text-slate-500">
+            To undo a match, delete its payments from the participant payment history; the line
+            returns to the review queue.
+          </p>
+        )}
+      </section>
+
+      {imports.length > 0 && (
+        <section className="rounded-xl border border-slate-200 bg-white p-6 shadow-sm">
+          <h2 className="text-lg font-semibold text-slate-900">Recent Imports</h2>
+          <div className="mt-4 overflow-x-auto rounded border border-slate-200">
+            <table className="w-full border-collapse text-left text-sm">
+              <thead className="bg-slate-50 text-slate-700">
+                <tr>
+                  <th className="px-3 py-2">Imported at</th>
+                  <th className="px-3 py-2">File</th>
+                  <th className="px-3 py-2">Lines</th>
+                  <th className="px-3 py-2">Duplicates</th>
+                  <th className="px-3 py-2">Errors</th>
+                </tr>
+              </thead>
+              <tbody>
+                {imports.map((item) => (
+                  <tr key={item.id} className="border-t border-slate-100">
+                    <td className="px-3 py-2">{new Date(item.created_at).toLocaleString()}</td>
+                    <td className="px-3 py-2">{item.file_name ?? "-"}</td>
+                    <td className="px-3 py-2">{item.line_count}</td>
+                    <td className="px-3 py-2">{item.duplicate_count}</td>
+                    <td className="px-3 py-2">{item.error_count}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </section>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,404 @@
+"use client";
+
+import { FormEvent, useCallback, useEffect, useRef, useState } from "react";
+
+type CheckInParticipant = {
+  id: string;
+  nome: string | null;
+  cognome: string | null;
+  email: string | null;
+  nazione: string | null;
+  gruppo_label: string | null;
+};
+
+type CheckInEntry = {
+  id: string;
+  participant_id: string;
+  check_in_date: string;
+  checked_in_at: string;
+  participant: CheckInParticipant | null;
+};
+
+type ScanResult =
+  | {
+      kind: "checked-in" | "duplicate";
+      checkInId: string;
+      checkedInAt: string;
+      participant: CheckInParticipant;
+      warnings: string[];
+    }
+  | { kind: "error"; message: string };
+
+// Shape of the browser's built-in BarcodeDetector (Chromium browsers on Android and
+// macOS; Safari and Firefox do not ship it).
+// Browsers without it fall back to typing or a handheld scanner in keyboard mode.
+type BarcodeDetectorLike = {
+  detect(source: HTMLVideoElement): Promise<Array<{ rawValue: string }>>;
+};
+type BarcodeDetectorConstructor = new (options: { formats: string[] }) => BarcodeDetectorLike;
+
+const SCAN_INTERVAL_MS = 300;
+// The same badge stays in front of the camera for a moment; ignore repeats meanwhile.
+const REPEAT_SCAN_MS = 4000;
+
+function barcodeDetector(): BarcodeDetectorConstructor | null {
+  const scope: Window & { BarcodeDetector?: BarcodeDetectorConstructor } = window;
+  return scope.BarcodeDetector ?? null;
+}
+
+function localToday(): string {
+  const now = new Date();
+  const month = String(now.getMonth() + 1).padStart(2, "0");
+  const day = String(now.getDate()).padStart(2, "0");
+  return `${now.getFullYear()}-${month}-${day}`;
+}
+
+function fullName(participant: CheckInParticipant | null) {
+  return [participant?.nome ?? "", participant?.cognome ?? ""].join(" ").trim() || "-";
+}
+
+function formatTime(value: string) {
+  const date = new Date(value);
+  return Number.isNaN(date.getTime())
+    ? value
+    : date.toLocaleTimeString([], { hour: "2-digit", minute: "2-digit" });
+}
+
+const RESULT_STYLES: Record<ScanResult["kind"], string> = {
+  "checked-in": "border-emerald-300 bg-emerald-50 text-emerald-900",
+  duplicate: "border-amber-300 bg-amber-50 text-amber-900",
+  error: "border-red-300 bg-red-50 text-red-800",
+};
+
+export function CheckInScanner() {
+  const [day, setDay] = useState(localToday);
+  const [checkIns, setCheckIns] = useState<CheckInEntry[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [listError, setListError] = useState<string | null>(null);
+  const [result, setResult] = useState<ScanResult | null>(null);
+  const [manualCode, setManualCode] = useState("");
+  const [submitting, setSubmitting] = useState(false);
+  const [undoingId, setUndoingId] = useState<string | null>(null);
+  const [cameraOn, setCameraOn] = useState(false);
+  const [cameraError, setCameraError] = useState<string | null>(null);
+
+  const videoRef = useRef<HTMLVideoElement | null>(null);
+  const streamRef = useRef<MediaStream | null>(null);
+  const lastScanRef = useRef<{ code: string; at: number } | null>(null);
+  const busyRef = useRef(false);
+
+  const loadCheckIns = useCallback(async () => {
+    setLoading(true);
+    setListError(null);
+    try {
+      const res = await fetch(`/api/manager/check-ins?day=${day}`, { cache: "no-store" });
+      const json = (await res.json()) as { checkIns?: CheckInEntry[]; error?: string };
+      if (!res.ok) {
+        setListError(json.error ?? "Unable to load check-ins.");
+        return;
+      }
+      setCheckIns(json.checkIns ?? []);
+    } catch {
+      setListError("Unable to load check-ins.");
+    } finally {
+      setLoading(false);
+    }
+  }, [day]);
+
+  useEffect(() => {
+    void loadCheckIns();
+  }, [loadCheckIns]);
+
+  const submitCode = useCallback(
+    async (code: string) => {
+      if (busyRef.current) return;
+      busyRef.current = true;
+      setSubmitting(true);
+
+      try {
+        const res = await fetch("/api/manager/check-ins", {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ code, day }),
+        });
+        const json = (await res.json()) as {
+          error?: string;
+          duplicate?: boolean;
+          warnings?: string[];
+          checkIn?: { id: string; checked_in_at: string };
+          participant?: CheckInParticipant;
+        };
+        if (!res.ok || !json.checkIn || !json.participant) {
+          setResult({ kind: "error", message: json.error ?? "Unable to record the check-in." });
+          return;
+        }
+
+        setResult({
+          kind: json.duplicate ? "duplicate" : "checked-in",
+          checkInId: json.checkIn.id,
+          checkedInAt: json.checkIn.checked_in_at,
+          participant: json.participant,
+          warnings: json.warnings ?? [],
+        });
+        if (!json.duplicate) await loadCheckIns();
+      } catch {
+        setResult({ kind: "error", message: "Unable to record the check-in." });
+      } finally {
+        busyRef.current = false;
+        setSubmitting(false);
+      }
+    },
+    [day, loadCheckIns]
+  );
+
+  const stopCamera = useCallback(() => {
+    streamRef.current?.getTracks().forEach((track) => track.stop());
+    streamRef.current = null;
+    setCameraOn(false);
+  }, []);
+
+  async function startCamera() {
+    setCameraError(null);
+    if (!barcodeDetector()) {
+      setCameraError(
+        "This browser cannot read QR codes from the camera. Type the code below or use a handheld scanner."
+      );
+      return;
+    }
+
+    try {
+      const stream = await navigator.mediaDevices.getUserMedia({
+        video: { facingMode: "environment" },
+        audio: false,
+      });
+      streamRef.current = stream;
+      setCameraOn(true);
+    } catch {
+      setCameraError("Camera access was denied or no camera is available.");
+    }
+  }
+
+  useEffect(() => {
+    const Detector = barcodeDetector();
+    const video = videoRef.current;
+    const stream = streamRef.current;
+    if (!cameraOn || !Detector || !video || !stream) return;
+
+    video.srcObject = stream;
+    void video.play();
+    const detector = new Detector({ formats: ["qr_code"] });
+
+    const timer = window.setInterval(async () => {
+      if (busyRef.current || video.readyState < 2) return;
+      try {
+        const [barcode] = await detector.detect(video);
+        const code = barcode?.rawValue?.trim();
+        if (!code) return;
+
+        const now = Date.now();
+        const last = lastScanRef.current;
+        if (last && last.code === code && now - last.at < REPEAT_SCAN_MS) return;
+        lastScanRef.current = { code, at: now };
+        await submitCode(code);
+      } catch {
+        // A frame that cannot be decoded is simply skipped.
+      }
+    }, SCAN_INTERVAL_MS);
+
+    return () => window.clearInterval(timer);
+  }, [cameraOn, submitCode]);
+
+  useEffect(() => stopCamera, [stopCamera]);
+
+  async function onManualSubmit(event: FormEvent<HTMLFormElement>) {
+    event.preventDefault();
+    const code = manualCode.trim();
+    if (!code) return;
+    await submitCode(code);
+    setManualCode("");
+  }
+
+  async function undo(checkInId: string, name: string) {
+    if (!window.confirm(`Undo the check-in of ${name}?`)) return;
+
+    setUndoingId(checkInId);
+    try {
+      const res = await fetch(`/api/manager/check-ins?id=${checkInId}`, { method: "DELETE" });
+      const json = (await res.json()) as { error?: string };
+      if (!res.ok) {
+        setResult({ kind: "error", message: json.error ?? "Unable to undo the check-in." });
+        return;
+      }
+      setResult((current) =>
+        current && current.kind !== "error" && current.checkInId === checkInId ? null : current
+      );
+      await loadCheckIns();
+    } catch {
+      setResult({ kind: "error", message: "Unable to undo the check-in." });
+    } finally {
+      setUndoingId(null);
+    }
+  }
+
+  return (
+    <div className="mx-auto max-w-2xl space-y-4">
+      <section className="rounded-xl border border-slate-200 bg-white p-4 shadow-sm">
+        <div className="flex flex-wrap items-end justify-between gap-3">
+          <div>
+            <h2 className="text-lg font-semibold text-slate-900">Check-in</h2>
+            <p className="mt-1 text-xs text-slate-500">
+              Scan the QR code on the participant badge or on their phone. Each participant is
+              checked in once per day.
+            </p>
+          </div>
+          <label className="flex flex-col gap-1 text-xs text-slate-600">
+            Day
+            <input
+              type="date"
+              value={day}
+              onChange={(e) => {
+                setDay(e.target.value || localToday());
+                setResult(null);
+              }}
+              className="rounded border border-slate-300 px-3 py-2 text-sm"
+            />
+          </label>
+        </div>
+
+        <div className="mt-4">
+          {cameraOn ? (
+            <div className="space-y-2">
+              <video
+                ref={videoRef}
+                muted
+                playsInline
+                className="aspect-square w-full rounded-lg bg-slate-900 object-cover"
+              />
+              <button
+                type="button"
+                onClick={stopCamera}
+                className="w-full rounded border border-slate-300 px-4 py-3 text-sm font-medium text-slate-700 hover:bg-slate-100"
+              >
+                Stop camera
+              </button>
+            </div>
+          ) : (
+            <button
+              type="button"
+              onClick={() => void startCamera()}
+              className="w-full rounded bg-indigo-600 px-4 py-3 text-base font-medium text-white hover:bg-indigo-700"
+            >
+              Scan with camera
+            </button>
+          )}
+          {cameraError && <p className="mt-2 text-sm text-red-700">{cameraError}</p>}
+        </div>
+
+        <form className="mt-4 flex gap-2" onSubmit={onManualSubmit}>
+          <input
+            value={manualCode}
+            onChange={(e) => setManualCode(e.target.value)}
+            placeholder="Badge code"
+            autoComplete="off"
+            autoCapitalize="off"
+            className="min-w-0 flex-1 rounded border border-slate-300 px-3 py-2 text-sm"
+          />
+          <button
+            type="submit"
+            disabled={submitting || !manualCode.trim()}
+            className="rounded border border-indigo-600 px-4 py-2 text-sm font-medium text-indigo-700 hover:bg-indigo-50 disabled:opacity-60"
+          >
+            Check in
+          </button>
+        </form>
+      </section>
+
+      {result && (
+        <section
+          aria-live="polite"
+          className={`rounded-xl border-2 p-4 ${RESULT_STYLES[result.kind]}`}
+        >
+          {result.kind === "error" ? (
+            <p className="text-base font-semibold">{result.message}</p>
+          ) : (
+            <>
+              <p className="text-sm font-medium uppercase tracking-wide">
+                {result.kind === "duplicate"
+                  ? `Already checked in at ${formatTime(result.checkedInAt)}`
+                  : "Checked in"}
+              </p>
+              <p className="mt-1 text-2xl font-bold">{fullName(result.participant)}</p>
+              <p className="text-sm">
+                {[result.participant.gruppo_label, result.participant.nazione]
+                  .filter(Boolean)
+                  .join(" · ")}
+              </p>
+              {result.warnings.length > 0 && (
+                <ul className="mt-2 list-disc pl-5 text-sm text-amber-900">
+                  {result.warnings.map((warning) => (
+                    <li key={warning}>{warning}</li>
+                  ))}
+                </ul>
+              )}
+              {result.kind === "checked-in" && (
+                <button
+                  type="button"
+                  onClick={() => void undo(result.checkInId, fullName(result.participant))}
+                  disabled={undoingId !== null}
+                  className="mt-3 rounded border border-current px-3 py-1.5 text-sm font-medium disabled:opacity-60"
+                >
+                  Undo
+                </button>
+              )}
+            </>
+          )}
+        </section>
+      )}
+
+      <section className="rounded-xl border border-slate-200 bg-white p-4 shadow-sm">
+        <div className="flex items-center justify-between gap-3">
+          <h3 className="text-sm font-semibold text-slate-900">
+            Checked in on {day}: {checkIns.length}
+          </h3>
+          <button
+            type="button"
+            onClick={() => void loadCheckIns()}
+            className="rounded border border-slate-300 px-3 py-1.5 text-xs font-medium text-slate-700 hover:bg-slate-100"
+          >
+            Refresh
+          </button>
+        </div>
+
+        {listError ? (
+          <p className="mt-3 text-sm text-red-700">{listError}</p>
+        ) : loading ? (
+          <p className="mt-3 text-sm text-slate-500">Loading check-ins...</p>
+        ) : checkIns.length === 0 ? (
+          <p className="mt-3 text-sm text-slate-500">Nobody has been checked in on this day.</p>
+        ) : (
+          <ul className="mt-3 divide-y divide-slate-100">
+            {checkIns.map((entry) => (
+              <li key={entry.id} className="flex items-center justify-between gap-3 py-2 text-sm">
+                <div className="min-w-0">
+                  <p className="truncate font-medium text-slate-900">{fullName(entry.participant)}</p>
+                  <p className="truncate text-xs text-slate-500">
+                    {formatTime(entry.checked_in_at)}
+                    {entry.participant?.gruppo_label ? ` · ${entry.participant.gruppo_label}` : ""}
+                  </p>
+                </div>
+                <button
+                  type="button"
+                  onClick={() => void undo(entry.id, fullName(entry.participant))}
+                  disabled={undoingId !== null}
+                  className="shrink-0 rounded border border-red-200 px-3 py-1.5 text-xs font-medium text-red-700 hover:bg-red-50 disabled:opacity-60"
+                >
+                  {undoingId === entry.id ? "Undoing..." : "Undo"}
+                </button>
+              </li>
+            ))}
+          </ul>
+        )}
+      </section>
+    </div>
+  );
+}
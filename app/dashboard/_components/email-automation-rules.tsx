@@ -0,0 +1,448 @@
+"use client";
+
+import NextLink from "next/link";
+import { FormEvent, useEffect, useState } from "react";
+import {
+  AUTOMATION_TRIGGERS,
+  AUTOMATION_TRIGGER_LABELS,
+  type AutomationRecipientType,
+  type AutomationTrigger,
+} from "@/lib/email/automation-rules";
+
+type AutomationRule = {
+  id: string;
+  name: string;
+  trigger: AutomationTrigger;
+  templateId: string;
+  recipientType: AutomationRecipientType;
+  daysBefore: number | null;
+  dueDate: string | null;
+  enabled: boolean;
+  updatedAt: string;
+};
+
+type TemplateOption = {
+  id: string;
+  name: string;
+};
+
+type RuleForm = {
+  name: string;
+  trigger: AutomationTrigger;
+  templateId: string;
+  recipientType: AutomationRecipientType;
+  daysBefore: string;
+  dueDate: string;
+  enabled: boolean;
+};
+
+type EmailAutomationRulesProps = {
+  campaignsPath: "/dashboard/manager/email-campaigns" | "/dashboard/admin/email-campaigns";
+};
+
+const EMPTY_FORM: RuleForm = {
+  name: "",
+  trigger: "registration_created",
+  templateId: "",
+  recipientType: "participants",
+  daysBefore: "7",
+  dueDate: "",
+  enabled: true,
+};
+
+const RECIPIENT_LABELS: Record<AutomationRecipientType, string> = {
+  participants: "The participant",
+  group_leaders: "Their group leaders",
+};
+
+function ruleToForm(rule: AutomationRule): RuleForm {
+  return {
+    name: rule.name,
+    trigger: rule.trigger,
+    templateId: rule.templateId,
+    recipientType: rule.recipientType,
+    daysBefore: rule.daysBefore === null ? EMPTY_FORM.daysBefore : String(rule.daysBefore),
+    dueDate: rule.dueDate ?? "",
+    enabled: rule.enabled,
+  };
+}
+
+function describeTrigger(rule: AutomationRule) {
+  if (rule.trigger === "days_before_arrival") {
+    return `${rule.daysBefore ?? 0} days before arrival`;
+  }
+  if (rule.trigger === "balance_unpaid") {
+    return `Balance still unpaid after ${rule.dueDate ?? "-"}`;
+  }
+  return AUTOMATION_TRIGGER_LABELS[rule.trigger];
+}
+
+export function EmailAutomationRules({ campaignsPath }: EmailAutomationRulesProps) {
+  const [rules, setRules] = useState<AutomationRule[]>([]);
+  const [templates, setTemplates] = useState<TemplateOption[]>([]);
+  const [form, setForm] = useState<RuleForm>(EMPTY_FORM);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [success, setSuccess] = useState<string | null>(null);
+
+  useEffect(() => {
+    void loadRules();
+  }, []);
+
+  async function loadRules() {
+    setLoading(true);
+    setError(null);
+
+    try {
+      const [rulesRes, templatesRes] = await Promise.all([
+        fetch("/api/manager/email-automations", { cache: "no-store" }),
+        fetch("/api/manager/email-templates", { cache: "no-store" }),
+      ]);
+      const rulesJson = (await rulesRes.json()) as { rules?: AutomationRule[]; error?: string };
+      const templatesJson = (await templatesRes.json()) as {
+        templates?: TemplateOption[];
+        error?: string;
+      };
+      if (!rulesRes.ok || !templatesRes.ok) {
+        setError(rulesJson.error ?? templatesJson.error ?? "Unable to load automatic emails.");
+        return;
+      }
+      setRules(rulesJson.rules ?? []);
+      setTemplates(templatesJson.templates ?? []);
+    } catch {
+      setError("Unable to load automatic emails.");
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  function resetForm() {
+    setForm(EMPTY_FORM);
+    setEditingId(null);
+  }
+
+  function startEditing(rule: AutomationRule) {
+    setForm(ruleToForm(rule));
+    setEditingId(rule.id);
+    setError(null);
+    setSuccess(null);
+  }
+
+  async function saveRule(body: Record<string, unknown>, method: "POST" | "PATCH") {
+    const res = await fetch("/api/manager/email-automations", {
+      method,
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(body),
+    });
+    const json = (await res.json()) as { error?: string };
+    if (!res.ok) {
+      throw new Error(json.error ?? "Unable to save the rule.");
+    }
+  }
+
+  async function handleSubmit(event: FormEvent<HTMLFormElement>) {
+    event.preventDefault();
+    setBusy(true);
+    setError(null);
+    setSuccess(null);
+
+    try {
+      await saveRule(
+        { ...form, daysBefore: Number(form.daysBefore), id: editingId ?? undefined },
+        editingId ? "PATCH" : "POST"
+      );
+      setSuccess(editingId ? "Rule updated." : "Rule created.");
+      resetForm();
+      await loadRules();
+    } catch (saveError) {
+      setError(saveError instanceof Error ? saveError.message : "Unable to save the rule.");
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  async function toggleRule(rule: AutomationRule) {
+    setBusy(true);
+    setError(null);
+    setSuccess(null);
+
+    try {
+      await saveRule({ ...rule, enabled: !rule.enabled }, "PATCH");
+      await loadRules();
+    } catch (saveError) {
+      setError(saveError instanceof Error ? saveError.message : "Unable to save the rule.");
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  async function deleteRule(rule: AutomationRule) {
+    if (!window.confirm(`Delete the rule "${rule.name}"? Emails already sent stay in the log.`)) {
+      return;
+    }
+
+    setBusy(true);
+    setError(null);
+    setSuccess(null);
+
+    try {
+      const res = await fetch("/api/manager/email-automations", {
+        method: "DELETE",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ id: rule.id }),
+      });
+      const json = (await res.json()) as { error?: string };
+      if (!res.ok) {
+        setError(json.error ?? "Unable to delete the rule.");
+        return;
+      }
+      if (editingId === rule.id) resetForm();
+      setSuccess("Rule deleted.");
+      await loadRules();
+    } catch {
+      setError("Unable to delete the rule.");
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  const templateNames = new Map(templates.map((template) => [template.id, template.name]));
+
+  return (
+    <section className="space-y-6">
+      <header className="rounded-xl border border-slate-200 bg-white p-6 shadow-sm">
+        <div className="flex flex-wrap items-start justify-between gap-3">
+          <div>
+            <h2 className="text-xl font-bold text-slate-900">Automatic emails</h2>
+            <p className="mt-2 text-sm text-slate-500">
+              Send a saved template when something happens. Each participant receives an
+              automatic email at most once per rule, and every send appears in the email send log.
+            </p>
+          </div>
+          <NextLink
+            href={campaignsPath}
+            className="rounded border border-slate-300 bg-white px-3 py-2 text-sm font-medium text-slate-700 hover:bg-slate-100"
+          >
+            Back to campaigns
+          </NextLink>
+        </div>
+      </header>
+
+      {error && (
+        <div className="rounded border border-red-200 bg-red-50 px-4 py-3 text-sm text-red-700">
+          {error}
+        </div>
+      )}
+      {success && (
+        <div className="rounded border border-emerald-200 bg-emerald-50 px-4 py-3 text-sm text-emerald-700">
+          {success}
+        </div>
+      )}
+
+      <section className="rounded-xl border border-slate-200 bg-white p-4 shadow-sm">
+        <h3 className="text-lg font-semibold text-slate-900">Rules</h3>
+        {loading ? (
+          <p className="mt-4 text-sm text-slate-500">Loading...</p>
+        ) : rules.length === 0 ? (
+          <p className="mt-4 text-sm text-slate-500">No automatic emails yet.</p>
+        ) : (
+          <div className="mt-4 overflow-x-auto rounded border border-slate-200">
+            <table className="w-full border-collapse text-left text-sm">
+              <thead className="bg-slate-50 text-slate-700">
+                <tr>
+                  <th className="px-4 py-3">Rule</th>
+                  <th className="px-4 py-3">When</th>
+                  <th className="px-4 py-3">Template</th>
+                  <th className="px-4 py-3">Recipients</th>
+                  <th className="px-4 py-3">Status</th>
+                  <th className="px-4 py-3" />
+                </tr>
+              </thead>
+              <tbody>
+                {rules.map((rule) => (
+                  <tr key={rule.id} className="border-t border-slate-100 align-top">
+                    <td className="px-4 py-3 font-medium text-slate-900">{rule.name}</td>
+                    <td className="px-4 py-3">{describeTrigger(rule)}</td>
+                    <td className="px-4 py-3">{templateNames.get(rule.templateId) ?? "-"}</td>
+                    <td className="px-4 py-3">{RECIPIENT_LABELS[rule.recipientType]}</td>
+                    <td className="px-4 py-3">
+                      {rule.enabled ? (
+                        <span className="font-medium text-emerald-700">Active</span>
+                      ) : (
+                        <span className="text-slate-500">Paused</span>
+                      )}
+                    </td>
+                    <td className="px-4 py-3 text-right whitespace-nowrap">
+                      <div className="inline-flex gap-2">
+                        <button
+                          type="button"
+                          onClick={() => startEditing(rule)}
+                          disabled={busy}
+                          className="rounded border border-slate-300 px-3 py-1.5 text-xs font-medium text-slate-700 hover:bg-slate-100 disabled:opacity-60"
+                        >
+                          Edit
+                        </button>
+                        <button
+                          type="button"
+                          onClick={() => void toggleRule(rule)}
+                          disabled={busy}
+                          className="rounded border border-slate-300 px-3 py-1.5 text-xs font-medium text-slate-700 hover:bg-slate-100 disabled:opacity-60"
+                        >
+                          {rule.enabled ? "Pause" : "Resume"}
+                        </button>
+                        <button
+                          type="button"
+                          onClick={() => void deleteRule(rule)}
+                          disabled={busy}
+                          className="rounded border border-red-200 px-3 py-1.5 text-xs font-medium text-red-700 hover:bg-red-50 disabled:opacity-60"
+                        >
+                          Delete
+                        </button>
+                      </div>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </section>
+
+      <form
+        onSubmit={handleSubmit}
+        className="space-y-4 rounded-xl border border-slate-200 bg-white p-4 shadow-sm"
+      >
+        <div>
+          <h3 className="text-lg font-semibold text-slate-900">
+            {editingId ? "Edit rule" : "New rule"}
+          </h3>
+          <p className="mt-1 text-xs text-slate-500">
+            Date-based rules are checked daily, from the given number of days before arrival up
+            to the arrival day. Waitlisted participants never receive them.
+          </p>
+        </div>
+
+        <div className="grid gap-4 md:grid-cols-2">
+          <div>
+            <label className="block text-sm font-medium text-slate-700">Name</label>
+            <input
+              value={form.name}
+              onChange={(e) => setForm({ ...form, name: e.target.value })}
+              className="mt-1 w-full rounded border border-slate-300 px-3 py-2 text-sm"
+              placeholder="Welcome email"
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-slate-700">When</label>
+            <select
+              value={form.trigger}
+              onChange={(e) => setForm({ ...form, trigger: e.target.value as AutomationTrigger })}
+              className="mt-1 w-full rounded border border-slate-300 px-3 py-2 text-sm"
+            >
+              {AUTOMATION_TRIGGERS.map((trigger) => (
+                <option key={trigger} value={trigger}>
+                  {AUTOMATION_TRIGGER_LABELS[trigger]}
+                </option>
+              ))}
+            </select>
+          </div>
+          {form.trigger === "days_before_arrival" ? (
+            <div>
+              <label className="block text-sm font-medium text-slate-700">
+                Days before arrival
+              </label>
+              <input
+                type="number"
+                min={0}
+                max={365}
+                value={form.daysBefore}
+                onChange={(e) => setForm({ ...form, daysBefore: e.target.value })}
+                className="mt-1 w-full rounded border border-slate-300 px-3 py-2 text-sm"
+              />
+            </div>
+          ) : null}
+          {form.trigger === "balance_unpaid" ? (
+            <div>
+              <label className="block text-sm font-medium text-slate-700">Payment deadline</label>
+              <input
+                type="date"
+                value={form.dueDate}
+                onChange={(e) => setForm({ ...form, dueDate: e.target.value })}
+                className="mt-1 w-full rounded border border-slate-300 px-3 py-2 text-sm"
+              />
+            </div>
+          ) : null}
+          <div>
+            <label className="block text-sm font-medium text-slate-700">Template</label>
+            <select
+              value={form.templateId}
+              onChange={(e) => setForm({ ...form, templateId: e.target.value })}
+              className="mt-1 w-full rounded border border-slate-300 px-3 py-2 text-sm"
+            >
+              <option value="">Choose a saved template</option>
+              {templates.map((template) => (
+                <option key={template.id} value={template.id}>
+                  {template.name}
+                </option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-slate-700">Send to</label>
+            <select
+              value={form.recipientType}
+              onChange={(e) =>
+                setForm({ ...form, recipientType: e.target.value as AutomationRecipientType })
+              }
+              className="mt-1 w-full rounded border border-slate-300 px-3 py-2 text-sm"
+            >
+              {(Object.keys(RECIPIENT_LABELS) as AutomationRecipientType[]).map((type) => (
+                <option key={type} value={type}>
+                  {RECIPIENT_LABELS[type]}
+                </option>
+              ))}
+            </select>
+            {form.trigger === "waitlist_promoted" ? (
+              <p className="mt-1 text-xs text-slate-500">
+                The participant gets the promotion email from Registration capacity; this
+                trigger can only notify group leaders.
+              </p>
+            ) : null}
+          </div>
+        </div>
+
+        <label className="inline-flex items-center gap-2 text-sm text-slate-700">
+          <input
+            type="checkbox"
+            checked={form.enabled}
+            onChange={(e) => setForm({ ...form, enabled: e.target.checked })}
+            className="h-4 w-4"
+          />
+          Active
+        </label>
+
+        <div className="flex justify-end gap-2">
+          {editingId ? (
+            <button
+              type="button"
+              onClick={resetForm}
+              disabled={busy}
+              className="rounded border border-slate-300 px-4 py-2 text-sm font-medium text-slate-700 hover:bg-slate-100 disabled:opacity-60"
+            >
+              Cancel
+            </button>
+          ) : null}
+          <button
+            type="submit"
+            disabled={busy}
+            className="rounded bg-indigo-600 px-4 py-2 text-sm font-medium text-white hover:bg-indigo-700 disabled:opacity-60"
+          >
+            {busy ? "Saving..." : editingId ? "Save rule" : "Create rule"}
+          </button>
+        </div>
+      </form>
+    </section>
+  );
+}
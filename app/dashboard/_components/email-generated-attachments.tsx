@@ -0,0 +1,180 @@
+"use client";
+
+import { useState } from "react";
+import {
+  GENERATED_ATTACHMENT_KINDS,
+  GENERATED_ATTACHMENT_LABELS,
+  MAX_GENERATED_ATTACHMENTS,
+  defaultGeneratedAttachment,
+  generatedAttachmentUsesLetter,
+  isGeneratedAttachmentKind,
+  type GeneratedAttachment,
+} from "@/lib/email/generated-attachments";
+
+type EmailGeneratedAttachmentsProps = {
+  attachments: GeneratedAttachment[];
+  onChange: (attachments: GeneratedAttachment[]) => void;
+  // Participant the "Preview PDF" button renders the document for.
+  previewRecipientId: string | null;
+};
+
+export function EmailGeneratedAttachments({
+  attachments,
+  onChange,
+  previewRecipientId,
+}: EmailGeneratedAttachmentsProps) {
+  const [previewingIndex, setPreviewingIndex] = useState<number | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  function addAttachment(kind: string) {
+    if (!isGeneratedAttachmentKind(kind)) return;
+    onChange([...attachments, defaultGeneratedAttachment(kind)]);
+  }
+
+  function updateAttachment(index: number, patch: Partial<GeneratedAttachment>) {
+    onChange(
+      attachments.map((attachment, current) =>
+        current === index ? { ...attachment, ...patch } : attachment
+      )
+    );
+  }
+
+  function removeAttachment(index: number) {
+    onChange(attachments.filter((_, current) => current !== index));
+  }
+
+  async function previewAttachment(index: number) {
+    if (!previewRecipientId) return;
+
+    // Opened before the request so the browser does not treat it as a blocked popup.
+    const previewWindow = window.open("", "_blank");
+    setPreviewingIndex(index);
+    setError(null);
+    try {
+      const res = await fetch("/api/manager/email-campaign/attachment-preview", {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({
+          recipientId: previewRecipientId,
+          attachment: attachments[index],
+        }),
+      });
+      if (!res.ok) {
+        const json = (await res.json().catch(() => ({}))) as { error?: string };
+        previewWindow?.close();
+        setError(json.error ?? "Unable to render the document.");
+        return;
+      }
+      const url = URL.createObjectURL(await res.blob());
+      if (previewWindow) {
+        previewWindow.location.href = url;
+      } else {
+        window.open(url, "_blank");
+      }
+    } catch {
+      previewWindow?.close();
+      setError("Unable to render the document.");
+    } finally {
+      setPreviewingIndex(null);
+    }
+  }
+
+  return (
+    <div className="mt-4 rounded border border-slate-200 bg-slate-50 p-3">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <p className="text-sm font-medium text-slate-700">Generated documents</p>
+        <select
+          value=""
+          onChange={(event) => addAttachment(event.target.value)}
+          disabled={attachments.length >= MAX_GENERATED_ATTACHMENTS}
+          className="rounded border border-slate-300 bg-white px-2 py-1.5 text-xs font-medium"
+        >
+          <option value="">Add document...</option>
+          {GENERATED_ATTACHMENT_KINDS.map((kind) => (
+            <option key={kind} value={kind}>
+              {GENERATED_ATTACHMENT_LABELS[kind]}
+            </option>
+          ))}
+        </select>
+      </div>
+      <p className="mt-1 text-xs text-slate-500">
+        PDFs created for each participant from their own data. File names and letter text
+        accept the same tokens as the message.
+      </p>
+      {error ? <p className="mt-2 text-xs text-red-700">{error}</p> : null}
+      {attachments.length === 0 ? (
+        <p className="mt-2 text-xs text-slate-500">No generated documents.</p>
+      ) : (
+        <div className="mt-2 space-y-3">
+          {attachments.map((attachment, index) => (
+            <div
+              key={`${attachment.kind}-${index}`}
+              className="space-y-2 rounded border border-slate-200 bg-white p-2"
+            >
+              <div className="flex flex-wrap items-center justify-between gap-2">
+                <span className="text-xs font-semibold text-slate-700">
+                  {GENERATED_ATTACHMENT_LABELS[attachment.kind]}
+                </span>
+                <div className="flex gap-2">
+                  <button
+                    type="button"
+                    onClick={() => void previewAttachment(index)}
+                    disabled={!previewRecipientId || previewingIndex !== null}
+                    title={previewRecipientId ? undefined : "Select a participant to preview"}
+                    className="rounded border border-slate-300 px-2 py-0.5 text-xs hover:bg-slate-100 disabled:opacity-50"
+                  >
+                    {previewingIndex === index ? "Rendering..." : "Preview PDF"}
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => removeAttachment(index)}
+                    className="rounded border border-red-200 px-2 py-0.5 text-xs text-red-700 hover:bg-red-50"
+                  >
+                    Remove
+                  </button>
+                </div>
+              </div>
+              <label className="block text-xs text-slate-600">
+                File name
+                <input
+                  type="text"
+                  value={attachment.filename}
+                  onChange={(event) => updateAttachment(index, { filename: event.target.value })}
+                  className="mt-1 w-full rounded border border-slate-300 px-2 py-1 text-xs"
+                />
+              </label>
+              {generatedAttachmentUsesLetter(attachment.kind) ? (
+                <>
+                  <label className="block text-xs text-slate-600">
+                    Title
+                    <input
+                      type="text"
+                      value={attachment.title}
+                      onChange={(event) => updateAttachment(index, { title: event.target.value })}
+                      className="mt-1 w-full rounded border border-slate-300 px-2 py-1 text-xs"
+                    />
+                  </label>
+                  <label className="block text-xs text-slate-600">
+                    Letter text
+                    <textarea
+                      value={attachment.body}
+                      onChange={(event) => updateAttachment(index, { body: event.target.value })}
+                      rows={8}
+                      className="mt-1 w-full rounded border border-slate-300 px-2 py-1 font-mono text-xs"
+                    />
+                  </label>
+                </>
+              ) : (
+                <p className="text-xs text-slate-500">
+                  Fee, payments received and balance due, on the organization letterhead.
+                </p>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,206 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import type { CampaignDelivery } from "@/lib/email/campaign-queue";
+import type { DeliveryStatus } from "@/lib/email/send-queue-policy";
+
+type EmailSendLogDeliveryStatusProps = {
+  initialDelivery: CampaignDelivery;
+};
+
+const POLL_INTERVAL_MS = 5000;
+
+const STATUS_LABELS: Record<DeliveryStatus, string> = {
+  pending: "Queued",
+  sending: "Sending",
+  sent: "Sent",
+  failed: "Failed",
+  skipped: "Skipped",
+  cancelled: "Cancelled",
+};
+
+const STATUS_CLASSES: Record<DeliveryStatus, string> = {
+  pending: "bg-slate-100 text-slate-700",
+  sending: "bg-sky-100 text-sky-800",
+  sent: "bg-emerald-100 text-emerald-800",
+  failed: "bg-red-100 text-red-800",
+  skipped: "bg-amber-100 text-amber-800",
+  cancelled: "bg-slate-200 text-slate-600",
+};
+
+const JOB_LABELS: Record<CampaignDelivery["status"], string> = {
+  scheduled: "Scheduled",
+  sending: "Sending",
+  completed: "Completed",
+  cancelled: "Cancelled",
+};
+
+function formatDateTime(value: string | null): string {
+  if (!value) return "-";
+  const date = new Date(value);
+  if (Number.isNaN(date.getTime())) return value;
+  return new Intl.DateTimeFormat("en-GB", {
+    month: "short",
+    day: "2-digit",
+    hour: "2-digit",
+    minute: "2-digit",
+    second: "2-digit",
+  }).format(date);
+}
+
+function isActive(delivery: CampaignDelivery): boolean {
+  return delivery.status === "scheduled" || delivery.status === "sending";
+}
+
+export function EmailSendLogDeliveryStatus({ initialDelivery }: EmailSendLogDeliveryStatusProps) {
+  const [delivery, setDelivery] = useState(initialDelivery);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const active = isActive(delivery);
+
+  const refresh = useCallback(async () => {
+    try {
+      const res = await fetch(
+        `/api/manager/email-campaign?logId=${encodeURIComponent(delivery.id)}`,
+        { cache: "no-store" }
+      );
+      const json = (await res.json()) as CampaignDelivery & { error?: string };
+      if (!res.ok) {
+        setError(json.error ?? "Unable to refresh delivery status.");
+        return;
+      }
+      setDelivery(json);
+      setError(null);
+    } catch {
+      setError("Unable to refresh delivery status.");
+    }
+  }, [delivery.id]);
+
+  useEffect(() => {
+    if (!active) return;
+    const timer = window.setInterval(refresh, POLL_INTERVAL_MS);
+    return () => window.clearInterval(timer);
+  }, [active, refresh]);
+
+  async function runAction(action: "cancel" | "process") {
+    if (action === "cancel" && !window.confirm("Cancel the emails that have not been sent yet?")) {
+      return;
+    }
+    setBusy(true);
+    setError(null);
+    try {
+      const res = await fetch("/api/manager/email-campaign", {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ logId: delivery.id, action }),
+      });
+      const json = (await res.json()) as CampaignDelivery & { error?: string };
+      if (!res.ok) {
+        setError(json.error ?? "Unable to update campaign.");
+        return;
+      }
+      setDelivery(json);
+    } catch {
+      setError("Unable to update campaign.");
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  const summaryStatuses = (Object.keys(STATUS_LABELS) as DeliveryStatus[]).filter(
+    (status) => delivery.counts[status] > 0
+  );
+
+  return (
+    <section className="rounded-xl border border-slate-200 bg-white p-6 shadow-sm">
+      <div className="flex flex-wrap items-start justify-between gap-3">
+        <div>
+          <h3 className="text-sm font-semibold uppercase tracking-wide text-slate-500">
+            Delivery status
+          </h3>
+          <p className="mt-2 text-sm text-slate-700">
+            <span className="font-semibold">{JOB_LABELS[delivery.status]}</span>
+            {delivery.status === "scheduled"
+              ? ` for ${formatDateTime(delivery.send_at)}`
+              : delivery.completed_at
+                ? ` on ${formatDateTime(delivery.completed_at)}`
+                : ""}
+            {active ? " · refreshing automatically" : ""}
+          </p>
+          <div className="mt-2 flex flex-wrap gap-2 text-xs">
+            {summaryStatuses.map((status) => (
+              <span key={status} className={`rounded px-2 py-1 font-medium ${STATUS_CLASSES[status]}`}>
+                {STATUS_LABELS[status]}: {delivery.counts[status]}
+              </span>
+            ))}
+          </div>
+        </div>
+        {active ? (
+          <div className="flex gap-2">
+            <button
+              type="button"
+              disabled={busy}
+              onClick={() => runAction("process")}
+              className="rounded border border-slate-300 bg-white px-3 py-2 text-sm font-medium text-slate-700 hover:bg-slate-100 disabled:cursor-not-allowed disabled:opacity-60"
+            >
+              Process queue now
+            </button>
+            <button
+              type="button"
+              disabled={busy}
+              onClick={() => runAction("cancel")}
+              className="rounded border border-red-300 bg-white px-3 py-2 text-sm font-medium text-red-700 hover:bg-red-50 disabled:cursor-not-allowed disabled:opacity-60"
+            >
+              Cancel campaign
+            </button>
+          </div>
+        ) : null}
+      </div>
+      {error ? <p className="mt-2 text-sm text-red-700">{error}</p> : null}
+
+      {delivery.recipients.length === 0 ? (
+        <p className="mt-3 text-sm text-slate-500">No recipients logged.</p>
+      ) : (
+        <div className="mt-3 max-h-96 overflow-auto rounded border border-slate-200">
+          <table className="min-w-full divide-y divide-slate-200 text-sm">
+            <thead className="bg-slate-50 text-left text-xs font-semibold uppercase tracking-wide text-slate-600">
+              <tr>
+                <th className="px-3 py-2">Email</th>
+                <th className="px-3 py-2">Status</th>
+                <th className="px-3 py-2">Attempts</th>
+                <th className="px-3 py-2">Sent / next try</th>
+                <th className="px-3 py-2">Last error</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-slate-200 text-slate-700">
+              {delivery.recipients.map((recipient) => (
+                <tr key={recipient.recipient_id}>
+                  <td className="px-3 py-2">
+                    <div>{recipient.email || "-"}</div>
+                    <div className="font-mono text-xs text-slate-400">{recipient.recipient_id}</div>
+                  </td>
+                  <td className="px-3 py-2">
+                    <span
+                      className={`rounded px-2 py-1 text-xs font-medium ${STATUS_CLASSES[recipient.status]}`}
+                    >
+                      {STATUS_LABELS[recipient.status]}
+                    </span>
+                  </td>
+                  <td className="px-3 py-2">{recipient.attempts}</td>
+                  <td className="px-3 py-2">
+                    {recipient.status === "sent"
+                      ? formatDateTime(recipient.sent_at)
+                      : recipient.status === "pending"
+                        ? formatDateTime(recipient.next_attempt_at)
+                        : "-"}
+                  </td>
+                  <td className="px-3 py-2 text-xs text-red-700">{recipient.last_error ?? ""}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </section>
+  );
+}
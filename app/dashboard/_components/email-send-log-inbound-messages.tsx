@@ -0,0 +1,95 @@
+import type { InboundMessageRow } from "@/lib/email/mailbox-poller";
+
+type EmailSendLogInboundMessagesProps = {
+  messages: InboundMessageRow[];
+  error: string | null;
+};
+
+function formatDateTime(value: string | null): string {
+  if (!value) return "-";
+  const date = new Date(value);
+  if (Number.isNaN(date.getTime())) return value;
+  return new Intl.DateTimeFormat("en-GB", {
+    month: "short",
+    day: "2-digit",
+    hour: "2-digit",
+    minute: "2-digit",
+  }).format(date);
+}
+
+function kindLabel(message: InboundMessageRow): { label: string; className: string } {
+  if (message.kind === "bounce") {
+    return message.hard_bounce
+      ? { label: "Bounced", className: "bg-red-100 text-red-800" }
+      : { label: "Delivery delayed", className: "bg-amber-100 text-amber-800" };
+  }
+  return message.automatic
+    ? { label: "Auto-reply", className: "bg-slate-100 text-slate-700" }
+    : { label: "Reply", className: "bg-sky-100 text-sky-800" };
+}
+
+export function EmailSendLogInboundMessages({ messages, error }: EmailSendLogInboundMessagesProps) {
+  const bounces = messages.filter((message) => message.kind === "bounce" && message.hard_bounce);
+  const replies = messages.filter((message) => message.kind === "reply");
+
+  return (
+    <section className="rounded-xl border border-slate-200 bg-white p-6 shadow-sm">
+      <h3 className="text-sm font-semibold uppercase tracking-wide text-slate-500">
+        Bounces and replies
+      </h3>
+      {error ? (
+        <p className="mt-2 text-sm text-red-700">{error}</p>
+      ) : messages.length === 0 ? (
+        <p className="mt-2 text-sm text-slate-500">
+          No bounces or replies have been received for this email.
+        </p>
+      ) : (
+        <>
+          <p className="mt-2 text-sm text-slate-500">
+            {bounces.length} bounced address(es), {replies.length} repl
+            {replies.length === 1 ? "y" : "ies"}.
+          </p>
+          <ul className="mt-4 space-y-3">
+            {messages.map((message) => {
+              const kind = kindLabel(message);
+              return (
+                <li key={message.id} className="rounded border border-slate-200 p-3">
+                  <div className="flex flex-wrap items-center gap-2 text-sm">
+                    <span className={`rounded px-2 py-0.5 text-xs font-medium ${kind.className}`}>
+                      {kind.label}
+                    </span>
+                    <span className="font-medium text-slate-900">
+                      {message.recipient?.email ?? message.from_email ?? "-"}
+                    </span>
+                    <span className="text-slate-500">
+                      {formatDateTime(message.received_at ?? message.created_at)}
+                    </span>
+                  </div>
+                  {message.kind === "bounce" ? (
+                    <p className="mt-2 text-sm text-slate-700">
+                      {[message.bounce_status, message.bounce_diagnostic]
+                        .filter(Boolean)
+                        .join(" ") || message.subject}
+                    </p>
+                  ) : (
+                    <>
+                      <p className="mt-2 text-sm font-medium text-slate-800">
+                        {message.subject}
+                        {message.from_email && message.from_email !== message.recipient?.email
+                          ? ` (from ${message.from_email})`
+                          : ""}
+                      </p>
+                      <pre className="mt-1 max-h-48 overflow-auto whitespace-pre-wrap text-sm text-slate-700">
+                        {message.body_text}
+                      </pre>
+                    </>
+                  )}
+                </li>
+              );
+            })}
+          </ul>
+        </>
+      )}
+    </section>
+  );
+}
@@ -0,0 +1,190 @@
+import type { CampaignTracking } from "@/lib/email/campaign-tracking";
+import { trackingRate, type TrackingCounts } from "@/lib/email/tracking";
+
+type EmailSendLogTrackingProps = {
+  tracking: CampaignTracking | null;
+  error: string | null;
+};
+
+function formatRate(part: number, total: number): string {
+  const rate = trackingRate(part, total);
+  return rate === null ? "-" : `${Math.round(rate * 1000) / 10}%`;
+}
+
+function StatCard({ label, value, detail }: { label: string; value: string; detail: string }) {
+  return (
+    <div className="rounded border border-slate-200 p-3">
+      <p className="text-xs uppercase text-slate-500">{label}</p>
+      <p className="mt-1 text-lg font-semibold text-slate-900">{value}</p>
+      <p className="mt-1 text-xs text-slate-500">{detail}</p>
+    </div>
+  );
+}
+
+function VariantRow({
+  variant,
+  subject,
+  counts,
+  leading,
+  showClicks,
+}: {
+  variant: string;
+  subject: string;
+  counts: TrackingCounts;
+  leading: boolean;
+  showClicks: boolean;
+}) {
+  return (
+    <tr className="border-t border-slate-100 align-top">
+      <td className="px-4 py-3 font-semibold">{variant}</td>
+      <td className="px-4 py-3">
+        {subject}
+        {leading ? (
+          <span className="ml-2 rounded bg-emerald-100 px-2 py-0.5 text-xs font-medium text-emerald-800">
+            Higher open rate
+          </span>
+        ) : null}
+      </td>
+      <td className="px-4 py-3">{counts.delivered}</td>
+      <td className="px-4 py-3">
+        {counts.opened} ({formatRate(counts.opened, counts.delivered)})
+      </td>
+      {showClicks ? (
+        <td className="px-4 py-3">
+          {counts.clicked} ({formatRate(counts.clicked, counts.delivered)})
+        </td>
+      ) : null}
+    </tr>
+  );
+}
+
+export function EmailSendLogTracking({ tracking, error }: EmailSendLogTrackingProps) {
+  const enabled =
+    tracking && (tracking.trackOpens || tracking.trackClicks || tracking.variants !== null);
+  if (!error && !enabled) {
+    return null;
+  }
+
+  const variants = tracking?.variants ?? null;
+  const openRate = (counts: TrackingCounts) => trackingRate(counts.opened, counts.delivered) ?? 0;
+  const leader =
+    variants && variants.A.delivered > 0 && variants.B.delivered > 0
+      ? openRate(variants.A) > openRate(variants.B)
+        ? "A"
+        : openRate(variants.B) > openRate(variants.A)
+          ? "B"
+          : null
+      : null;
+
+  return (
+    <section className="rounded-xl border border-slate-200 bg-white p-6 shadow-sm">
+      <h3 className="text-sm font-semibold uppercase tracking-wide text-slate-500">
+        Opens and clicks
+      </h3>
+      {error || !tracking ? (
+        <p className="mt-2 text-sm text-red-700">{error}</p>
+      ) : (
+        <>
+          <p className="mt-2 text-sm text-slate-500">
+            Rates are out of delivered emails. Opens are estimates: some mail clients block the
+            tracking image and others load it automatically; a click also counts as an open.
+          </p>
+          <div className="mt-4 grid gap-4 md:grid-cols-3">
+            <StatCard
+              label="Delivered"
+              value={String(tracking.total.delivered)}
+              detail="Sent without errors"
+            />
+            <StatCard
+              label="Opened"
+              value={
+                tracking.trackOpens
+                  ? formatRate(tracking.total.opened, tracking.total.delivered)
+                  : "-"
+              }
+              detail={
+                tracking.trackOpens
+                  ? `${tracking.total.opened} recipient(s)`
+                  : "Open tracking was off"
+              }
+            />
+            <StatCard
+              label="Clicked"
+              value={
+                tracking.trackClicks
+                  ? formatRate(tracking.total.clicked, tracking.total.delivered)
+                  : "-"
+              }
+              detail={
+                tracking.trackClicks
+                  ? `${tracking.total.clicked} recipient(s)`
+                  : "Click tracking was off"
+              }
+            />
+          </div>
+
+          {variants ? (
+            <div className="mt-4 overflow-x-auto rounded border border-slate-200">
+              <table className="w-full border-collapse text-left text-sm">
+                <thead className="bg-slate-50 text-slate-700">
+                  <tr>
+                    <th className="px-4 py-3">Variant</th>
+                    <th className="px-4 py-3">Subject</th>
+                    <th className="px-4 py-3">Delivered</th>
+                    <th className="px-4 py-3">Opened</th>
+                    {tracking.trackClicks ? <th className="px-4 py-3">Clicked</th> : null}
+                  </tr>
+                </thead>
+                <tbody>
+                  <VariantRow
+                    variant="A"
+                    subject={tracking.subject}
+                    counts={variants.A}
+                    leading={leader === "A"}
+                    showClicks={tracking.trackClicks}
+                  />
+                  <VariantRow
+                    variant="B"
+                    subject={tracking.subjectB ?? "-"}
+                    counts={variants.B}
+                    leading={leader === "B"}
+                    showClicks={tracking.trackClicks}
+                  />
+                </tbody>
+              </table>
+            </div>
+          ) : null}
+
+          {tracking.trackClicks ? (
+            tracking.links.length === 0 ? (
+              <p className="mt-4 text-sm text-slate-500">No link has been clicked yet.</p>
+            ) : (
+              <div className="mt-4 overflow-x-auto rounded border border-slate-200">
+                <table className="w-full border-collapse text-left text-sm">
+                  <thead className="bg-slate-50 text-slate-700">
+                    <tr>
+                      <th className="px-4 py-3">Link</th>
+                      <th className="px-4 py-3">Recipients</th>
+                      <th className="px-4 py-3">Clicks</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {tracking.links.map((link) => (
+                      <tr key={link.url} className="border-t border-slate-100">
+                        <td className="max-w-md truncate px-4 py-3" title={link.url}>
+                          {link.url}
+                        </td>
+                        <td className="px-4 py-3">{link.recipients}</td>
+                        <td className="px-4 py-3">{link.clicks}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )
+          ) : null}
+        </>
+      )}
+    </section>
+  );
+}
@@ -0,0 +1,682 @@
+"use client";
+
+import { FormEvent, useEffect, useMemo, useState } from "react";
+import { ALLOGGIO_SHORT_OPTIONS } from "@/lib/partecipante/constants";
+import {
+  evaluateParticipationFee,
+  type FeeRule,
+  type FeeRuleInput,
+} from "@/lib/fees/rules";
+
+type RuleForm = {
+  id: string | null;
+  label: string;
+  priority: string;
+  amount: string;
+  min_nights: string;
+  max_nights: string;
+  alloggio_short: string;
+  tipo_iscrizione: string;
+  min_age: string;
+  max_age: string;
+  registered_until: string;
+  is_active: boolean;
+};
+
+type RecalculationChange = {
+  id: string;
+  nome: string | null;
+  cognome: string | null;
+  group: string;
+  current_quota: number | null;
+  new_quota: number | null;
+  rule_label: string | null;
+};
+
+type RecalculationPreview = {
+  totalParticipants: number;
+  changes: RecalculationChange[];
+};
+
+type TryForm = {
+  nights: string;
+  alloggio_short: string;
+  tipo_iscrizione: string;
+  eta: string;
+  registered_on: string;
+};
+
+function formatCurrency(value: number | null) {
+  if (value === null) return "-";
+  return `EUR ${Number(value).toFixed(2)}`;
+}
+
+function toOptionalNumber(value: string): number | null {
+  const trimmed = value.trim();
+  if (!trimmed) return null;
+  const parsed = Number(trimmed);
+  return Number.isFinite(parsed) ? parsed : null;
+}
+
+function emptyRuleForm(nextPriority: number): RuleForm {
+  return {
+    id: null,
+    label: "",
+    priority: String(nextPriority),
+    amount: "",
+    min_nights: "",
+    max_nights: "",
+    alloggio_short: "",
+    tipo_iscrizione: "",
+    min_age: "",
+    max_age: "",
+    registered_until: "",
+    is_active: true,
+  };
+}
+
+function ruleToForm(rule: FeeRule): RuleForm {
+  return {
+    id: rule.id,
+    label: rule.label,
+    priority: String(rule.priority),
+    amount: String(rule.amount),
+    min_nights: rule.min_nights === null ? "" : String(rule.min_nights),
+    max_nights: rule.max_nights === null ? "" : String(rule.max_nights),
+    alloggio_short: rule.alloggio_short ?? "",
+    tipo_iscrizione: rule.tipo_iscrizione ?? "",
+    min_age: rule.min_age === null ? "" : String(rule.min_age),
+    max_age: rule.max_age === null ? "" : String(rule.max_age),
+    registered_until: rule.registered_until ?? "",
+    is_active: rule.is_active,
+  };
+}
+
+function describeRange(min: number | null, max: number | null, unit: string) {
+  if (min === null && max === null) return "any";
+  if (min !== null && max !== null) return min === max ? `${min} ${unit}` : `${min}-${max} ${unit}`;
+  if (min !== null) return `${min}+ ${unit}`;
+  return `up to ${max} ${unit}`;
+}
+
+export function FeeRulesManager() {
+  const [rules, setRules] = useState<FeeRule[]>([]);
+  const [enrollmentTypes, setEnrollmentTypes] = useState<string[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [success, setSuccess] = useState<string | null>(null);
+
+  const [ruleForm, setRuleForm] = useState<RuleForm | null>(null);
+  const [preview, setPreview] = useState<RecalculationPreview | null>(null);
+  const [tryForm, setTryForm] = useState<TryForm>({
+    nights: "4",
+    alloggio_short: ALLOGGIO_SHORT_OPTIONS[0],
+    tipo_iscrizione: "",
+    eta: "",
+    registered_on: "",
+  });
+
+  const nextPriority = useMemo(
+    () => (rules.length > 0 ? Math.max(...rules.map((rule) => rule.priority)) + 10 : 10),
+    [rules]
+  );
+
+  const tryResult = useMemo(() => {
+    const input: FeeRuleInput = {
+      nights: toOptionalNumber(tryForm.nights),
+      alloggio_short: tryForm.alloggio_short || null,
+      tipo_iscrizione: tryForm.tipo_iscrizione || null,
+      eta: toOptionalNumber(tryForm.eta),
+      registered_on: tryForm.registered_on || null,
+    };
+    return evaluateParticipationFee(rules, input);
+  }, [rules, tryForm]);
+
+  useEffect(() => {
+    void loadRules();
+  }, []);
+
+  async function loadRules() {
+    setLoading(true);
+    setError(null);
+
+    try {
+      const res = await fetch("/api/manager/fee-rules", { method: "GET" });
+      const json = (await res.json()) as {
+        rules?: FeeRule[];
+        enrollmentTypes?: string[];
+        error?: string;
+      };
+      if (!res.ok) {
+        setError(json.error ?? "Unable to load fee rules.");
+        return;
+      }
+      setRules(json.rules ?? []);
+      setEnrollmentTypes(json.enrollmentTypes ?? []);
+    } catch {
+      setError("Unable to load fee rules.");
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  async function handleSaveRule(event: FormEvent<HTMLFormElement>) {
+    event.preventDefault();
+    if (!ruleForm) return;
+
+    setBusy(true);
+    setError(null);
+    setSuccess(null);
+
+    try {
+      const res = await fetch("/api/manager/fee-rules", {
+        method: ruleForm.id ? "PATCH" : "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          ...ruleForm,
+          id: ruleForm.id ?? undefined,
+        }),
+      });
+      const json = (await res.json()) as { error?: string };
+      if (!res.ok) {
+        setError(json.error ?? "Unable to save fee rule.");
+        return;
+      }
+
+      setSuccess(ruleForm.id ? "Fee rule updated." : "Fee rule created.");
+      setRuleForm(null);
+      setPreview(null);
+      await loadRules();
+    } catch {
+      setError("Unable to save fee rule.");
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  async function handleDeleteRule(rule: FeeRule) {
+    if (!window.confirm(`Delete fee rule "${rule.label}"?`)) return;
+
+    setBusy(true);
+    setError(null);
+    setSuccess(null);
+
+    try {
+      const res = await fetch("/api/manager/fee-rules", {
+        method: "DELETE",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ id: rule.id }),
+      });
+      const json = (await res.json()) as { error?: string };
+      if (!res.ok) {
+        setError(json.error ?? "Unable to delete fee rule.");
+        return;
+      }
+
+      setSuccess("Fee rule deleted.");
+      setPreview(null);
+      await loadRules();
+    } catch {
+      setError("Unable to delete fee rule.");
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  async function handlePreviewRecalculation() {
+    setBusy(true);
+    setError(null);
+    setSuccess(null);
+
+    try {
+      const res = await fetch("/api/manager/fee-rules/recalculate", { method: "GET" });
+      const json = (await res.json()) as RecalculationPreview & { error?: string };
+      if (!res.ok) {
+        setError(json.error ?? "Unable to preview recalculation.");
+        return;
+      }
+      setPreview(json);
+    } catch {
+      setError("Unable to preview recalculation.");
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  async function handleApplyRecalculation() {
+    if (!preview || preview.changes.length === 0) return;
+    if (!window.confirm(`Update the calculated fee of ${preview.changes.length} participants?`)) {
+      return;
+    }
+
+    setBusy(true);
+    setError(null);
+    setSuccess(null);
+
+    try {
+      const res = await fetch("/api/manager/fee-rules/recalculate", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ participantIds: preview.changes.map((change) => change.id) }),
+      });
+      const json = (await res.json()) as { updated?: number; error?: string };
+      if (!res.ok) {
+        setError(json.error ?? "Unable to apply recalculation.");
+        return;
+      }
+
+      setSuccess(`Recalculated fees for ${json.updated ?? 0} participants.`);
+      setPreview(null);
+    } catch {
+      setError("Unable to apply recalculation.");
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  if (loading && rules.length === 0) {
+    return (
+      <div className="rounded border border-slate-200 bg-white px-4 py-6 text-sm text-slate-500">
+        Loading fee rules...
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      {error && (
+        <div className="rounded border border-red-200 bg-red-50 px-4 py-3 text-sm text-red-700">
+          {error}
+        </div>
+      )}
+      {success && (
+        <div className="rounded border border-emerald-200 bg-emerald-50 px-4 py-3 text-sm text-emerald-700">
+          {success}
+        </div>
+      )}
+
+      <section className="rounded-xl border border-slate-200 bg-white p-4 shadow-sm">
+        <div className="flex flex-wrap items-start justify-between gap-3">
+          <div>
+            <h2 className="text-lg font-semibold text-slate-900">Fee Rules</h2>
+            <p className="mt-1 text-xs text-slate-500">
+              Rules are checked by priority, lowest first. The first active rule whose conditions
+              all match sets the participant fee; empty conditions match everyone. Changes apply to
+              new and edited registrations; use recalculation for existing ones.
+            </p>
+          </div>
+          <button
+            type="button"
+            onClick={() => setRuleForm(emptyRuleForm(nextPriority))}
+            className="rounded bg-indigo-600 px-4 py-2 text-sm font-medium text-white hover:bg-indigo-700"
+          >
+            Add Rule
+          </button>
+        </div>
+
+        <div className="mt-4 overflow-x-auto rounded border border-slate-200">
+          <table className="w-full border-collapse text-left text-sm">
+            <thead className="bg-slate-50 text-slate-700">
+              <tr>
+                <th className="px-4 py-3">Priority</th>
+                <th className="px-4 py-3">Rule</th>
+                <th className="px-4 py-3">Nights</th>
+                <th className="px-4 py-3">Accommodation</th>
+                <th className="px-4 py-3">Enrollment type</th>
+                <th className="px-4 py-3">Age</th>
+                <th className="px-4 py-3">Registered by</th>
+                <th className="px-4 py-3">Amount</th>
+                <th className="px-4 py-3">Actions</th>
+              </tr>
+            </thead>
+            <tbody>
+              {rules.length === 0 ? (
+                <tr>
+                  <td colSpan={9} className="px-4 py-4 text-slate-500">
+                    No fee rules: every participant fee will be empty.
+                  </td>
+                </tr>
+              ) : (
+                rules.map((rule) => (
+                  <tr
+                    key={rule.id}
+                    className={`border-t border-slate-100 ${rule.is_active ? "" : "text-slate-400"}`}
+                  >
+                    <td className="px-4 py-3">{rule.priority}</td>
+                    <td className="px-4 py-3 font-medium">
+                      {rule.label}
+                      {!rule.is_active && <span className="ml-2 text-xs">(inactive)</span>}
+                    </td>
+                    <td className="px-4 py-3">
+                      {describeRange(rule.min_nights, rule.max_nights, "nights")}
+                    </td>
+                    <td className="px-4 py-3">{rule.alloggio_short ?? "any"}</td>
+                    <td className="px-4 py-3">{rule.tipo_iscrizione ?? "any"}</td>
+                    <td className="px-4 py-3">{describeRange(rule.min_age, rule.max_age, "years")}</td>
+                    <td className="px-4 py-3">{rule.registered_until ?? "any date"}</td>
+                    <td className="px-4 py-3 font-medium">{formatCurrency(rule.amount)}</td>
+                    <td className="px-4 py-3">
+                      <div className="flex gap-2">
+                        <button
+                          type="button"
+                          onClick={() => setRuleForm(ruleToForm(rule))}
+                          className="rounded border border-slate-300 px-3 py-1.5 text-xs font-medium text-slate-700 hover:bg-slate-100"
+                        >
+                          Edit
+                        </button>
+                        <button
+                          type="button"
+                          disabled={busy}
+                          onClick={() => void handleDeleteRule(rule)}
+                          className="rounded border border-red-300 px-3 py-1.5 text-xs font-medium text-red-700 hover:bg-red-50"
+                        >
+                          Delete
+                        </button>
+                      </div>
+                    </td>
+                  </tr>
+                ))
+              )}
+            </tbody>
+          </table>
+        </div>
+      </section>
+
+      <section className="rounded-xl border border-slate-200 bg-white p-4 shadow-sm">
+        <h3 className="text-base font-semibold text-slate-900">Try the rules</h3>
+        <div className="mt-3 grid gap-3 md:grid-cols-5">
+          <label className="block text-sm text-slate-700">
+            Nights
+            <input
+              type="number"
+              min="0"
+              value={tryForm.nights}
+              onChange={(e) => setTryForm((prev) => ({ ...prev, nights: e.target.value }))}
+              className="mt-1 w-full rounded border border-slate-300 px-3 py-2 text-sm"
+            />
+          </label>
+          <label className="block text-sm text-slate-700">
+            Accommodation
+            <select
+              value={tryForm.alloggio_short}
+              onChange={(e) => setTryForm((prev) => ({ ...prev, alloggio_short: e.target.value }))}
+              className="mt-1 w-full rounded border border-slate-300 px-3 py-2 text-sm"
+            >
+              {ALLOGGIO_SHORT_OPTIONS.map((option) => (
+                <option key={option} value={option}>
+                  {option}
+                </option>
+              ))}
+            </select>
+          </label>
+          <label className="block text-sm text-slate-700">
+            Enrollment type
+            <select
+              value={tryForm.tipo_iscrizione}
+              onChange={(e) =>
+                setTryForm((prev) => ({ ...prev, tipo_iscrizione: e.target.value }))
+              }
+              className="mt-1 w-full rounded border border-slate-300 px-3 py-2 text-sm"
+            >
+              <option value="">-</option>
+              {enrollmentTypes.map((option) => (
+                <option key={option} value={option}>
+                  {option}
+                </option>
+              ))}
+            </select>
+          </label>
+          <label className="block text-sm text-slate-700">
+            Age
+            <input
+              type="number"
+              min="0"
+              value={tryForm.eta}
+              onChange={(e) => setTryForm((prev) => ({ ...prev, eta: e.target.value }))}
+              className="mt-1 w-full rounded border border-slate-300 px-3 py-2 text-sm"
+            />
+          </label>
+          <label className="block text-sm text-slate-700">
+            Registered on
+            <input
+              type="date"
+              value={tryForm.registered_on}
+              onChange={(e) => setTryForm((prev) => ({ ...prev, registered_on: e.target.value }))}
+              className="mt-1 w-full rounded border border-slate-300 px-3 py-2 text-sm"
+            />
+          </label>
+        </div>
+        <p className="mt-3 text-sm text-slate-700">
+          Fee: <span className="font-semibold">{formatCurrency(tryResult.amount)}</span>
+          <span className="ml-2 text-xs text-slate-500">
+            {tryResult.rule ? `matched "${tryResult.rule.label}"` : "no rule matches"}
+          </span>
+        </p>
+      </section>
+
+      <section className="rounded-xl border border-slate-200 bg-white p-4 shadow-sm">
+        <div className="flex flex-wrap items-center justify-between gap-3">
+          <div>
+            <h3 className="text-base font-semibold text-slate-900">Recalculate all fees</h3>
+            <p className="mt-1 text-xs text-slate-500">
+              Preview which stored fees differ from the current rules, then apply the changes.
+            </p>
+          </div>
+          <div className="flex gap-2">
+            <button
+              type="button"
+              disabled={busy}
+              onClick={() => void handlePreviewRecalculation()}
+              className="rounded border border-slate-300 bg-white px-4 py-2 text-sm font-medium text-slate-700 hover:bg-slate-100 disabled:cursor-not-allowed disabled:opacity-60"
+            >
+              Preview Changes
+            </button>
+            <button
+              type="button"
+              disabled={busy || !preview || preview.changes.length === 0}
+              onClick={() => void handleApplyRecalculation()}
+              className="rounded bg-indigo-600 px-4 py-2 text-sm font-medium text-white hover:bg-indigo-700 disabled:cursor-not-allowed disabled:opacity-60"
+            >
+              Apply {preview?.changes.length ?? 0} Changes
+            </button>
+          </div>
+        </div>
+
+        {preview && (
+          <div className="mt-4 space-y-2">
+            <p className="text-xs text-slate-500">
+              {preview.changes.length} of {preview.totalParticipants} participants would change.
+            </p>
+            <div className="overflow-x-auto rounded border border-slate-200">
+              <table className="w-full border-collapse text-left text-sm">
+                <thead className="bg-slate-50 text-slate-700">
+                  <tr>
+                    <th className="px-4 py-3">Participant</th>
+                    <th className="px-4 py-3">Group</th>
+                    <th className="px-4 py-3">Current fee</th>
+                    <th className="px-4 py-3">New fee</th>
+                    <th className="px-4 py-3">Matched rule</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {preview.changes.length === 0 ? (
+                    <tr>
+                      <td colSpan={5} className="px-4 py-4 text-slate-500">
+                        All stored fees already match the rules.
+                      </td>
+                    </tr>
+                  ) : (
+                    preview.changes.map((change) => (
+                      <tr key={change.id} className="border-t border-slate-100">
+                        <td className="px-4 py-3">
+                          {[change.nome, change.cognome].filter(Boolean).join(" ") || "-"}
+                        </td>
+                        <td className="px-4 py-3">{change.group}</td>
+                        <td className="px-4 py-3 text-slate-500 line-through">
+                          {formatCurrency(change.current_quota)}
+                        </td>
+                        <td className="px-4 py-3 font-medium">{formatCurrency(change.new_quota)}</td>
+                        <td className="px-4 py-3">{change.rule_label ?? "none"}</td>
+                      </tr>
+                    ))
+                  )}
+                </tbody>
+              </table>
+            </div>
+          </div>
+        )}
+      </section>
+
+      {ruleForm && (
+        <div className="fixed inset-0 z-50 flex items-start justify-center overflow-y-auto bg-black/40 px-4 py-8">
+          <form
+            onSubmit={handleSaveRule}
+            className="w-full max-w-2xl space-y-3 rounded-lg border border-slate-200 bg-white p-5 shadow-xl"
+          >
+            <h3 className="text-lg font-semibold text-slate-900">
+              {ruleForm.id ? "Edit Fee Rule" : "Add Fee Rule"}
+            </h3>
+            <div className="grid gap-3 md:grid-cols-3">
+              <label className="block text-sm text-slate-700 md:col-span-3">
+                Label
+                <input
+                  required
+                  value={ruleForm.label}
+                  onChange={(e) => setRuleForm({ ...ruleForm, label: e.target.value })}
+                  className="mt-1 w-full rounded border border-slate-300 px-3 py-2 text-sm"
+                />
+              </label>
+              <label className="block text-sm text-slate-700">
+                Priority
+                <input
+                  required
+                  type="number"
+                  min="0"
+                  value={ruleForm.priority}
+                  onChange={(e) => setRuleForm({ ...ruleForm, priority: e.target.value })}
+                  className="mt-1 w-full rounded border border-slate-300 px-3 py-2 text-sm"
+                />
+              </label>
+              <label className="block text-sm text-slate-700">
+                Amount (EUR)
+                <input
+                  required
+                  type="number"
+                  min="0"
+                  step="0.01"
+                  value={ruleForm.amount}
+                  onChange={(e) => setRuleForm({ ...ruleForm, amount: e.target.value })}
+                  className="mt-1 w-full rounded border border-slate-300 px-3 py-2 text-sm"
+                />
+              </label>
+              <label className="flex items-center gap-2 pt-6 text-sm text-slate-700">
+                <input
+                  type="checkbox"
+                  checked={ruleForm.is_active}
+                  onChange={(e) => setRuleForm({ ...ruleForm, is_active: e.target.checked })}
+                />
+                Active
+              </label>
+              <label className="block text-sm text-slate-700">
+                Min nights
+                <input
+                  type="number"
+                  min="0"
+                  value={ruleForm.min_nights}
+                  onChange={(e) => setRuleForm({ ...ruleForm, min_nights: e.target.value })}
+                  className="mt-1 w-full rounded border border-slate-300 px-3 py-2 text-sm"
+                />
+              </label>
+              <label className="block text-sm text-slate-700">
+                Max nights
+                <input
+                  type="number"
+                  min="0"
+                  value={ruleForm.max_nights}
+                  onChange={(e) => setRuleForm({ ...ruleForm, max_nights: e.target.value })}
+                  className="mt-1 w-full rounded border border-slate-300 px-3 py-2 text-sm"
+                />
+              </label>
+              <label className="block text-sm text-slate-700">
+                Accommodation
+                <select
+                  value={ruleForm.alloggio_short}
+                  onChange={(e) => setRuleForm({ ...ruleForm, alloggio_short: e.target.value })}
+                  className="mt-1 w-full rounded border border-slate-300 px-3 py-2 text-sm"
+                >
+                  <option value="">Any</option>
+                  {ALLOGGIO_SHORT_OPTIONS.map((option) => (
+                    <option key={option} value={option}>
+                      {option}
+                    </option>
+                  ))}
+                </select>
+              </label>
+              <label className="block text-sm text-slate-700">
+                Min age
+                <input
+                  type="number"
+                  min="0"
+                  value={ruleForm.min_age}
+                  onChange={(e) => setRuleForm({ ...ruleForm, min_age: e.target.value })}
+                  className="mt-1 w-full rounded border border-slate-300 px-3 py-2 text-sm"
+                />
+              </label>
+              <label className="block text-sm text-slate-700">
+                Max age
+                <input
+                  type="number"
+                  min="0"
+                  value={ruleForm.max_age}
+                  onChange={(e) => setRuleForm({ ...ruleForm, max_age: e.target.value })}
+                  className="mt-1 w-full rounded border border-slate-300 px-3 py-2 text-sm"
+                />
+              </label>
+              <label className="block text-sm text-slate-700">
+                Registered on or before
+                <input
+                  type="date"
+                  value={ruleForm.registered_until}
+                  onChange={(e) => setRuleForm({ ...ruleForm, registered_until: e.target.value })}
+                  className="mt-1 w-full rounded border border-slate-300 px-3 py-2 text-sm"
+                />
+              </label>
+              <label className="block text-sm text-slate-700 md:col-span-3">
+                Enrollment type contains
+                <input
+                  list="fee-rule-enrollment-types"
+                  value={ruleForm.tipo_iscrizione}
+                  onChange={(e) => setRuleForm({ ...ruleForm, tipo_iscrizione: e.target.value })}
+                  placeholder="Any"
+                  className="mt-1 w-full rounded border border-slate-300 px-3 py-2 text-sm"
+                />
+                <datalist id="fee-rule-enrollment-types">
+                  {enrollmentTypes.map((option) => (
+                    <option key={option} value={option} />
+                  ))}
+                </datalist>
+              </label>
+            </div>
+            <div className="flex justify-end gap-2">
+              <button
+                type="button"
+                onClick={() => setRuleForm(null)}
+                className="rounded border border-slate-300 px-4 py-2 text-sm font-medium text-slate-700 hover:bg-slate-100"
+              >
+                Cancel
+              </button>
+              <button
+                type="submit"
+                disabled={busy}
+                className="rounded bg-indigo-600 px-4 py-2 text-sm font-medium text-white hover:bg-indigo-700 disabled:opacity-60"
+              >
+                Save
+              </button>
+            </div>
+          </form>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,163 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { useI18n } from "@/lib/i18n/provider";
+
+type GroupFees = {
+  group: string;
+  participants: Array<{
+    id: string;
+    nome: string | null;
+    cognome: string | null;
+    quota_totale: number | null;
+    fee_paid: number | null;
+  }>;
+};
+
+function formatCurrency(value: number) {
+  return `EUR ${value.toFixed(2)}`;
+}
+
+export function GroupFeeDocuments() {
+  const { t } = useI18n();
+  const [groups, setGroups] = useState<GroupFees[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [downloadingKey, setDownloadingKey] = useState<string | null>(null);
+
+  useEffect(() => {
+    async function loadGroups() {
+      setLoading(true);
+      setError(null);
+
+      try {
+        const res = await fetch("/api/capogruppo/fee-documents", { method: "GET" });
+        const json = await res.json();
+        if (!res.ok) {
+          setError(json.error ?? t("fees.loadError"));
+          return;
+        }
+        setGroups(Array.isArray(json.groups) ? json.groups : []);
+      } catch {
+        setError(t("fees.loadError"));
+      } finally {
+        setLoading(false);
+      }
+    }
+
+    void loadGroups();
+  }, [t]);
+
+  async function downloadDocument(key: string, query: string) {
+    if (downloadingKey) return;
+
+    setDownloadingKey(key);
+    setError(null);
+
+    try {
+      const res = await fetch(`/api/capogruppo/fee-documents?${query}`, { method: "GET" });
+      if (!res.ok) {
+        const json = await res.json().catch(() => ({}));
+        setError(json.error ?? t("fees.documents.error"));
+        return;
+      }
+
+      const disposition = res.headers.get("Content-Disposition") ?? "";
+      const fileName = disposition.match(/filename="([^"]+)"/)?.[1] ?? "document.pdf";
+      const url = URL.createObjectURL(await res.blob());
+      const link = document.createElement("a");
+      link.href = url;
+      link.download = fileName;
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch {
+      setError(t("fees.documents.error"));
+    } finally {
+      setDownloadingKey(null);
+    }
+  }
+
+  if (loading || groups.length === 0) return null;
+
+  return (
+    <div className="rounded-xl border border-slate-200 bg-white p-6 shadow-sm">
+      <h3 className="text-base font-semibold text-slate-900">{t("fees.documents.title")}</h3>
+      <p className="text-xs text-slate-500">{t("fees.documents.hint")}</p>
+
+      {error && (
+        <p className="mt-3 rounded border border-red-200 bg-red-50 px-3 py-2 text-sm text-red-700">
+          {error}
+        </p>
+      )}
+
+      <div className="mt-4 space-y-4">
+        {groups.map((group) => {
+          const expected = group.participants.reduce((sum, row) => sum + (row.quota_totale ?? 0), 0);
+          const paid = group.participants.reduce((sum, row) => sum + (row.fee_paid ?? 0), 0);
+          return (
+            <div key={group.group} className="rounded border border-slate-200">
+              <div className="flex flex-wrap items-center justify-between gap-3 bg-slate-50 px-4 py-3 text-sm">
+                <span className="font-medium text-slate-900">{group.group}</span>
+                <span className="text-slate-600">
+                  {t("fees.totalExpected")}: {formatCurrency(expected)} · {t("fees.totalPaid")}:{" "}
+                  {formatCurrency(paid)}
+                </span>
+                <button
+                  type="button"
+                  onClick={() =>
+                    void downloadDocument(
+                      `invoice:${group.group}`,
+                      `type=invoice&group=${encodeURIComponent(group.group)}`
+                    )
+                  }
+                  disabled={downloadingKey !== null}
+                  className="rounded border border-indigo-600 bg-indigo-600 px-3 py-1.5 text-xs font-medium text-white disabled:opacity-60"
+                >
+                  {downloadingKey === `invoice:${group.group}`
+                    ? t("fees.documents.downloading")
+                    : t("fees.documents.invoice")}
+                </button>
+              </div>
+              <table className="w-full border-collapse text-left text-sm">
+                <tbody>
+                  {group.participants.map((participant) => (
+                    <tr key={participant.id} className="border-t border-slate-100">
+                      <td className="px-4 py-2">
+                        {[participant.nome, participant.cognome].filter(Boolean).join(" ") || "-"}
+                      </td>
+                      <td className="px-4 py-2">
+                        {participant.quota_totale === null
+                          ? "-"
+                          : formatCurrency(participant.quota_totale)}
+                      </td>
+                      <td className="px-4 py-2">{formatCurrency(participant.fee_paid ?? 0)}</td>
+                      <td className="px-4 py-2 text-right">
+                        {(participant.fee_paid ?? 0) > 0 && (
+                          <button
+                            type="button"
+                            onClick={() =>
+                              void downloadDocument(
+                                `receipt:${participant.id}`,
+                                `type=receipt&participantId=${encodeURIComponent(participant.id)}`
+                              )
+                            }
+                            disabled={downloadingKey !== null}
+                            className="rounded border border-slate-300 px-2 py-1 text-xs text-slate-700 hover:bg-slate-100 disabled:opacity-60"
+                          >
+                            {downloadingKey === `receipt:${participant.id}`
+                              ? t("fees.documents.downloading")
+                              : t("fees.documents.receipt")}
+                          </button>
+                        )}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
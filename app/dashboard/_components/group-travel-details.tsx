@@ -0,0 +1,170 @@
+"use client";
+
+import { Fragment, useEffect, useState } from "react";
+import { useI18n } from "@/lib/i18n/provider";
+import { TRAVEL_DIRECTIONS, type TravelDirection } from "@/lib/travel/logistics";
+import type { TravelDetails } from "@/lib/travel/store";
+import { TravelLegForm } from "./travel-leg-form";
+
+type GroupMember = {
+  id: string;
+  nome: string | null;
+  cognome: string | null;
+  group: string;
+  data_arrivo: string | null;
+  data_partenza: string | null;
+};
+
+export function GroupTravelDetails() {
+  const { t } = useI18n();
+  const [members, setMembers] = useState<GroupMember[]>([]);
+  const [travel, setTravel] = useState<TravelDetails[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [openId, setOpenId] = useState<string | null>(null);
+
+  useEffect(() => {
+    async function loadTravel() {
+      setLoading(true);
+      setError(null);
+
+      try {
+        const res = await fetch("/api/capogruppo/travel", { method: "GET" });
+        const json = await res.json();
+        if (!res.ok) {
+          setError(json.error ?? t("travel.group.loadError"));
+          return;
+        }
+        setMembers(Array.isArray(json.participants) ? json.participants : []);
+        setTravel(Array.isArray(json.travel) ? json.travel : []);
+      } catch {
+        setError(t("travel.group.loadError"));
+      } finally {
+        setLoading(false);
+      }
+    }
+
+    void loadTravel();
+  }, [t]);
+
+  async function save(
+    participantId: string,
+    direction: TravelDirection,
+    details: Record<string, string> | null
+  ) {
+    try {
+      const res = await fetch("/api/capogruppo/travel", {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ participant_id: participantId, direction, details }),
+      });
+      const json = await res.json();
+      if (!res.ok) return json.error ?? t("participant.travel.saveError");
+
+      const saved = json.travel as TravelDetails | null;
+      setTravel((current) => [
+        ...current.filter(
+          (item) => item.participantId !== participantId || item.direction !== direction
+        ),
+        ...(saved ? [saved] : []),
+      ]);
+      return null;
+    } catch {
+      return t("participant.travel.saveError");
+    }
+  }
+
+  function summary(participantId: string, direction: TravelDirection) {
+    const leg = travel.find(
+      (item) => item.participantId === participantId && item.direction === direction
+    );
+    if (!leg) return <span className="text-amber-700">{t("participant.travel.notEntered")}</span>;
+    return (
+      <span>
+        {[t(`participant.travel.mode.${leg.mode}`), leg.reference, leg.time, leg.location]
+          .filter(Boolean)
+          .join(" · ")}
+        {leg.shuttle ? (
+          <span className="ml-2 rounded bg-emerald-50 px-1.5 py-0.5 text-xs text-emerald-700">
+            {t("travel.group.shuttle", { time: leg.shuttle.departure_time })}
+          </span>
+        ) : null}
+      </span>
+    );
+  }
+
+  if (loading || members.length === 0) return null;
+
+  return (
+    <div className="rounded-xl border border-slate-200 bg-white p-6 shadow-sm">
+      <h3 className="text-base font-semibold text-slate-900">{t("travel.group.title")}</h3>
+      <p className="text-xs text-slate-500">{t("travel.group.hint")}</p>
+
+      {error && (
+        <p className="mt-3 rounded border border-red-200 bg-red-50 px-3 py-2 text-sm text-red-700">
+          {error}
+        </p>
+      )}
+
+      <div className="mt-4 overflow-x-auto">
+        <table className="w-full border-collapse text-left text-sm">
+          <thead>
+            <tr className="bg-slate-50 text-xs uppercase text-slate-500">
+              <th className="px-4 py-2">{t("travel.group.participant")}</th>
+              <th className="px-4 py-2">{t("participant.travel.arrival")}</th>
+              <th className="px-4 py-2">{t("participant.travel.departure")}</th>
+              <th className="px-4 py-2" />
+            </tr>
+          </thead>
+          <tbody>
+            {members.map((member) => (
+              <Fragment key={member.id}>
+                <tr className="border-t border-slate-100">
+                  <td className="px-4 py-2">
+                    <div className="font-medium text-slate-900">
+                      {[member.nome, member.cognome].filter(Boolean).join(" ") || "-"}
+                    </div>
+                    <div className="text-xs text-slate-500">{member.group}</div>
+                  </td>
+                  <td className="px-4 py-2">{summary(member.id, "arrival")}</td>
+                  <td className="px-4 py-2">{summary(member.id, "departure")}</td>
+                  <td className="px-4 py-2 text-right">
+                    <button
+                      type="button"
+                      onClick={() => setOpenId((current) => (current === member.id ? null : member.id))}
+                      className="rounded border border-slate-300 px-2 py-1 text-xs text-slate-700 hover:bg-slate-100"
+                    >
+                      {openId === member.id ? t("common.close") : t("common.edit")}
+                    </button>
+                  </td>
+                </tr>
+                {openId === member.id ? (
+                  <tr className="border-t border-slate-100 bg-slate-50">
+                    <td colSpan={4} className="px-4 py-4">
+                      <div className="grid gap-6 md:grid-cols-2">
+                        {TRAVEL_DIRECTIONS.map((direction) => (
+                          <TravelLegForm
+                            key={direction}
+                            direction={direction}
+                            date={direction === "arrival" ? member.data_arrivo : member.data_partenza}
+                            value={
+                              travel.find(
+                                (item) =>
+                                  item.participantId === member.id && item.direction === direction
+                              ) ?? null
+                            }
+                            onSave={(details) => save(member.id, direction, details)}
+                          />
+                        ))}
+                      </div>
+                    </td>
+                  </tr>
+                ) : null}
+              </Fragment>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
@@ -2,7 +2,13 @@ import Link from "next/link";
 import { notFound } from "next/navigation";
 import { createSupabaseServerClient } from "@/lib/supabase/server";
 import { createSupabaseServiceClient } from "@/lib/supabase/service";
+import { loadCampaignDelivery } from "@/lib/email/campaign-queue";
+import { loadInboundMessages, type InboundMessageRow } from "@/lib/email/mailbox-poller";
+import { loadCampaignTracking, type CampaignTracking } from "@/lib/email/campaign-tracking";
+import { EmailSendLogDeliveryStatus } from "./email-send-log-delivery-status";
+import { EmailSendLogInboundMessages } from "./email-send-log-inbound-messages";
 import { EmailSendLogRecipientList } from "./email-send-log-recipient-list";
+import { EmailSendLogTracking } from "./email-send-log-tracking";
 
 type EmailSendLogRow = {
   id: string;
@@ -12,10 +18,6 @@ type EmailSendLogRow = {
   recipient_count: number;
 };
 
-type EmailSendLogRecipientRow = {
-  recipient_id: string;
-};
-
 type ManagerAdminEmailSendLogDetailPageProps = {
   basePath: "/dashboard/manager/email-campaigns" | "/dashboard/admin/email-campaigns";
   logId: string;
@@ -105,23 +107,44 @@ export async function ManagerAdminEmailSendLogDetailPage({
     notFound();
   }
 
-  const { data: recipients, error: recipientsError } = await service
-    .from("email_send_log_recipients")
-    .select("recipient_id")
-    .eq("send_log_id", trimmedLogId)
-    .order("recipient_id", { ascending: true });
-
-  if (recipientsError) {
+  let delivery: Awaited<ReturnType<typeof loadCampaignDelivery>>;
+  try {
+    delivery = await loadCampaignDelivery(service, trimmedLogId);
+  } catch (deliveryError) {
     return (
       <section className="rounded border border-red-200 bg-red-50 p-6">
         <h2 className="text-xl font-bold text-red-800">Email send log</h2>
-        <p className="mt-2 text-sm text-red-700">{recipientsError.message}</p>
+        <p className="mt-2 text-sm text-red-700">
+          {deliveryError instanceof Error ? deliveryError.message : "Unable to load recipients"}
+        </p>
       </section>
     );
   }
 
+  if (!delivery) {
+    notFound();
+  }
+
+  // Bounces, replies and tracking are secondary: a failure here only affects their section.
+  let inboundMessages: InboundMessageRow[] = [];
+  let inboundError: string | null = null;
+  try {
+    inboundMessages = await loadInboundMessages(service, trimmedLogId);
+  } catch (loadError) {
+    inboundError =
+      loadError instanceof Error ? loadError.message : "Unable to load bounces and replies";
+  }
+
+  let tracking: CampaignTracking | null = null;
+  let trackingError: string | null = null;
+  try {
+    tracking = await loadCampaignTracking(service, trimmedLogId);
+  } catch (loadError) {
+    trackingError =
+      loadError instanceof Error ? loadError.message : "Unable to load opens and clicks";
+  }
+
   const logRow = log as EmailSendLogRow;
-  const recipientRows = (recipients ?? []) as EmailSendLogRecipientRow[];
   const readableBody = htmlToReadableText(logRow.body_content);
 
   return (
@@ -131,7 +154,8 @@ export async function ManagerAdminEmailSendLogDetailPage({
           <div>
             <h2 className="text-xl font-bold text-slate-900">Email send detail</h2>
             <p className="mt-2 text-sm text-slate-500">
-              Sent on {formatSentAt(logRow.sent_at)} to {logRow.recipient_count} recipient(s).
+              {delivery.status === "scheduled" ? "Scheduled for" : "Sent on"}{" "}
+              {formatSentAt(logRow.sent_at)} to {logRow.recipient_count} recipient(s).
             </p>
           </div>
           <Link
@@ -146,6 +170,11 @@ export async function ManagerAdminEmailSendLogDetailPage({
       <section className="rounded-xl border border-slate-200 bg-white p-6 shadow-sm">
         <h3 className="text-sm font-semibold uppercase tracking-wide text-slate-500">Subject</h3>
         <p className="mt-2 text-base text-slate-900">{logRow.subject}</p>
+        {tracking?.subjectB ? (
+          <p className="mt-1 text-base text-slate-900">
+            <span className="text-sm text-slate-500">B:</span> {tracking.subjectB}
+          </p>
+        ) : null}
       </section>
 
       <section className="rounded-xl border border-slate-200 bg-white p-6 shadow-sm">
@@ -155,7 +184,15 @@ export async function ManagerAdminEmailSendLogDetailPage({
         <pre className="mt-3 whitespace-pre-wrap text-sm text-slate-800">{readableBody}</pre>
       </section>
 
-      <EmailSendLogRecipientList recipientIds={recipientRows.map((row) => row.recipient_id)} />
+      <EmailSendLogDeliveryStatus initialDelivery={delivery} />
+
+      <EmailSendLogTracking tracking={tracking} error={trackingError} />
+
+      <EmailSendLogInboundMessages messages={inboundMessages} error={inboundError} />
+
+      <EmailSendLogRecipientList
+        recipientIds={delivery.recipients.map((recipient) => recipient.recipient_id)}
+      />
     </section>
   );
 }
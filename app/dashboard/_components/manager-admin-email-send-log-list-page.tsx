@@ -7,12 +7,20 @@ type EmailSendLogListRow = {
   sent_at: string;
   subject: string;
   recipient_count: number;
+  status: string;
 };
 
 type ManagerAdminEmailSendLogListPageProps = {
   basePath: "/dashboard/manager/email-campaigns" | "/dashboard/admin/email-campaigns";
 };
 
+const STATUS_LABELS: Record<string, string> = {
+  scheduled: "Scheduled",
+  sending: "Sending",
+  completed: "Completed",
+  cancelled: "Cancelled",
+};
+
 function formatSentAt(value: string): string {
   const date = new Date(value);
   if (Number.isNaN(date.getTime())) return value;
@@ -61,7 +69,7 @@ export async function ManagerAdminEmailSendLogListPage({
 
   const { data, error } = await service
     .from("email_send_logs")
-    .select("id,sent_at,subject,recipient_count")
+    .select("id,sent_at,subject,recipient_count,status")
     .order("sent_at", { ascending: false });
 
   if (error) {
@@ -101,23 +109,25 @@ export async function ManagerAdminEmailSendLogListPage({
         </section>
       ) : (
         <section className="overflow-hidden rounded-xl border border-slate-200 bg-white shadow-sm">
-          <div className="grid grid-cols-[minmax(0,220px)_minmax(0,1fr)_120px] gap-4 border-b border-slate-200 bg-slate-50 px-4 py-3 text-xs font-semibold uppercase tracking-wide text-slate-600">
-            <span>Sent at</span>
+          <div className="grid grid-cols-[minmax(0,220px)_minmax(0,1fr)_120px_120px] gap-4 border-b border-slate-200 bg-slate-50 px-4 py-3 text-xs font-semibold uppercase tracking-wide text-slate-600">
+            <span>Sent / scheduled at</span>
             <span>Subject</span>
             <span>Recipients</span>
+            <span>Status</span>
           </div>
           <ul className="divide-y divide-slate-200">
             {rows.map((row) => (
               <li key={row.id}>
                 <Link
                   href={`${detailBasePath}/${row.id}`}
-                  className="grid grid-cols-[minmax(0,220px)_minmax(0,1fr)_120px] gap-4 px-4 py-3 text-sm text-slate-700 transition-colors hover:bg-slate-50 focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-indigo-500 focus-visible:ring-offset-2"
+                  className="grid grid-cols-[minmax(0,220px)_minmax(0,1fr)_120px_120px] gap-4 px-4 py-3 text-sm text-slate-700 transition-colors hover:bg-slate-50 focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-indigo-500 focus-visible:ring-offset-2"
                 >
                   <span>{formatSentAt(row.sent_at)}</span>
                   <span className="truncate" title={row.subject}>
                     {row.subject}
                   </span>
                   <span>{row.recipient_count}</span>
+                  <span>{STATUS_LABELS[row.status] ?? row.status}</span>
                 </Link>
               </li>
             ))}
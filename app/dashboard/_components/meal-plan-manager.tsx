@@ -0,0 +1,285 @@
+"use client";
+
+import { useCallback, useEffect, useMemo, useState } from "react";
+import {
+  DIET_CATEGORIES,
+  DIET_LABELS,
+  MEAL_KINDS,
+  MEAL_LABELS,
+  type MealKind,
+  type MealPlanRow,
+} from "@/lib/catering/meal-plan";
+
+type MealPlanResponse = {
+  plan?: MealPlanRow[];
+  error?: string;
+};
+
+function formatDay(value: string) {
+  return new Date(`${value}T00:00:00Z`).toLocaleDateString("en-GB", {
+    weekday: "short",
+    day: "numeric",
+    month: "short",
+    timeZone: "UTC",
+  });
+}
+
+export function MealPlanManager() {
+  const [plan, setPlan] = useState<MealPlanRow[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [from, setFrom] = useState("");
+  const [to, setTo] = useState("");
+  const [meals, setMeals] = useState<MealKind[]>([...MEAL_KINDS]);
+
+  const load = useCallback(async () => {
+    try {
+      const res = await fetch("/api/manager/meal-plan", { cache: "no-store" });
+      const json = (await res.json()) as MealPlanResponse;
+      if (!res.ok) {
+        setError(json.error ?? "Unable to load meal plan.");
+        return;
+      }
+      setPlan(json.plan ?? []);
+    } catch {
+      setError("Unable to load meal plan.");
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    void load();
+  }, [load]);
+
+  const days = useMemo(() => {
+    const byDay = new Map<string, MealPlanRow[]>();
+    for (const row of plan) {
+      byDay.set(row.slot.service_date, [...(byDay.get(row.slot.service_date) ?? []), row]);
+    }
+    return [...byDay.entries()];
+  }, [plan]);
+
+  function toggleMeal(meal: MealKind) {
+    setMeals((current) =>
+      current.includes(meal) ? current.filter((value) => value !== meal) : [...current, meal]
+    );
+  }
+
+  async function addSlots() {
+    setSaving(true);
+    setError(null);
+    try {
+      const res = await fetch("/api/manager/meal-plan", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ from, to: to || from, meals }),
+      });
+      const json = (await res.json()) as { error?: string };
+      if (!res.ok) {
+        setError(json.error ?? "Unable to add meal slots.");
+        return;
+      }
+      await load();
+    } catch {
+      setError("Unable to add meal slots.");
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  async function removeSlot(row: MealPlanRow) {
+    const label = `${MEAL_LABELS[row.slot.meal]} on ${formatDay(row.slot.service_date)}`;
+    if (!window.confirm(`Remove ${label} from the meal plan?`)) return;
+    setError(null);
+    try {
+      const res = await fetch(`/api/manager/meal-plan?id=${encodeURIComponent(row.slot.id)}`, {
+        method: "DELETE",
+      });
+      const json = (await res.json()) as { error?: string };
+      if (!res.ok) {
+        setError(json.error ?? "Unable to remove meal slot.");
+        return;
+      }
+      setPlan((current) => current.filter((item) => item.slot.id !== row.slot.id));
+    } catch {
+      setError("Unable to remove meal slot.");
+    }
+  }
+
+  return (
+    <div className="space-y-4">
+      {error && (
+        <div className="rounded border border-red-200 bg-red-50 px-4 py-3 text-sm text-red-700">
+          {error}
+        </div>
+      )}
+
+      <section className="rounded-xl border border-slate-200 bg-white p-4 shadow-sm">
+        <h2 className="text-lg font-semibold text-slate-900">Meal planning</h2>
+        <p className="mt-1 text-xs text-slate-500">
+          Expected covers for each meal served, from confirmed participants. A participant counts
+          for the meals between arrival and departure, or for the days marked in their presence
+          answers when they do not attend the whole event. Each cover is counted under one diet
+          (vegan before vegetarian before no pork); allergies are listed by name.
+        </p>
+
+        <div className="mt-4 flex flex-wrap items-end gap-3">
+          <label className="flex flex-col gap-1 text-xs text-slate-600">
+            From
+            <input
+              type="date"
+              value={from}
+              onChange={(e) => setFrom(e.target.value)}
+              className="rounded border border-slate-300 px-3 py-2 text-sm"
+            />
+          </label>
+          <label className="flex flex-col gap-1 text-xs text-slate-600">
+            To
+            <input
+              type="date"
+              value={to}
+              min={from || undefined}
+              onChange={(e) => setTo(e.target.value)}
+              className="rounded border border-slate-300 px-3 py-2 text-sm"
+            />
+          </label>
+          <div className="flex items-center gap-3 pb-2">
+            {MEAL_KINDS.map((meal) => (
+              <label key={meal} className="flex items-center gap-1 text-sm text-slate-700">
+                <input
+                  type="checkbox"
+                  checked={meals.includes(meal)}
+                  onChange={() => toggleMeal(meal)}
+                />
+                {MEAL_LABELS[meal]}
+              </label>
+            ))}
+          </div>
+          <button
+            type="button"
+            onClick={() => void addSlots()}
+            disabled={saving || !from || meals.length === 0}
+            className="rounded bg-indigo-600 px-4 py-2 text-sm font-medium text-white hover:bg-indigo-700 disabled:opacity-50"
+          >
+            {saving ? "Adding..." : "Add meal slots"}
+          </button>
+        </div>
+      </section>
+
+      <section className="rounded-xl border border-slate-200 bg-white p-4 shadow-sm">
+        <div className="flex flex-wrap items-center justify-between gap-3">
+          <h3 className="text-sm font-semibold text-slate-900">Covers per meal</h3>
+          {plan.length > 0 ? (
+            <div className="flex gap-2">
+              <a
+                href="/api/manager/meal-plan?format=csv"
+                className="rounded border border-slate-300 px-3 py-1.5 text-xs font-medium text-slate-700 hover:bg-slate-100"
+              >
+                Export CSV
+              </a>
+              <a
+                href="/api/manager/meal-plan?format=pdf"
+                className="rounded border border-slate-300 px-3 py-1.5 text-xs font-medium text-slate-700 hover:bg-slate-100"
+              >
+                Kitchen sheets (all days)
+              </a>
+            </div>
+          ) : null}
+        </div>
+
+        {loading ? (
+          <p className="mt-4 text-sm text-slate-500">Loading meal plan...</p>
+        ) : plan.length === 0 ? (
+          <p className="mt-4 text-sm text-slate-500">
+            No meal slots yet. Add the days and meals the catering serves.
+          </p>
+        ) : (
+          <div className="mt-4 overflow-x-auto rounded border border-slate-200">
+            <table className="w-full border-collapse text-left text-sm">
+              <thead className="bg-slate-50 text-slate-700">
+                <tr>
+                  <th className="px-4 py-3">Day</th>
+                  <th className="px-4 py-3">Meal</th>
+                  <th className="px-4 py-3 text-right">Covers</th>
+                  {DIET_CATEGORIES.map((diet) => (
+                    <th key={diet} className="px-4 py-3 text-right">
+                      {DIET_LABELS[diet]}
+                    </th>
+                  ))}
+                  <th className="px-4 py-3">Allergies</th>
+                  <th className="px-4 py-3" />
+                </tr>
+              </thead>
+              <tbody>
+                {days.map(([day, rows]) =>
+                  rows.map((row, index) => (
+                    <tr key={row.slot.id} className="border-t border-slate-100 align-top">
+                      <td className="px-4 py-3 whitespace-nowrap">
+                        {index === 0 ? (
+                          <div className="flex flex-col gap-1">
+                            <span className="font-medium">{formatDay(day)}</span>
+                            <a
+                              href={`/api/manager/meal-plan?format=pdf&date=${day}`}
+                              className="text-xs text-indigo-600 hover:underline"
+                            >
+                              Kitchen sheet
+                            </a>
+                          </div>
+                        ) : null}
+                      </td>
+                      <td className="px-4 py-3">{MEAL_LABELS[row.slot.meal]}</td>
+                      <td className="px-4 py-3 text-right font-semibold">
+                        {row.covers}
+                        {row.maybe > 0 ? (
+                          <span className="block text-xs font-normal text-amber-700">
+                            {row.maybe} maybe
+                          </span>
+                        ) : null}
+                      </td>
+                      {DIET_CATEGORIES.map((diet) => (
+                        <td key={diet} className="px-4 py-3 text-right">
+                          {row.diets[diet] || "-"}
+                        </td>
+                      ))}
+                      <td className="px-4 py-3">
+                        {row.allergies.length === 0 ? (
+                          "-"
+                        ) : (
+                          <details>
+                            <summary className="cursor-pointer text-red-700">
+                              {row.allergies.length} participant
+                              {row.allergies.length === 1 ? "" : "s"}
+                            </summary>
+                            <ul className="mt-2 space-y-1 text-xs text-slate-700">
+                              {row.allergies.map((entry) => (
+                                <li key={entry.participantId}>
+                                  <span className="font-medium">{entry.name}</span>
+                                  {entry.group ? ` (${entry.group})` : ""}: {entry.allergy}
+                                </li>
+                              ))}
+                            </ul>
+                          </details>
+                        )}
+                      </td>
+                      <td className="px-4 py-3 text-right">
+                        <button
+                          type="button"
+                          onClick={() => void removeSlot(row)}
+                          className="rounded border border-slate-300 px-3 py-1.5 text-xs font-medium text-slate-700 hover:bg-slate-100"
+                        >
+                          Remove
+                        </button>
+                      </td>
+                    </tr>
+                  ))
+                )}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </section>
+    </div>
+  );
+}
@@ -0,0 +1,194 @@
+"use client";
+
+import { useEffect, useState, type FormEvent } from "react";
+import { useI18n } from "@/lib/i18n/provider";
+
+type OrganizationSettings = {
+  name: string;
+  legal_name: string;
+  address: string;
+  tax_id: string;
+  email: string;
+  phone: string;
+  website: string;
+  bank_details: string;
+  receipt_prefix: string;
+  invoice_prefix: string;
+  visa_letter_prefix: string;
+  signatory_name: string;
+  signatory_role: string;
+  document_footer: string;
+};
+
+const EMPTY_SETTINGS: OrganizationSettings = {
+  name: "",
+  legal_name: "",
+  address: "",
+  tax_id: "",
+  email: "",
+  phone: "",
+  website: "",
+  bank_details: "",
+  receipt_prefix: "R",
+  invoice_prefix: "INV",
+  visa_letter_prefix: "VL",
+  signatory_name: "",
+  signatory_role: "",
+  document_footer: "",
+};
+
+const TEXT_FIELDS: Array<{ key: keyof OrganizationSettings; labelKey: string }> = [
+  { key: "name", labelKey: "fees.documents.settings.name" },
+  { key: "legal_name", labelKey: "fees.documents.settings.legalName" },
+  { key: "tax_id", labelKey: "fees.documents.settings.taxId" },
+  { key: "email", labelKey: "fees.documents.settings.email" },
+  { key: "phone", labelKey: "fees.documents.settings.phone" },
+  { key: "website", labelKey: "fees.documents.settings.website" },
+  { key: "receipt_prefix", labelKey: "fees.documents.settings.receiptPrefix" },
+  { key: "invoice_prefix", labelKey: "fees.documents.settings.invoicePrefix" },
+  { key: "visa_letter_prefix", labelKey: "fees.documents.settings.visaLetterPrefix" },
+  { key: "signatory_name", labelKey: "fees.documents.settings.signatoryName" },
+  { key: "signatory_role", labelKey: "fees.documents.settings.signatoryRole" },
+];
+
+const TEXTAREA_FIELDS: Array<{ key: keyof OrganizationSettings; labelKey: string }> = [
+  { key: "address", labelKey: "fees.documents.settings.address" },
+  { key: "bank_details", labelKey: "fees.documents.settings.bankDetails" },
+  { key: "document_footer", labelKey: "fees.documents.settings.footer" },
+];
+
+function toForm(value: Record<string, unknown>): OrganizationSettings {
+  const next = { ...EMPTY_SETTINGS };
+  for (const key of Object.keys(EMPTY_SETTINGS) as Array<keyof OrganizationSettings>) {
+    if (typeof value[key] === "string") next[key] = value[key] as string;
+  }
+  return next;
+}
+
+export function OrganizationSettingsForm() {
+  const { t } = useI18n();
+  const [open, setOpen] = useState(false);
+  const [form, setForm] = useState<OrganizationSettings>(EMPTY_SETTINGS);
+  const [loaded, setLoaded] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [success, setSuccess] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!open || loaded) return;
+
+    async function loadSettings() {
+      try {
+        const res = await fetch("/api/manager/organization-settings", { method: "GET" });
+        const json = await res.json();
+        if (!res.ok) {
+          setError(json.error ?? t("fees.documents.settings.loadError"));
+          return;
+        }
+        setForm(toForm(json.settings ?? {}));
+        setLoaded(true);
+      } catch {
+        setError(t("fees.documents.settings.loadError"));
+      }
+    }
+
+    void loadSettings();
+  }, [loaded, open, t]);
+
+  async function handleSubmit(event: FormEvent) {
+    event.preventDefault();
+    if (saving) return;
+
+    setSaving(true);
+    setError(null);
+    setSuccess(null);
+
+    try {
+      const res = await fetch("/api/manager/organization-settings", {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(form),
+      });
+      const json = await res.json();
+      if (!res.ok) {
+        setError(json.error ?? t("fees.documents.settings.saveError"));
+        return;
+      }
+      setForm(toForm(json.settings ?? {}));
+      setSuccess(t("fees.documents.settings.saveSuccess"));
+    } catch {
+      setError(t("fees.documents.settings.saveError"));
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  return (
+    <div className="rounded-xl border border-slate-200 bg-white p-6 shadow-sm">
+      <div className="flex items-center justify-between gap-3">
+        <div>
+          <h3 className="text-base font-semibold text-slate-900">
+            {t("fees.documents.settings.title")}
+          </h3>
+          <p className="text-xs text-slate-500">{t("fees.documents.settings.hint")}</p>
+        </div>
+        <button
+          type="button"
+          onClick={() => setOpen((prev) => !prev)}
+          className="rounded border border-slate-300 px-3 py-2 text-sm text-slate-700 hover:bg-slate-100"
+        >
+          {open ? t("common.close") : t("common.edit")}
+        </button>
+      </div>
+
+      {open && (
+        <form onSubmit={handleSubmit} className="mt-4 space-y-3">
+          {error && (
+            <p className="rounded border border-red-200 bg-red-50 px-3 py-2 text-sm text-red-700">
+              {error}
+            </p>
+          )}
+          {success && (
+            <p className="rounded border border-emerald-200 bg-emerald-50 px-3 py-2 text-sm text-emerald-700">
+              {success}
+            </p>
+          )}
+
+          <div className="grid gap-3 sm:grid-cols-2">
+            {TEXT_FIELDS.map((field) => (
+              <label key={field.key} className="text-sm text-slate-700">
+                {t(field.labelKey)}
+                <input
+                  value={form[field.key]}
+                  onChange={(e) => setForm((prev) => ({ ...prev, [field.key]: e.target.value }))}
+                  className="mt-1 w-full rounded border border-slate-300 px-2 py-1.5 text-sm"
+                />
+              </label>
+            ))}
+            {TEXTAREA_FIELDS.map((field) => (
+              <label key={field.key} className="text-sm text-slate-700 sm:col-span-2">
+                {t(field.labelKey)}
+                <textarea
+                  value={form[field.key]}
+                  onChange={(e) => setForm((prev) => ({ ...prev, [field.key]: e.target.value }))}
+                  rows={2}
+                  className="mt-1 w-full rounded border border-slate-300 px-2 py-1.5 text-sm"
+                />
+              </label>
+            ))}
+          </div>
+
+          <div className="flex justify-end">
+            <button
+              type="submit"
+              disabled={saving || !loaded}
+              className="rounded border border-indigo-600 bg-indigo-600 px-3 py-2 text-sm font-medium text-white disabled:cursor-not-allowed disabled:opacity-60"
+            >
+              {saving ? t("participant.form.saving") : t("common.save")}
+            </button>
+          </div>
+        </form>
+      )}
+    </div>
+  );
+}
@@ -9,27 +9,44 @@ import { EditorContent, useEditor } from "@tiptap/react";
 import StarterKit from "@tiptap/starter-kit";
 import {
   PARTICIPANT_TEMPLATE_FIELDS,
-  renderParticipantTemplateHtml,
-  renderParticipantTemplateText,
   type ParticipantTemplateData,
 } from "@/lib/email/participant-template";
 import {
+  GROUP_LEADER_MEMBER_FIELDS,
   GROUP_LEADER_TEMPLATE_FIELDS,
-  renderGroupLeaderTemplateHtml,
-  renderGroupLeaderTemplateText,
   type GroupLeaderTemplateData,
 } from "@/lib/email/group-leader-template";
+import {
+  validateCampaignTemplates,
+  validateGeneratedAttachmentTemplates,
+} from "@/lib/email/campaign-recipients";
+import type { GeneratedAttachment } from "@/lib/email/generated-attachments";
+import {
+  EMAIL_CATEGORIES,
+  EMAIL_CATEGORY_LABELS,
+  NEWSLETTER_OPT_OUT_REASON,
+  type EmailCategory,
+} from "@/lib/email/email-category";
+import {
+  TRANSLATION_LOCALES,
+  type LocalizedTemplate,
+  type TemplateContent,
+  type TemplateVariants,
+} from "@/lib/email/template-variants";
+import { DEFAULT_LOCALE, LOCALE_LABELS, isSupportedLocale, type Locale } from "@/lib/i18n";
 import {
   excludeRecipientsById,
   isRecipientIdExcluded,
   parseRecipientIdsFromText,
 } from "@/lib/email/recipient-id-utils";
+import { EmailGeneratedAttachments } from "./email-generated-attachments";
 
 type RecipientType = "participants" | "group_leaders";
 
-type Participant = ParticipantTemplateData;
+// email_bounced: the current address hard-bounced, so sends to it are skipped.
+type Participant = ParticipantTemplateData & { email_bounced?: boolean };
 
-type GroupLeader = GroupLeaderTemplateData;
+type GroupLeader = GroupLeaderTemplateData & { email_bounced?: boolean };
 
 type ParticipantSortKey =
   | "group"
@@ -60,9 +77,17 @@ type EmailTemplate = {
   name: string;
   subject: string;
   html: string;
+  variants: TemplateVariants;
   updatedAt: string;
 };
 
+type RenderedPreview = {
+  subject: string;
+  html: string;
+  locale: Locale;
+  recipientLocale: Locale;
+};
+
 type ComposerAttachment = {
   id: string;
   filename: string;
@@ -95,9 +120,23 @@ const SAFE_PREVIEW_TAGS = new Set([
   "pre",
   "span",
   "strong",
+  "table",
+  "tbody",
+  "td",
+  "th",
+  "thead",
+  "tr",
   "u",
   "ul",
 ]);
+const TEMPLATE_SYNTAX_HELP = [
+  { label: "Only if true", token: "{{#if is_minorenne}}...{{/if}}" },
+  { label: "Only if false", token: "{{#unless is_minorenne}}...{{/unless}}" },
+  { label: "Compare a value", token: '{{#if alloggio == "Hotel"}}...{{else}}...{{/if}}' },
+  { label: "Date in the recipient's language", token: "{{data_arrivo | date}}" },
+  { label: "Amount in euro", token: "{{quota_totale | currency:EUR}}" },
+  { label: "Fallback text", token: '{{allergie | default:"none"}}' },
+];
 
 function safeLower(value: string | null): string {
   return (value ?? "").toLowerCase();
@@ -260,14 +299,32 @@ export function ParticipantEmailCampaign() {
   const [sending, setSending] = useState(false);
   const [sendError, setSendError] = useState<string | null>(null);
   const [sendResult, setSendResult] = useState<string | null>(null);
+  const [sendResultLogId, setSendResultLogId] = useState<string | null>(null);
+  const [scheduleLater, setScheduleLater] = useState(false);
+  const [category, setCategory] = useState<EmailCategory>("operational");
+  // Lowercased addresses that unsubscribed from newsletters.
+  const [newsletterOptOuts, setNewsletterOptOuts] = useState<Set<string>>(new Set());
+  const [scheduledFor, setScheduledFor] = useState("");
+  const [trackOpens, setTrackOpens] = useState(false);
+  const [trackClicks, setTrackClicks] = useState(false);
+  const [abTest, setAbTest] = useState(false);
+  const [subjectB, setSubjectB] = useState("");
   const [showPreview, setShowPreview] = useState(false);
+  const [preview, setPreview] = useState<RenderedPreview | null>(null);
+  const [previewLoading, setPreviewLoading] = useState(false);
+  // "" previews each recipient in their own preferred language.
+  const [previewLocale, setPreviewLocale] = useState<Locale | "">("");
+  // subject/bodyHtml hold the language being edited; the other languages wait here.
+  const [editingLocale, setEditingLocale] = useState<Locale>(DEFAULT_LOCALE);
+  const [localeDrafts, setLocaleDrafts] = useState<Partial<Record<Locale, TemplateContent>>>({});
   const [attachments, setAttachments] = useState<ComposerAttachment[]>([]);
+  const [generatedAttachments, setGeneratedAttachments] = useState<GeneratedAttachment[]>([]);
 
   const [savedTemplates, setSavedTemplates] = useState<EmailTemplate[]>([]);
   const [templatesLoading, setTemplatesLoading] = useState(true);
-  const sendLogHref = pathname.startsWith("/dashboard/admin")
-    ? "/dashboard/admin/email-campaigns/send-log"
-    : "/dashboard/manager/email-campaigns/send-log";
+  const campaignsPath = pathname.startsWith("/dashboard/admin")
+    ? "/dashboard/admin/email-campaigns"
+    : "/dashboard/manager/email-campaigns";
 
   useEffect(() => {
     async function loadParticipants() {
@@ -315,6 +372,21 @@ export function ParticipantEmailCampaign() {
     loadGroupLeaders();
   }, []);
 
+  useEffect(() => {
+    async function loadNewsletterOptOuts() {
+      try {
+        const res = await fetch("/api/manager/email-preferences");
+        const json = (await res.json()) as { newsletterOptOuts?: string[] };
+        // The send itself always re-checks opt-outs; this only drives the skipped count.
+        if (res.ok) setNewsletterOptOuts(new Set(json.newsletterOptOuts ?? []));
+      } catch {
+        setNewsletterOptOuts(new Set());
+      }
+    }
+
+    loadNewsletterOptOuts();
+  }, []);
+
   useEffect(() => {
     async function loadTemplates() {
       setTemplatesLoading(true);
@@ -531,25 +603,64 @@ export function ParticipantEmailCampaign() {
   const selectedRecipients =
     activeRecipientType === "participants" ? selectedParticipants : selectedGroupLeaders;
 
+  const optedOutSelectedCount =
+    category === "newsletter"
+      ? selectedRecipientsWithEmail.filter((recipient) =>
+          newsletterOptOuts.has((recipient.email ?? "").trim().toLowerCase())
+        ).length
+      : 0;
+
+  const bouncedSelectedCount = selectedRecipientsWithEmail.filter(
+    (recipient) => recipient.email_bounced
+  ).length;
+
   const previewRecipient = selectedRecipientsWithEmail[0] ?? selectedRecipients[0] ?? null;
 
-  const previewHtml =
-    previewRecipient == null
-      ? ""
-      : activeRecipientType === "participants"
-        ? renderParticipantTemplateHtml(bodyHtml, previewRecipient as Participant)
-        : renderGroupLeaderTemplateHtml(bodyHtml, previewRecipient as GroupLeader);
+  const localizedTemplate = useMemo<LocalizedTemplate>(() => {
+    const all = { ...localeDrafts, [editingLocale]: { subject, html: bodyHtml } };
+    const base = all[DEFAULT_LOCALE] ?? { subject: "", html: "" };
+    const variants: TemplateVariants = {};
+    for (const locale of TRANSLATION_LOCALES) {
+      const content = all[locale];
+      if (content) variants[locale] = content;
+    }
+    return { ...base, variants };
+  }, [localeDrafts, editingLocale, subject, bodyHtml]);
+
+  const editedLocales = useMemo(
+    () => [
+      DEFAULT_LOCALE,
+      ...TRANSLATION_LOCALES.filter(
+        (locale) => locale === editingLocale || localeDrafts[locale] !== undefined
+      ),
+    ],
+    [editingLocale, localeDrafts]
+  );
+
+  // Generated documents are built from participant data, so leader campaigns ignore them.
+  const activeGeneratedAttachments = useMemo(
+    () => (activeRecipientType === "participants" ? generatedAttachments : []),
+    [activeRecipientType, generatedAttachments]
+  );
+
+  const templateErrors = useMemo(
+    () => [
+      ...validateCampaignTemplates(activeRecipientType, localizedTemplate),
+      ...validateGeneratedAttachmentTemplates(activeGeneratedAttachments),
+    ],
+    [activeRecipientType, localizedTemplate, activeGeneratedAttachments]
+  );
+
+  const previewHtml = preview?.html ?? "";
   const sanitizedPreviewHtml = useMemo(
     () => sanitizePreviewHtml(previewHtml),
     [previewHtml]
   );
 
-  const previewSubject =
-    previewRecipient == null
-      ? subject
-      : activeRecipientType === "participants"
-        ? renderParticipantTemplateText(subject, previewRecipient as Participant)
-        : renderGroupLeaderTemplateText(subject, previewRecipient as GroupLeader);
+  const previewSubject = preview?.subject ?? subject;
+  // Translations carry their own subjects, so A/B tests need a single-language campaign.
+  const hasTranslations = Object.keys(localizedTemplate.variants).length > 0;
+  const activeAbTest = abTest && !hasTranslations;
 
   const activeFieldList =
     activeRecipientType === "participants"
@@ -666,7 +777,7 @@ export function ParticipantEmailCampaign() {
         `A template named "${name}" already exists. Overwrite it?`
       );
       if (!shouldOverwrite) return;
-      await updateTemplate(existing.id, name, subject, bodyHtml);
+      await updateTemplate(existing.id, name, localizedTemplate);
       return;
     }
 
@@ -676,8 +787,9 @@ export function ParticipantEmailCampaign() {
         headers: { "Content-Type": "application/json" },
         body: JSON.stringify({
           name,
-          subject,
-          html: bodyHtml,
+          subject: localizedTemplate.subject,
+          html: localizedTemplate.html,
+          variants: localizedTemplate.variants,
         }),
       });
       const json = (await res.json()) as { error?: string; template?: EmailTemplate };
@@ -693,12 +805,39 @@ export function ParticipantEmailCampaign() {
     }
   }
 
-  function applyTemplate(template: EmailTemplate) {
-    setSubject(template.subject);
-    setBodyHtml(template.html);
+  function loadEditorContent(content: TemplateContent) {
+    setSubject(content.subject);
+    setBodyHtml(content.html);
     if (editor) {
-      editor.commands.setContent(template.html);
+      editor.commands.setContent(content.html);
     }
+  }
+
+  function switchEditingLocale(next: Locale) {
+    if (next === editingLocale) return;
+    const drafts = { ...localeDrafts, [editingLocale]: { subject, html: bodyHtml } };
+    // A new translation starts as a copy of the default version.
+    const target = drafts[next] ?? drafts[DEFAULT_LOCALE] ?? { subject, html: bodyHtml };
+    delete drafts[next];
+    setLocaleDrafts(drafts);
+    setEditingLocale(next);
+    loadEditorContent(target);
+  }
+
+  function removeTranslation() {
+    if (editingLocale === DEFAULT_LOCALE) return;
+    const drafts = { ...localeDrafts };
+    const base = drafts[DEFAULT_LOCALE] ?? { subject, html: bodyHtml };
+    delete drafts[DEFAULT_LOCALE];
+    setLocaleDrafts(drafts);
+    setEditingLocale(DEFAULT_LOCALE);
+    loadEditorContent(base);
+  }
+
+  function applyTemplate(template: EmailTemplate) {
+    setLocaleDrafts({ ...(template.variants ?? {}) });
+    setEditingLocale(DEFAULT_LOCALE);
+    loadEditorContent({ subject: template.subject, html: template.html });
     setSendResult(`Template "${template.name}" loaded.`);
     setSendError(null);
   }
@@ -718,8 +857,7 @@ export function ParticipantEmailCampaign() {
     await updateTemplate(
       template.id,
       name,
-      shouldUpdateFromComposer ? subject : template.subject,
-      shouldUpdateFromComposer ? bodyHtml : template.html
+      shouldUpdateFromComposer ? localizedTemplate : template
     );
   }
 
@@ -745,12 +883,7 @@ export function ParticipantEmailCampaign() {
     }
   }
 
-  async function updateTemplate(
-    id: string,
-    name: string,
-    nextSubject: string,
-    nextHtml: string
-  ) {
+  async function updateTemplate(id: string, name: string, content: LocalizedTemplate) {
     try {
       const res = await fetch("/api/manager/email-templates", {
         method: "PATCH",
@@ -758,8 +891,9 @@ export function ParticipantEmailCampaign() {
         body: JSON.stringify({
           id,
           name,
-          subject: nextSubject,
-          html: nextHtml,
+          subject: content.subject,
+          html: content.html,
+          variants: content.variants,
         }),
       });
       const json = (await res.json()) as { error?: string; template?: EmailTemplate };
@@ -849,7 +983,7 @@ export function ParticipantEmailCampaign() {
     });
   }
 
-  function openPreview() {
+  async function openPreview() {
     setSendError(null);
     setSendResult(null);
 
@@ -868,19 +1002,92 @@ export function ParticipantEmailCampaign() {
       return;
     }
 
-    const bodyText = bodyHtml.replace(/<[^>]+>/g, "").trim();
+    const bodyText = localizedTemplate.html.replace(/<[^>]+>/g, "").trim();
     if (!bodyText) {
       setSendError("Write the email body before continuing.");
       return;
     }
 
-    setShowPreview(true);
+    if (templateErrors.length > 0) {
+      setSendError(`Fix the template before sending. ${templateErrors[0]}`);
+      return;
+    }
+
+    if (await loadPreview(previewLocale)) {
+      setShowPreview(true);
+    }
+  }
+
+  // Rendered on the server so group member loops and the recipient's language match
+  // the real send.
+  async function loadPreview(locale: Locale | ""): Promise<boolean> {
+    if (!previewRecipient) return false;
+
+    setPreviewLoading(true);
+    try {
+      const res = await fetch("/api/manager/email-campaign/preview", {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({
+          recipientType: activeRecipientType,
+          recipientId: previewRecipient.id,
+          subject: localizedTemplate.subject,
+          html: localizedTemplate.html,
+          variants: localizedTemplate.variants,
+          locale: locale || null,
+        }),
+      });
+      const json = (await res.json()) as Partial<RenderedPreview> & { error?: string };
+      if (!res.ok) {
+        setSendError(json.error ?? "Unable to render the preview.");
+        return false;
+      }
+      setPreview({
+        subject: json.subject ?? "",
+        html: json.html ?? "",
+        locale: json.locale ?? DEFAULT_LOCALE,
+        recipientLocale: json.recipientLocale ?? DEFAULT_LOCALE,
+      });
+      return true;
+    } catch {
+      setSendError("Unable to render the preview.");
+      return false;
+    } finally {
+      setPreviewLoading(false);
+    }
+  }
+
+  function changePreviewLocale(value: string) {
+    const next = isSupportedLocale(value) ? value : "";
+    setPreviewLocale(next);
+    void loadPreview(next);
   }
 
   async function sendCampaign() {
+    let sendAt: string | null = null;
+    if (scheduleLater) {
+      const scheduledDate = new Date(scheduledFor);
+      if (!scheduledFor || Number.isNaN(scheduledDate.getTime())) {
+        setSendError("Choose when the campaign should be sent.");
+        return;
+      }
+      if (scheduledDate.getTime() <= Date.now()) {
+        setSendError("The scheduled time must be in the future.");
+        return;
+      }
+      sendAt = scheduledDate.toISOString();
+    }
+    if (activeAbTest && !subjectB.trim()) {
+      setSendError("Write subject B or turn off the A/B test.");
+      return;
+    }
+
     setSending(true);
     setSendError(null);
     setSendResult(null);
+    setSendResultLogId(null);
     try {
       const res = await fetch("/api/manager/email-campaign", {
         method: "POST",
@@ -890,39 +1097,64 @@ export function ParticipantEmailCampaign() {
         body: JSON.stringify({
           recipientType: activeRecipientType,
           recipientIds: [...activeSelectedIds],
-          subject,
-          html: bodyHtml,
+          subject: localizedTemplate.subject,
+          html: localizedTemplate.html,
+          variants: localizedTemplate.variants,
+          category,
+          sendAt,
+          trackOpens,
+          trackClicks,
+          subjectB: activeAbTest ? subjectB : null,
           attachments: attachments.map((attachment) => ({
             filename: attachment.filename,
             contentType: attachment.contentType,
             content: attachment.content,
             encoding: "base64",
           })),
+          generatedAttachments: activeGeneratedAttachments,
         }),
       });
       const json = (await res.json()) as {
         error?: string;
-        sent?: number;
-        failed?: Array<{ id: string; reason: string }>;
+        logId?: string;
+        sendAt?: string;
+        scheduled?: boolean;
+        queued?: number;
         skipped?: Array<{ id: string; reason: string }>;
-        logSaved?: boolean;
-        logError?: string | null;
+        counts?: Record<string, number> | null;
+        drainError?: string | null;
       };
       if (!res.ok) {
         setSendError(json.error ?? "Unable to send email campaign.");
         return;
       }
 
-      const sent = json.sent ?? 0;
-      const failed = json.failed?.length ?? 0;
-      const skipped = json.skipped?.length ?? 0;
-      const logWarning =
-        json.logSaved === false
-          ? ` Warning: send log could not be saved${json.logError ? ` (${json.logError})` : ""}.`
-          : "";
-
-      setSendResult(`Sent ${sent} email(s). Failed: ${failed}. Skipped: ${skipped}.${logWarning}`);
+      const queued = json.queued ?? 0;
+      const unsubscribed =
+        json.skipped?.filter((entry) => entry.reason === NEWSLETTER_OPT_OUT_REASON).length ?? 0;
+      const skippedCount = json.skipped?.length ?? 0;
+      const skipped =
+        unsubscribed > 0 ? `${skippedCount} (${unsubscribed} unsubscribed)` : `${skippedCount}`;
+      if (json.scheduled) {
+        setSendResult(
+          `Scheduled ${queued} email(s) for ${new Date(json.sendAt ?? "").toLocaleString()}. Skipped: ${skipped}.`
+        );
+      } else {
+        const counts = json.counts ?? {};
+        const remaining = (counts.pending ?? 0) + (counts.sending ?? 0);
+        const drainWarning = json.drainError ? ` Warning: ${json.drainError}.` : "";
+        setSendResult(
+          `Sent ${counts.sent ?? 0} of ${queued} email(s). Failed: ${counts.failed ?? 0}. Skipped: ${skipped}.` +
+            (remaining > 0 ? ` ${remaining} still queued for delivery.` : "") +
+            drainWarning
+        );
+      }
+      setSendResultLogId(json.logId ?? null);
       setShowPreview(false);
+      setScheduleLater(false);
+      setScheduledFor("");
+      setAbTest(false);
+      setSubjectB("");
     } catch {
       setSendError("Unable to send email campaign.");
     } finally {
@@ -940,12 +1172,20 @@ export function ParticipantEmailCampaign() {
               Compose a personalized email and send it to selected participants or group leaders.
             </p>
           </div>
-          <NextLink
-            href={sendLogHref}
-            className="rounded border border-slate-300 bg-white px-3 py-2 text-sm font-medium text-slate-700 hover:bg-slate-100"
-          >
-            Email send log
-          </NextLink>
+          <div className="flex flex-wrap gap-2">
+            <NextLink
+              href={`${campaignsPath}/automations`}
+              className="rounded border border-slate-300 bg-white px-3 py-2 text-sm font-medium text-slate-700 hover:bg-slate-100"
+            >
+              Automatic emails
+            </NextLink>
+            <NextLink
+              href={`${campaignsPath}/send-log`}
+              className="rounded border border-slate-300 bg-white px-3 py-2 text-sm font-medium text-slate-700 hover:bg-slate-100"
+            >
+              Email send log
+            </NextLink>
+          </div>
         </div>
       </header>
 
@@ -957,12 +1197,74 @@ export function ParticipantEmailCampaign() {
       {sendResult && (
         <div className="rounded border border-emerald-200 bg-emerald-50 px-4 py-3 text-sm text-emerald-700">
           {sendResult}
+          {sendResultLogId ? (
+            <>
+              {" "}
+              <NextLink
+                href={`${campaignsPath}/send-log/${sendResultLogId}`}
+                className="font-medium underline"
+              >
+                View delivery status
+              </NextLink>
+            </>
+          ) : null}
         </div>
       )}
 
       <div className="grid items-start gap-6 xl:grid-cols-[minmax(0,2fr)_minmax(280px,1fr)]">
         <div className="space-y-6">
           <section className="rounded-xl border border-slate-200 bg-white p-6 shadow-sm">
+            <div className="mb-4 flex flex-wrap items-center gap-2">
+              <span className="text-sm font-medium text-slate-700">Language</span>
+              {editedLocales.map((locale) => (
+                <button
+                  key={locale}
+                  type="button"
+                  onClick={() => switchEditingLocale(locale)}
+                  className={`rounded border px-2.5 py-1 text-xs font-medium ${
+                    editingLocale === locale
+                      ? "border-indigo-600 bg-indigo-600 text-white"
+                      : "border-slate-300 bg-white text-slate-700 hover:bg-slate-100"
+                  }`}
+                >
+                  {LOCALE_LABELS[locale]}
+                  {locale === DEFAULT_LOCALE ? " (default)" : ""}
+                </button>
+              ))}
+              {editedLocales.length < TRANSLATION_LOCALES.length + 1 && (
+                <select
+                  value=""
+                  onChange={(event) => {
+                    if (isSupportedLocale(event.target.value)) {
+                      switchEditingLocale(event.target.value);
+                    }
+                  }}
+                  className="rounded border border-slate-300 bg-white px-2 py-1 text-xs text-slate-700"
+                >
+                  <option value="">Add translation...</option>
+                  {TRANSLATION_LOCALES.filter((locale) => !editedLocales.includes(locale)).map(
+                    (locale) => (
+                      <option key={locale} value={locale}>
+                        {LOCALE_LABELS[locale]}
+                      </option>
+                    )
+                  )}
+                </select>
+              )}
+              {editingLocale !== DEFAULT_LOCALE && (
+                <button
+                  type="button"
+                  onClick={removeTranslation}
+                  className="rounded border border-red-200 px-2.5 py-1 text-xs text-red-700 hover:bg-red-50"
+                >
+                  Remove translation
+                </button>
+              )}
+            </div>
+            <p className="-mt-2 mb-4 text-xs text-slate-500">
+              Recipients get the version in their preferred language, or the default one when
+              there is no translation.
+            </p>
             <div className="flex flex-wrap items-center justify-between gap-2">
               <label className="block text-sm font-medium text-slate-700">Subject</label>
               <button
@@ -1072,6 +1374,17 @@ export function ParticipantEmailCampaign() {
               <EditorContent editor={editor} className="mt-2" />
             </div>
 
+            {templateErrors.length > 0 && (
+              <div className="mt-3 rounded border border-amber-200 bg-amber-50 px-3 py-2 text-xs text-amber-800">
+                <p className="font-semibold">Template problems</p>
+                <ul className="mt-1 list-disc space-y-0.5 pl-4">
+                  {templateErrors.map((message) => (
+                    <li key={message}>{message}</li>
+                  ))}
+                </ul>
+              </div>
+            )}
+
             <div className="mt-4 rounded border border-slate-200 bg-slate-50 p-3">
               <div className="flex flex-wrap items-center justify-between gap-2">
                 <p className="text-sm font-medium text-slate-700">Attachments</p>
@@ -1112,6 +1425,14 @@ export function ParticipantEmailCampaign() {
                 </div>
               )}
             </div>
+
+            {activeRecipientType === "participants" && (
+              <EmailGeneratedAttachments
+                attachments={generatedAttachments}
+                onChange={setGeneratedAttachments}
+                previewRecipientId={previewRecipient?.id ?? null}
+              />
+            )}
           </section>
 
           <section className="rounded-xl border border-slate-200 bg-white p-6 shadow-sm">
@@ -1183,6 +1504,42 @@ export function ParticipantEmailCampaign() {
               </button>
             ))}
           </div>
+          {activeRecipientType === "group_leaders" && (
+            <>
+              <h4 className="mt-5 text-xs font-semibold uppercase tracking-wide text-slate-700">
+                Inside {"{{#each members}}"}
+              </h4>
+              <div className="mt-2 flex flex-wrap gap-1">
+                {GROUP_LEADER_MEMBER_FIELDS.map((field) => (
+                  <button
+                    key={field.key}
+                    type="button"
+                    onClick={() => insertToken(field.token)}
+                    title={field.label}
+                    className="rounded border border-slate-200 px-2 py-1 text-xs text-slate-600 hover:bg-slate-50"
+                  >
+                    {field.token}
+                  </button>
+                ))}
+              </div>
+            </>
+          )}
+          <h4 className="mt-5 text-xs font-semibold uppercase tracking-wide text-slate-700">
+            Conditions and formatting
+          </h4>
+          <div className="mt-2 space-y-1">
+            {TEMPLATE_SYNTAX_HELP.map((item) => (
+              <button
+                key={item.token}
+                type="button"
+                onClick={() => insertToken(item.token)}
+                className="block w-full rounded border border-slate-200 px-3 py-2 text-left hover:bg-slate-50"
+              >
+                <span className="block text-xs text-slate-800">{item.label}</span>
+                <code className="block break-all text-xs text-slate-500">{item.token}</code>
+              </button>
+            ))}
+          </div>
         </aside>
       </div>
 
@@ -1359,9 +1716,39 @@ export function ParticipantEmailCampaign() {
         </div>
 
         <div className="mt-4 flex flex-wrap items-center justify-between gap-3">
-          <p className="text-sm text-slate-500">
-            Selected recipients: <strong>{activeSelectedIds.size}</strong>
-          </p>
+          <div className="space-y-1">
+            <div className="flex flex-wrap items-center gap-4">
+              <p className="text-sm text-slate-500">
+                Selected recipients: <strong>{activeSelectedIds.size}</strong>
+              </p>
+              <label className="flex items-center gap-2 text-sm text-slate-500">
+                Campaign type
+                <select
+                  value={category}
+                  onChange={(event) => setCategory(event.target.value as EmailCategory)}
+                  className="rounded border border-slate-300 px-2 py-1 text-sm text-slate-700"
+                >
+                  {EMAIL_CATEGORIES.map((value) => (
+                    <option key={value} value={value}>
+                      {EMAIL_CATEGORY_LABELS[value]}
+                    </option>
+                  ))}
+                </select>
+              </label>
+            </div>
+            {bouncedSelectedCount > 0 ? (
+              <p className="text-xs text-red-700">
+                {bouncedSelectedCount} selected recipient(s) have an address that bounced and
+                will be skipped.
+              </p>
+            ) : null}
+            {optedOutSelectedCount > 0 ? (
+              <p className="text-xs text-amber-700">
+                {optedOutSelectedCount} selected recipient(s) unsubscribed from newsletters and
+                will be skipped.
+              </p>
+            ) : null}
+          </div>
           <div className="flex gap-2">
             <button
               type="button"
@@ -1373,9 +1760,10 @@ export function ParticipantEmailCampaign() {
             <button
               type="button"
               onClick={openPreview}
-              className="rounded bg-indigo-600 px-4 py-2 text-sm font-medium text-white hover:bg-indigo-500"
+              disabled={previewLoading}
+              className="rounded bg-indigo-600 px-4 py-2 text-sm font-medium text-white hover:bg-indigo-500 disabled:opacity-60"
             >
-              Send
+              {previewLoading ? "Preparing preview..." : "Send"}
             </button>
           </div>
         </div>
@@ -1475,7 +1863,14 @@ export function ParticipantEmailCampaign() {
                         )}
                         <td className="px-4 py-3 text-slate-900">{participant.nome || "-"}</td>
                         <td className="px-4 py-3 text-slate-900">{participant.cognome || "-"}</td>
-                        <td className="px-4 py-3 text-slate-700">{participant.email || "-"}</td>
+                        <td className="px-4 py-3 text-slate-700">
+                          {participant.email || "-"}
+                          {participant.email_bounced ? (
+                            <span className="ml-2 rounded bg-red-100 px-1.5 py-0.5 text-xs font-medium text-red-700">
+                              Bounced
+                            </span>
+                          ) : null}
+                        </td>
                         <td className="px-4 py-3 text-slate-700">
                           {participant.data_arrivo || "-"}
                         </td>
@@ -1550,7 +1945,14 @@ export function ParticipantEmailCampaign() {
                       </td>
                       <td className="px-4 py-3 text-slate-900">{leader.nome || "-"}</td>
                       <td className="px-4 py-3 text-slate-900">{leader.cognome || "-"}</td>
-                      <td className="px-4 py-3 text-slate-700">{leader.email || "-"}</td>
+                      <td className="px-4 py-3 text-slate-700">
+                        {leader.email || "-"}
+                        {leader.email_bounced ? (
+                          <span className="ml-2 rounded bg-red-100 px-1.5 py-0.5 text-xs font-medium text-red-700">
+                            Bounced
+                          </span>
+                        ) : null}
+                      </td>
                       <td className="px-4 py-3 text-slate-700">{leader.telefono || "-"}</td>
                       <td className="px-4 py-3 text-slate-700">{formatBoolean(leader.italia)}</td>
                       <td className="px-4 py-3 text-slate-700">{formatBoolean(leader.roma)}</td>
@@ -1572,6 +1974,9 @@ export function ParticipantEmailCampaign() {
             </p>
             <p className="mt-1 text-xs text-slate-500">
               Attachments: <strong>{attachments.length}</strong>
+              {activeGeneratedAttachments.length > 0
+                ? ` + ${activeGeneratedAttachments.length} generated per recipient`
+                : ""}
             </p>
             {previewRecipient ? (
               <p className="mt-1 text-xs text-slate-500">
@@ -1579,6 +1984,31 @@ export function ParticipantEmailCampaign() {
                 {(previewRecipient as Participant | GroupLeader).cognome || "-"} ({(previewRecipient as Participant | GroupLeader).email || "no email"})
               </p>
             ) : null}
+            <label className="mt-3 flex flex-wrap items-center gap-2 text-xs text-slate-600">
+              Preview language
+              <select
+                value={previewLocale}
+                onChange={(event) => changePreviewLocale(event.target.value)}
+                disabled={previewLoading}
+                className="rounded border border-slate-300 bg-white px-2 py-1 text-xs"
+              >
+                <option value="">
+                  Recipient&apos;s language
+                  {preview ? ` (${LOCALE_LABELS[preview.recipientLocale]})` : ""}
+                </option>
+                {editedLocales.map((locale) => (
+                  <option key={locale} value={locale}>
+                    {LOCALE_LABELS[locale]}
+                  </option>
+                ))}
+              </select>
+              {preview && preview.locale !== (previewLocale || preview.recipientLocale) ? (
+                <span className="text-amber-700">
+                  No {LOCALE_LABELS[previewLocale || preview.recipientLocale]} translation, the
+                  default version is shown.
+                </span>
+              ) : null}
+            </label>
 
             <div className="mt-4 rounded border border-slate-200 bg-slate-50 p-4">
               <p className="text-xs font-semibold uppercase tracking-wide text-slate-500">
@@ -1594,6 +2024,85 @@ export function ParticipantEmailCampaign() {
               />
             </div>
 
+            <div className="mt-4 rounded border border-slate-200 p-4">
+              <label className="flex items-center gap-2 text-sm text-slate-700">
+                <input
+                  type="checkbox"
+                  checked={scheduleLater}
+                  disabled={sending}
+                  onChange={(event) => setScheduleLater(event.target.checked)}
+                />
+                Schedule for later
+              </label>
+              {scheduleLater ? (
+                <input
+                  type="datetime-local"
+                  value={scheduledFor}
+                  disabled={sending}
+                  onChange={(event) => setScheduledFor(event.target.value)}
+                  className="mt-2 rounded border border-slate-300 px-3 py-2 text-sm"
+                />
+              ) : null}
+              <p className="mt-2 text-xs text-slate-500">
+                Emails are queued and retried automatically if delivery fails.
+              </p>
+            </div>
+
+            <div className="mt-4 space-y-2 rounded border border-slate-200 p-4">
+              <div className="flex flex-wrap gap-4">
+                <label className="flex items-center gap-2 text-sm text-slate-700">
+                  <input
+                    type="checkbox"
+                    checked={trackOpens}
+                    disabled={sending}
+                    onChange={(event) => setTrackOpens(event.target.checked)}
+                  />
+                  Track opens
+                </label>
+                <label className="flex items-center gap-2 text-sm text-slate-700">
+                  <input
+                    type="checkbox"
+                    checked={trackClicks}
+                    disabled={sending}
+                    onChange={(event) => setTrackClicks(event.target.checked)}
+                  />
+                  Track link clicks
+                </label>
+                <label className="flex items-center gap-2 text-sm text-slate-700">
+                  <input
+                    type="checkbox"
+                    checked={activeAbTest}
+                    disabled={sending || hasTranslations}
+                    onChange={(event) => {
+                      setAbTest(event.target.checked);
+                      if (event.target.checked) setTrackOpens(true);
+                    }}
+                  />
+                  A/B test the subject
+                </label>
+              </div>
+              {activeAbTest ? (
+                <input
+                  type="text"
+                  value={subjectB}
+                  disabled={sending}
+                  onChange={(event) => setSubjectB(event.target.value)}
+                  className="w-full rounded border border-slate-300 px-3 py-2 text-sm"
+                  placeholder="Subject B"
+                />
+              ) : null}
+              <p className="text-xs text-slate-500">
+                {hasTranslations
+                  ? "A/B tests are not available for emails with translations. "
+                  : activeAbTest
+                    ? "Recipients are split at random between the two subjects; the send log " +
+                      "compares their open rates. "
+                    : ""}
+                Results appear on the send log. Opens are estimates: some mail clients block the
+                tracking image, others load it automatically.
+              </p>
+            </div>
+
             <div className="mt-5 flex justify-end gap-2">
               <button
                 type="button"
@@ -1609,7 +2118,13 @@ export function ParticipantEmailCampaign() {
                 onClick={sendCampaign}
                 className="rounded bg-indigo-600 px-4 py-2 text-sm font-medium text-white hover:bg-indigo-500 disabled:opacity-60"
               >
-                {sending ? "Sending..." : "Send"}
+                {sending
+                  ? scheduleLater
+                    ? "Scheduling..."
+                    : "Sending..."
+                  : scheduleLater
+                    ? "Schedule"
+                    : "Send"}
               </button>
             </div>
           </div>
@@ -0,0 +1,506 @@
+"use client";
+
+import { useEffect, useState, type FormEvent } from "react";
+import { useI18n } from "@/lib/i18n/provider";
+
+export type PaymentParticipant = {
+  id: string;
+  nome: string | null;
+  cognome: string | null;
+  quota_totale: number | null;
+  fee_paid: number | null;
+  group: string;
+};
+
+type PaymentEntry = {
+  id: string;
+  participant_id: string;
+  entry_type: "payment" | "refund";
+  amount: number;
+  currency: "EUR" | "HUF";
+  amount_eur: number;
+  payment_date: string;
+  payment_method: string;
+  payer_name: string | null;
+  payer_participant_id: string | null;
+  reference: string | null;
+  notes: string | null;
+  event_finance_transaction_id: string | null;
+};
+
+const PAYMENT_METHODS = ["bank transfer", "card", "cash", "other"] as const;
+
+function todayIso() {
+  return new Date().toISOString().slice(0, 10);
+}
+
+function fullName(participant: { nome: string | null; cognome: string | null }) {
+  return [participant.nome, participant.cognome].filter(Boolean).join(" ").trim() || "-";
+}
+
+export function outstandingFee(participant: PaymentParticipant) {
+  if (participant.quota_totale === null) return 0;
+  return Number((participant.quota_totale - (participant.fee_paid ?? 0)).toFixed(2));
+}
+
+export function RecordPaymentModal<T extends PaymentParticipant>({
+  participants,
+  payerOptions,
+  onClose,
+  onSaved,
+}: {
+  participants: T[];
+  payerOptions: T[];
+  onClose: () => void;
+  onSaved: (rows: T[]) => void;
+}) {
+  const { t } = useI18n();
+  const [amounts, setAmounts] = useState<Record<string, string>>(() =>
+    Object.fromEntries(
+      participants.map((participant) => {
+        const outstanding = outstandingFee(participant);
+        return [participant.id, outstanding > 0 ? outstanding.toFixed(2) : ""];
+      })
+    )
+  );
+  const [entryType, setEntryType] = useState<"payment" | "refund">("payment");
+  const [paymentDate, setPaymentDate] = useState(todayIso());
+  const [paymentMethod, setPaymentMethod] = useState<string>("bank transfer");
+  const [currency, setCurrency] = useState<"EUR" | "HUF">("EUR");
+  const [payerParticipantId, setPayerParticipantId] = useState("");
+  const [payerName, setPayerName] = useState("");
+  const [reference, setReference] = useState("");
+  const [notes, setNotes] = useState("");
+  const [postToFinance, setPostToFinance] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const total = participants.reduce((sum, participant) => {
+    const parsed = Number(amounts[participant.id] ?? "");
+    return Number.isFinite(parsed) ? sum + parsed : sum;
+  }, 0);
+
+  async function handleSubmit(event: FormEvent) {
+    event.preventDefault();
+    if (saving) return;
+
+    const entries = participants.map((participant) => ({
+      participant_id: participant.id,
+      amount: Number((amounts[participant.id] ?? "").trim()),
+    }));
+
+    if (entries.some((entry) => !Number.isFinite(entry.amount) || entry.amount <= 0)) {
+      setError(t("fees.payments.invalidAmount"));
+      return;
+    }
+
+    setSaving(true);
+    setError(null);
+
+    try {
+      const res = await fetch("/api/manager/participation-fees/payments", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          entries,
+          entry_type: entryType,
+          currency,
+          payment_date: paymentDate,
+          payment_method: paymentMethod,
+          payer_name: payerName,
+          payer_participant_id: payerParticipantId || null,
+          reference,
+          notes,
+          post_to_finance: postToFinance,
+        }),
+      });
+      const json = await res.json();
+
+      if (!res.ok) {
+        setError(json.error ?? t("fees.payments.saveError"));
+        return;
+      }
+
+      onSaved(Array.isArray(json.participants) ? (json.participants as T[]) : []);
+    } catch {
+      setError(t("fees.payments.saveError"));
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-start justify-center overflow-y-auto bg-black/40 px-4 py-8">
+      <form
+        onSubmit={handleSubmit}
+        className="w-full max-w-2xl space-y-4 rounded-lg border border-slate-200 bg-white p-5 shadow-xl"
+      >
+        <h3 className="text-lg font-semibold text-slate-900">
+          {t("fees.payments.recordTitle", { count: participants.length })}
+        </h3>
+
+        {error && (
+          <p className="rounded border border-red-200 bg-red-50 px-3 py-2 text-sm text-red-700">
+            {error}
+          </p>
+        )}
+
+        <div className="max-h-64 overflow-y-auto rounded border border-slate-200">
+          <table className="w-full border-collapse text-left text-sm">
+            <thead className="bg-slate-50 text-slate-700">
+              <tr>
+                <th className="px-3 py-2">{t("participants.table.header.group")}</th>
+                <th className="px-3 py-2">{t("fees.payments.participant")}</th>
+                <th className="px-3 py-2">{t("fees.outstanding")}</th>
+                <th className="px-3 py-2">{t("fees.payments.amount")}</th>
+              </tr>
+            </thead>
+            <tbody>
+              {participants.map((participant) => (
+                <tr key={participant.id} className="border-t border-slate-100">
+                  <td className="px-3 py-2">{participant.group || "-"}</td>
+                  <td className="px-3 py-2">{fullName(participant)}</td>
+                  <td className="px-3 py-2">EUR {outstandingFee(participant).toFixed(2)}</td>
+                  <td className="px-3 py-2">
+                    <input
+                      type="number"
+                      min="0.01"
+                      step="0.01"
+                      value={amounts[participant.id] ?? ""}
+                      onChange={(e) =>
+                        setAmounts((prev) => ({ ...prev, [participant.id]: e.target.value }))
+                      }
+                      placeholder={t("fees.amountPlaceholder")}
+                      className="w-28 rounded border border-slate-300 px-2 py-1 text-xs"
+                    />
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+        <p className="text-sm text-slate-600">
+          {t("fees.payments.total")}: {currency} {total.toFixed(2)}
+        </p>
+
+        <div className="grid gap-3 sm:grid-cols-2">
+          <label className="text-sm text-slate-700">
+            {t("fees.payments.type")}
+            <select
+              value={entryType}
+              onChange={(e) => setEntryType(e.target.value === "refund" ? "refund" : "payment")}
+              className="mt-1 w-full rounded border border-slate-300 px-2 py-1.5 text-sm"
+            >
+              <option value="payment">{t("fees.payments.typePayment")}</option>
+              <option value="refund">{t("fees.payments.typeRefund")}</option>
+            </select>
+          </label>
+          <label className="text-sm text-slate-700">
+            {t("fees.payments.date")}
+            <input
+              type="date"
+              value={paymentDate}
+              onChange={(e) => setPaymentDate(e.target.value)}
+              required
+              className="mt-1 w-full rounded border border-slate-300 px-2 py-1.5 text-sm"
+            />
+          </label>
+          <label className="text-sm text-slate-700">
+            {t("fees.payments.method")}
+            <select
+              value={paymentMethod}
+              onChange={(e) => setPaymentMethod(e.target.value)}
+              className="mt-1 w-full rounded border border-slate-300 px-2 py-1.5 text-sm"
+            >
+              {PAYMENT_METHODS.map((method) => (
+                <option key={method} value={method}>
+                  {method}
+                </option>
+              ))}
+            </select>
+          </label>
+          <label className="text-sm text-slate-700">
+            {t("fees.payments.currency")}
+            <select
+              value={currency}
+              onChange={(e) => setCurrency(e.target.value === "HUF" ? "HUF" : "EUR")}
+              className="mt-1 w-full rounded border border-slate-300 px-2 py-1.5 text-sm"
+            >
+              <option value="EUR">EUR</option>
+              <option value="HUF">HUF</option>
+            </select>
+          </label>
+          <label className="text-sm text-slate-700">
+            {t("fees.payments.payerParticipant")}
+            <select
+              value={payerParticipantId}
+              onChange={(e) => setPayerParticipantId(e.target.value)}
+              className="mt-1 w-full rounded border border-slate-300 px-2 py-1.5 text-sm"
+            >
+              <option value="">{t("common.none")}</option>
+              {payerOptions.map((option) => (
+                <option key={option.id} value={option.id}>
+                  {fullName(option)} ({option.group || "-"})
+                </option>
+              ))}
+            </select>
+          </label>
+          <label className="text-sm text-slate-700">
+            {t("fees.payments.payerName")}
+            <input
+              value={payerName}
+              onChange={(e) => setPayerName(e.target.value)}
+              className="mt-1 w-full rounded border border-slate-300 px-2 py-1.5 text-sm"
+            />
+          </label>
+          <label className="text-sm text-slate-700">
+            {t("fees.payments.reference")}
+            <input
+              value={reference}
+              onChange={(e) => setReference(e.target.value)}
+              className="mt-1 w-full rounded border border-slate-300 px-2 py-1.5 text-sm"
+            />
+          </label>
+          <label className="text-sm text-slate-700">
+            {t("fees.payments.notes")}
+            <input
+              value={notes}
+              onChange={(e) => setNotes(e.target.value)}
+              className="mt-1 w-full rounded border border-slate-300 px-2 py-1.5 text-sm"
+            />
+          </label>
+        </div>
+
+        <label className="flex items-center gap-2 text-sm text-slate-700">
+          <input
+            type="checkbox"
+            checked={postToFinance}
+            onChange={(e) => setPostToFinance(e.target.checked)}
+          />
+          {t("fees.payments.postToFinance")}
+        </label>
+
+        <div className="flex justify-end gap-2">
+          <button
+            type="button"
+            onClick={onClose}
+            className="rounded border border-slate-300 px-3 py-2 text-sm text-slate-700 hover:bg-slate-100"
+          >
+            {t("common.cancel")}
+          </button>
+          <button
+            type="submit"
+            disabled={saving}
+            className="rounded border border-indigo-600 bg-indigo-600 px-3 py-2 text-sm font-medium text-white disabled:cursor-not-allowed disabled:opacity-60"
+          >
+            {saving ? t("participant.form.saving") : t("fees.payments.save")}
+          </button>
+        </div>
+      </form>
+    </div>
+  );
+}
+
+export function PaymentHistoryModal<T extends PaymentParticipant>({
+  participant,
+  payerOptions,
+  onClose,
+  onChanged,
+  onRecordPayment,
+}: {
+  participant: T;
+  payerOptions: T[];
+  onClose: () => void;
+  onChanged: (row: T) => void;
+  onRecordPayment: () => void;
+}) {
+  const { t } = useI18n();
+  const [payments, setPayments] = useState<PaymentEntry[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [deletingId, setDeletingId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const payerById = new Map(payerOptions.map((option) => [option.id, option]));
+
+  useEffect(() => {
+    async function loadPayments() {
+      setLoading(true);
+      setError(null);
+
+      try {
+        const res = await fetch(
+          `/api/manager/participation-fees/payments?participantId=${encodeURIComponent(participant.id)}`,
+          { method: "GET" }
+        );
+        const json = await res.json();
+
+        if (!res.ok) {
+          setError(json.error ?? t("fees.payments.loadError"));
+          return;
+        }
+
+        setPayments(Array.isArray(json.payments) ? json.payments : []);
+      } catch {
+        setError(t("fees.payments.loadError"));
+      } finally {
+        setLoading(false);
+      }
+    }
+
+    void loadPayments();
+  }, [participant.id, participant.fee_paid, t]);
+
+  async function deletePayment(payment: PaymentEntry) {
+    if (deletingId || !window.confirm(t("fees.payments.deleteConfirm"))) return;
+
+    setDeletingId(payment.id);
+    setError(null);
+
+    try {
+      const res = await fetch("/api/manager/participation-fees/payments", {
+        method: "DELETE",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ id: payment.id }),
+      });
+      const json = await res.json();
+
+      if (!res.ok) {
+        setError(json.error ?? t("fees.payments.deleteError"));
+        return;
+      }
+
+      setPayments((prev) => prev.filter((row) => row.id !== payment.id));
+      if (json.participant) onChanged(json.participant as T);
+    } catch {
+      setError(t("fees.payments.deleteError"));
+    } finally {
+      setDeletingId(null);
+    }
+  }
+
+  function payerLabel(payment: PaymentEntry) {
+    if (payment.payer_name) return payment.payer_name;
+    const payer = payment.payer_participant_id
+      ? payerById.get(payment.payer_participant_id)
+      : undefined;
+    return payer ? fullName(payer) : "-";
+  }
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-start justify-center overflow-y-auto bg-black/40 px-4 py-8">
+      <div className="w-full max-w-4xl space-y-4 rounded-lg border border-slate-200 bg-white p-5 shadow-xl">
+        <div className="flex flex-wrap items-start justify-between gap-3">
+          <div>
+            <h3 className="text-lg font-semibold text-slate-900">
+              {t("fees.payments.historyTitle", { name: fullName(participant) })}
+            </h3>
+            <p className="text-sm text-slate-500">
+              {t("fees.calculatedFee")}:{" "}
+              {participant.quota_totale === null
+                ? "-"
+                : `EUR ${participant.quota_totale.toFixed(2)}`}{" "}
+              · {t("fees.feePaid")}: EUR {(participant.fee_paid ?? 0).toFixed(2)} ·{" "}
+              {t("fees.outstanding")}: EUR {outstandingFee(participant).toFixed(2)}
+            </p>
+          </div>
+          <button
+            type="button"
+            onClick={onRecordPayment}
+            className="rounded border border-indigo-600 bg-indigo-600 px-3 py-2 text-sm font-medium text-white"
+          >
+            {t("fees.recordPayment")}
+          </button>
+        </div>
+
+        {error && (
+          <p className="rounded border border-red-200 bg-red-50 px-3 py-2 text-sm text-red-700">
+            {error}
+          </p>
+        )}
+
+        <div className="overflow-x-auto rounded border border-slate-200">
+          <table className="w-full border-collapse text-left text-sm">
+            <thead className="bg-slate-50 text-slate-700">
+              <tr>
+                <th className="px-3 py-2">{t("fees.payments.date")}</th>
+                <th className="px-3 py-2">{t("fees.payments.type")}</th>
+                <th className="px-3 py-2">{t("fees.payments.amount")}</th>
+                <th className="px-3 py-2">{t("fees.payments.method")}</th>
+                <th className="px-3 py-2">{t("fees.payments.payer")}</th>
+                <th className="px-3 py-2">{t("fees.payments.reference")}</th>
+                <th className="px-3 py-2" />
+              </tr>
+            </thead>
+            <tbody>
+              {loading ? (
+                <tr>
+                  <td className="px-3 py-3 text-slate-500" colSpan={7}>
+                    {t("common.loading")}
+                  </td>
+                </tr>
+              ) : payments.length === 0 ? (
+                <tr>
+                  <td className="px-3 py-3 text-slate-500" colSpan={7}>
+                    {t("fees.payments.none")}
+                  </td>
+                </tr>
+              ) : (
+                payments.map((payment) => (
+                  <tr key={payment.id} className="border-t border-slate-100 align-top">
+                    <td className="px-3 py-2">{payment.payment_date}</td>
+                    <td className="px-3 py-2">
+                      {payment.entry_type === "refund"
+                        ? t("fees.payments.typeRefund")
+                        : t("fees.payments.typePayment")}
+                      {payment.event_finance_transaction_id && (
+                        <span className="ml-2 rounded bg-emerald-50 px-1.5 py-0.5 text-xs text-emerald-700">
+                          {t("fees.payments.linkedFinance")}
+                        </span>
+                      )}
+                    </td>
+                    <td className="px-3 py-2">
+                      {payment.currency} {Number(payment.amount).toFixed(2)}
+                      {payment.currency !== "EUR" && (
+                        <span className="block text-xs text-slate-500">
+                          EUR {Number(payment.amount_eur).toFixed(2)}
+                        </span>
+                      )}
+                    </td>
+                    <td className="px-3 py-2">{payment.payment_method}</td>
+                    <td className="px-3 py-2">{payerLabel(payment)}</td>
+                    <td className="px-3 py-2">
+                      {payment.reference || "-"}
+                      {payment.notes && (
+                        <span className="block text-xs text-slate-500">{payment.notes}</span>
+                      )}
+                    </td>
+                    <td className="px-3 py-2 text-right">
+                      <button
+                        type="button"
+                        onClick={() => void deletePayment(payment)}
+                        disabled={deletingId !== null}
+                        className="rounded border border-red-300 px-2 py-1 text-xs text-red-700 hover:bg-red-50 disabled:opacity-60"
+                      >
+                        {t("common.delete")}
+                      </button>
+                    </td>
+                  </tr>
+                ))
+              )}
+            </tbody>
+          </table>
+        </div>
+
+        <div className="flex justify-end">
+          <button
+            type="button"
+            onClick={onClose}
+            className="rounded border border-slate-300 px-3 py-2 text-sm text-slate-700 hover:bg-slate-100"
+          >
+            {t("common.close")}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -30,6 +30,8 @@ type Participant = {
   difficolta_accessibilita: string[];
   quota_totale: number | null;
   group: string;
+  email_bounced: boolean;
+  email_bounce_reason: string | null;
 };
 
 type FormState = {
@@ -657,7 +659,17 @@ export function ParticipantsTable({
                       <td className="px-4 py-3">{participant.group || "-"}</td>
                     )}
                     <td className="px-4 py-3">{participant.nome || "-"}</td>
-                    <td className="px-4 py-3">{participant.cognome || "-"}</td>
+                    <td className="px-4 py-3">
+                      {participant.cognome || "-"}
+                      {participant.email_bounced ? (
+                        <span
+                          title={participant.email_bounce_reason ?? undefined}
+                          className="ml-2 rounded bg-red-100 px-1.5 py-0.5 text-xs font-medium text-red-700"
+                        >
+                          {t("participants.table.emailBounced")}
+                        </span>
+                      ) : null}
+                    </td>
                     <td className="px-4 py-3">
                       {displayDate(
                         participant.data_arrivo,
@@ -761,6 +773,15 @@ export function ParticipantsTable({
                     onChange={(e) => setForm((prev) => ({ ...prev, email: e.target.value }))}
                     className="mt-1 w-full rounded border border-slate-300 px-4 py-3 text-sm"
                   />
+                  {editingParticipant.email_bounced &&
+                  form.email.trim().toLowerCase() ===
+                    (editingParticipant.email ?? "").trim().toLowerCase() ? (
+                    <p className="mt-1 text-xs text-red-700">
+                      {t("participants.table.modal.emailBounced", {
+                        reason: editingParticipant.email_bounce_reason ?? "-",
+                      })}
+                    </p>
+                  ) : null}
                 </div>
 
                 <div>
@@ -9,6 +9,7 @@ import {
   DEPARTURE_DATE_MIN,
 } from "@/lib/partecipante/constants";
 import { useI18n } from "@/lib/i18n/provider";
+import { PaymentHistoryModal, RecordPaymentModal } from "./participant-payments";
 
 type Participant = {
   id: string;
@@ -34,7 +35,6 @@ type SortKey =
 
 type SortDirection = "asc" | "desc";
 
-type DraftFees = Record<string, string>;
 type GroupSummaryRow = {
   group: string;
   participantsCount: number;
@@ -53,19 +53,6 @@ function displayDate(value: string | null, min: string, max: string) {
   return dateInRange(value, min, max) ? value : "-";
 }
 
-function normalizeFeeInput(value: string): number | null | "invalid" {
-  const trimmed = value.trim();
-  if (!trimmed) return null;
-  const parsed = Number(trimmed);
-  if (!Number.isFinite(parsed) || parsed < 0) return "invalid";
-  return Number(parsed.toFixed(2));
-}
-
-function formatFee(value: number | null) {
-  if (value === null) return "";
-  return value.toFixed(2);
-}
-
 function formatCurrency(value: number) {
   return `EUR ${value.toFixed(2)}`;
 }
@@ -86,8 +73,9 @@ export function ParticipationFeesTable() {
   const [sortDirection, setSortDirection] = useState<SortDirection>("asc");
 
   const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
-  const [feeDrafts, setFeeDrafts] = useState<DraftFees>({});
-  const [savingIds, setSavingIds] = useState<Set<string>>(new Set());
+  const [recordPaymentIds, setRecordPaymentIds] = useState<string[] | null>(null);
+  const [historyParticipantId, setHistoryParticipantId] = useState<string | null>(null);
+  const [downloadingKey, setDownloadingKey] = useState<string | null>(null);
   const [bulkSaving, setBulkSaving] = useState(false);
   const [actionError, setActionError] = useState<string | null>(null);
   const [actionSuccess, setActionSuccess] = useState<string | null>(null);
@@ -204,6 +192,28 @@ export function ParticipationFeesTable() {
     return [...byGroup.values()].sort((a, b) => a.group.localeCompare(b.group));
   }, [t, visibleParticipants]);
 
+  const historyParticipant = useMemo(
+    () => participants.find((participant) => participant.id === historyParticipantId) ?? null,
+    [historyParticipantId, participants]
+  );
+
+  const recordPaymentParticipants = useMemo(() => {
+    if (!recordPaymentIds) return [];
+    const ids = new Set(recordPaymentIds);
+    return participants.filter((participant) => ids.has(participant.id));
+  }, [participants, recordPaymentIds]);
+
+  // Anyone in the same groups can be recorded as payer, e.g. a group leader paying for everyone.
+  const payerOptions = useMemo(() => {
+    const focus = historyParticipant ? [historyParticipant] : recordPaymentParticipants;
+    const focusGroups = new Set(focus.map((participant) => participant.group));
+    return participants
+      .filter((participant) => focusGroups.has(participant.group))
+      .sort((a, b) =>
+        `${a.cognome ?? ""} ${a.nome ?? ""}`.localeCompare(`${b.cognome ?? ""} ${b.nome ?? ""}`)
+      );
+  }, [historyParticipant, participants, recordPaymentParticipants]);
+
   const allVisibleSelected =
     visibleIds.length > 0 && visibleIds.every((id) => selectedIds.has(id));
 
@@ -229,63 +239,37 @@ export function ParticipationFeesTable() {
     setAlloggioFilter("");
   }
 
-  function setDraft(participant: Participant, value: string) {
-    setFeeDrafts((prev) => ({ ...prev, [participant.id]: value }));
-    setActionError(null);
-  }
-
-  function draftValue(participant: Participant) {
-    const fromDraft = feeDrafts[participant.id];
-    if (fromDraft !== undefined) return fromDraft;
-    return formatFee(participant.fee_paid);
+  function mergeParticipants(updatedRows: Participant[]) {
+    const updatedById = new Map(updatedRows.map((row) => [row.id, row]));
+    setParticipants((prev) => prev.map((row) => updatedById.get(row.id) ?? row));
   }
 
-  async function saveManualFee(participant: Participant) {
-    const nextValue = draftValue(participant);
-    const normalized = normalizeFeeInput(nextValue);
+  async function downloadDocument(key: string, query: string) {
+    if (downloadingKey) return;
 
-    if (normalized === "invalid") {
-      setActionError(t("fees.invalidValue"));
-      return;
-    }
-
-    if (normalized === participant.fee_paid) {
-      return;
-    }
-
-    setSavingIds((prev) => new Set(prev).add(participant.id));
+    setDownloadingKey(key);
     setActionError(null);
-    setActionSuccess(null);
 
     try {
-      const res = await fetch("/api/manager/participation-fees", {
-        method: "PATCH",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ id: participant.id, fee_paid: normalized }),
-      });
-      const json = await res.json();
-
+      const res = await fetch(`/api/manager/fee-documents?${query}`, { method: "GET" });
       if (!res.ok) {
-        setActionError(json.error ?? t("fees.saveError"));
+        const json = await res.json().catch(() => ({}));
+        setActionError(json.error ?? t("fees.documents.error"));
         return;
       }
 
-      const updated = json.participant as Participant;
-      setParticipants((prev) => prev.map((row) => (row.id === updated.id ? updated : row)));
-      setFeeDrafts((prev) => {
-        const next = { ...prev };
-        delete next[participant.id];
-        return next;
-      });
-      setActionSuccess(t("fees.saveSuccess"));
+      const disposition = res.headers.get("Content-Disposition") ?? "";
+      const fileName = disposition.match(/filename="([^"]+)"/)?.[1] ?? "document.pdf";
+      const url = URL.createObjectURL(await res.blob());
+      const link = document.createElement("a");
+      link.href = url;
+      link.download = fileName;
+      link.click();
+      URL.revokeObjectURL(url);
     } catch {
-      setActionError(t("fees.saveError"));
+      setActionError(t("fees.documents.error"));
     } finally {
-      setSavingIds((prev) => {
-        const next = new Set(prev);
-        next.delete(participant.id);
-        return next;
-      });
+      setDownloadingKey(null);
     }
   }
 
@@ -337,21 +321,8 @@ export function ParticipationFeesTable() {
         return;
       }
 
-      const updatedRows = Array.isArray(json.participants)
-        ? (json.participants as Participant[])
-        : [];
-      const updatedById = new Map(updatedRows.map((row) => [row.id, row]));
-
-      setParticipants((prev) => prev.map((row) => updatedById.get(row.id) ?? row));
+      mergeParticipants(Array.isArray(json.participants) ? (json.participants as Participant[]) : []);
       setSelectedIds(new Set());
-      setFeeDrafts((prev) => {
-        if (updatedRows.length === 0) return prev;
-        const next = { ...prev };
-        for (const row of updatedRows) {
-          delete next[row.id];
-        }
-        return next;
-      });
 
       setActionSuccess(t("fees.bulkSuccess"));
     } catch {
@@ -394,12 +365,13 @@ export function ParticipationFeesTable() {
                 <th className="px-4 py-3">{t("fees.totalExpected")}</th>
                 <th className="px-4 py-3">{t("fees.totalPaid")}</th>
                 <th className="px-4 py-3">{t("fees.outstanding")}</th>
+                <th className="px-4 py-3" />
               </tr>
             </thead>
             <tbody>
               {groupSummaryRows.length === 0 ? (
                 <tr>
-                  <td className="px-4 py-4 text-slate-500" colSpan={5}>
+                  <td className="px-4 py-4 text-slate-500" colSpan={6}>
                     {t("fees.noGroups")}
                   </td>
                 </tr>
@@ -411,6 +383,25 @@ export function ParticipationFeesTable() {
                     <td className="px-4 py-3">{formatCurrency(row.totalExpectedFee)}</td>
                     <td className="px-4 py-3">{formatCurrency(row.totalPaidFee)}</td>
                     <td className="px-4 py-3">{formatCurrency(row.outstandingFee)}</td>
+                    <td className="px-4 py-3 text-right">
+                      {row.group !== t("participants.table.noGroup") && (
+                        <button
+                          type="button"
+                          onClick={() =>
+                            void downloadDocument(
+                              `invoice:${row.group}`,
+                              `type=invoice&group=${encodeURIComponent(row.group)}`
+                            )
+                          }
+                          disabled={downloadingKey !== null}
+                          className="rounded border border-slate-300 px-2 py-1 text-xs text-slate-700 hover:bg-slate-100 disabled:opacity-60"
+                        >
+                          {downloadingKey === `invoice:${row.group}`
+                            ? t("fees.documents.downloading")
+                            : t("fees.documents.invoice")}
+                        </button>
+                      )}
+                    </td>
                   </tr>
                 ))
               )}
@@ -427,14 +418,27 @@ export function ParticipationFeesTable() {
             {t("fees.groupFilterHint", { count: groups.length })}
           </p>
         </div>
-        <button
-          type="button"
-          onClick={markAsFullyPaid}
-          disabled={bulkSaving || selectedIds.size === 0}
-          className="rounded border border-indigo-600 bg-indigo-600 px-3 py-2 text-sm font-medium text-white disabled:cursor-not-allowed disabled:opacity-60"
-        >
-          {bulkSaving ? t("participant.form.saving") : t("fees.markFullyPaid")}
-        </button>
+        <div className="flex flex-wrap gap-2">
+          <button
+            type="button"
+            onClick={() => {
+              setActionSuccess(null);
+              setRecordPaymentIds([...selectedIds]);
+            }}
+            disabled={bulkSaving || selectedIds.size === 0}
+            className="rounded border border-slate-300 px-3 py-2 text-sm font-medium text-slate-700 hover:bg-slate-100 disabled:cursor-not-allowed disabled:opacity-60"
+          >
+            {t("fees.recordPayment")}
+          </button>
+          <button
+            type="button"
+            onClick={markAsFullyPaid}
+            disabled={bulkSaving || selectedIds.size === 0}
+            className="rounded border border-indigo-600 bg-indigo-600 px-3 py-2 text-sm font-medium text-white disabled:cursor-not-allowed disabled:opacity-60"
+          >
+            {bulkSaving ? t("participant.form.saving") : t("fees.markFullyPaid")}
+          </button>
+        </div>
       </div>
 
       {actionError && (
@@ -570,7 +574,6 @@ export function ParticipationFeesTable() {
               </tr>
             ) : (
               visibleParticipants.map((participant) => {
-                const isSaving = savingIds.has(participant.id);
                 return (
                   <tr key={participant.id} className="border-t border-slate-100">
                     <td className="px-4 py-3">
@@ -601,23 +604,37 @@ export function ParticipationFeesTable() {
                         : formatCurrency(participant.quota_totale)}
                     </td>
                     <td className="px-4 py-3">
-                      <input
-                        type="number"
-                        min="0"
-                        step="0.01"
-                        value={draftValue(participant)}
-                        onChange={(e) => setDraft(participant, e.target.value)}
-                        onBlur={() => void saveManualFee(participant)}
-                        onKeyDown={(e) => {
-                          if (e.key === "Enter") {
-                            e.preventDefault();
-                            void saveManualFee(participant);
-                          }
-                        }}
-                        disabled={isSaving}
-                        placeholder={t("fees.amountPlaceholder")}
-                        className="w-28 rounded border border-slate-300 px-2 py-1 text-xs"
-                      />
+                      <div className="flex items-center gap-2">
+                        <span>
+                          {participant.fee_paid === null
+                            ? "-"
+                            : formatCurrency(participant.fee_paid)}
+                        </span>
+                        <button
+                          type="button"
+                          onClick={() => setHistoryParticipantId(participant.id)}
+                          className="rounded border border-slate-300 px-2 py-1 text-xs text-slate-700 hover:bg-slate-100"
+                        >
+                          {t("fees.payments")}
+                        </button>
+                        {(participant.fee_paid ?? 0) > 0 && (
+                          <button
+                            type="button"
+                            onClick={() =>
+                              void downloadDocument(
+                                `receipt:${participant.id}`,
+                                `type=receipt&participantId=${encodeURIComponent(participant.id)}`
+                              )
+                            }
+                            disabled={downloadingKey !== null}
+                            className="rounded border border-slate-300 px-2 py-1 text-xs text-slate-700 hover:bg-slate-100 disabled:opacity-60"
+                          >
+                            {downloadingKey === `receipt:${participant.id}`
+                              ? t("fees.documents.downloading")
+                              : t("fees.documents.receipt")}
+                          </button>
+                        )}
+                      </div>
                     </td>
                   </tr>
                 );
@@ -627,6 +644,33 @@ export function ParticipationFeesTable() {
         </table>
       </div>
     </div>
+
+      {historyParticipant && (
+        <PaymentHistoryModal
+          participant={historyParticipant}
+          payerOptions={payerOptions}
+          onClose={() => setHistoryParticipantId(null)}
+          onChanged={(row) => {
+            mergeParticipants([row]);
+            setActionSuccess(t("fees.payments.deleteSuccess"));
+          }}
+          onRecordPayment={() => setRecordPaymentIds([historyParticipant.id])}
+        />
+      )}
+
+      {recordPaymentParticipants.length > 0 && (
+        <RecordPaymentModal
+          participants={recordPaymentParticipants}
+          payerOptions={payerOptions}
+          onClose={() => setRecordPaymentIds(null)}
+          onSaved={(rows) => {
+            mergeParticipants(rows);
+            setRecordPaymentIds(null);
+            setActionError(null);
+            setActionSuccess(t("fees.payments.saveSuccess"));
+          }}
+        />
+      )}
     </div>
   );
 }
@@ -0,0 +1,489 @@
+"use client";
+
+import { FormEvent, useEffect, useState } from "react";
+
+type CapacityConfig = {
+  total_limit: number | null;
+  accommodation_limits: Record<string, number>;
+  nightly_limit: number | null;
+  night_limits: Record<string, number>;
+  promotion_subject: string;
+  promotion_html: string;
+  updated_at: string | null;
+};
+
+type UsageRow = { used: number; limit: number | null };
+
+type CapacityUsage = {
+  total: UsageRow;
+  accommodation: Array<UsageRow & { key: string }>;
+  nights: Array<UsageRow & { night: string }>;
+};
+
+type WaitlistEntry = {
+  id: string;
+  rank: number;
+  waitlist_position: number | null;
+  nome: string | null;
+  cognome: string | null;
+  email: string | null;
+  group: string;
+  data_arrivo: string | null;
+  data_partenza: string | null;
+  alloggio_short: string | null;
+  waitlisted_at: string | null;
+  waitlist_reason: string | null;
+  blocking: string[];
+};
+
+type CapacityForm = {
+  total_limit: string;
+  nightly_limit: string;
+  accommodation_limits: Record<string, string>;
+  night_limits: Record<string, string>;
+  promotion_subject: string;
+  promotion_html: string;
+};
+
+function limitToText(value: number | null | undefined) {
+  return value === null || value === undefined ? "" : String(value);
+}
+
+function textToLimit(value: string): number | null {
+  const trimmed = value.trim();
+  return trimmed ? Number(trimmed) : null;
+}
+
+function configToForm(
+  config: CapacityConfig,
+  accommodationOptions: string[],
+  eventNights: string[]
+): CapacityForm {
+  const accommodationKeys = new Set([
+    ...accommodationOptions,
+    ...Object.keys(config.accommodation_limits),
+  ]);
+  const nights = new Set([...eventNights, ...Object.keys(config.night_limits)]);
+
+  return {
+    total_limit: limitToText(config.total_limit),
+    nightly_limit: limitToText(config.nightly_limit),
+    accommodation_limits: Object.fromEntries(
+      [...accommodationKeys].map((key) => [key, limitToText(config.accommodation_limits[key])])
+    ),
+    night_limits: Object.fromEntries(
+      [...nights].sort().map((night) => [night, limitToText(config.night_limits[night])])
+    ),
+    promotion_subject: config.promotion_subject,
+    promotion_html: config.promotion_html,
+  };
+}
+
+function limitMap(values: Record<string, string>) {
+  const result: Record<string, number | null> = {};
+  for (const [key, value] of Object.entries(values)) {
+    result[key] = textToLimit(value);
+  }
+  return result;
+}
+
+function formatUsage(row: UsageRow) {
+  return row.limit === null ? `${row.used} / no limit` : `${row.used} / ${row.limit}`;
+}
+
+function usageClass(row: UsageRow) {
+  if (row.limit === null) return "text-slate-700";
+  if (row.used >= row.limit) return "font-semibold text-red-700";
+  if (row.used >= row.limit * 0.9) return "font-semibold text-amber-700";
+  return "text-slate-700";
+}
+
+function fullName(entry: WaitlistEntry) {
+  return [entry.nome ?? "", entry.cognome ?? ""].join(" ").trim() || "-";
+}
+
+export function RegistrationCapacityManager() {
+  const [form, setForm] = useState<CapacityForm | null>(null);
+  const [usage, setUsage] = useState<CapacityUsage | null>(null);
+  const [waitlist, setWaitlist] = useState<WaitlistEntry[]>([]);
+  const [updatedAt, setUpdatedAt] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [busy, setBusy] = useState(false);
+  const [promotingId, setPromotingId] = useState<string | null>(null);
+  const [sendEmail, setSendEmail] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [success, setSuccess] = useState<string | null>(null);
+
+  useEffect(() => {
+    void loadCapacity();
+  }, []);
+
+  async function loadCapacity() {
+    setLoading(true);
+    setError(null);
+
+    try {
+      const res = await fetch("/api/manager/registration-capacity", { cache: "no-store" });
+      const json = (await res.json()) as {
+        config?: CapacityConfig;
+        usage?: CapacityUsage;
+        waitlist?: WaitlistEntry[];
+        accommodationOptions?: string[];
+        eventNights?: string[];
+        error?: string;
+      };
+      if (!res.ok || !json.config) {
+        setError(json.error ?? "Unable to load capacity settings.");
+        return;
+      }
+      setForm(configToForm(json.config, json.accommodationOptions ?? [], json.eventNights ?? []));
+      setUpdatedAt(json.config.updated_at);
+      setUsage(json.usage ?? null);
+      setWaitlist(json.waitlist ?? []);
+    } catch {
+      setError("Unable to load capacity settings.");
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  async function handleSave(event: FormEvent<HTMLFormElement>) {
+    event.preventDefault();
+    if (!form) return;
+
+    setBusy(true);
+    setError(null);
+    setSuccess(null);
+
+    try {
+      const res = await fetch("/api/manager/registration-capacity", {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          settings: {
+            total_limit: textToLimit(form.total_limit),
+            nightly_limit: textToLimit(form.nightly_limit),
+            accommodation_limits: limitMap(form.accommodation_limits),
+            night_limits: limitMap(form.night_limits),
+          },
+          promotion_subject: form.promotion_subject,
+          promotion_html: form.promotion_html,
+        }),
+      });
+      const json = (await res.json()) as { error?: string };
+      if (!res.ok) {
+        setError(json.error ?? "Unable to save capacity settings.");
+        return;
+      }
+      setSuccess("Capacity settings saved. New registrations over a limit go to the waitlist.");
+      await loadCapacity();
+    } catch {
+      setError("Unable to save capacity settings.");
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  async function handlePromote(entry: WaitlistEntry) {
+    const force = entry.blocking.length > 0;
+    if (
+      force &&
+      !window.confirm(
+        `Promoting ${fullName(entry)} exceeds capacity:\n${entry.blocking.join("\n")}\n\nPromote anyway?`
+      )
+    ) {
+      return;
+    }
+
+    setPromotingId(entry.id);
+    setError(null);
+    setSuccess(null);
+
+    try {
+      const res = await fetch("/api/manager/registration-capacity", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ participantId: entry.id, force, sendEmail }),
+      });
+      const json = (await res.json()) as {
+        error?: string;
+        emailSent?: boolean;
+        emailError?: string | null;
+      };
+      if (!res.ok) {
+        setError(json.error ?? "Unable to promote participant.");
+        return;
+      }
+
+      if (json.emailSent) {
+        setSuccess(`${fullName(entry)} confirmed and notified by email.`);
+      } else if (json.emailError) {
+        setError(`${fullName(entry)} confirmed, but the email was not sent: ${json.emailError}`);
+      } else {
+        setSuccess(`${fullName(entry)} confirmed.`);
+      }
+      await loadCapacity();
+    } catch {
+      setError("Unable to promote participant.");
+    } finally {
+      setPromotingId(null);
+    }
+  }
+
+  if (loading && !form) {
+    return (
+      <div className="rounded border border-slate-200 bg-white px-4 py-6 text-sm text-slate-500">
+        Loading capacity...
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      {error && (
+        <div className="rounded border border-red-200 bg-red-50 px-4 py-3 text-sm text-red-700">
+          {error}
+        </div>
+      )}
+      {success && (
+        <div className="rounded border border-emerald-200 bg-emerald-50 px-4 py-3 text-sm text-emerald-700">
+          {success}
+        </div>
+      )}
+
+      {usage ? (
+        <section className="rounded-xl border border-slate-200 bg-white p-4 shadow-sm">
+          <h2 className="text-lg font-semibold text-slate-900">Current usage</h2>
+          <p className="mt-1 text-xs text-slate-500">
+            Confirmed registrations only. A night counts everyone staying from their arrival day up
+            to, but not including, their departure day.
+          </p>
+          <div className="mt-4 grid gap-4 md:grid-cols-3">
+            <div className="rounded border border-slate-200 p-3">
+              <p className="text-xs uppercase text-slate-500">Overall</p>
+              <p className={`mt-1 text-lg ${usageClass(usage.total)}`}>{formatUsage(usage.total)}</p>
+              <p className="mt-1 text-xs text-slate-500">{waitlist.length} on the waitlist</p>
+            </div>
+            <div className="rounded border border-slate-200 p-3">
+              <p className="text-xs uppercase text-slate-500">Accommodation</p>
+              <ul className="mt-1 space-y-1 text-sm">
+                {usage.accommodation.map((row) => (
+                  <li key={row.key} className="flex justify-between gap-2">
+                    <span>{row.key}</span>
+                    <span className={usageClass(row)}>{formatUsage(row)}</span>
+                  </li>
+                ))}
+              </ul>
+            </div>
+            <div className="rounded border border-slate-200 p-3">
+              <p className="text-xs uppercase text-slate-500">Nights</p>
+              <ul className="mt-1 space-y-1 text-sm">
+                {usage.nights.map((row) => (
+                  <li key={row.night} className="flex justify-between gap-2">
+                    <span>{row.night}</span>
+                    <span className={usageClass(row)}>{formatUsage(row)}</span>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          </div>
+        </section>
+      ) : null}
+
+      <section className="rounded-xl border border-slate-200 bg-white p-4 shadow-sm">
+        <div className="flex flex-wrap items-start justify-between gap-3">
+          <div>
+            <h2 className="text-lg font-semibold text-slate-900">Waitlist</h2>
+            <p className="mt-1 text-xs text-slate-500">
+              Ordered by waitlist number. Promoting confirms the registration and sends the
+              promotion email below; when a limit would still be exceeded you are asked to confirm.
+            </p>
+          </div>
+          <label className="inline-flex items-center gap-2 text-sm text-slate-700">
+            <input
+              type="checkbox"
+              checked={sendEmail}
+              onChange={(e) => setSendEmail(e.target.checked)}
+              className="h-4 w-4"
+            />
+            Send promotion email
+          </label>
+        </div>
+
+        {waitlist.length === 0 ? (
+          <p className="mt-4 text-sm text-slate-500">Nobody is on the waitlist.</p>
+        ) : (
+          <div className="mt-4 overflow-x-auto rounded border border-slate-200">
+            <table className="w-full border-collapse text-left text-sm">
+              <thead className="bg-slate-50 text-slate-700">
+                <tr>
+                  <th className="px-4 py-3">#</th>
+                  <th className="px-4 py-3">Participant</th>
+                  <th className="px-4 py-3">Group</th>
+                  <th className="px-4 py-3">Stay</th>
+                  <th className="px-4 py-3">Accommodation</th>
+                  <th className="px-4 py-3">Waitlisted because</th>
+                  <th className="px-4 py-3" />
+                </tr>
+              </thead>
+              <tbody>
+                {waitlist.map((entry) => (
+                  <tr key={entry.id} className="border-t border-slate-100 align-top">
+                    <td className="px-4 py-3">
+                      <span className="font-semibold">{entry.rank}</span>
+                      <span className="block text-xs text-slate-500">
+                        no. {entry.waitlist_position ?? "-"}
+                      </span>
+                    </td>
+                    <td className="px-4 py-3">
+                      {fullName(entry)}
+                      <span className="block text-xs text-slate-500">{entry.email ?? "-"}</span>
+                    </td>
+                    <td className="px-4 py-3">{entry.group}</td>
+                    <td className="px-4 py-3 whitespace-nowrap">
+                      {entry.data_arrivo ?? "-"} - {entry.data_partenza ?? "-"}
+                    </td>
+                    <td className="px-4 py-3">{entry.alloggio_short ?? "-"}</td>
+                    <td className="max-w-xs px-4 py-3 text-xs text-slate-600">
+                      {entry.waitlist_reason ?? "-"}
+                      {entry.blocking.length === 0 ? (
+                        <span className="mt-1 block font-medium text-emerald-700">Fits now</span>
+                      ) : null}
+                    </td>
+                    <td className="px-4 py-3 text-right">
+                      <button
+                        type="button"
+                        onClick={() => void handlePromote(entry)}
+                        disabled={promotingId !== null}
+                        className="rounded bg-indigo-600 px-3 py-1.5 text-xs font-medium text-white hover:bg-indigo-700 disabled:opacity-60"
+                      >
+                        {promotingId === entry.id ? "Promoting..." : "Promote"}
+                      </button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </section>
+
+      {form ? (
+        <form
+          onSubmit={handleSave}
+          className="space-y-4 rounded-xl border border-slate-200 bg-white p-4 shadow-sm"
+        >
+          <div>
+            <h2 className="text-lg font-semibold text-slate-900">Capacity limits</h2>
+            <p className="mt-1 text-xs text-slate-500">
+              Leave a field empty for no limit. Limits apply to new registrations; people already
+              confirmed are never moved to the waitlist.
+              {updatedAt ? ` Last saved ${new Date(updatedAt).toLocaleString()}.` : ""}
+            </p>
+          </div>
+
+          <div className="grid gap-4 md:grid-cols-2">
+            <div>
+              <label className="block text-sm font-medium text-slate-700">Overall limit</label>
+              <input
+                type="number"
+                min={0}
+                value={form.total_limit}
+                onChange={(e) => setForm({ ...form, total_limit: e.target.value })}
+                className="mt-1 w-full rounded border border-slate-300 px-3 py-2 text-sm"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-slate-700">Default limit per night</label>
+              <input
+                type="number"
+                min={0}
+                value={form.nightly_limit}
+                onChange={(e) => setForm({ ...form, nightly_limit: e.target.value })}
+                className="mt-1 w-full rounded border border-slate-300 px-3 py-2 text-sm"
+              />
+            </div>
+          </div>
+
+          <div className="grid gap-4 md:grid-cols-2">
+            <div>
+              <p className="text-sm font-medium text-slate-700">Per accommodation type</p>
+              <div className="mt-2 space-y-2">
+                {Object.entries(form.accommodation_limits).map(([key, value]) => (
+                  <label key={key} className="flex items-center justify-between gap-3 text-sm">
+                    <span>{key}</span>
+                    <input
+                      type="number"
+                      min={0}
+                      value={value}
+                      onChange={(e) =>
+                        setForm({
+                          ...form,
+                          accommodation_limits: { ...form.accommodation_limits, [key]: e.target.value },
+                        })
+                      }
+                      className="w-28 rounded border border-slate-300 px-3 py-1.5 text-sm"
+                    />
+                  </label>
+                ))}
+              </div>
+            </div>
+            <div>
+              <p className="text-sm font-medium text-slate-700">Per night (overrides the default)</p>
+              <div className="mt-2 space-y-2">
+                {Object.entries(form.night_limits).map(([night, value]) => (
+                  <label key={night} className="flex items-center justify-between gap-3 text-sm">
+                    <span>{night}</span>
+                    <input
+                      type="number"
+                      min={0}
+                      value={value}
+                      placeholder={form.nightly_limit || "no limit"}
+                      onChange={(e) =>
+                        setForm({
+                          ...form,
+                          night_limits: { ...form.night_limits, [night]: e.target.value },
+                        })
+                      }
+                      className="w-28 rounded border border-slate-300 px-3 py-1.5 text-sm"
+                    />
+                  </label>
+                ))}
+              </div>
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <p className="text-sm font-medium text-slate-700">Promotion email</p>
+            <p className="text-xs text-slate-500">
+              Uses the participant placeholders of email campaigns, e.g. {"{{full_name}}"},{" "}
+              {"{{data_arrivo}}"}, {"{{data_partenza}}"}, {"{{group}}"}.
+            </p>
+            <input
+              value={form.promotion_subject}
+              onChange={(e) => setForm({ ...form, promotion_subject: e.target.value })}
+              className="w-full rounded border border-slate-300 px-3 py-2 text-sm"
+              placeholder="Subject"
+            />
+            <textarea
+              rows={6}
+              value={form.promotion_html}
+              onChange={(e) => setForm({ ...form, promotion_html: e.target.value })}
+              className="w-full rounded border border-slate-300 px-3 py-2 font-mono text-xs"
+            />
+          </div>
+
+          <div className="flex justify-end">
+            <button
+              type="submit"
+              disabled={busy}
+              className="rounded bg-indigo-600 px-4 py-2 text-sm font-medium text-white hover:bg-indigo-700 disabled:opacity-60"
+            >
+              {busy ? "Saving..." : "Save capacity"}
+            </button>
+          </div>
+        </form>
+      ) : null}
+    </div>
+  );
+}
@@ -0,0 +1,529 @@
+"use client";
+
+import { FormEvent, Fragment, useCallback, useEffect, useMemo, useState } from "react";
+import {
+  clusterTravelLegs,
+  DEFAULT_WINDOW_MINUTES,
+  shuttleAssignmentError,
+  TRAVEL_DIRECTIONS,
+  type TravelCluster,
+  type TravelDirection,
+  type TravelLeg,
+} from "@/lib/travel/logistics";
+import type { PlannedShuttleRun, TravelPlan } from "@/lib/travel/store";
+
+type RunDraft = {
+  direction: TravelDirection;
+  run_date: string;
+  departure_time: string;
+  location: string;
+  capacity: string;
+  driver_name: string;
+  driver_phone: string;
+  vehicle: string;
+  notes: string;
+};
+
+// Where the run form is open: a new run for a window, or an existing run.
+type Editing =
+  | { kind: "cluster"; key: string; participantIds: string[] }
+  | { kind: "run"; id: string };
+
+const WINDOW_OPTIONS = [60, 90, 120];
+
+const DIRECTION_LABELS: Record<TravelDirection, string> = {
+  arrival: "Arrival",
+  departure: "Departure",
+};
+
+function draftFromCluster(cluster: TravelCluster, unassigned: number): RunDraft {
+  return {
+    direction: cluster.direction,
+    run_date: cluster.date,
+    departure_time: cluster.suggestedTime,
+    location: cluster.location,
+    capacity: String(Math.max(unassigned, 1)),
+    driver_name: "",
+    driver_phone: "",
+    vehicle: "",
+    notes: "",
+  };
+}
+
+function draftFromRun(run: PlannedShuttleRun): RunDraft {
+  return {
+    direction: run.direction,
+    run_date: run.run_date,
+    departure_time: run.departure_time,
+    location: run.location,
+    capacity: String(run.capacity),
+    driver_name: run.driver_name ?? "",
+    driver_phone: run.driver_phone ?? "",
+    vehicle: run.vehicle ?? "",
+    notes: run.notes ?? "",
+  };
+}
+
+function legSummary(leg: TravelLeg) {
+  return [leg.mode, leg.reference, leg.time].filter(Boolean).join(" · ");
+}
+
+export function TransportPlanner() {
+  const [plan, setPlan] = useState<TravelPlan | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+  const [windowMinutes, setWindowMinutes] = useState(DEFAULT_WINDOW_MINUTES);
+  const [editing, setEditing] = useState<Editing | null>(null);
+  const [draft, setDraft] = useState<RunDraft | null>(null);
+  const [busy, setBusy] = useState(false);
+
+  const load = useCallback(async () => {
+    try {
+      const res = await fetch("/api/manager/shuttles", { cache: "no-store" });
+      const json = (await res.json()) as TravelPlan & { error?: string };
+      if (!res.ok) {
+        setError(json.error ?? "Unable to load the transport plan.");
+        return;
+      }
+      setPlan(json);
+    } catch {
+      setError("Unable to load the transport plan.");
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    void load();
+  }, [load]);
+
+  const clusters = useMemo(
+    () => (plan ? clusterTravelLegs(plan.legs, windowMinutes) : []),
+    [plan, windowMinutes]
+  );
+
+  const runsByDate = useMemo(() => {
+    const byDate = new Map<string, PlannedShuttleRun[]>();
+    for (const run of plan?.runs ?? []) {
+      byDate.set(run.run_date, [...(byDate.get(run.run_date) ?? []), run]);
+    }
+    return [...byDate.entries()];
+  }, [plan]);
+
+  // Sends a change, then reloads the plan so counts and clusters stay consistent.
+  async function mutate(
+    method: string,
+    body: unknown,
+    query = ""
+  ): Promise<Record<string, unknown> | null> {
+    setBusy(true);
+    setError(null);
+    setNotice(null);
+    try {
+      const res = await fetch(`/api/manager/shuttles${query}`, {
+        method,
+        headers: { "Content-Type": "application/json" },
+        body: body === null ? undefined : JSON.stringify(body),
+      });
+      const json = (await res.json()) as Record<string, unknown>;
+      if (!res.ok) {
+        setError(
+          typeof json.error === "string" ? json.error : "Unable to update the transport plan."
+        );
+        return null;
+      }
+      await load();
+      return json;
+    } catch {
+      setError("Unable to update the transport plan.");
+      return null;
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  function openCluster(cluster: TravelCluster) {
+    const participantIds = cluster.legs
+      .filter((leg) => !leg.shuttleRunId)
+      .map((leg) => leg.participantId);
+    setEditing({ kind: "cluster", key: cluster.key, participantIds });
+    setDraft(draftFromCluster(cluster, participantIds.length));
+  }
+
+  function openRun(run: PlannedShuttleRun) {
+    setEditing({ kind: "run", id: run.id });
+    setDraft(draftFromRun(run));
+  }
+
+  function closeForm() {
+    setEditing(null);
+    setDraft(null);
+  }
+
+  async function submitRun(event: FormEvent<HTMLFormElement>) {
+    event.preventDefault();
+    if (!editing || !draft) return;
+
+    if (editing.kind === "cluster") {
+      const json = await mutate("POST", { ...draft, participantIds: editing.participantIds });
+      if (!json) return;
+      const skipped = Array.isArray(json.skipped) ? json.skipped.length : 0;
+      if (skipped > 0) {
+        setNotice(`Shuttle created. ${skipped} participant(s) did not fit and are still unassigned.`);
+      }
+    } else {
+      const json = await mutate("PUT", { id: editing.id, ...draft });
+      if (!json) return;
+    }
+    closeForm();
+  }
+
+  async function removeRun(run: PlannedShuttleRun) {
+    const label = `${run.run_date} ${run.departure_time} ${run.location}`;
+    if (!window.confirm(`Delete the shuttle of ${label}? Its passengers become unassigned.`)) return;
+    await mutate("DELETE", null, `?id=${encodeURIComponent(run.id)}`);
+  }
+
+  async function assign(leg: TravelLeg, runId: string | null) {
+    await mutate("PATCH", { participantId: leg.participantId, direction: leg.direction, runId });
+  }
+
+  const inputClass = "w-full rounded border border-slate-300 px-3 py-2 text-sm";
+
+  function runForm() {
+    if (!draft) return null;
+    return (
+      <form onSubmit={submitRun} className="mt-3 space-y-3 rounded border border-slate-200 bg-slate-50 p-3">
+        <div className="grid gap-3 md:grid-cols-4">
+          <label className="flex flex-col gap-1 text-xs text-slate-600">
+            Date
+            <input
+              type="date"
+              required
+              value={draft.run_date}
+              onChange={(e) => setDraft({ ...draft, run_date: e.target.value })}
+              className={inputClass}
+            />
+          </label>
+          <label className="flex flex-col gap-1 text-xs text-slate-600">
+            Departure time
+            <input
+              type="time"
+              required
+              value={draft.departure_time}
+              onChange={(e) => setDraft({ ...draft, departure_time: e.target.value })}
+              className={inputClass}
+            />
+          </label>
+          <label className="flex flex-col gap-1 text-xs text-slate-600">
+            Airport / station
+            <input
+              required
+              value={draft.location}
+              onChange={(e) => setDraft({ ...draft, location: e.target.value })}
+              className={inputClass}
+            />
+          </label>
+          <label className="flex flex-col gap-1 text-xs text-slate-600">
+            Seats
+            <input
+              type="number"
+              min={1}
+              required
+              value={draft.capacity}
+              onChange={(e) => setDraft({ ...draft, capacity: e.target.value })}
+              className={inputClass}
+            />
+          </label>
+          <label className="flex flex-col gap-1 text-xs text-slate-600">
+            Driver
+            <input
+              value={draft.driver_name}
+              onChange={(e) => setDraft({ ...draft, driver_name: e.target.value })}
+              className={inputClass}
+            />
+          </label>
+          <label className="flex flex-col gap-1 text-xs text-slate-600">
+            Driver phone
+            <input
+              value={draft.driver_phone}
+              onChange={(e) => setDraft({ ...draft, driver_phone: e.target.value })}
+              className={inputClass}
+            />
+          </label>
+          <label className="flex flex-col gap-1 text-xs text-slate-600">
+            Vehicle
+            <input
+              value={draft.vehicle}
+              onChange={(e) => setDraft({ ...draft, vehicle: e.target.value })}
+              className={inputClass}
+            />
+          </label>
+          <label className="flex flex-col gap-1 text-xs text-slate-600">
+            Notes for the driver
+            <input
+              value={draft.notes}
+              onChange={(e) => setDraft({ ...draft, notes: e.target.value })}
+              className={inputClass}
+            />
+          </label>
+        </div>
+        {editing?.kind === "cluster" ? (
+          <p className="text-xs text-slate-500">
+            {editing.participantIds.length} unassigned participant(s) of this window will be seated.
+          </p>
+        ) : null}
+        <div className="flex gap-2">
+          <button
+            type="submit"
+            disabled={busy}
+            className="rounded bg-indigo-600 px-4 py-2 text-sm font-medium text-white disabled:opacity-60"
+          >
+            {editing?.kind === "cluster" ? "Create shuttle" : "Save shuttle"}
+          </button>
+          <button
+            type="button"
+            onClick={closeForm}
+            className="rounded border border-slate-300 px-4 py-2 text-sm font-medium text-slate-700 hover:bg-slate-100"
+          >
+            Cancel
+          </button>
+        </div>
+      </form>
+    );
+  }
+
+  function assignSelect(leg: TravelLeg) {
+    const options = (plan?.runs ?? []).filter(
+      (run) =>
+        run.id === leg.shuttleRunId ||
+        shuttleAssignmentError(run, leg, run.passengers) === null
+    );
+    return (
+      <select
+        value={leg.shuttleRunId ?? ""}
+        disabled={busy}
+        onChange={(e) => void assign(leg, e.target.value || null)}
+        className="rounded border border-slate-300 px-2 py-1 text-xs"
+      >
+        <option value="">No shuttle</option>
+        {options.map((run) => (
+          <option key={run.id} value={run.id}>
+            {run.departure_time} {run.location} ({run.passengers}/{run.capacity})
+          </option>
+        ))}
+      </select>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      {error && (
+        <div className="rounded border border-red-200 bg-red-50 px-4 py-3 text-sm text-red-700">
+          {error}
+        </div>
+      )}
+      {notice && (
+        <div className="rounded border border-amber-200 bg-amber-50 px-4 py-3 text-sm text-amber-800">
+          {notice}
+        </div>
+      )}
+
+      <section className="rounded-xl border border-slate-200 bg-white p-4 shadow-sm">
+        <div className="flex flex-wrap items-start justify-between gap-3">
+          <div>
+            <h2 className="text-lg font-semibold text-slate-900">Arrivals and departures</h2>
+            <p className="mt-1 max-w-2xl text-xs text-slate-500">
+              Travel details entered by participants and group leaders, clustered into time
+              windows per airport or station. Create a shuttle for a window to seat everyone in
+              it, then print the manifests for the drivers. Travellers by car are not clustered.
+            </p>
+          </div>
+          <label className="flex items-center gap-2 text-sm text-slate-700">
+            Window
+            <select
+              value={windowMinutes}
+              onChange={(e) => setWindowMinutes(Number(e.target.value))}
+              className="rounded border border-slate-300 px-2 py-1.5 text-sm"
+            >
+              {WINDOW_OPTIONS.map((minutes) => (
+                <option key={minutes} value={minutes}>
+                  {minutes} min
+                </option>
+              ))}
+            </select>
+          </label>
+        </div>
+        {plan ? (
+          <div className="mt-3 flex flex-wrap gap-2 text-xs">
+            {TRAVEL_DIRECTIONS.map((direction) => (
+              <span
+                key={direction}
+                className={`rounded-full px-3 py-1 font-medium ${
+                  plan.missing[direction] > 0
+                    ? "bg-amber-100 text-amber-800"
+                    : "bg-emerald-100 text-emerald-800"
+                }`}
+              >
+                {DIRECTION_LABELS[direction]} details missing: {plan.missing[direction]}
+              </span>
+            ))}
+          </div>
+        ) : null}
+      </section>
+
+      {loading ? (
+        <p className="text-sm text-slate-500">Loading transport plan...</p>
+      ) : (
+        <>
+          <section className="rounded-xl border border-slate-200 bg-white p-4 shadow-sm">
+            <h3 className="text-sm font-semibold text-slate-900">Time windows</h3>
+            {clusters.length === 0 ? (
+              <p className="mt-3 text-sm text-slate-500">No arrivals or departures to plan yet.</p>
+            ) : (
+              <div className="mt-3 space-y-3">
+                {clusters.map((cluster) => {
+                  const unassigned = cluster.legs.filter((leg) => !leg.shuttleRunId).length;
+                  return (
+                    <div key={cluster.key} className="rounded border border-slate-200">
+                      <div className="flex flex-wrap items-center justify-between gap-3 bg-slate-50 px-4 py-3 text-sm">
+                        <span className="font-medium text-slate-900">
+                          {DIRECTION_LABELS[cluster.direction]} · {cluster.date} · {cluster.location} ·{" "}
+                          {cluster.from === cluster.to ? cluster.from : `${cluster.from}–${cluster.to}`}
+                        </span>
+                        <span className="text-slate-600">
+                          {cluster.legs.length} people, {unassigned} without shuttle · suggested{" "}
+                          {cluster.suggestedTime}
+                        </span>
+                        {unassigned > 0 ? (
+                          <button
+                            type="button"
+                            onClick={() => openCluster(cluster)}
+                            className="rounded border border-indigo-600 bg-indigo-600 px-3 py-1.5 text-xs font-medium text-white"
+                          >
+                            Create shuttle
+                          </button>
+                        ) : null}
+                      </div>
+                      {editing?.kind === "cluster" && editing.key === cluster.key ? (
+                        <div className="px-4 pb-3">{runForm()}</div>
+                      ) : null}
+                      <table className="w-full border-collapse text-left text-sm">
+                        <tbody>
+                          {cluster.legs.map((leg) => (
+                            <tr key={leg.participantId} className="border-t border-slate-100">
+                              <td className="px-4 py-2 font-medium">{leg.name}</td>
+                              <td className="px-4 py-2 text-slate-600">{leg.group ?? "-"}</td>
+                              <td className="px-4 py-2 text-slate-600">{legSummary(leg)}</td>
+                              <td className="px-4 py-2 text-right">{assignSelect(leg)}</td>
+                            </tr>
+                          ))}
+                        </tbody>
+                      </table>
+                    </div>
+                  );
+                })}
+              </div>
+            )}
+          </section>
+
+          <section className="rounded-xl border border-slate-200 bg-white p-4 shadow-sm">
+            <h3 className="text-sm font-semibold text-slate-900">Shuttle runs</h3>
+            {runsByDate.length === 0 ? (
+              <p className="mt-3 text-sm text-slate-500">No shuttles planned yet.</p>
+            ) : (
+              <div className="mt-3 space-y-4">
+                {runsByDate.map(([date, runs]) => (
+                  <div key={date}>
+                    <div className="flex items-center justify-between gap-3">
+                      <h4 className="text-sm font-medium text-slate-700">{date}</h4>
+                      <a
+                        href={`/api/manager/shuttles?format=pdf&date=${date}`}
+                        className="rounded border border-slate-300 px-3 py-1.5 text-xs font-medium text-slate-700 hover:bg-slate-100"
+                      >
+                        All manifests of the day (PDF)
+                      </a>
+                    </div>
+                    <div className="mt-2 overflow-x-auto rounded border border-slate-200">
+                      <table className="w-full border-collapse text-left text-sm">
+                        <thead className="bg-slate-50 text-slate-700">
+                          <tr>
+                            <th className="px-4 py-3">Time</th>
+                            <th className="px-4 py-3">Direction</th>
+                            <th className="px-4 py-3">Airport / station</th>
+                            <th className="px-4 py-3">Passengers</th>
+                            <th className="px-4 py-3">Driver</th>
+                            <th className="px-4 py-3" />
+                          </tr>
+                        </thead>
+                        <tbody>
+                          {runs.map((run) => (
+                            <Fragment key={run.id}>
+                              <tr className="border-t border-slate-100 align-top">
+                                <td className="px-4 py-3 font-medium">{run.departure_time}</td>
+                                <td className="px-4 py-3">{DIRECTION_LABELS[run.direction]}</td>
+                                <td className="px-4 py-3">{run.location}</td>
+                                <td className="px-4 py-3">
+                                  <span
+                                    className={
+                                      run.passengers >= run.capacity ? "font-medium text-emerald-700" : ""
+                                    }
+                                  >
+                                    {run.passengers}/{run.capacity}
+                                  </span>
+                                </td>
+                                <td className="px-4 py-3 text-slate-600">
+                                  {[run.driver_name, run.driver_phone, run.vehicle]
+                                    .filter(Boolean)
+                                    .join(" · ") || "-"}
+                                </td>
+                                <td className="px-4 py-3">
+                                  <div className="flex justify-end gap-2">
+                                    <a
+                                      href={`/api/manager/shuttles?format=pdf&runId=${run.id}`}
+                                      className="rounded border border-slate-300 px-2 py-1 text-xs text-slate-700 hover:bg-slate-100"
+                                    >
+                                      Manifest
+                                    </a>
+                                    <button
+                                      type="button"
+                                      onClick={() => openRun(run)}
+                                      className="rounded border border-slate-300 px-2 py-1 text-xs text-slate-700 hover:bg-slate-100"
+                                    >
+                                      Edit
+                                    </button>
+                                    <button
+                                      type="button"
+                                      disabled={busy}
+                                      onClick={() => void removeRun(run)}
+                                      className="rounded border border-red-200 px-2 py-1 text-xs text-red-700 hover:bg-red-50 disabled:opacity-60"
+                                    >
+                                      Delete
+                                    </button>
+                                  </div>
+                                </td>
+                              </tr>
+                              {editing?.kind === "run" && editing.id === run.id ? (
+                                <tr className="border-t border-slate-100">
+                                  <td colSpan={6} className="px-4 pb-3">
+                                    {runForm()}
+                                  </td>
+                                </tr>
+                              ) : null}
+                            </Fragment>
+                          ))}
+                        </tbody>
+                      </table>
+                    </div>
+                  </div>
+                ))}
+              </div>
+            )}
+          </section>
+
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,171 @@
+"use client";
+
+import { FormEvent, useState } from "react";
+import { useI18n } from "@/lib/i18n/provider";
+import {
+  SHUTTLE_MODES,
+  TRAVEL_MODES,
+  type TravelDirection,
+  type TravelMode,
+} from "@/lib/travel/logistics";
+import type { TravelDetails } from "@/lib/travel/store";
+
+type TravelLegFormProps = {
+  direction: TravelDirection;
+  date: string | null;
+  value: TravelDetails | null;
+  // Resolves to an error message, or null once saved. details: null removes the leg.
+  onSave: (details: Record<string, string> | null) => Promise<string | null>;
+};
+
+// Arrival or departure form shared by the participant dashboard and the group leader view.
+export function TravelLegForm({ direction, date, value, onSave }: TravelLegFormProps) {
+  const { t, formatDate } = useI18n();
+  const [mode, setMode] = useState<TravelMode | "">(value?.mode ?? "");
+  const [reference, setReference] = useState(value?.reference ?? "");
+  const [time, setTime] = useState(value?.time ?? "");
+  const [location, setLocation] = useState(value?.location ?? "");
+  const [notes, setNotes] = useState(value?.notes ?? "");
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [saved, setSaved] = useState(false);
+
+  const needsPlace = mode !== "" && SHUTTLE_MODES.includes(mode);
+
+  async function submit(details: Record<string, string> | null) {
+    setSaving(true);
+    setError(null);
+    setSaved(false);
+    const problem = await onSave(details);
+    setSaving(false);
+    if (problem) {
+      setError(problem);
+      return;
+    }
+    setSaved(true);
+    if (!details) {
+      setMode("");
+      setReference("");
+      setTime("");
+      setLocation("");
+      setNotes("");
+    }
+  }
+
+  function onSubmit(event: FormEvent<HTMLFormElement>) {
+    event.preventDefault();
+    void submit({ mode, reference, time, location, notes });
+  }
+
+  const inputClass = "mt-1 w-full rounded border border-slate-300 px-3 py-2 text-sm";
+
+  return (
+    <form className="space-y-3" onSubmit={onSubmit}>
+      <div className="flex items-baseline justify-between gap-2">
+        <h3 className="text-sm font-semibold text-slate-900">
+          {t(`participant.travel.${direction}`)}
+        </h3>
+        <span className="text-xs text-slate-500">
+          {date ? formatDate(date, { dateStyle: "medium" }) : t("participant.travel.dateMissing")}
+        </span>
+      </div>
+
+      {value?.shuttle ? (
+        <p className="rounded border border-emerald-200 bg-emerald-50 px-3 py-2 text-sm text-emerald-700">
+          {t(`participant.travel.shuttle.${direction}`, {
+            time: value.shuttle.departure_time,
+            location: value.shuttle.location,
+          })}
+        </p>
+      ) : null}
+
+      <div className="grid gap-3 sm:grid-cols-2">
+        <label className="block text-sm text-slate-700">
+          {t("participant.travel.mode")}
+          <select
+            required
+            value={mode}
+            onChange={(e) => setMode(e.target.value as TravelMode | "")}
+            className={inputClass}
+          >
+            <option value="">{t("common.select")}</option>
+            {TRAVEL_MODES.map((item) => (
+              <option key={item} value={item}>
+                {t(`participant.travel.mode.${item}`)}
+              </option>
+            ))}
+          </select>
+        </label>
+        <label className="block text-sm text-slate-700">
+          {t("participant.travel.reference")}
+          <input
+            value={reference}
+            onChange={(e) => setReference(e.target.value)}
+            maxLength={30}
+            placeholder={t("participant.travel.referencePlaceholder")}
+            className={`${inputClass} uppercase`}
+          />
+        </label>
+        <label className="block text-sm text-slate-700">
+          {t(`participant.travel.time.${direction}`)}
+          <input
+            type="time"
+            required={needsPlace}
+            value={time}
+            onChange={(e) => setTime(e.target.value)}
+            className={inputClass}
+          />
+        </label>
+        <label className="block text-sm text-slate-700">
+          {t("participant.travel.location")}
+          <input
+            required={needsPlace}
+            value={location}
+            onChange={(e) => setLocation(e.target.value)}
+            maxLength={120}
+            placeholder={t("participant.travel.locationPlaceholder")}
+            className={inputClass}
+          />
+        </label>
+      </div>
+      <label className="block text-sm text-slate-700">
+        {t("participant.travel.notes")}
+        <input
+          value={notes}
+          onChange={(e) => setNotes(e.target.value)}
+          maxLength={300}
+          className={inputClass}
+        />
+      </label>
+
+      {error && (
+        <div className="rounded border border-red-200 bg-red-50 px-3 py-2 text-sm text-red-700">
+          {error}
+        </div>
+      )}
+      {saved && !error && (
+        <p className="text-sm text-emerald-700">{t("participant.travel.saved")}</p>
+      )}
+
+      <div className="flex gap-2">
+        <button
+          type="submit"
+          disabled={saving}
+          className="rounded bg-indigo-600 px-4 py-2 text-sm font-medium text-white disabled:opacity-60"
+        >
+          {t("common.save")}
+        </button>
+        {value ? (
+          <button
+            type="button"
+            disabled={saving}
+            onClick={() => void submit(null)}
+            className="rounded border border-slate-300 px-4 py-2 text-sm font-medium text-slate-700 hover:bg-slate-100 disabled:opacity-60"
+          >
+            {t("participant.travel.remove")}
+          </button>
+        ) : null}
+      </div>
+    </form>
+  );
+}
@@ -0,0 +1,306 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+
+type VisaLetterStatus = "pending" | "approved" | "rejected";
+
+type VisaLetterQueueEntry = {
+  id: string;
+  status: VisaLetterStatus;
+  passport_number: string;
+  passport_expiry: string;
+  consulate: string;
+  letter_number: string | null;
+  rejection_reason: string | null;
+  decided_at: string | null;
+  emailed_at: string | null;
+  email_error: string | null;
+  created_at: string;
+  participant: {
+    id: string;
+    nome: string | null;
+    cognome: string | null;
+    email: string | null;
+    nazione: string | null;
+    paese_residenza: string | null;
+    gruppo_label: string | null;
+  } | null;
+};
+
+const STATUS_FILTERS: Array<{ value: VisaLetterStatus | ""; label: string }> = [
+  { value: "pending", label: "Waiting for approval" },
+  { value: "approved", label: "Approved" },
+  { value: "rejected", label: "Rejected" },
+  { value: "", label: "All" },
+];
+
+const STATUS_BADGES: Record<VisaLetterStatus, string> = {
+  pending: "bg-amber-100 text-amber-800",
+  approved: "bg-emerald-100 text-emerald-800",
+  rejected: "bg-red-100 text-red-800",
+};
+
+function fullName(entry: VisaLetterQueueEntry) {
+  return [entry.participant?.nome ?? "", entry.participant?.cognome ?? ""].join(" ").trim() || "-";
+}
+
+function formatDate(value: string | null) {
+  if (!value) return "-";
+  const date = new Date(value);
+  return Number.isNaN(date.getTime()) ? value : date.toLocaleDateString();
+}
+
+export function VisaLetterQueue() {
+  const [status, setStatus] = useState<VisaLetterStatus | "">("pending");
+  const [requests, setRequests] = useState<VisaLetterQueueEntry[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [success, setSuccess] = useState<string | null>(null);
+
+  const loadRequests = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+
+    try {
+      const query = status ? `?status=${status}` : "";
+      const res = await fetch(`/api/manager/visa-letters${query}`, { cache: "no-store" });
+      const json = (await res.json()) as { requests?: VisaLetterQueueEntry[]; error?: string };
+      if (!res.ok) {
+        setError(json.error ?? "Unable to load visa letter requests.");
+        return;
+      }
+      setRequests(json.requests ?? []);
+    } catch {
+      setError("Unable to load visa letter requests.");
+    } finally {
+      setLoading(false);
+    }
+  }, [status]);
+
+  useEffect(() => {
+    void loadRequests();
+  }, [loadRequests]);
+
+  async function runAction(
+    entry: VisaLetterQueueEntry,
+    action: "approve" | "reject" | "resend"
+  ) {
+    let reason: string | null = null;
+    if (action === "reject") {
+      reason = window.prompt(
+        `Reject the visa letter request of ${fullName(entry)}?\nOptional reason shown to the participant:`
+      );
+      if (reason === null) return;
+    } else if (
+      action === "approve" &&
+      !window.confirm(
+        `Issue a numbered invitation letter for ${fullName(entry)} and email it to ${
+          entry.participant?.email ?? "the participant"
+        }?`
+      )
+    ) {
+      return;
+    }
+
+    setBusyId(entry.id);
+    setError(null);
+    setSuccess(null);
+
+    try {
+      const res = await fetch("/api/manager/visa-letters", {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ id: entry.id, action, reason }),
+      });
+      const json = (await res.json()) as {
+        error?: string;
+        request?: VisaLetterQueueEntry;
+        emailSent?: boolean;
+        emailError?: string | null;
+      };
+      if (!res.ok) {
+        setError(json.error ?? "Unable to update the request.");
+        return;
+      }
+
+      if (action === "reject") {
+        setSuccess(`Request of ${fullName(entry)} rejected.`);
+      } else if (json.emailSent) {
+        setSuccess(`Letter ${json.request?.letter_number ?? ""} emailed to ${fullName(entry)}.`);
+      } else {
+        setError(
+          `Letter ${json.request?.letter_number ?? ""} issued, but the email was not sent: ${
+            json.emailError ?? "unknown error"
+          }`
+        );
+      }
+      await loadRequests();
+    } catch {
+      setError("Unable to update the request.");
+    } finally {
+      setBusyId(null);
+    }
+  }
+
+  return (
+    <div className="space-y-4">
+      {error && (
+        <div className="rounded border border-red-200 bg-red-50 px-4 py-3 text-sm text-red-700">
+          {error}
+        </div>
+      )}
+      {success && (
+        <div className="rounded border border-emerald-200 bg-emerald-50 px-4 py-3 text-sm text-emerald-700">
+          {success}
+        </div>
+      )}
+
+      <section className="rounded-xl border border-slate-200 bg-white p-4 shadow-sm">
+        <div className="flex flex-wrap items-start justify-between gap-3">
+          <div>
+            <h2 className="text-lg font-semibold text-slate-900">Visa invitation letters</h2>
+            <p className="mt-1 text-xs text-slate-500">
+              Requests sent by participants from their dashboard. Approving issues a numbered,
+              signed letter on the organization letterhead and emails it to the participant.
+              Signatory and number prefix are set in the organization details.
+            </p>
+          </div>
+          <select
+            value={status}
+            onChange={(e) => setStatus(e.target.value as VisaLetterStatus | "")}
+            className="rounded border border-slate-300 px-3 py-2 text-sm"
+          >
+            {STATUS_FILTERS.map((filter) => (
+              <option key={filter.value} value={filter.value}>
+                {filter.label}
+              </option>
+            ))}
+          </select>
+        </div>
+
+        {loading ? (
+          <p className="mt-4 text-sm text-slate-500">Loading requests...</p>
+        ) : requests.length === 0 ? (
+          <p className="mt-4 text-sm text-slate-500">No visa letter requests.</p>
+        ) : (
+          <div className="mt-4 overflow-x-auto rounded border border-slate-200">
+            <table className="w-full border-collapse text-left text-sm">
+              <thead className="bg-slate-50 text-slate-700">
+                <tr>
+                  <th className="px-4 py-3">Participant</th>
+                  <th className="px-4 py-3">Nationality</th>
+                  <th className="px-4 py-3">Passport</th>
+                  <th className="px-4 py-3">Consulate</th>
+                  <th className="px-4 py-3">Status</th>
+                  <th className="px-4 py-3" />
+                </tr>
+              </thead>
+              <tbody>
+                {requests.map((entry) => (
+                  <tr key={entry.id} className="border-t border-slate-100 align-top">
+                    <td className="px-4 py-3">
+                      {fullName(entry)}
+                      <span className="block text-xs text-slate-500">
+                        {entry.participant?.email ?? "-"}
+                      </span>
+                      <span className="block text-xs text-slate-500">
+                        {entry.participant?.gruppo_label ?? ""}
+                      </span>
+                    </td>
+                    <td className="px-4 py-3">
+                      {entry.participant?.nazione ?? "-"}
+                      {entry.participant?.paese_residenza &&
+                      entry.participant.paese_residenza !== entry.participant.nazione ? (
+                        <span className="block text-xs text-slate-500">
+                          lives in {entry.participant.paese_residenza}
+                        </span>
+                      ) : null}
+                    </td>
+                    <td className="px-4 py-3 whitespace-nowrap">
+                      {entry.passport_number}
+                      <span className="block text-xs text-slate-500">
+                        expires {formatDate(entry.passport_expiry)}
+                      </span>
+                    </td>
+                    <td className="max-w-xs px-4 py-3">{entry.consulate}</td>
+                    <td className="px-4 py-3">
+                      <span
+                        className={`rounded px-2 py-0.5 text-xs font-medium ${STATUS_BADGES[entry.status]}`}
+                      >
+                        {entry.status === "approved" ? entry.letter_number : entry.status}
+                      </span>
+                      <span className="mt-1 block text-xs text-slate-500">
+                        requested {formatDate(entry.created_at)}
+                      </span>
+                      {entry.decided_at ? (
+                        <span className="block text-xs text-slate-500">
+                          decided {formatDate(entry.decided_at)}
+                        </span>
+                      ) : null}
+                      {entry.status === "approved" ? (
+                        entry.emailed_at ? (
+                          <span className="block text-xs text-emerald-700">
+                            emailed {formatDate(entry.emailed_at)}
+                          </span>
+                        ) : (
+                          <span className="block text-xs text-red-700">
+                            not emailed{entry.email_error ? `: ${entry.email_error}` : ""}
+                          </span>
+                        )
+                      ) : null}
+                      {entry.rejection_reason ? (
+                        <span className="block max-w-xs text-xs text-slate-600">
+                          {entry.rejection_reason}
+                        </span>
+                      ) : null}
+                    </td>
+                    <td className="px-4 py-3 text-right whitespace-nowrap">
+                      {entry.status === "pending" ? (
+                        <div className="flex justify-end gap-2">
+                          <button
+                            type="button"
+                            onClick={() => void runAction(entry, "approve")}
+                            disabled={busyId !== null}
+                            className="rounded bg-indigo-600 px-3 py-1.5 text-xs font-medium text-white hover:bg-indigo-700 disabled:opacity-60"
+                          >
+                            {busyId === entry.id ? "Working..." : "Approve"}
+                          </button>
+                          <button
+                            type="button"
+                            onClick={() => void runAction(entry, "reject")}
+                            disabled={busyId !== null}
+                            className="rounded border border-red-200 px-3 py-1.5 text-xs font-medium text-red-700 hover:bg-red-50 disabled:opacity-60"
+                          >
+                            Reject
+                          </button>
+                        </div>
+                      ) : entry.status === "approved" ? (
+                        <div className="flex justify-end gap-2">
+                          <a
+                            href={`/api/manager/visa-letters?id=${entry.id}`}
+                            className="rounded border border-slate-300 px-3 py-1.5 text-xs font-medium text-slate-700 hover:bg-slate-100"
+                          >
+                            Download
+                          </a>
+                          <button
+                            type="button"
+                            onClick={() => void runAction(entry, "resend")}
+                            disabled={busyId !== null}
+                            className="rounded border border-slate-300 px-3 py-1.5 text-xs font-medium text-slate-700 hover:bg-slate-100 disabled:opacity-60"
+                          >
+                            {busyId === entry.id ? "Sending..." : "Resend email"}
+                          </button>
+                        </div>
+                      ) : null}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </section>
+    </div>
+  );
+}
@@ -0,0 +1,7 @@
+import { ManagerAdminEmailAutomationsPage } from "../../../_components/manager-admin-email-automations-page";
+
+export default async function AdminEmailAutomationsPage() {
+  return (
+    <ManagerAdminEmailAutomationsPage basePath="/dashboard/admin/email-campaigns" />
+  );
+}
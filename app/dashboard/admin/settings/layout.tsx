@@ -12,6 +12,16 @@ export default function AdminSettingsLayout({ children }: { children: ReactNode
       label: "Email",
       isActive: pathname === "/dashboard/admin/settings/email",
     },
+    {
+      href: "/dashboard/admin/settings/webhooks",
+      label: "Webhooks",
+      isActive: pathname === "/dashboard/admin/settings/webhooks",
+    },
+    {
+      href: "/dashboard/admin/settings/tally-mapping",
+      label: "Tally mapping",
+      isActive: pathname === "/dashboard/admin/settings/tally-mapping",
+    },
   ];
 
   return (
@@ -0,0 +1,5 @@
+import { AdminTallyFieldMapping } from "@/app/dashboard/_components/admin-tally-field-mapping";
+
+export default function AdminTallyFieldMappingPage() {
+  return <AdminTallyFieldMapping />;
+}
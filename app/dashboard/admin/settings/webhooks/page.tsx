@@ -0,0 +1,5 @@
+import { AdminWebhookEvents } from "@/app/dashboard/_components/admin-webhook-events";
+
+export default function AdminWebhookEventsPage() {
+  return <AdminWebhookEvents />;
+}
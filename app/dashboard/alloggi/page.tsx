@@ -1,13 +1,53 @@
+import { createSupabaseServerClient } from "@/lib/supabase/server";
+import { createSupabaseServiceClient } from "@/lib/supabase/service";
+import { AccommodationManager } from "../_components/accommodation-manager";
 import { getServerTranslator } from "@/lib/i18n/server";
 
 export default async function AlloggiPage() {
   const { t } = await getServerTranslator();
+  const supabase = await createSupabaseServerClient();
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+
+  if (!user) {
+    return (
+      <main className="mx-auto max-w-5xl px-6 py-10">
+        <section className="rounded border border-red-200 bg-red-50 p-6">
+          <h1 className="text-xl font-bold text-red-800">{t("dashboard.accommodation.title")}</h1>
+          <p className="mt-2 text-sm text-red-700">{t("common.errorUnauthorized")}</p>
+        </section>
+      </main>
+    );
+  }
+
+  const email = (user.email ?? "").trim().toLowerCase();
+  const service = createSupabaseServiceClient();
+  const { data: profile, error } = await service
+    .from("profili")
+    .select("ruolo")
+    .ilike("email", email)
+    .in("ruolo", ["alloggi", "admin"])
+    .limit(1);
+
+  if (error || !profile || profile.length === 0) {
+    return (
+      <main className="mx-auto max-w-5xl px-6 py-10">
+        <section className="rounded border border-red-200 bg-red-50 p-6">
+          <h1 className="text-xl font-bold text-red-800">{t("dashboard.accommodation.title")}</h1>
+          <p className="mt-2 text-sm text-red-700">{t("common.errorForbidden")}</p>
+        </section>
+      </main>
+    );
+  }
+
   return (
-    <main className="mx-auto max-w-5xl px-6 py-10">
+    <main className="mx-auto max-w-7xl space-y-4 px-6 py-10">
       <section className="rounded-xl border border-slate-200 bg-white p-6 shadow-sm">
-      <h1 className="text-2xl font-bold text-slate-900">{t("dashboard.accommodation.title")}</h1>
-      <p className="mt-2 text-sm text-slate-500">{t("dashboard.accommodation.subtitle")}</p>
+        <h1 className="text-2xl font-bold text-slate-900">{t("dashboard.accommodation.title")}</h1>
+        <p className="mt-2 text-sm text-slate-500">{t("dashboard.accommodation.subtitle")}</p>
       </section>
+      <AccommodationManager />
     </main>
   );
 }
@@ -1,3 +1,5 @@
+import { GroupFeeDocuments } from "../_components/group-fee-documents";
+import { GroupTravelDetails } from "../_components/group-travel-details";
 import { ParticipantsTable } from "../_components/participants-table";
 import { getServerTranslator } from "@/lib/i18n/server";
 
@@ -18,6 +20,14 @@ export default async function CapogruppoPage() {
           showTotalFee
         />
       </div>
+
+      <div className="mt-6">
+        <GroupFeeDocuments />
+      </div>
+
+      <div className="mt-6">
+        <GroupTravelDetails />
+      </div>
     </main>
   );
 }
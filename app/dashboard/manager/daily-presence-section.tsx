@@ -6,14 +6,22 @@ import { useI18n } from "@/lib/i18n/provider";
 type AccommodationFilter = "both" | "organization" | "autonomous";
 
 type DailyPresenceParticipant = {
+  id: string;
   data_arrivo: string | null;
   data_partenza: string | null;
   alloggio_short: string | null;
   alloggio: string | null;
 };
 
+type DailyPresenceCheckIn = {
+  participant_id: string;
+  check_in_date: string;
+};
+
 type DailyPresenceSectionProps = {
   participants: DailyPresenceParticipant[];
+  // Null when check-ins could not be loaded: only planned presence is shown.
+  checkIns: DailyPresenceCheckIn[] | null;
 };
 
 function normalizeAccommodation(raw: string | null): "organization" | "autonomous" | null {
@@ -56,6 +64,13 @@ function addDays(value: Date, days: number): Date {
   return next;
 }
 
+function localToday(): string {
+  const now = new Date();
+  const month = String(now.getMonth() + 1).padStart(2, "0");
+  const day = String(now.getDate()).padStart(2, "0");
+  return `${now.getFullYear()}-${month}-${day}`;
+}
+
 function shouldIncludeByAccommodation(
   participant: DailyPresenceParticipant,
   filter: AccommodationFilter
@@ -65,16 +80,18 @@ function shouldIncludeByAccommodation(
   return normalized === filter;
 }
 
-export function DailyPresenceSection({ participants }: DailyPresenceSectionProps) {
+export function DailyPresenceSection({ participants, checkIns }: DailyPresenceSectionProps) {
   const { t } = useI18n();
   const [accommodationFilter, setAccommodationFilter] =
     useState<AccommodationFilter>("both");
 
   const dailyRows = useMemo(() => {
-    const dailyPresence = new Map<string, number>();
+    const plannedByDay = new Map<string, Set<string>>();
+    const includedIds = new Set<string>();
 
     for (const participant of participants) {
       if (!shouldIncludeByAccommodation(participant, accommodationFilter)) continue;
+      includedIds.add(participant.id);
 
       const arrival = parseDateOnly(participant.data_arrivo);
       const departure = parseDateOnly(participant.data_partenza);
@@ -82,14 +99,39 @@ export function DailyPresenceSection({ participants }: DailyPresenceSectionProps
 
       for (let current = arrival; current <= departure; current = addDays(current, 1)) {
         const dayKey = formatDateOnly(current);
-        dailyPresence.set(dayKey, (dailyPresence.get(dayKey) ?? 0) + 1);
+        const planned = plannedByDay.get(dayKey) ?? new Set<string>();
+        planned.add(participant.id);
+        plannedByDay.set(dayKey, planned);
       }
     }
 
-    return [...dailyPresence.entries()]
-      .sort(([a], [b]) => a.localeCompare(b))
-      .map(([day, count]) => ({ day, count }));
-  }, [accommodationFilter, participants]);
+    const checkedInByDay = new Map<string, Set<string>>();
+    for (const checkIn of checkIns ?? []) {
+      // Without a filter every check-in counts, including people missing from the plan.
+      if (accommodationFilter !== "both" && !includedIds.has(checkIn.participant_id)) continue;
+      const checkedIn = checkedInByDay.get(checkIn.check_in_date) ?? new Set<string>();
+      checkedIn.add(checkIn.participant_id);
+      checkedInByDay.set(checkIn.check_in_date, checkedIn);
+    }
+
+    const today = localToday();
+    return [...new Set([...plannedByDay.keys(), ...checkedInByDay.keys()])]
+      .sort((a, b) => a.localeCompare(b))
+      .map((day) => {
+        const planned = plannedByDay.get(day) ?? new Set<string>();
+        const checkedIn = checkedInByDay.get(day) ?? new Set<string>();
+        return {
+          day,
+          count: planned.size,
+          checkedIn: checkedIn.size,
+          // Only days that have started can have missing arrivals.
+          notCheckedIn:
+            day <= today ? [...planned].filter((id) => !checkedIn.has(id)).length : null,
+        };
+      });
+  }, [accommodationFilter, checkIns, participants]);
+
+  const showCheckIns = checkIns !== null;
 
   return (
     <section id="daily-presence" className="rounded-xl border border-slate-200 bg-white p-6 shadow-sm">
@@ -117,12 +159,20 @@ export function DailyPresenceSection({ participants }: DailyPresenceSectionProps
             <tr>
               <th className="px-4 py-3 font-semibold">{t("manager.presence.date")}</th>
               <th className="px-4 py-3 font-semibold">{t("manager.presence.present")}</th>
+              {showCheckIns && (
+                <>
+                  <th className="px-4 py-3 font-semibold">{t("manager.presence.checkedIn")}</th>
+                  <th className="px-4 py-3 font-semibold">
+                    {t("manager.presence.notCheckedIn")}
+                  </th>
+                </>
+              )}
             </tr>
           </thead>
           <tbody className="divide-y divide-slate-100">
             {dailyRows.length === 0 ? (
               <tr>
-                <td colSpan={2} className="px-3 py-3 text-slate-500">
+                <td colSpan={showCheckIns ? 4 : 2} className="px-3 py-3 text-slate-500">
                   {t("manager.presence.empty")}
                 </td>
               </tr>
@@ -131,6 +181,18 @@ export function DailyPresenceSection({ participants }: DailyPresenceSectionProps
                 <tr key={row.day}>
                   <td className="px-4 py-3 text-slate-900">{row.day}</td>
                   <td className="px-4 py-3 font-medium text-slate-900">{row.count}</td>
+                  {showCheckIns && (
+                    <>
+                      <td className="px-4 py-3 font-medium text-slate-900">{row.checkedIn}</td>
+                      <td
+                        className={`px-4 py-3 ${
+                          row.notCheckedIn ? "font-medium text-amber-700" : "text-slate-500"
+                        }`}
+                      >
+                        {row.notCheckedIn ?? "-"}
+                      </td>
+                    </>
+                  )}
                 </tr>
               ))
             )}
@@ -0,0 +1,7 @@
+import { ManagerAdminEmailAutomationsPage } from "../../../_components/manager-admin-email-automations-page";
+
+export default async function ManagerEmailAutomationsPage() {
+  return (
+    <ManagerAdminEmailAutomationsPage basePath="/dashboard/manager/email-campaigns" />
+  );
+}
@@ -12,7 +12,19 @@ export default function ManagerLayout({ children }: { children: ReactNode }) {
     { href: "/dashboard/manager", label: t("dashboard.manager.tab.statistics") },
     { href: "/dashboard/manager/participants", label: t("dashboard.manager.tab.participants") },
     { href: "/dashboard/manager/participation-fees", label: t("dashboard.manager.tab.fees") },
+    { href: "/dashboard/manager/fee-rules", label: t("dashboard.manager.tab.feeRules") },
+    { href: "/dashboard/manager/capacity", label: t("dashboard.manager.tab.capacity") },
+    { href: "/dashboard/manager/bank-import", label: t("dashboard.manager.tab.bankImport") },
     { href: "/dashboard/manager/event-finance", label: t("dashboard.manager.tab.finance") },
+    { href: "/dashboard/manager/visa-letters", label: t("dashboard.manager.tab.visaLetters") },
+    { href: "/dashboard/manager/badges", label: t("dashboard.manager.tab.badges") },
+    { href: "/dashboard/manager/check-in", label: t("dashboard.manager.tab.checkIn") },
+    { href: "/dashboard/manager/catering", label: t("dashboard.manager.tab.catering") },
+    {
+      href: "/dashboard/manager/accessibility",
+      label: t("dashboard.manager.tab.accessibility"),
+    },
+    { href: "/dashboard/manager/transport", label: t("dashboard.manager.tab.transport") },
     {
       href: "/dashboard/manager/email-campaigns",
       label: t("dashboard.manager.tab.email"),
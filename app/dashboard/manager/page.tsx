@@ -3,6 +3,7 @@ import path from "node:path";
 import { createSupabaseServerClient } from "@/lib/supabase/server";
 import { createSupabaseServiceClient } from "@/lib/supabase/service";
 import { DailyPresenceSection } from "./daily-presence-section";
+import { loadCheckInDays } from "@/lib/check-in/store";
 import { RegistrationsTabsSection } from "./registrations-tabs-section";
 import { getServerTranslator } from "@/lib/i18n/server";
 
@@ -799,7 +800,10 @@ export default async function ManagerStatisticsPage() {
     );
   }
 
-  const { data, error } = await service.from("partecipanti").select(SELECT_FIELDS);
+  const { data, error } = await service
+    .from("partecipanti")
+    .select(SELECT_FIELDS)
+    .eq("registration_status", "confirmed");
 
   if (error) {
     return (
@@ -897,6 +901,12 @@ export default async function ManagerStatisticsPage() {
   } catch {
     trendSeries = null;
   }
+  let checkIns: Awaited<ReturnType<typeof loadCheckInDays>> | null = null;
+  try {
+    checkIns = await loadCheckInDays(service);
+  } catch {
+    checkIns = null;
+  }
   const duplicateCandidates = buildDuplicateCandidates(participants);
   const unassignedParticipants = buildUnassignedParticipants(
     participants,
@@ -964,7 +974,7 @@ export default async function ManagerStatisticsPage() {
             groupRows={groupRows}
           />
 
-          <DailyPresenceSection participants={participants} />
+          <DailyPresenceSection participants={participants} checkIns={checkIns} />
 
           <RegistrationTrendSection series={trendSeries} t={t} />
 
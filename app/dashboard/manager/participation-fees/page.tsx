@@ -1,6 +1,7 @@
 import { createSupabaseServerClient } from "@/lib/supabase/server";
 import { createSupabaseServiceClient } from "@/lib/supabase/service";
 import { ParticipationFeesTable } from "../../_components/participation-fees-table";
+import { OrganizationSettingsForm } from "../../_components/organization-settings-form";
 import { getServerTranslator } from "@/lib/i18n/server";
 
 export default async function ManagerParticipationFeesPage() {
@@ -37,5 +38,10 @@ export default async function ManagerParticipationFeesPage() {
     );
   }
 
-  return <ParticipationFeesTable />;
+  return (
+    <div className="space-y-4">
+      <ParticipationFeesTable />
+      <OrganizationSettingsForm />
+    </div>
+  );
 }
@@ -0,0 +1,89 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { useI18n } from "@/lib/i18n/provider";
+
+type BadgeQr = {
+  size: number;
+  path: string;
+};
+
+function participantQuery(): string {
+  const participantId = window.localStorage.getItem("gf_participant_id");
+  return participantId ? `participantId=${encodeURIComponent(participantId)}` : "";
+}
+
+export function BadgeCard() {
+  const { t } = useI18n();
+  const [qr, setQr] = useState<BadgeQr | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [unavailable, setUnavailable] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const load = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      const res = await fetch(`/api/partecipante/badge?${participantQuery()}`);
+      const json = await res.json();
+      if (!res.ok) {
+        if (json.code === "BADGE_NOT_AVAILABLE") {
+          setUnavailable(true);
+          return;
+        }
+        setError(
+          json.code === "PARTICIPANT_SELECTION_REQUIRED"
+            ? t("participant.badge.selectProfile")
+            : json.error ?? t("participant.badge.loadError")
+        );
+        return;
+      }
+      setQr(json.qr ?? null);
+    } catch {
+      setError(t("participant.badge.loadError"));
+    } finally {
+      setLoading(false);
+    }
+  }, [t]);
+
+  useEffect(() => {
+    void load();
+  }, [load]);
+
+  return (
+    <aside className="rounded-xl border border-slate-200 bg-white p-6 shadow-sm">
+      <h2 className="text-lg font-semibold text-slate-900">{t("participant.badge.title")}</h2>
+      <p className="mt-2 text-sm text-slate-500">{t("participant.badge.description")}</p>
+
+      {loading ? (
+        <p className="mt-4 text-sm text-slate-500">{t("common.loading")}</p>
+      ) : unavailable ? (
+        <p className="mt-4 rounded border border-amber-200 bg-amber-50 px-3 py-2 text-sm text-amber-800">
+          {t("participant.badge.unavailable")}
+        </p>
+      ) : error ? (
+        <div className="mt-4 rounded border border-red-200 bg-red-50 px-3 py-2 text-sm text-red-700">
+          {error}
+        </div>
+      ) : qr ? (
+        <>
+          <svg
+            viewBox={`-4 -4 ${qr.size + 8} ${qr.size + 8}`}
+            className="mx-auto mt-4 w-full max-w-[14rem] bg-white"
+            shapeRendering="crispEdges"
+            role="img"
+            aria-label={t("participant.badge.qrLabel")}
+          >
+            <path d={qr.path} fill="#000" />
+          </svg>
+          <a
+            href={`/api/partecipante/badge?download=1&${participantQuery()}`}
+            className="mt-4 block w-full rounded border border-indigo-600 px-4 py-2 text-center text-sm font-medium text-indigo-700 hover:bg-indigo-50"
+          >
+            {t("participant.badge.download")}
+          </a>
+        </>
+      ) : null}
+    </aside>
+  );
+}
@@ -1,5 +1,8 @@
 import { PartecipanteForm } from "./partecipante-form";
 import { OrganizersContactCard } from "./organizers-contact-card";
+import { VisaLetterCard } from "./visa-letter-card";
+import { BadgeCard } from "./badge-card";
+import { TravelDetailsCard } from "./travel-details-card";
 import { getServerTranslator } from "@/lib/i18n/server";
 
 export default async function PartecipantePage() {
@@ -10,11 +13,18 @@ export default async function PartecipantePage() {
       <p className="mt-2 text-sm text-slate-500">{t("dashboard.participant.subtitle")}</p>
 
       <div className="mt-6 grid gap-6 lg:grid-cols-[minmax(0,1fr)_360px] lg:items-start">
-        <section className="rounded-xl border border-slate-200 bg-white p-6 shadow-sm">
-          <PartecipanteForm />
-        </section>
+        <div className="space-y-6">
+          <section className="rounded-xl border border-slate-200 bg-white p-6 shadow-sm">
+            <PartecipanteForm />
+          </section>
+          <TravelDetailsCard />
+        </div>
 
-        <OrganizersContactCard />
+        <div className="space-y-6">
+          <BadgeCard />
+          <OrganizersContactCard />
+          <VisaLetterCard />
+        </div>
       </div>
     </main>
   );
@@ -0,0 +1,110 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { useI18n } from "@/lib/i18n/provider";
+import { TRAVEL_DIRECTIONS, type TravelDirection } from "@/lib/travel/logistics";
+import type { TravelDetails } from "@/lib/travel/store";
+import { TravelLegForm } from "../_components/travel-leg-form";
+
+type TravelResponse = {
+  arrivalDate: string | null;
+  departureDate: string | null;
+  travel: TravelDetails[];
+};
+
+function participantQuery(): string {
+  const participantId = window.localStorage.getItem("gf_participant_id");
+  return participantId ? `participantId=${encodeURIComponent(participantId)}` : "";
+}
+
+export function TravelDetailsCard() {
+  const { t } = useI18n();
+  const [data, setData] = useState<TravelResponse | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const load = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      const res = await fetch(`/api/partecipante/travel?${participantQuery()}`);
+      const json = await res.json();
+      if (!res.ok) {
+        setError(
+          json.code === "PARTICIPANT_SELECTION_REQUIRED"
+            ? t("participant.travel.selectProfile")
+            : json.error ?? t("participant.travel.loadError")
+        );
+        return;
+      }
+      setData(json as TravelResponse);
+    } catch {
+      setError(t("participant.travel.loadError"));
+    } finally {
+      setLoading(false);
+    }
+  }, [t]);
+
+  useEffect(() => {
+    void load();
+  }, [load]);
+
+  async function save(direction: TravelDirection, details: Record<string, string> | null) {
+    try {
+      const res = await fetch("/api/partecipante/travel", {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          direction,
+          details,
+          participant_id: window.localStorage.getItem("gf_participant_id"),
+        }),
+      });
+      const json = await res.json();
+      if (!res.ok) return json.error ?? t("participant.travel.saveError");
+
+      const travel = json.travel as TravelDetails | null;
+      setData((current) =>
+        current
+          ? {
+              ...current,
+              travel: [
+                ...current.travel.filter((item) => item.direction !== direction),
+                ...(travel ? [travel] : []),
+              ],
+            }
+          : current
+      );
+      return null;
+    } catch {
+      return t("participant.travel.saveError");
+    }
+  }
+
+  return (
+    <section className="rounded-xl border border-slate-200 bg-white p-6 shadow-sm">
+      <h2 className="text-lg font-semibold text-slate-900">{t("participant.travel.title")}</h2>
+      <p className="mt-2 text-sm text-slate-500">{t("participant.travel.description")}</p>
+
+      {loading ? (
+        <p className="mt-4 text-sm text-slate-500">{t("common.loading")}</p>
+      ) : error ? (
+        <div className="mt-4 rounded border border-red-200 bg-red-50 px-3 py-2 text-sm text-red-700">
+          {error}
+        </div>
+      ) : data ? (
+        <div className="mt-4 grid gap-6 md:grid-cols-2">
+          {TRAVEL_DIRECTIONS.map((direction) => (
+            <TravelLegForm
+              key={direction}
+              direction={direction}
+              date={direction === "arrival" ? data.arrivalDate : data.departureDate}
+              value={data.travel.find((item) => item.direction === direction) ?? null}
+              onSave={(details) => save(direction, details)}
+            />
+          ))}
+        </div>
+      ) : null}
+    </section>
+  );
+}
@@ -0,0 +1,203 @@
+"use client";
+
+import { FormEvent, useCallback, useEffect, useState } from "react";
+import { useI18n } from "@/lib/i18n/provider";
+
+type VisaLetterRequest = {
+  id: string;
+  status: "pending" | "approved" | "rejected";
+  passport_number: string;
+  passport_expiry: string;
+  consulate: string;
+  letter_number: string | null;
+  rejection_reason: string | null;
+  decided_at: string | null;
+  emailed_at: string | null;
+  created_at: string;
+};
+
+const STATUS_STYLES: Record<VisaLetterRequest["status"], string> = {
+  pending: "border-amber-200 bg-amber-50 text-amber-800",
+  approved: "border-emerald-200 bg-emerald-50 text-emerald-700",
+  rejected: "border-red-200 bg-red-50 text-red-700",
+};
+
+function participantQuery(): string {
+  const participantId = window.localStorage.getItem("gf_participant_id");
+  return participantId ? `participantId=${encodeURIComponent(participantId)}` : "";
+}
+
+export function VisaLetterCard() {
+  const { t, formatDate } = useI18n();
+  const [request, setRequest] = useState<VisaLetterRequest | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [showForm, setShowForm] = useState(false);
+  const [passportNumber, setPassportNumber] = useState("");
+  const [passportExpiry, setPassportExpiry] = useState("");
+  const [consulate, setConsulate] = useState("");
+  const [sending, setSending] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const load = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      const res = await fetch(`/api/partecipante/visa-letter?${participantQuery()}`);
+      const json = await res.json();
+      if (!res.ok) {
+        setError(
+          json.code === "PARTICIPANT_SELECTION_REQUIRED"
+            ? t("participant.visaLetter.selectProfile")
+            : json.error ?? t("participant.visaLetter.loadError")
+        );
+        return;
+      }
+      setRequest(json.request ?? null);
+    } catch {
+      setError(t("participant.visaLetter.loadError"));
+    } finally {
+      setLoading(false);
+    }
+  }, [t]);
+
+  useEffect(() => {
+    void load();
+  }, [load]);
+
+  async function onSubmit(event: FormEvent<HTMLFormElement>) {
+    event.preventDefault();
+    setSending(true);
+    setError(null);
+
+    try {
+      const res = await fetch("/api/partecipante/visa-letter", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          passport_number: passportNumber,
+          passport_expiry: passportExpiry,
+          consulate,
+          participant_id: window.localStorage.getItem("gf_participant_id"),
+        }),
+      });
+      const json = await res.json();
+
+      if (!res.ok) {
+        setError(json.error ?? t("participant.visaLetter.submitError"));
+        return;
+      }
+
+      setRequest(json.request);
+      setShowForm(false);
+    } catch {
+      setError(t("participant.visaLetter.submitError"));
+    } finally {
+      setSending(false);
+    }
+  }
+
+  const canRequest = !request || request.status !== "pending";
+
+  return (
+    <aside className="rounded-xl border border-slate-200 bg-white p-6 shadow-sm">
+      <h2 className="text-lg font-semibold text-slate-900">{t("participant.visaLetter.title")}</h2>
+      <p className="mt-2 text-sm text-slate-500">{t("participant.visaLetter.description")}</p>
+
+      {loading ? (
+        <p className="mt-4 text-sm text-slate-500">{t("common.loading")}</p>
+      ) : (
+        <>
+          {request && (
+            <div className={`mt-4 rounded border px-3 py-2 text-sm ${STATUS_STYLES[request.status]}`}>
+              <p className="font-medium">{t(`participant.visaLetter.status.${request.status}`)}</p>
+              <p className="mt-1">
+                {t("participant.visaLetter.requestedOn", {
+                  date: formatDate(request.created_at, { dateStyle: "medium" }),
+                })}
+              </p>
+              {request.status === "rejected" && request.rejection_reason && (
+                <p className="mt-1">{request.rejection_reason}</p>
+              )}
+              {request.status === "approved" && (
+                <>
+                  {request.emailed_at && (
+                    <p className="mt-1">{t("participant.visaLetter.emailed")}</p>
+                  )}
+                  <a
+                    href={`/api/partecipante/visa-letter?download=1&${participantQuery()}`}
+                    className="mt-2 inline-block font-medium underline"
+                  >
+                    {t("participant.visaLetter.download", {
+                      number: request.letter_number ?? "",
+                    })}
+                  </a>
+                </>
+              )}
+            </div>
+          )}
+
+          {error && (
+            <div className="mt-4 rounded border border-red-200 bg-red-50 px-3 py-2 text-sm text-red-700">
+              {error}
+            </div>
+          )}
+
+          {canRequest && !showForm && (
+            <button
+              type="button"
+              onClick={() => setShowForm(true)}
+              className="mt-4 w-full rounded border border-indigo-600 px-4 py-2 text-sm font-medium text-indigo-700 hover:bg-indigo-50"
+            >
+              {request ? t("participant.visaLetter.requestAgain") : t("participant.visaLetter.request")}
+            </button>
+          )}
+
+          {canRequest && showForm && (
+            <form className="mt-4 space-y-3" onSubmit={onSubmit}>
+              <label className="block text-sm text-slate-700">
+                {t("participant.visaLetter.passportNumber")}
+                <input
+                  required
+                  minLength={5}
+                  maxLength={30}
+                  value={passportNumber}
+                  onChange={(e) => setPassportNumber(e.target.value)}
+                  className="mt-1 w-full rounded border border-slate-300 px-3 py-2 text-sm uppercase"
+                />
+              </label>
+              <label className="block text-sm text-slate-700">
+                {t("participant.visaLetter.passportExpiry")}
+                <input
+                  required
+                  type="date"
+                  value={passportExpiry}
+                  onChange={(e) => setPassportExpiry(e.target.value)}
+                  className="mt-1 w-full rounded border border-slate-300 px-3 py-2 text-sm"
+                />
+              </label>
+              <label className="block text-sm text-slate-700">
+                {t("participant.visaLetter.consulate")}
+                <input
+                  required
+                  minLength={3}
+                  maxLength={200}
+                  value={consulate}
+                  onChange={(e) => setConsulate(e.target.value)}
+                  placeholder={t("participant.visaLetter.consulatePlaceholder")}
+                  className="mt-1 w-full rounded border border-slate-300 px-3 py-2 text-sm"
+                />
+              </label>
+              <button
+                type="submit"
+                disabled={sending}
+                className="w-full rounded bg-indigo-600 px-4 py-2 text-sm font-medium text-white disabled:opacity-60"
+              >
+                {sending ? t("common.sending") : t("participant.visaLetter.submit")}
+              </button>
+            </form>
+          )}
+        </>
+      )}
+    </aside>
+  );
+}
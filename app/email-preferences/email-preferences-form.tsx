@@ -0,0 +1,84 @@
+"use client";
+
+import { FormEvent, useState } from "react";
+import { useI18n } from "@/lib/i18n/provider";
+
+type EmailPreferencesFormProps = {
+  token: string;
+  initialNewsletter: boolean;
+};
+
+export function EmailPreferencesForm({ token, initialNewsletter }: EmailPreferencesFormProps) {
+  const { t } = useI18n();
+  const [newsletter, setNewsletter] = useState(initialNewsletter);
+  const [status, setStatus] = useState<"idle" | "saving" | "saved" | "error">("idle");
+
+  async function handleSubmit(event: FormEvent<HTMLFormElement>) {
+    event.preventDefault();
+    setStatus("saving");
+
+    try {
+      const res = await fetch("/api/email-preferences", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ token, newsletter }),
+      });
+      setStatus(res.ok ? "saved" : "error");
+    } catch {
+      setStatus("error");
+    }
+  }
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-4">
+      <label className="flex items-start gap-3 text-sm text-slate-500">
+        <input type="checkbox" checked disabled className="mt-0.5 h-4 w-4" />
+        <span>
+          <span className="block font-medium text-slate-700">
+            {t("emailPreferences.operational")}
+          </span>
+          {t("emailPreferences.operationalHint")}
+        </span>
+      </label>
+
+      <label className="flex items-start gap-3 text-sm text-slate-500">
+        <input
+          type="checkbox"
+          checked={newsletter}
+          onChange={(event) => {
+            setNewsletter(event.target.checked);
+            setStatus("idle");
+          }}
+          className="mt-0.5 h-4 w-4"
+        />
+        <span>
+          <span className="block font-medium text-slate-700">
+            {t("emailPreferences.newsletter")}
+          </span>
+          {t("emailPreferences.newsletterHint")}
+        </span>
+      </label>
+
+      {status === "saved" ? (
+        <p className="rounded border border-emerald-200 bg-emerald-50 px-4 py-3 text-sm text-emerald-700">
+          {newsletter ? t("emailPreferences.saved") : t("emailPreferences.unsubscribed")}
+        </p>
+      ) : null}
+      {status === "error" ? (
+        <p className="rounded border border-red-200 bg-red-50 px-4 py-3 text-sm text-red-700">
+          {t("emailPreferences.error")}
+        </p>
+      ) : null}
+
+      <div className="flex justify-end">
+        <button
+          type="submit"
+          disabled={status === "saving"}
+          className="rounded bg-indigo-600 px-4 py-2 text-sm font-medium text-white hover:bg-indigo-700 disabled:opacity-60"
+        >
+          {status === "saving" ? t("emailPreferences.saving") : t("emailPreferences.save")}
+        </button>
+      </div>
+    </form>
+  );
+}
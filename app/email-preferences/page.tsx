@@ -0,0 +1,43 @@
+import { EmailPreferencesForm } from "./email-preferences-form";
+import { getServerTranslator } from "@/lib/i18n/server";
+import { loadEmailPreferences, preferenceLinkSecret } from "@/lib/email/preferences";
+import { verifyPreferenceToken } from "@/lib/email/preference-token";
+import { createSupabaseServiceClient } from "@/lib/supabase/service";
+
+type EmailPreferencesPageProps = {
+  searchParams: Promise<{ token?: string | string[] }>;
+};
+
+// Public page opened from the link in campaign emails; the signed token replaces login.
+export default async function EmailPreferencesPage({ searchParams }: EmailPreferencesPageProps) {
+  const { t } = await getServerTranslator();
+  const { token: rawToken } = await searchParams;
+  const token = typeof rawToken === "string" ? rawToken : "";
+  const email = token ? verifyPreferenceToken(token, preferenceLinkSecret()) : null;
+
+  if (!email) {
+    return (
+      <main className="mx-auto max-w-xl px-6 py-10">
+        <section className="rounded border border-red-200 bg-red-50 p-6">
+          <h1 className="text-xl font-bold text-red-800">{t("emailPreferences.title")}</h1>
+          <p className="mt-2 text-sm text-red-700">{t("emailPreferences.invalidLink")}</p>
+        </section>
+      </main>
+    );
+  }
+
+  const preferences = await loadEmailPreferences(createSupabaseServiceClient(), email);
+
+  return (
+    <main className="mx-auto max-w-xl px-6 py-10">
+      <h1 className="text-2xl font-bold text-slate-900">{t("emailPreferences.title")}</h1>
+      <p className="mt-2 text-sm text-slate-500">
+        {t("emailPreferences.description", { email })}
+      </p>
+
+      <section className="mt-6 rounded-xl border border-slate-200 bg-white p-6 shadow-sm">
+        <EmailPreferencesForm token={token} initialNewsletter={preferences.newsletter} />
+      </section>
+    </main>
+  );
+}
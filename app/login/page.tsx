@@ -1,6 +1,7 @@
 "use client";
 
 import { useEffect, useState } from "react";
+import Link from "next/link";
 import { useRouter } from "next/navigation";
 import { createSupabaseBrowserClient } from "@/lib/supabase/client";
 import { useI18n } from "@/lib/i18n/provider";
@@ -214,6 +215,13 @@ export default function LoginPage() {
           </div>
         )}
       </form>
+
+      <p className="mt-6 text-center text-sm text-slate-500">
+        {t("auth.login.notRegistered")}{" "}
+        <Link href="/register" className="font-medium text-indigo-600 hover:text-indigo-500">
+          {t("auth.login.registerLink")}
+        </Link>
+      </p>
       </section>
     </main>
   );
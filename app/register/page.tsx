@@ -0,0 +1,16 @@
+import { RegistrationForm } from "./registration-form";
+import { getServerTranslator } from "@/lib/i18n/server";
+
+export default async function RegisterPage() {
+  const { t } = await getServerTranslator();
+  return (
+    <main className="mx-auto max-w-3xl px-6 py-10">
+      <h1 className="text-2xl font-bold text-slate-900">{t("register.title")}</h1>
+      <p className="mt-2 text-sm text-slate-500">{t("register.description")}</p>
+
+      <section className="mt-6 rounded-xl border border-slate-200 bg-white p-6 shadow-sm">
+        <RegistrationForm />
+      </section>
+    </main>
+  );
+}
@@ -0,0 +1,574 @@
+"use client";
+
+import Link from "next/link";
+import { FormEvent, useEffect, useState } from "react";
+import {
+  ALLOGGIO_OPTIONS,
+  ARRIVAL_DATE_MAX,
+  ARRIVAL_DATE_MIN,
+  DEPARTURE_DATE_MAX,
+  DEPARTURE_DATE_MIN,
+  DIFFICOLTA_ACCESSIBILITA_OPTIONS,
+  ESIGENZE_ALIMENTARI_OPTIONS,
+} from "@/lib/partecipante/constants";
+import {
+  EMPTY_REGISTRATION,
+  REGISTRATION_STEPS,
+  isRomeCity,
+  validateRegistrationStep,
+  type RegistrationError,
+  type RegistrationField,
+  type RegistrationFormInput,
+} from "@/lib/registration/form";
+import { useI18n } from "@/lib/i18n/provider";
+
+type RegistrationOptions = {
+  sesso: string[];
+  tipoIscrizione: string[];
+};
+
+const EMPTY_OPTIONS: RegistrationOptions = { sesso: [], tipoIscrizione: [] };
+
+const INPUT_CLASS = "mt-1 w-full rounded border border-slate-300 px-3 py-2 text-sm";
+
+function newClientId(): string {
+  return typeof crypto !== "undefined" && "randomUUID" in crypto ? crypto.randomUUID() : "";
+}
+
+export function RegistrationForm() {
+  const { locale, t } = useI18n();
+  const [formData, setFormData] = useState<RegistrationFormInput>(EMPTY_REGISTRATION);
+  const [clientId] = useState(newClientId);
+  const [website, setWebsite] = useState("");
+  const [options, setOptions] = useState<RegistrationOptions>(EMPTY_OPTIONS);
+  const [step, setStep] = useState(0);
+  const [errors, setErrors] = useState<RegistrationError[]>([]);
+  const [submitting, setSubmitting] = useState(false);
+  const [submitError, setSubmitError] = useState<string | null>(null);
+  const [completed, setCompleted] = useState<"registered" | "duplicate" | "waitlisted" | null>(
+    null
+  );
+  const [waitlistPosition, setWaitlistPosition] = useState<number | null>(null);
+
+  useEffect(() => {
+    async function loadOptions() {
+      try {
+        const res = await fetch("/api/registration", { cache: "no-store" });
+        if (!res.ok) return;
+        const json = (await res.json()) as Partial<RegistrationOptions>;
+        setOptions({
+          sesso: json.sesso ?? [],
+          tipoIscrizione: json.tipoIscrizione ?? [],
+        });
+      } catch {
+        // Suggestions are optional; the form works with free text.
+      }
+    }
+
+    void loadOptions();
+  }, []);
+
+  const currentStep = REGISTRATION_STEPS[step];
+  const isLastStep = step === REGISTRATION_STEPS.length - 1;
+  const showRomeGroup = isRomeCity(formData.citta);
+
+  function update<K extends RegistrationField>(field: K, value: RegistrationFormInput[K]) {
+    setFormData((prev) => ({ ...prev, [field]: value }));
+    setErrors((prev) => prev.filter((item) => item.field !== field));
+  }
+
+  function toggleListValue(field: "esigenze_alimentari" | "difficolta_accessibilita", value: string) {
+    const current = formData[field];
+    update(
+      field,
+      current.includes(value) ? current.filter((item) => item !== value) : [...current, value]
+    );
+  }
+
+  function setWholeEvent(checked: boolean) {
+    setFormData((prev) => ({
+      ...prev,
+      partecipa_intero_evento: checked,
+      data_arrivo: checked ? ARRIVAL_DATE_MIN : prev.data_arrivo,
+      data_partenza: checked ? DEPARTURE_DATE_MAX : prev.data_partenza,
+    }));
+  }
+
+  function fieldError(field: RegistrationField) {
+    const error = errors.find((item) => item.field === field);
+    if (!error) return null;
+    return <p className="mt-1 text-xs text-red-600">{t(error.key, error.params)}</p>;
+  }
+
+  function goToStep(target: number) {
+    if (target > step) {
+      const stepErrors = validateRegistrationStep(formData, step);
+      setErrors(stepErrors);
+      if (stepErrors.length > 0) return;
+    } else {
+      setErrors([]);
+    }
+    setSubmitError(null);
+    setStep(target);
+  }
+
+  async function handleSubmit(event: FormEvent<HTMLFormElement>) {
+    event.preventDefault();
+    if (!isLastStep) {
+      goToStep(step + 1);
+      return;
+    }
+
+    const stepErrors = validateRegistrationStep(formData, step);
+    setErrors(stepErrors);
+    if (stepErrors.length > 0 || submitting) return;
+
+    setSubmitting(true);
+    setSubmitError(null);
+
+    try {
+      const res = await fetch("/api/registration", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ clientId, website, locale, answers: formData }),
+      });
+      const json = (await res.json().catch(() => ({}))) as {
+        error?: string;
+        errors?: RegistrationError[];
+        duplicate_submission?: boolean;
+        registration_status?: string;
+        waitlist_position?: number | null;
+      };
+
+      if (!res.ok) {
+        const serverErrors = json.errors ?? [];
+        if (serverErrors.length > 0) {
+          // Send the person back to the first step that has an invalid answer.
+          const firstInvalid = REGISTRATION_STEPS.findIndex((item) =>
+            item.fields.some((field) => serverErrors.some((error) => error.field === field))
+          );
+          setErrors(serverErrors);
+          if (firstInvalid >= 0) setStep(firstInvalid);
+        }
+        setSubmitError(t("register.error.generic"));
+        return;
+      }
+
+      if (json.duplicate_submission) {
+        setCompleted("duplicate");
+      } else if (json.registration_status === "waitlisted") {
+        setWaitlistPosition(json.waitlist_position ?? null);
+        setCompleted("waitlisted");
+      } else {
+        setCompleted("registered");
+      }
+    } catch {
+      setSubmitError(t("register.error.generic"));
+    } finally {
+      setSubmitting(false);
+    }
+  }
+
+  if (completed) {
+    return (
+      <div className="space-y-3">
+        <div className="rounded border border-emerald-200 bg-emerald-50 px-4 py-3 text-sm text-emerald-700">
+          <p className="font-medium">{t("register.success.title")}</p>
+          <p className="mt-1">
+            {completed === "duplicate"
+              ? t("register.success.duplicate")
+              : completed === "waitlisted"
+                ? t("register.success.waitlisted", { position: waitlistPosition ?? "-" })
+                : t("register.success.body")}
+          </p>
+        </div>
+        <Link href="/login" className="text-sm font-medium text-indigo-600 hover:text-indigo-500">
+          {t("register.loginLink")}
+        </Link>
+      </div>
+    );
+  }
+
+  return (
+    <form onSubmit={handleSubmit} noValidate className="space-y-5">
+      <ol className="flex flex-wrap gap-2 text-xs">
+        {REGISTRATION_STEPS.map((item, index) => (
+          <li
+            key={item.id}
+            className={`rounded-full border px-3 py-1 font-medium ${
+              index === step
+                ? "border-indigo-600 bg-indigo-600 text-white"
+                : index < step
+                  ? "border-indigo-200 bg-indigo-50 text-indigo-700"
+                  : "border-slate-200 text-slate-500"
+            }`}
+          >
+            {index + 1}. {t(`register.step.${item.id}`)}
+          </li>
+        ))}
+      </ol>
+
+      <div className="hidden" aria-hidden="true">
+        <label>
+          Website
+          <input
+            tabIndex={-1}
+            autoComplete="off"
+            value={website}
+            onChange={(e) => setWebsite(e.target.value)}
+          />
+        </label>
+      </div>
+
+      {currentStep.id === "personal" ? (
+        <div className="grid gap-4 md:grid-cols-2">
+          <div>
+            <label className="block text-sm font-medium text-slate-700">{t("participant.form.name")}</label>
+            <input value={formData.nome} onChange={(e) => update("nome", e.target.value)} className={INPUT_CLASS} />
+            {fieldError("nome")}
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-slate-700">{t("participant.form.surname")}</label>
+            <input
+              value={formData.cognome}
+              onChange={(e) => update("cognome", e.target.value)}
+              className={INPUT_CLASS}
+            />
+            {fieldError("cognome")}
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-slate-700">{t("register.field.email")}</label>
+            <input
+              type="email"
+              value={formData.email}
+              onChange={(e) => update("email", e.target.value)}
+              className={INPUT_CLASS}
+            />
+            {fieldError("email")}
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-slate-700">{t("register.field.phone")}</label>
+            <input
+              type="tel"
+              value={formData.telefono}
+              onChange={(e) => update("telefono", e.target.value)}
+              className={INPUT_CLASS}
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-slate-700">
+              {t("participant.form.dateOfBirth")}
+            </label>
+            <input
+              type="date"
+              max={ARRIVAL_DATE_MIN}
+              value={formData.data_nascita}
+              onChange={(e) => update("data_nascita", e.target.value)}
+              className={INPUT_CLASS}
+            />
+            {fieldError("data_nascita")}
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-slate-700">{t("register.field.sex")}</label>
+            <input
+              list="register-sesso"
+              value={formData.sesso}
+              onChange={(e) => update("sesso", e.target.value)}
+              className={INPUT_CLASS}
+            />
+            <datalist id="register-sesso">
+              {options.sesso.map((option) => (
+                <option key={option} value={option} />
+              ))}
+            </datalist>
+            {fieldError("sesso")}
+          </div>
+          <div className="md:col-span-2">
+            <label className="block text-sm font-medium text-slate-700">
+              {t("participant.form.nationality")}
+            </label>
+            <input
+              value={formData.nazione}
+              onChange={(e) => update("nazione", e.target.value)}
+              className={INPUT_CLASS}
+            />
+            {fieldError("nazione")}
+          </div>
+        </div>
+      ) : null}
+
+      {currentStep.id === "group" ? (
+        <div className="grid gap-4 md:grid-cols-2">
+          <div>
+            <label className="block text-sm font-medium text-slate-700">
+              {t("register.field.countryOfResidence")}
+            </label>
+            <input
+              value={formData.paese_residenza}
+              onChange={(e) => update("paese_residenza", e.target.value)}
+              className={INPUT_CLASS}
+            />
+            {fieldError("paese_residenza")}
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-slate-700">{t("register.field.city")}</label>
+            <input value={formData.citta} onChange={(e) => update("citta", e.target.value)} className={INPUT_CLASS} />
+            {fieldError("citta")}
+          </div>
+          {showRomeGroup ? (
+            <div className="md:col-span-2">
+              <label className="block text-sm font-medium text-slate-700">
+                {t("register.field.romeGroup")}
+              </label>
+              <input
+                value={formData.gruppo_roma}
+                onChange={(e) => update("gruppo_roma", e.target.value)}
+                className={INPUT_CLASS}
+              />
+              {fieldError("gruppo_roma")}
+            </div>
+          ) : null}
+          <div>
+            <label className="block text-sm font-medium text-slate-700">
+              {t("register.field.groupLeader")}
+            </label>
+            <input
+              value={formData.gruppo_leader}
+              onChange={(e) => update("gruppo_leader", e.target.value)}
+              className={INPUT_CLASS}
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-slate-700">
+              {t("register.field.registrationType")}
+            </label>
+            <input
+              list="register-tipo-iscrizione"
+              value={formData.tipo_iscrizione}
+              onChange={(e) => update("tipo_iscrizione", e.target.value)}
+              className={INPUT_CLASS}
+            />
+            <datalist id="register-tipo-iscrizione">
+              {options.tipoIscrizione.map((option) => (
+                <option key={option} value={option} />
+              ))}
+            </datalist>
+          </div>
+        </div>
+      ) : null}
+
+      {currentStep.id === "stay" ? (
+        <div className="grid gap-4 md:grid-cols-2">
+          <label className="inline-flex items-center gap-2 text-sm font-medium text-slate-800 md:col-span-2">
+            <input
+              type="checkbox"
+              checked={formData.partecipa_intero_evento}
+              onChange={(e) => setWholeEvent(e.target.checked)}
+              className="h-4 w-4"
+            />
+            {t("register.field.wholeEvent")}
+          </label>
+          <div>
+            <label className="block text-sm font-medium text-slate-700">
+              {t("participant.form.arrivalDate")}
+            </label>
+            <input
+              type="date"
+              min={ARRIVAL_DATE_MIN}
+              max={ARRIVAL_DATE_MAX}
+              value={formData.data_arrivo}
+              disabled={formData.partecipa_intero_evento}
+              onChange={(e) => update("data_arrivo", e.target.value)}
+              className={`${INPUT_CLASS} disabled:bg-slate-50`}
+            />
+            <p className="mt-1 text-xs text-slate-500">
+              {t("participant.form.allowedBetween", { min: ARRIVAL_DATE_MIN, max: ARRIVAL_DATE_MAX })}
+            </p>
+            {fieldError("data_arrivo")}
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-slate-700">
+              {t("participant.form.departureDate")}
+            </label>
+            <input
+              type="date"
+              min={DEPARTURE_DATE_MIN}
+              max={DEPARTURE_DATE_MAX}
+              value={formData.data_partenza}
+              disabled={formData.partecipa_intero_evento}
+              onChange={(e) => update("data_partenza", e.target.value)}
+              className={`${INPUT_CLASS} disabled:bg-slate-50`}
+            />
+            <p className="mt-1 text-xs text-slate-500">
+              {t("participant.form.allowedBetween", {
+                min: DEPARTURE_DATE_MIN,
+                max: DEPARTURE_DATE_MAX,
+              })}
+            </p>
+            {fieldError("data_partenza")}
+          </div>
+          <div className="md:col-span-2">
+            <label className="block text-sm font-medium text-slate-700">
+              {t("participant.form.accommodation")}
+            </label>
+            <select
+              value={formData.alloggio}
+              onChange={(e) => update("alloggio", e.target.value)}
+              className={INPUT_CLASS}
+            >
+              <option value="">{t("participant.form.select")}</option>
+              {ALLOGGIO_OPTIONS.map((option) => (
+                <option key={option} value={option}>
+                  {option}
+                </option>
+              ))}
+            </select>
+            {fieldError("alloggio")}
+          </div>
+        </div>
+      ) : null}
+
+      {currentStep.id === "needs" ? (
+        <div className="space-y-4">
+          <div className="grid gap-4 md:grid-cols-2">
+            <div>
+              <label className="block text-sm font-medium text-slate-700">
+                {t("participant.form.dietaryRequirements")}
+              </label>
+              <div className="mt-2 grid gap-2 rounded border border-slate-200 p-3">
+                {ESIGENZE_ALIMENTARI_OPTIONS.map((option) => (
+                  <label key={option} className="inline-flex items-center gap-2 text-sm">
+                    <input
+                      type="checkbox"
+                      checked={formData.esigenze_alimentari.includes(option)}
+                      onChange={() => toggleListValue("esigenze_alimentari", option)}
+                      className="h-4 w-4"
+                    />
+                    <span>{option}</span>
+                  </label>
+                ))}
+              </div>
+              {fieldError("esigenze_alimentari")}
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-slate-700">
+                {t("participant.form.allergies")}
+              </label>
+              <input
+                value={formData.allergie}
+                onChange={(e) => update("allergie", e.target.value)}
+                className={INPUT_CLASS}
+              />
+            </div>
+          </div>
+
+          <div className="rounded border border-slate-200 p-4">
+            <label className="inline-flex items-center gap-2 text-sm font-medium text-slate-800">
+              <input
+                type="checkbox"
+                checked={formData.disabilita_accessibilita}
+                onChange={(e) =>
+                  setFormData((prev) => ({
+                    ...prev,
+                    disabilita_accessibilita: e.target.checked,
+                    difficolta_accessibilita: e.target.checked ? prev.difficolta_accessibilita : [],
+                  }))
+                }
+                className="h-4 w-4"
+              />
+              {t("participant.form.accessibilityNeeds")}
+            </label>
+            {formData.disabilita_accessibilita ? (
+              <div className="mt-3 grid gap-2">
+                {DIFFICOLTA_ACCESSIBILITA_OPTIONS.map((option) => (
+                  <label key={option} className="inline-flex items-start gap-2 text-sm">
+                    <input
+                      type="checkbox"
+                      checked={formData.difficolta_accessibilita.includes(option)}
+                      onChange={() => toggleListValue("difficolta_accessibilita", option)}
+                      className="mt-0.5 h-4 w-4"
+                    />
+                    <span>{option}</span>
+                  </label>
+                ))}
+              </div>
+            ) : null}
+            {fieldError("difficolta_accessibilita")}
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-slate-700">{t("register.field.notes")}</label>
+            <textarea
+              rows={3}
+              value={formData.note}
+              onChange={(e) => update("note", e.target.value)}
+              className={INPUT_CLASS}
+            />
+          </div>
+        </div>
+      ) : null}
+
+      {currentStep.id === "review" ? (
+        <div className="space-y-4">
+          <p className="text-sm text-slate-600">{t("register.review.hint")}</p>
+          <dl className="grid gap-x-4 gap-y-2 rounded border border-slate-200 p-4 text-sm md:grid-cols-[200px_minmax(0,1fr)]">
+            <dt className="text-slate-500">{t("participant.form.name")}</dt>
+            <dd className="text-slate-900">
+              {formData.nome} {formData.cognome}
+            </dd>
+            <dt className="text-slate-500">{t("register.field.email")}</dt>
+            <dd className="text-slate-900">{formData.email}</dd>
+            <dt className="text-slate-500">{t("register.field.city")}</dt>
+            <dd className="text-slate-900">
+              {[formData.citta, formData.paese_residenza].filter(Boolean).join(", ")}
+            </dd>
+            <dt className="text-slate-500">{t("participant.form.arrivalDate")}</dt>
+            <dd className="text-slate-900">{formData.data_arrivo}</dd>
+            <dt className="text-slate-500">{t("participant.form.departureDate")}</dt>
+            <dd className="text-slate-900">{formData.data_partenza}</dd>
+            <dt className="text-slate-500">{t("participant.form.accommodation")}</dt>
+            <dd className="text-slate-900">{formData.alloggio}</dd>
+          </dl>
+          <label className="inline-flex items-start gap-2 text-sm text-slate-800">
+            <input
+              type="checkbox"
+              checked={formData.privacy_accettata}
+              onChange={(e) => update("privacy_accettata", e.target.checked)}
+              className="mt-0.5 h-4 w-4"
+            />
+            {t("register.field.privacy")}
+          </label>
+          {fieldError("privacy_accettata")}
+        </div>
+      ) : null}
+
+      {submitError ? (
+        <div className="rounded border border-red-200 bg-red-50 px-3 py-2 text-sm text-red-700">
+          {submitError}
+        </div>
+      ) : null}
+
+      <div className="flex items-center justify-between gap-3 border-t border-slate-200 pt-4">
+        <button
+          type="button"
+          onClick={() => goToStep(step - 1)}
+          disabled={step === 0 || submitting}
+          className="rounded border border-slate-300 px-4 py-2 text-sm text-slate-700 hover:bg-slate-100 disabled:opacity-50"
+        >
+          {t("register.back")}
+        </button>
+        <button
+          type="submit"
+          disabled={submitting}
+          className="rounded-lg bg-indigo-600 px-4 py-2 text-sm font-medium text-white shadow-sm transition hover:bg-indigo-500 disabled:opacity-60"
+        >
+          {isLastStep
+            ? submitting
+              ? t("register.submitting")
+              : t("register.submit")
+            : t("register.next")}
+        </button>
+      </div>
+    </form>
+  );
+}
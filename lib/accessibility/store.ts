@@ -0,0 +1,167 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import {
+  buildSupportEntries,
+  type SupportEntry,
+  type SupportParticipant,
+  type SupportPlan,
+  type SupportPlanInput,
+} from "@/lib/accessibility/support";
+import { loadOrganizationSettings } from "@/lib/fees/document-store";
+import { alloggioLongToShort, DIFFICOLTA_ACCESSIBILITA_OPTIONS } from "@/lib/partecipante/constants";
+import { renderAccessibilityBriefingPdf } from "@/lib/pdf/accessibility-briefing";
+import { embeddedOne } from "@/lib/supabase/embedded";
+
+// Accessibility support planning (supabase/accessibility_support_migration.sql).
+
+type ParticipantRow = Omit<SupportParticipant, "accommodation"> & {
+  alloggio: string | null;
+  alloggio_short: string | null;
+};
+
+type BedAssignmentRow = {
+  participant_id: string;
+  night_from: string;
+  bed: {
+    label: string;
+    room: {
+      name: string;
+      floor: string | null;
+      structure: { name: string } | null;
+    } | null;
+  } | null;
+};
+
+const PLAN_FIELDS =
+  "participant_id,status,buddy_name,buddy_contact,action_item,notes,updated_at";
+
+function roomLabel(assignment: BedAssignmentRow): string | null {
+  const room = assignment.bed?.room;
+  if (!room) return null;
+  return [
+    room.structure?.name,
+    `room ${room.name}`,
+    room.floor ? `floor ${room.floor}` : null,
+    assignment.bed?.label ? `bed ${assignment.bed.label}` : null,
+  ]
+    .filter(Boolean)
+    .join(", ");
+}
+
+// First assigned room of each participant, by night.
+async function loadRooms(
+  service: SupabaseClient,
+  participantIds: string[]
+): Promise<Map<string, string>> {
+  const rooms = new Map<string, string>();
+  if (participantIds.length === 0) return rooms;
+
+  const { data, error } = await service
+    .from("accommodation_bed_assignments")
+    .select(
+      "participant_id,night_from,bed:accommodation_beds(label,room:accommodation_rooms(name,floor,structure:accommodation_structures(name)))"
+    )
+    .in("participant_id", participantIds)
+    .order("night_from", { ascending: true });
+
+  if (error) {
+    throw new Error(error.message);
+  }
+  for (const row of data ?? []) {
+    const bed = embeddedOne(row.bed);
+    const room = embeddedOne(bed?.room);
+    const label = roomLabel({
+      participant_id: row.participant_id,
+      night_from: row.night_from,
+      bed: bed && {
+        label: bed.label,
+        room: room && {
+          name: room.name,
+          floor: room.floor,
+          structure: embeddedOne(room.structure),
+        },
+      },
+    });
+    if (label && !rooms.has(row.participant_id)) {
+      rooms.set(row.participant_id, label);
+    }
+  }
+  return rooms;
+}
+
+export async function loadSupportEntries(service: SupabaseClient): Promise<SupportEntry[]> {
+  const [participantsRes, plansRes] = await Promise.all([
+    service
+      .from("partecipanti")
+      .select(
+        "id,nome,cognome,gruppo_label,telefono,data_arrivo,data_partenza,alloggio,alloggio_short,disabilita_accessibilita,difficolta_accessibilita"
+      )
+      .eq("registration_status", "confirmed")
+      .or("disabilita_accessibilita.eq.true,difficolta_accessibilita.not.is.null"),
+    service.from("accessibility_support_plans").select(PLAN_FIELDS),
+  ]);
+
+  if (participantsRes.error) {
+    throw new Error(participantsRes.error.message);
+  }
+  if (plansRes.error) {
+    throw new Error(plansRes.error.message);
+  }
+
+  const rows = (participantsRes.data ?? []) as ParticipantRow[];
+  const rooms = await loadRooms(service, rows.map((row) => row.id));
+  const participants: SupportParticipant[] = rows.map(({ alloggio, alloggio_short, ...row }) => ({
+    ...row,
+    accommodation: rooms.get(row.id) ?? alloggio_short ?? alloggioLongToShort(alloggio),
+  }));
+
+  return buildSupportEntries(
+    participants,
+    (plansRes.data ?? []) as SupportPlan[],
+    DIFFICOLTA_ACCESSIBILITA_OPTIONS
+  );
+}
+
+export async function saveSupportPlan(
+  service: SupabaseClient,
+  participantId: string,
+  input: SupportPlanInput,
+  userId: string
+): Promise<SupportPlan | null> {
+  const { data: participant, error: participantError } = await service
+    .from("partecipanti")
+    .select("id")
+    .eq("id", participantId)
+    .maybeSingle();
+
+  if (participantError) {
+    throw new Error(participantError.message);
+  }
+  if (!participant) return null;
+
+  const { data, error } = await service
+    .from("accessibility_support_plans")
+    .upsert(
+      {
+        participant_id: participantId,
+        ...input,
+        updated_at: new Date().toISOString(),
+        updated_by: userId,
+      },
+      { onConflict: "participant_id" }
+    )
+    .select(PLAN_FIELDS)
+    .single();
+
+  if (error) {
+    throw new Error(error.message);
+  }
+  return data as SupportPlan;
+}
+
+export async function renderAccessibilityBriefing(
+  service: SupabaseClient,
+  entries: SupportEntry[]
+): Promise<Uint8Array> {
+  const organization = await loadOrganizationSettings(service);
+  return renderAccessibilityBriefingPdf(organization.name, entries);
+}
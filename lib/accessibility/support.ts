@@ -0,0 +1,168 @@
+// Accessibility support planning: who declared a difficulty, grouped by the difficulty
+// options of the registration form, with the team's follow-up on each person.
+
+export const SUPPORT_STATUSES = ["to_contact", "in_progress", "arranged", "not_needed"] as const;
+export type SupportStatus = (typeof SUPPORT_STATUSES)[number];
+
+export const SUPPORT_STATUS_LABELS: Record<SupportStatus, string> = {
+  to_contact: "To contact",
+  in_progress: "In progress",
+  arranged: "Arranged",
+  not_needed: "No support needed",
+};
+
+// Participants who ticked "disability or accessibility needs" without picking any
+// difficulty, or whose answers are no longer in the form options.
+export const UNSPECIFIED_DIFFICULTY = "Not specified";
+
+export type SupportParticipant = {
+  id: string;
+  nome: string | null;
+  cognome: string | null;
+  gruppo_label: string | null;
+  telefono: string | null;
+  data_arrivo: string | null;
+  data_partenza: string | null;
+  disabilita_accessibilita: boolean | null;
+  difficolta_accessibilita: string | null;
+  // Room from the bed assignments, or the accommodation answer when no bed is assigned.
+  accommodation: string | null;
+};
+
+export type SupportPlan = {
+  participant_id: string;
+  status: SupportStatus;
+  buddy_name: string | null;
+  buddy_contact: string | null;
+  action_item: string | null;
+  notes: string | null;
+  updated_at: string | null;
+};
+
+export type SupportEntry = SupportParticipant & {
+  difficulties: string[];
+  plan: SupportPlan;
+};
+
+export type SupportGroup = {
+  difficulty: string;
+  entries: SupportEntry[];
+};
+
+export type SupportPlanInput = Omit<SupportPlan, "participant_id" | "updated_at">;
+
+export function isSupportStatus(value: unknown): value is SupportStatus {
+  return typeof value === "string" && (SUPPORT_STATUSES as readonly string[]).includes(value);
+}
+
+// Stored comma-separated like the participant forms, but "Difficulty seeing, even when
+// wearing glasses" has a comma of its own, so known options are looked up in the text
+// instead. Options are DIFFICOLTA_ACCESSIBILITA_OPTIONS, passed in to keep this module
+// free of imports.
+export function parseDifficulties(value: string | null, options: readonly string[]): string[] {
+  if (!value) return [];
+  return options.filter((option) => value.includes(option));
+}
+
+export function needsSupport(participant: SupportParticipant, options: readonly string[]): boolean {
+  return (
+    Boolean(participant.disabilita_accessibilita) ||
+    parseDifficulties(participant.difficolta_accessibilita, options).length > 0
+  );
+}
+
+export function defaultSupportPlan(participantId: string): SupportPlan {
+  return {
+    participant_id: participantId,
+    status: "to_contact",
+    buddy_name: null,
+    buddy_contact: null,
+    action_item: null,
+    notes: null,
+    updated_at: null,
+  };
+}
+
+function fullName(participant: SupportParticipant): string {
+  return [participant.nome, participant.cognome].filter(Boolean).join(" ").trim() || "-";
+}
+
+function compareEntries(a: SupportEntry, b: SupportEntry): number {
+  return (
+    (a.data_arrivo ?? "\uffff").localeCompare(b.data_arrivo ?? "\uffff") ||
+    fullName(a).localeCompare(fullName(b))
+  );
+}
+
+export function buildSupportEntries(
+  participants: SupportParticipant[],
+  plans: SupportPlan[],
+  options: readonly string[]
+): SupportEntry[] {
+  const planByParticipant = new Map(plans.map((plan) => [plan.participant_id, plan]));
+  return participants
+    .filter((participant) => needsSupport(participant, options))
+    .map((participant) => {
+      const difficulties = parseDifficulties(participant.difficolta_accessibilita, options);
+      return {
+        ...participant,
+        difficulties: difficulties.length > 0 ? difficulties : [UNSPECIFIED_DIFFICULTY],
+        plan: planByParticipant.get(participant.id) ?? defaultSupportPlan(participant.id),
+      };
+    })
+    .sort(compareEntries);
+}
+
+// One group per difficulty in form order; a person with several difficulties appears
+// in each of them. Empty groups are left out.
+export function groupByDifficulty(
+  entries: SupportEntry[],
+  options: readonly string[]
+): SupportGroup[] {
+  return [...options, UNSPECIFIED_DIFFICULTY]
+    .map((difficulty) => ({
+      difficulty,
+      entries: entries.filter((entry) => entry.difficulties.includes(difficulty)),
+    }))
+    .filter((group) => group.entries.length > 0);
+}
+
+// People the team confirmed need no support are left out of the venue briefing.
+export function briefingEntries(entries: SupportEntry[]): SupportEntry[] {
+  return entries.filter((entry) => entry.plan.status !== "not_needed");
+}
+
+function stay(entry: SupportEntry): string {
+  if (!entry.data_arrivo && !entry.data_partenza) return "";
+  return `${entry.data_arrivo ?? "?"} - ${entry.data_partenza ?? "?"}`;
+}
+
+// Briefing for venue staff: one line per person, without the internal notes.
+export function supportBriefingCsvRows(entries: SupportEntry[]): Array<Array<string | null>> {
+  return [
+    [
+      "Name",
+      "Group",
+      "Phone",
+      "Stay",
+      "Accommodation",
+      "Difficulties",
+      "Buddy",
+      "Buddy contact",
+      "Action item",
+      "Status",
+    ],
+    ...entries.map((entry) => [
+      fullName(entry),
+      entry.gruppo_label,
+      entry.telefono,
+      stay(entry),
+      entry.accommodation,
+      entry.difficulties.join(" | "),
+      entry.plan.buddy_name,
+      entry.plan.buddy_contact,
+      entry.plan.action_item,
+      SUPPORT_STATUS_LABELS[entry.plan.status],
+    ]),
+  ];
+}
@@ -0,0 +1,176 @@
+const DAY_MS = 24 * 60 * 60 * 1000;
+const DATE_ONLY_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+export type StayRange = {
+  // First night spent in the bed (arrival day).
+  from: string;
+  // Exclusive end: the departure day, when the bed is free again.
+  to: string;
+};
+
+export type BedAssignmentLike = StayRange & {
+  id?: string | null;
+  bed_id: string;
+  participant_id: string;
+};
+
+export type BedLike = {
+  id: string;
+  room_id: string;
+};
+
+export type RoomLike = {
+  id: string;
+  capacity: number;
+};
+
+export type AssignmentConflictCode =
+  | "invalid_range"
+  | "outside_stay"
+  | "bed_not_found"
+  | "room_not_found"
+  | "bed_occupied"
+  | "participant_already_assigned"
+  | "room_over_capacity";
+
+export type AssignmentConflict = {
+  code: AssignmentConflictCode;
+  message: string;
+  night?: string;
+};
+
+export type AssignmentContext = {
+  beds: BedLike[];
+  rooms: RoomLike[];
+  assignments: BedAssignmentLike[];
+  participantStay?: StayRange | null;
+};
+
+function parseDateOnlyUtc(value: string): Date | null {
+  if (!DATE_ONLY_PATTERN.test(value)) return null;
+  const date = new Date(`${value}T00:00:00Z`);
+  return Number.isNaN(date.getTime()) ? null : date;
+}
+
+export function isValidStayRange(range: StayRange): boolean {
+  const from = parseDateOnlyUtc(range.from);
+  const to = parseDateOnlyUtc(range.to);
+  if (!from || !to) return false;
+  return to.getTime() > from.getTime();
+}
+
+export function participantStayRange(participant: {
+  data_arrivo: string | null;
+  data_partenza: string | null;
+}): StayRange | null {
+  const range = {
+    from: participant.data_arrivo ?? "",
+    to: participant.data_partenza ?? "",
+  };
+  return isValidStayRange(range) ? range : null;
+}
+
+export function listNights(range: StayRange): string[] {
+  const from = parseDateOnlyUtc(range.from);
+  const to = parseDateOnlyUtc(range.to);
+  if (!from || !to) return [];
+
+  const nights: string[] = [];
+  for (let current = from.getTime(); current < to.getTime(); current += DAY_MS) {
+    nights.push(new Date(current).toISOString().slice(0, 10));
+  }
+  return nights;
+}
+
+export function stayRangesOverlap(a: StayRange, b: StayRange): boolean {
+  return a.from < b.to && b.from < a.to;
+}
+
+export function rangeWithinStay(range: StayRange, stay: StayRange): boolean {
+  return range.from >= stay.from && range.to <= stay.to;
+}
+
+function isSameAssignment(a: BedAssignmentLike, b: BedAssignmentLike): boolean {
+  return Boolean(a.id && b.id && a.id === b.id);
+}
+
+export function roomOccupancyByNight(
+  roomId: string,
+  context: Pick<AssignmentContext, "beds" | "assignments">
+): Map<string, number> {
+  const bedIds = new Set(context.beds.filter((bed) => bed.room_id === roomId).map((bed) => bed.id));
+  const occupancy = new Map<string, number>();
+
+  for (const assignment of context.assignments) {
+    if (!bedIds.has(assignment.bed_id)) continue;
+    for (const night of listNights(assignment)) {
+      occupancy.set(night, (occupancy.get(night) ?? 0) + 1);
+    }
+  }
+
+  return occupancy;
+}
+
+export function findAssignmentConflict(
+  candidate: BedAssignmentLike,
+  context: AssignmentContext
+): AssignmentConflict | null {
+  if (!isValidStayRange(candidate)) {
+    return {
+      code: "invalid_range",
+      message: "The last night must be after the first night.",
+    };
+  }
+
+  if (context.participantStay && !rangeWithinStay(candidate, context.participantStay)) {
+    return {
+      code: "outside_stay",
+      message: `Assignment must stay within the participant's stay (${context.participantStay.from} - ${context.participantStay.to}).`,
+    };
+  }
+
+  const bed = context.beds.find((row) => row.id === candidate.bed_id);
+  if (!bed) {
+    return { code: "bed_not_found", message: "Bed not found." };
+  }
+
+  const room = context.rooms.find((row) => row.id === bed.room_id);
+  if (!room) {
+    return { code: "room_not_found", message: "Room not found." };
+  }
+
+  const others = context.assignments.filter((row) => !isSameAssignment(row, candidate));
+
+  const bedClash = others.find(
+    (row) => row.bed_id === candidate.bed_id && stayRangesOverlap(row, candidate)
+  );
+  if (bedClash) {
+    return {
+      code: "bed_occupied",
+      message: `Bed is already taken from ${bedClash.from} to ${bedClash.to}.`,
+    };
+  }
+
+  const participantClash = others.find(
+    (row) => row.participant_id === candidate.participant_id && stayRangesOverlap(row, candidate)
+  );
+  if (participantClash) {
+    return {
+      code: "participant_already_assigned",
+      message: `Participant already has a bed from ${participantClash.from} to ${participantClash.to}.`,
+    };
+  }
+
+  const occupancy = roomOccupancyByNight(room.id, { beds: context.beds, assignments: others });
+  for (const night of listNights(candidate)) {
+    if ((occupancy.get(night) ?? 0) + 1 > room.capacity) {
+      return {
+        code: "room_over_capacity",
+        message: `Room is full on ${night} (capacity ${room.capacity}).`,
+        night,
+      };
+    }
+  }
+
+  return null;
+}
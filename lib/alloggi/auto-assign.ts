@@ -0,0 +1,216 @@
+import type { BedAssignmentLike, BedLike, StayRange } from "./allocation";
+
+// Answers from DIFFICOLTA_ACCESSIBILITA_OPTIONS that require an accessible room.
+export const ACCESSIBLE_ROOM_NEEDS = [
+  "I need accessible accommodation",
+  "I use a wheelchair or mobility aid",
+] as const;
+
+const MALE_TOKENS = new Set(["m", "male", "man", "maschio", "uomo", "masculino", "masculin", "homme", "hombre"]);
+const FEMALE_TOKENS = new Set([
+  "f",
+  "female",
+  "woman",
+  "femmina",
+  "donna",
+  "femenino",
+  "femenina",
+  "féminin",
+  "femme",
+  "mujer",
+]);
+
+export type RoomSex = "M" | "F";
+
+export type AutoAssignParticipant = {
+  id: string;
+  sesso: string | null;
+  is_minorenne: boolean | null;
+  gruppo_id: string | null;
+  needs_accessible_room: boolean;
+  stay: StayRange | null;
+};
+
+export type AutoAssignRoom = {
+  id: string;
+  capacity: number;
+  is_accessible: boolean;
+};
+
+export type AutoAssignInput = {
+  participants: AutoAssignParticipant[];
+  // Rooms in the preferred filling order.
+  rooms: AutoAssignRoom[];
+  beds: BedLike[];
+  // Assignments already saved; they are kept as they are.
+  assignments: BedAssignmentLike[];
+};
+
+export type UnplacedReasonCode =
+  | "missing_dates"
+  | "missing_sex"
+  | "no_accessible_bed"
+  | "no_free_bed"
+  | "no_compatible_room";
+
+export type UnplacedParticipant = {
+  participant_id: string;
+  code: UnplacedReasonCode;
+  message: string;
+};
+
+export type AutoAssignResult = {
+  draft: BedAssignmentLike[];
+  unplaced: UnplacedParticipant[];
+};
+
+type Profile = {
+  sex: RoomSex | null;
+  minor: boolean;
+  gruppoId: string | null;
+};
+
+const UNPLACED_MESSAGES: Record<UnplacedReasonCode, string> = {
+  missing_dates: "Arrival and departure dates are missing or invalid.",
+  missing_sex: "Sex is missing or not recognised, so no shared room can be chosen.",
+  no_accessible_bed: "No accessible room has a bed free for the whole stay.",
+  no_free_bed: "No bed is free for the whole stay.",
+  no_compatible_room:
+    "Free beds are only left in rooms with guests of another sex, or mixing minors with adults of another group.",
+};
+
+export function normalizeRoomSex(value: string | null | undefined): RoomSex | null {
+  const tokens = (value ?? "")
+    .toLowerCase()
+    .split(/[^\p{L}]+/u)
+    .filter(Boolean);
+  const male = tokens.some((token) => MALE_TOKENS.has(token));
+  const female = tokens.some((token) => FEMALE_TOKENS.has(token));
+  if (male === female) return null;
+  return male ? "M" : "F";
+}
+
+export function needsAccessibleRoom(difficoltaAccessibilita: string | null | undefined): boolean {
+  const answers = (difficoltaAccessibilita ?? "").split(",").map((item) => item.trim());
+  return ACCESSIBLE_ROOM_NEEDS.some((need) => answers.includes(need));
+}
+
+function toProfile(participant: AutoAssignParticipant): Profile {
+  return {
+    sex: normalizeRoomSex(participant.sesso),
+    minor: Boolean(participant.is_minorenne),
+    gruppoId: participant.gruppo_id?.trim() || null,
+  };
+}
+
+// Minors only share with minors, or with adults travelling in their own group.
+function canShareRoom(a: Profile, b: Profile): boolean {
+  if (!a.sex || a.sex !== b.sex) return false;
+  if (a.minor === b.minor) return true;
+  return Boolean(a.gruppoId) && a.gruppoId === b.gruppoId;
+}
+
+function overlaps(a: StayRange, b: StayRange): boolean {
+  return a.from < b.to && b.from < a.to;
+}
+
+export function suggestRoomAssignments(input: AutoAssignInput): AutoAssignResult {
+  const profiles = new Map(input.participants.map((row) => [row.id, toProfile(row)]));
+  const bedsByRoom = new Map<string, BedLike[]>();
+  for (const bed of input.beds) {
+    const row = bedsByRoom.get(bed.room_id);
+    if (row) row.push(bed);
+    else bedsByRoom.set(bed.room_id, [bed]);
+  }
+
+  const placed: BedAssignmentLike[] = [...input.assignments];
+  const alreadyAssigned = new Set(input.assignments.map((row) => row.participant_id));
+  const groupSizes = new Map<string, number>();
+  for (const participant of input.participants) {
+    const gruppoId = profiles.get(participant.id)?.gruppoId;
+    if (gruppoId) groupSizes.set(gruppoId, (groupSizes.get(gruppoId) ?? 0) + 1);
+  }
+
+  // Scarce accessible beds go first, then the biggest groups so they can fill rooms together.
+  const queue = input.participants
+    .filter((row) => !alreadyAssigned.has(row.id))
+    .sort((a, b) => {
+      const pa = profiles.get(a.id) as Profile;
+      const pb = profiles.get(b.id) as Profile;
+      return (
+        Number(b.needs_accessible_room) - Number(a.needs_accessible_room) ||
+        (groupSizes.get(pb.gruppoId ?? "") ?? 0) - (groupSizes.get(pa.gruppoId ?? "") ?? 0) ||
+        (pa.gruppoId ?? "").localeCompare(pb.gruppoId ?? "") ||
+        (pa.sex ?? "").localeCompare(pb.sex ?? "") ||
+        Number(pb.minor) - Number(pa.minor) ||
+        (a.stay?.from ?? "").localeCompare(b.stay?.from ?? "") ||
+        a.id.localeCompare(b.id)
+      );
+    });
+
+  const draft: BedAssignmentLike[] = [];
+  const unplaced: UnplacedParticipant[] = [];
+  const reject = (participantId: string, code: UnplacedReasonCode) => {
+    unplaced.push({ participant_id: participantId, code, message: UNPLACED_MESSAGES[code] });
+  };
+
+  for (const participant of queue) {
+    const profile = profiles.get(participant.id) as Profile;
+    const stay = participant.stay;
+    if (!stay) {
+      reject(participant.id, "missing_dates");
+      continue;
+    }
+    if (!profile.sex) {
+      reject(participant.id, "missing_sex");
+      continue;
+    }
+
+    let anyFreeBed = false;
+    let best: { bed: BedLike; score: number } | null = null;
+
+    for (const room of input.rooms) {
+      if (participant.needs_accessible_room && !room.is_accessible) continue;
+
+      const roomBeds = bedsByRoom.get(room.id) ?? [];
+      const roomBedIds = new Set(roomBeds.map((bed) => bed.id));
+      const overlapping = placed.filter((row) => roomBedIds.has(row.bed_id) && overlaps(row, stay));
+      const freeBed = roomBeds.find((bed) => !overlapping.some((row) => row.bed_id === bed.id));
+      if (!freeBed) continue;
+      anyFreeBed = true;
+
+      const occupants = overlapping.map((row) => profiles.get(row.participant_id));
+      // Occupants outside the candidate list are unknown, so their room is left alone.
+      if (occupants.some((occupant) => !occupant || !canShareRoom(profile, occupant))) continue;
+
+      const groupmates = occupants.filter(
+        (occupant) => profile.gruppoId && occupant?.gruppoId === profile.gruppoId
+      ).length;
+      const score =
+        groupmates * 100 +
+        (occupants.length > 0 ? 10 : 0) -
+        (room.is_accessible && !participant.needs_accessible_room ? 50 : 0);
+
+      if (!best || score > best.score) {
+        best = { bed: freeBed, score };
+      }
+    }
+
+    if (!best) {
+      if (anyFreeBed) reject(participant.id, "no_compatible_room");
+      else reject(participant.id, participant.needs_accessible_room ? "no_accessible_bed" : "no_free_bed");
+      continue;
+    }
+
+    const assignment = {
+      bed_id: best.bed.id,
+      participant_id: participant.id,
+      from: stay.from,
+      to: stay.to,
+    };
+    placed.push(assignment);
+    draft.push(assignment);
+  }
+
+  return { draft, unplaced };
+}
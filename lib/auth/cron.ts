@@ -0,0 +1,9 @@
+import { timingSafeEqual } from "node:crypto";
+
+// Scheduled workers under /api/cron are called with "Authorization: Bearer $CRON_SECRET".
+export function isCronRequestAuthorized(req: Request, secret: string): boolean {
+  const header = req.headers.get("authorization") ?? "";
+  const expected = Buffer.from(`Bearer ${secret}`);
+  const received = Buffer.from(header);
+  return expected.length === received.length && timingSafeEqual(expected, received);
+}
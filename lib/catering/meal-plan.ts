@@ -0,0 +1,222 @@
+// Expected covers per meal slot for catering, from the participants' stay and their
+// declared dietary needs.
+
+import type { DietaryNeed } from "@/lib/partecipante/constants";
+
+export const MEAL_KINDS = ["breakfast", "lunch", "dinner"] as const;
+export type MealKind = (typeof MEAL_KINDS)[number];
+
+// Every cover belongs to exactly one diet so the columns add up to the total; a
+// participant with several needs gets the most restrictive one.
+export const DIET_CATEGORIES = ["standard", "vegetarian", "vegan", "no_pork", "other"] as const;
+export type DietCategory = (typeof DIET_CATEGORIES)[number];
+
+export const DIET_LABELS: Record<DietCategory, string> = {
+  standard: "Standard",
+  vegetarian: "Vegetarian",
+  vegan: "Vegan",
+  no_pork: "No pork",
+  other: "Other",
+};
+
+export const MEAL_LABELS: Record<MealKind, string> = {
+  breakfast: "Breakfast",
+  lunch: "Lunch",
+  dinner: "Dinner",
+};
+
+export type MealSlot = {
+  id: string;
+  service_date: string;
+  meal: MealKind;
+};
+
+export type MealPlanParticipant = {
+  id: string;
+  nome: string | null;
+  cognome: string | null;
+  gruppo_label: string | null;
+  data_arrivo: string | null;
+  data_partenza: string | null;
+  partecipa_intero_evento: boolean | null;
+  presenza_dettaglio: Record<string, unknown> | null;
+  // From dietaryNeeds() on the participant's esigenze_alimentari.
+  diet: DietCategory;
+  allergie: string | null;
+};
+
+export type MealAllergy = {
+  participantId: string;
+  name: string;
+  group: string | null;
+  diet: DietCategory;
+  allergy: string;
+};
+
+export type MealPlanRow = {
+  slot: MealSlot;
+  covers: number;
+  // Covers counted from a "maybe" answer in the presence detail.
+  maybe: number;
+  diets: Record<DietCategory, number>;
+  allergies: MealAllergy[];
+};
+
+const MEAL_WORDS: Record<MealKind, string[]> = {
+  breakfast: ["breakfast", "colazione"],
+  lunch: ["lunch", "pranzo"],
+  dinner: ["dinner", "cena"],
+};
+
+// getUTCDay() order.
+const WEEKDAY_WORDS = [
+  ["sunday", "domenica"],
+  ["monday", "lunedi", "lunedì"],
+  ["tuesday", "martedi", "martedì"],
+  ["wednesday", "mercoledi", "mercoledì"],
+  ["thursday", "giovedi", "giovedì"],
+  ["friday", "venerdi", "venerdì"],
+  ["saturday", "sabato"],
+];
+
+const NO_NEEDS = /^(none|no|nessuna|nessuno|-)$/i;
+
+export function isMealKind(value: unknown): value is MealKind {
+  return typeof value === "string" && (MEAL_KINDS as readonly string[]).includes(value);
+}
+
+// Most restrictive first.
+const DIET_PRECEDENCE: DietaryNeed[] = ["vegan", "vegetarian", "no_pork", "other"];
+
+export function dietCategory(needs: DietaryNeed[]): DietCategory {
+  return DIET_PRECEDENCE.find((need) => needs.includes(need)) ?? "standard";
+}
+
+function fullName(participant: MealPlanParticipant): string {
+  return [participant.nome, participant.cognome].filter(Boolean).join(" ").trim() || "-";
+}
+
+function words(value: string): string[] {
+  return value.toLowerCase().split(/[^\p{L}\d-]+/u).filter(Boolean);
+}
+
+// A presence detail key applies to a slot when it names the slot's day (weekday in
+// English or Italian, or the ISO date) and either no meal or the slot's meal.
+function keyDay(key: string, slot: MealSlot): boolean {
+  if (key.includes(slot.service_date)) return true;
+  const weekday = new Date(`${slot.service_date}T00:00:00Z`).getUTCDay();
+  const keyWords = words(key);
+  return WEEKDAY_WORDS[weekday].some((word) => keyWords.includes(word));
+}
+
+function keyMeal(key: string): MealKind | null {
+  const keyWords = words(key);
+  return MEAL_KINDS.find((meal) => MEAL_WORDS[meal].some((word) => keyWords.includes(word))) ?? null;
+}
+
+type Attendance = "yes" | "maybe" | "no";
+
+function answerAttendance(value: unknown): Attendance {
+  if (value === true) return "yes";
+  if (typeof value !== "string") return "no";
+  const answer = value.trim().toLowerCase();
+  if (answer === "maybe" || answer === "forse") return "maybe";
+  return ["true", "yes", "si", "sì", "x", "1"].includes(answer) ? "yes" : "no";
+}
+
+function knownDetailKeys(detail: Record<string, unknown> | null): string[] {
+  if (!detail) return [];
+  return Object.keys(detail).filter((key) => {
+    const keyWords = words(key);
+    return (
+      /\d{4}-\d{2}-\d{2}/.test(key) ||
+      WEEKDAY_WORDS.some((names) => names.some((name) => keyWords.includes(name)))
+    );
+  });
+}
+
+// Without a usable presence detail every slot between arrival and departure counts;
+// arrival and departure days count in full, catering prefers spare covers to missing ones.
+export function slotAttendance(participant: MealPlanParticipant, slot: MealSlot): Attendance {
+  const arrival = participant.data_arrivo;
+  const departure = participant.data_partenza;
+  if (arrival && slot.service_date < arrival) return "no";
+  if (departure && slot.service_date > departure) return "no";
+
+  const keys = participant.partecipa_intero_evento ? [] : knownDetailKeys(participant.presenza_dettaglio);
+  if (keys.length === 0) return arrival && departure ? "yes" : "no";
+
+  const dayKeys = keys.filter((key) => keyDay(key, slot));
+  const mealKeys = dayKeys.filter((key) => keyMeal(key) === slot.meal);
+  const applicable = mealKeys.length > 0 ? mealKeys : dayKeys.filter((key) => keyMeal(key) === null);
+
+  const answers = applicable.map((key) => answerAttendance(participant.presenza_dettaglio?.[key]));
+  if (answers.includes("yes")) return "yes";
+  return answers.includes("maybe") ? "maybe" : "no";
+}
+
+function emptyDiets(): Record<DietCategory, number> {
+  return { standard: 0, vegetarian: 0, vegan: 0, no_pork: 0, other: 0 };
+}
+
+export function compareMealSlots(a: MealSlot, b: MealSlot): number {
+  return (
+    a.service_date.localeCompare(b.service_date) ||
+    MEAL_KINDS.indexOf(a.meal) - MEAL_KINDS.indexOf(b.meal)
+  );
+}
+
+export function buildMealPlan(
+  slots: MealSlot[],
+  participants: MealPlanParticipant[]
+): MealPlanRow[] {
+  return [...slots].sort(compareMealSlots).map((slot) => {
+    const row: MealPlanRow = { slot, covers: 0, maybe: 0, diets: emptyDiets(), allergies: [] };
+
+    for (const participant of participants) {
+      const attendance = slotAttendance(participant, slot);
+      if (attendance === "no") continue;
+
+      const diet = participant.diet;
+      row.covers += 1;
+      if (attendance === "maybe") row.maybe += 1;
+      row.diets[diet] += 1;
+
+      const allergy = (participant.allergie ?? "").trim();
+      if (allergy && !NO_NEEDS.test(allergy)) {
+        row.allergies.push({
+          participantId: participant.id,
+          name: fullName(participant),
+          group: participant.gruppo_label,
+          diet,
+          allergy,
+        });
+      }
+    }
+
+    row.allergies.sort((a, b) => a.name.localeCompare(b.name));
+    return row;
+  });
+}
+
+// One line per slot; the allergy list goes in the last column.
+export function mealPlanCsvRows(plan: MealPlanRow[]): Array<Array<string | number>> {
+  return [
+    [
+      "Date",
+      "Meal",
+      "Covers",
+      "Of which maybe",
+      ...DIET_CATEGORIES.map((diet) => DIET_LABELS[diet]),
+      "Allergies",
+    ],
+    ...plan.map((row) => [
+      row.slot.service_date,
+      MEAL_LABELS[row.slot.meal],
+      row.covers,
+      row.maybe,
+      ...DIET_CATEGORIES.map((diet) => row.diets[diet]),
+      row.allergies.map((entry) => `${entry.name}: ${entry.allergy}`).join(" | "),
+    ]),
+  ];
+}
@@ -0,0 +1,128 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import {
+  buildMealPlan,
+  compareMealSlots,
+  dietCategory,
+  type MealKind,
+  type MealPlanParticipant,
+  type MealPlanRow,
+  type MealSlot,
+} from "@/lib/catering/meal-plan";
+import { loadOrganizationSettings } from "@/lib/fees/document-store";
+import { dietaryNeeds } from "@/lib/partecipante/constants";
+import { renderKitchenSheetPdf } from "@/lib/pdf/kitchen-sheet";
+
+// Meal planning (supabase/meal_planning_migration.sql): managers list the meal slots
+// the catering serves, covers are computed on the fly from confirmed participants.
+
+const SLOT_FIELDS = "id,service_date,meal";
+
+// The slot list is short (a few meals over a few days), so a range cap only guards
+// against typos in the year.
+const MAX_SLOT_DAYS = 31;
+
+export async function listMealSlots(service: SupabaseClient): Promise<MealSlot[]> {
+  const { data, error } = await service.from("meal_slots").select(SLOT_FIELDS);
+
+  if (error) {
+    throw new Error(error.message);
+  }
+  return ((data ?? []) as MealSlot[]).sort(compareMealSlots);
+}
+
+function datesBetween(from: string, to: string): string[] {
+  const dates: string[] = [];
+  const cursor = new Date(`${from}T00:00:00Z`);
+  const end = new Date(`${to}T00:00:00Z`);
+  while (cursor <= end && dates.length <= MAX_SLOT_DAYS) {
+    dates.push(cursor.toISOString().slice(0, 10));
+    cursor.setUTCDate(cursor.getUTCDate() + 1);
+  }
+  return dates;
+}
+
+// Adds every selected meal on every day of the range; slots that already exist are
+// left as they are.
+export async function addMealSlots(
+  service: SupabaseClient,
+  input: { from: string; to: string; meals: MealKind[]; userId: string }
+): Promise<{ added: number } | { error: string; status: number }> {
+  if (input.to < input.from) {
+    return { error: "The end date is before the start date", status: 400 };
+  }
+  const dates = datesBetween(input.from, input.to);
+  if (dates.length > MAX_SLOT_DAYS) {
+    return { error: `Add at most ${MAX_SLOT_DAYS} days at a time`, status: 400 };
+  }
+
+  const rows = dates.flatMap((serviceDate) =>
+    input.meals.map((meal) => ({
+      service_date: serviceDate,
+      meal,
+      created_by: input.userId,
+    }))
+  );
+
+  const { data, error } = await service
+    .from("meal_slots")
+    .upsert(rows, { onConflict: "service_date,meal", ignoreDuplicates: true })
+    .select("id");
+
+  if (error) {
+    throw new Error(error.message);
+  }
+  return { added: (data ?? []).length };
+}
+
+export async function deleteMealSlot(service: SupabaseClient, slotId: string): Promise<boolean> {
+  const { data, error } = await service.from("meal_slots").delete().eq("id", slotId).select("id");
+
+  if (error) {
+    throw new Error(error.message);
+  }
+  return (data ?? []).length > 0;
+}
+
+async function loadMealPlanParticipants(service: SupabaseClient): Promise<MealPlanParticipant[]> {
+  const { data, error } = await service
+    .from("partecipanti")
+    .select(
+      "id,nome,cognome,gruppo_label,data_arrivo,data_partenza,partecipa_intero_evento,presenza_dettaglio,esigenze_alimentari,allergie"
+    )
+    .eq("registration_status", "confirmed");
+
+  if (error) {
+    throw new Error(error.message);
+  }
+  return (data ?? []).map(({ esigenze_alimentari, ...participant }) => ({
+    ...participant,
+    diet: dietCategory(dietaryNeeds(esigenze_alimentari)),
+  })) as MealPlanParticipant[];
+}
+
+// The plan for every slot, or for the slots of one day when serviceDate is given.
+export async function loadMealPlan(
+  service: SupabaseClient,
+  serviceDate: string | null = null
+): Promise<{ slots: MealSlot[]; plan: MealPlanRow[] }> {
+  const [slots, participants] = await Promise.all([
+    listMealSlots(service),
+    loadMealPlanParticipants(service),
+  ]);
+  const selected = serviceDate ? slots.filter((slot) => slot.service_date === serviceDate) : slots;
+  return { slots, plan: buildMealPlan(selected, participants) };
+}
+
+export async function renderKitchenSheet(
+  service: SupabaseClient,
+  plan: MealPlanRow[],
+  title: string
+): Promise<Uint8Array> {
+  const organization = await loadOrganizationSettings(service);
+  return renderKitchenSheetPdf(organization.name, plan, title);
+}
+
+export function mealPlanFilename(serviceDate: string | null, extension: "csv" | "pdf"): string {
+  const prefix = extension === "pdf" ? "kitchen-sheet" : "meal-plan";
+  return `${prefix}-${serviceDate ?? "all"}.${extension}`;
+}
@@ -0,0 +1,30 @@
+// Coloured markers printed on badges so kitchen and staff spot dietary needs and minors
+// at a glance. Short uppercase labels are used instead of icons: the PDF writer only has
+// the standard fonts.
+
+import type { DietaryNeed } from "@/lib/partecipante/constants";
+
+export type BadgeMarker = {
+  label: string;
+  // RGB in 0..1, as used by the PDF writer.
+  color: [number, number, number];
+};
+
+export const MINOR_MARKER: BadgeMarker = { label: "U18", color: [0.8, 0.15, 0.15] };
+
+const DIETARY_MARKERS: Record<DietaryNeed, BadgeMarker> = {
+  vegan: { label: "VEGAN", color: [0.05, 0.45, 0.2] },
+  vegetarian: { label: "VEG", color: [0.2, 0.62, 0.3] },
+  no_pork: { label: "NO PORK", color: [0.85, 0.45, 0.1] },
+  // Anything else the participant declared ("Other", free text): the kitchen must check.
+  other: { label: "DIET", color: [0.45, 0.25, 0.7] },
+};
+
+export function dietaryMarkers(needs: DietaryNeed[]): BadgeMarker[] {
+  return needs.map((need) => DIETARY_MARKERS[need]);
+}
+
+// needs come from dietaryNeeds() on the participant's esigenze_alimentari.
+export function badgeMarkers(needs: DietaryNeed[], isMinor: boolean | null): BadgeMarker[] {
+  return [...(isMinor ? [MINOR_MARKER] : []), ...dietaryMarkers(needs)];
+}
@@ -0,0 +1,304 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { badgeMarkers, type BadgeMarker } from "@/lib/check-in/badge-markers";
+import { createBadgeToken, verifyBadgeToken } from "@/lib/check-in/badge-token";
+import { loadOrganizationSettings } from "@/lib/fees/document-store";
+import { dietaryNeeds } from "@/lib/partecipante/constants";
+import { renderBadgePdf, renderBadgeSheetPdf, type BadgeContent } from "@/lib/pdf/badge";
+import { encodeQr, type QrMatrix } from "@/lib/qr/encode";
+import { embeddedOne } from "@/lib/supabase/embedded";
+import { signingSecret } from "@/lib/supabase/service";
+
+// On-site check-ins (supabase/check_ins_migration.sql): staff scan the QR code of a
+// participant badge and one row is stored per participant and event day.
+
+export type CheckInParticipant = {
+  id: string;
+  nome: string | null;
+  cognome: string | null;
+  email: string | null;
+  nazione: string | null;
+  gruppo_label: string | null;
+  registration_status: string | null;
+  data_arrivo: string | null;
+  data_partenza: string | null;
+};
+
+export type CheckInRow = {
+  id: string;
+  participant_id: string;
+  check_in_date: string;
+  checked_in_at: string;
+  checked_in_by: string | null;
+};
+
+export type CheckInListRow = CheckInRow & {
+  participant: CheckInParticipant | null;
+};
+
+// Participant fields printed on a badge.
+export type BadgeParticipant = {
+  id: string;
+  nome: string | null;
+  cognome: string | null;
+  nazione: string | null;
+  gruppo_label: string | null;
+  esigenze_alimentari: string | null;
+  is_minorenne: boolean | null;
+};
+
+export type BadgeListRow = BadgeParticipant & {
+  data_arrivo: string | null;
+};
+
+export type BadgeFilters = {
+  group: string | null;
+  arrivalDate: string | null;
+  participantId: string | null;
+};
+
+export type CheckInResult =
+  | {
+      checkIn: CheckInRow;
+      participant: CheckInParticipant;
+      // The badge was already scanned for this day; the original check-in is returned.
+      duplicate: boolean;
+      warnings: string[];
+    }
+  | { error: string; status: number };
+
+const CHECK_IN_FIELDS = "id,participant_id,check_in_date,checked_in_at,checked_in_by";
+
+const PARTICIPANT_FIELDS =
+  "id,nome,cognome,email,nazione,gruppo_label,registration_status,data_arrivo,data_partenza";
+
+export function badgeLinkSecret(): string {
+  return signingSecret("CHECK_IN_SECRET");
+}
+
+export function participantBadgeCode(participantId: string): string {
+  return createBadgeToken(participantId, badgeLinkSecret());
+}
+
+export function participantBadgeQr(participantId: string): QrMatrix {
+  return encodeQr(participantBadgeCode(participantId));
+}
+
+function fullName(row: { nome: string | null; cognome: string | null }): string {
+  return [row.nome, row.cognome].filter(Boolean).join(" ").trim() || "Participant";
+}
+
+export function participantBadgeMarkers(participant: BadgeParticipant): BadgeMarker[] {
+  return badgeMarkers(dietaryNeeds(participant.esigenze_alimentari), participant.is_minorenne);
+}
+
+function toBadgeContent(eventName: string, participant: BadgeParticipant): BadgeContent {
+  return {
+    eventName,
+    name: fullName(participant),
+    group: participant.gruppo_label,
+    country: participant.nazione,
+    qr: participantBadgeQr(participant.id),
+    footer: "Show this code at check-in",
+    markers: participantBadgeMarkers(participant),
+  };
+}
+
+export async function renderParticipantBadgePdf(
+  service: SupabaseClient,
+  participant: BadgeParticipant
+): Promise<Uint8Array> {
+  const organization = await loadOrganizationSettings(service);
+  return renderBadgePdf(toBadgeContent(organization.name, participant));
+}
+
+// Confirmed participants matching the batch filters, in print order: by group, then
+// by surname, so each group leader's badges come out together.
+export async function loadBadgeParticipants(
+  service: SupabaseClient,
+  filters: BadgeFilters
+): Promise<BadgeListRow[]> {
+  let query = service
+    .from("partecipanti")
+    .select("id,nome,cognome,nazione,gruppo_label,esigenze_alimentari,is_minorenne,data_arrivo")
+    .eq("registration_status", "confirmed");
+
+  if (filters.participantId) query = query.eq("id", filters.participantId);
+  if (filters.group) query = query.eq("gruppo_label", filters.group);
+  if (filters.arrivalDate) query = query.eq("data_arrivo", filters.arrivalDate);
+
+  const { data, error } = await query;
+  if (error) {
+    throw new Error(error.message);
+  }
+
+  // Participants without a group go last.
+  return ((data ?? []) as BadgeListRow[]).sort(
+    (a, b) =>
+      (a.gruppo_label ?? "\uffff").localeCompare(b.gruppo_label ?? "\uffff") ||
+      (a.cognome ?? "").localeCompare(b.cognome ?? "") ||
+      (a.nome ?? "").localeCompare(b.nome ?? "")
+  );
+}
+
+export async function renderBadgeSheet(
+  service: SupabaseClient,
+  participants: BadgeParticipant[],
+  title: string
+): Promise<Uint8Array> {
+  const organization = await loadOrganizationSettings(service);
+  return renderBadgeSheetPdf(
+    participants.map((participant) => toBadgeContent(organization.name, participant)),
+    title
+  );
+}
+
+function fileSlug(value: string): string {
+  return value
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .replace(/[^A-Za-z0-9]+/g, "-")
+    .replace(/^-+|-+$/g, "");
+}
+
+export function badgeFilename(participant: { nome: string | null; cognome: string | null }) {
+  return `badge-${fileSlug(fullName(participant)) || "participant"}.pdf`;
+}
+
+export function badgeSheetFilename(filters: BadgeFilters): string {
+  const parts = [filters.group, filters.arrivalDate]
+    .map((part) => fileSlug(part ?? ""))
+    .filter(Boolean);
+  return `badges-${parts.join("-") || "all"}.pdf`;
+}
+
+async function loadCheckIn(
+  service: SupabaseClient,
+  participantId: string,
+  day: string
+): Promise<CheckInRow | null> {
+  const { data, error } = await service
+    .from("participant_check_ins")
+    .select(CHECK_IN_FIELDS)
+    .eq("participant_id", participantId)
+    .eq("check_in_date", day)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(error.message);
+  }
+  return (data as CheckInRow | null) ?? null;
+}
+
+function checkInWarnings(participant: CheckInParticipant, day: string): string[] {
+  const warnings: string[] = [];
+  if (participant.registration_status && participant.registration_status !== "confirmed") {
+    warnings.push(`Registration is ${participant.registration_status}, not confirmed.`);
+  }
+  if (participant.data_arrivo && day < participant.data_arrivo) {
+    warnings.push(`Planned arrival is ${participant.data_arrivo}.`);
+  }
+  if (participant.data_partenza && day > participant.data_partenza) {
+    warnings.push(`Planned departure was ${participant.data_partenza}.`);
+  }
+  return warnings;
+}
+
+export async function recordCheckIn(
+  service: SupabaseClient,
+  input: { code: string; day: string; userId: string }
+): Promise<CheckInResult> {
+  const participantId = verifyBadgeToken(input.code, badgeLinkSecret());
+  if (!participantId) {
+    return { error: "This is not a valid badge code", status: 400 };
+  }
+
+  const { data: participantData, error: participantError } = await service
+    .from("partecipanti")
+    .select(PARTICIPANT_FIELDS)
+    .eq("id", participantId)
+    .maybeSingle();
+
+  if (participantError) {
+    throw new Error(participantError.message);
+  }
+  const participant = participantData as CheckInParticipant | null;
+  if (!participant) {
+    return { error: "Participant not found", status: 404 };
+  }
+
+  const warnings = checkInWarnings(participant, input.day);
+  const existing = await loadCheckIn(service, participantId, input.day);
+  if (existing) {
+    return { checkIn: existing, participant, duplicate: true, warnings };
+  }
+
+  const { data, error } = await service
+    .from("participant_check_ins")
+    .insert({
+      participant_id: participantId,
+      check_in_date: input.day,
+      checked_in_by: input.userId,
+    })
+    .select(CHECK_IN_FIELDS)
+    .single();
+
+  if (error) {
+    // Two devices scanned the same badge at once: the other insert won.
+    if (error.code === "23505") {
+      const winner = await loadCheckIn(service, participantId, input.day);
+      if (winner) return { checkIn: winner, participant, duplicate: true, warnings };
+    }
+    throw new Error(error.message);
+  }
+
+  return { checkIn: data as CheckInRow, participant, duplicate: false, warnings };
+}
+
+export async function undoCheckIn(service: SupabaseClient, checkInId: string): Promise<boolean> {
+  const { data, error } = await service
+    .from("participant_check_ins")
+    .delete()
+    .eq("id", checkInId)
+    .select("id");
+
+  if (error) {
+    throw new Error(error.message);
+  }
+  return (data ?? []).length > 0;
+}
+
+export async function listCheckIns(service: SupabaseClient, day: string): Promise<CheckInListRow[]> {
+  const { data, error } = await service
+    .from("participant_check_ins")
+    .select(
+      "id,participant_id,check_in_date,checked_in_at,checked_in_by,participant:partecipanti(id,nome,cognome,email,nazione,gruppo_label,registration_status,data_arrivo,data_partenza)"
+    )
+    .eq("check_in_date", day)
+    .order("checked_in_at", { ascending: false });
+
+  if (error) {
+    throw new Error(error.message);
+  }
+  return (data ?? []).map((row) => ({
+    id: row.id,
+    participant_id: row.participant_id,
+    check_in_date: row.check_in_date,
+    checked_in_at: row.checked_in_at,
+    checked_in_by: row.checked_in_by,
+    participant: embeddedOne(row.participant),
+  }));
+}
+
+// Every check-in of the event, for comparing actual with planned daily presence.
+export async function loadCheckInDays(
+  service: SupabaseClient
+): Promise<Array<{ participant_id: string; check_in_date: string }>> {
+  const { data, error } = await service
+    .from("participant_check_ins")
+    .select("participant_id,check_in_date");
+
+  if (error) {
+    throw new Error(error.message);
+  }
+  return (data ?? []) as Array<{ participant_id: string; check_in_date: string }>;
+}
@@ -0,0 +1,17 @@
+// Text cells starting with one of these are read as formulas by spreadsheet apps.
+const FORMULA_PREFIX = /^[=+\-@]/;
+
+// Semicolon-separated CSV, the format Excel opens directly with Italian and most EU
+// regional settings (same default as parseCsvText). The BOM makes Excel read UTF-8.
+// Text that looks like a formula gets a leading ' so participant input (names, notes)
+// cannot run as one; numbers are written as they are.
+export function toCsvText(rows: Array<Array<string | number | null>>, delimiter = ";"): string {
+  const escapeCell = (value: string | number | null) => {
+    const raw = value === null ? "" : String(value);
+    const text = typeof value === "string" && FORMULA_PREFIX.test(raw) ? `'${raw}` : raw;
+    return /["\r\n]/.test(text) || text.includes(delimiter)
+      ? `"${text.replace(/"/g, '""')}"`
+      : text;
+  };
+  return `\ufeff${rows.map((row) => row.map(escapeCell).join(delimiter)).join("\r\n")}\r\n`;
+}
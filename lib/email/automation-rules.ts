@@ -0,0 +1,197 @@
+// Rule definitions for automatic emails. Event triggers fire from the code paths that
+// cause them; scheduled triggers are evaluated by the automation worker
+// (/api/cron/email-automations).
+
+export const AUTOMATION_TRIGGERS = [
+  "registration_created",
+  "profile_updated",
+  "waitlist_promoted",
+  "days_before_arrival",
+  "balance_unpaid",
+] as const;
+
+export type AutomationTrigger = (typeof AUTOMATION_TRIGGERS)[number];
+
+export type AutomationEventTrigger = "registration_created" | "profile_updated" | "waitlist_promoted";
+
+export type AutomationScheduledTrigger = "days_before_arrival" | "balance_unpaid";
+
+export const AUTOMATION_TRIGGER_LABELS: Record<AutomationTrigger, string> = {
+  registration_created: "New registration",
+  profile_updated: "Profile changed (by the participant, a group leader or a manager)",
+  waitlist_promoted: "Promoted from the waitlist",
+  days_before_arrival: "Days before arrival",
+  balance_unpaid: "Unpaid balance after a deadline",
+};
+
+export const SCHEDULED_TRIGGERS: AutomationScheduledTrigger[] = [
+  "days_before_arrival",
+  "balance_unpaid",
+];
+
+export type AutomationRecipientType = "participants" | "group_leaders";
+
+export type AutomationRuleValues = {
+  name: string;
+  trigger: AutomationTrigger;
+  template_id: string;
+  recipient_type: AutomationRecipientType;
+  days_before: number | null;
+  due_date: string | null;
+  enabled: boolean;
+};
+
+export type ScheduledRule = {
+  trigger: AutomationTrigger;
+  days_before: number | null;
+  due_date: string | null;
+};
+
+export type ScheduledCandidate = {
+  registration_status: string | null;
+  data_arrivo: string | null;
+  quota_totale: number | null;
+  fee_paid: number | null;
+};
+
+const MAX_DAYS_BEFORE = 365;
+const BALANCE_TOLERANCE = 0.005;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export function isAutomationTrigger(value: unknown): value is AutomationTrigger {
+  return typeof value === "string" && (AUTOMATION_TRIGGERS as readonly string[]).includes(value);
+}
+
+function parseDateOnly(value: string | null): number | null {
+  if (!value || !/^\d{4}-\d{2}-\d{2}$/.test(value)) return null;
+  const time = Date.parse(`${value}T00:00:00Z`);
+  return Number.isNaN(time) ? null : time;
+}
+
+export function parseAutomationRuleInput(
+  body: Record<string, unknown>
+): { values: AutomationRuleValues } | { error: string } {
+  const name = typeof body.name === "string" ? body.name.trim() : "";
+  if (!name) return { error: "Rule name is required" };
+
+  if (!isAutomationTrigger(body.trigger)) {
+    return { error: "Unsupported trigger" };
+  }
+  const trigger = body.trigger;
+
+  const templateId = typeof body.templateId === "string" ? body.templateId.trim() : "";
+  if (!templateId) return { error: "Choose the email template to send" };
+
+  const recipientType: AutomationRecipientType =
+    body.recipientType === "group_leaders" ? "group_leaders" : "participants";
+  if (trigger === "waitlist_promoted" && recipientType === "participants") {
+    return {
+      error:
+        "The participant already gets the promotion email from Registration capacity; send this rule to group leaders",
+    };
+  }
+
+  let daysBefore: number | null = null;
+  if (trigger === "days_before_arrival") {
+    daysBefore = Number(body.daysBefore);
+    if (!Number.isInteger(daysBefore) || daysBefore < 0 || daysBefore > MAX_DAYS_BEFORE) {
+      return { error: `Days before arrival must be a whole number from 0 to ${MAX_DAYS_BEFORE}` };
+    }
+  }
+
+  let dueDate: string | null = null;
+  if (trigger === "balance_unpaid") {
+    dueDate = typeof body.dueDate === "string" ? body.dueDate.trim() : "";
+    if (parseDateOnly(dueDate) === null) {
+      return { error: "Payment deadline must be a date (YYYY-MM-DD)" };
+    }
+  }
+
+  return {
+    values: {
+      name,
+      trigger,
+      template_id: templateId,
+      recipient_type: recipientType,
+      days_before: daysBefore,
+      due_date: dueDate,
+      enabled: body.enabled !== false,
+    },
+  };
+}
+
+// Profile fields whose change fires profile_updated; computed fields follow from them.
+export const PROFILE_CHANGE_FIELDS = [
+  "nome",
+  "cognome",
+  "nazione",
+  "email",
+  "telefono",
+  "data_nascita",
+  "data_arrivo",
+  "data_partenza",
+  "alloggio",
+  "allergie",
+  "esigenze_alimentari",
+  "disabilita_accessibilita",
+  "difficolta_accessibilita",
+] as const;
+
+export type ProfileChanges = Record<string, { from: string | null; to: string | null }>;
+
+// Empty strings, null and false all mean "not set", so a first save of an untouched
+// form is not a change.
+function comparableValue(value: unknown): string | null {
+  if (value === null || value === undefined || value === false) return null;
+  const text = String(value).trim();
+  return text.length > 0 ? text : null;
+}
+
+// Fields that differ between the stored row and the saved values. Fields missing on
+// either side (e.g. the email, which participants cannot edit) are ignored.
+export function profileChanges(
+  before: Record<string, unknown>,
+  after: Record<string, unknown>
+): ProfileChanges {
+  const changes: ProfileChanges = {};
+  for (const field of PROFILE_CHANGE_FIELDS) {
+    if (!(field in before) || !(field in after)) continue;
+    const from = comparableValue(before[field]);
+    const to = comparableValue(after[field]);
+    if (from !== to) changes[field] = { from, to };
+  }
+  return changes;
+}
+
+export function outstandingBalance(candidate: ScheduledCandidate): number {
+  if (candidate.quota_totale === null) return 0;
+  return Math.max(0, candidate.quota_totale - (candidate.fee_paid ?? 0));
+}
+
+// Whether a scheduled rule applies to a participant today (YYYY-MM-DD). Reminders are
+// sent from N days before arrival up to the arrival day, so a rule created late still
+// reaches everyone once; deduplication keeps it to one email per participant.
+export function isDueForScheduledRule(
+  rule: ScheduledRule,
+  candidate: ScheduledCandidate,
+  today: string
+): boolean {
+  if (candidate.registration_status === "waitlisted") return false;
+  const todayTime = parseDateOnly(today);
+  if (todayTime === null) return false;
+
+  if (rule.trigger === "days_before_arrival") {
+    const arrival = parseDateOnly(candidate.data_arrivo);
+    if (arrival === null || rule.days_before === null) return false;
+    const daysLeft = Math.round((arrival - todayTime) / DAY_MS);
+    return daysLeft >= 0 && daysLeft <= rule.days_before;
+  }
+
+  if (rule.trigger === "balance_unpaid") {
+    const deadline = parseDateOnly(rule.due_date);
+    if (deadline === null || todayTime <= deadline) return false;
+    return outstandingBalance(candidate) > BALANCE_TOLERANCE;
+  }
+
+  return false;
+}
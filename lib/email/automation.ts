@@ -0,0 +1,309 @@
+import { createHash } from "node:crypto";
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { enqueueCampaign } from "@/lib/email/campaign-queue";
+import { parseTemplateVariants } from "@/lib/email/template-variants";
+import {
+  SCHEDULED_TRIGGERS,
+  isDueForScheduledRule,
+  profileChanges,
+  type AutomationEventTrigger,
+  type AutomationRecipientType,
+  type AutomationTrigger,
+  type ProfileChanges,
+  type ScheduledCandidate,
+} from "@/lib/email/automation-rules";
+
+// Automatic emails go through the campaign queue (one email_send_logs job per rule run),
+// so they show up in the send log and are delivered by the queue worker with retries.
+
+export type AutomationRuleRow = {
+  id: string;
+  name: string;
+  trigger: AutomationTrigger;
+  template_id: string;
+  recipient_type: AutomationRecipientType;
+  days_before: number | null;
+  due_date: string | null;
+  enabled: boolean;
+  updated_by: string | null;
+};
+
+export type AutomationRunSummary = {
+  rules: number;
+  claimed: number;
+  queued: number;
+  errors: string[];
+};
+
+type TemplateRow = {
+  subject: string;
+  html: string;
+  variants: unknown;
+};
+
+type ScheduledCandidateRow = ScheduledCandidate & { id: string };
+
+export const AUTOMATION_RULE_FIELDS =
+  "id,name,trigger,template_id,recipient_type,days_before,due_date,enabled,updated_by";
+const SCHEDULED_CANDIDATE_FIELDS = "id,registration_status,data_arrivo,quota_totale,fee_paid";
+
+function emptySummary(): AutomationRunSummary {
+  return { rules: 0, claimed: 0, queued: 0, errors: [] };
+}
+
+// Fingerprint of a profile change: the changed fields with their old and new values,
+// so the same change reported twice (e.g. a double submit) is sent once.
+export function profileChangeKey(changes: ProfileChanges): string {
+  const sorted = Object.keys(changes)
+    .sort()
+    .map((field) => [field, changes[field].from, changes[field].to]);
+  return createHash("sha256").update(JSON.stringify(sorted)).digest("hex");
+}
+
+// Fires profile_updated when an edit actually changed something. Never throws.
+export async function runProfileUpdatedTrigger(
+  service: SupabaseClient,
+  participantId: string,
+  before: Record<string, unknown>,
+  after: Record<string, unknown>
+): Promise<AutomationRunSummary> {
+  const changes = profileChanges(before, after);
+  if (Object.keys(changes).length === 0) return emptySummary();
+  return runAutomationTrigger(service, "profile_updated", [participantId], {
+    dedupeKey: profileChangeKey(changes),
+  });
+}
+
+async function loadEnabledRules(
+  service: SupabaseClient,
+  triggers: AutomationTrigger[]
+): Promise<AutomationRuleRow[]> {
+  const { data, error } = await service
+    .from("email_automation_rules")
+    .select(AUTOMATION_RULE_FIELDS)
+    .eq("enabled", true)
+    .in("trigger", triggers);
+
+  if (error) {
+    throw new Error(error.message);
+  }
+
+  return (data ?? []) as AutomationRuleRow[];
+}
+
+// Inserts one claim per participant; ids already claimed for this rule and key are
+// skipped by the unique constraint, which is what deduplicates concurrent runs.
+async function claimSends(
+  service: SupabaseClient,
+  ruleId: string,
+  participantIds: string[],
+  dedupeKey: string
+): Promise<string[]> {
+  const { data, error } = await service
+    .from("email_automation_sends")
+    .upsert(
+      participantIds.map((participantId) => ({
+        rule_id: ruleId,
+        participant_id: participantId,
+        dedupe_key: dedupeKey,
+      })),
+      { onConflict: "rule_id,participant_id,dedupe_key", ignoreDuplicates: true }
+    )
+    .select("participant_id");
+
+  if (error) {
+    throw new Error(error.message);
+  }
+
+  return ((data ?? []) as { participant_id: string }[]).map((row) => row.participant_id);
+}
+
+async function releaseSends(
+  service: SupabaseClient,
+  ruleId: string,
+  participantIds: string[],
+  dedupeKey: string
+) {
+  await service
+    .from("email_automation_sends")
+    .delete()
+    .eq("rule_id", ruleId)
+    .eq("dedupe_key", dedupeKey)
+    .in("participant_id", participantIds);
+}
+
+async function loadGroupLeaderIds(
+  service: SupabaseClient,
+  participantIds: string[]
+): Promise<string[]> {
+  const { data: participants, error } = await service
+    .from("partecipanti")
+    .select("gruppo_id")
+    .in("id", participantIds);
+
+  if (error) {
+    throw new Error(error.message);
+  }
+
+  const groupIds = [
+    ...new Set(
+      ((participants ?? []) as { gruppo_id: string | null }[])
+        .map((row) => (row.gruppo_id ?? "").trim())
+        .filter(Boolean)
+    ),
+  ];
+  if (groupIds.length === 0) return [];
+
+  const { data: links, error: linksError } = await service
+    .from("profili_gruppi")
+    .select("profilo_id")
+    .in("gruppo_id", groupIds);
+
+  if (linksError) {
+    throw new Error(linksError.message);
+  }
+
+  return [
+    ...new Set(
+      ((links ?? []) as { profilo_id: string | null }[])
+        .map((row) => (row.profilo_id ?? "").trim())
+        .filter(Boolean)
+    ),
+  ];
+}
+
+async function dispatchRule(
+  service: SupabaseClient,
+  rule: AutomationRuleRow,
+  participantIds: string[],
+  dedupeKey: string,
+  summary: AutomationRunSummary
+) {
+  if (participantIds.length === 0) return;
+  const claimed = await claimSends(service, rule.id, participantIds, dedupeKey);
+  if (claimed.length === 0) return;
+  summary.claimed += claimed.length;
+
+  try {
+    const { data: template, error: templateError } = await service
+      .from("email_templates")
+      .select("subject,html,variants")
+      .eq("id", rule.template_id)
+      .maybeSingle();
+
+    if (templateError) {
+      throw new Error(templateError.message);
+    }
+    if (!template) {
+      throw new Error(`Template of rule "${rule.name}" no longer exists`);
+    }
+
+    const row = template as TemplateRow;
+    const recipientIds =
+      rule.recipient_type === "group_leaders"
+        ? await loadGroupLeaderIds(service, claimed)
+        : claimed;
+
+    const queued = await enqueueCampaign(service, {
+      recipientType: rule.recipient_type,
+      recipientIds,
+      subject: row.subject,
+      html: row.html,
+      variants: parseTemplateVariants(row.variants),
+      attachments: [],
+      category: "operational",
+      senderUserId: null,
+      automationRuleId: rule.id,
+      sendAt: new Date(),
+    });
+
+    // Nobody to write to (e.g. a group without leaders) still counts as handled.
+    if ("error" in queued) return;
+    summary.queued += queued.queued;
+
+    await service
+      .from("email_automation_sends")
+      .update({ send_log_id: queued.logId })
+      .eq("rule_id", rule.id)
+      .eq("dedupe_key", dedupeKey)
+      .in("participant_id", claimed);
+  } catch (error) {
+    await releaseSends(service, rule.id, claimed, dedupeKey);
+    throw error;
+  }
+}
+
+async function runRules(
+  service: SupabaseClient,
+  rules: AutomationRuleRow[],
+  participantIdsFor: (rule: AutomationRuleRow) => string[],
+  dedupeKey: string
+): Promise<AutomationRunSummary> {
+  const summary = emptySummary();
+  summary.rules = rules.length;
+
+  for (const rule of rules) {
+    try {
+      await dispatchRule(service, rule, participantIdsFor(rule), dedupeKey, summary);
+    } catch (error) {
+      const reason = error instanceof Error ? error.message : "Unknown error";
+      summary.errors.push(`${rule.name}: ${reason}`);
+    }
+  }
+
+  return summary;
+}
+
+// Queues the emails of every enabled rule for an event. Never throws: an automatic
+// email must not fail the registration or update that caused it.
+export async function runAutomationTrigger(
+  service: SupabaseClient,
+  trigger: AutomationEventTrigger,
+  participantIds: string[],
+  options: { dedupeKey?: string; recipientType?: AutomationRecipientType } = {}
+): Promise<AutomationRunSummary> {
+  try {
+    const rules = (await loadEnabledRules(service, [trigger])).filter(
+      (rule) => !options.recipientType || rule.recipient_type === options.recipientType
+    );
+    const summary = await runRules(service, rules, () => participantIds, options.dedupeKey ?? "");
+    if (summary.errors.length > 0) {
+      console.error(`Automatic emails for ${trigger} failed`, summary.errors);
+    }
+    return summary;
+  } catch (error) {
+    console.error(`Automatic emails for ${trigger} failed`, error);
+    const reason = error instanceof Error ? error.message : "Unknown error";
+    return { ...emptySummary(), errors: [reason] };
+  }
+}
+
+// Evaluates the date-based rules for all participants; run daily or more often.
+export async function runScheduledAutomations(
+  service: SupabaseClient,
+  now: Date = new Date()
+): Promise<AutomationRunSummary> {
+  const rules = await loadEnabledRules(service, SCHEDULED_TRIGGERS);
+  if (rules.length === 0) return emptySummary();
+
+  const { data, error } = await service
+    .from("partecipanti")
+    .select(SCHEDULED_CANDIDATE_FIELDS);
+
+  if (error) {
+    throw new Error(error.message);
+  }
+
+  const candidates = (data ?? []) as ScheduledCandidateRow[];
+  const today = now.toISOString().slice(0, 10);
+
+  return runRules(
+    service,
+    rules,
+    (rule) =>
+      candidates
+        .filter((candidate) => isDueForScheduledRule(rule, candidate, today))
+        .map((candidate) => candidate.id),
+    ""
+  );
+}
@@ -0,0 +1,596 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { loadEmailSenderRuntimeSettings } from "@/lib/email/settings";
+import { sendEmail } from "@/lib/email/transport";
+import { loadNewsletterOptOuts, withPreferenceLink } from "@/lib/email/preferences";
+import { NEWSLETTER_OPT_OUT_REASON, type EmailCategory } from "@/lib/email/email-category";
+import {
+  loadCampaignRecipients,
+  type CampaignRecipient,
+  type CampaignRecipientType,
+} from "@/lib/email/campaign-recipients";
+import { parseTemplateVariants, type TemplateVariants } from "@/lib/email/template-variants";
+import {
+  parseGeneratedAttachments,
+  type GeneratedAttachment,
+} from "@/lib/email/generated-attachments";
+import { renderGeneratedAttachments } from "@/lib/email/generated-documents";
+import { withCampaignTracking } from "@/lib/email/campaign-tracking";
+import { assignAbVariants, type AbVariant } from "@/lib/email/tracking";
+import { loadOrganizationSettings } from "@/lib/fees/document-store";
+import type { OrganizationDetails } from "@/lib/fees/documents";
+import {
+  BOUNCED_ADDRESS_REASON,
+  countDeliveries,
+  isBouncedAddress,
+  isJobFinished,
+  outcomeAfterFailure,
+  type DeliveryStatus,
+} from "@/lib/email/send-queue-policy";
+
+// Campaign jobs live in email_send_logs and their per-recipient queue in
+// email_send_log_recipients (see supabase/email_send_queue_migration.sql).
+
+export type EmailAttachment = {
+  filename: string;
+  content: string;
+  encoding: "base64";
+  contentType?: string;
+};
+
+export type CampaignJobStatus = "scheduled" | "sending" | "completed" | "cancelled";
+
+export type EnqueueCampaignInput = {
+  recipientType: CampaignRecipientType;
+  recipientIds: string[];
+  subject: string;
+  html: string;
+  variants: TemplateVariants;
+  attachments: EmailAttachment[];
+  // Rendered per recipient at send time; participant campaigns only.
+  generatedAttachments?: GeneratedAttachment[];
+  category: EmailCategory;
+  trackOpens?: boolean;
+  trackClicks?: boolean;
+  // A/B test: half of the recipients get this subject instead of `subject`.
+  subjectB?: string | null;
+  // Null for automatic emails, which are linked to their rule instead.
+  senderUserId: string | null;
+  automationRuleId?: string | null;
+  sendAt: Date;
+};
+
+export type EnqueueCampaignResult =
+  | {
+      logId: string;
+      sendAt: string;
+      queued: number;
+      skipped: { id: string; reason: string }[];
+    }
+  | { error: string; status: number };
+
+export type DrainSummary = {
+  claimed: number;
+  sent: number;
+  retrying: number;
+  failed: number;
+  skipped: number;
+  completedJobs: string[];
+  error: string | null;
+};
+
+export type CampaignDeliveryRecipient = {
+  recipient_id: string;
+  email: string | null;
+  status: DeliveryStatus;
+  attempts: number;
+  last_error: string | null;
+  next_attempt_at: string | null;
+  sent_at: string | null;
+};
+
+export type CampaignDelivery = {
+  id: string;
+  status: CampaignJobStatus;
+  send_at: string;
+  started_at: string | null;
+  completed_at: string | null;
+  cancelled_at: string | null;
+  recipient_count: number;
+  counts: Record<DeliveryStatus, number>;
+  recipients: CampaignDeliveryRecipient[];
+};
+
+type QueueRow = {
+  id: string;
+  send_log_id: string;
+  recipient_type: CampaignRecipientType;
+  recipient_id: string;
+  attempts: number;
+  ab_variant: AbVariant | null;
+};
+
+type JobRow = {
+  id: string;
+  recipient_type: CampaignRecipientType;
+  category: EmailCategory;
+  subject: string;
+  body_content: string;
+  template_variants: unknown;
+  attachments: EmailAttachment[] | null;
+  generated_attachments: unknown;
+  subject_b: string | null;
+  track_opens: boolean;
+  track_clicks: boolean;
+};
+
+const DEFAULT_BATCH_SIZE = 20;
+const SEND_CONCURRENCY = 5;
+const QUEUE_UPDATE_ATTEMPTS = 3;
+const JOB_FIELDS =
+  "id,recipient_type,category,subject,body_content,template_variants,attachments,generated_attachments,subject_b,track_opens,track_clicks";
+const DELIVERY_FIELDS =
+  "id,status,send_at,started_at,completed_at,cancelled_at,recipient_count";
+const DELIVERY_RECIPIENT_FIELDS =
+  "recipient_id,email,status,attempts,last_error,next_attempt_at,sent_at";
+
+async function runWithConcurrency<T>(
+  items: T[],
+  concurrency: number,
+  worker: (item: T) => Promise<void>
+) {
+  let index = 0;
+  const workers = Array.from(
+    { length: Math.max(1, Math.min(concurrency, items.length || 1)) },
+    async () => {
+      while (index < items.length) {
+        const current = items[index];
+        index += 1;
+        await worker(current);
+      }
+    }
+  );
+  await Promise.all(workers);
+}
+
+// Unique per send attempt; stored on the queue row once the send succeeds, and
+// referenced by bounces and replies (see lib/email/mailbox-poller.ts).
+function createMessageId(rowId: string, senderEmail: string): string {
+  const domain = senderEmail.split("@").pop()?.replace(/[<>\s]/g, "") || "localhost";
+  return `<${rowId}.${Date.now().toString(36)}@${domain}>`;
+}
+
+function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : "Send failed";
+}
+
+export async function enqueueCampaign(
+  service: SupabaseClient,
+  input: EnqueueCampaignInput
+): Promise<EnqueueCampaignResult> {
+  const recipientIds = [...new Set(input.recipientIds)];
+  const recipients = await loadCampaignRecipients(service, input.recipientType, recipientIds);
+  if (recipients.length === 0) {
+    return { error: "No matching recipients found", status: 404 };
+  }
+
+  const optedOut =
+    input.category === "newsletter"
+      ? await loadNewsletterOptOuts(
+          service,
+          recipients.map((recipient) => recipient.email ?? "")
+        )
+      : new Set<string>();
+  const skipped = recipients.flatMap((recipient) => {
+    if (!recipient.email) return [{ id: recipient.id, reason: "Missing email" }];
+    if (isBouncedAddress(recipient.email, recipient.bouncedAddress)) {
+      return [{ id: recipient.id, reason: BOUNCED_ADDRESS_REASON }];
+    }
+    if (optedOut.has(recipient.email.trim().toLowerCase())) {
+      return [{ id: recipient.id, reason: NEWSLETTER_OPT_OUT_REASON }];
+    }
+    return [];
+  });
+  const skipReasons = new Map(skipped.map((entry) => [entry.id, entry.reason]));
+  const sendable = recipients.filter((recipient) => !skipReasons.has(recipient.id));
+  const sendAt = input.sendAt.toISOString();
+  const nowIso = new Date().toISOString();
+
+  const { data: log, error: logError } = await service
+    .from("email_send_logs")
+    .insert({
+      recipient_type: input.recipientType,
+      subject: input.subject,
+      body_content: input.html,
+      template_variants: input.variants,
+      attachments: input.attachments,
+      generated_attachments: input.generatedAttachments ?? [],
+      category: input.category,
+      track_opens: input.trackOpens ?? false,
+      track_clicks: input.trackClicks ?? false,
+      subject_b: input.subjectB ?? null,
+      sender_user_id: input.senderUserId,
+      // Only written for automatic emails so campaigns work before that migration.
+      ...(input.automationRuleId ? { automation_rule_id: input.automationRuleId } : {}),
+      recipient_count: recipients.length,
+      recipient_ids_snapshot: recipients.map((recipient) => recipient.id),
+      sent_at: sendAt,
+      send_at: sendAt,
+      status: sendable.length > 0 ? "scheduled" : "completed",
+      completed_at: sendable.length > 0 ? null : nowIso,
+    })
+    .select("id")
+    .single();
+
+  if (logError || !log) {
+    throw new Error(logError?.message ?? "Unable to create email send job.");
+  }
+
+  const logId = String((log as { id: string }).id);
+  const abVariants = input.subjectB
+    ? assignAbVariants(sendable.map((recipient) => recipient.id))
+    : new Map<string, AbVariant>();
+  const queueRows = recipients.map((recipient) =>
+    !skipReasons.has(recipient.id)
+      ? {
+          send_log_id: logId,
+          recipient_type: input.recipientType,
+          recipient_id: recipient.id,
+          email: recipient.email,
+          status: "pending",
+          next_attempt_at: sendAt,
+          ab_variant: abVariants.get(recipient.id) ?? null,
+        }
+      : {
+          send_log_id: logId,
+          recipient_type: input.recipientType,
+          recipient_id: recipient.id,
+          email: recipient.email,
+          status: "skipped",
+          last_error: skipReasons.get(recipient.id),
+          next_attempt_at: null,
+        }
+  );
+
+  const { error: queueError } = await service.from("email_send_log_recipients").insert(queueRows);
+  if (queueError) {
+    await service.from("email_send_logs").delete().eq("id", logId);
+    throw new Error(queueError.message);
+  }
+
+  return { logId, sendAt, queued: sendable.length, skipped };
+}
+
+async function markJobsStarted(service: SupabaseClient, logIds: string[]) {
+  const { error } = await service
+    .from("email_send_logs")
+    .update({ status: "sending", started_at: new Date().toISOString() })
+    .in("id", logIds)
+    .eq("status", "scheduled");
+
+  if (error) {
+    throw new Error(error.message);
+  }
+}
+
+// Marks jobs as completed once none of their recipients is waiting for a send.
+async function completeFinishedJobs(service: SupabaseClient, logIds: string[]): Promise<string[]> {
+  const completed: string[] = [];
+  for (const logId of logIds) {
+    const { data, error } = await service
+      .from("email_send_log_recipients")
+      .select("status")
+      .eq("send_log_id", logId)
+      .in("status", ["pending", "sending"]);
+
+    if (error) {
+      throw new Error(error.message);
+    }
+
+    const counts = countDeliveries(((data ?? []) as { status: string }[]).map((row) => row.status));
+    if (!isJobFinished(counts)) continue;
+
+    const { error: updateError } = await service
+      .from("email_send_logs")
+      .update({ status: "completed", completed_at: new Date().toISOString() })
+      .eq("id", logId)
+      .in("status", ["scheduled", "sending"]);
+
+    if (updateError) {
+      throw new Error(updateError.message);
+    }
+    completed.push(logId);
+  }
+  return completed;
+}
+
+// Retried so a send result is recorded well before the stale-row reclaim could pick the
+// row up again; the status guard makes a repeated write harmless.
+async function updateQueueRow(
+  service: SupabaseClient,
+  rowId: string,
+  values: Record<string, unknown>
+) {
+  for (let attempt = 1; ; attempt += 1) {
+    const { error } = await service
+      .from("email_send_log_recipients")
+      .update({ ...values, locked_at: null })
+      .eq("id", rowId)
+      .eq("status", "sending");
+
+    if (!error) return;
+    if (attempt >= QUEUE_UPDATE_ATTEMPTS) {
+      throw new Error(error.message);
+    }
+    await new Promise((resolve) => setTimeout(resolve, attempt * 1000));
+  }
+}
+
+// From here on a reclaimed row is recorded as sent instead of being sent again.
+async function markHandedOff(service: SupabaseClient, rowId: string) {
+  const { error } = await service
+    .from("email_send_log_recipients")
+    .update({ handed_off_at: new Date().toISOString() })
+    .eq("id", rowId)
+    .eq("status", "sending");
+
+  if (error) {
+    throw new Error(error.message);
+  }
+}
+
+// Sends due queued emails until the queue is empty or the deadline passes. Each
+// claimed recipient is rendered with its current data and preferred language, so
+// corrections made after scheduling are picked up. Failed sends are retried with backoff until
+// MAX_SEND_ATTEMPTS; SMTP rejections fail immediately.
+export async function drainEmailQueue(
+  service: SupabaseClient,
+  options: { deadlineMs: number; batchSize?: number }
+): Promise<DrainSummary> {
+  const summary: DrainSummary = {
+    claimed: 0,
+    sent: 0,
+    retrying: 0,
+    failed: 0,
+    skipped: 0,
+    completedJobs: [],
+    error: null,
+  };
+
+  const senderSettings = await loadEmailSenderRuntimeSettings(service);
+  if (senderSettings.transportError) {
+    summary.error = senderSettings.transportError;
+    return summary;
+  }
+
+  const stopAt = Date.now() + options.deadlineMs;
+  const batchSize = options.batchSize ?? DEFAULT_BATCH_SIZE;
+  // Letterhead for generated attachments, loaded once and only when needed.
+  let organization: Promise<OrganizationDetails> | null = null;
+
+  while (Date.now() < stopAt) {
+    const { data: claimedData, error: claimError } = await service.rpc("claim_email_send_queue", {
+      p_limit: batchSize,
+    });
+
+    if (claimError) {
+      throw new Error(claimError.message);
+    }
+
+    const claimed = (claimedData ?? []) as QueueRow[];
+    if (claimed.length === 0) break;
+    summary.claimed += claimed.length;
+
+    const logIds = [...new Set(claimed.map((row) => row.send_log_id))];
+    await markJobsStarted(service, logIds);
+
+    const { data: jobData, error: jobError } = await service
+      .from("email_send_logs")
+      .select(JOB_FIELDS)
+      .in("id", logIds);
+
+    if (jobError) {
+      throw new Error(jobError.message);
+    }
+
+    const jobs = new Map(((jobData ?? []) as JobRow[]).map((job) => [job.id, job]));
+    const recipientsByJob = new Map<string, Map<string, CampaignRecipient>>();
+    // Newsletter opt-outs are checked again at send time, so unsubscribing also
+    // stops campaigns that were already scheduled.
+    const optOutsByJob = new Map<string, Set<string>>();
+    for (const job of jobs.values()) {
+      const ids = claimed
+        .filter((row) => row.send_log_id === job.id)
+        .map((row) => row.recipient_id);
+      const recipients = await loadCampaignRecipients(service, job.recipient_type, ids);
+      recipientsByJob.set(
+        job.id,
+        new Map(recipients.map((recipient) => [recipient.id, recipient]))
+      );
+      if (job.category === "newsletter") {
+        optOutsByJob.set(
+          job.id,
+          await loadNewsletterOptOuts(
+            service,
+            recipients.map((recipient) => recipient.email ?? "")
+          )
+        );
+      }
+    }
+
+    await runWithConcurrency(claimed, SEND_CONCURRENCY, async (row) => {
+      const job = jobs.get(row.send_log_id);
+      const recipient = recipientsByJob.get(row.send_log_id)?.get(row.recipient_id);
+      if (!job || !recipient || !recipient.email) {
+        summary.skipped += 1;
+        await updateQueueRow(service, row.id, {
+          status: "skipped",
+          last_error: recipient ? "Missing email" : "Recipient no longer exists",
+          next_attempt_at: null,
+        });
+        return;
+      }
+      // Checked again at send time: the address may have bounced since scheduling.
+      if (isBouncedAddress(recipient.email, recipient.bouncedAddress)) {
+        summary.skipped += 1;
+        await updateQueueRow(service, row.id, {
+          status: "skipped",
+          email: recipient.email,
+          last_error: BOUNCED_ADDRESS_REASON,
+          next_attempt_at: null,
+        });
+        return;
+      }
+      if (optOutsByJob.get(job.id)?.has(recipient.email.trim().toLowerCase())) {
+        summary.skipped += 1;
+        await updateQueueRow(service, row.id, {
+          status: "skipped",
+          email: recipient.email,
+          last_error: NEWSLETTER_OPT_OUT_REASON,
+          next_attempt_at: null,
+        });
+        return;
+      }
+
+      try {
+        const message = recipient.render({
+          subject: row.ab_variant === "B" && job.subject_b ? job.subject_b : job.subject,
+          html: job.body_content,
+          variants: parseTemplateVariants(job.template_variants),
+        });
+        const withLink = withPreferenceLink(
+          {
+            ...message,
+            html: withCampaignTracking(message.html, row.id, {
+              trackOpens: job.track_opens,
+              trackClicks: job.track_clicks,
+            }),
+          },
+          recipient.email
+        );
+        const generated =
+          job.recipient_type === "participants"
+            ? parseGeneratedAttachments(job.generated_attachments).attachments
+            : [];
+        let personalAttachments: EmailAttachment[] = [];
+        if (generated.length > 0) {
+          organization = organization ?? loadOrganizationSettings(service);
+          personalAttachments = await renderGeneratedAttachments(service, recipient, generated, {
+            locale: message.locale,
+            organization: await organization,
+          });
+        }
+        const messageId = createMessageId(row.id, senderSettings.senderEmail);
+        await markHandedOff(service, row.id);
+        await sendEmail(
+          {
+            to: recipient.email,
+            subject: message.subject,
+            html: withLink.html,
+            text: withLink.text,
+            headers: withLink.headers,
+            messageId,
+            attachments: [...(job.attachments ?? []), ...personalAttachments],
+          },
+          senderSettings
+        );
+        summary.sent += 1;
+        await updateQueueRow(service, row.id, {
+          status: "sent",
+          email: recipient.email,
+          sent_at: new Date().toISOString(),
+          message_id: messageId,
+          last_error: null,
+          next_attempt_at: null,
+        });
+      } catch (sendError) {
+        const outcome = outcomeAfterFailure(row.attempts, sendError);
+        if (outcome.status === "failed") {
+          summary.failed += 1;
+        } else {
+          summary.retrying += 1;
+        }
+        await updateQueueRow(service, row.id, {
+          ...outcome,
+          email: recipient.email,
+          handed_off_at: null,
+          last_error: errorMessage(sendError),
+        });
+      }
+    });
+
+    summary.completedJobs.push(...(await completeFinishedJobs(service, logIds)));
+  }
+
+  return summary;
+}
+
+export async function cancelCampaign(
+  service: SupabaseClient,
+  actorId: string,
+  logId: string
+): Promise<{ ok: true; cancelled: number } | { error: string; status: number }> {
+  const { data: updated, error } = await service
+    .from("email_send_logs")
+    .update({
+      status: "cancelled",
+      cancelled_at: new Date().toISOString(),
+      cancelled_by: actorId,
+    })
+    .eq("id", logId)
+    .in("status", ["scheduled", "sending"])
+    .select("id");
+
+  if (error) {
+    throw new Error(error.message);
+  }
+  if (!updated || updated.length === 0) {
+    return { error: "Only scheduled or sending campaigns can be cancelled", status: 409 };
+  }
+
+  // Recipients already being sent finish normally; only waiting ones are dropped.
+  const { data: cancelledRows, error: recipientsError } = await service
+    .from("email_send_log_recipients")
+    .update({ status: "cancelled", next_attempt_at: null })
+    .eq("send_log_id", logId)
+    .eq("status", "pending")
+    .select("id");
+
+  if (recipientsError) {
+    throw new Error(recipientsError.message);
+  }
+
+  return { ok: true, cancelled: (cancelledRows ?? []).length };
+}
+
+export async function loadCampaignDelivery(
+  service: SupabaseClient,
+  logId: string
+): Promise<CampaignDelivery | null> {
+  const { data: log, error: logError } = await service
+    .from("email_send_logs")
+    .select(DELIVERY_FIELDS)
+    .eq("id", logId)
+    .maybeSingle();
+
+  if (logError) {
+    throw new Error(logError.message);
+  }
+  if (!log) return null;
+
+  const { data, error } = await service
+    .from("email_send_log_recipients")
+    .select(DELIVERY_RECIPIENT_FIELDS)
+    .eq("send_log_id", logId)
+    .order("recipient_id", { ascending: true });
+
+  if (error) {
+    throw new Error(error.message);
+  }
+
+  const recipients = (data ?? []) as CampaignDeliveryRecipient[];
+  return {
+    ...(log as Omit<CampaignDelivery, "counts" | "recipients">),
+    counts: countDeliveries(recipients.map((recipient) => recipient.status)),
+    recipients,
+  };
+}
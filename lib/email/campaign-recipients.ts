@@ -0,0 +1,400 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import {
+  htmlToText,
+  renderParticipantTemplateHtml,
+  renderParticipantTemplateText,
+  validateParticipantTemplate,
+  type ParticipantTemplateData,
+} from "@/lib/email/participant-template";
+import {
+  renderGroupLeaderTemplateHtml,
+  renderGroupLeaderTemplateText,
+  validateGroupLeaderTemplate,
+  type GroupLeaderTemplateData,
+  type GroupMemberTemplateData,
+} from "@/lib/email/group-leader-template";
+import {
+  pickTemplateVariant,
+  recipientLocale,
+  type LocalizedTemplate,
+} from "@/lib/email/template-variants";
+import {
+  GENERATED_ATTACHMENT_LABELS,
+  type GeneratedAttachment,
+} from "@/lib/email/generated-attachments";
+import type { Locale } from "@/lib/i18n";
+import { loadApprovedPassports } from "@/lib/visa/letter-store";
+import {
+  DIFFICOLTA_ACCESSIBILITA_OPTIONS,
+  ESIGENZE_ALIMENTARI_OPTIONS,
+  alloggioLongToShort,
+} from "@/lib/partecipante/constants";
+
+export type CampaignRecipientType = "participants" | "group_leaders";
+
+export type RenderedCampaignMessage = {
+  subject: string;
+  html: string;
+  text: string;
+  locale: Locale;
+};
+
+export type CampaignRecipient = {
+  id: string;
+  email: string;
+  locale: Locale;
+  // Last address that hard-bounced, see lib/email/mailbox-poller.ts.
+  bouncedAddress: string | null;
+  // Picks the variant for the recipient's language (or localeOverride, for previews).
+  render: (template: LocalizedTemplate, localeOverride?: Locale) => RenderedCampaignMessage;
+  // Plain-text rendering of a single template, e.g. for generated attachments.
+  renderText: (template: string, locale: Locale) => string;
+};
+
+type ParticipantRow = {
+  id: string;
+  nome: string | null;
+  cognome: string | null;
+  email: string | null;
+  telefono: string | null;
+  paese_residenza: string | null;
+  nazione: string | null;
+  data_nascita: string | null;
+  data_arrivo: string | null;
+  data_partenza: string | null;
+  alloggio: string | null;
+  alloggio_short: string | null;
+  allergie: string | null;
+  esigenze_alimentari: string | null;
+  disabilita_accessibilita: boolean | null;
+  difficolta_accessibilita: string | null;
+  quota_totale: number | null;
+  is_minorenne: boolean | null;
+  preferred_locale: string | null;
+  email_bounced_address: string | null;
+  gruppo_id: string | null;
+  gruppo_label: string | null;
+};
+
+type GroupMemberRow = {
+  nome: string | null;
+  cognome: string | null;
+  email: string | null;
+  telefono: string | null;
+  data_arrivo: string | null;
+  data_partenza: string | null;
+  alloggio: string | null;
+  alloggio_short: string | null;
+  is_minorenne: boolean | null;
+  registration_status: string | null;
+  gruppo_id: string | null;
+  gruppo_label: string | null;
+};
+
+type GroupLeaderRow = {
+  id: string;
+  email: string | null;
+  nome: string | null;
+  cognome: string | null;
+  ruolo: string | null;
+  telefono: string | null;
+  italia: boolean | null;
+  roma: boolean | null;
+  preferred_locale: string | null;
+  email_bounced_address: string | null;
+  gruppi?: string[];
+  members?: GroupMemberTemplateData[];
+};
+
+type ProfileGroupRow = {
+  profilo_id: string | null;
+  gruppo_id: string | null;
+};
+
+const SELECT_FIELDS =
+  "id,nome,cognome,email,telefono,paese_residenza,nazione,data_nascita,data_arrivo,data_partenza,alloggio,alloggio_short,allergie,esigenze_alimentari,disabilita_accessibilita,difficolta_accessibilita,quota_totale,is_minorenne,preferred_locale,email_bounced_address,gruppo_id,gruppo_label";
+const GROUP_LEADER_SELECT_FIELDS =
+  "id,email,nome,cognome,ruolo,telefono,italia,roma,preferred_locale,email_bounced_address";
+const GROUP_MEMBER_SELECT_FIELDS =
+  "nome,cognome,email,telefono,data_arrivo,data_partenza,alloggio,alloggio_short,is_minorenne,registration_status,gruppo_id,gruppo_label";
+
+const esigenzeSet = new Set<string>(ESIGENZE_ALIMENTARI_OPTIONS);
+const difficoltaSet = new Set<string>(DIFFICOLTA_ACCESSIBILITA_OPTIONS);
+
+function parseStoredEsigenze(value: string | null): string[] {
+  if (!value) return [];
+  return value
+    .split(",")
+    .map((item) => item.trim())
+    .filter((item) => item && esigenzeSet.has(item));
+}
+
+function parseStoredDifficolta(value: string | null): string[] {
+  if (!value) return [];
+  return value
+    .split(",")
+    .map((item) => item.trim())
+    .filter((item) => item && difficoltaSet.has(item));
+}
+
+function buildGroupLabel(row: { gruppo_id: string | null; gruppo_label: string | null }): string {
+  const value = (row.gruppo_label ?? row.gruppo_id ?? "").trim();
+  return value || "-";
+}
+
+function toTemplateData(row: ParticipantRow): ParticipantTemplateData {
+  return {
+    id: row.id,
+    nome: row.nome,
+    cognome: row.cognome,
+    email: row.email,
+    telefono: row.telefono,
+    paese_residenza: row.paese_residenza,
+    nazione: row.nazione,
+    data_nascita: row.data_nascita,
+    data_arrivo: row.data_arrivo,
+    data_partenza: row.data_partenza,
+    alloggio: row.alloggio_short ?? alloggioLongToShort(row.alloggio),
+    allergie: row.allergie,
+    esigenze_alimentari: parseStoredEsigenze(row.esigenze_alimentari),
+    disabilita_accessibilita: row.disabilita_accessibilita,
+    difficolta_accessibilita: parseStoredDifficolta(row.difficolta_accessibilita),
+    quota_totale: row.quota_totale,
+    is_minorenne: row.is_minorenne,
+    group: buildGroupLabel(row),
+  };
+}
+
+function toGroupMemberTemplateData(row: GroupMemberRow): GroupMemberTemplateData {
+  return {
+    nome: row.nome,
+    cognome: row.cognome,
+    email: row.email,
+    telefono: row.telefono,
+    group: buildGroupLabel(row),
+    data_arrivo: row.data_arrivo,
+    data_partenza: row.data_partenza,
+    alloggio: row.alloggio_short ?? alloggioLongToShort(row.alloggio),
+    is_minorenne: row.is_minorenne,
+    registration_status: row.registration_status,
+  };
+}
+
+function toGroupLeaderTemplateData(row: GroupLeaderRow): GroupLeaderTemplateData {
+  return {
+    id: row.id,
+    email: row.email,
+    nome: row.nome,
+    cognome: row.cognome,
+    ruolo: row.ruolo,
+    telefono: row.telefono,
+    italia: row.italia,
+    roma: row.roma,
+    gruppi: row.gruppi ?? [],
+    members: row.members ?? [],
+  };
+}
+
+// Template problems of a campaign (all language variants), prefixed with where they are.
+export function validateCampaignTemplates(
+  recipientType: CampaignRecipientType,
+  template: LocalizedTemplate
+): string[] {
+  const validate =
+    recipientType === "group_leaders" ? validateGroupLeaderTemplate : validateParticipantTemplate;
+  const check = (content: { subject: string; html: string }, prefix: string) => [
+    ...validate(content.subject, { html: false }).map(
+      (issue) => `${prefix}Subject: ${issue.message}`
+    ),
+    ...validate(content.html, { html: true }).map((issue) => `${prefix}Body: ${issue.message}`),
+  ];
+
+  return [
+    ...check(template, ""),
+    ...Object.entries(template.variants).flatMap(([locale, content]) =>
+      content ? check(content, `[${locale}] `) : []
+    ),
+  ];
+}
+
+// Generated attachments are rendered from participant data only.
+export function validateGeneratedAttachmentTemplates(
+  attachments: GeneratedAttachment[]
+): string[] {
+  return attachments.flatMap((attachment) => {
+    const label = GENERATED_ATTACHMENT_LABELS[attachment.kind];
+    return [attachment.filename, attachment.title, attachment.body].flatMap((template) =>
+      validateParticipantTemplate(template, { html: false }).map(
+        (issue) => `${label}: ${issue.message}`
+      )
+    );
+  });
+}
+
+async function loadGroupsByLeader(
+  service: SupabaseClient,
+  leaderIds: string[]
+): Promise<Map<string, string[]>> {
+  const groupsByLeader = new Map<string, string[]>();
+  if (leaderIds.length === 0) return groupsByLeader;
+
+  const { data, error } = await service
+    .from("profili_gruppi")
+    .select("profilo_id,gruppo_id")
+    .in("profilo_id", leaderIds);
+
+  if (error) {
+    throw new Error(error.message);
+  }
+
+  for (const row of (data ?? []) as ProfileGroupRow[]) {
+    const profileId = (row.profilo_id ?? "").trim();
+    const groupId = (row.gruppo_id ?? "").trim();
+    if (!profileId || !groupId) continue;
+    const existing = groupsByLeader.get(profileId) ?? [];
+    if (!existing.includes(groupId)) {
+      existing.push(groupId);
+      existing.sort((a, b) => a.localeCompare(b));
+      groupsByLeader.set(profileId, existing);
+    }
+  }
+
+  return groupsByLeader;
+}
+
+async function loadMembersByGroup(
+  service: SupabaseClient,
+  groupIds: string[]
+): Promise<Map<string, GroupMemberTemplateData[]>> {
+  const membersByGroup = new Map<string, GroupMemberTemplateData[]>();
+  if (groupIds.length === 0) return membersByGroup;
+
+  const { data, error } = await service
+    .from("partecipanti")
+    .select(GROUP_MEMBER_SELECT_FIELDS)
+    .in("gruppo_id", groupIds)
+    .order("cognome", { ascending: true })
+    .order("nome", { ascending: true });
+
+  if (error) {
+    throw new Error(error.message);
+  }
+
+  for (const row of (data ?? []) as GroupMemberRow[]) {
+    const groupId = (row.gruppo_id ?? "").trim();
+    if (!groupId) continue;
+    const existing = membersByGroup.get(groupId) ?? [];
+    existing.push(toGroupMemberTemplateData(row));
+    membersByGroup.set(groupId, existing);
+  }
+
+  return membersByGroup;
+}
+
+function renderLocalized(
+  template: LocalizedTemplate,
+  locale: Locale,
+  render: (subjectTemplate: string, htmlTemplate: string, locale: Locale) => {
+    subject: string;
+    html: string;
+  }
+): RenderedCampaignMessage {
+  const variant = pickTemplateVariant(template, locale);
+  const message = render(variant.subject, variant.html, locale);
+  return { ...message, text: htmlToText(message.html), locale: variant.locale };
+}
+
+// Loads the current data of campaign recipients, in the order of recipientIds.
+// Unknown ids are dropped; recipients without an email are returned with email "".
+export async function loadCampaignRecipients(
+  service: SupabaseClient,
+  recipientType: CampaignRecipientType,
+  recipientIds: string[]
+): Promise<CampaignRecipient[]> {
+  if (recipientIds.length === 0) return [];
+
+  if (recipientType === "group_leaders") {
+    const { data, error } = await service
+      .from("profili")
+      .select(GROUP_LEADER_SELECT_FIELDS)
+      .eq("ruolo", "capogruppo")
+      .in("id", recipientIds);
+
+    if (error) {
+      throw new Error(error.message);
+    }
+
+    const rows = (data ?? []) as GroupLeaderRow[];
+    const byId = new Map(rows.map((row) => [row.id, row]));
+    const groupsByLeader = await loadGroupsByLeader(
+      service,
+      rows.map((row) => row.id)
+    );
+    const membersByGroup = await loadMembersByGroup(service, [
+      ...new Set([...groupsByLeader.values()].flat()),
+    ]);
+
+    return recipientIds
+      .map((id) => byId.get(id))
+      .filter((row): row is GroupLeaderRow => Boolean(row))
+      .map((row) => {
+        const gruppi = groupsByLeader.get(row.id) ?? [];
+        const groupLeader = toGroupLeaderTemplateData({
+          ...row,
+          gruppi,
+          members: gruppi.flatMap((groupId) => membersByGroup.get(groupId) ?? []),
+        });
+        const locale = recipientLocale(row.preferred_locale);
+        return {
+          id: row.id,
+          email: (groupLeader.email ?? "").trim(),
+          locale,
+          bouncedAddress: row.email_bounced_address,
+          render: (template, localeOverride) =>
+            renderLocalized(template, localeOverride ?? locale, (subject, html, used) => ({
+              subject: renderGroupLeaderTemplateText(subject, { ...groupLeader, locale: used }),
+              html: renderGroupLeaderTemplateHtml(html, { ...groupLeader, locale: used }),
+            })),
+          renderText: (template, used) =>
+            renderGroupLeaderTemplateText(template, { ...groupLeader, locale: used }),
+        };
+      });
+  }
+
+  const { data, error } = await service
+    .from("partecipanti")
+    .select(SELECT_FIELDS)
+    .in("id", recipientIds);
+
+  if (error) {
+    throw new Error(error.message);
+  }
+
+  const rows = (data ?? []) as ParticipantRow[];
+  const byId = new Map(rows.map((row) => [row.id, row]));
+  const passports = await loadApprovedPassports(
+    service,
+    rows.map((row) => row.id)
+  );
+
+  return recipientIds
+    .map((id) => byId.get(id))
+    .filter((row): row is ParticipantRow => Boolean(row))
+    .map((row) => {
+      const participant = { ...toTemplateData(row), ...passports.get(row.id) };
+      const locale = recipientLocale(row.preferred_locale);
+      return {
+        id: row.id,
+        email: (participant.email ?? "").trim(),
+        locale,
+        bouncedAddress: row.email_bounced_address,
+        render: (template, localeOverride) =>
+          renderLocalized(template, localeOverride ?? locale, (subject, html, used) => ({
+            subject: renderParticipantTemplateText(subject, { ...participant, locale: used }),
+            html: renderParticipantTemplateHtml(html, { ...participant, locale: used }),
+          })),
+        renderText: (template, used) =>
+          renderParticipantTemplateText(template, { ...participant, locale: used }),
+      };
+    });
+}
@@ -0,0 +1,140 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { APP_BASE_URL } from "@/lib/email/preferences";
+import {
+  addEmailTracking,
+  summarizeTracking,
+  trackingClickUrl,
+  trackingOpenUrl,
+  type AbVariant,
+  type TrackingCounts,
+  type TrackingEventKind,
+  type TrackingRecipientRow,
+} from "@/lib/email/tracking";
+import { signingSecret } from "@/lib/supabase/service";
+
+// Open/click tracking of campaign emails (supabase/email_tracking_migration.sql).
+
+export type CampaignTrackingSettings = {
+  trackOpens: boolean;
+  trackClicks: boolean;
+  subjectB: string | null;
+};
+
+export type CampaignLinkClicks = {
+  url: string;
+  clicks: number;
+  recipients: number;
+};
+
+export type CampaignTracking = CampaignTrackingSettings & {
+  subject: string;
+  total: TrackingCounts;
+  variants: Record<AbVariant, TrackingCounts> | null;
+  links: CampaignLinkClicks[];
+};
+
+const MAX_LINKS = 20;
+
+export function trackingLinkSecret(): string {
+  return signingSecret("EMAIL_TRACKING_SECRET");
+}
+
+export function withCampaignTracking(
+  html: string,
+  rowId: string,
+  settings: Pick<CampaignTrackingSettings, "trackOpens" | "trackClicks">
+): string {
+  if (!settings.trackOpens && !settings.trackClicks) return html;
+
+  const secret = trackingLinkSecret();
+  return addEmailTracking(html, {
+    openUrl: settings.trackOpens ? trackingOpenUrl(APP_BASE_URL, rowId, secret) : null,
+    clickUrl: settings.trackClicks
+      ? (url) => trackingClickUrl(APP_BASE_URL, rowId, url, secret)
+      : null,
+  });
+}
+
+export async function recordTrackingEvent(
+  service: SupabaseClient,
+  rowId: string,
+  kind: TrackingEventKind,
+  url: string | null
+): Promise<boolean> {
+  const { data, error } = await service.rpc("record_email_tracking_event", {
+    p_recipient_row_id: rowId,
+    p_kind: kind,
+    p_url: url,
+  });
+
+  if (error) {
+    throw new Error(error.message);
+  }
+  return data === true;
+}
+
+export async function loadCampaignTracking(
+  service: SupabaseClient,
+  logId: string
+): Promise<CampaignTracking | null> {
+  const { data: log, error: logError } = await service
+    .from("email_send_logs")
+    .select("subject,subject_b,track_opens,track_clicks")
+    .eq("id", logId)
+    .maybeSingle();
+
+  if (logError) {
+    throw new Error(logError.message);
+  }
+  if (!log) return null;
+
+  const settings = log as {
+    subject: string;
+    subject_b: string | null;
+    track_opens: boolean;
+    track_clicks: boolean;
+  };
+
+  const { data: rows, error: rowsError } = await service
+    .from("email_send_log_recipients")
+    .select("status,ab_variant,opened_at,clicked_at")
+    .eq("send_log_id", logId);
+
+  if (rowsError) {
+    throw new Error(rowsError.message);
+  }
+
+  let links: CampaignLinkClicks[] = [];
+  if (settings.track_clicks) {
+    const { data: clicks, error: clicksError } = await service
+      .from("email_tracking_events")
+      .select("send_log_recipient_id,url")
+      .eq("send_log_id", logId)
+      .eq("kind", "click");
+
+    if (clicksError) {
+      throw new Error(clicksError.message);
+    }
+
+    const byUrl = new Map<string, { clicks: number; recipients: Set<string> }>();
+    for (const click of (clicks ?? []) as { send_log_recipient_id: string; url: string }[]) {
+      const entry = byUrl.get(click.url) ?? { clicks: 0, recipients: new Set<string>() };
+      entry.clicks += 1;
+      entry.recipients.add(click.send_log_recipient_id);
+      byUrl.set(click.url, entry);
+    }
+    links = [...byUrl.entries()]
+      .map(([url, entry]) => ({ url, clicks: entry.clicks, recipients: entry.recipients.size }))
+      .sort((a, b) => b.recipients - a.recipients || b.clicks - a.clicks)
+      .slice(0, MAX_LINKS);
+  }
+
+  return {
+    subject: settings.subject,
+    subjectB: settings.subject_b,
+    trackOpens: settings.track_opens,
+    trackClicks: settings.track_clicks,
+    ...summarizeTracking((rows ?? []) as TrackingRecipientRow[]),
+    links,
+  };
+}
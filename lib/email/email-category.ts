@@ -0,0 +1,18 @@
+// Campaign categories. Also imported by the composer, so it must stay free of server code.
+
+export const EMAIL_CATEGORIES = ["operational", "newsletter"] as const;
+
+export type EmailCategory = (typeof EMAIL_CATEGORIES)[number];
+
+// Operational emails are needed to organize the event and are always sent; newsletters
+// skip every address that opted out on the preference page.
+export const EMAIL_CATEGORY_LABELS: Record<EmailCategory, string> = {
+  operational: "Operational (registration and event information)",
+  newsletter: "Newsletter (skips unsubscribed addresses)",
+};
+
+export const NEWSLETTER_OPT_OUT_REASON = "Unsubscribed from newsletters";
+
+export function parseEmailCategory(value: unknown): EmailCategory {
+  return value === "newsletter" ? "newsletter" : "operational";
+}
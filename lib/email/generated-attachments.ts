@@ -0,0 +1,148 @@
+// Campaign attachments generated for each recipient from their participant data. The
+// filename, title and body are templates with the same tokens as the email body, so
+// one campaign sends every participant their own document.
+
+export const GENERATED_ATTACHMENT_KINDS = [
+  "confirmation_letter",
+  "visa_invitation_letter",
+  "fee_statement",
+] as const;
+
+export type GeneratedAttachmentKind = (typeof GENERATED_ATTACHMENT_KINDS)[number];
+
+export type GeneratedAttachment = {
+  kind: GeneratedAttachmentKind;
+  filename: string;
+  // Letter title and body; the fee statement has a fixed layout and ignores them.
+  title: string;
+  body: string;
+};
+
+export const GENERATED_ATTACHMENT_LABELS: Record<GeneratedAttachmentKind, string> = {
+  confirmation_letter: "Confirmation letter",
+  visa_invitation_letter: "Visa invitation letter",
+  fee_statement: "Personal fee statement",
+};
+
+export const MAX_GENERATED_ATTACHMENTS = GENERATED_ATTACHMENT_KINDS.length;
+const MAX_TEMPLATE_LENGTH = 20000;
+
+const DEFAULT_ATTACHMENTS: Record<GeneratedAttachmentKind, GeneratedAttachment> = {
+  confirmation_letter: {
+    kind: "confirmation_letter",
+    filename: "confirmation-{{cognome}}-{{nome}}.pdf",
+    title: "Confirmation of participation",
+    body: [
+      "Dear {{full_name}},",
+      "",
+      "we are pleased to confirm your participation in Global Friendship" +
+        "{{#if group}} with the group {{group}}{{/if}}.",
+      "",
+      "{{#if data_arrivo}}Arrival: {{data_arrivo|date}}{{/if}}",
+      "{{#if data_partenza}}Departure: {{data_partenza|date}}{{/if}}",
+      "{{#if alloggio}}Accommodation: {{alloggio}}{{/if}}",
+      "",
+      "We look forward to welcoming you.",
+      "",
+      "The Global Friendship team",
+    ].join("\n"),
+  },
+  visa_invitation_letter: {
+    kind: "visa_invitation_letter",
+    filename: "invitation-letter-{{cognome}}-{{nome}}.pdf",
+    title: "Letter of invitation",
+    body: [
+      "To the {{#if consulate}}{{consulate}}{{else}}Consulate / Embassy concerned{{/if}}",
+      "",
+      "We hereby invite {{full_name}}, born on {{data_nascita|date}}, citizen of {{nazione}}" +
+        "{{#if paese_residenza}} and resident in {{paese_residenza}}{{/if}}" +
+        "{{#if passport_number}}, holder of passport no. {{passport_number}} valid until " +
+        "{{passport_expiry|date}}{{/if}}, to take part " +
+        "in the Global Friendship international youth meeting.",
+      "",
+      "The participant will stay from {{data_arrivo|date}} to {{data_partenza|date}}. " +
+        "Accommodation during the event is arranged by the organization.",
+      "",
+      "We kindly ask you to grant the visa needed for this stay.",
+      "",
+      "The Global Friendship team",
+    ].join("\n"),
+  },
+  fee_statement: {
+    kind: "fee_statement",
+    filename: "fee-statement-{{cognome}}-{{nome}}.pdf",
+    title: "",
+    body: "",
+  },
+};
+
+export function isGeneratedAttachmentKind(value: unknown): value is GeneratedAttachmentKind {
+  return (
+    typeof value === "string" &&
+    (GENERATED_ATTACHMENT_KINDS as readonly string[]).includes(value)
+  );
+}
+
+export function defaultGeneratedAttachment(kind: GeneratedAttachmentKind): GeneratedAttachment {
+  return { ...DEFAULT_ATTACHMENTS[kind] };
+}
+
+export function generatedAttachmentUsesLetter(kind: GeneratedAttachmentKind): boolean {
+  return kind !== "fee_statement";
+}
+
+export function parseGeneratedAttachments(value: unknown): {
+  attachments: GeneratedAttachment[];
+  error: string | null;
+} {
+  if (value === undefined || value === null) {
+    return { attachments: [], error: null };
+  }
+  if (!Array.isArray(value)) {
+    return { attachments: [], error: "Invalid generated attachments." };
+  }
+  if (value.length > MAX_GENERATED_ATTACHMENTS) {
+    return {
+      attachments: [],
+      error: `Too many generated attachments. Maximum is ${MAX_GENERATED_ATTACHMENTS}.`,
+    };
+  }
+
+  const attachments: GeneratedAttachment[] = [];
+  for (const item of value) {
+    const record = (item ?? {}) as Record<string, unknown>;
+    if (!isGeneratedAttachmentKind(record.kind)) {
+      return { attachments: [], error: "Unknown generated attachment type." };
+    }
+    const text = (field: unknown) => (typeof field === "string" ? field.trim() : "");
+    const attachment: GeneratedAttachment = {
+      kind: record.kind,
+      filename: text(record.filename) || DEFAULT_ATTACHMENTS[record.kind].filename,
+      title: generatedAttachmentUsesLetter(record.kind) ? text(record.title) : "",
+      body: generatedAttachmentUsesLetter(record.kind) ? text(record.body) : "",
+    };
+    const label = GENERATED_ATTACHMENT_LABELS[attachment.kind];
+    if (generatedAttachmentUsesLetter(attachment.kind) && !attachment.body) {
+      return { attachments: [], error: `${label}: the letter text is required.` };
+    }
+    if (attachment.body.length + attachment.title.length > MAX_TEMPLATE_LENGTH) {
+      return { attachments: [], error: `${label}: the letter text is too long.` };
+    }
+    attachments.push(attachment);
+  }
+
+  return { attachments, error: null };
+}
+
+// Rendered filenames come from participant data: keep them portable and end in .pdf.
+export function generatedAttachmentFilename(rendered: string, kind: GeneratedAttachmentKind): string {
+  const base = rendered
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .replace(/\.pdf$/i, "")
+    .replace(/[^A-Za-z0-9._-]+/g, "-")
+    .replace(/-{2,}/g, "-")
+    .replace(/^[-.]+|[-.]+$/g, "")
+    .slice(0, 100);
+  return `${base || kind.replace(/_/g, "-")}.pdf`;
+}
@@ -0,0 +1,57 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { renderFeeDocumentPdf, type OrganizationDetails } from "@/lib/fees/documents";
+import { buildParticipantFeeStatement } from "@/lib/fees/document-store";
+import { renderLetterPdf } from "@/lib/pdf/letter";
+import type { CampaignRecipient } from "@/lib/email/campaign-recipients";
+import type { EmailAttachment } from "@/lib/email/campaign-queue";
+import {
+  generatedAttachmentFilename,
+  type GeneratedAttachment,
+} from "@/lib/email/generated-attachments";
+import type { Locale } from "@/lib/i18n";
+
+// Renders the generated attachments of a campaign for one participant, in the language
+// the email itself was rendered in. Failures throw so the send is retried like any other.
+export async function renderGeneratedAttachments(
+  service: SupabaseClient,
+  recipient: CampaignRecipient,
+  attachments: GeneratedAttachment[],
+  context: { locale: Locale; organization: OrganizationDetails }
+): Promise<EmailAttachment[]> {
+  const rendered: EmailAttachment[] = [];
+  const date = new Intl.DateTimeFormat(context.locale, { dateStyle: "long" }).format(new Date());
+
+  for (const attachment of attachments) {
+    let pdf: Uint8Array;
+    if (attachment.kind === "fee_statement") {
+      const statement = await buildParticipantFeeStatement(
+        service,
+        recipient.id,
+        context.organization
+      );
+      if ("error" in statement) {
+        throw new Error(`Fee statement: ${statement.error}`);
+      }
+      pdf = renderFeeDocumentPdf(statement);
+    } else {
+      pdf = renderLetterPdf({
+        organization: context.organization,
+        title: recipient.renderText(attachment.title, context.locale),
+        date,
+        body: recipient.renderText(attachment.body, context.locale),
+      });
+    }
+
+    rendered.push({
+      filename: generatedAttachmentFilename(
+        recipient.renderText(attachment.filename, context.locale),
+        attachment.kind
+      ),
+      content: Buffer.from(pdf).toString("base64"),
+      encoding: "base64",
+      contentType: "application/pdf",
+    });
+  }
+
+  return rendered;
+}
@@ -1,3 +1,11 @@
+import {
+  renderTemplate,
+  validateTemplate,
+  type TemplateIssue,
+  type TemplateSchema,
+  type TemplateScope,
+} from "@/lib/email/template-engine";
+
 export type GroupLeaderTemplateData = {
   id: string;
   nome: string | null;
@@ -8,6 +16,22 @@ export type GroupLeaderTemplateData = {
   italia: boolean | null;
   roma: boolean | null;
   gruppi: string[];
+  // Participants of the leader's groups, for {{#each members}} loops.
+  members?: GroupMemberTemplateData[];
+  locale?: string | null;
+};
+
+export type GroupMemberTemplateData = {
+  nome: string | null;
+  cognome: string | null;
+  email: string | null;
+  telefono: string | null;
+  group: string;
+  data_arrivo: string | null;
+  data_partenza: string | null;
+  alloggio: string | null;
+  is_minorenne: boolean | null;
+  registration_status: string | null;
 };
 
 type TemplateField = {
@@ -27,33 +51,70 @@ export const GROUP_LEADER_TEMPLATE_FIELDS: TemplateField[] = [
   { key: "gruppi", label: "Groups", token: "{{gruppi}}" },
   { key: "italia", label: "Based in Italy", token: "{{italia}}" },
   { key: "roma", label: "Based in Rome", token: "{{roma}}" },
+  { key: "members", label: "Group members", token: "{{#each members}}{{full_name}}{{/each}}" },
+];
+
+export const GROUP_LEADER_MEMBER_FIELDS: TemplateField[] = [
+  { key: "full_name", label: "Full name", token: "{{full_name}}" },
+  { key: "nome", label: "Name", token: "{{nome}}" },
+  { key: "cognome", label: "Surname", token: "{{cognome}}" },
+  { key: "email", label: "Email", token: "{{email}}" },
+  { key: "telefono", label: "Phone", token: "{{telefono}}" },
+  { key: "group", label: "Group", token: "{{group}}" },
+  { key: "data_arrivo", label: "Date of arrival", token: "{{data_arrivo}}" },
+  { key: "data_partenza", label: "Date of departure", token: "{{data_partenza}}" },
+  { key: "alloggio", label: "Accommodation", token: "{{alloggio}}" },
+  { key: "is_minorenne", label: "Is under 18", token: "{{is_minorenne}}" },
+  {
+    key: "registration_status",
+    label: "Registration status",
+    token: "{{registration_status}}",
+  },
 ];
 
+export const GROUP_LEADER_TEMPLATE_SCHEMA: TemplateSchema = {
+  fields: GROUP_LEADER_TEMPLATE_FIELDS.map((field) => field.key),
+  lists: { members: GROUP_LEADER_MEMBER_FIELDS.map((field) => field.key) },
+};
+
 function normalizeString(value: string | null | undefined): string {
   return (value ?? "").trim();
 }
 
-function escapeHtml(value: string): string {
-  return value
-    .replaceAll("&", "&amp;")
-    .replaceAll("<", "&lt;")
-    .replaceAll(">", "&gt;")
-    .replaceAll('"', "&quot;")
-    .replaceAll("'", "&#39;");
-}
-
 function toCommaList(values: string[] | null | undefined): string {
   const cleaned = (values ?? []).map((item) => item.trim()).filter(Boolean);
   return cleaned.join(", ");
 }
 
-function buildTemplateMap(groupLeader: GroupLeaderTemplateData): Record<string, string> {
+function fullNameOf(nome: string, cognome: string): string {
+  return [nome, cognome].filter(Boolean).join(" ").trim();
+}
+
+function buildMemberScope(member: GroupMemberTemplateData): TemplateScope {
+  const nome = normalizeString(member.nome);
+  const cognome = normalizeString(member.cognome);
+
+  return {
+    full_name: fullNameOf(nome, cognome),
+    nome,
+    cognome,
+    email: normalizeString(member.email),
+    telefono: normalizeString(member.telefono),
+    group: normalizeString(member.group),
+    data_arrivo: normalizeString(member.data_arrivo),
+    data_partenza: normalizeString(member.data_partenza),
+    alloggio: normalizeString(member.alloggio),
+    is_minorenne: member.is_minorenne,
+    registration_status: normalizeString(member.registration_status),
+  };
+}
+
+function buildTemplateScope(groupLeader: GroupLeaderTemplateData): TemplateScope {
   const nome = normalizeString(groupLeader.nome);
   const cognome = normalizeString(groupLeader.cognome);
-  const fullName = [nome, cognome].filter(Boolean).join(" ").trim();
 
   return {
-    full_name: fullName,
+    full_name: fullNameOf(nome, cognome),
     nome,
     cognome,
     id: groupLeader.id ?? "",
@@ -61,32 +122,35 @@ function buildTemplateMap(groupLeader: GroupLeaderTemplateData): Record<string,
     telefono: normalizeString(groupLeader.telefono),
     ruolo: normalizeString(groupLeader.ruolo),
     gruppi: toCommaList(groupLeader.gruppi),
-    italia: groupLeader.italia == null ? "" : groupLeader.italia ? "Yes" : "No",
-    roma: groupLeader.roma == null ? "" : groupLeader.roma ? "Yes" : "No",
+    italia: groupLeader.italia,
+    roma: groupLeader.roma,
+    members: (groupLeader.members ?? []).map(buildMemberScope),
   };
 }
 
-function renderTemplate(
+export function validateGroupLeaderTemplate(
   template: string,
-  values: Record<string, string>,
-  transform: (value: string) => string
-): string {
-  return template.replace(/\{\{\s*([a-zA-Z0-9_]+)\s*\}\}/g, (_, key: string) => {
-    const raw = values[key] ?? "";
-    return transform(raw);
-  });
+  options: { html: boolean }
+): TemplateIssue[] {
+  return validateTemplate(template, GROUP_LEADER_TEMPLATE_SCHEMA, options);
 }
 
 export function renderGroupLeaderTemplateText(
   template: string,
   groupLeader: GroupLeaderTemplateData
 ): string {
-  return renderTemplate(template, buildTemplateMap(groupLeader), (value) => value);
+  return renderTemplate(template, buildTemplateScope(groupLeader), {
+    html: false,
+    locale: groupLeader.locale,
+  });
 }
 
 export function renderGroupLeaderTemplateHtml(
   template: string,
   groupLeader: GroupLeaderTemplateData
 ): string {
-  return renderTemplate(template, buildTemplateMap(groupLeader), (value) => escapeHtml(value));
+  return renderTemplate(template, buildTemplateScope(groupLeader), {
+    html: true,
+    locale: groupLeader.locale,
+  });
 }
@@ -0,0 +1,204 @@
+import net from "node:net";
+import tls from "node:tls";
+
+// Minimal IMAP4rev1 client for the mailbox poller: login, select, UID search and UID
+// fetch of whole messages. Commands run one at a time.
+
+export type ImapConnectionOptions = {
+  host: string;
+  port: number;
+  secure: boolean;
+  user: string;
+  password: string;
+  timeoutMs?: number;
+};
+
+export type ImapMailbox = {
+  uidValidity: number | null;
+  exists: number;
+};
+
+export type ImapSession = {
+  select: (mailbox: string) => Promise<ImapMailbox>;
+  searchUids: (criteria: string) => Promise<number[]>;
+  fetchMessage: (uid: number) => Promise<Buffer | null>;
+  logout: () => Promise<void>;
+};
+
+// One server response: its text with literals cut out, and the literals in order.
+type ImapResponse = {
+  text: string;
+  literals: Buffer[];
+};
+
+type PendingCommand = {
+  tag: string;
+  untagged: ImapResponse[];
+  resolve: (untagged: ImapResponse[]) => void;
+  reject: (error: Error) => void;
+};
+
+const DEFAULT_TIMEOUT_MS = 30 * 1000;
+const LITERAL_SUFFIX = /\{(\d+)\}$/;
+
+export function quoteImapString(value: string): string {
+  return `"${value.replace(/\\/g, "\\\\").replace(/"/g, '\\"')}"`;
+}
+
+export async function connectImap(options: ImapConnectionOptions): Promise<ImapSession> {
+  const socket: net.Socket = options.secure
+    ? tls.connect({ host: options.host, port: options.port, servername: options.host })
+    : net.connect({ host: options.host, port: options.port });
+  socket.setTimeout(options.timeoutMs ?? DEFAULT_TIMEOUT_MS);
+
+  let buffer = Buffer.alloc(0);
+  let current: ImapResponse | null = null;
+  let literalLength: number | null = null;
+  let pending: PendingCommand | null = null;
+  let tagCounter = 0;
+  let closedError: Error | null = null;
+  let greeting: { resolve: () => void; reject: (error: Error) => void } | null = null;
+
+  function fail(error: Error) {
+    closedError = closedError ?? error;
+    greeting?.reject(error);
+    greeting = null;
+    pending?.reject(error);
+    pending = null;
+  }
+
+  function handleResponse(response: ImapResponse) {
+    if (greeting) {
+      if (/^\* (OK|PREAUTH)\b/i.test(response.text)) {
+        greeting.resolve();
+      } else {
+        greeting.reject(new Error(`IMAP server refused the connection: ${response.text}`));
+      }
+      greeting = null;
+      return;
+    }
+    if (!pending) return;
+
+    if (response.text.startsWith("* ")) {
+      pending.untagged.push(response);
+      return;
+    }
+    if (!response.text.startsWith(`${pending.tag} `)) return;
+
+    const command = pending;
+    pending = null;
+    const [, status = "", ...rest] = response.text.split(" ");
+    if (status.toUpperCase() === "OK") {
+      command.resolve(command.untagged);
+    } else {
+      command.reject(new Error(`IMAP command failed: ${status} ${rest.join(" ")}`.trim()));
+    }
+  }
+
+  function onData(chunk: Buffer) {
+    buffer = Buffer.concat([buffer, chunk]);
+    while (true) {
+      if (literalLength !== null) {
+        if (buffer.length < literalLength) return;
+        current?.literals.push(buffer.subarray(0, literalLength));
+        buffer = buffer.subarray(literalLength);
+        literalLength = null;
+        continue;
+      }
+
+      const lineEnd = buffer.indexOf("\r\n");
+      if (lineEnd === -1) return;
+      const line = buffer.subarray(0, lineEnd).toString("utf8");
+      buffer = buffer.subarray(lineEnd + 2);
+
+      current = current ?? { text: "", literals: [] };
+      const literal = LITERAL_SUFFIX.exec(line);
+      if (literal) {
+        current.text += line.slice(0, literal.index);
+        literalLength = Number(literal[1]);
+        continue;
+      }
+
+      current.text += line;
+      const complete = current;
+      current = null;
+      handleResponse(complete);
+    }
+  }
+
+  socket.on("data", onData);
+  socket.on("timeout", () => {
+    const error = new Error("IMAP connection timed out");
+    fail(error);
+    socket.destroy(error);
+  });
+  socket.on("error", (error) => fail(error));
+  socket.on("close", () => fail(new Error("IMAP connection closed")));
+
+  await new Promise<void>((resolve, reject) => {
+    greeting = { resolve, reject };
+  });
+
+  function run(command: string): Promise<ImapResponse[]> {
+    if (closedError) return Promise.reject(closedError);
+    if (pending) return Promise.reject(new Error("IMAP command already in progress"));
+
+    tagCounter += 1;
+    const tag = `A${tagCounter}`;
+    return new Promise((resolve, reject) => {
+      pending = { tag, untagged: [], resolve, reject };
+      socket.write(`${tag} ${command}\r\n`);
+    });
+  }
+
+  try {
+    await run(`LOGIN ${quoteImapString(options.user)} ${quoteImapString(options.password)}`);
+  } catch (error) {
+    socket.destroy();
+    throw error;
+  }
+
+  return {
+    async select(mailbox) {
+      const untagged = await run(`SELECT ${quoteImapString(mailbox)}`);
+      let uidValidity: number | null = null;
+      let exists = 0;
+      for (const response of untagged) {
+        const validity = /\[UIDVALIDITY (\d+)\]/i.exec(response.text);
+        if (validity) uidValidity = Number(validity[1]);
+        const count = /^\* (\d+) EXISTS/i.exec(response.text);
+        if (count) exists = Number(count[1]);
+      }
+      return { uidValidity, exists };
+    },
+
+    async searchUids(criteria) {
+      const untagged = await run(`UID SEARCH ${criteria}`);
+      return untagged
+        .filter((response) => /^\* SEARCH\b/i.test(response.text))
+        .flatMap((response) => response.text.slice("* SEARCH".length).trim().split(/\s+/))
+        .filter(Boolean)
+        .map(Number)
+        .filter((uid) => Number.isInteger(uid) && uid > 0)
+        .sort((a, b) => a - b);
+    },
+
+    async fetchMessage(uid) {
+      const untagged = await run(`UID FETCH ${uid} (UID BODY.PEEK[])`);
+      const response = untagged.find(
+        (entry) => /^\* \d+ FETCH\b/i.test(entry.text) && entry.literals.length > 0
+      );
+      return response ? response.literals[0] : null;
+    },
+
+    async logout() {
+      try {
+        await run("LOGOUT");
+      } catch {
+        // The server may close the socket before the tagged OK; nothing left to do.
+      } finally {
+        socket.destroy();
+      }
+    },
+  };
+}
@@ -0,0 +1,256 @@
+// Parses messages fetched from the sender mailbox and recognizes delivery-status
+// notifications (RFC 3464) and replies to campaign emails. Only the parts of MIME the
+// poller needs are implemented.
+
+export type InboundBounce = {
+  kind: "bounce";
+  recipient: string | null;
+  action: string | null;
+  status: string | null;
+  diagnostic: string | null;
+  // Permanent failures (5.x.x); delays and temporary failures are only recorded.
+  hard: boolean;
+};
+
+export type InboundReply = {
+  kind: "reply";
+  // Out-of-office and other auto-replies (Auto-Submitted header).
+  automatic: boolean;
+};
+
+export type ParsedInboundMessage = {
+  messageId: string | null;
+  from: string | null;
+  subject: string;
+  date: string | null;
+  text: string;
+  // Message-IDs of our own emails this message refers to, most specific first.
+  relatedMessageIds: string[];
+  classification: InboundBounce | InboundReply | { kind: "other" };
+};
+
+type MimeHeaders = Map<string, string[]>;
+
+type MimePart = {
+  headers: MimeHeaders;
+  contentType: string;
+  params: Record<string, string>;
+  body: string;
+  parts: MimePart[];
+};
+
+const MAX_TEXT_LENGTH = 4000;
+const MESSAGE_ID_PATTERN = /<[^<>\s]+@[^<>\s]+>/g;
+
+function splitHeaderBlock(raw: string): { head: string; body: string } {
+  const match = /\r?\n\r?\n/.exec(raw);
+  if (!match) return { head: raw, body: "" };
+  return { head: raw.slice(0, match.index), body: raw.slice(match.index + match[0].length) };
+}
+
+function parseHeaders(head: string): MimeHeaders {
+  const headers: MimeHeaders = new Map();
+  const unfolded = head.replace(/\r?\n[ \t]+/g, " ");
+  for (const line of unfolded.split(/\r?\n/)) {
+    const colon = line.indexOf(":");
+    if (colon <= 0) continue;
+    const name = line.slice(0, colon).trim().toLowerCase();
+    const value = line.slice(colon + 1).trim();
+    headers.set(name, [...(headers.get(name) ?? []), value]);
+  }
+  return headers;
+}
+
+function header(headers: MimeHeaders, name: string): string | null {
+  return headers.get(name)?.[0] ?? null;
+}
+
+function parseContentType(value: string | null): { type: string; params: Record<string, string> } {
+  const [type = "", ...rawParams] = (value ?? "text/plain").split(";");
+  const params: Record<string, string> = {};
+  for (const raw of rawParams) {
+    const eq = raw.indexOf("=");
+    if (eq <= 0) continue;
+    const name = raw.slice(0, eq).trim().toLowerCase();
+    params[name] = raw.slice(eq + 1).trim().replace(/^"(.*)"$/, "$1");
+  }
+  return { type: type.trim().toLowerCase() || "text/plain", params };
+}
+
+function parsePart(raw: string): MimePart {
+  const { head, body } = splitHeaderBlock(raw);
+  const headers = parseHeaders(head);
+  const { type, params } = parseContentType(header(headers, "content-type"));
+  const part: MimePart = { headers, contentType: type, params, body, parts: [] };
+
+  if (type.startsWith("multipart/") && params.boundary) {
+    const delimiter = `--${params.boundary}`;
+    const sections = body.split(delimiter).slice(1);
+    for (const section of sections) {
+      if (section.startsWith("--")) break;
+      part.parts.push(parsePart(section.replace(/^[ \t]*\r?\n/, "")));
+    }
+  } else if (type === "message/rfc822" || type === "text/rfc822-headers") {
+    part.parts.push(parsePart(decodeTransfer(part)));
+  }
+  return part;
+}
+
+function walk(part: MimePart): MimePart[] {
+  return [part, ...part.parts.flatMap(walk)];
+}
+
+function decodeTransfer(part: MimePart): string {
+  const encoding = (header(part.headers, "content-transfer-encoding") ?? "").toLowerCase();
+  if (encoding === "base64") {
+    return Buffer.from(part.body.replace(/\s+/g, ""), "base64").toString("latin1");
+  }
+  if (encoding === "quoted-printable") {
+    return part.body
+      .replace(/=\r?\n/g, "")
+      .replace(/=([0-9A-Fa-f]{2})/g, (_, hex: string) => String.fromCharCode(parseInt(hex, 16)));
+  }
+  return part.body;
+}
+
+// Bodies are read as latin1 so every byte survives; this re-decodes them in their charset.
+function decodeCharset(bytes: string, charset: string | undefined): string {
+  try {
+    return new TextDecoder(charset || "utf-8").decode(Buffer.from(bytes, "latin1"));
+  } catch {
+    return new TextDecoder("utf-8").decode(Buffer.from(bytes, "latin1"));
+  }
+}
+
+function partText(part: MimePart): string {
+  return decodeCharset(decodeTransfer(part), part.params.charset);
+}
+
+function decodeEncodedWords(value: string): string {
+  return value
+    .replace(/\?=\s+=\?/g, "?==?")
+    .replace(/=\?([^?]+)\?([BbQq])\?([^?]*)\?=/g, (_, charset: string, kind: string, text) => {
+      const bytes =
+        kind.toUpperCase() === "B"
+          ? Buffer.from(text, "base64").toString("latin1")
+          : String(text)
+              .replace(/_/g, " ")
+              .replace(/=([0-9A-Fa-f]{2})/g, (__, hex: string) =>
+                String.fromCharCode(parseInt(hex, 16))
+              );
+      return decodeCharset(bytes, charset);
+    });
+}
+
+function htmlToPlainText(html: string): string {
+  return html
+    .replace(/<style[\s\S]*?<\/style>/gi, "")
+    .replace(/<br\s*\/?>/gi, "\n")
+    .replace(/<\/p>/gi, "\n\n")
+    .replace(/<[^>]+>/g, "")
+    .replace(/&nbsp;/g, " ")
+    .replace(/&amp;/g, "&")
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">");
+}
+
+// Parts are in document order, so a bounce's own explanation comes before the
+// returned original.
+function messageText(parts: MimePart[]): string {
+  const plain = parts.find((part) => part.contentType === "text/plain");
+  if (plain) return partText(plain);
+  const html = parts.find((part) => part.contentType === "text/html");
+  return html ? htmlToPlainText(partText(html)) : "";
+}
+
+function messageIds(value: string | null): string[] {
+  return value?.match(MESSAGE_ID_PATTERN) ?? [];
+}
+
+export function extractEmailAddress(value: string | null): string | null {
+  if (!value) return null;
+  const bracket = /<([^<>\s]+@[^<>\s]+)>/.exec(value);
+  const bare = /[^\s<>;,"]+@[^\s<>;,"]+/.exec(value);
+  const address = bracket?.[1] ?? bare?.[0] ?? "";
+  return address ? address.toLowerCase() : null;
+}
+
+// Per-recipient fields of a message/delivery-status body. Only the first failed
+// recipient is reported: campaign emails have a single recipient.
+function parseDeliveryStatus(body: string): Omit<InboundBounce, "kind" | "hard"> {
+  const blocks = body
+    .split(/\r?\n\s*\r?\n/)
+    .map(parseHeaders)
+    .filter((block) => block.has("final-recipient") || block.has("original-recipient"));
+  const block =
+    blocks.find((entry) => (header(entry, "action") ?? "").toLowerCase() === "failed") ??
+    blocks[0];
+  if (!block) return { recipient: null, action: null, status: null, diagnostic: null };
+
+  const recipientField = header(block, "final-recipient") ?? header(block, "original-recipient");
+  return {
+    recipient: extractEmailAddress(recipientField?.split(";").pop() ?? null),
+    action: (header(block, "action") ?? "").toLowerCase() || null,
+    status: header(block, "status"),
+    diagnostic: header(block, "diagnostic-code")?.replace(/^[^;]*;\s*/, "") ?? null,
+  };
+}
+
+export function parseInboundMessage(raw: Buffer | string): ParsedInboundMessage {
+  const root = parsePart(typeof raw === "string" ? raw : raw.toString("latin1"));
+  const parts = walk(root);
+  const subject = decodeEncodedWords(header(root.headers, "subject") ?? "");
+  const from = extractEmailAddress(decodeEncodedWords(header(root.headers, "from") ?? ""));
+
+  const base = {
+    messageId: messageIds(header(root.headers, "message-id"))[0] ?? null,
+    from,
+    subject,
+    date: header(root.headers, "date"),
+    text: messageText(parts).trim().slice(0, MAX_TEXT_LENGTH),
+  };
+
+  const statusPart = parts.find((part) => part.contentType === "message/delivery-status");
+  const failedRecipients = header(root.headers, "x-failed-recipients");
+  if (statusPart || failedRecipients) {
+    // The returned original is attached as message/rfc822 or text/rfc822-headers.
+    const original = parts.find(
+      (part) =>
+        part !== root &&
+        (part.contentType === "message/rfc822" || part.contentType === "text/rfc822-headers")
+    );
+    const originalIds = original?.parts[0]
+      ? messageIds(header(original.parts[0].headers, "message-id"))
+      : [];
+    const fallbackIds = (root.body.match(/^Message-ID:\s*<[^>]+>/gim) ?? []).flatMap(messageIds);
+    const status = statusPart
+      ? parseDeliveryStatus(decodeTransfer(statusPart))
+      : {
+          recipient: extractEmailAddress(failedRecipients),
+          action: "failed",
+          status: null,
+          diagnostic: null,
+        };
+    const hard =
+      status.action === "failed" && (status.status === null || status.status.startsWith("5"));
+
+    return {
+      ...base,
+      relatedMessageIds: [...new Set([...originalIds, ...fallbackIds])],
+      classification: { kind: "bounce", ...status, hard },
+    };
+  }
+
+  const inReplyTo = messageIds(header(root.headers, "in-reply-to"));
+  const references = messageIds(header(root.headers, "references")).reverse();
+  if (inReplyTo.length > 0 || references.length > 0) {
+    const autoSubmitted = (header(root.headers, "auto-submitted") ?? "no").toLowerCase();
+    return {
+      ...base,
+      relatedMessageIds: [...new Set([...inReplyTo, ...references])],
+      classification: { kind: "reply", automatic: autoSubmitted !== "no" },
+    };
+  }
+
+  return { ...base, relatedMessageIds: [], classification: { kind: "other" } };
+}
@@ -0,0 +1,368 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { loadEmailSenderRuntimeSettings } from "@/lib/email/settings";
+import {
+  connectImap,
+  type ImapConnectionOptions,
+  type ImapSession,
+} from "@/lib/email/imap-client";
+import { parseInboundMessage, type ParsedInboundMessage } from "@/lib/email/inbound-parser";
+import { embeddedOne } from "@/lib/supabase/embedded";
+
+// Reads bounces and replies from the sender mailbox over IMAP and links them to the
+// queued email they refer to (email_send_log_recipients.message_id, see
+// supabase/email_inbound_migration.sql). Messages are never modified on the server;
+// the last processed UID is kept in email_mailbox_state instead.
+
+export type InboundMessageKind = "bounce" | "reply";
+
+export type InboundMessageRow = {
+  id: string;
+  kind: InboundMessageKind;
+  send_log_recipient_id: string | null;
+  from_email: string | null;
+  subject: string;
+  body_text: string;
+  bounce_status: string | null;
+  bounce_diagnostic: string | null;
+  hard_bounce: boolean;
+  automatic: boolean;
+  received_at: string | null;
+  created_at: string;
+  recipient: { email: string | null } | null;
+};
+
+export type MailboxPollSummary = {
+  mailbox: string | null;
+  scanned: number;
+  bounces: number;
+  replies: number;
+  unmatched: number;
+  flagged: number;
+  error: string | null;
+};
+
+type MailboxConfig = ImapConnectionOptions & { mailbox: string };
+
+type MailboxStateRow = {
+  uid_validity: number | null;
+  last_uid: number;
+};
+
+type RecipientMatchRow = {
+  id: string;
+  send_log_id: string;
+  recipient_type: "participants" | "group_leaders";
+  recipient_id: string;
+  email: string | null;
+  message_id: string;
+};
+
+const DEFAULT_BATCH_SIZE = 50;
+// On the first run (or after UIDVALIDITY changes) only recent mail is scanned.
+const INITIAL_SCAN_DAYS = 30;
+const IMAP_MONTHS = [
+  "Jan", "Feb", "Mar", "Apr", "May", "Jun", "Jul", "Aug", "Sep", "Oct", "Nov", "Dec",
+];
+const INBOUND_FIELDS =
+  "id,kind,send_log_recipient_id,from_email,subject,body_text,bounce_status,bounce_diagnostic,hard_bounce,automatic,received_at,created_at,recipient:email_send_log_recipients(email)";
+
+function readBoolean(value: string | undefined, fallback: boolean): boolean {
+  const normalized = (value ?? "").trim().toLowerCase();
+  if (!normalized) return fallback;
+  return normalized === "true" || normalized === "1";
+}
+
+// IMAP_* variables select any mailbox; without them the Gmail account used for sending
+// is read, since that is where bounces and replies to campaigns arrive.
+async function resolveMailboxConfig(
+  service: SupabaseClient
+): Promise<MailboxConfig | { error: string }> {
+  const mailbox = process.env.IMAP_MAILBOX?.trim() || "INBOX";
+  const host = process.env.IMAP_HOST?.trim() ?? "";
+  if (host) {
+    const user = process.env.IMAP_USER?.trim() ?? "";
+    const password = process.env.IMAP_PASSWORD ?? "";
+    if (!user || !password) {
+      return { error: "Missing IMAP_USER or IMAP_PASSWORD" };
+    }
+    return {
+      host,
+      port: Number(process.env.IMAP_PORT) || 993,
+      secure: readBoolean(process.env.IMAP_SECURE, true),
+      user,
+      password,
+      mailbox,
+    };
+  }
+
+  const settings = await loadEmailSenderRuntimeSettings(service);
+  if (!settings.gmailUser || !settings.gmailAppPassword) {
+    return { error: "No mailbox configured: set IMAP_HOST or the Gmail credentials" };
+  }
+  return {
+    host: "imap.gmail.com",
+    port: 993,
+    secure: true,
+    user: settings.gmailUser,
+    password: settings.gmailAppPassword,
+    mailbox,
+  };
+}
+
+function imapDate(date: Date): string {
+  return `${date.getUTCDate()}-${IMAP_MONTHS[date.getUTCMonth()]}-${date.getUTCFullYear()}`;
+}
+
+function receivedAt(parsed: ParsedInboundMessage): string | null {
+  if (!parsed.date) return null;
+  const time = Date.parse(parsed.date);
+  return Number.isNaN(time) ? null : new Date(time).toISOString();
+}
+
+async function loadMailboxState(
+  service: SupabaseClient,
+  mailbox: string
+): Promise<MailboxStateRow | null> {
+  const { data, error } = await service
+    .from("email_mailbox_state")
+    .select("uid_validity,last_uid")
+    .eq("mailbox", mailbox)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(error.message);
+  }
+  return (data as MailboxStateRow | null) ?? null;
+}
+
+async function saveMailboxState(
+  service: SupabaseClient,
+  mailbox: string,
+  values: { uid_validity?: number | null; last_uid?: number; last_error: string | null }
+) {
+  const { error } = await service
+    .from("email_mailbox_state")
+    .upsert(
+      { mailbox, ...values, last_polled_at: new Date().toISOString() },
+      { onConflict: "mailbox" }
+    );
+
+  if (error) {
+    throw new Error(error.message);
+  }
+}
+
+async function findRecipient(
+  service: SupabaseClient,
+  messageIds: string[]
+): Promise<RecipientMatchRow | null> {
+  if (messageIds.length === 0) return null;
+  const { data, error } = await service
+    .from("email_send_log_recipients")
+    .select("id,send_log_id,recipient_type,recipient_id,email,message_id")
+    .in("message_id", messageIds);
+
+  if (error) {
+    throw new Error(error.message);
+  }
+
+  const rows = (data ?? []) as RecipientMatchRow[];
+  // relatedMessageIds is ordered most specific first.
+  for (const messageId of messageIds) {
+    const match = rows.find((row) => row.message_id === messageId);
+    if (match) return match;
+  }
+  return null;
+}
+
+// Flags the address on the participant or group leader profile. Only the address that
+// bounced is stored, so an email corrected afterwards is not treated as bouncing.
+async function flagBouncedAddress(
+  service: SupabaseClient,
+  recipient: RecipientMatchRow,
+  reason: string
+): Promise<boolean> {
+  const now = new Date().toISOString();
+  const { error: recipientError } = await service
+    .from("email_send_log_recipients")
+    .update({ bounced_at: now, bounce_reason: reason })
+    .eq("id", recipient.id);
+
+  if (recipientError) {
+    throw new Error(recipientError.message);
+  }
+  if (!recipient.email) return false;
+
+  const table = recipient.recipient_type === "group_leaders" ? "profili" : "partecipanti";
+  const { error } = await service
+    .from(table)
+    .update({
+      email_bounced_at: now,
+      email_bounced_address: recipient.email.trim().toLowerCase(),
+      email_bounce_reason: reason,
+    })
+    .eq("id", recipient.recipient_id);
+
+  if (error) {
+    throw new Error(error.message);
+  }
+  return true;
+}
+
+async function storeInboundMessage(
+  service: SupabaseClient,
+  config: MailboxConfig,
+  uidValidity: number,
+  uid: number,
+  parsed: ParsedInboundMessage,
+  summary: MailboxPollSummary
+) {
+  const { classification } = parsed;
+  if (classification.kind === "other") return;
+
+  const recipient = await findRecipient(service, parsed.relatedMessageIds);
+  if (!recipient) {
+    summary.unmatched += 1;
+    return;
+  }
+
+  const bounce = classification.kind === "bounce" ? classification : null;
+  const { data, error } = await service
+    .from("email_inbound_messages")
+    .upsert(
+      {
+        mailbox: config.mailbox,
+        uid_validity: uidValidity,
+        uid,
+        kind: classification.kind,
+        send_log_id: recipient.send_log_id,
+        send_log_recipient_id: recipient.id,
+        message_id: parsed.messageId,
+        from_email: parsed.from,
+        subject: parsed.subject,
+        body_text: parsed.text,
+        bounce_action: bounce?.action ?? null,
+        bounce_status: bounce?.status ?? null,
+        bounce_diagnostic: bounce?.diagnostic ?? null,
+        hard_bounce: bounce?.hard ?? false,
+        automatic: classification.kind === "reply" ? classification.automatic : false,
+        received_at: receivedAt(parsed),
+      },
+      { onConflict: "mailbox,uid_validity,uid", ignoreDuplicates: true }
+    )
+    .select("id");
+
+  if (error) {
+    throw new Error(error.message);
+  }
+  // Already stored by an earlier, interrupted poll.
+  if (!data || data.length === 0) return;
+
+  if (!bounce) {
+    summary.replies += 1;
+    return;
+  }
+  summary.bounces += 1;
+  if (bounce.hard) {
+    const reason = [bounce.status, bounce.diagnostic].filter(Boolean).join(" ") || "Bounced";
+    if (await flagBouncedAddress(service, recipient, reason)) {
+      summary.flagged += 1;
+    }
+  }
+}
+
+// Processes new mailbox messages until the batch or the deadline is used up; the
+// next poll continues from the last processed UID.
+export async function pollEmailMailbox(
+  service: SupabaseClient,
+  options: { deadlineMs: number; batchSize?: number }
+): Promise<MailboxPollSummary> {
+  const summary: MailboxPollSummary = {
+    mailbox: null,
+    scanned: 0,
+    bounces: 0,
+    replies: 0,
+    unmatched: 0,
+    flagged: 0,
+    error: null,
+  };
+
+  const config = await resolveMailboxConfig(service);
+  if ("error" in config) {
+    summary.error = config.error;
+    return summary;
+  }
+  summary.mailbox = config.mailbox;
+
+  const stopAt = Date.now() + options.deadlineMs;
+  const state = await loadMailboxState(service, config.mailbox);
+  let session: ImapSession;
+  try {
+    session = await connectImap({ ...config, timeoutMs: options.deadlineMs });
+  } catch (error) {
+    summary.error = error instanceof Error ? error.message : "Unable to connect to mailbox";
+    await saveMailboxState(service, config.mailbox, { last_error: summary.error });
+    return summary;
+  }
+
+  let lastUid = state?.last_uid ?? 0;
+  let uidValidity: number | null = null;
+  try {
+    const selected = await session.select(config.mailbox);
+    uidValidity = selected.uidValidity ?? 0;
+    if (state?.uid_validity !== uidValidity) {
+      lastUid = 0;
+    }
+
+    const since = new Date(Date.now() - INITIAL_SCAN_DAYS * 24 * 60 * 60 * 1000);
+    const uids = (
+      await session.searchUids(lastUid > 0 ? `UID ${lastUid + 1}:*` : `SINCE ${imapDate(since)}`)
+    )
+      // "n:*" always matches the newest message, even when it is below n.
+      .filter((uid) => uid > lastUid)
+      .slice(0, options.batchSize ?? DEFAULT_BATCH_SIZE);
+
+    for (const uid of uids) {
+      if (Date.now() >= stopAt) break;
+      const raw = await session.fetchMessage(uid);
+      if (raw) {
+        await storeInboundMessage(
+          service,
+          config,
+          uidValidity,
+          uid,
+          parseInboundMessage(raw),
+          summary
+        );
+      }
+      summary.scanned += 1;
+      lastUid = uid;
+    }
+  } catch (error) {
+    summary.error = error instanceof Error ? error.message : "Unable to read mailbox";
+  } finally {
+    await session.logout();
+  }
+
+  await saveMailboxState(service, config.mailbox, {
+    ...(uidValidity !== null ? { uid_validity: uidValidity, last_uid: lastUid } : {}),
+    last_error: summary.error,
+  });
+  return summary;
+}
+
+export async function loadInboundMessages(
+  service: SupabaseClient,
+  logId: string
+): Promise<InboundMessageRow[]> {
+  const { data, error } = await service
+    .from("email_inbound_messages")
+    .select(INBOUND_FIELDS)
+    .eq("send_log_id", logId)
+    .order("created_at", { ascending: true });
+
+  if (error) {
+    throw new Error(error.message);
+  }
+  return (data ?? []).map((row) => ({ ...row, recipient: embeddedOne(row.recipient) }));
+}
@@ -0,0 +1,119 @@
+// Participant fields available to email and attachment templates, and the scope they
+// render from. The rendering itself lives in lib/email/participant-template.ts.
+import type { TemplateSchema, TemplateScope } from "@/lib/email/template-engine";
+
+export type ParticipantTemplateData = {
+  id: string;
+  nome: string | null;
+  cognome: string | null;
+  email: string | null;
+  telefono: string | null;
+  paese_residenza: string | null;
+  nazione: string | null;
+  data_nascita: string | null;
+  data_arrivo: string | null;
+  data_partenza: string | null;
+  alloggio: string | null;
+  allergie: string | null;
+  esigenze_alimentari: string[];
+  disabilita_accessibilita: boolean | null;
+  difficolta_accessibilita: string[];
+  quota_totale: number | null;
+  group: string;
+  is_minorenne?: boolean | null;
+  // From the participant's latest approved visa letter request, where one exists.
+  passport_number?: string | null;
+  passport_expiry?: string | null;
+  consulate?: string | null;
+  // Used by date/currency formatters; defaults to en-GB.
+  locale?: string | null;
+};
+
+type TemplateField = {
+  key: string;
+  label: string;
+  token: string;
+};
+
+export const PARTICIPANT_TEMPLATE_FIELDS: TemplateField[] = [
+  { key: "full_name", label: "Full name", token: "{{full_name}}" },
+  { key: "nome", label: "Name", token: "{{nome}}" },
+  { key: "cognome", label: "Surname", token: "{{cognome}}" },
+  { key: "id", label: "Id", token: "{{id}}" },
+  { key: "email", label: "Email", token: "{{email}}" },
+  { key: "telefono", label: "Phone", token: "{{telefono}}" },
+  { key: "paese_residenza", label: "Country", token: "{{paese_residenza}}" },
+  { key: "nazione", label: "Nationality", token: "{{nazione}}" },
+  { key: "data_nascita", label: "Date of birth", token: "{{data_nascita}}" },
+  { key: "data_arrivo", label: "Date of arrival", token: "{{data_arrivo}}" },
+  { key: "data_partenza", label: "Date of departure", token: "{{data_partenza}}" },
+  { key: "alloggio", label: "Accommodation", token: "{{alloggio}}" },
+  { key: "group", label: "Group", token: "{{group}}" },
+  { key: "allergie", label: "Allergies", token: "{{allergie}}" },
+  {
+    key: "esigenze_alimentari",
+    label: "Dietary requirements",
+    token: "{{esigenze_alimentari}}",
+  },
+  {
+    key: "disabilita_accessibilita",
+    label: "Accessibility support needed",
+    token: "{{disabilita_accessibilita}}",
+  },
+  {
+    key: "difficolta_accessibilita",
+    label: "Accessibility details",
+    token: "{{difficolta_accessibilita}}",
+  },
+  { key: "is_minorenne", label: "Is under 18", token: "{{is_minorenne}}" },
+  { key: "quota_totale", label: "Total fee", token: "{{quota_totale}}" },
+  { key: "passport_number", label: "Passport number", token: "{{passport_number}}" },
+  { key: "passport_expiry", label: "Passport expiry", token: "{{passport_expiry}}" },
+  { key: "consulate", label: "Consulate", token: "{{consulate}}" },
+];
+
+function normalizeString(value: string | null | undefined): string {
+  return (value ?? "").trim();
+}
+
+function toCommaList(values: string[] | null | undefined): string {
+  const cleaned = (values ?? []).map((item) => item.trim()).filter(Boolean);
+  return cleaned.join(", ");
+}
+
+// Raw values are kept typed (booleans, numbers) so {{#if}} checks and formatters work;
+// the engine prints booleans as Yes/No.
+export function buildParticipantTemplateScope(participant: ParticipantTemplateData): TemplateScope {
+  const nome = normalizeString(participant.nome);
+  const cognome = normalizeString(participant.cognome);
+  const fullName = [nome, cognome].filter(Boolean).join(" ").trim();
+
+  return {
+    full_name: fullName,
+    nome,
+    cognome,
+    id: participant.id ?? "",
+    email: normalizeString(participant.email),
+    telefono: normalizeString(participant.telefono),
+    paese_residenza: normalizeString(participant.paese_residenza),
+    nazione: normalizeString(participant.nazione),
+    data_nascita: normalizeString(participant.data_nascita),
+    data_arrivo: normalizeString(participant.data_arrivo),
+    data_partenza: normalizeString(participant.data_partenza),
+    alloggio: normalizeString(participant.alloggio),
+    group: normalizeString(participant.group),
+    allergie: normalizeString(participant.allergie),
+    esigenze_alimentari: toCommaList(participant.esigenze_alimentari),
+    disabilita_accessibilita: participant.disabilita_accessibilita,
+    difficolta_accessibilita: toCommaList(participant.difficolta_accessibilita),
+    is_minorenne: participant.is_minorenne ?? null,
+    quota_totale: participant.quota_totale,
+    passport_number: normalizeString(participant.passport_number),
+    passport_expiry: normalizeString(participant.passport_expiry),
+    consulate: normalizeString(participant.consulate),
+  };
+}
+
+export const PARTICIPANT_TEMPLATE_SCHEMA: TemplateSchema = {
+  fields: PARTICIPANT_TEMPLATE_FIELDS.map((field) => field.key),
+};
@@ -0,0 +1,75 @@
+import { createHmac, timingSafeEqual } from "node:crypto";
+
+// Signed links of the public email preference page, which needs no login.
+
+const TOKEN_CONTEXT = "email-preferences:v1:";
+
+export function normalizePreferenceEmail(email: string): string {
+  return email.trim().toLowerCase();
+}
+
+function signEmail(email: string, secret: string): Buffer {
+  return createHmac("sha256", secret).update(`${TOKEN_CONTEXT}${email}`).digest();
+}
+
+// Links never expire: an unsubscribe link from an old email must keep working.
+export function createPreferenceToken(email: string, secret: string): string {
+  const normalized = normalizePreferenceEmail(email);
+  const payload = Buffer.from(normalized, "utf8").toString("base64url");
+  return `${payload}.${signEmail(normalized, secret).toString("base64url")}`;
+}
+
+// Returns the address a token was issued for, or null when it was not signed by us.
+export function verifyPreferenceToken(token: string, secret: string): string | null {
+  const [payload, signature, ...rest] = token.trim().split(".");
+  if (!payload || !signature || rest.length > 0) return null;
+
+  const email = Buffer.from(payload, "base64url").toString("utf8");
+  if (!email || email !== normalizePreferenceEmail(email)) return null;
+
+  const expected = signEmail(email, secret);
+  const received = Buffer.from(signature, "base64url");
+  if (expected.length !== received.length || !timingSafeEqual(expected, received)) {
+    return null;
+  }
+  return email;
+}
+
+// The page lets people review their choices; mail clients' one-click unsubscribe
+// (RFC 8058) must POST to the API route, since the page does not accept POST.
+export function preferenceLinks(
+  baseUrl: string,
+  token: string
+): { page: string; oneClick: string } {
+  const query = `token=${encodeURIComponent(token)}`;
+  return {
+    page: `${baseUrl}/email-preferences?${query}`,
+    oneClick: `${baseUrl}/api/email-preferences?${query}`,
+  };
+}
+
+export function listUnsubscribeHeaders(oneClickUrl: string): Record<string, string> {
+  return {
+    "List-Unsubscribe": `<${oneClickUrl}>`,
+    "List-Unsubscribe-Post": "List-Unsubscribe=One-Click",
+  };
+}
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+export function appendPreferenceFooter(
+  message: { html: string; text: string },
+  footer: { url: string; label: string }
+): { html: string; text: string } {
+  const link = `<a href="${escapeHtml(footer.url)}">${escapeHtml(footer.label)}</a>`;
+  return {
+    html: `${message.html}<hr /><p style="font-size:12px;color:#64748b">${link}</p>`,
+    text: `${message.text}\n\n--\n${footer.label}: ${footer.url}`,
+  };
+}
@@ -0,0 +1,105 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { getMessage, type Locale } from "@/lib/i18n";
+import {
+  appendPreferenceFooter,
+  createPreferenceToken,
+  listUnsubscribeHeaders,
+  normalizePreferenceEmail,
+  preferenceLinks,
+} from "@/lib/email/preference-token";
+import { signingSecret } from "@/lib/supabase/service";
+
+// Per-address communication preferences (supabase/email_preferences_migration.sql).
+// Addresses without a row receive every category.
+
+export type EmailPreferences = {
+  newsletter: boolean;
+};
+
+export const APP_BASE_URL = (
+  process.env.NEXT_PUBLIC_APP_URL ||
+  process.env.GROUP_LEADER_PORTAL_URL ||
+  "https://portal.globalfriendship.eu"
+)
+  .trim()
+  .replace(/\/+$/, "");
+
+export function preferenceLinkSecret(): string {
+  return signingSecret("EMAIL_PREFERENCES_SECRET");
+}
+
+export function emailPreferencesLinks(email: string): { page: string; oneClick: string } {
+  return preferenceLinks(APP_BASE_URL, createPreferenceToken(email, preferenceLinkSecret()));
+}
+
+// Adds the preference link to a rendered campaign email, plus the List-Unsubscribe
+// headers mail clients use for their one-click unsubscribe button.
+export function withPreferenceLink(
+  message: { html: string; text: string; locale: Locale },
+  email: string
+): { html: string; text: string; headers: Record<string, string> } {
+  const links = emailPreferencesLinks(email);
+  return {
+    ...appendPreferenceFooter(message, {
+      url: links.page,
+      label: getMessage(message.locale, "email.footer.preferences"),
+    }),
+    headers: listUnsubscribeHeaders(links.oneClick),
+  };
+}
+
+export async function loadNewsletterOptOuts(
+  service: SupabaseClient,
+  emails: string[]
+): Promise<Set<string>> {
+  const normalized = [...new Set(emails.map(normalizePreferenceEmail).filter(Boolean))];
+  if (normalized.length === 0) return new Set();
+
+  const { data, error } = await service
+    .from("email_preferences")
+    .select("email")
+    .eq("newsletter", false)
+    .in("email", normalized);
+
+  if (error) {
+    throw new Error(`Unable to load email preferences: ${error.message}`);
+  }
+
+  return new Set(((data ?? []) as { email: string }[]).map((row) => row.email));
+}
+
+export async function loadEmailPreferences(
+  service: SupabaseClient,
+  email: string
+): Promise<EmailPreferences> {
+  const { data, error } = await service
+    .from("email_preferences")
+    .select("newsletter")
+    .eq("email", normalizePreferenceEmail(email))
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(error.message);
+  }
+
+  return { newsletter: (data as { newsletter: boolean } | null)?.newsletter ?? true };
+}
+
+export async function saveEmailPreferences(
+  service: SupabaseClient,
+  email: string,
+  preferences: EmailPreferences
+) {
+  const { error } = await service.from("email_preferences").upsert(
+    {
+      email: normalizePreferenceEmail(email),
+      newsletter: preferences.newsletter,
+      newsletter_opted_out_at: preferences.newsletter ? null : new Date().toISOString(),
+    },
+    { onConflict: "email" }
+  );
+
+  if (error) {
+    throw new Error(error.message);
+  }
+}
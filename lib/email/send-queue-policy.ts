@@ -0,0 +1,83 @@
+// Retry policy for the email send queue (supabase/email_send_queue_migration.sql).
+
+export const MAX_SEND_ATTEMPTS = 5;
+
+const BASE_RETRY_DELAY_MS = 60 * 1000;
+const MAX_RETRY_DELAY_MS = 60 * 60 * 1000;
+
+export type DeliveryStatus = "pending" | "sending" | "sent" | "failed" | "skipped" | "cancelled";
+
+export const DELIVERY_STATUSES: DeliveryStatus[] = [
+  "pending",
+  "sending",
+  "sent",
+  "failed",
+  "skipped",
+  "cancelled",
+];
+
+export const BOUNCED_ADDRESS_REASON = "Address bounced";
+
+// Hard bounces record the address that bounced (supabase/email_inbound_migration.sql),
+// so once the email is corrected the recipient receives mail again.
+export function isBouncedAddress(email: string | null, bouncedAddress: string | null): boolean {
+  const current = (email ?? "").trim().toLowerCase();
+  return current.length > 0 && current === (bouncedAddress ?? "").trim().toLowerCase();
+}
+
+export type FailureOutcome =
+  | { status: "pending"; next_attempt_at: string }
+  | { status: "failed"; next_attempt_at: null };
+
+// 1 minute after the first failure, doubling each time, capped at one hour.
+export function retryDelayMs(attempt: number): number {
+  const exponent = Math.max(0, attempt - 1);
+  return Math.min(BASE_RETRY_DELAY_MS * 2 ** exponent, MAX_RETRY_DELAY_MS);
+}
+
+// SMTP 5xx replies (unknown mailbox, rejected content) and HTTP API 4xx responses
+// other than timeouts / rate limits will not succeed on retry.
+export function isPermanentSendError(error: unknown): boolean {
+  if (!error || typeof error !== "object") return false;
+  const code = Number((error as { responseCode?: unknown }).responseCode);
+  if (Number.isInteger(code) && code >= 500 && code < 600) return true;
+
+  const httpStatus = Number((error as { httpStatus?: unknown }).httpStatus);
+  return (
+    Number.isInteger(httpStatus) &&
+    httpStatus >= 400 &&
+    httpStatus < 500 &&
+    httpStatus !== 408 &&
+    httpStatus !== 429
+  );
+}
+
+export function outcomeAfterFailure(
+  attempts: number,
+  error: unknown,
+  now: Date = new Date()
+): FailureOutcome {
+  if (attempts >= MAX_SEND_ATTEMPTS || isPermanentSendError(error)) {
+    return { status: "failed", next_attempt_at: null };
+  }
+  return {
+    status: "pending",
+    next_attempt_at: new Date(now.getTime() + retryDelayMs(attempts)).toISOString(),
+  };
+}
+
+export function countDeliveries(statuses: string[]): Record<DeliveryStatus, number> {
+  const counts = Object.fromEntries(DELIVERY_STATUSES.map((status) => [status, 0])) as Record<
+    DeliveryStatus,
+    number
+  >;
+  for (const status of statuses) {
+    if (status in counts) counts[status as DeliveryStatus] += 1;
+  }
+  return counts;
+}
+
+// A job is finished once no recipient is waiting for a (re)try.
+export function isJobFinished(counts: Record<DeliveryStatus, number>): boolean {
+  return counts.pending === 0 && counts.sending === 0;
+}
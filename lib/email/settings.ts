@@ -1,5 +1,10 @@
 import type { SupabaseClient } from "@supabase/supabase-js";
 import { createSupabaseServiceClient } from "@/lib/supabase/service";
+import {
+  resolveTransportConfig,
+  type EmailTransportConfig,
+  type TransportSettingsRow,
+} from "@/lib/email/transport-config";
 
 const EMAIL_REGEX = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
 
@@ -36,7 +41,7 @@ export const DEFAULT_GMAIL_SENDER_EMAIL =
 
 export const DEFAULT_GMAIL_APP_PASSWORD = normalizeAppPassword(process.env.GMAIL_APP_PASSWORD);
 
-type AdminEmailSettingsRow = {
+export type AdminEmailSettingsRow = TransportSettingsRow & {
   id: boolean;
   sender_email: string;
   gmail_app_password: string | null;
@@ -49,6 +54,9 @@ export type EmailSenderRuntimeSettings = {
   gmailUser: string;
   gmailAppPassword: string;
   hasCustomSettings: boolean;
+  transport: EmailTransportConfig;
+  // Set when the active transport is missing credentials; sending is refused.
+  transportError: string | null;
 };
 
 export async function loadAdminEmailSettings(
@@ -88,10 +96,22 @@ export async function loadEmailSenderRuntimeSettings(
     ? (configuredPassword as string)
     : DEFAULT_GMAIL_APP_PASSWORD;
 
+  const transport = resolveTransportConfig(
+    row,
+    { user: gmailUser, appPassword: gmailAppPassword },
+    process.env.EMAIL_TRANSPORT
+  );
+
   return {
-    senderEmail,
+    // Only the Gmail transport ties the sender to the mailbox credentials.
+    senderEmail:
+      transport.config.kind === "gmail"
+        ? senderEmail
+        : configuredSender || DEFAULT_GMAIL_SENDER_EMAIL,
     gmailUser,
     gmailAppPassword,
     hasCustomSettings: hasCompleteCustomConfig,
+    transport: transport.config,
+    transportError: transport.error,
   };
 }
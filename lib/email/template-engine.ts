@@ -0,0 +1,435 @@
+// Small, logic-light template language shared by participant and group-leader emails.
+//
+//   {{field}}                         value (HTML-escaped in HTML templates)
+//   {{field | date}}                  formatters: date[:short|medium|long|full],
+//                                     currency[:EUR], number, upper, lower, default:"text"
+//   {{#if field}}..{{else}}..{{/if}}  truthy check; also `field == "value"` / `field != 3`
+//   {{#unless field}}..{{/unless}}
+//   {{#each list}}..{{else}}..{{/each}}  loop; item fields, @index and @number inside
+//
+// There is no code execution: tags only read fields of the data passed in. Rendering
+// never throws; problems are reported by validateTemplate so the composer can block
+// sending.
+
+export type TemplateValue = string | number | boolean | null | undefined | TemplateScope[];
+
+export type TemplateScope = { [key: string]: TemplateValue };
+
+export type TemplateSchema = {
+  fields: string[];
+  lists?: Record<string, string[]>;
+};
+
+export type TemplateIssue = { message: string };
+
+export type TemplateRenderOptions = {
+  html: boolean;
+  locale?: string | null;
+};
+
+export const TEMPLATE_FORMATTERS = ["date", "currency", "number", "upper", "lower", "default"];
+
+const LOOP_FIELDS = ["@index", "@number"];
+const DEFAULT_LOCALE = "en-GB";
+const DEFAULT_CURRENCY = "EUR";
+const DATE_STYLES = ["short", "medium", "long", "full"] as const;
+
+type Literal = string | number | boolean | null;
+
+type Condition =
+  | { field: string; op: "truthy" }
+  | { field: string; op: "==" | "!="; value: Literal };
+
+type Formatter = { name: string; arg: string | null };
+
+type TemplateNode =
+  | { type: "text"; value: string }
+  | { type: "var"; field: string; formatters: Formatter[]; raw: string }
+  | {
+      type: "if";
+      negate: boolean;
+      condition: Condition;
+      then: TemplateNode[];
+      otherwise: TemplateNode[];
+      raw: string;
+    }
+  | { type: "each"; field: string; body: TemplateNode[]; otherwise: TemplateNode[]; raw: string };
+
+type BlockFrame = {
+  node: Extract<TemplateNode, { type: "if" | "each" }>;
+  closer: "/if" | "/unless" | "/each";
+  inElse: boolean;
+};
+
+type ParsedTemplate = { nodes: TemplateNode[]; issues: TemplateIssue[] };
+
+const TAG_PATTERN = /\{\{([\s\S]*?)\}\}/g;
+const FIELD_PATTERN = /^(@index|@number|[a-zA-Z_][a-zA-Z0-9_]*)$/;
+// A block tag alone in a paragraph (how the rich-text editor stores it) should not
+// leave empty paragraphs behind.
+const STANDALONE_BLOCK_TAG =
+  /<p>\s*(\{\{\s*(?:#(?:if|unless|each)\b[^}]*|else|\/(?:if|unless|each))\s*\}\})\s*<\/p>/g;
+
+function decodeTagEntities(value: string): string {
+  return value
+    .replace(/&nbsp;/g, " ")
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;/g, "'")
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&amp;/g, "&");
+}
+
+function parseLiteral(raw: string): Literal | undefined {
+  const value = raw.trim();
+  const quoted = value.match(/^"([^"]*)"$/) ?? value.match(/^'([^']*)'$/);
+  if (quoted) return quoted[1];
+  if (value === "true") return true;
+  if (value === "false") return false;
+  if (value === "null") return null;
+  if (/^-?\d+(\.\d+)?$/.test(value)) return Number(value);
+  return undefined;
+}
+
+function parseCondition(raw: string): Condition | string {
+  const comparison = raw.match(/^(\S+?)\s*(==|!=)\s*([\s\S]+)$/);
+  if (comparison) {
+    const [, field, op, literalRaw] = comparison;
+    if (!FIELD_PATTERN.test(field)) return `Invalid field name "${field}"`;
+    const value = parseLiteral(literalRaw);
+    if (value === undefined) {
+      return `Invalid value ${literalRaw.trim()} (use quotes for text)`;
+    }
+    return { field, op: op as "==" | "!=", value };
+  }
+
+  const field = raw.trim();
+  if (!FIELD_PATTERN.test(field)) return `Invalid condition "${raw.trim()}"`;
+  return { field, op: "truthy" };
+}
+
+function parseVariable(raw: string): { field: string; formatters: Formatter[] } | string {
+  const [fieldPart, ...formatterParts] = raw.split("|");
+  const field = fieldPart.trim();
+  if (!FIELD_PATTERN.test(field)) return `Invalid tag "{{${raw.trim()}}}"`;
+
+  const formatters: Formatter[] = [];
+  for (const part of formatterParts) {
+    const separator = part.indexOf(":");
+    const name = (separator >= 0 ? part.slice(0, separator) : part).trim();
+    const argRaw = separator >= 0 ? part.slice(separator + 1).trim() : "";
+    const literal = argRaw ? parseLiteral(argRaw) : null;
+    formatters.push({
+      name,
+      arg: argRaw ? (literal === undefined || literal === null ? argRaw : String(literal)) : null,
+    });
+  }
+  return { field, formatters };
+}
+
+export function parseTemplate(template: string, options: { html: boolean }): ParsedTemplate {
+  const source = options.html ? template.replace(STANDALONE_BLOCK_TAG, "$1") : template;
+  const issues: TemplateIssue[] = [];
+  const root: TemplateNode[] = [];
+  const stack: BlockFrame[] = [];
+
+  const target = (): TemplateNode[] => {
+    const frame = stack[stack.length - 1];
+    if (!frame) return root;
+    if (frame.node.type === "if") return frame.inElse ? frame.node.otherwise : frame.node.then;
+    return frame.inElse ? frame.node.otherwise : frame.node.body;
+  };
+
+  let cursor = 0;
+  for (const match of source.matchAll(TAG_PATTERN)) {
+    const index = match.index ?? 0;
+    if (index > cursor) target().push({ type: "text", value: source.slice(cursor, index) });
+    cursor = index + match[0].length;
+
+    const raw = match[0];
+    const content = (options.html ? decodeTagEntities(match[1]) : match[1]).trim();
+
+    const opener = content.match(/^#(if|unless|each)\b\s*([\s\S]*)$/);
+    if (opener) {
+      const [, keyword, argument] = opener;
+      if (!argument.trim()) {
+        issues.push({ message: `"${raw}" needs a field name` });
+        continue;
+      }
+      if (keyword === "each") {
+        const field = argument.trim();
+        if (!FIELD_PATTERN.test(field)) {
+          issues.push({ message: `Invalid list name in "${raw}"` });
+          continue;
+        }
+        const node: TemplateNode = { type: "each", field, body: [], otherwise: [], raw };
+        target().push(node);
+        stack.push({ node, closer: "/each", inElse: false });
+        continue;
+      }
+
+      const condition = parseCondition(argument);
+      if (typeof condition === "string") {
+        issues.push({ message: `${condition} in "${raw}"` });
+        continue;
+      }
+      const node: TemplateNode = {
+        type: "if",
+        negate: keyword === "unless",
+        condition,
+        then: [],
+        otherwise: [],
+        raw,
+      };
+      target().push(node);
+      stack.push({ node, closer: keyword === "unless" ? "/unless" : "/if", inElse: false });
+      continue;
+    }
+
+    if (content === "else") {
+      const frame = stack[stack.length - 1];
+      if (!frame) {
+        issues.push({ message: `"${raw}" is outside of an if, unless or each block` });
+      } else if (frame.inElse) {
+        issues.push({ message: `"${frame.node.raw}" has more than one {{else}}` });
+      } else {
+        frame.inElse = true;
+      }
+      continue;
+    }
+
+    if (/^\/(if|unless|each)$/.test(content)) {
+      const frame = stack[stack.length - 1];
+      if (!frame || frame.closer !== content) {
+        issues.push({
+          message: frame
+            ? `"${raw}" closes "${frame.node.raw}"; expected {{${frame.closer}}}`
+            : `"${raw}" has no matching opening tag`,
+        });
+        continue;
+      }
+      stack.pop();
+      continue;
+    }
+
+    const variable = parseVariable(content);
+    if (typeof variable === "string") {
+      issues.push({ message: variable });
+      continue;
+    }
+    target().push({ type: "var", raw, ...variable });
+  }
+
+  if (cursor < source.length) target().push({ type: "text", value: source.slice(cursor) });
+  for (const frame of stack) {
+    issues.push({ message: `"${frame.node.raw}" is never closed with {{${frame.closer}}}` });
+  }
+
+  return { nodes: root, issues };
+}
+
+function checkFields(
+  nodes: TemplateNode[],
+  schema: TemplateSchema,
+  scopes: string[][],
+  issues: TemplateIssue[]
+) {
+  const lists = schema.lists ?? {};
+  const isKnown = (field: string) => scopes.some((fields) => fields.includes(field));
+
+  for (const node of nodes) {
+    if (node.type === "text") continue;
+
+    if (node.type === "var") {
+      if (!isKnown(node.field)) {
+        issues.push({ message: `Unknown field "${node.raw}"` });
+      }
+      for (const formatter of node.formatters) {
+        if (!TEMPLATE_FORMATTERS.includes(formatter.name)) {
+          issues.push({ message: `Unknown formatter "${formatter.name}" in "${node.raw}"` });
+        }
+      }
+      continue;
+    }
+
+    if (node.type === "if") {
+      if (!isKnown(node.condition.field)) {
+        issues.push({ message: `Unknown field "${node.condition.field}" in "${node.raw}"` });
+      }
+      checkFields(node.then, schema, scopes, issues);
+      checkFields(node.otherwise, schema, scopes, issues);
+      continue;
+    }
+
+    const itemFields = lists[node.field];
+    if (!itemFields) {
+      issues.push({ message: `"${node.field}" in "${node.raw}" is not a list` });
+      continue;
+    }
+    checkFields(node.body, schema, [[...itemFields, ...LOOP_FIELDS], ...scopes], issues);
+    checkFields(node.otherwise, schema, scopes, issues);
+  }
+}
+
+// Syntax errors plus unknown fields/formatters, in template order.
+export function validateTemplate(
+  template: string,
+  schema: TemplateSchema,
+  options: { html: boolean }
+): TemplateIssue[] {
+  const { nodes, issues } = parseTemplate(template, options);
+  const rootFields = [...schema.fields, ...Object.keys(schema.lists ?? {})];
+  checkFields(nodes, schema, [rootFields], issues);
+  return issues;
+}
+
+function safeLocale(locale: string | null | undefined): string {
+  if (!locale) return DEFAULT_LOCALE;
+  try {
+    return Intl.getCanonicalLocales(locale)[0] ?? DEFAULT_LOCALE;
+  } catch {
+    return DEFAULT_LOCALE;
+  }
+}
+
+function toDisplay(value: TemplateValue): string {
+  if (value == null) return "";
+  if (Array.isArray(value)) return String(value.length);
+  if (typeof value === "boolean") return value ? "Yes" : "No";
+  return String(value).trim();
+}
+
+function isTruthy(value: TemplateValue): boolean {
+  if (Array.isArray(value)) return value.length > 0;
+  if (typeof value === "string") return value.trim().length > 0;
+  return Boolean(value);
+}
+
+function matchesLiteral(value: TemplateValue, expected: Literal): boolean {
+  if (expected === null) return value == null || toDisplay(value) === "";
+  if (typeof expected === "boolean") return isTruthy(value) === expected;
+  if (typeof expected === "number") return Number(value) === expected && toDisplay(value) !== "";
+  return toDisplay(value).toLowerCase() === expected.trim().toLowerCase();
+}
+
+function parseDate(value: string): Date | null {
+  const dateOnly = value.match(/^(\d{4})-(\d{2})-(\d{2})$/);
+  const date = dateOnly
+    ? new Date(Date.UTC(Number(dateOnly[1]), Number(dateOnly[2]) - 1, Number(dateOnly[3])))
+    : new Date(value);
+  return Number.isNaN(date.getTime()) ? null : date;
+}
+
+function applyFormatter(value: TemplateValue, formatter: Formatter, locale: string): TemplateValue {
+  const display = toDisplay(value);
+  switch (formatter.name) {
+    case "date": {
+      const date = display ? parseDate(display) : null;
+      if (!date) return value;
+      const style = DATE_STYLES.find((item) => item === formatter.arg) ?? "long";
+      return new Intl.DateTimeFormat(locale, { dateStyle: style, timeZone: "UTC" }).format(date);
+    }
+    case "currency":
+    case "number": {
+      const amount = Number(typeof value === "number" ? value : display);
+      if (!display || Number.isNaN(amount)) return value;
+      try {
+        return new Intl.NumberFormat(
+          locale,
+          formatter.name === "currency"
+            ? { style: "currency", currency: (formatter.arg || DEFAULT_CURRENCY).toUpperCase() }
+            : undefined
+        ).format(amount);
+      } catch {
+        return value;
+      }
+    }
+    case "upper":
+      return display.toLocaleUpperCase(locale);
+    case "lower":
+      return display.toLocaleLowerCase(locale);
+    case "default":
+      return display ? value : (formatter.arg ?? "");
+    default:
+      return value;
+  }
+}
+
+function escapeHtml(value: string): string {
+  return value
+    .replaceAll("&", "&amp;")
+    .replaceAll("<", "&lt;")
+    .replaceAll(">", "&gt;")
+    .replaceAll('"', "&quot;")
+    .replaceAll("'", "&#39;");
+}
+
+function lookup(scopes: TemplateScope[], field: string): TemplateValue {
+  for (const scope of scopes) {
+    if (Object.prototype.hasOwnProperty.call(scope, field)) return scope[field];
+  }
+  return undefined;
+}
+
+function renderNodes(
+  nodes: TemplateNode[],
+  scopes: TemplateScope[],
+  options: TemplateRenderOptions,
+  locale: string
+): string {
+  let output = "";
+  for (const node of nodes) {
+    if (node.type === "text") {
+      output += node.value;
+      continue;
+    }
+
+    if (node.type === "var") {
+      const value = node.formatters.reduce(
+        (current, formatter) => applyFormatter(current, formatter, locale),
+        lookup(scopes, node.field)
+      );
+      const display = toDisplay(value);
+      output += options.html ? escapeHtml(display) : display;
+      continue;
+    }
+
+    if (node.type === "if") {
+      const value = lookup(scopes, node.condition.field);
+      const matched =
+        node.condition.op === "truthy"
+          ? isTruthy(value)
+          : node.condition.op === "=="
+            ? matchesLiteral(value, node.condition.value)
+            : !matchesLiteral(value, node.condition.value);
+      const branch = matched !== node.negate ? node.then : node.otherwise;
+      output += renderNodes(branch, scopes, options, locale);
+      continue;
+    }
+
+    const list = lookup(scopes, node.field);
+    const items = Array.isArray(list) ? list : [];
+    if (items.length === 0) {
+      output += renderNodes(node.otherwise, scopes, options, locale);
+      continue;
+    }
+    items.forEach((item, index) => {
+      output += renderNodes(
+        node.body,
+        [{ ...item, "@index": index, "@number": index + 1 }, ...scopes],
+        options,
+        locale
+      );
+    });
+  }
+  return output;
+}
+
+export function renderTemplate(
+  template: string,
+  scope: TemplateScope,
+  options: TemplateRenderOptions
+): string {
+  const { nodes } = parseTemplate(template, { html: options.html });
+  return renderNodes(nodes, [scope], options, safeLocale(options.locale));
+}
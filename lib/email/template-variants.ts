@@ -0,0 +1,59 @@
+import {
+  DEFAULT_LOCALE,
+  SUPPORTED_LOCALES,
+  isSupportedLocale,
+  parseStoredLocale,
+  type Locale,
+} from "@/lib/i18n";
+
+// A template's own subject/html is its DEFAULT_LOCALE version; `variants` holds the
+// translations. Recipients whose language has no translation get the default version.
+
+export type TemplateContent = {
+  subject: string;
+  html: string;
+};
+
+export type TemplateVariants = Partial<Record<Locale, TemplateContent>>;
+
+export type LocalizedTemplate = TemplateContent & {
+  variants: TemplateVariants;
+};
+
+export const TRANSLATION_LOCALES: Locale[] = SUPPORTED_LOCALES.filter(
+  (locale) => locale !== DEFAULT_LOCALE
+);
+
+export function recipientLocale(preferred: string | null | undefined): Locale {
+  return parseStoredLocale(preferred) ?? DEFAULT_LOCALE;
+}
+
+// Accepts the jsonb column or a request body; drops unknown locales and empty bodies.
+export function parseTemplateVariants(value: unknown): TemplateVariants {
+  if (!value || typeof value !== "object" || Array.isArray(value)) return {};
+
+  const variants: TemplateVariants = {};
+  for (const [locale, raw] of Object.entries(value as Record<string, unknown>)) {
+    if (!isSupportedLocale(locale) || locale === DEFAULT_LOCALE) continue;
+    if (!raw || typeof raw !== "object") continue;
+    const entry = raw as Record<string, unknown>;
+    const html = typeof entry.html === "string" ? entry.html.trim() : "";
+    if (!html) continue;
+    variants[locale] = {
+      subject: typeof entry.subject === "string" ? entry.subject.trim() : "",
+      html,
+    };
+  }
+  return variants;
+}
+
+export function pickTemplateVariant(
+  template: LocalizedTemplate,
+  locale: Locale
+): TemplateContent & { locale: Locale } {
+  const variant = locale === DEFAULT_LOCALE ? null : template.variants[locale];
+  if (variant) {
+    return { subject: variant.subject || template.subject, html: variant.html, locale };
+  }
+  return { subject: template.subject, html: template.html, locale: DEFAULT_LOCALE };
+}
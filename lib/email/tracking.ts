@@ -0,0 +1,169 @@
+import { createHmac, timingSafeEqual } from "node:crypto";
+
+// Open and click tracking of campaign emails, and the A/B subject split. Tracking links
+// point at public routes of this app and carry the queue row id plus a signature, so
+// they cannot be forged to inflate results or to turn the click route into an open
+// redirect.
+
+export type TrackingEventKind = "open" | "click";
+
+export type AbVariant = "A" | "B";
+
+export type TrackingRecipientRow = {
+  status: string;
+  ab_variant: AbVariant | null;
+  opened_at: string | null;
+  clicked_at: string | null;
+};
+
+export type TrackingCounts = {
+  delivered: number;
+  opened: number;
+  clicked: number;
+};
+
+const TOKEN_CONTEXT = "email-tracking:v1:";
+// Truncated HMAC keeps rewritten links short; 128 bits is plenty against guessing.
+const SIGNATURE_BYTES = 16;
+
+function signature(kind: TrackingEventKind, rowId: string, url: string, secret: string): Buffer {
+  return createHmac("sha256", secret)
+    .update(`${TOKEN_CONTEXT}${kind}:${rowId}:${url}`)
+    .digest()
+    .subarray(0, SIGNATURE_BYTES);
+}
+
+export function signTrackingEvent(
+  kind: TrackingEventKind,
+  rowId: string,
+  url: string,
+  secret: string
+): string {
+  return signature(kind, rowId, url, secret).toString("base64url");
+}
+
+export function verifyTrackingEvent(
+  kind: TrackingEventKind,
+  rowId: string,
+  url: string,
+  signed: string,
+  secret: string
+): boolean {
+  const expected = signature(kind, rowId, url, secret);
+  const received = Buffer.from(signed, "base64url");
+  return expected.length === received.length && timingSafeEqual(expected, received);
+}
+
+export function trackingOpenUrl(baseUrl: string, rowId: string, secret: string): string {
+  const params = new URLSearchParams({ r: rowId, s: signTrackingEvent("open", rowId, "", secret) });
+  return `${baseUrl}/api/email-tracking/open?${params.toString()}`;
+}
+
+export function trackingClickUrl(
+  baseUrl: string,
+  rowId: string,
+  url: string,
+  secret: string
+): string {
+  const params = new URLSearchParams({
+    r: rowId,
+    u: url,
+    s: signTrackingEvent("click", rowId, url, secret),
+  });
+  return `${baseUrl}/api/email-tracking/click?${params.toString()}`;
+}
+
+export function isTrackableUrl(url: string): boolean {
+  return /^https?:\/\/[^\s]+$/i.test(url);
+}
+
+function decodeAttribute(value: string): string {
+  return value
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;/g, "'")
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&amp;/g, "&");
+}
+
+function escapeAttribute(value: string): string {
+  return value.replace(/&/g, "&amp;").replace(/"/g, "&quot;");
+}
+
+// Rewrites http(s) links through the click route and adds the open pixel. mailto:,
+// tel: and anchor links are left alone; the preference footer is added afterwards so
+// unsubscribing is never tracked.
+export function addEmailTracking(
+  html: string,
+  options: { openUrl: string | null; clickUrl: ((url: string) => string) | null }
+): string {
+  let tracked = html;
+
+  const clickUrl = options.clickUrl;
+  if (clickUrl) {
+    tracked = tracked.replace(
+      /(<a\b[^>]*?\bhref\s*=\s*)(["'])(.*?)\2/gi,
+      (match, prefix: string, _quote: string, href: string) => {
+        const url = decodeAttribute(href.trim());
+        if (!isTrackableUrl(url)) return match;
+        return `${prefix}"${escapeAttribute(clickUrl(url))}"`;
+      }
+    );
+  }
+
+  if (options.openUrl) {
+    const pixel =
+      `<img src="${escapeAttribute(options.openUrl)}" width="1" height="1" alt="" ` +
+      'style="display:block;width:1px;height:1px;border:0" />';
+    tracked = /<\/body>/i.test(tracked)
+      ? tracked.replace(/<\/body>/i, `${pixel}</body>`)
+      : `${tracked}${pixel}`;
+  }
+
+  return tracked;
+}
+
+// Random halves; with an odd count A gets the extra recipient.
+export function assignAbVariants(
+  ids: string[],
+  random: () => number = Math.random
+): Map<string, AbVariant> {
+  const shuffled = [...ids];
+  for (let index = shuffled.length - 1; index > 0; index -= 1) {
+    const swap = Math.floor(random() * (index + 1));
+    [shuffled[index], shuffled[swap]] = [shuffled[swap], shuffled[index]];
+  }
+  return new Map(
+    shuffled.map((id, index): [string, AbVariant] => [id, index % 2 === 0 ? "A" : "B"])
+  );
+}
+
+function countRows(rows: TrackingRecipientRow[]): TrackingCounts {
+  const delivered = rows.filter((row) => row.status === "sent");
+  return {
+    delivered: delivered.length,
+    // A click proves the email was opened even when images were blocked.
+    opened: delivered.filter((row) => row.opened_at || row.clicked_at).length,
+    clicked: delivered.filter((row) => row.clicked_at).length,
+  };
+}
+
+export function summarizeTracking(rows: TrackingRecipientRow[]): {
+  total: TrackingCounts;
+  variants: Record<AbVariant, TrackingCounts> | null;
+} {
+  const split = rows.some((row) => row.ab_variant);
+  return {
+    total: countRows(rows),
+    variants: split
+      ? {
+          A: countRows(rows.filter((row) => row.ab_variant === "A")),
+          B: countRows(rows.filter((row) => row.ab_variant === "B")),
+        }
+      : null,
+  };
+}
+
+export function trackingRate(part: number, total: number): number | null {
+  return total > 0 ? part / total : null;
+}
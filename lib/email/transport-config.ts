@@ -0,0 +1,154 @@
+// Email transport selection (admin_email_settings.transport, see
+// supabase/email_transport_migration.sql). The implementations live in
+// lib/email/transport.ts.
+
+export const EMAIL_TRANSPORT_KINDS = ["gmail", "smtp", "capture", "http_api"] as const;
+
+export type EmailTransportKind = (typeof EMAIL_TRANSPORT_KINDS)[number];
+
+export const DEFAULT_HTTP_API_URL = "https://api.resend.com/emails";
+
+export type EmailTransportConfig =
+  | { kind: "gmail"; user: string; appPassword: string }
+  | { kind: "smtp"; host: string; port: number; secure: boolean; user: string; password: string }
+  | { kind: "capture"; directory: string | null }
+  | { kind: "http_api"; url: string; apiKey: string };
+
+export type TransportSettingsRow = {
+  transport?: string | null;
+  smtp_host?: string | null;
+  smtp_port?: number | null;
+  smtp_secure?: boolean | null;
+  smtp_user?: string | null;
+  smtp_password?: string | null;
+  http_api_url?: string | null;
+  http_api_key?: string | null;
+  capture_dir?: string | null;
+};
+
+export type TransportSettingsValues = {
+  transport: EmailTransportKind;
+  smtp_host: string | null;
+  smtp_port: number | null;
+  smtp_secure: boolean;
+  smtp_user: string | null;
+  smtp_password: string | null;
+  http_api_url: string | null;
+  http_api_key: string | null;
+  capture_dir: string | null;
+};
+
+function text(value: unknown): string {
+  return typeof value === "string" ? value.trim() : "";
+}
+
+export function isEmailTransportKind(value: unknown): value is EmailTransportKind {
+  return typeof value === "string" && (EMAIL_TRANSPORT_KINDS as readonly string[]).includes(value);
+}
+
+export function defaultSmtpPort(secure: boolean): number {
+  return secure ? 465 : 587;
+}
+
+// Builds the active transport. `override` (EMAIL_TRANSPORT env) wins over the stored
+// choice so local development can capture mail without touching the database.
+// `error` is set when the chosen transport is missing required credentials.
+export function resolveTransportConfig(
+  row: TransportSettingsRow | null,
+  gmail: { user: string; appPassword: string },
+  override?: string | null
+): { config: EmailTransportConfig; error: string | null } {
+  const overrideKind = text(override);
+  const storedKind = row?.transport;
+  const kind: EmailTransportKind = isEmailTransportKind(overrideKind)
+    ? overrideKind
+    : isEmailTransportKind(storedKind)
+      ? storedKind
+      : "gmail";
+
+  if (kind === "capture") {
+    return { config: { kind, directory: text(row?.capture_dir) || null }, error: null };
+  }
+
+  if (kind === "smtp") {
+    const secure = row?.smtp_secure !== false;
+    const host = text(row?.smtp_host);
+    const port = Number(row?.smtp_port) > 0 ? Number(row?.smtp_port) : defaultSmtpPort(secure);
+    return {
+      config: {
+        kind,
+        host,
+        port,
+        secure,
+        user: text(row?.smtp_user),
+        password: text(row?.smtp_password),
+      },
+      error: host ? null : "SMTP host is not configured for email sending",
+    };
+  }
+
+  if (kind === "http_api") {
+    const apiKey = text(row?.http_api_key);
+    return {
+      config: { kind, url: text(row?.http_api_url) || DEFAULT_HTTP_API_URL, apiKey },
+      error: apiKey ? null : "HTTP API key is not configured for email sending",
+    };
+  }
+
+  return {
+    config: { kind, user: gmail.user, appPassword: gmail.appPassword },
+    error: gmail.appPassword ? null : "Google App Password is not configured for email sending",
+  };
+}
+
+// Validates the transport part of the admin settings form. Secrets left blank keep
+// the stored value, matching how the Google App Password field already works.
+export function parseTransportSettingsInput(
+  body: Record<string, unknown>,
+  existing: TransportSettingsRow | null
+): { values: TransportSettingsValues } | { error: string } {
+  const transport = text(body.transport) || "gmail";
+  if (!isEmailTransportKind(transport)) {
+    return { error: `Unsupported transport: ${transport}` };
+  }
+
+  const smtpSecure =
+    body.smtpSecure === undefined ? existing?.smtp_secure !== false : body.smtpSecure === true;
+  const rawPort = body.smtpPort;
+  let smtpPort: number | null = null;
+  if (rawPort !== undefined && rawPort !== null && String(rawPort).trim() !== "") {
+    smtpPort = Number(rawPort);
+    if (!Number.isInteger(smtpPort) || smtpPort < 1 || smtpPort > 65535) {
+      return { error: "SMTP port must be a number between 1 and 65535" };
+    }
+  }
+
+  const httpApiUrl = text(body.httpApiUrl);
+  if (httpApiUrl && !/^https?:\/\//i.test(httpApiUrl)) {
+    return { error: "HTTP API URL must start with http:// or https://" };
+  }
+
+  const values: TransportSettingsValues = {
+    transport,
+    smtp_host: text(body.smtpHost) || null,
+    smtp_port: smtpPort,
+    smtp_secure: smtpSecure,
+    smtp_user: text(body.smtpUser) || null,
+    smtp_password: text(body.smtpPassword) || text(existing?.smtp_password) || null,
+    http_api_url: httpApiUrl || null,
+    http_api_key: text(body.httpApiKey) || text(existing?.http_api_key) || null,
+    capture_dir: text(body.captureDir) || null,
+  };
+
+  if (transport === "smtp" && !values.smtp_host) {
+    return { error: "SMTP host is required" };
+  }
+  if (transport === "smtp" && values.smtp_user && !values.smtp_password) {
+    return { error: "SMTP password is required when a username is set" };
+  }
+  if (transport === "http_api" && !values.http_api_key) {
+    return { error: "HTTP API key is required" };
+  }
+
+  return { values };
+}
@@ -0,0 +1,225 @@
+import { randomUUID } from "node:crypto";
+import { mkdir, writeFile } from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+import nodemailer from "nodemailer";
+import type SMTPTransport from "nodemailer/lib/smtp-transport";
+import type { EmailTransportConfig, EmailTransportKind } from "./transport-config";
+import type { EmailSenderRuntimeSettings } from "./settings";
+
+export type EmailAttachmentInput = {
+  filename: string;
+  content: string;
+  encoding: "base64";
+  contentType?: string;
+};
+
+export type EmailMessage = {
+  to: string;
+  cc?: string | string[] | null;
+  subject: string;
+  text?: string | null;
+  html?: string | null;
+  attachments?: EmailAttachmentInput[];
+  replyTo?: string | null;
+  headers?: Record<string, string>;
+  // Set by the send queue so bounces and replies can be matched to the recipient.
+  messageId?: string;
+  from: string;
+};
+
+export type EmailTransport = {
+  kind: EmailTransportKind;
+  send: (message: EmailMessage) => Promise<void>;
+};
+
+// Upper bound for one delivery, so a hung server or provider cannot hold the queue
+// worker past its deadline.
+const SEND_TIMEOUT_MS = 60 * 1000;
+
+let cachedSmtpTransport: {
+  key: string;
+  transporter: nodemailer.Transporter<SMTPTransport.SentMessageInfo>;
+} | null = null;
+
+function toList(value: string | string[] | null | undefined): string[] {
+  if (!value) return [];
+  return Array.isArray(value) ? value : [value];
+}
+
+function getSmtpTransporter(options: {
+  host: string;
+  port: number;
+  secure: boolean;
+  user: string;
+  password: string;
+}) {
+  const cacheKey = [
+    options.host,
+    options.port,
+    options.secure,
+    options.user,
+    options.password,
+  ].join(":");
+  if (cachedSmtpTransport && cachedSmtpTransport.key === cacheKey) {
+    return cachedSmtpTransport.transporter;
+  }
+
+  const transporter = nodemailer.createTransport({
+    host: options.host,
+    port: options.port,
+    secure: options.secure,
+    auth: options.user ? { user: options.user, pass: options.password } : undefined,
+    connectionTimeout: SEND_TIMEOUT_MS,
+    socketTimeout: SEND_TIMEOUT_MS,
+  });
+
+  cachedSmtpTransport = { key: cacheKey, transporter };
+  return transporter;
+}
+
+function createSmtpTransport(
+  kind: "gmail" | "smtp",
+  options: { host: string; port: number; secure: boolean; user: string; password: string }
+): EmailTransport {
+  return {
+    kind,
+    async send(message) {
+      await getSmtpTransporter(options).sendMail({
+        from: message.from,
+        to: message.to,
+        cc: message.cc ?? undefined,
+        subject: message.subject,
+        text: message.text ?? undefined,
+        html: message.html ?? undefined,
+        attachments: message.attachments ?? undefined,
+        replyTo: message.replyTo ?? undefined,
+        headers: message.headers,
+        messageId: message.messageId,
+      });
+    },
+  };
+}
+
+// Writes every message to a JSON file instead of delivering it. Meant for local
+// development and tests; attachments are stored as name and size only.
+function createCaptureTransport(directory: string | null): EmailTransport {
+  const targetDirectory = directory || path.join(os.tmpdir(), "global-friendship-mail");
+  return {
+    kind: "capture",
+    async send(message) {
+      const capturedAt = new Date().toISOString();
+      const fileName = `${capturedAt.replace(/[:.]/g, "-")}-${randomUUID()}.json`;
+      const filePath = path.join(targetDirectory, fileName);
+
+      await mkdir(targetDirectory, { recursive: true });
+      await writeFile(
+        filePath,
+        JSON.stringify(
+          {
+            capturedAt,
+            from: message.from,
+            to: message.to,
+            cc: toList(message.cc),
+            replyTo: message.replyTo ?? null,
+            headers: message.headers ?? {},
+            messageId: message.messageId ?? null,
+            subject: message.subject,
+            text: message.text ?? null,
+            html: message.html ?? null,
+            attachments: (message.attachments ?? []).map((attachment) => ({
+              filename: attachment.filename,
+              contentType: attachment.contentType ?? null,
+              size: Buffer.from(attachment.content, "base64").length,
+            })),
+          },
+          null,
+          2
+        )
+      );
+    },
+  };
+}
+
+// Posts messages as JSON to an HTTP email API. The payload follows the Resend
+// format (from/to/cc/subject/html/text/reply_to/attachments), which other providers
+// and relays accept as well.
+function createHttpApiTransport(url: string, apiKey: string): EmailTransport {
+  return {
+    kind: "http_api",
+    async send(message) {
+      const cc = toList(message.cc);
+      const res = await fetch(url, {
+        method: "POST",
+        signal: AbortSignal.timeout(SEND_TIMEOUT_MS),
+        headers: {
+          Authorization: `Bearer ${apiKey}`,
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({
+          from: message.from,
+          to: [message.to],
+          cc: cc.length > 0 ? cc : undefined,
+          subject: message.subject,
+          html: message.html ?? undefined,
+          text: message.text ?? undefined,
+          reply_to: message.replyTo ?? undefined,
+          headers: message.messageId
+            ? { ...message.headers, "Message-ID": message.messageId }
+            : message.headers,
+          attachments: message.attachments?.map((attachment) => ({
+            filename: attachment.filename,
+            content: attachment.content,
+            content_type: attachment.contentType,
+          })),
+        }),
+      });
+
+      if (!res.ok) {
+        const detail = (await res.text().catch(() => "")).slice(0, 500);
+        // httpStatus lets the send queue tell rejected messages from provider outages.
+        throw Object.assign(
+          new Error(`Email API responded with ${res.status}${detail ? `: ${detail}` : ""}`),
+          { httpStatus: res.status }
+        );
+      }
+    },
+  };
+}
+
+export function createEmailTransport(config: EmailTransportConfig): EmailTransport {
+  switch (config.kind) {
+    case "gmail":
+      if (!config.user || !config.appPassword) {
+        throw new Error("Missing GMAIL_USER or GMAIL_APP_PASSWORD");
+      }
+      return createSmtpTransport("gmail", {
+        host: "smtp.gmail.com",
+        port: 465,
+        secure: true,
+        user: config.user,
+        password: config.appPassword,
+      });
+    case "smtp":
+      return createSmtpTransport("smtp", config);
+    case "capture":
+      return createCaptureTransport(config.directory);
+    case "http_api":
+      return createHttpApiTransport(config.url, config.apiKey);
+  }
+}
+
+// Sends one message through the transport chosen in admin email settings.
+export async function sendEmail(
+  message: Omit<EmailMessage, "from"> & { from?: string | null },
+  settings: EmailSenderRuntimeSettings
+) {
+  if (settings.transportError) {
+    throw new Error(settings.transportError);
+  }
+
+  await createEmailTransport(settings.transport).send({
+    ...message,
+    from: message.from || settings.senderEmail,
+  });
+}
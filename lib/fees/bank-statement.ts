@@ -0,0 +1,381 @@
+// Bank statement parsing and match suggestions for fee reconciliation.
+// The route feeds it rows from lib/csv/parse.ts.
+
+export type BankCurrency = "EUR" | "HUF";
+export type BankDelimiter = "," | ";" | "\t";
+export type BankDateFormat = "YYYY-MM-DD" | "DD/MM/YYYY" | "DD.MM.YYYY" | "MM/DD/YYYY";
+
+export type BankStatementLayout = {
+  delimiter: BankDelimiter;
+  dateColumn: string;
+  // Either a signed amount column or separate credit/debit columns.
+  amountColumn: string | null;
+  creditColumn: string | null;
+  debitColumn: string | null;
+  currencyColumn: string | null;
+  defaultCurrency: BankCurrency;
+  counterpartyColumn: string | null;
+  referenceColumn: string | null;
+  dateFormat: BankDateFormat;
+  decimalSeparator: "." | ",";
+};
+
+export type BankStatementLine = {
+  lineNumber: number;
+  bookingDate: string;
+  amount: number;
+  currency: BankCurrency;
+  counterparty: string | null;
+  reference: string | null;
+  dedupeKey: string;
+  raw: Record<string, string>;
+};
+
+export type BankStatementParseResult = {
+  headers: string[];
+  lines: BankStatementLine[];
+  errors: Array<{ lineNumber: number; message: string }>;
+};
+
+export type MatchableParticipant = {
+  id: string;
+  nome: string | null;
+  cognome: string | null;
+  group: string;
+  quota_totale: number | null;
+  fee_paid: number | null;
+};
+
+export type MatchAllocation = {
+  participant_id: string;
+  amount: number;
+};
+
+export type BankMatchSuggestion = {
+  kind: "participant" | "group";
+  key: string;
+  label: string;
+  score: number;
+  reasons: string[];
+  allocations: MatchAllocation[];
+};
+
+export const HIGH_CONFIDENCE_SCORE = 80;
+const MIN_SUGGESTION_SCORE = 40;
+const MAX_SUGGESTIONS = 5;
+const AMOUNT_TOLERANCE = 0.01;
+
+export function detectCsvDelimiter(text: string): BankDelimiter {
+  const firstLine = text.replace(/^\uFEFF/, "").split(/\r?\n/, 1)[0] ?? "";
+  const counts: Array<[BankDelimiter, number]> = [
+    [";", firstLine.split(";").length - 1],
+    [",", firstLine.split(",").length - 1],
+    ["\t", firstLine.split("\t").length - 1],
+  ];
+  counts.sort((a, b) => b[1] - a[1]);
+  return counts[0][1] > 0 ? counts[0][0] : ";";
+}
+
+export function parseBankAmount(value: string, decimalSeparator: "." | ","): number | null {
+  let cleaned = value.replace(/[\s\u00A0']/g, "").replace(/[A-Za-z€]/g, "");
+  if (!cleaned) return null;
+
+  let negative = false;
+  if (cleaned.startsWith("(") && cleaned.endsWith(")")) {
+    negative = true;
+    cleaned = cleaned.slice(1, -1);
+  }
+  if (cleaned.endsWith("-")) {
+    negative = true;
+    cleaned = cleaned.slice(0, -1);
+  }
+  if (cleaned.startsWith("-")) {
+    negative = !negative;
+    cleaned = cleaned.slice(1);
+  } else if (cleaned.startsWith("+")) {
+    cleaned = cleaned.slice(1);
+  }
+
+  const thousandsSeparator = decimalSeparator === "," ? "." : ",";
+  cleaned = cleaned.split(thousandsSeparator).join("");
+  if (decimalSeparator === ",") cleaned = cleaned.replace(",", ".");
+  if (!/^\d+(\.\d+)?$/.test(cleaned)) return null;
+
+  const numeric = Number(cleaned);
+  if (!Number.isFinite(numeric)) return null;
+  return Number((negative ? -numeric : numeric).toFixed(2));
+}
+
+export function parseBankDate(value: string, format: BankDateFormat): string | null {
+  const trimmed = value.trim();
+  let match: RegExpMatchArray | null = null;
+  let year = "";
+  let month = "";
+  let day = "";
+
+  if (format === "YYYY-MM-DD") {
+    match = trimmed.match(/^(\d{4})-(\d{1,2})-(\d{1,2})/);
+    if (match) [, year, month, day] = match;
+  } else if (format === "DD/MM/YYYY") {
+    match = trimmed.match(/^(\d{1,2})\/(\d{1,2})\/(\d{4})/);
+    if (match) [, day, month, year] = match;
+  } else if (format === "DD.MM.YYYY") {
+    match = trimmed.match(/^(\d{1,2})\.(\d{1,2})\.(\d{4})/);
+    if (match) [, day, month, year] = match;
+  } else {
+    match = trimmed.match(/^(\d{1,2})\/(\d{1,2})\/(\d{4})/);
+    if (match) [, month, day, year] = match;
+  }
+  if (!match) return null;
+
+  const iso = `${year}-${month.padStart(2, "0")}-${day.padStart(2, "0")}`;
+  const date = new Date(`${iso}T00:00:00Z`);
+  if (Number.isNaN(date.getTime()) || date.toISOString().slice(0, 10) !== iso) return null;
+  return iso;
+}
+
+function parseBankCurrency(value: string, fallback: BankCurrency): BankCurrency | null {
+  const normalized = value.trim().toUpperCase();
+  if (!normalized) return fallback;
+  if (normalized === "EUR" || normalized === "€") return "EUR";
+  if (normalized === "HUF" || normalized === "FT") return "HUF";
+  return null;
+}
+
+export function normalizeMatchText(value: string | null | undefined): string {
+  return (value ?? "")
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, " ")
+    .trim();
+}
+
+export function bankLinesFromRows(
+  rows: string[][],
+  layout: BankStatementLayout
+): BankStatementParseResult {
+  const headers = (rows[0] ?? []).map((header) => header.replace(/^\uFEFF/, "").trim());
+  const lines: BankStatementLine[] = [];
+  const errors: BankStatementParseResult["errors"] = [];
+  const seenKeys = new Map<string, number>();
+
+  const required = [layout.dateColumn, layout.amountColumn ?? layout.creditColumn];
+  const missing = required.filter((column) => !column || !headers.includes(column));
+  if (missing.length > 0 || (!layout.amountColumn && !layout.creditColumn && !layout.debitColumn)) {
+    return {
+      headers,
+      lines,
+      errors: [{ lineNumber: 1, message: "Date and amount columns must match the file headers" }],
+    };
+  }
+
+  rows.slice(1).forEach((row, index) => {
+    const lineNumber = index + 2;
+    if (row.every((cell) => cell.trim() === "")) return;
+
+    const raw: Record<string, string> = {};
+    headers.forEach((header, column) => {
+      raw[header] = (row[column] ?? "").trim();
+    });
+    const cell = (column: string | null) => (column ? raw[column] ?? "" : "");
+
+    const bookingDate = parseBankDate(cell(layout.dateColumn), layout.dateFormat);
+    if (!bookingDate) {
+      errors.push({ lineNumber, message: `Invalid date "${cell(layout.dateColumn)}"` });
+      return;
+    }
+
+    let amount: number | null = null;
+    if (layout.amountColumn) {
+      amount = parseBankAmount(cell(layout.amountColumn), layout.decimalSeparator);
+    } else {
+      const credit = parseBankAmount(cell(layout.creditColumn), layout.decimalSeparator);
+      const debit = parseBankAmount(cell(layout.debitColumn), layout.decimalSeparator);
+      if (credit !== null && credit !== 0) amount = Math.abs(credit);
+      else if (debit !== null && debit !== 0) amount = -Math.abs(debit);
+    }
+    if (amount === null || amount === 0) {
+      errors.push({ lineNumber, message: "Missing or invalid amount" });
+      return;
+    }
+
+    const currency = parseBankCurrency(cell(layout.currencyColumn), layout.defaultCurrency);
+    if (!currency) {
+      errors.push({
+        lineNumber,
+        message: `Unsupported currency "${cell(layout.currencyColumn)}"`,
+      });
+      return;
+    }
+
+    const counterparty = cell(layout.counterpartyColumn) || null;
+    const reference = cell(layout.referenceColumn) || null;
+    const baseKey = [
+      bookingDate,
+      amount.toFixed(2),
+      currency,
+      normalizeMatchText(counterparty),
+      normalizeMatchText(reference),
+    ].join("|");
+    // Identical lines inside one file are distinct transfers, not re-imports.
+    const occurrence = (seenKeys.get(baseKey) ?? 0) + 1;
+    seenKeys.set(baseKey, occurrence);
+
+    lines.push({
+      lineNumber,
+      bookingDate,
+      amount,
+      currency,
+      counterparty,
+      reference,
+      dedupeKey: occurrence === 1 ? baseKey : `${baseKey}#${occurrence}`,
+      raw,
+    });
+  });
+
+  return { headers, lines, errors };
+}
+
+function outstandingEur(participant: MatchableParticipant): number {
+  if (participant.quota_totale === null) return 0;
+  return Math.max(0, participant.quota_totale - (participant.fee_paid ?? 0));
+}
+
+function sameAmount(a: number, b: number): boolean {
+  return Math.abs(a - b) <= AMOUNT_TOLERANCE;
+}
+
+function containsWords(text: string, value: string | null): boolean {
+  const words = normalizeMatchText(value).split(" ").filter((word) => word.length >= 2);
+  if (words.length === 0) return false;
+  const padded = ` ${text} `;
+  return words.every((word) => padded.includes(` ${word} `));
+}
+
+function fullName(participant: MatchableParticipant): string {
+  return [participant.nome, participant.cognome].filter(Boolean).join(" ").trim() || "-";
+}
+
+// Splits a line amount across participants in order of outstanding balance; any surplus stays
+// on the first participant so the whole transfer is accounted for.
+function allocateAcross(
+  participants: MatchableParticipant[],
+  amount: number,
+  toLineCurrency: (eur: number) => number
+): MatchAllocation[] {
+  const allocations: MatchAllocation[] = [];
+  let remaining = amount;
+
+  for (const participant of participants) {
+    if (remaining <= AMOUNT_TOLERANCE) break;
+    const due = Number(toLineCurrency(outstandingEur(participant)).toFixed(2));
+    if (due <= 0) continue;
+    const share = Number(Math.min(due, remaining).toFixed(2));
+    allocations.push({ participant_id: participant.id, amount: share });
+    remaining = Number((remaining - share).toFixed(2));
+  }
+
+  if (remaining > AMOUNT_TOLERANCE) {
+    if (allocations.length > 0) {
+      allocations[0].amount = Number((allocations[0].amount + remaining).toFixed(2));
+    } else if (participants.length > 0) {
+      allocations.push({ participant_id: participants[0].id, amount: Number(remaining.toFixed(2)) });
+    }
+  }
+
+  return allocations;
+}
+
+export function suggestBankMatches(
+  line: Pick<BankStatementLine, "amount" | "currency" | "counterparty" | "reference">,
+  participants: MatchableParticipant[],
+  hufToEurRate: number
+): BankMatchSuggestion[] {
+  if (line.amount <= 0) return [];
+
+  const text = normalizeMatchText(`${line.counterparty ?? ""} ${line.reference ?? ""}`);
+  const rate = line.currency === "HUF" ? hufToEurRate : 1;
+  const amountEur = line.amount * rate;
+  const toLineCurrency = (eur: number) => (rate > 0 ? eur / rate : eur);
+  const suggestions: BankMatchSuggestion[] = [];
+
+  for (const participant of participants) {
+    let score = 0;
+    const reasons: string[] = [];
+
+    if (containsWords(text, participant.nome) && containsWords(text, participant.cognome)) {
+      score += 60;
+      reasons.push("full name");
+    } else if (containsWords(text, participant.cognome)) {
+      score += 25;
+      reasons.push("last name");
+    }
+
+    const outstanding = outstandingEur(participant);
+    if (outstanding > 0 && sameAmount(amountEur, outstanding)) {
+      score += 35;
+      reasons.push("outstanding amount");
+    } else if (participant.quota_totale !== null && sameAmount(amountEur, participant.quota_totale)) {
+      score += 20;
+      reasons.push("fee amount");
+    }
+
+    if (score < MIN_SUGGESTION_SCORE) continue;
+    suggestions.push({
+      kind: "participant",
+      key: participant.id,
+      label: `${fullName(participant)} (${participant.group || "-"})`,
+      score,
+      reasons,
+      allocations: [{ participant_id: participant.id, amount: line.amount }],
+    });
+  }
+
+  const byGroup = new Map<string, MatchableParticipant[]>();
+  for (const participant of participants) {
+    const group = (participant.group ?? "").trim();
+    if (!group || group === "-") continue;
+    byGroup.set(group, [...(byGroup.get(group) ?? []), participant]);
+  }
+
+  for (const [group, members] of byGroup) {
+    let score = 0;
+    const reasons: string[] = [];
+    const normalizedGroup = normalizeMatchText(group);
+
+    if (normalizedGroup.length >= 3 && ` ${text} `.includes(` ${normalizedGroup} `)) {
+      score += 50;
+      reasons.push("group name");
+    }
+
+    const groupOutstanding = members.reduce((sum, member) => sum + outstandingEur(member), 0);
+    if (members.length > 1 && groupOutstanding > 0 && sameAmount(amountEur, groupOutstanding)) {
+      score += 40;
+      reasons.push("group outstanding amount");
+    }
+
+    if (score < MIN_SUGGESTION_SCORE) continue;
+    const ordered = [...members].sort((a, b) => outstandingEur(b) - outstandingEur(a));
+    suggestions.push({
+      kind: "group",
+      key: group,
+      label: `Group ${group} (${members.length})`,
+      score,
+      reasons,
+      allocations: allocateAcross(ordered, line.amount, toLineCurrency),
+    });
+  }
+
+  return suggestions
+    .sort((a, b) => b.score - a.score || a.label.localeCompare(b.label))
+    .slice(0, MAX_SUGGESTIONS);
+}
+
+// A suggestion is safe to confirm without review when it is strong and clearly ahead of the rest.
+export function pickConfidentMatch(suggestions: BankMatchSuggestion[]): BankMatchSuggestion | null {
+  const [best, second] = suggestions;
+  if (!best || best.score < HIGH_CONFIDENCE_SCORE) return null;
+  if (second && second.score > best.score - 20) return null;
+  return best;
+}
@@ -0,0 +1,120 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type {
+  BankCurrency,
+  MatchAllocation,
+  MatchableParticipant,
+} from "@/lib/fees/bank-statement";
+import { recordParticipantPayments } from "@/lib/fees/payments";
+
+export type BankStatementLineRow = {
+  id: string;
+  import_id: string;
+  line_number: number;
+  booking_date: string;
+  amount: number;
+  currency: BankCurrency;
+  counterparty: string | null;
+  reference: string | null;
+  raw: Record<string, string>;
+  status: "pending" | "matched" | "ignored";
+  matched_at: string | null;
+  created_at: string;
+};
+
+type ParticipantRow = {
+  id: string;
+  nome: string | null;
+  cognome: string | null;
+  gruppo_id: string | null;
+  gruppo_label: string | null;
+  quota_totale: number | null;
+  fee_paid: number | null;
+};
+
+export async function loadMatchableParticipants(
+  service: SupabaseClient
+): Promise<MatchableParticipant[]> {
+  const { data, error } = await service
+    .from("partecipanti")
+    .select("id,nome,cognome,gruppo_id,gruppo_label,quota_totale,fee_paid")
+    .order("cognome", { ascending: true });
+
+  if (error) {
+    throw new Error(error.message);
+  }
+
+  return ((data ?? []) as ParticipantRow[]).map((row) => ({
+    id: row.id,
+    nome: row.nome,
+    cognome: row.cognome,
+    group: (row.gruppo_label ?? row.gruppo_id ?? "").trim() || "-",
+    quota_totale: row.quota_totale === null ? null : Number(row.quota_totale),
+    fee_paid: row.fee_paid === null ? null : Number(row.fee_paid),
+  }));
+}
+
+export async function loadHufToEurRate(service: SupabaseClient): Promise<number> {
+  const { data, error } = await service
+    .from("event_finance_settings")
+    .select("huf_to_eur_rate")
+    .eq("id", true)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(error.message);
+  }
+
+  const rate = Number((data as { huf_to_eur_rate: number | string } | null)?.huf_to_eur_rate);
+  return Number.isFinite(rate) && rate > 0 ? rate : 0.0025;
+}
+
+// Claims the line first so two reviewers cannot book the same transfer twice.
+export async function confirmBankStatementLine(
+  service: SupabaseClient,
+  actorId: string,
+  line: BankStatementLineRow,
+  allocations: MatchAllocation[],
+  postToFinance: boolean
+): Promise<void> {
+  const { data: claimed, error: claimError } = await service
+    .from("bank_statement_lines")
+    .update({ status: "matched", matched_at: new Date().toISOString(), matched_by: actorId })
+    .eq("id", line.id)
+    .eq("status", "pending")
+    .select("id")
+    .maybeSingle();
+
+  if (claimError) {
+    throw new Error(claimError.message);
+  }
+  if (!claimed) {
+    throw new Error("Line is no longer pending");
+  }
+
+  try {
+    await recordParticipantPayments(service, actorId, {
+      entries: allocations,
+      entryType: "payment",
+      currency: line.currency,
+      paymentMethod: "bank transfer",
+      paymentDate: line.booking_date,
+      payerName: line.counterparty,
+      payerParticipantId: null,
+      reference: line.reference,
+      notes: `Bank statement line ${line.line_number}`,
+      bankStatementLineId: line.id,
+      finance: postToFinance
+        ? {
+            description: `Participation fee payment - ${line.counterparty ?? "bank transfer"}`,
+            party: line.counterparty,
+          }
+        : null,
+    });
+  } catch (error) {
+    await service
+      .from("bank_statement_lines")
+      .update({ status: "pending", matched_at: null, matched_by: null })
+      .eq("id", line.id);
+    throw error;
+  }
+}
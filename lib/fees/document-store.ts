@@ -0,0 +1,264 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import {
+  feeDocumentFingerprint,
+  type FeeDocumentPayment,
+  type FeeDocumentSnapshot,
+  type FeeDocumentType,
+  type OrganizationDetails,
+} from "@/lib/fees/documents";
+
+type ParticipantRow = {
+  id: string;
+  nome: string | null;
+  cognome: string | null;
+  email: string | null;
+  gruppo_id: string | null;
+  gruppo_label: string | null;
+  quota_totale: number | string | null;
+  fee_paid: number | string | null;
+};
+
+type PaymentRow = {
+  participant_id: string;
+  entry_type: "payment" | "refund";
+  amount: number | string;
+  currency: string;
+  amount_eur: number | string;
+  payment_date: string;
+  payment_method: string;
+};
+
+const PARTICIPANT_FIELDS = "id,nome,cognome,email,gruppo_id,gruppo_label,quota_totale,fee_paid";
+
+const DEFAULT_ORGANIZATION: OrganizationDetails = {
+  name: "Global Friendship",
+  legal_name: null,
+  address: null,
+  tax_id: null,
+  email: null,
+  phone: null,
+  website: null,
+  bank_details: null,
+  receipt_prefix: "R",
+  invoice_prefix: "INV",
+  visa_letter_prefix: "VL",
+  signatory_name: null,
+  signatory_role: null,
+  document_footer: null,
+};
+
+export type FeeDocumentResult = FeeDocumentSnapshot | { error: string; status: number };
+
+function money(value: number | string | null): number {
+  const numeric = Number(value ?? 0);
+  return Number.isFinite(numeric) ? Number(numeric.toFixed(2)) : 0;
+}
+
+function fullName(row: { nome: string | null; cognome: string | null }): string {
+  return [row.nome, row.cognome].filter(Boolean).join(" ").trim() || "Participant";
+}
+
+function groupLabel(row: ParticipantRow): string | null {
+  return (row.gruppo_label ?? row.gruppo_id ?? "").trim() || null;
+}
+
+export async function loadOrganizationSettings(
+  service: SupabaseClient
+): Promise<OrganizationDetails> {
+  const { data, error } = await service
+    .from("organization_settings")
+    .select("*")
+    .eq("id", true)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(error.message);
+  }
+
+  return { ...DEFAULT_ORGANIZATION, ...((data ?? {}) as Partial<OrganizationDetails>) };
+}
+
+async function loadPayments(service: SupabaseClient, participantIds: string[]) {
+  const { data, error } = await service
+    .from("participant_payments")
+    .select("participant_id,entry_type,amount,currency,amount_eur,payment_date,payment_method")
+    .in("participant_id", participantIds)
+    .order("payment_date", { ascending: true })
+    .order("created_at", { ascending: true });
+
+  if (error) {
+    throw new Error(error.message);
+  }
+
+  return ((data ?? []) as PaymentRow[]).map<FeeDocumentPayment>((row) => ({
+    date: row.payment_date,
+    entryType: row.entry_type,
+    method: row.payment_method,
+    amount: money(row.amount),
+    currency: row.currency,
+    amountEur: money(row.amount_eur),
+  }));
+}
+
+export async function loadGroupParticipants(
+  service: SupabaseClient,
+  groupKey: string
+): Promise<ParticipantRow[]> {
+  const [byGroupId, byGroupLabel] = await Promise.all([
+    service.from("partecipanti").select(PARTICIPANT_FIELDS).eq("gruppo_id", groupKey),
+    service.from("partecipanti").select(PARTICIPANT_FIELDS).eq("gruppo_label", groupKey),
+  ]);
+
+  if (byGroupId.error) throw new Error(byGroupId.error.message);
+  if (byGroupLabel.error) throw new Error(byGroupLabel.error.message);
+
+  const merged = new Map<string, ParticipantRow>();
+  for (const row of [...(byGroupId.data ?? []), ...(byGroupLabel.data ?? [])] as ParticipantRow[]) {
+    merged.set(row.id, row);
+  }
+
+  return [...merged.values()].sort((a, b) => fullName(a).localeCompare(fullName(b)));
+}
+
+// Reuses the document already issued for the same subject and content, so downloading
+// twice does not burn a new number; any change issues the next number.
+async function issueDocument(
+  service: SupabaseClient,
+  actorId: string | null,
+  type: Exclude<FeeDocumentType, "statement">,
+  subjectKey: string,
+  participantId: string | null,
+  content: Pick<FeeDocumentSnapshot, "recipient" | "lines" | "payments" | "totalAmount" | "paidAmount">
+): Promise<FeeDocumentSnapshot> {
+  const organization = await loadOrganizationSettings(service);
+  const issuedOn = new Date().toISOString().slice(0, 10);
+  const year = Number(issuedOn.slice(0, 4));
+  const unnumbered: Omit<FeeDocumentSnapshot, "number"> = {
+    ...content,
+    type,
+    issuedOn,
+    organization,
+  };
+
+  const { data, error } = await service.rpc("issue_fee_document", {
+    p_document_type: type,
+    p_subject_key: subjectKey,
+    p_participant_id: participantId,
+    p_fingerprint: feeDocumentFingerprint(content),
+    p_prefix: type === "invoice" ? organization.invoice_prefix : organization.receipt_prefix,
+    p_year: year,
+    p_snapshot: unnumbered,
+    p_issued_by: actorId,
+  });
+
+  if (error) {
+    throw new Error(error.message);
+  }
+
+  return data as FeeDocumentSnapshot;
+}
+
+async function loadParticipant(
+  service: SupabaseClient,
+  participantId: string
+): Promise<ParticipantRow | null> {
+  const { data, error } = await service
+    .from("partecipanti")
+    .select(PARTICIPANT_FIELDS)
+    .eq("id", participantId)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(error.message);
+  }
+  return (data as ParticipantRow | null) ?? null;
+}
+
+function participantFeeContent(participant: ParticipantRow, payments: FeeDocumentPayment[]) {
+  const paidAmount = money(participant.fee_paid);
+  return {
+    recipient: {
+      name: fullName(participant),
+      group: groupLabel(participant),
+      email: participant.email,
+    },
+    lines: [
+      {
+        description: `Participation fee - ${fullName(participant)}`,
+        amount: money(participant.quota_totale),
+        paid: paidAmount,
+      },
+    ],
+    payments,
+    totalAmount: money(participant.quota_totale),
+    paidAmount,
+  };
+}
+
+export async function issueParticipantReceipt(
+  service: SupabaseClient,
+  actorId: string | null,
+  participantId: string
+): Promise<FeeDocumentResult> {
+  const participant = await loadParticipant(service, participantId);
+  if (!participant) {
+    return { error: "Participant not found", status: 404 };
+  }
+
+  const payments = await loadPayments(service, [participant.id]);
+  const content = participantFeeContent(participant, payments);
+
+  if (payments.length === 0 || content.paidAmount <= 0) {
+    return { error: "No payment has been recorded for this participant", status: 400 };
+  }
+
+  return issueDocument(service, actorId, "receipt", participant.id, participant.id, content);
+}
+
+// Current fee, payments and balance of one participant. Not numbered or stored, since
+// it is only a snapshot for the participant's information.
+export async function buildParticipantFeeStatement(
+  service: SupabaseClient,
+  participantId: string,
+  organization?: OrganizationDetails
+): Promise<FeeDocumentResult> {
+  const participant = await loadParticipant(service, participantId);
+  if (!participant) {
+    return { error: "Participant not found", status: 404 };
+  }
+
+  const payments = await loadPayments(service, [participant.id]);
+  return {
+    ...participantFeeContent(participant, payments),
+    type: "statement",
+    number: "",
+    issuedOn: new Date().toISOString().slice(0, 10),
+    organization: organization ?? (await loadOrganizationSettings(service)),
+  };
+}
+
+export async function issueGroupInvoice(
+  service: SupabaseClient,
+  actorId: string | null,
+  groupKey: string,
+  billTo: string | null = null
+): Promise<FeeDocumentResult> {
+  const members = await loadGroupParticipants(service, groupKey);
+  if (members.length === 0) {
+    return { error: "Group not found", status: 404 };
+  }
+
+  const lines = members.map((member) => ({
+    description: `Participation fee - ${fullName(member)}`,
+    amount: money(member.quota_totale),
+    paid: money(member.fee_paid),
+  }));
+
+  return issueDocument(service, actorId, "invoice", groupKey, null, {
+    recipient: { name: billTo ?? `Group ${groupKey}`, group: groupKey, email: null },
+    lines,
+    payments: [],
+    totalAmount: money(lines.reduce((sum, line) => sum + line.amount, 0)),
+    paidAmount: money(lines.reduce((sum, line) => sum + line.paid, 0)),
+  });
+}
@@ -0,0 +1,239 @@
+import {
+  A4,
+  measureText,
+  renderPdf,
+  wrapText,
+  type PdfElement,
+  type PdfPageSpec,
+} from "@/lib/pdf/document";
+
+// Statements are generated on demand (e.g. as campaign attachments) and carry no number.
+export type FeeDocumentType = "receipt" | "invoice" | "statement";
+
+export type OrganizationDetails = {
+  name: string;
+  legal_name: string | null;
+  address: string | null;
+  tax_id: string | null;
+  email: string | null;
+  phone: string | null;
+  website: string | null;
+  bank_details: string | null;
+  receipt_prefix: string;
+  invoice_prefix: string;
+  visa_letter_prefix: string;
+  // Printed under visa invitation letters.
+  signatory_name: string | null;
+  signatory_role: string | null;
+  document_footer: string | null;
+};
+
+export type FeeDocumentLine = {
+  description: string;
+  amount: number;
+  paid: number;
+};
+
+export type FeeDocumentPayment = {
+  date: string;
+  entryType: "payment" | "refund";
+  method: string;
+  amount: number;
+  currency: string;
+  amountEur: number;
+};
+
+// Everything printed on a document, stored with it so re-downloads render identically.
+export type FeeDocumentSnapshot = {
+  type: FeeDocumentType;
+  number: string;
+  issuedOn: string;
+  organization: OrganizationDetails;
+  recipient: { name: string; group: string | null; email: string | null };
+  lines: FeeDocumentLine[];
+  payments: FeeDocumentPayment[];
+  totalAmount: number;
+  paidAmount: number;
+};
+
+const MARGIN = 50;
+const CONTENT_RIGHT = A4.width - MARGIN;
+const BOTTOM_LIMIT = A4.height - 90;
+const MUTED: [number, number, number] = [0.4, 0.45, 0.5];
+const RULE: [number, number, number] = [0.8, 0.82, 0.85];
+
+const DOCUMENT_LABELS: Record<FeeDocumentType, { title: string; party: string }> = {
+  receipt: { title: "Receipt", party: "Received from" },
+  invoice: { title: "Invoice", party: "Bill to" },
+  statement: { title: "Fee statement", party: "Prepared for" },
+};
+
+function formatEur(value: number) {
+  return `EUR ${value.toFixed(2)}`;
+}
+
+// The content that decides whether a new document number is needed.
+export function feeDocumentFingerprint(
+  snapshot: Pick<FeeDocumentSnapshot, "recipient" | "lines" | "payments" | "totalAmount" | "paidAmount">
+): string {
+  return JSON.stringify([
+    snapshot.recipient,
+    snapshot.lines,
+    snapshot.payments,
+    snapshot.totalAmount,
+    snapshot.paidAmount,
+  ]);
+}
+
+export function renderFeeDocumentPdf(snapshot: FeeDocumentSnapshot): Uint8Array {
+  const pages: PdfPageSpec[] = [];
+  let elements: PdfElement[] = [];
+  let y = MARGIN;
+
+  const text = (
+    value: string,
+    x: number,
+    options: Partial<Extract<PdfElement, { kind: "text" }>> = {}
+  ) => elements.push({ kind: "text", x, y, text: value, size: 10, ...options });
+
+  const newPage = () => {
+    pages.push({ elements });
+    elements = [];
+    y = MARGIN;
+  };
+
+  const ensureSpace = (height: number) => {
+    if (y + height > BOTTOM_LIMIT) newPage();
+  };
+
+  const org = snapshot.organization;
+  const labels = DOCUMENT_LABELS[snapshot.type];
+  const showBankDetails = snapshot.type !== "receipt";
+
+  y += 18;
+  text(org.name, MARGIN, { size: 18, font: "bold" });
+  text(labels.title.toUpperCase(), CONTENT_RIGHT, { size: 18, font: "bold", align: "right" });
+  y += 18;
+
+  const orgLines = [
+    org.legal_name,
+    ...(org.address ?? "").split(/\r?\n/),
+    org.tax_id ? `Tax ID: ${org.tax_id}` : null,
+    [org.email, org.phone].filter(Boolean).join(" · ") || null,
+    org.website,
+  ].filter((line): line is string => Boolean(line && line.trim()));
+  const metaLines = [
+    ...(snapshot.number ? [`No. ${snapshot.number}`] : []),
+    `Date: ${snapshot.issuedOn}`,
+  ];
+
+  for (let index = 0; index < Math.max(orgLines.length, metaLines.length); index += 1) {
+    if (orgLines[index]) text(orgLines[index], MARGIN, { size: 9, color: MUTED });
+    if (metaLines[index]) text(metaLines[index], CONTENT_RIGHT, { size: 10, align: "right" });
+    y += 13;
+  }
+
+  y += 20;
+  text(labels.party, MARGIN, { size: 9, color: MUTED });
+  y += 15;
+  text(snapshot.recipient.name, MARGIN, { size: 12, font: "bold" });
+  y += 14;
+  if (snapshot.recipient.group) {
+    text(`Group: ${snapshot.recipient.group}`, MARGIN);
+    y += 13;
+  }
+  if (snapshot.recipient.email) {
+    text(snapshot.recipient.email, MARGIN);
+    y += 13;
+  }
+
+  y += 20;
+  const amountX = CONTENT_RIGHT - 110;
+  const paidX = CONTENT_RIGHT;
+  const drawTableHeader = () => {
+    elements.push({ kind: "rect", x: MARGIN, y: y - 12, width: CONTENT_RIGHT - MARGIN, height: 18, fill: [0.95, 0.96, 0.97] });
+    text("Description", MARGIN + 6, { font: "bold" });
+    text("Fee", amountX, { font: "bold", align: "right" });
+    text("Paid", paidX - 6, { font: "bold", align: "right" });
+    y += 20;
+  };
+  drawTableHeader();
+
+  for (const line of snapshot.lines) {
+    const wrapped = wrapText(line.description, amountX - MARGIN - 80, 10);
+    ensureSpace(wrapped.length * 13 + 6);
+    if (y === MARGIN) drawTableHeader();
+    wrapped.forEach((part, index) => {
+      text(part, MARGIN + 6);
+      if (index === 0) {
+        text(formatEur(line.amount), amountX, { align: "right" });
+        text(formatEur(line.paid), paidX - 6, { align: "right" });
+      }
+      y += 13;
+    });
+    elements.push({ kind: "line", x1: MARGIN, y1: y - 8, x2: CONTENT_RIGHT, y2: y - 8, color: RULE });
+    y += 4;
+  }
+
+  ensureSpace(70);
+  y += 10;
+  const balance = Number((snapshot.totalAmount - snapshot.paidAmount).toFixed(2));
+  const totals: Array<[string, number, boolean]> = [
+    ["Total", snapshot.totalAmount, false],
+    ["Paid", snapshot.paidAmount, false],
+    [balance < 0 ? "Credit" : "Balance due", Math.abs(balance), true],
+  ];
+  for (const [label, value, strong] of totals) {
+    text(label, amountX - 60, { font: strong ? "bold" : "regular" });
+    text(formatEur(value), paidX - 6, { align: "right", font: strong ? "bold" : "regular" });
+    y += 15;
+  }
+
+  if (snapshot.payments.length > 0) {
+    ensureSpace(60);
+    y += 20;
+    text("Payments received", MARGIN, { font: "bold", size: 11 });
+    y += 16;
+    for (const payment of snapshot.payments) {
+      ensureSpace(14);
+      const sign = payment.entryType === "refund" ? "-" : "";
+      const original =
+        payment.currency === "EUR" ? "" : ` (${payment.currency} ${payment.amount.toFixed(2)})`;
+      text(payment.date, MARGIN + 6, { size: 9 });
+      text(payment.entryType === "refund" ? "Refund" : payment.method, MARGIN + 90, { size: 9 });
+      text(`${sign}${formatEur(payment.amountEur)}${original}`, paidX - 6, { size: 9, align: "right" });
+      y += 13;
+    }
+  }
+
+  const footerLines = [
+    ...(showBankDetails && org.bank_details ? [`Bank details: ${org.bank_details}`] : []),
+    ...(org.document_footer ? [org.document_footer] : []),
+  ].flatMap((line) => wrapText(line, CONTENT_RIGHT - MARGIN, 8));
+
+  if (footerLines.length > 0) {
+    ensureSpace(footerLines.length * 11 + 30);
+    y += 30;
+    elements.push({ kind: "line", x1: MARGIN, y1: y - 10, x2: CONTENT_RIGHT, y2: y - 10, color: RULE });
+    for (const line of footerLines) {
+      text(line, MARGIN, { size: 8, color: MUTED });
+      y += 11;
+    }
+  }
+
+  pages.push({ elements });
+
+  pages.forEach((page, index) => {
+    const label = `${snapshot.number || labels.title} · ${index + 1}/${pages.length}`;
+    page.elements.push({
+      kind: "text",
+      x: CONTENT_RIGHT - measureText(label, 8),
+      y: A4.height - 30,
+      text: label,
+      size: 8,
+      color: MUTED,
+    });
+  });
+
+  return renderPdf(pages, { title: `${labels.title} ${snapshot.number}`.trim() });
+}
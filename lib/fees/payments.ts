@@ -0,0 +1,140 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+
+export type PaymentCurrency = "EUR" | "HUF";
+export type PaymentMethod = "bank transfer" | "card" | "cash" | "other";
+export type PaymentEntryType = "payment" | "refund";
+
+export type RecordParticipantPaymentsInput = {
+  entries: Array<{ participant_id: string; amount: number }>;
+  entryType: PaymentEntryType;
+  currency: PaymentCurrency;
+  paymentMethod: PaymentMethod;
+  paymentDate: string;
+  payerName: string | null;
+  payerParticipantId: string | null;
+  reference: string | null;
+  notes: string | null;
+  bankStatementLineId?: string | null;
+  // When set, the total is mirrored into event finance and linked to every entry.
+  finance: { description: string; party: string | null } | null;
+};
+
+function financeTotal(entries: Array<{ amount: number }>): number {
+  return Number(entries.reduce((sum, entry) => sum + Number(entry.amount), 0).toFixed(2));
+}
+
+// Payments are posted as INCOME, refunds as EXPENSE.
+async function postFinanceTransaction(
+  service: SupabaseClient,
+  actorId: string,
+  input: RecordParticipantPaymentsInput
+) {
+  const total = financeTotal(input.entries);
+  const { data, error } = await service
+    .from("event_finance_transactions")
+    .insert({
+      transaction_type: input.entryType === "refund" ? "EXPENSE" : "INCOME",
+      transaction_date: input.paymentDate,
+      description: input.finance?.description ?? "Participation fee payment",
+      party: input.finance?.party ?? null,
+      amount_original: total,
+      currency: input.currency,
+      payment_method: input.paymentMethod,
+      notes: input.reference,
+      created_by: actorId,
+      updated_by: actorId,
+    })
+    .select("id")
+    .single();
+
+  if (error) {
+    throw new Error(error.message);
+  }
+
+  return (data as { id: string }).id;
+}
+
+export async function recordParticipantPayments(
+  service: SupabaseClient,
+  actorId: string,
+  input: RecordParticipantPaymentsInput
+): Promise<void> {
+  const financeTransactionId = input.finance
+    ? await postFinanceTransaction(service, actorId, input)
+    : null;
+
+  const { error } = await service.from("participant_payments").insert(
+    input.entries.map((entry) => ({
+      participant_id: entry.participant_id,
+      entry_type: input.entryType,
+      amount: entry.amount,
+      currency: input.currency,
+      payment_date: input.paymentDate,
+      payment_method: input.paymentMethod,
+      payer_name: input.payerName,
+      payer_participant_id: input.payerParticipantId,
+      reference: input.reference,
+      notes: input.notes,
+      event_finance_transaction_id: financeTransactionId,
+      created_by: actorId,
+      ...(input.bankStatementLineId ? { bank_statement_line_id: input.bankStatementLineId } : {}),
+    }))
+  );
+
+  if (error) {
+    if (financeTransactionId) {
+      await service.from("event_finance_transactions").delete().eq("id", financeTransactionId);
+    }
+    throw new Error(error.message);
+  }
+}
+
+// fee_paid follows by itself: the ledger triggers recompute it on every write. The
+// linked finance transaction is kept equal to the entries still pointing at it.
+export async function deleteParticipantPayment(
+  service: SupabaseClient,
+  actorId: string,
+  paymentId: string
+): Promise<{ participant_id: string } | null> {
+  const { data: deleted, error: deleteError } = await service
+    .from("participant_payments")
+    .delete()
+    .eq("id", paymentId)
+    .select("participant_id,event_finance_transaction_id")
+    .maybeSingle();
+
+  if (deleteError) {
+    throw new Error(deleteError.message);
+  }
+  if (!deleted) return null;
+
+  const payment = deleted as { participant_id: string; event_finance_transaction_id: string | null };
+  if (payment.event_finance_transaction_id) {
+    const { data: siblings, error: siblingsError } = await service
+      .from("participant_payments")
+      .select("amount")
+      .eq("event_finance_transaction_id", payment.event_finance_transaction_id);
+
+    if (siblingsError) {
+      throw new Error(siblingsError.message);
+    }
+
+    const remaining = financeTotal((siblings ?? []) as Array<{ amount: number }>);
+    const { error: financeError } =
+      remaining > 0
+        ? await service
+            .from("event_finance_transactions")
+            .update({ amount_original: remaining, updated_by: actorId })
+            .eq("id", payment.event_finance_transaction_id)
+        : await service
+            .from("event_finance_transactions")
+            .delete()
+            .eq("id", payment.event_finance_transaction_id);
+
+    if (financeError) {
+      throw new Error(financeError.message);
+    }
+  }
+
+  return { participant_id: payment.participant_id };
+}
@@ -0,0 +1,132 @@
+// Mirrors public.evaluate_participation_fee (supabase/participation_fee_rules_migration.sql):
+// keep both evaluators in sync so previews match what the DB trigger stores.
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const DATE_ONLY_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+export type FeeRule = {
+  id: string;
+  label: string;
+  priority: number;
+  amount: number;
+  min_nights: number | null;
+  max_nights: number | null;
+  alloggio_short: string | null;
+  tipo_iscrizione: string | null;
+  min_age: number | null;
+  max_age: number | null;
+  registered_until: string | null;
+  is_active: boolean;
+};
+
+export type FeeRuleInput = {
+  nights: number | null;
+  alloggio_short: string | null;
+  tipo_iscrizione: string | null;
+  eta: number | null;
+  // Date (YYYY-MM-DD) used for early-bird cutoffs.
+  registered_on: string | null;
+};
+
+export type FeeParticipantLike = {
+  data_arrivo: string | null;
+  data_partenza: string | null;
+  alloggio_short: string | null;
+  tipo_iscrizione: string | null;
+  eta: number | null;
+  submitted_at_tally: string | null;
+  created_at: string | null;
+};
+
+export type FeeEvaluation = {
+  amount: number | null;
+  rule: FeeRule | null;
+};
+
+function parseDateOnlyUtc(value: string | null): Date | null {
+  if (!value || !DATE_ONLY_PATTERN.test(value)) return null;
+  const date = new Date(`${value}T00:00:00Z`);
+  return Number.isNaN(date.getTime()) ? null : date;
+}
+
+export function calcFeeNights(arrival: string | null, departure: string | null): number | null {
+  const from = parseDateOnlyUtc(arrival);
+  const to = parseDateOnlyUtc(departure);
+  if (!from || !to) return null;
+  const nights = Math.round((to.getTime() - from.getTime()) / DAY_MS);
+  return nights > 0 ? nights : null;
+}
+
+export function feeRuleInputFromParticipant(participant: FeeParticipantLike): FeeRuleInput {
+  const registeredAt = participant.submitted_at_tally ?? participant.created_at;
+  return {
+    nights: calcFeeNights(participant.data_arrivo, participant.data_partenza),
+    alloggio_short: participant.alloggio_short,
+    tipo_iscrizione: participant.tipo_iscrizione,
+    eta: participant.eta,
+    registered_on: registeredAt ? new Date(registeredAt).toISOString().slice(0, 10) : null,
+  };
+}
+
+function normalizeKey(value: string | null): string {
+  return (value ?? "").trim().toLowerCase();
+}
+
+// alloggio_short holds the short option ("Atonoumous"), its corrected spelling or the
+// bilingual long option; rules and participants are compared on one key per choice.
+function accommodationKey(value: string | null): string {
+  const key = normalizeKey(value);
+  if (/atonoumous|autonomous|alloggio autonomamente|arranged my own accommodation/.test(key)) {
+    return "atonoumous";
+  }
+  if (/provided by (the )?organization|struttura fornita dall['’]organizzazione/.test(key)) {
+    return "provided by organization";
+  }
+  return key;
+}
+
+export function feeRuleMatches(rule: FeeRule, input: FeeRuleInput): boolean {
+  if (!rule.is_active) return false;
+
+  if (rule.min_nights !== null && (input.nights === null || input.nights < rule.min_nights)) {
+    return false;
+  }
+  if (rule.max_nights !== null && (input.nights === null || input.nights > rule.max_nights)) {
+    return false;
+  }
+  if (
+    rule.alloggio_short !== null &&
+    accommodationKey(rule.alloggio_short) !== accommodationKey(input.alloggio_short)
+  ) {
+    return false;
+  }
+  if (
+    rule.tipo_iscrizione !== null &&
+    !(input.tipo_iscrizione ?? "").toLowerCase().includes(normalizeKey(rule.tipo_iscrizione))
+  ) {
+    return false;
+  }
+  if (rule.min_age !== null && (input.eta === null || input.eta < rule.min_age)) {
+    return false;
+  }
+  if (rule.max_age !== null && (input.eta === null || input.eta > rule.max_age)) {
+    return false;
+  }
+  if (
+    rule.registered_until !== null &&
+    (input.registered_on === null || input.registered_on > rule.registered_until)
+  ) {
+    return false;
+  }
+
+  return true;
+}
+
+export function evaluateParticipationFee(rules: FeeRule[], input: FeeRuleInput): FeeEvaluation {
+  const rule =
+    [...rules]
+      .sort((a, b) => a.priority - b.priority)
+      .find((candidate) => feeRuleMatches(candidate, input)) ?? null;
+
+  return { amount: rule ? Number(rule.amount) : null, rule };
+}
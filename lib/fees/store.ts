@@ -0,0 +1,29 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { createSupabaseServiceClient } from "@/lib/supabase/service";
+import type { FeeRule } from "@/lib/fees/rules";
+
+type FeeRuleRow = Omit<FeeRule, "amount"> & {
+  amount: number | string;
+  created_at: string;
+  updated_at: string;
+};
+
+export type StoredFeeRule = FeeRule & {
+  created_at: string;
+  updated_at: string;
+};
+
+export async function loadParticipationFeeRules(
+  service: SupabaseClient = createSupabaseServiceClient()
+): Promise<StoredFeeRule[]> {
+  const { data, error } = await service
+    .from("participation_fee_rules")
+    .select("*")
+    .order("priority", { ascending: true });
+
+  if (error) {
+    throw new Error(error.message);
+  }
+
+  return ((data ?? []) as FeeRuleRow[]).map((row) => ({ ...row, amount: Number(row.amount) }));
+}
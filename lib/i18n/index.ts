@@ -46,6 +46,16 @@ export function resolveLocale(input: string | null | undefined): Locale {
   return normalizeLocale(input) ?? DEFAULT_LOCALE;
 }
 
+export function isSupportedLocale(value: unknown): value is Locale {
+  return typeof value === "string" && SUPPORTED_SET.has(value);
+}
+
+// Preferred language stored on a participant or profile; anything unknown counts as unset.
+export function parseStoredLocale(value: unknown): Locale | null {
+  const trimmed = typeof value === "string" ? value.trim() : "";
+  return isSupportedLocale(trimmed) ? trimmed : null;
+}
+
 export function detectBrowserLocale(): Locale {
   if (typeof navigator === "undefined") return DEFAULT_LOCALE;
   const preferred = [navigator.language, ...(navigator.languages ?? [])];
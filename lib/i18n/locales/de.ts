@@ -30,6 +30,8 @@ const de: TranslationDictionary = {
   "auth.login.email": "E-Mail",
   "auth.login.emailPlaceholder": "name@email.com",
   "auth.login.submitting": "Senden...",
+  "auth.login.notRegistered": "Noch nicht angemeldet?",
+  "auth.login.registerLink": "Jetzt anmelden",
   "auth.login.submit": "Magic Link senden",
   "auth.login.sent": "Prüfe deine E-Mails auf den Magic Link.",
   "auth.login.error": "Fehler beim Senden des Magic Links.",
@@ -40,7 +42,16 @@ const de: TranslationDictionary = {
   "dashboard.manager.tab.statistics": "Statistiken",
   "dashboard.manager.tab.participants": "Teilnehmende",
   "dashboard.manager.tab.fees": "Teilnahmegebühren",
+  "dashboard.manager.tab.feeRules": "Gebührenregeln",
+  "dashboard.manager.tab.capacity": "Kapazität",
+  "dashboard.manager.tab.bankImport": "Bankimport",
   "dashboard.manager.tab.finance": "Event-Finanzen",
+  "dashboard.manager.tab.visaLetters": "Visumschreiben",
+  "dashboard.manager.tab.badges": "Badges",
+  "dashboard.manager.tab.checkIn": "Check-in",
+  "dashboard.manager.tab.catering": "Verpflegung",
+  "dashboard.manager.tab.accessibility": "Barrierefreiheit",
+  "dashboard.manager.tab.transport": "Transport",
   "dashboard.manager.tab.email": "E-Mail-Kampagnen",
   "dashboard.admin.tab.participants": "Teilnehmende",
   "dashboard.admin.tab.usersProfiles": "Benutzer und Profile",
@@ -50,6 +61,57 @@ const de: TranslationDictionary = {
   "dashboard.groupLeader.groupSummary": "Zugeordnete Gruppen",
   "dashboard.participant.title": "Teilnehmerprofil",
   "participant.contact.title": "Organisatoren kontaktieren",
+  "participant.badge.title": "Badge",
+  "participant.badge.description": "Zeige diesen QR-Code beim Check-in der Veranstaltung, auf dem Handy oder auf deinem gedruckten Badge.",
+  "participant.badge.selectProfile": "Wähle oben dein Teilnehmerprofil aus, um dein Badge zu sehen.",
+  "participant.badge.loadError": "Dein Badge konnte nicht geladen werden.",
+  "participant.badge.unavailable": "Dein Badge ist verfügbar, sobald deine Anmeldung bestätigt ist.",
+  "participant.badge.qrLabel": "QR-Code für den Check-in",
+  "participant.badge.download": "Badge herunterladen (PDF)",
+  "participant.travel.title": "Reisedaten",
+  "participant.travel.description": "Teile uns mit, wie du an- und abreist, damit wir Shuttles vom Flughafen oder Bahnhof organisieren können.",
+  "participant.travel.selectProfile": "Wähle oben dein Teilnehmerprofil aus, um deine Reisedaten einzugeben.",
+  "participant.travel.loadError": "Deine Reisedaten konnten nicht geladen werden.",
+  "participant.travel.saveError": "Deine Reisedaten konnten nicht gespeichert werden.",
+  "participant.travel.saved": "Reisedaten gespeichert.",
+  "participant.travel.arrival": "Anreise",
+  "participant.travel.departure": "Abreise",
+  "participant.travel.dateMissing": "Datum in deiner Anmeldung nicht angegeben",
+  "participant.travel.notEntered": "Nicht angegeben",
+  "participant.travel.mode": "Verkehrsmittel",
+  "participant.travel.mode.plane": "Flugzeug",
+  "participant.travel.mode.train": "Zug",
+  "participant.travel.mode.bus": "Bus",
+  "participant.travel.mode.car": "Auto",
+  "participant.travel.mode.other": "Sonstiges",
+  "participant.travel.reference": "Flug- / Zugnummer",
+  "participant.travel.referencePlaceholder": "z. B. AZ 1234",
+  "participant.travel.time.arrival": "Ankunftszeit",
+  "participant.travel.time.departure": "Abfahrtszeit",
+  "participant.travel.location": "Flughafen / Bahnhof",
+  "participant.travel.locationPlaceholder": "z. B. Rom Fiumicino",
+  "participant.travel.notes": "Anmerkungen",
+  "participant.travel.remove": "Entfernen",
+  "participant.travel.shuttle.arrival": "Shuttle ab {location} um {time}",
+  "participant.travel.shuttle.departure": "Shuttle nach {location} fährt um {time}",
+  "participant.visaLetter.title": "Einladungsschreiben für das Visum",
+  "participant.visaLetter.description": "Wenn du für die Reise nach Italien ein Visum brauchst, beantrage ein offizielles Einladungsschreiben. Die Organisatoren prüfen deinen Antrag und senden dir das unterschriebene Schreiben per E-Mail.",
+  "participant.visaLetter.selectProfile": "Wähle oben dein Teilnehmerprofil aus, um ein Einladungsschreiben zu beantragen.",
+  "participant.visaLetter.loadError": "Dein Antrag auf ein Einladungsschreiben konnte nicht geladen werden.",
+  "participant.visaLetter.submitError": "Dein Antrag konnte nicht gesendet werden.",
+  "participant.visaLetter.status.pending": "Dein Antrag wartet auf Genehmigung.",
+  "participant.visaLetter.status.approved": "Dein Einladungsschreiben wurde ausgestellt.",
+  "participant.visaLetter.status.rejected": "Dein Antrag wurde nicht genehmigt.",
+  "participant.visaLetter.requestedOn": "Beantragt am {date}",
+  "participant.visaLetter.emailed": "Wir haben dir das Schreiben per E-Mail gesendet.",
+  "participant.visaLetter.download": "Schreiben {number} herunterladen",
+  "participant.visaLetter.request": "Einladungsschreiben beantragen",
+  "participant.visaLetter.requestAgain": "Neues Schreiben beantragen",
+  "participant.visaLetter.passportNumber": "Reisepassnummer",
+  "participant.visaLetter.passportExpiry": "Ablaufdatum des Reisepasses",
+  "participant.visaLetter.consulate": "Konsulat oder Botschaft",
+  "participant.visaLetter.consulatePlaceholder": "z. B. Italienische Botschaft in Nairobi",
+  "participant.visaLetter.submit": "Antrag senden",
   "participant.form.name": "Vorname",
   "participant.form.surname": "Nachname",
   "participant.form.nationality": "Nationalität",
@@ -97,6 +159,8 @@ const de: TranslationDictionary = {
   "participants.table.filter.min": "Min",
   "participants.table.filter.max": "Max",
   "participants.table.noResults": "Keine Teilnehmer mit den aktuellen Filtern gefunden.",
+  "participants.table.emailBounced": "E-Mail unzustellbar",
+  "participants.table.modal.emailBounced": "E-Mails an diese Adresse sind unzustellbar ({reason}). Korrigiere die Adresse, um den Versand fortzusetzen.",
   "participants.table.modal.editTitle": "Teilnehmer bearbeiten",
   "participants.table.modal.close": "Schließen",
   "participants.table.modal.accessibility": "Behinderung / Barrierefreiheit",
@@ -134,12 +198,64 @@ const de: TranslationDictionary = {
   "manager.presence.filter.autonomous": "Autonom",
   "manager.presence.date": "Datum",
   "manager.presence.present": "Anwesend",
+  "manager.presence.checkedIn": "Eingecheckt",
+  "manager.presence.notCheckedIn": "Nicht eingecheckt",
   "manager.presence.empty": "Keine Anwesenheitsdaten für den ausgewählten Filter verfügbar.",
   "enrollment.bucket.higherStudents": "Höhere Schüler",
   "enrollment.bucket.universityWorker": "Universität-Arbeiter",
   "enrollment.bucket.operator": "Operator",
   "finance.title": "Event-Finanzen",
   "fees.title": "Teilnahmegebühren",
+  "email.footer.preferences": "E-Mail-Einstellungen verwalten oder abbestellen",
+  "email.visaLetter.subject": "Dein Einladungsschreiben für das Visum {number}",
+  "email.visaLetter.text": "Hallo {name},\n\nim Anhang findest du dein unterschriebenes Einladungsschreiben {number} für den Visumantrag. Bitte drucke es aus und bring es zu deinem Termin beim Konsulat mit.\n\nDein Global Friendship Team",
+  "register.title": "Anmeldung zu Global Friendship",
+  "register.description": "Füllen Sie die folgenden Schritte aus, um sich anzumelden. Vor dem Absenden können Sie zu jedem Schritt zurückkehren.",
+  "register.step.personal": "Über dich",
+  "register.step.group": "Herkunft und Gruppe",
+  "register.step.stay": "Aufenthalt",
+  "register.step.needs": "Bedürfnisse",
+  "register.step.review": "Überprüfung",
+  "register.field.email": "E-Mail",
+  "register.field.phone": "Telefon",
+  "register.field.sex": "Geschlecht",
+  "register.field.countryOfResidence": "Wohnsitzland",
+  "register.field.city": "Stadt",
+  "register.field.romeGroup": "Gruppe in Rom",
+  "register.field.groupLeader": "Wer ist deine Gruppenleitung?",
+  "register.field.registrationType": "Art der Anmeldung",
+  "register.field.wholeEvent": "Ich nehme an der gesamten Veranstaltung teil",
+  "register.field.notes": "Anmerkungen",
+  "register.field.privacy": "Ich habe die Datenschutzerklärung gelesen und stimme der Verarbeitung meiner personenbezogenen Daten für die Organisation der Veranstaltung zu.",
+  "register.review.hint": "Überprüfe deine Angaben, bevor du die Anmeldung absendest.",
+  "register.back": "Zurück",
+  "register.next": "Weiter",
+  "register.submit": "Anmeldung absenden",
+  "register.submitting": "Wird gesendet...",
+  "register.success.title": "Anmeldung erhalten.",
+  "register.success.body": "Danke! Deine Gruppenleitung wurde benachrichtigt. Du kannst dich mit deiner E-Mail anmelden, um deine Daten zu prüfen.",
+  "register.success.duplicate": "Diese Anmeldung war bereits eingegangen; es wurde nichts geändert.",
+  "register.success.waitlisted": "Die Veranstaltung ist derzeit ausgebucht, daher stehst du auf der Warteliste (Nummer {position}). Wir schreiben dir, sobald ein Platz frei wird.",
+  "register.loginLink": "Zur Anmeldung",
+  "register.error.required": "Dieses Feld ist erforderlich.",
+  "register.error.email": "Gib eine gültige E-Mail-Adresse ein.",
+  "register.error.date": "Gib ein gültiges Datum ein.",
+  "register.error.departureBeforeArrival": "Das Abreisedatum darf nicht vor dem Anreisedatum liegen.",
+  "register.error.option": "Wähle eine der verfügbaren Optionen.",
+  "register.error.privacy": "Du musst die Datenschutzerklärung akzeptieren, um dich anzumelden.",
+  "register.error.generic": "Die Anmeldung konnte nicht gesendet werden. Prüfe deine Angaben und versuche es erneut.",
+  "emailPreferences.title": "E-Mail-Einstellungen",
+  "emailPreferences.description": "Wähle, welche E-Mails Global Friendship an {email} sendet.",
+  "emailPreferences.operational": "Informationen zur Anmeldung und zur Veranstaltung",
+  "emailPreferences.operationalHint": "Sie sind für die Organisation deiner Teilnahme nötig und werden daher immer gesendet.",
+  "emailPreferences.newsletter": "Neuigkeiten und Ankündigungen",
+  "emailPreferences.newsletterHint": "Newsletter und andere nicht notwendige Mailings.",
+  "emailPreferences.save": "Einstellungen speichern",
+  "emailPreferences.saving": "Wird gespeichert...",
+  "emailPreferences.saved": "Deine Einstellungen wurden gespeichert.",
+  "emailPreferences.unsubscribed": "Du hast Neuigkeiten und Ankündigungen abbestellt.",
+  "emailPreferences.error": "Deine Einstellungen konnten nicht gespeichert werden. Versuche es später erneut.",
+  "emailPreferences.invalidLink": "Dieser Link ist ungültig. Öffne den Link in der neuesten E-Mail, die du von uns erhalten hast.",
 };
 
 export default de;
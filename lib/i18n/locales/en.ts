@@ -42,6 +42,8 @@ const en: TranslationDictionary = {
   "auth.login.email": "Email",
   "auth.login.emailPlaceholder": "name@email.com",
   "auth.login.submitting": "Sending...",
+  "auth.login.notRegistered": "Not registered yet?",
+  "auth.login.registerLink": "Register now",
   "auth.login.submit": "Send magic link",
   "auth.login.sent": "Check your email for the magic link.",
   "auth.login.error": "Error while sending the magic link.",
@@ -56,7 +58,16 @@ const en: TranslationDictionary = {
   "dashboard.manager.tab.statistics": "Statistics",
   "dashboard.manager.tab.participants": "Participants",
   "dashboard.manager.tab.fees": "Participation Fees",
+  "dashboard.manager.tab.feeRules": "Fee Rules",
+  "dashboard.manager.tab.capacity": "Capacity",
+  "dashboard.manager.tab.bankImport": "Bank Import",
   "dashboard.manager.tab.finance": "Event Finance",
+  "dashboard.manager.tab.visaLetters": "Visa letters",
+  "dashboard.manager.tab.badges": "Badges",
+  "dashboard.manager.tab.checkIn": "Check-in",
+  "dashboard.manager.tab.catering": "Catering",
+  "dashboard.manager.tab.accessibility": "Accessibility",
+  "dashboard.manager.tab.transport": "Transport",
   "dashboard.manager.tab.email": "Email Campaigns",
 
   "dashboard.admin.sections": "Sections",
@@ -66,7 +77,7 @@ const en: TranslationDictionary = {
   "dashboard.admin.tab.email": "Email Campaigns",
 
   "dashboard.accommodation.title": "Accommodation Dashboard",
-  "dashboard.accommodation.subtitle": "Accommodation team area is active.",
+  "dashboard.accommodation.subtitle": "Manage structures, rooms and beds, and assign guests night by night.",
 
   "dashboard.groupLeader.title": "Group Leader Dashboard",
   "dashboard.groupLeader.subtitle": "View and edit participants from your assigned groups.",
@@ -80,6 +91,57 @@ const en: TranslationDictionary = {
   "participant.contact.placeholder": "Write your message for the organizers...",
   "participant.contact.error": "Unable to send your message.",
   "participant.contact.success": "Your message has been sent to the organizers.",
+  "participant.badge.title": "Badge",
+  "participant.badge.description": "Show this QR code at the event check-in, on your phone or printed on your badge.",
+  "participant.badge.selectProfile": "Select your participant profile above to see your badge.",
+  "participant.badge.loadError": "Unable to load your badge.",
+  "participant.badge.unavailable": "Your badge will be available once your registration is confirmed.",
+  "participant.badge.qrLabel": "Check-in QR code",
+  "participant.badge.download": "Download badge (PDF)",
+  "participant.travel.title": "Travel details",
+  "participant.travel.description": "Tell us how you arrive and leave so we can organise shuttles from the airport or station.",
+  "participant.travel.selectProfile": "Select your participant profile above to enter your travel details.",
+  "participant.travel.loadError": "Unable to load your travel details.",
+  "participant.travel.saveError": "Unable to save your travel details.",
+  "participant.travel.saved": "Travel details saved.",
+  "participant.travel.arrival": "Arrival",
+  "participant.travel.departure": "Departure",
+  "participant.travel.dateMissing": "Date not set in your registration",
+  "participant.travel.notEntered": "Not entered",
+  "participant.travel.mode": "Travelling by",
+  "participant.travel.mode.plane": "Plane",
+  "participant.travel.mode.train": "Train",
+  "participant.travel.mode.bus": "Bus",
+  "participant.travel.mode.car": "Car",
+  "participant.travel.mode.other": "Other",
+  "participant.travel.reference": "Flight / train number",
+  "participant.travel.referencePlaceholder": "e.g. AZ 1234",
+  "participant.travel.time.arrival": "Arrival time",
+  "participant.travel.time.departure": "Departure time",
+  "participant.travel.location": "Airport / station",
+  "participant.travel.locationPlaceholder": "e.g. Roma Fiumicino",
+  "participant.travel.notes": "Notes",
+  "participant.travel.remove": "Remove",
+  "participant.travel.shuttle.arrival": "Shuttle pick-up at {location} at {time}",
+  "participant.travel.shuttle.departure": "Shuttle to {location} leaves at {time}",
+  "participant.visaLetter.title": "Visa invitation letter",
+  "participant.visaLetter.description": "If you need a visa to travel to Italy, request an official invitation letter. The organizers will check your request and email you the signed letter.",
+  "participant.visaLetter.selectProfile": "Select your participant profile above to request a visa letter.",
+  "participant.visaLetter.loadError": "Unable to load your visa letter request.",
+  "participant.visaLetter.submitError": "Unable to send your request.",
+  "participant.visaLetter.status.pending": "Your request is waiting for approval.",
+  "participant.visaLetter.status.approved": "Your invitation letter has been issued.",
+  "participant.visaLetter.status.rejected": "Your request was not approved.",
+  "participant.visaLetter.requestedOn": "Requested on {date}",
+  "participant.visaLetter.emailed": "We have emailed you the letter.",
+  "participant.visaLetter.download": "Download letter {number}",
+  "participant.visaLetter.request": "Request an invitation letter",
+  "participant.visaLetter.requestAgain": "Request a new letter",
+  "participant.visaLetter.passportNumber": "Passport number",
+  "participant.visaLetter.passportExpiry": "Passport expiry date",
+  "participant.visaLetter.consulate": "Consulate or embassy",
+  "participant.visaLetter.consulatePlaceholder": "e.g. Embassy of Italy in Nairobi",
+  "participant.visaLetter.submit": "Send request",
 
   "participant.form.multipleFoundTitle": "Multiple participant registrations found.",
   "participant.form.multipleFoundBody": "Select the participant profile you want to manage with this email.",
@@ -154,6 +216,8 @@ const en: TranslationDictionary = {
   "participants.table.filter.min": "Min",
   "participants.table.filter.max": "Max",
   "participants.table.noResults": "No participants found with the current filters.",
+  "participants.table.emailBounced": "Email bounced",
+  "participants.table.modal.emailBounced": "Emails to this address bounced ({reason}). Correct the address to resume sending.",
   "participants.table.modal.editTitle": "Edit participant",
   "participants.table.modal.close": "Close",
   "participants.table.modal.select": "Select...",
@@ -206,6 +270,8 @@ const en: TranslationDictionary = {
   "manager.presence.filter.autonomous": "Autonomous",
   "manager.presence.date": "Date",
   "manager.presence.present": "Present",
+  "manager.presence.checkedIn": "Checked in",
+  "manager.presence.notCheckedIn": "Not checked in",
   "manager.presence.empty": "No presence data available for the selected filter.",
   "enrollment.bucket.higherStudents": "Higher students",
   "enrollment.bucket.universityWorker": "University-Worker",
@@ -213,10 +279,16 @@ const en: TranslationDictionary = {
 
   "finance.title": "Event Finance",
   "fees.title": "Participation Fees",
+  "feeRules.title": "Fee Rules",
+  "capacity.title": "Capacity and waitlist",
+  "visaLetters.title": "Visa invitation letters",
+  "badges.title": "Badge sheets",
+  "checkIn.title": "Check-in",
+  "catering.title": "Meal planning",
+  "accessibility.title": "Accessibility support",
+  "transport.title": "Transport planning",
+  "bankImport.title": "Bank Statement Import",
   "fees.loadError": "Unable to load participation fees.",
-  "fees.invalidValue": "Fee paid must be a valid number greater than or equal to 0.",
-  "fees.saveError": "Unable to save fee paid value.",
-  "fees.saveSuccess": "Payment value saved.",
   "fees.bulkError": "Unable to mark selected participants as fully paid.",
   "fees.bulkSuccess": "Selected participants marked as fully paid.",
   "fees.groupSummary": "Group Fees Summary",
@@ -234,6 +306,115 @@ const en: TranslationDictionary = {
   "fees.feePaid": "Fee paid",
   "fees.searchNameGroup": "Search name/group",
   "fees.amountPlaceholder": "0.00",
+  "fees.recordPayment": "Record payment",
+  "fees.payments": "Payments",
+  "fees.payments.historyTitle": "Payments - {name}",
+  "fees.payments.recordTitle": "Record payment for {count} participant(s)",
+  "fees.payments.none": "No payments recorded.",
+  "fees.payments.participant": "Participant",
+  "fees.payments.date": "Date",
+  "fees.payments.type": "Type",
+  "fees.payments.typePayment": "Payment",
+  "fees.payments.typeRefund": "Refund",
+  "fees.payments.amount": "Amount",
+  "fees.payments.total": "Total",
+  "fees.payments.method": "Method",
+  "fees.payments.currency": "Currency",
+  "fees.payments.payer": "Payer",
+  "fees.payments.payerParticipant": "Paid by participant",
+  "fees.payments.payerName": "Payer name",
+  "fees.payments.reference": "Reference",
+  "fees.payments.notes": "Notes",
+  "fees.payments.postToFinance": "Also record in Event Finance",
+  "fees.payments.linkedFinance": "In finance",
+  "fees.payments.save": "Save payment",
+  "fees.payments.invalidAmount": "Every amount must be greater than 0.",
+  "fees.payments.loadError": "Unable to load payments.",
+  "fees.payments.saveError": "Unable to save payment.",
+  "fees.payments.saveSuccess": "Payment recorded.",
+  "fees.payments.deleteConfirm": "Delete this ledger entry?",
+  "fees.payments.deleteError": "Unable to delete payment.",
+  "fees.payments.deleteSuccess": "Payment deleted.",
+  "fees.documents.title": "Receipts and invoices",
+  "fees.documents.hint": "Download a group invoice or a receipt for each participant who has paid.",
+  "fees.documents.receipt": "Receipt",
+  "travel.group.title": "Travel details",
+  "travel.group.hint": "Arrival and departure details of your group members, used to plan the shuttles.",
+  "travel.group.loadError": "Unable to load travel details.",
+  "travel.group.participant": "Participant",
+  "travel.group.shuttle": "Shuttle {time}",
+  "fees.documents.invoice": "Invoice",
+  "fees.documents.downloading": "Preparing...",
+  "fees.documents.error": "Unable to generate the document.",
+  "fees.documents.settings.title": "Organization details on documents",
+  "fees.documents.settings.hint": "Printed on receipts, invoices and visa invitation letters.",
+  "fees.documents.settings.name": "Organization name",
+  "fees.documents.settings.legalName": "Legal name",
+  "fees.documents.settings.address": "Address",
+  "fees.documents.settings.taxId": "Tax ID / VAT number",
+  "fees.documents.settings.email": "Email",
+  "fees.documents.settings.phone": "Phone",
+  "fees.documents.settings.website": "Website",
+  "fees.documents.settings.bankDetails": "Bank details (shown on invoices)",
+  "fees.documents.settings.receiptPrefix": "Receipt number prefix",
+  "fees.documents.settings.invoicePrefix": "Invoice number prefix",
+  "fees.documents.settings.visaLetterPrefix": "Visa letter number prefix",
+  "fees.documents.settings.signatoryName": "Signatory of visa letters",
+  "fees.documents.settings.signatoryRole": "Signatory role",
+  "fees.documents.settings.footer": "Footer note",
+  "fees.documents.settings.loadError": "Unable to load organization details.",
+  "fees.documents.settings.saveError": "Unable to save organization details.",
+  "fees.documents.settings.saveSuccess": "Organization details saved.",
+  "register.title": "Register for Global Friendship",
+  "register.description": "Fill in the steps below to register. You can go back to any step before sending.",
+  "register.step.personal": "About you",
+  "register.step.group": "Origin and group",
+  "register.step.stay": "Stay",
+  "register.step.needs": "Needs",
+  "register.step.review": "Review",
+  "register.field.email": "Email",
+  "register.field.phone": "Phone",
+  "register.field.sex": "Sex",
+  "register.field.countryOfResidence": "Country of residence",
+  "register.field.city": "City",
+  "register.field.romeGroup": "Group in Rome",
+  "register.field.groupLeader": "Who is your group leader?",
+  "register.field.registrationType": "Registration type",
+  "register.field.wholeEvent": "I will attend the whole event",
+  "register.field.notes": "Notes",
+  "register.field.privacy": "I have read the privacy notice and agree to the processing of my personal data for the organization of the event.",
+  "register.review.hint": "Check your answers before sending the registration.",
+  "register.back": "Back",
+  "register.next": "Next",
+  "register.submit": "Send registration",
+  "register.submitting": "Sending...",
+  "register.success.title": "Registration received.",
+  "register.success.body": "Thank you! Your group leader has been notified. You can sign in with your email to review your data.",
+  "register.success.duplicate": "This registration had already been received; nothing was changed.",
+  "register.success.waitlisted": "The event is currently full, so you have been added to the waitlist (number {position}). We will email you as soon as a place becomes available.",
+  "register.loginLink": "Go to sign in",
+  "register.error.required": "This field is required.",
+  "register.error.email": "Enter a valid email address.",
+  "register.error.date": "Enter a valid date.",
+  "register.error.departureBeforeArrival": "The departure date cannot be before the arrival date.",
+  "register.error.option": "Select one of the available options.",
+  "register.error.privacy": "You must accept the privacy notice to register.",
+  "register.error.generic": "Unable to send the registration. Check your answers and try again.",
+  "emailPreferences.title": "Email preferences",
+  "emailPreferences.description": "Choose which emails Global Friendship sends to {email}.",
+  "emailPreferences.operational": "Registration and event information",
+  "emailPreferences.operationalHint": "Needed to organize your participation, so these are always sent.",
+  "emailPreferences.newsletter": "News and announcements",
+  "emailPreferences.newsletterHint": "Newsletters and other non-essential mailings.",
+  "emailPreferences.save": "Save preferences",
+  "emailPreferences.saving": "Saving...",
+  "emailPreferences.saved": "Your preferences have been saved.",
+  "emailPreferences.unsubscribed": "You have been unsubscribed from news and announcements.",
+  "emailPreferences.error": "Unable to save your preferences. Try again later.",
+  "emailPreferences.invalidLink": "This link is not valid. Open the link in the latest email you received from us.",
+  "email.footer.preferences": "Manage email preferences or unsubscribe",
+  "email.visaLetter.subject": "Your visa invitation letter {number}",
+  "email.visaLetter.text": "Dear {name},\n\nattached is your signed invitation letter {number} for the visa application. Please print it and bring it to your appointment at the consulate.\n\nThe Global Friendship team",
 };
 
 export default en;
@@ -30,6 +30,8 @@ const es: TranslationDictionary = {
   "auth.login.email": "Correo electrónico",
   "auth.login.emailPlaceholder": "nombre@email.com",
   "auth.login.submitting": "Enviando...",
+  "auth.login.notRegistered": "¿Todavía no estás inscrito?",
+  "auth.login.registerLink": "Inscríbete ahora",
   "auth.login.submit": "Enviar enlace mágico",
   "auth.login.sent": "Revisa tu correo para el enlace mágico.",
   "auth.login.error": "Error al enviar el enlace mágico.",
@@ -40,7 +42,16 @@ const es: TranslationDictionary = {
   "dashboard.manager.tab.statistics": "Estadísticas",
   "dashboard.manager.tab.participants": "Participantes",
   "dashboard.manager.tab.fees": "Cuotas de participación",
+  "dashboard.manager.tab.feeRules": "Reglas de cuotas",
+  "dashboard.manager.tab.capacity": "Capacidad",
+  "dashboard.manager.tab.bankImport": "Importación bancaria",
   "dashboard.manager.tab.finance": "Finanzas del evento",
+  "dashboard.manager.tab.visaLetters": "Cartas para el visado",
+  "dashboard.manager.tab.badges": "Credenciales",
+  "dashboard.manager.tab.checkIn": "Acreditación",
+  "dashboard.manager.tab.catering": "Comidas",
+  "dashboard.manager.tab.accessibility": "Accesibilidad",
+  "dashboard.manager.tab.transport": "Transporte",
   "dashboard.manager.tab.email": "Campañas de correo",
   "dashboard.admin.tab.participants": "Participantes",
   "dashboard.admin.tab.usersProfiles": "Usuarios y Perfiles",
@@ -50,6 +61,57 @@ const es: TranslationDictionary = {
   "dashboard.groupLeader.groupSummary": "Grupos asociados",
   "dashboard.participant.title": "Perfil del Participante",
   "participant.contact.title": "Contactar organizadores",
+  "participant.badge.title": "Credencial",
+  "participant.badge.description": "Muestra este código QR en la acreditación del evento, en tu móvil o impreso en tu credencial.",
+  "participant.badge.selectProfile": "Selecciona tu perfil de participante arriba para ver tu credencial.",
+  "participant.badge.loadError": "No se pudo cargar tu credencial.",
+  "participant.badge.unavailable": "Tu credencial estará disponible cuando se confirme tu inscripción.",
+  "participant.badge.qrLabel": "Código QR de acreditación",
+  "participant.badge.download": "Descargar credencial (PDF)",
+  "participant.travel.title": "Datos de viaje",
+  "participant.travel.description": "Indícanos cómo llegas y cómo te vas para que podamos organizar lanzaderas desde el aeropuerto o la estación.",
+  "participant.travel.selectProfile": "Selecciona tu perfil de participante arriba para introducir tus datos de viaje.",
+  "participant.travel.loadError": "No se pudieron cargar tus datos de viaje.",
+  "participant.travel.saveError": "No se pudieron guardar tus datos de viaje.",
+  "participant.travel.saved": "Datos de viaje guardados.",
+  "participant.travel.arrival": "Llegada",
+  "participant.travel.departure": "Salida",
+  "participant.travel.dateMissing": "Fecha no indicada en tu inscripción",
+  "participant.travel.notEntered": "Sin indicar",
+  "participant.travel.mode": "Medio de transporte",
+  "participant.travel.mode.plane": "Avión",
+  "participant.travel.mode.train": "Tren",
+  "participant.travel.mode.bus": "Autobús",
+  "participant.travel.mode.car": "Coche",
+  "participant.travel.mode.other": "Otro",
+  "participant.travel.reference": "Número de vuelo / tren",
+  "participant.travel.referencePlaceholder": "p. ej. AZ 1234",
+  "participant.travel.time.arrival": "Hora de llegada",
+  "participant.travel.time.departure": "Hora de salida",
+  "participant.travel.location": "Aeropuerto / estación",
+  "participant.travel.locationPlaceholder": "p. ej. Roma Fiumicino",
+  "participant.travel.notes": "Notas",
+  "participant.travel.remove": "Eliminar",
+  "participant.travel.shuttle.arrival": "Lanzadera desde {location} a las {time}",
+  "participant.travel.shuttle.departure": "Lanzadera a {location} sale a las {time}",
+  "participant.visaLetter.title": "Carta de invitación para el visado",
+  "participant.visaLetter.description": "Si necesitas un visado para viajar a Italia, solicita una carta de invitación oficial. Los organizadores revisarán tu solicitud y te enviarán la carta firmada por correo electrónico.",
+  "participant.visaLetter.selectProfile": "Selecciona tu perfil de participante arriba para solicitar la carta para el visado.",
+  "participant.visaLetter.loadError": "No se pudo cargar tu solicitud de carta para el visado.",
+  "participant.visaLetter.submitError": "No se pudo enviar tu solicitud.",
+  "participant.visaLetter.status.pending": "Tu solicitud está pendiente de aprobación.",
+  "participant.visaLetter.status.approved": "Tu carta de invitación ha sido emitida.",
+  "participant.visaLetter.status.rejected": "Tu solicitud no ha sido aprobada.",
+  "participant.visaLetter.requestedOn": "Solicitada el {date}",
+  "participant.visaLetter.emailed": "Te hemos enviado la carta por correo electrónico.",
+  "participant.visaLetter.download": "Descargar la carta {number}",
+  "participant.visaLetter.request": "Solicitar una carta de invitación",
+  "participant.visaLetter.requestAgain": "Solicitar una nueva carta",
+  "participant.visaLetter.passportNumber": "Número de pasaporte",
+  "participant.visaLetter.passportExpiry": "Fecha de caducidad del pasaporte",
+  "participant.visaLetter.consulate": "Consulado o embajada",
+  "participant.visaLetter.consulatePlaceholder": "p. ej. Embajada de Italia en Nairobi",
+  "participant.visaLetter.submit": "Enviar solicitud",
   "participant.form.name": "Nombre",
   "participant.form.surname": "Apellido",
   "participant.form.nationality": "Nacionalidad",
@@ -97,6 +159,8 @@ const es: TranslationDictionary = {
   "participants.table.filter.min": "Min",
   "participants.table.filter.max": "Max",
   "participants.table.noResults": "No se encontraron participantes con los filtros actuales.",
+  "participants.table.emailBounced": "Email rebotado",
+  "participants.table.modal.emailBounced": "Los emails a esta dirección rebotan ({reason}). Corrige la dirección para reanudar los envíos.",
   "participants.table.modal.editTitle": "Editar participante",
   "participants.table.modal.close": "Cerrar",
   "participants.table.modal.accessibility": "Discapacidad / accesibilidad",
@@ -134,12 +198,64 @@ const es: TranslationDictionary = {
   "manager.presence.filter.autonomous": "Autónomo",
   "manager.presence.date": "Fecha",
   "manager.presence.present": "Presentes",
+  "manager.presence.checkedIn": "Acreditados",
+  "manager.presence.notCheckedIn": "Sin acreditar",
   "manager.presence.empty": "No hay datos de presencia para el filtro seleccionado.",
   "enrollment.bucket.higherStudents": "Estudiantes superiores",
   "enrollment.bucket.universityWorker": "Universidad-Trabajador",
   "enrollment.bucket.operator": "Operador",
   "finance.title": "Finanzas del evento",
   "fees.title": "Cuotas de participación",
+  "email.footer.preferences": "Gestionar tus preferencias de correo o darte de baja",
+  "email.visaLetter.subject": "Tu carta de invitación para el visado {number}",
+  "email.visaLetter.text": "Hola {name}:\n\nadjuntamos tu carta de invitación firmada {number} para la solicitud del visado. Imprímela y llévala a tu cita en el consulado.\n\nEl equipo de Global Friendship",
+  "register.title": "Inscríbete en Global Friendship",
+  "register.description": "Completa los pasos siguientes para inscribirte. Puedes volver a cualquier paso antes de enviar.",
+  "register.step.personal": "Sobre ti",
+  "register.step.group": "Origen y grupo",
+  "register.step.stay": "Estancia",
+  "register.step.needs": "Necesidades",
+  "register.step.review": "Revisión",
+  "register.field.email": "Correo electrónico",
+  "register.field.phone": "Teléfono",
+  "register.field.sex": "Sexo",
+  "register.field.countryOfResidence": "País de residencia",
+  "register.field.city": "Ciudad",
+  "register.field.romeGroup": "Grupo en Roma",
+  "register.field.groupLeader": "¿Quién es tu responsable de grupo?",
+  "register.field.registrationType": "Tipo de inscripción",
+  "register.field.wholeEvent": "Participaré en todo el evento",
+  "register.field.notes": "Notas",
+  "register.field.privacy": "He leído el aviso de privacidad y acepto el tratamiento de mis datos personales para la organización del evento.",
+  "register.review.hint": "Revisa tus respuestas antes de enviar la inscripción.",
+  "register.back": "Atrás",
+  "register.next": "Siguiente",
+  "register.submit": "Enviar inscripción",
+  "register.submitting": "Enviando...",
+  "register.success.title": "Inscripción recibida.",
+  "register.success.body": "¡Gracias! Tu responsable de grupo ha sido avisado. Puedes iniciar sesión con tu correo para revisar tus datos.",
+  "register.success.duplicate": "Esta inscripción ya se había recibido; no se ha cambiado nada.",
+  "register.success.waitlisted": "El evento está completo por ahora, así que te hemos añadido a la lista de espera (número {position}). Te escribiremos en cuanto haya una plaza libre.",
+  "register.loginLink": "Ir al inicio de sesión",
+  "register.error.required": "Este campo es obligatorio.",
+  "register.error.email": "Introduce una dirección de correo válida.",
+  "register.error.date": "Introduce una fecha válida.",
+  "register.error.departureBeforeArrival": "La fecha de salida no puede ser anterior a la de llegada.",
+  "register.error.option": "Selecciona una de las opciones disponibles.",
+  "register.error.privacy": "Debes aceptar el aviso de privacidad para inscribirte.",
+  "register.error.generic": "No se ha podido enviar la inscripción. Revisa tus respuestas e inténtalo de nuevo.",
+  "emailPreferences.title": "Preferencias de correo",
+  "emailPreferences.description": "Elige qué correos envía Global Friendship a {email}.",
+  "emailPreferences.operational": "Información sobre la inscripción y el evento",
+  "emailPreferences.operationalHint": "Son necesarios para organizar tu participación, por eso se envían siempre.",
+  "emailPreferences.newsletter": "Noticias y anuncios",
+  "emailPreferences.newsletterHint": "Boletines y otros envíos no esenciales.",
+  "emailPreferences.save": "Guardar preferencias",
+  "emailPreferences.saving": "Guardando...",
+  "emailPreferences.saved": "Tus preferencias se han guardado.",
+  "emailPreferences.unsubscribed": "Te has dado de baja de noticias y anuncios.",
+  "emailPreferences.error": "No se han podido guardar tus preferencias. Inténtalo más tarde.",
+  "emailPreferences.invalidLink": "Este enlace no es válido. Abre el enlace del último correo que te enviamos.",
 };
 
 export default es;
@@ -30,6 +30,8 @@ const fr: TranslationDictionary = {
   "auth.login.email": "E-mail",
   "auth.login.emailPlaceholder": "nom@email.com",
   "auth.login.submitting": "Envoi...",
+  "auth.login.notRegistered": "Pas encore inscrit ?",
+  "auth.login.registerLink": "Inscrivez-vous",
   "auth.login.submit": "Envoyer le lien magique",
   "auth.login.sent": "Vérifiez votre e-mail pour le lien magique.",
   "auth.login.error": "Erreur lors de l'envoi du lien magique.",
@@ -40,7 +42,16 @@ const fr: TranslationDictionary = {
   "dashboard.manager.tab.statistics": "Statistiques",
   "dashboard.manager.tab.participants": "Participants",
   "dashboard.manager.tab.fees": "Frais de participation",
+  "dashboard.manager.tab.feeRules": "Règles de frais",
+  "dashboard.manager.tab.capacity": "Capacité",
+  "dashboard.manager.tab.bankImport": "Import bancaire",
   "dashboard.manager.tab.finance": "Finance de l'événement",
+  "dashboard.manager.tab.visaLetters": "Lettres pour le visa",
+  "dashboard.manager.tab.badges": "Badges",
+  "dashboard.manager.tab.checkIn": "Accueil",
+  "dashboard.manager.tab.catering": "Restauration",
+  "dashboard.manager.tab.accessibility": "Accessibilité",
+  "dashboard.manager.tab.transport": "Transports",
   "dashboard.manager.tab.email": "Campagnes e-mail",
   "dashboard.admin.tab.participants": "Participants",
   "dashboard.admin.tab.usersProfiles": "Utilisateurs et Profils",
@@ -52,6 +63,57 @@ const fr: TranslationDictionary = {
   "participant.contact.title": "Contacter les organisateurs",
   "participant.contact.error": "Impossible d'envoyer votre message.",
   "participant.contact.success": "Votre message a été envoyé aux organisateurs.",
+  "participant.badge.title": "Badge",
+  "participant.badge.description": "Présentez ce code QR à l'accueil de l'événement, sur votre téléphone ou imprimé sur votre badge.",
+  "participant.badge.selectProfile": "Sélectionnez votre profil de participant ci-dessus pour voir votre badge.",
+  "participant.badge.loadError": "Impossible de charger votre badge.",
+  "participant.badge.unavailable": "Votre badge sera disponible une fois votre inscription confirmée.",
+  "participant.badge.qrLabel": "Code QR d'enregistrement",
+  "participant.badge.download": "Télécharger le badge (PDF)",
+  "participant.travel.title": "Informations de voyage",
+  "participant.travel.description": "Indiquez-nous comment vous arrivez et repartez afin que nous puissions organiser les navettes depuis l'aéroport ou la gare.",
+  "participant.travel.selectProfile": "Sélectionnez votre profil de participant ci-dessus pour saisir vos informations de voyage.",
+  "participant.travel.loadError": "Impossible de charger vos informations de voyage.",
+  "participant.travel.saveError": "Impossible d'enregistrer vos informations de voyage.",
+  "participant.travel.saved": "Informations de voyage enregistrées.",
+  "participant.travel.arrival": "Arrivée",
+  "participant.travel.departure": "Départ",
+  "participant.travel.dateMissing": "Date non indiquée dans votre inscription",
+  "participant.travel.notEntered": "Non renseigné",
+  "participant.travel.mode": "Moyen de transport",
+  "participant.travel.mode.plane": "Avion",
+  "participant.travel.mode.train": "Train",
+  "participant.travel.mode.bus": "Bus",
+  "participant.travel.mode.car": "Voiture",
+  "participant.travel.mode.other": "Autre",
+  "participant.travel.reference": "Numéro de vol / train",
+  "participant.travel.referencePlaceholder": "ex. AZ 1234",
+  "participant.travel.time.arrival": "Heure d'arrivée",
+  "participant.travel.time.departure": "Heure de départ",
+  "participant.travel.location": "Aéroport / gare",
+  "participant.travel.locationPlaceholder": "ex. Rome Fiumicino",
+  "participant.travel.notes": "Remarques",
+  "participant.travel.remove": "Supprimer",
+  "participant.travel.shuttle.arrival": "Navette au départ de {location} à {time}",
+  "participant.travel.shuttle.departure": "Navette pour {location} au départ à {time}",
+  "participant.visaLetter.title": "Lettre d'invitation pour le visa",
+  "participant.visaLetter.description": "Si vous avez besoin d'un visa pour venir en Italie, demandez une lettre d'invitation officielle. Les organisateurs vérifieront votre demande et vous enverront la lettre signée par e-mail.",
+  "participant.visaLetter.selectProfile": "Sélectionnez votre profil de participant ci-dessus pour demander une lettre pour le visa.",
+  "participant.visaLetter.loadError": "Impossible de charger votre demande de lettre pour le visa.",
+  "participant.visaLetter.submitError": "Impossible d'envoyer votre demande.",
+  "participant.visaLetter.status.pending": "Votre demande est en attente d'approbation.",
+  "participant.visaLetter.status.approved": "Votre lettre d'invitation a été émise.",
+  "participant.visaLetter.status.rejected": "Votre demande n'a pas été approuvée.",
+  "participant.visaLetter.requestedOn": "Demandée le {date}",
+  "participant.visaLetter.emailed": "Nous vous avons envoyé la lettre par e-mail.",
+  "participant.visaLetter.download": "Télécharger la lettre {number}",
+  "participant.visaLetter.request": "Demander une lettre d'invitation",
+  "participant.visaLetter.requestAgain": "Demander une nouvelle lettre",
+  "participant.visaLetter.passportNumber": "Numéro de passeport",
+  "participant.visaLetter.passportExpiry": "Date d'expiration du passeport",
+  "participant.visaLetter.consulate": "Consulat ou ambassade",
+  "participant.visaLetter.consulatePlaceholder": "ex. Ambassade d'Italie à Nairobi",
+  "participant.visaLetter.submit": "Envoyer la demande",
   "participant.form.name": "Prénom",
   "participant.form.surname": "Nom",
   "participant.form.nationality": "Nationalité",
@@ -100,6 +162,8 @@ const fr: TranslationDictionary = {
   "participants.table.filter.min": "Min",
   "participants.table.filter.max": "Max",
   "participants.table.noResults": "Aucun participant trouvé avec les filtres actuels.",
+  "participants.table.emailBounced": "E-mail non distribué",
+  "participants.table.modal.emailBounced": "Les e-mails envoyés à cette adresse ne sont pas distribués ({reason}). Corrigez l'adresse pour reprendre les envois.",
   "participants.table.modal.editTitle": "Modifier le participant",
   "participants.table.modal.close": "Fermer",
   "participants.table.modal.accessibility": "Handicap / accessibilité",
@@ -148,12 +212,64 @@ const fr: TranslationDictionary = {
   "manager.presence.filter.autonomous": "Autonome",
   "manager.presence.date": "Date",
   "manager.presence.present": "Présents",
+  "manager.presence.checkedIn": "Enregistrés",
+  "manager.presence.notCheckedIn": "Non enregistrés",
   "manager.presence.empty": "Aucune donnée de présence disponible pour le filtre sélectionné.",
   "enrollment.bucket.higherStudents": "Étudiants supérieurs",
   "enrollment.bucket.universityWorker": "Université-Travailleur",
   "enrollment.bucket.operator": "Opérateur",
   "finance.title": "Finance de l'événement",
   "fees.title": "Frais de participation",
+  "email.footer.preferences": "Gérer vos préférences e-mail ou vous désabonner",
+  "email.visaLetter.subject": "Votre lettre d'invitation pour le visa {number}",
+  "email.visaLetter.text": "Bonjour {name},\n\nvous trouverez ci-joint votre lettre d'invitation signée {number} pour la demande de visa. Imprimez-la et apportez-la à votre rendez-vous au consulat.\n\nL'équipe Global Friendship",
+  "register.title": "Inscription à Global Friendship",
+  "register.description": "Remplissez les étapes ci-dessous pour vous inscrire. Vous pouvez revenir à n'importe quelle étape avant l'envoi.",
+  "register.step.personal": "À propos de vous",
+  "register.step.group": "Origine et groupe",
+  "register.step.stay": "Séjour",
+  "register.step.needs": "Besoins",
+  "register.step.review": "Vérification",
+  "register.field.email": "E-mail",
+  "register.field.phone": "Téléphone",
+  "register.field.sex": "Sexe",
+  "register.field.countryOfResidence": "Pays de résidence",
+  "register.field.city": "Ville",
+  "register.field.romeGroup": "Groupe à Rome",
+  "register.field.groupLeader": "Qui est votre responsable de groupe ?",
+  "register.field.registrationType": "Type d'inscription",
+  "register.field.wholeEvent": "Je participerai à tout l'événement",
+  "register.field.notes": "Remarques",
+  "register.field.privacy": "J'ai lu la politique de confidentialité et j'accepte le traitement de mes données personnelles pour l'organisation de l'événement.",
+  "register.review.hint": "Vérifiez vos réponses avant d'envoyer l'inscription.",
+  "register.back": "Retour",
+  "register.next": "Suivant",
+  "register.submit": "Envoyer l'inscription",
+  "register.submitting": "Envoi...",
+  "register.success.title": "Inscription reçue.",
+  "register.success.body": "Merci ! Votre responsable de groupe a été informé. Vous pouvez vous connecter avec votre e-mail pour vérifier vos données.",
+  "register.success.duplicate": "Cette inscription avait déjà été reçue ; rien n'a été modifié.",
+  "register.success.waitlisted": "L'événement est actuellement complet : vous avez été ajouté(e) à la liste d'attente (numéro {position}). Nous vous écrirons dès qu'une place se libère.",
+  "register.loginLink": "Aller à la connexion",
+  "register.error.required": "Ce champ est obligatoire.",
+  "register.error.email": "Saisissez une adresse e-mail valide.",
+  "register.error.date": "Saisissez une date valide.",
+  "register.error.departureBeforeArrival": "La date de départ ne peut pas être antérieure à la date d'arrivée.",
+  "register.error.option": "Sélectionnez l'une des options proposées.",
+  "register.error.privacy": "Vous devez accepter la politique de confidentialité pour vous inscrire.",
+  "register.error.generic": "Impossible d'envoyer l'inscription. Vérifiez vos réponses et réessayez.",
+  "emailPreferences.title": "Préférences e-mail",
+  "emailPreferences.description": "Choisissez les e-mails que Global Friendship envoie à {email}.",
+  "emailPreferences.operational": "Informations sur l'inscription et l'événement",
+  "emailPreferences.operationalHint": "Nécessaires pour organiser votre participation, ils sont donc toujours envoyés.",
+  "emailPreferences.newsletter": "Actualités et annonces",
+  "emailPreferences.newsletterHint": "Newsletters et autres envois non essentiels.",
+  "emailPreferences.save": "Enregistrer les préférences",
+  "emailPreferences.saving": "Enregistrement...",
+  "emailPreferences.saved": "Vos préférences ont été enregistrées.",
+  "emailPreferences.unsubscribed": "Vous êtes désinscrit(e) des actualités et annonces.",
+  "emailPreferences.error": "Impossible d'enregistrer vos préférences. Réessayez plus tard.",
+  "emailPreferences.invalidLink": "Ce lien n'est pas valide. Ouvrez le lien du dernier e-mail que nous vous avons envoyé.",
 };
 
 export default fr;
@@ -34,6 +34,8 @@ const it: TranslationDictionary = {
   "auth.login.email": "Email",
   "auth.login.emailPlaceholder": "nome@email.com",
   "auth.login.submitting": "Invio in corso...",
+  "auth.login.notRegistered": "Non sei ancora iscritto?",
+  "auth.login.registerLink": "Iscriviti ora",
   "auth.login.submit": "Invia magic link",
   "auth.login.sent": "Controlla la tua email per il magic link.",
   "auth.login.error": "Errore durante l'invio del magic link.",
@@ -47,12 +49,21 @@ const it: TranslationDictionary = {
   "dashboard.manager.tab.statistics": "Statistiche",
   "dashboard.manager.tab.participants": "Partecipanti",
   "dashboard.manager.tab.fees": "Quote di partecipazione",
+  "dashboard.manager.tab.feeRules": "Regole quote",
+  "dashboard.manager.tab.capacity": "Capienza",
+  "dashboard.manager.tab.bankImport": "Import banca",
   "dashboard.manager.tab.finance": "Finanza evento",
+  "dashboard.manager.tab.visaLetters": "Lettere per il visto",
+  "dashboard.manager.tab.badges": "Badge",
+  "dashboard.manager.tab.checkIn": "Check-in",
+  "dashboard.manager.tab.catering": "Catering",
+  "dashboard.manager.tab.accessibility": "Accessibilità",
+  "dashboard.manager.tab.transport": "Trasporti",
   "dashboard.manager.tab.email": "Campagne email",
   "dashboard.admin.tab.participants": "Partecipanti",
   "dashboard.admin.tab.usersProfiles": "Utenti e Profili",
   "dashboard.accommodation.title": "Dashboard Alloggi",
-  "dashboard.accommodation.subtitle": "Area team alloggi attiva.",
+  "dashboard.accommodation.subtitle": "Gestisci strutture, stanze e letti e assegna gli ospiti notte per notte.",
   "dashboard.groupLeader.title": "Dashboard Capogruppo",
   "dashboard.groupLeader.subtitle": "Visualizza e modifica i partecipanti dei gruppi associati.",
   "dashboard.groupLeader.groupSummary": "Gruppi associati",
@@ -63,6 +74,57 @@ const it: TranslationDictionary = {
   "participant.contact.placeholder": "Scrivi il tuo messaggio per gli organizzatori...",
   "participant.contact.error": "Impossibile inviare il messaggio.",
   "participant.contact.success": "Il tuo messaggio è stato inviato agli organizzatori.",
+  "participant.badge.title": "Badge",
+  "participant.badge.description": "Mostra questo codice QR al check-in dell'evento, sul telefono o stampato sul badge.",
+  "participant.badge.selectProfile": "Seleziona il tuo profilo partecipante qui sopra per vedere il badge.",
+  "participant.badge.loadError": "Impossibile caricare il badge.",
+  "participant.badge.unavailable": "Il badge sarà disponibile quando la tua iscrizione sarà confermata.",
+  "participant.badge.qrLabel": "Codice QR per il check-in",
+  "participant.badge.download": "Scarica il badge (PDF)",
+  "participant.travel.title": "Dettagli di viaggio",
+  "participant.travel.description": "Indicaci come arrivi e come riparti, così possiamo organizzare le navette dall'aeroporto o dalla stazione.",
+  "participant.travel.selectProfile": "Seleziona il tuo profilo partecipante qui sopra per inserire i dettagli di viaggio.",
+  "participant.travel.loadError": "Impossibile caricare i dettagli di viaggio.",
+  "participant.travel.saveError": "Impossibile salvare i dettagli di viaggio.",
+  "participant.travel.saved": "Dettagli di viaggio salvati.",
+  "participant.travel.arrival": "Arrivo",
+  "participant.travel.departure": "Partenza",
+  "participant.travel.dateMissing": "Data non indicata nell'iscrizione",
+  "participant.travel.notEntered": "Non inserito",
+  "participant.travel.mode": "Mezzo di trasporto",
+  "participant.travel.mode.plane": "Aereo",
+  "participant.travel.mode.train": "Treno",
+  "participant.travel.mode.bus": "Autobus",
+  "participant.travel.mode.car": "Auto",
+  "participant.travel.mode.other": "Altro",
+  "participant.travel.reference": "Numero del volo / treno",
+  "participant.travel.referencePlaceholder": "es. AZ 1234",
+  "participant.travel.time.arrival": "Orario di arrivo",
+  "participant.travel.time.departure": "Orario di partenza",
+  "participant.travel.location": "Aeroporto / stazione",
+  "participant.travel.locationPlaceholder": "es. Roma Fiumicino",
+  "participant.travel.notes": "Note",
+  "participant.travel.remove": "Rimuovi",
+  "participant.travel.shuttle.arrival": "Navetta in partenza da {location} alle {time}",
+  "participant.travel.shuttle.departure": "Navetta per {location} in partenza alle {time}",
+  "participant.visaLetter.title": "Lettera di invito per il visto",
+  "participant.visaLetter.description": "Se ti serve un visto per venire in Italia, richiedi una lettera di invito ufficiale. Gli organizzatori verificheranno la richiesta e ti invieranno via email la lettera firmata.",
+  "participant.visaLetter.selectProfile": "Seleziona il tuo profilo partecipante qui sopra per richiedere la lettera per il visto.",
+  "participant.visaLetter.loadError": "Impossibile caricare la tua richiesta di lettera per il visto.",
+  "participant.visaLetter.submitError": "Impossibile inviare la richiesta.",
+  "participant.visaLetter.status.pending": "La tua richiesta è in attesa di approvazione.",
+  "participant.visaLetter.status.approved": "La tua lettera di invito è stata emessa.",
+  "participant.visaLetter.status.rejected": "La tua richiesta non è stata approvata.",
+  "participant.visaLetter.requestedOn": "Richiesta il {date}",
+  "participant.visaLetter.emailed": "Ti abbiamo inviato la lettera via email.",
+  "participant.visaLetter.download": "Scarica la lettera {number}",
+  "participant.visaLetter.request": "Richiedi una lettera di invito",
+  "participant.visaLetter.requestAgain": "Richiedi una nuova lettera",
+  "participant.visaLetter.passportNumber": "Numero di passaporto",
+  "participant.visaLetter.passportExpiry": "Data di scadenza del passaporto",
+  "participant.visaLetter.consulate": "Consolato o ambasciata",
+  "participant.visaLetter.consulatePlaceholder": "es. Ambasciata d'Italia a Nairobi",
+  "participant.visaLetter.submit": "Invia richiesta",
   "participant.form.multipleFoundTitle": "Trovate più registrazioni partecipante.",
   "participant.form.multipleFoundBody": "Seleziona il profilo partecipante che vuoi gestire con questa email.",
   "participant.form.profile": "Profilo partecipante",
@@ -134,6 +196,8 @@ const it: TranslationDictionary = {
   "participants.table.filter.min": "Min",
   "participants.table.filter.max": "Max",
   "participants.table.noResults": "Nessun partecipante trovato con i filtri correnti.",
+  "participants.table.emailBounced": "Email non recapitata",
+  "participants.table.modal.emailBounced": "Le email a questo indirizzo non vengono recapitate ({reason}). Correggi l'indirizzo per riprendere gli invii.",
   "participants.table.modal.editTitle": "Modifica partecipante",
   "participants.table.modal.close": "Chiudi",
   "participants.table.modal.accessibility": "Disabilità / accessibilità",
@@ -177,15 +241,23 @@ const it: TranslationDictionary = {
   "manager.presence.filter.autonomous": "Autonomo",
   "manager.presence.date": "Data",
   "manager.presence.present": "Presenti",
+  "manager.presence.checkedIn": "Registrati all'arrivo",
+  "manager.presence.notCheckedIn": "Non registrati",
   "manager.presence.empty": "Nessun dato presenze disponibile per il filtro selezionato.",
   "enrollment.bucket.higherStudents": "Studenti superiori",
   "enrollment.bucket.universityWorker": "Università-Lavoratore",
   "enrollment.bucket.operator": "Operatore",
   "fees.title": "Quote di partecipazione",
+  "feeRules.title": "Regole quote",
+  "capacity.title": "Capienza e lista d'attesa",
+  "visaLetters.title": "Lettere di invito per il visto",
+  "badges.title": "Fogli badge",
+  "checkIn.title": "Check-in all'arrivo",
+  "catering.title": "Pianificazione pasti",
+  "accessibility.title": "Supporto accessibilità",
+  "transport.title": "Pianificazione trasporti",
+  "bankImport.title": "Import estratto conto",
   "fees.loadError": "Impossibile caricare le quote di partecipazione.",
-  "fees.invalidValue": "La quota pagata deve essere un numero valido maggiore o uguale a 0.",
-  "fees.saveError": "Impossibile salvare il valore della quota pagata.",
-  "fees.saveSuccess": "Valore pagamento salvato.",
   "fees.bulkError": "Impossibile contrassegnare i partecipanti selezionati come pagati.",
   "fees.bulkSuccess": "Partecipanti selezionati contrassegnati come totalmente pagati.",
   "fees.groupSummary": "Riepilogo quote per gruppo",
@@ -202,6 +274,115 @@ const it: TranslationDictionary = {
   "fees.calculatedFee": "Quota calcolata",
   "fees.feePaid": "Quota pagata",
   "fees.searchNameGroup": "Cerca nome/gruppo",
+  "fees.recordPayment": "Registra pagamento",
+  "fees.payments": "Pagamenti",
+  "fees.payments.historyTitle": "Pagamenti - {name}",
+  "fees.payments.recordTitle": "Registra pagamento per {count} partecipante/i",
+  "fees.payments.none": "Nessun pagamento registrato.",
+  "fees.payments.participant": "Partecipante",
+  "fees.payments.date": "Data",
+  "fees.payments.type": "Tipo",
+  "fees.payments.typePayment": "Pagamento",
+  "fees.payments.typeRefund": "Rimborso",
+  "fees.payments.amount": "Importo",
+  "fees.payments.total": "Totale",
+  "fees.payments.method": "Metodo",
+  "fees.payments.currency": "Valuta",
+  "fees.payments.payer": "Pagatore",
+  "fees.payments.payerParticipant": "Pagato dal partecipante",
+  "fees.payments.payerName": "Nome pagatore",
+  "fees.payments.reference": "Riferimento",
+  "fees.payments.notes": "Note",
+  "fees.payments.postToFinance": "Registra anche in Event Finance",
+  "fees.payments.linkedFinance": "In finanza",
+  "fees.payments.save": "Salva pagamento",
+  "fees.payments.invalidAmount": "Ogni importo deve essere maggiore di 0.",
+  "fees.payments.loadError": "Impossibile caricare i pagamenti.",
+  "fees.payments.saveError": "Impossibile salvare il pagamento.",
+  "fees.payments.saveSuccess": "Pagamento registrato.",
+  "fees.payments.deleteConfirm": "Eliminare questa voce del registro?",
+  "fees.payments.deleteError": "Impossibile eliminare il pagamento.",
+  "fees.payments.deleteSuccess": "Pagamento eliminato.",
+  "fees.documents.title": "Ricevute e fatture",
+  "fees.documents.hint": "Scarica la fattura del gruppo o la ricevuta di ogni partecipante che ha pagato.",
+  "fees.documents.receipt": "Ricevuta",
+  "travel.group.title": "Dettagli di viaggio",
+  "travel.group.hint": "Arrivi e partenze dei membri del gruppo, usati per organizzare le navette.",
+  "travel.group.loadError": "Impossibile caricare i dettagli di viaggio.",
+  "travel.group.participant": "Partecipante",
+  "travel.group.shuttle": "Navetta {time}",
+  "fees.documents.invoice": "Fattura",
+  "fees.documents.downloading": "Preparazione...",
+  "fees.documents.error": "Impossibile generare il documento.",
+  "fees.documents.settings.title": "Dati dell'organizzazione sui documenti",
+  "fees.documents.settings.hint": "Stampati su ricevute, fatture e lettere di invito per il visto.",
+  "fees.documents.settings.name": "Nome organizzazione",
+  "fees.documents.settings.legalName": "Ragione sociale",
+  "fees.documents.settings.address": "Indirizzo",
+  "fees.documents.settings.taxId": "Codice fiscale / Partita IVA",
+  "fees.documents.settings.email": "Email",
+  "fees.documents.settings.phone": "Telefono",
+  "fees.documents.settings.website": "Sito web",
+  "fees.documents.settings.bankDetails": "Coordinate bancarie (mostrate sulle fatture)",
+  "fees.documents.settings.receiptPrefix": "Prefisso numero ricevuta",
+  "fees.documents.settings.invoicePrefix": "Prefisso numero fattura",
+  "fees.documents.settings.visaLetterPrefix": "Prefisso numero lettera visto",
+  "fees.documents.settings.signatoryName": "Firmatario delle lettere per il visto",
+  "fees.documents.settings.signatoryRole": "Ruolo del firmatario",
+  "fees.documents.settings.footer": "Nota a piè di pagina",
+  "fees.documents.settings.loadError": "Impossibile caricare i dati dell'organizzazione.",
+  "fees.documents.settings.saveError": "Impossibile salvare i dati dell'organizzazione.",
+  "fees.documents.settings.saveSuccess": "Dati dell'organizzazione salvati.",
+  "register.title": "Iscriviti a Global Friendship",
+  "register.description": "Compila i passaggi qui sotto per iscriverti. Puoi tornare a qualsiasi passaggio prima dell'invio.",
+  "register.step.personal": "Chi sei",
+  "register.step.group": "Provenienza e gruppo",
+  "register.step.stay": "Soggiorno",
+  "register.step.needs": "Esigenze",
+  "register.step.review": "Riepilogo",
+  "register.field.email": "Email",
+  "register.field.phone": "Telefono",
+  "register.field.sex": "Sesso",
+  "register.field.countryOfResidence": "Paese di residenza",
+  "register.field.city": "Città",
+  "register.field.romeGroup": "Gruppo di Roma",
+  "register.field.groupLeader": "Chi è il tuo capogruppo?",
+  "register.field.registrationType": "Tipo di iscrizione",
+  "register.field.wholeEvent": "Partecipo a tutto l'evento",
+  "register.field.notes": "Note",
+  "register.field.privacy": "Ho letto l'informativa privacy e acconsento al trattamento dei miei dati personali per l'organizzazione dell'evento.",
+  "register.review.hint": "Controlla le risposte prima di inviare l'iscrizione.",
+  "register.back": "Indietro",
+  "register.next": "Avanti",
+  "register.submit": "Invia iscrizione",
+  "register.submitting": "Invio...",
+  "register.success.title": "Iscrizione ricevuta.",
+  "register.success.body": "Grazie! Il tuo capogruppo è stato avvisato. Puoi accedere con la tua email per controllare i tuoi dati.",
+  "register.success.duplicate": "Questa iscrizione era già stata ricevuta; non è stato modificato nulla.",
+  "register.success.waitlisted": "L'evento al momento è al completo: sei stato inserito in lista d'attesa (numero {position}). Ti scriveremo appena si libera un posto.",
+  "register.loginLink": "Vai all'accesso",
+  "register.error.required": "Campo obbligatorio.",
+  "register.error.email": "Inserisci un indirizzo email valido.",
+  "register.error.date": "Inserisci una data valida.",
+  "register.error.departureBeforeArrival": "La data di partenza non può essere precedente alla data di arrivo.",
+  "register.error.option": "Seleziona una delle opzioni disponibili.",
+  "register.error.privacy": "Devi accettare l'informativa privacy per iscriverti.",
+  "register.error.generic": "Impossibile inviare l'iscrizione. Controlla le risposte e riprova.",
+  "emailPreferences.title": "Preferenze email",
+  "emailPreferences.description": "Scegli quali email Global Friendship invia a {email}.",
+  "emailPreferences.operational": "Informazioni su iscrizione ed evento",
+  "emailPreferences.operationalHint": "Servono per organizzare la tua partecipazione, quindi vengono sempre inviate.",
+  "emailPreferences.newsletter": "Novità e annunci",
+  "emailPreferences.newsletterHint": "Newsletter e altri invii non essenziali.",
+  "emailPreferences.save": "Salva preferenze",
+  "emailPreferences.saving": "Salvataggio...",
+  "emailPreferences.saved": "Le tue preferenze sono state salvate.",
+  "emailPreferences.unsubscribed": "Non riceverai più novità e annunci.",
+  "emailPreferences.error": "Impossibile salvare le preferenze. Riprova più tardi.",
+  "emailPreferences.invalidLink": "Questo link non è valido. Apri il link dell'ultima email che ti abbiamo inviato.",
+  "email.footer.preferences": "Gestisci le preferenze email o annulla l'iscrizione",
+  "email.visaLetter.subject": "La tua lettera di invito per il visto {number}",
+  "email.visaLetter.text": "Ciao {name},\n\nin allegato trovi la lettera di invito firmata {number} per la richiesta del visto. Stampala e portala al tuo appuntamento al consolato.\n\nIl team di Global Friendship",
 };
 
 export default it;
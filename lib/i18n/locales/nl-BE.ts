@@ -30,6 +30,8 @@ const nlBE: TranslationDictionary = {
   "auth.login.email": "E-mail",
   "auth.login.emailPlaceholder": "naam@email.com",
   "auth.login.submitting": "Verzenden...",
+  "auth.login.notRegistered": "Nog niet ingeschreven?",
+  "auth.login.registerLink": "Schrijf je nu in",
   "auth.login.submit": "Magic link verzenden",
   "auth.login.sent": "Controleer je e-mail voor de magic link.",
   "auth.login.error": "Fout bij het verzenden van de magic link.",
@@ -40,7 +42,16 @@ const nlBE: TranslationDictionary = {
   "dashboard.manager.tab.statistics": "Statistieken",
   "dashboard.manager.tab.participants": "Deelnemers",
   "dashboard.manager.tab.fees": "Deelnamekosten",
+  "dashboard.manager.tab.feeRules": "Kostenregels",
+  "dashboard.manager.tab.capacity": "Capaciteit",
+  "dashboard.manager.tab.bankImport": "Bankimport",
   "dashboard.manager.tab.finance": "Evenementfinanciën",
+  "dashboard.manager.tab.visaLetters": "Visumbrieven",
+  "dashboard.manager.tab.badges": "Badges",
+  "dashboard.manager.tab.checkIn": "Check-in",
+  "dashboard.manager.tab.catering": "Catering",
+  "dashboard.manager.tab.accessibility": "Toegankelijkheid",
+  "dashboard.manager.tab.transport": "Vervoer",
   "dashboard.manager.tab.email": "E-mailcampagnes",
   "dashboard.admin.tab.participants": "Deelnemers",
   "dashboard.admin.tab.usersProfiles": "Gebruikers en Profielen",
@@ -50,6 +61,57 @@ const nlBE: TranslationDictionary = {
   "dashboard.groupLeader.groupSummary": "Gekoppelde groepen",
   "dashboard.participant.title": "Deelnemersprofiel",
   "participant.contact.title": "Contacteer organisatoren",
+  "participant.badge.title": "Badge",
+  "participant.badge.description": "Toon deze QR-code bij de check-in van het evenement, op je telefoon of afgedrukt op je badge.",
+  "participant.badge.selectProfile": "Selecteer hierboven je deelnemersprofiel om je badge te zien.",
+  "participant.badge.loadError": "Je badge kon niet worden geladen.",
+  "participant.badge.unavailable": "Je badge is beschikbaar zodra je inschrijving bevestigd is.",
+  "participant.badge.qrLabel": "QR-code voor de check-in",
+  "participant.badge.download": "Badge downloaden (PDF)",
+  "participant.travel.title": "Reisgegevens",
+  "participant.travel.description": "Laat ons weten hoe je aankomt en vertrekt, zodat we shuttles vanaf de luchthaven of het station kunnen regelen.",
+  "participant.travel.selectProfile": "Selecteer hierboven je deelnemersprofiel om je reisgegevens in te vullen.",
+  "participant.travel.loadError": "Je reisgegevens konden niet worden geladen.",
+  "participant.travel.saveError": "Je reisgegevens konden niet worden opgeslagen.",
+  "participant.travel.saved": "Reisgegevens opgeslagen.",
+  "participant.travel.arrival": "Aankomst",
+  "participant.travel.departure": "Vertrek",
+  "participant.travel.dateMissing": "Datum niet ingevuld in je inschrijving",
+  "participant.travel.notEntered": "Niet ingevuld",
+  "participant.travel.mode": "Vervoermiddel",
+  "participant.travel.mode.plane": "Vliegtuig",
+  "participant.travel.mode.train": "Trein",
+  "participant.travel.mode.bus": "Bus",
+  "participant.travel.mode.car": "Auto",
+  "participant.travel.mode.other": "Andere",
+  "participant.travel.reference": "Vlucht- / treinnummer",
+  "participant.travel.referencePlaceholder": "bv. AZ 1234",
+  "participant.travel.time.arrival": "Aankomstuur",
+  "participant.travel.time.departure": "Vertrekuur",
+  "participant.travel.location": "Luchthaven / station",
+  "participant.travel.locationPlaceholder": "bv. Rome Fiumicino",
+  "participant.travel.notes": "Opmerkingen",
+  "participant.travel.remove": "Verwijderen",
+  "participant.travel.shuttle.arrival": "Shuttle vanaf {location} om {time}",
+  "participant.travel.shuttle.departure": "Shuttle naar {location} vertrekt om {time}",
+  "participant.visaLetter.title": "Uitnodigingsbrief voor het visum",
+  "participant.visaLetter.description": "Heb je een visum nodig om naar Italië te reizen, vraag dan een officiële uitnodigingsbrief aan. De organisatoren bekijken je aanvraag en mailen je de ondertekende brief.",
+  "participant.visaLetter.selectProfile": "Selecteer hierboven je deelnemersprofiel om een uitnodigingsbrief aan te vragen.",
+  "participant.visaLetter.loadError": "Je aanvraag voor een uitnodigingsbrief kon niet worden geladen.",
+  "participant.visaLetter.submitError": "Je aanvraag kon niet worden verzonden.",
+  "participant.visaLetter.status.pending": "Je aanvraag wacht op goedkeuring.",
+  "participant.visaLetter.status.approved": "Je uitnodigingsbrief is uitgegeven.",
+  "participant.visaLetter.status.rejected": "Je aanvraag is niet goedgekeurd.",
+  "participant.visaLetter.requestedOn": "Aangevraagd op {date}",
+  "participant.visaLetter.emailed": "We hebben je de brief gemaild.",
+  "participant.visaLetter.download": "Brief {number} downloaden",
+  "participant.visaLetter.request": "Uitnodigingsbrief aanvragen",
+  "participant.visaLetter.requestAgain": "Nieuwe brief aanvragen",
+  "participant.visaLetter.passportNumber": "Paspoortnummer",
+  "participant.visaLetter.passportExpiry": "Vervaldatum van het paspoort",
+  "participant.visaLetter.consulate": "Consulaat of ambassade",
+  "participant.visaLetter.consulatePlaceholder": "bv. Italiaanse ambassade in Nairobi",
+  "participant.visaLetter.submit": "Aanvraag verzenden",
   "participant.form.name": "Voornaam",
   "participant.form.surname": "Achternaam",
   "participant.form.nationality": "Nationaliteit",
@@ -97,6 +159,8 @@ const nlBE: TranslationDictionary = {
   "participants.table.filter.min": "Min",
   "participants.table.filter.max": "Max",
   "participants.table.noResults": "Geen deelnemers gevonden met de huidige filters.",
+  "participants.table.emailBounced": "E-mail onbestelbaar",
+  "participants.table.modal.emailBounced": "E-mails naar dit adres zijn onbestelbaar ({reason}). Verbeter het adres om de verzending te hervatten.",
   "participants.table.modal.editTitle": "Deelnemer bewerken",
   "participants.table.modal.close": "Sluiten",
   "participants.table.modal.accessibility": "Beperking / toegankelijkheid",
@@ -134,12 +198,64 @@ const nlBE: TranslationDictionary = {
   "manager.presence.filter.autonomous": "Autonoom",
   "manager.presence.date": "Datum",
   "manager.presence.present": "Aanwezig",
+  "manager.presence.checkedIn": "Ingecheckt",
+  "manager.presence.notCheckedIn": "Niet ingecheckt",
   "manager.presence.empty": "Geen aanwezigheidsgegevens beschikbaar voor de gekozen filter.",
   "enrollment.bucket.higherStudents": "Hogere studenten",
   "enrollment.bucket.universityWorker": "Universiteit-Werknemer",
   "enrollment.bucket.operator": "Operator",
   "finance.title": "Evenementfinanciën",
   "fees.title": "Deelnamekosten",
+  "email.footer.preferences": "E-mailvoorkeuren beheren of uitschrijven",
+  "email.visaLetter.subject": "Je uitnodigingsbrief voor het visum {number}",
+  "email.visaLetter.text": "Beste {name},\n\nin bijlage vind je je ondertekende uitnodigingsbrief {number} voor de visumaanvraag. Print hem af en neem hem mee naar je afspraak op het consulaat.\n\nHet Global Friendship-team",
+  "register.title": "Inschrijven voor Global Friendship",
+  "register.description": "Vul de onderstaande stappen in om je in te schrijven. Voor het verzenden kun je naar elke stap terugkeren.",
+  "register.step.personal": "Over jou",
+  "register.step.group": "Herkomst en groep",
+  "register.step.stay": "Verblijf",
+  "register.step.needs": "Noden",
+  "register.step.review": "Overzicht",
+  "register.field.email": "E-mail",
+  "register.field.phone": "Telefoon",
+  "register.field.sex": "Geslacht",
+  "register.field.countryOfResidence": "Land van verblijf",
+  "register.field.city": "Stad",
+  "register.field.romeGroup": "Groep in Rome",
+  "register.field.groupLeader": "Wie is je groepsleider?",
+  "register.field.registrationType": "Soort inschrijving",
+  "register.field.wholeEvent": "Ik neem deel aan het hele evenement",
+  "register.field.notes": "Opmerkingen",
+  "register.field.privacy": "Ik heb de privacyverklaring gelezen en ga akkoord met de verwerking van mijn persoonsgegevens voor de organisatie van het evenement.",
+  "register.review.hint": "Controleer je antwoorden voor je de inschrijving verzendt.",
+  "register.back": "Terug",
+  "register.next": "Volgende",
+  "register.submit": "Inschrijving verzenden",
+  "register.submitting": "Bezig met verzenden...",
+  "register.success.title": "Inschrijving ontvangen.",
+  "register.success.body": "Bedankt! Je groepsleider is verwittigd. Je kunt inloggen met je e-mail om je gegevens na te kijken.",
+  "register.success.duplicate": "Deze inschrijving was al ontvangen; er is niets gewijzigd.",
+  "register.success.waitlisted": "Het evenement is momenteel volzet, dus je staat op de wachtlijst (nummer {position}). We mailen je zodra er een plaats vrijkomt.",
+  "register.loginLink": "Naar aanmelden",
+  "register.error.required": "Dit veld is verplicht.",
+  "register.error.email": "Vul een geldig e-mailadres in.",
+  "register.error.date": "Vul een geldige datum in.",
+  "register.error.departureBeforeArrival": "De vertrekdatum kan niet voor de aankomstdatum liggen.",
+  "register.error.option": "Kies een van de beschikbare opties.",
+  "register.error.privacy": "Je moet de privacyverklaring aanvaarden om je in te schrijven.",
+  "register.error.generic": "De inschrijving kon niet worden verzonden. Controleer je antwoorden en probeer het opnieuw.",
+  "emailPreferences.title": "E-mailvoorkeuren",
+  "emailPreferences.description": "Kies welke e-mails Global Friendship naar {email} stuurt.",
+  "emailPreferences.operational": "Informatie over de inschrijving en het evenement",
+  "emailPreferences.operationalHint": "Nodig om je deelname te organiseren, dus die worden altijd verstuurd.",
+  "emailPreferences.newsletter": "Nieuws en aankondigingen",
+  "emailPreferences.newsletterHint": "Nieuwsbrieven en andere niet-essentiële mailings.",
+  "emailPreferences.save": "Voorkeuren opslaan",
+  "emailPreferences.saving": "Bezig met opslaan...",
+  "emailPreferences.saved": "Je voorkeuren zijn opgeslagen.",
+  "emailPreferences.unsubscribed": "Je bent uitgeschreven voor nieuws en aankondigingen.",
+  "emailPreferences.error": "Je voorkeuren konden niet worden opgeslagen. Probeer het later opnieuw.",
+  "emailPreferences.invalidLink": "Deze link is niet geldig. Open de link in de meest recente e-mail die je van ons kreeg.",
 };
 
 export default nlBE;
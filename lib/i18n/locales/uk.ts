@@ -30,6 +30,8 @@ const uk: TranslationDictionary = {
   "auth.login.email": "Електронна пошта",
   "auth.login.emailPlaceholder": "name@email.com",
   "auth.login.submitting": "Надсилання...",
+  "auth.login.notRegistered": "Ще не зареєстровані?",
+  "auth.login.registerLink": "Зареєструватися",
   "auth.login.submit": "Надіслати magic link",
   "auth.login.sent": "Перевірте пошту для magic link-посилання.",
   "auth.login.error": "Помилка під час надсилання magic link-посилання.",
@@ -40,7 +42,16 @@ const uk: TranslationDictionary = {
   "dashboard.manager.tab.statistics": "Статистика",
   "dashboard.manager.tab.participants": "Учасники",
   "dashboard.manager.tab.fees": "Внески участі",
+  "dashboard.manager.tab.feeRules": "Правила внесків",
+  "dashboard.manager.tab.capacity": "Місткість",
+  "dashboard.manager.tab.bankImport": "Імпорт виписки",
   "dashboard.manager.tab.finance": "Фінанси події",
+  "dashboard.manager.tab.visaLetters": "Листи для візи",
+  "dashboard.manager.tab.badges": "Бейджі",
+  "dashboard.manager.tab.checkIn": "Реєстрація на місці",
+  "dashboard.manager.tab.catering": "Харчування",
+  "dashboard.manager.tab.accessibility": "Доступність",
+  "dashboard.manager.tab.transport": "Транспорт",
   "dashboard.manager.tab.email": "Email-кампанії",
   "dashboard.admin.tab.participants": "Учасники",
   "dashboard.admin.tab.usersProfiles": "Користувачі та профілі",
@@ -50,6 +61,57 @@ const uk: TranslationDictionary = {
   "dashboard.groupLeader.groupSummary": "Пов'язані групи",
   "dashboard.participant.title": "Профіль учасника",
   "participant.contact.title": "Зв'язатися з організаторами",
+  "participant.badge.title": "Бейдж",
+  "participant.badge.description": "Покажіть цей QR-код під час реєстрації на заході — на телефоні або на роздрукованому бейджі.",
+  "participant.badge.selectProfile": "Виберіть свій профіль учасника вище, щоб побачити бейдж.",
+  "participant.badge.loadError": "Не вдалося завантажити бейдж.",
+  "participant.badge.unavailable": "Бейдж буде доступний після підтвердження реєстрації.",
+  "participant.badge.qrLabel": "QR-код для реєстрації",
+  "participant.badge.download": "Завантажити бейдж (PDF)",
+  "participant.travel.title": "Дані про подорож",
+  "participant.travel.description": "Повідомте нам, як ви прибуваєте та від'їжджаєте, щоб ми могли організувати трансфер з аеропорту чи вокзалу.",
+  "participant.travel.selectProfile": "Виберіть свій профіль учасника вище, щоб ввести дані про подорож.",
+  "participant.travel.loadError": "Не вдалося завантажити дані про подорож.",
+  "participant.travel.saveError": "Не вдалося зберегти дані про подорож.",
+  "participant.travel.saved": "Дані про подорож збережено.",
+  "participant.travel.arrival": "Прибуття",
+  "participant.travel.departure": "Від'їзд",
+  "participant.travel.dateMissing": "Дату не вказано в реєстрації",
+  "participant.travel.notEntered": "Не вказано",
+  "participant.travel.mode": "Вид транспорту",
+  "participant.travel.mode.plane": "Літак",
+  "participant.travel.mode.train": "Потяг",
+  "participant.travel.mode.bus": "Автобус",
+  "participant.travel.mode.car": "Автомобіль",
+  "participant.travel.mode.other": "Інше",
+  "participant.travel.reference": "Номер рейсу / потяга",
+  "participant.travel.referencePlaceholder": "напр. AZ 1234",
+  "participant.travel.time.arrival": "Час прибуття",
+  "participant.travel.time.departure": "Час відправлення",
+  "participant.travel.location": "Аеропорт / вокзал",
+  "participant.travel.locationPlaceholder": "напр. Рим Фьюмічино",
+  "participant.travel.notes": "Примітки",
+  "participant.travel.remove": "Видалити",
+  "participant.travel.shuttle.arrival": "Трансфер від {location} о {time}",
+  "participant.travel.shuttle.departure": "Трансфер до {location} відправляється о {time}",
+  "participant.visaLetter.title": "Лист-запрошення для візи",
+  "participant.visaLetter.description": "Якщо вам потрібна віза для поїздки до Італії, надішліть запит на офіційний лист-запрошення. Організатори перевірять запит і надішлють вам підписаний лист електронною поштою.",
+  "participant.visaLetter.selectProfile": "Виберіть свій профіль учасника вище, щоб надіслати запит на лист для візи.",
+  "participant.visaLetter.loadError": "Не вдалося завантажити ваш запит на лист для візи.",
+  "participant.visaLetter.submitError": "Не вдалося надіслати запит.",
+  "participant.visaLetter.status.pending": "Ваш запит очікує на схвалення.",
+  "participant.visaLetter.status.approved": "Ваш лист-запрошення видано.",
+  "participant.visaLetter.status.rejected": "Ваш запит не схвалено.",
+  "participant.visaLetter.requestedOn": "Запит від {date}",
+  "participant.visaLetter.emailed": "Ми надіслали вам лист електронною поштою.",
+  "participant.visaLetter.download": "Завантажити лист {number}",
+  "participant.visaLetter.request": "Запросити лист-запрошення",
+  "participant.visaLetter.requestAgain": "Запросити новий лист",
+  "participant.visaLetter.passportNumber": "Номер паспорта",
+  "participant.visaLetter.passportExpiry": "Дата закінчення дії паспорта",
+  "participant.visaLetter.consulate": "Консульство або посольство",
+  "participant.visaLetter.consulatePlaceholder": "напр. Посольство Італії в Найробі",
+  "participant.visaLetter.submit": "Надіслати запит",
   "participant.form.name": "Ім'я",
   "participant.form.surname": "Прізвище",
   "participant.form.nationality": "Національність",
@@ -97,6 +159,8 @@ const uk: TranslationDictionary = {
   "participants.table.filter.min": "Мін",
   "participants.table.filter.max": "Макс",
   "participants.table.noResults": "Учасників за поточними фільтрами не знайдено.",
+  "participants.table.emailBounced": "Лист не доставлено",
+  "participants.table.modal.emailBounced": "Листи на цю адресу не доставляються ({reason}). Виправте адресу, щоб відновити надсилання.",
   "participants.table.modal.editTitle": "Редагувати учасника",
   "participants.table.modal.close": "Закрити",
   "participants.table.modal.accessibility": "Інвалідність / доступність",
@@ -134,12 +198,64 @@ const uk: TranslationDictionary = {
   "manager.presence.filter.autonomous": "Самостійно",
   "manager.presence.date": "Дата",
   "manager.presence.present": "Присутні",
+  "manager.presence.checkedIn": "Зареєстровані",
+  "manager.presence.notCheckedIn": "Не зареєстровані",
   "manager.presence.empty": "Немає даних про присутність для вибраного фільтра.",
   "enrollment.bucket.higherStudents": "Старші учні",
   "enrollment.bucket.universityWorker": "Університет-Працівник",
   "enrollment.bucket.operator": "Оператор",
   "finance.title": "Фінанси події",
   "fees.title": "Внески участі",
+  "email.footer.preferences": "Керувати налаштуваннями email або відписатися",
+  "email.visaLetter.subject": "Ваш лист-запрошення для візи {number}",
+  "email.visaLetter.text": "Вітаємо, {name}!\n\nУ вкладенні ваш підписаний лист-запрошення {number} для оформлення візи. Роздрукуйте його та візьміть на зустріч у консульстві.\n\nКоманда Global Friendship",
+  "register.title": "Реєстрація на Global Friendship",
+  "register.description": "Заповніть кроки нижче, щоб зареєструватися. Перед надсиланням можна повернутися до будь-якого кроку.",
+  "register.step.personal": "Про вас",
+  "register.step.group": "Походження та група",
+  "register.step.stay": "Перебування",
+  "register.step.needs": "Потреби",
+  "register.step.review": "Перевірка",
+  "register.field.email": "Електронна пошта",
+  "register.field.phone": "Телефон",
+  "register.field.sex": "Стать",
+  "register.field.countryOfResidence": "Країна проживання",
+  "register.field.city": "Місто",
+  "register.field.romeGroup": "Група в Римі",
+  "register.field.groupLeader": "Хто ваш керівник групи?",
+  "register.field.registrationType": "Тип реєстрації",
+  "register.field.wholeEvent": "Я братиму участь у всьому заході",
+  "register.field.notes": "Примітки",
+  "register.field.privacy": "Я прочитав(-ла) повідомлення про конфіденційність і погоджуюся на обробку моїх персональних даних для організації заходу.",
+  "register.review.hint": "Перевірте відповіді перед надсиланням реєстрації.",
+  "register.back": "Назад",
+  "register.next": "Далі",
+  "register.submit": "Надіслати реєстрацію",
+  "register.submitting": "Надсилання...",
+  "register.success.title": "Реєстрацію отримано.",
+  "register.success.body": "Дякуємо! Вашого керівника групи повідомлено. Ви можете увійти за своєю електронною поштою, щоб переглянути дані.",
+  "register.success.duplicate": "Цю реєстрацію вже було отримано; нічого не змінено.",
+  "register.success.waitlisted": "Наразі всі місця зайняті, тому вас додано до списку очікування (номер {position}). Ми напишемо вам, щойно звільниться місце.",
+  "register.loginLink": "Перейти до входу",
+  "register.error.required": "Це поле обов'язкове.",
+  "register.error.email": "Введіть дійсну адресу електронної пошти.",
+  "register.error.date": "Введіть дійсну дату.",
+  "register.error.departureBeforeArrival": "Дата від'їзду не може бути раніше за дату прибуття.",
+  "register.error.option": "Виберіть один із доступних варіантів.",
+  "register.error.privacy": "Щоб зареєструватися, потрібно прийняти повідомлення про конфіденційність.",
+  "register.error.generic": "Не вдалося надіслати реєстрацію. Перевірте відповіді та спробуйте ще раз.",
+  "emailPreferences.title": "Налаштування листів",
+  "emailPreferences.description": "Виберіть, які листи Global Friendship надсилає на {email}.",
+  "emailPreferences.operational": "Інформація про реєстрацію та захід",
+  "emailPreferences.operationalHint": "Потрібні для організації вашої участі, тому надсилаються завжди.",
+  "emailPreferences.newsletter": "Новини та оголошення",
+  "emailPreferences.newsletterHint": "Розсилки та інші необов'язкові листи.",
+  "emailPreferences.save": "Зберегти налаштування",
+  "emailPreferences.saving": "Збереження...",
+  "emailPreferences.saved": "Ваші налаштування збережено.",
+  "emailPreferences.unsubscribed": "Ви відписалися від новин і оголошень.",
+  "emailPreferences.error": "Не вдалося зберегти налаштування. Спробуйте пізніше.",
+  "emailPreferences.invalidLink": "Це посилання недійсне. Відкрийте посилання з останнього листа, який ви від нас отримали.",
 };
 
 export default uk;
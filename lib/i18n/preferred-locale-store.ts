@@ -0,0 +1,32 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type { Locale } from "@/lib/i18n";
+
+// Stores the language picked in the header as the preferred email language of the
+// signed-in user: on their profile and on the registrations made with their email.
+export async function savePreferredLocale(
+  service: SupabaseClient,
+  user: { id: string; email?: string | null },
+  locale: Locale
+): Promise<void> {
+  const { error: profileError } = await service
+    .from("profili")
+    .update({ preferred_locale: locale })
+    .eq("id", user.id);
+
+  if (profileError) {
+    throw new Error(profileError.message);
+  }
+
+  const email = (user.email ?? "").trim().toLowerCase();
+  if (!email) return;
+
+  const { error: participantError } = await service
+    .from("partecipanti")
+    .update({ preferred_locale: locale })
+    // Case-insensitive equality: "_" and "%" in the address must not act as wildcards.
+    .ilike("email", email.replace(/[\\%_]/g, "\\$&"));
+
+  if (participantError) {
+    throw new Error(participantError.message);
+  }
+}
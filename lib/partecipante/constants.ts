@@ -66,6 +66,40 @@ export const ESIGENZE_ALIMENTARI_OPTIONS = [
   "Other",
 ] as const;
 
+export type DietaryNeed = "vegetarian" | "vegan" | "no_pork" | "other";
+
+const ESIGENZE_ALIMENTARI_NEEDS: Record<(typeof ESIGENZE_ALIMENTARI_OPTIONS)[number], DietaryNeed> = {
+  Vegetarian: "vegetarian",
+  Vegan: "vegan",
+  "I don't eat pork": "no_pork",
+  Other: "other",
+};
+
+const NO_DIETARY_NEEDS = /^(none|no|nessuna|nessuno|-)$/i;
+
+function dietaryNeed(item: string): DietaryNeed {
+  if ((ESIGENZE_ALIMENTARI_OPTIONS as readonly string[]).includes(item)) {
+    return ESIGENZE_ALIMENTARI_NEEDS[item as (typeof ESIGENZE_ALIMENTARI_OPTIONS)[number]];
+  }
+  // Italian wording older Tally submissions used, and free text.
+  if (/\bvegan/i.test(item)) return "vegan";
+  if (/\bvegetarian/i.test(item)) return "vegetarian";
+  if (/\bpork\b|\bmaiale\b/i.test(item)) return "no_pork";
+  return "other";
+}
+
+// Reads the stored esigenze_alimentari, a comma separated list of ESIGENZE_ALIMENTARI_OPTIONS.
+export function dietaryNeeds(value: string | null | undefined): DietaryNeed[] {
+  const needs: DietaryNeed[] = [];
+  for (const item of (value ?? "").split(",")) {
+    const trimmed = item.trim();
+    if (!trimmed || NO_DIETARY_NEEDS.test(trimmed)) continue;
+    const need = dietaryNeed(trimmed);
+    if (!needs.includes(need)) needs.push(need);
+  }
+  return needs;
+}
+
 export const DIFFICOLTA_ACCESSIBILITA_OPTIONS = [
   "Difficulty seeing, even when wearing glasses",
   "Difficulty hearing, even when using a hearing aid",
@@ -0,0 +1,119 @@
+import {
+  briefingEntries,
+  groupByDifficulty,
+  SUPPORT_STATUS_LABELS,
+  type SupportEntry,
+} from "@/lib/accessibility/support";
+import { DIFFICOLTA_ACCESSIBILITA_OPTIONS } from "@/lib/partecipante/constants";
+import { A4, renderPdf, wrapText, type PdfColor, type PdfElement, type PdfPageSpec } from "./document";
+
+// Accessibility briefing for venue staff: participants who need support, grouped by
+// difficulty, with their stay, room and the buddy or action item assigned by the team.
+
+const MARGIN = 50;
+const CONTENT_RIGHT = A4.width - MARGIN;
+const CONTENT_WIDTH = CONTENT_RIGHT - MARGIN;
+const BOTTOM_LIMIT = A4.height - 60;
+const MUTED: PdfColor = [0.4, 0.45, 0.5];
+const RULE: PdfColor = [0.8, 0.82, 0.85];
+const BAND: PdfColor = [0.93, 0.95, 0.98];
+const LINE = 13;
+
+function fullName(entry: SupportEntry): string {
+  return [entry.nome, entry.cognome].filter(Boolean).join(" ").trim() || "-";
+}
+
+function entryLines(entry: SupportEntry): Array<{ text: string; muted?: boolean }> {
+  const stay =
+    entry.data_arrivo || entry.data_partenza
+      ? `${entry.data_arrivo ?? "?"} to ${entry.data_partenza ?? "?"}`
+      : null;
+  const buddy = entry.plan.buddy_name
+    ? [entry.plan.buddy_name, entry.plan.buddy_contact].filter(Boolean).join(", ")
+    : null;
+
+  return [
+    {
+      text: [entry.gruppo_label, entry.telefono, stay].filter(Boolean).join(" · ") || "-",
+      muted: true,
+    },
+    { text: `Accommodation: ${entry.accommodation ?? "not assigned"}` },
+    ...(entry.difficulties.length > 1
+      ? [{ text: `Also: ${entry.difficulties.join("; ")}`, muted: true }]
+      : []),
+    ...(buddy ? [{ text: `Buddy: ${buddy}` }] : []),
+    ...(entry.plan.action_item ? [{ text: `Action: ${entry.plan.action_item}` }] : []),
+  ];
+}
+
+export function renderAccessibilityBriefingPdf(
+  eventName: string,
+  entries: SupportEntry[]
+): Uint8Array {
+  const pages: PdfPageSpec[] = [];
+  let elements: PdfElement[] = [];
+  let y = MARGIN;
+
+  const text = (
+    value: string,
+    x: number,
+    options: Partial<Extract<PdfElement, { kind: "text" }>> = {}
+  ) => elements.push({ kind: "text", x, y, text: value, size: 10, ...options });
+
+  const ensureSpace = (height: number) => {
+    if (y + height <= BOTTOM_LIMIT) return;
+    pages.push({ elements });
+    elements = [];
+    y = MARGIN;
+  };
+
+  const people = briefingEntries(entries);
+  y += 12;
+  text(eventName, MARGIN, { size: 9, color: MUTED });
+  y += 24;
+  text("Accessibility briefing", MARGIN, { size: 18, font: "bold" });
+  y += 16;
+  text(
+    `${people.length} participant${people.length === 1 ? "" : "s"} needing support. ` +
+      "Please keep this list confidential.",
+    MARGIN,
+    { size: 9, color: MUTED }
+  );
+  y += 12;
+
+  for (const group of groupByDifficulty(people, DIFFICOLTA_ACCESSIBILITA_OPTIONS)) {
+    ensureSpace(70);
+    y += 18;
+    elements.push({ kind: "rect", x: MARGIN, y: y - 13, width: CONTENT_WIDTH, height: 20, fill: BAND });
+    text(`${group.difficulty} (${group.entries.length})`, MARGIN + 6, { size: 11, font: "bold" });
+    y += 8;
+
+    for (const entry of group.entries) {
+      const details = entryLines(entry).flatMap((line) =>
+        wrapText(line.text, CONTENT_WIDTH - 12, 9).map((wrapped) => ({ ...line, text: wrapped }))
+      );
+      ensureSpace(LINE * (details.length + 1) + 12);
+      y += 16;
+      text(fullName(entry), MARGIN + 6, { font: "bold" });
+      text(SUPPORT_STATUS_LABELS[entry.plan.status], CONTENT_RIGHT, {
+        size: 8,
+        color: MUTED,
+        align: "right",
+      });
+      for (const line of details) {
+        y += LINE;
+        text(line.text, MARGIN + 12, { size: 9, color: line.muted ? MUTED : undefined });
+      }
+      y += 6;
+      elements.push({ kind: "line", x1: MARGIN, y1: y, x2: CONTENT_RIGHT, y2: y, color: RULE });
+    }
+  }
+
+  if (people.length === 0) {
+    y += 24;
+    text("No participants currently need accessibility support.", MARGIN, { color: MUTED });
+  }
+  pages.push({ elements });
+
+  return renderPdf(pages, { title: `${eventName} - Accessibility briefing` });
+}
@@ -0,0 +1,160 @@
+import type { BadgeMarker } from "@/lib/check-in/badge-markers";
+import type { QrMatrix } from "@/lib/qr/encode";
+import {
+  A4,
+  measureText,
+  renderPdf,
+  wrapText,
+  type PdfColor,
+  type PdfElement,
+  type PdfPageSpec,
+} from "./document";
+
+// Participant badge with the check-in QR code. Drawn at an offset so the same badge can
+// be placed on its own A6 page or tiled four to an A4 sheet.
+
+export type BadgeContent = {
+  eventName: string;
+  name: string;
+  group: string | null;
+  country: string | null;
+  qr: QrMatrix;
+  footer: string;
+  markers?: BadgeMarker[];
+};
+
+// A6 portrait.
+export const BADGE_SIZE = { width: 297.64, height: 419.53 };
+
+const PADDING = 20;
+const QR_SIZE = 150;
+const BAND: PdfColor = [0.31, 0.27, 0.9];
+const WHITE: PdfColor = [1, 1, 1];
+const MUTED: PdfColor = [0.4, 0.45, 0.5];
+const CUT: PdfColor = [0.75, 0.75, 0.75];
+const MARKER_SIZE = 9;
+const MARKER_HEIGHT = 16;
+const MARKER_GAP = 6;
+
+function qrElements(matrix: QrMatrix, left: number, top: number, size: number): PdfElement[] {
+  const cell = size / matrix.length;
+  const elements: PdfElement[] = [];
+  // One rectangle per horizontal run keeps the content stream small.
+  matrix.forEach((row, y) => {
+    let start = -1;
+    for (let x = 0; x <= row.length; x += 1) {
+      if (x < row.length && row[x]) {
+        if (start < 0) start = x;
+      } else if (start >= 0) {
+        elements.push({
+          kind: "rect",
+          x: left + start * cell,
+          y: top + y * cell,
+          width: (x - start) * cell,
+          height: cell,
+          fill: [0, 0, 0],
+        });
+        start = -1;
+      }
+    }
+  });
+  return elements;
+}
+
+export function badgeElements(badge: BadgeContent, left: number, top: number): PdfElement[] {
+  const { width, height } = BADGE_SIZE;
+  const center = left + width / 2;
+  const contentWidth = width - PADDING * 2;
+  const elements: PdfElement[] = [
+    { kind: "rect", x: left, y: top, width, height, stroke: [0.8, 0.82, 0.85] },
+    { kind: "rect", x: left, y: top, width, height: 56, fill: BAND },
+  ];
+
+  const text = (
+    value: string,
+    y: number,
+    options: Partial<Extract<PdfElement, { kind: "text" }>> = {}
+  ) => elements.push({ kind: "text", x: center, y, text: value, align: "center", ...options });
+
+  const [eventLine] = wrapText(badge.eventName, contentWidth, 13, "bold");
+  text(eventLine ?? "", top + 34, { size: 13, font: "bold", color: WHITE });
+
+  let y = top + 96;
+  for (const line of wrapText(badge.name, contentWidth, 20, "bold").slice(0, 2)) {
+    text(line, y, { size: 20, font: "bold" });
+    y += 24;
+  }
+  for (const detail of [badge.group, badge.country]) {
+    if (!detail) continue;
+    text(detail, y, { size: 11, color: MUTED });
+    y += 15;
+  }
+
+  const markers = badge.markers ?? [];
+  if (markers.length > 0) {
+    const widths = markers.map((marker) => measureText(marker.label, MARKER_SIZE, "bold") + 12);
+    const rowWidth =
+      widths.reduce((sum, value) => sum + value, 0) + MARKER_GAP * (widths.length - 1);
+    let x = center - rowWidth / 2;
+    const markerTop = y - 4;
+    markers.forEach((marker, index) => {
+      elements.push({
+        kind: "rect",
+        x,
+        y: markerTop,
+        width: widths[index],
+        height: MARKER_HEIGHT,
+        fill: marker.color,
+      });
+      elements.push({
+        kind: "text",
+        x: x + widths[index] / 2,
+        y: markerTop + 11.5,
+        text: marker.label,
+        size: MARKER_SIZE,
+        font: "bold",
+        align: "center",
+        color: WHITE,
+      });
+      x += widths[index] + MARKER_GAP;
+    });
+  }
+
+  const qrTop = top + height - PADDING - 22 - QR_SIZE;
+  elements.push(...qrElements(badge.qr, center - QR_SIZE / 2, qrTop, QR_SIZE));
+  text(badge.footer, top + height - PADDING, { size: 8, color: MUTED });
+
+  return elements;
+}
+
+export function renderBadgePdf(badge: BadgeContent): Uint8Array {
+  return renderPdf(
+    [{ width: BADGE_SIZE.width, height: BADGE_SIZE.height, elements: badgeElements(badge, 0, 0) }],
+    { title: `${badge.eventName} - ${badge.name}` }
+  );
+}
+
+// Four A6 badges per A4 page (2 x 2), with cut lines between them. Pre-perforated A4
+// badge sheets use the same layout.
+export function renderBadgeSheetPdf(badges: BadgeContent[], title: string): Uint8Array {
+  const { width, height } = BADGE_SIZE;
+  const left = (A4.width - width * 2) / 2;
+  const top = (A4.height - height * 2) / 2;
+  const pages: PdfPageSpec[] = [];
+
+  for (let start = 0; start < badges.length; start += 4) {
+    const elements: PdfElement[] = [];
+    badges.slice(start, start + 4).forEach((badge, index) => {
+      const column = index % 2;
+      const row = Math.floor(index / 2);
+      elements.push(...badgeElements(badge, left + column * width, top + row * height));
+    });
+    elements.push(
+      { kind: "line", x1: A4.width / 2, y1: 0, x2: A4.width / 2, y2: A4.height, color: CUT },
+      { kind: "line", x1: 0, y1: A4.height / 2, x2: A4.width, y2: A4.height / 2, color: CUT }
+    );
+    pages.push({ elements });
+  }
+
+  return renderPdf(pages, { title });
+}
@@ -0,0 +1,270 @@
+// Minimal PDF writer for server-generated documents (receipts, invoices, letters).
+// Uses the standard Helvetica fonts, so no font files or external services are needed.
+// Coordinates are in points with the origin at the top-left corner of the page.
+
+export type PdfFont = "regular" | "bold";
+export type PdfColor = [number, number, number];
+export type PdfTextAlign = "left" | "center" | "right";
+
+export type PdfElement =
+  | {
+      kind: "text";
+      x: number;
+      y: number;
+      text: string;
+      size?: number;
+      font?: PdfFont;
+      align?: PdfTextAlign;
+      color?: PdfColor;
+    }
+  | {
+      kind: "line";
+      x1: number;
+      y1: number;
+      x2: number;
+      y2: number;
+      width?: number;
+      color?: PdfColor;
+    }
+  | {
+      kind: "rect";
+      x: number;
+      y: number;
+      width: number;
+      height: number;
+      fill?: PdfColor;
+      stroke?: PdfColor;
+      lineWidth?: number;
+    };
+
+export type PdfPageSpec = {
+  width?: number;
+  height?: number;
+  elements: PdfElement[];
+};
+
+export const A4 = { width: 595.28, height: 841.89 };
+
+// Advance widths (1/1000 em) for ASCII 32..126 from the standard Helvetica AFM files.
+const HELVETICA_WIDTHS = [
+  278, 278, 355, 556, 556, 889, 667, 191, 333, 333, 389, 584, 278, 333, 278, 278, 556, 556, 556,
+  556, 556, 556, 556, 556, 556, 556, 278, 278, 584, 584, 584, 556, 1015, 667, 667, 722, 722, 667,
+  611, 778, 722, 278, 500, 667, 556, 833, 722, 778, 667, 778, 722, 667, 611, 722, 667, 944, 667,
+  667, 611, 278, 278, 278, 469, 556, 333, 556, 556, 500, 556, 556, 278, 556, 556, 222, 222, 500,
+  222, 833, 556, 556, 556, 556, 333, 500, 278, 556, 500, 722, 500, 500, 500, 334, 260, 334, 584,
+];
+
+const HELVETICA_BOLD_WIDTHS = [
+  278, 333, 474, 556, 556, 889, 722, 238, 333, 333, 389, 584, 278, 333, 278, 278, 556, 556, 556,
+  556, 556, 556, 556, 556, 556, 556, 333, 333, 584, 584, 584, 611, 975, 722, 722, 722, 722, 667,
+  611, 778, 722, 278, 556, 722, 611, 833, 722, 778, 667, 778, 722, 667, 611, 722, 667, 944, 667,
+  667, 611, 333, 278, 333, 584, 556, 333, 556, 611, 556, 611, 556, 333, 611, 611, 278, 278, 556,
+  278, 889, 611, 611, 611, 611, 389, 556, 333, 611, 556, 778, 556, 556, 500, 389, 280, 389, 584,
+];
+
+// Characters outside Latin-1 that WinAnsiEncoding still covers.
+const WIN_ANSI_EXTRAS: Record<string, number> = {
+  "€": 0x80,
+  "‚": 0x82,
+  "„": 0x84,
+  "…": 0x85,
+  "Š": 0x8a,
+  "Œ": 0x8c,
+  "Ž": 0x8e,
+  "‘": 0x91,
+  "’": 0x92,
+  "“": 0x93,
+  "”": 0x94,
+  "•": 0x95,
+  "–": 0x96,
+  "—": 0x97,
+  "™": 0x99,
+  "š": 0x9a,
+  "œ": 0x9c,
+  "ž": 0x9e,
+  "Ÿ": 0x9f,
+};
+
+function stripDiacritics(char: string): string {
+  return char.normalize("NFD").replace(/[\u0300-\u036f]/g, "");
+}
+
+// Maps text to WinAnsi byte values; characters the standard fonts cannot show fall back to
+// their unaccented form (e.g. Hungarian "ő" becomes "o") or "?".
+export function toWinAnsiCodes(text: string): number[] {
+  const codes: number[] = [];
+  for (const char of text) {
+    const code = char.codePointAt(0) ?? 63;
+    if ((code >= 32 && code <= 126) || (code >= 0xa0 && code <= 0xff)) {
+      codes.push(code);
+    } else if (WIN_ANSI_EXTRAS[char] !== undefined) {
+      codes.push(WIN_ANSI_EXTRAS[char]);
+    } else if (char === "\t") {
+      codes.push(32);
+    } else {
+      const base = stripDiacritics(char);
+      const baseCode = base.length === 1 ? base.charCodeAt(0) : 63;
+      codes.push(baseCode >= 32 && baseCode <= 126 ? baseCode : 63);
+    }
+  }
+  return codes;
+}
+
+function charWidth(code: number, font: PdfFont): number {
+  const table = font === "bold" ? HELVETICA_BOLD_WIDTHS : HELVETICA_WIDTHS;
+  if (code >= 32 && code <= 126) return table[code - 32];
+  if (code >= 0xc0 && code <= 0xff) {
+    const base = stripDiacritics(String.fromCharCode(code)).charCodeAt(0);
+    if (base >= 32 && base <= 126) return table[base - 32];
+  }
+  return 556;
+}
+
+export function measureText(text: string, size: number, font: PdfFont = "regular"): number {
+  const units = toWinAnsiCodes(text).reduce((sum, code) => sum + charWidth(code, font), 0);
+  return (units * size) / 1000;
+}
+
+export function wrapText(
+  text: string,
+  maxWidth: number,
+  size: number,
+  font: PdfFont = "regular"
+): string[] {
+  const lines: string[] = [];
+
+  for (const paragraph of text.split(/\r?\n/)) {
+    const words = paragraph.split(/\s+/).filter(Boolean);
+    if (words.length === 0) {
+      lines.push("");
+      continue;
+    }
+
+    let current = "";
+    for (const word of words) {
+      const candidate = current ? `${current} ${word}` : word;
+      if (!current || measureText(candidate, size, font) <= maxWidth) {
+        current = candidate;
+        continue;
+      }
+      lines.push(current);
+      current = word;
+    }
+    lines.push(current);
+  }
+
+  return lines;
+}
+
+function formatNumber(value: number): string {
+  return Number(value.toFixed(2)).toString();
+}
+
+function colorOperator(color: PdfColor, operator: "rg" | "RG"): string {
+  return `${color.map(formatNumber).join(" ")} ${operator}`;
+}
+
+function encodePdfString(text: string): string {
+  return toWinAnsiCodes(text)
+    .map((code) => {
+      if (code === 0x28 || code === 0x29 || code === 0x5c) return `\\${String.fromCharCode(code)}`;
+      return String.fromCharCode(code);
+    })
+    .join("");
+}
+
+function renderElement(element: PdfElement, pageHeight: number): string {
+  if (element.kind === "text") {
+    const size = element.size ?? 10;
+    const font = element.font ?? "regular";
+    const width = measureText(element.text, size, font);
+    const x =
+      element.align === "right"
+        ? element.x - width
+        : element.align === "center"
+          ? element.x - width / 2
+          : element.x;
+    const color = colorOperator(element.color ?? [0, 0, 0], "rg");
+    return [
+      "BT",
+      color,
+      `/${font === "bold" ? "F2" : "F1"} ${formatNumber(size)} Tf`,
+      `${formatNumber(x)} ${formatNumber(pageHeight - element.y)} Td`,
+      `(${encodePdfString(element.text)}) Tj`,
+      "ET",
+    ].join("\n");
+  }
+
+  if (element.kind === "line") {
+    return [
+      "q",
+      colorOperator(element.color ?? [0, 0, 0], "RG"),
+      `${formatNumber(element.width ?? 0.5)} w`,
+      `${formatNumber(element.x1)} ${formatNumber(pageHeight - element.y1)} m`,
+      `${formatNumber(element.x2)} ${formatNumber(pageHeight - element.y2)} l`,
+      "S",
+      "Q",
+    ].join("\n");
+  }
+
+  const box = `${formatNumber(element.x)} ${formatNumber(pageHeight - element.y - element.height)} ${formatNumber(element.width)} ${formatNumber(element.height)} re`;
+  const ops = ["q"];
+  if (element.fill) ops.push(colorOperator(element.fill, "rg"));
+  if (element.stroke) {
+    ops.push(colorOperator(element.stroke, "RG"), `${formatNumber(element.lineWidth ?? 0.5)} w`);
+  }
+  ops.push(box, element.fill && element.stroke ? "B" : element.fill ? "f" : "S", "Q");
+  return ops.join("\n");
+}
+
+export function renderPdf(pages: PdfPageSpec[], info: { title?: string } = {}): Uint8Array {
+  const objects: string[] = [];
+  const pageCount = Math.max(pages.length, 1);
+  const firstPageObject = 5;
+
+  objects[1] = "<< /Type /Catalog /Pages 2 0 R >>";
+  objects[2] = `<< /Type /Pages /Count ${pageCount} /Kids [${Array.from(
+    { length: pageCount },
+    (_, index) => `${firstPageObject + index * 2} 0 R`
+  ).join(" ")}] >>`;
+  objects[3] = "<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>";
+  objects[4] =
+    "<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>";
+
+  for (let index = 0; index < pageCount; index += 1) {
+    const page = pages[index] ?? { elements: [] };
+    const width = page.width ?? A4.width;
+    const height = page.height ?? A4.height;
+    const content = page.elements.map((element) => renderElement(element, height)).join("\n");
+    const pageObject = firstPageObject + index * 2;
+
+    objects[pageObject] =
+      `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${formatNumber(width)} ${formatNumber(height)}] ` +
+      `/Resources << /Font << /F1 3 0 R /F2 4 0 R >> >> /Contents ${pageObject + 1} 0 R >>`;
+    objects[pageObject + 1] = `<< /Length ${content.length} >>\nstream\n${content}\nendstream`;
+  }
+
+  const infoObject = objects.length;
+  objects[infoObject] = `<< /Producer (Global Friendship) /Title (${encodePdfString(info.title ?? "")}) >>`;
+
+  // Every character is a single byte (WinAnsi), so string offsets are byte offsets.
+  let output = "%PDF-1.4\n%\xe2\xe3\xcf\xd3\n";
+  const offsets: number[] = [];
+  for (let id = 1; id < objects.length; id += 1) {
+    offsets[id] = output.length;
+    output += `${id} 0 obj\n${objects[id]}\nendobj\n`;
+  }
+
+  const xrefOffset = output.length;
+  output += `xref\n0 ${objects.length}\n0000000000 65535 f \n`;
+  for (let id = 1; id < objects.length; id += 1) {
+    output += `${String(offsets[id]).padStart(10, "0")} 00000 n \n`;
+  }
+  output += `trailer\n<< /Size ${objects.length} /Root 1 0 R /Info ${infoObject} 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`;
+
+  const bytes = new Uint8Array(output.length);
+  for (let index = 0; index < output.length; index += 1) {
+    bytes[index] = output.charCodeAt(index) & 0xff;
+  }
+  return bytes;
+}
@@ -0,0 +1,136 @@
+import {
+  DIET_CATEGORIES,
+  DIET_LABELS,
+  MEAL_LABELS,
+  type MealPlanRow,
+} from "@/lib/catering/meal-plan";
+import { A4, renderPdf, wrapText, type PdfColor, type PdfElement, type PdfPageSpec } from "./document";
+
+// Kitchen sheet for the catering staff: one page per meal slot with the expected covers
+// by diet and the participants with allergies to plate separately.
+
+const MARGIN = 50;
+const CONTENT_RIGHT = A4.width - MARGIN;
+const BOTTOM_LIMIT = A4.height - 60;
+const MUTED: PdfColor = [0.4, 0.45, 0.5];
+const RULE: PdfColor = [0.8, 0.82, 0.85];
+const ALERT: PdfColor = [0.75, 0.1, 0.1];
+const NAME_WIDTH = 150;
+const GROUP_WIDTH = 110;
+const DIET_WIDTH = 70;
+const ALLERGY_X = MARGIN + NAME_WIDTH + GROUP_WIDTH + DIET_WIDTH;
+const ALLERGY_WIDTH = CONTENT_RIGHT - ALLERGY_X;
+
+export function formatServiceDate(value: string): string {
+  return new Date(`${value}T00:00:00Z`).toLocaleDateString("en-GB", {
+    weekday: "long",
+    day: "numeric",
+    month: "long",
+    year: "numeric",
+    timeZone: "UTC",
+  });
+}
+
+function slotPages(eventName: string, row: MealPlanRow): PdfPageSpec[] {
+  const pages: PdfPageSpec[] = [];
+  let elements: PdfElement[] = [];
+  let y = MARGIN;
+
+  const text = (
+    value: string,
+    x: number,
+    options: Partial<Extract<PdfElement, { kind: "text" }>> = {}
+  ) => elements.push({ kind: "text", x, y, text: value, size: 10, ...options });
+
+  const rule = () =>
+    elements.push({ kind: "line", x1: MARGIN, y1: y, x2: CONTENT_RIGHT, y2: y, color: RULE });
+
+  const heading = `${MEAL_LABELS[row.slot.meal]} - ${formatServiceDate(row.slot.service_date)}`;
+
+  y += 12;
+  text(eventName, MARGIN, { size: 9, color: MUTED });
+  y += 24;
+  text(heading, MARGIN, { size: 18, font: "bold" });
+  text(String(row.covers), CONTENT_RIGHT, { size: 28, font: "bold", align: "right" });
+  y += 16;
+  text("Kitchen sheet", MARGIN, { size: 9, color: MUTED });
+  text(
+    row.maybe > 0 ? `covers, of which ${row.maybe} maybe` : "covers",
+    CONTENT_RIGHT,
+    { size: 9, color: MUTED, align: "right" }
+  );
+  y += 14;
+  rule();
+
+  y += 24;
+  text("Covers by diet", MARGIN, { size: 12, font: "bold" });
+  y += 8;
+  for (const diet of DIET_CATEGORIES) {
+    y += 20;
+    text(DIET_LABELS[diet], MARGIN, { size: 12 });
+    text(String(row.diets[diet]), MARGIN + 220, { size: 12, font: "bold", align: "right" });
+  }
+  y += 10;
+  rule();
+
+  y += 24;
+  text(`Allergies and intolerances (${row.allergies.length})`, MARGIN, {
+    size: 12,
+    font: "bold",
+    color: row.allergies.length > 0 ? ALERT : [0, 0, 0],
+  });
+
+  if (row.allergies.length === 0) {
+    y += 18;
+    text("No allergies declared by participants attending this meal.", MARGIN, { color: MUTED });
+    pages.push({ elements });
+    return pages;
+  }
+
+  const tableHeader = () => {
+    y += 20;
+    text("Name", MARGIN, { size: 9, font: "bold", color: MUTED });
+    text("Group", MARGIN + NAME_WIDTH, { size: 9, font: "bold", color: MUTED });
+    text("Diet", MARGIN + NAME_WIDTH + GROUP_WIDTH, { size: 9, font: "bold", color: MUTED });
+    text("Allergy", ALLERGY_X, { size: 9, font: "bold", color: MUTED });
+    y += 6;
+    rule();
+  };
+  tableHeader();
+
+  for (const entry of row.allergies) {
+    const allergyLines = wrapText(entry.allergy, ALLERGY_WIDTH - 4, 10);
+    const height = 14 * allergyLines.length + 4;
+    if (y + height > BOTTOM_LIMIT) {
+      pages.push({ elements });
+      elements = [];
+      y = MARGIN;
+      text(`${heading} (continued)`, MARGIN, { size: 11, font: "bold" });
+      tableHeader();
+    }
+
+    y += 14;
+    const [name] = wrapText(entry.name, NAME_WIDTH - 6, 10, "bold");
+    const [group] = wrapText(entry.group ?? "-", GROUP_WIDTH - 6, 10);
+    text(name ?? "", MARGIN, { font: "bold" });
+    text(group ?? "-", MARGIN + NAME_WIDTH);
+    text(entry.diet === "standard" ? "-" : DIET_LABELS[entry.diet], MARGIN + NAME_WIDTH + GROUP_WIDTH);
+    allergyLines.forEach((line, index) => {
+      if (index > 0) y += 14;
+      text(line, ALLERGY_X, { color: ALERT });
+    });
+    y += 4;
+  }
+
+  pages.push({ elements });
+  return pages;
+}
+
+export function renderKitchenSheetPdf(
+  eventName: string,
+  plan: MealPlanRow[],
+  title: string
+): Uint8Array {
+  const pages = plan.flatMap((row) => slotPages(eventName, row));
+  return renderPdf(pages.length > 0 ? pages : [{ elements: [] }], { title });
+}
@@ -0,0 +1,123 @@
+import type { OrganizationDetails } from "@/lib/fees/documents";
+import { A4, measureText, renderPdf, wrapText, type PdfElement, type PdfPageSpec } from "./document";
+
+// Letters on the organization letterhead (confirmation and invitation letters). The body
+// is plain text: blank lines separate paragraphs.
+
+export type LetterContent = {
+  organization: Pick<
+    OrganizationDetails,
+    "name" | "legal_name" | "address" | "tax_id" | "email" | "phone" | "website" | "document_footer"
+  >;
+  title: string;
+  date: string;
+  body: string;
+  // Letter number, printed under the date and in the page footer.
+  reference?: string | null;
+  signature?: { name: string; role: string | null } | null;
+};
+
+const MARGIN = 60;
+const CONTENT_RIGHT = A4.width - MARGIN;
+const CONTENT_WIDTH = CONTENT_RIGHT - MARGIN;
+const BOTTOM_LIMIT = A4.height - 80;
+const BODY_SIZE = 11;
+const BODY_LEADING = 15;
+const MUTED: [number, number, number] = [0.4, 0.45, 0.5];
+const RULE: [number, number, number] = [0.8, 0.82, 0.85];
+
+export function renderLetterPdf(letter: LetterContent): Uint8Array {
+  const pages: PdfPageSpec[] = [];
+  let elements: PdfElement[] = [];
+  let y = MARGIN;
+  const org = letter.organization;
+
+  const text = (
+    value: string,
+    x: number,
+    options: Partial<Extract<PdfElement, { kind: "text" }>> = {}
+  ) => elements.push({ kind: "text", x, y, text: value, size: BODY_SIZE, ...options });
+
+  y += 16;
+  text(org.name, MARGIN, { size: 16, font: "bold" });
+  y += 16;
+  const orgLines = [
+    org.legal_name,
+    ...(org.address ?? "").split(/\r?\n/),
+    [org.email, org.phone, org.website].filter(Boolean).join(" · ") || null,
+    org.tax_id ? `Tax ID: ${org.tax_id}` : null,
+  ].filter((line): line is string => Boolean(line && line.trim()));
+  for (const line of orgLines) {
+    text(line, MARGIN, { size: 9, color: MUTED });
+    y += 12;
+  }
+  elements.push({ kind: "line", x1: MARGIN, y1: y, x2: CONTENT_RIGHT, y2: y, color: RULE });
+
+  y += 30;
+  text(letter.date, CONTENT_RIGHT, { size: 10, align: "right" });
+  if (letter.reference) {
+    y += 14;
+    text(`Ref. ${letter.reference}`, CONTENT_RIGHT, { size: 10, align: "right" });
+  }
+  y += 30;
+  for (const line of wrapText(letter.title, CONTENT_WIDTH, 14, "bold")) {
+    text(line, MARGIN, { size: 14, font: "bold" });
+    y += 18;
+  }
+  y += 12;
+
+  const ensureSpace = (height: number) => {
+    if (y + height <= BOTTOM_LIMIT) return;
+    pages.push({ elements });
+    elements = [];
+    y = MARGIN;
+  };
+
+  for (const line of wrapText(letter.body.trim(), CONTENT_WIDTH, BODY_SIZE)) {
+    ensureSpace(BODY_LEADING);
+    if (line) text(line, MARGIN);
+    y += BODY_LEADING;
+  }
+
+  if (letter.signature) {
+    ensureSpace(80);
+    y += 40;
+    const lineEnd = MARGIN + 200;
+    elements.push({ kind: "line", x1: MARGIN, y1: y, x2: lineEnd, y2: y, color: MUTED });
+    y += 16;
+    text(letter.signature.name, MARGIN, { font: "bold" });
+    if (letter.signature.role) {
+      y += 14;
+      text(letter.signature.role, MARGIN, { size: 10, color: MUTED });
+    }
+  }
+  pages.push({ elements });
+
+  const footer = org.document_footer?.trim() ?? "";
+  pages.forEach((page, index) => {
+    if (footer) {
+      page.elements.push({
+        kind: "text",
+        x: MARGIN,
+        y: A4.height - 30,
+        text: footer,
+        size: 8,
+        color: MUTED,
+      });
+    }
+    const pageLabel = pages.length > 1 ? `${index + 1}/${pages.length}` : "";
+    const label = [letter.reference, pageLabel].filter(Boolean).join(" · ");
+    if (label) {
+      page.elements.push({
+        kind: "text",
+        x: CONTENT_RIGHT - measureText(label, 8),
+        y: A4.height - 30,
+        text: label,
+        size: 8,
+        color: MUTED,
+      });
+    }
+  });
+
+  return renderPdf(pages, { title: letter.title });
+}
@@ -0,0 +1,164 @@
+import type { ShuttleRun, TravelLeg } from "@/lib/travel/logistics";
+import { A4, renderPdf, wrapText, type PdfColor, type PdfElement, type PdfPageSpec } from "./document";
+
+// Driver manifests: one page per shuttle run with the passengers to pick up or drop off,
+// their flight or train and a box to tick when they board.
+
+export type ShuttleManifest = {
+  run: ShuttleRun;
+  passengers: TravelLeg[];
+};
+
+const MARGIN = 45;
+const CONTENT_RIGHT = A4.width - MARGIN;
+const BOTTOM_LIMIT = A4.height - 60;
+const MUTED: PdfColor = [0.4, 0.45, 0.5];
+const RULE: PdfColor = [0.8, 0.82, 0.85];
+const ROW_HEIGHT = 22;
+
+// Column left edges.
+const COLUMNS = {
+  boarded: MARGIN,
+  index: MARGIN + 24,
+  name: MARGIN + 46,
+  group: MARGIN + 196,
+  phone: MARGIN + 300,
+  travel: MARGIN + 400,
+  time: CONTENT_RIGHT - 30,
+};
+
+function formatRunDate(value: string): string {
+  return new Date(`${value}T00:00:00Z`).toLocaleDateString("en-GB", {
+    weekday: "long",
+    day: "numeric",
+    month: "long",
+    year: "numeric",
+    timeZone: "UTC",
+  });
+}
+
+function fit(value: string | null, width: number, bold = false): string {
+  const [line] = wrapText(value ?? "-", width - 6, 9, bold ? "bold" : "regular");
+  return line ?? "";
+}
+
+function manifestPages(eventName: string, manifest: ShuttleManifest): PdfPageSpec[] {
+  const { run, passengers } = manifest;
+  const pages: PdfPageSpec[] = [];
+  let elements: PdfElement[] = [];
+  let y = MARGIN;
+
+  const text = (
+    value: string,
+    x: number,
+    options: Partial<Extract<PdfElement, { kind: "text" }>> = {}
+  ) => elements.push({ kind: "text", x, y, text: value, size: 10, ...options });
+
+  const rule = () =>
+    elements.push({ kind: "line", x1: MARGIN, y1: y, x2: CONTENT_RIGHT, y2: y, color: RULE });
+
+  const route =
+    run.direction === "arrival" ? `${run.location} -> event venue` : `Event venue -> ${run.location}`;
+
+  y += 12;
+  text(eventName, MARGIN, { size: 9, color: MUTED });
+  y += 24;
+  text(`Shuttle manifest - ${run.departure_time}`, MARGIN, { size: 18, font: "bold" });
+  text(`${passengers.length}/${run.capacity}`, CONTENT_RIGHT, {
+    size: 18,
+    font: "bold",
+    align: "right",
+  });
+  y += 18;
+  text(`${formatRunDate(run.run_date)} · ${route}`, MARGIN, { size: 11 });
+  text("passengers", CONTENT_RIGHT, { size: 9, color: MUTED, align: "right" });
+
+  const details = [
+    run.driver_name
+      ? `Driver: ${[run.driver_name, run.driver_phone].filter(Boolean).join(", ")}`
+      : null,
+    run.vehicle ? `Vehicle: ${run.vehicle}` : null,
+  ].filter((line): line is string => Boolean(line));
+  for (const line of details) {
+    y += 15;
+    text(line, MARGIN, { size: 10, color: MUTED });
+  }
+  for (const line of run.notes ? wrapText(run.notes, CONTENT_RIGHT - MARGIN, 10) : []) {
+    y += 14;
+    text(line, MARGIN, { size: 10 });
+  }
+  y += 14;
+  rule();
+
+  const tableHeader = () => {
+    y += 18;
+    const header = { size: 8, font: "bold" as const, color: MUTED };
+    text("#", COLUMNS.index, header);
+    text("Name", COLUMNS.name, header);
+    text("Group", COLUMNS.group, header);
+    text("Phone", COLUMNS.phone, header);
+    text(run.direction === "arrival" ? "Arriving by" : "Leaving by", COLUMNS.travel, header);
+    text("Time", CONTENT_RIGHT, { ...header, align: "right" });
+    y += 6;
+    rule();
+  };
+  tableHeader();
+
+  if (passengers.length === 0) {
+    y += 20;
+    text("No passengers assigned yet.", MARGIN, { color: MUTED });
+  }
+
+  passengers.forEach((passenger, index) => {
+    if (y + ROW_HEIGHT > BOTTOM_LIMIT) {
+      pages.push({ elements });
+      elements = [];
+      y = MARGIN;
+      text(`Shuttle ${run.departure_time} ${run.location} (continued)`, MARGIN, {
+        size: 11,
+        font: "bold",
+      });
+      tableHeader();
+    }
+
+    y += ROW_HEIGHT;
+    elements.push({
+      kind: "rect",
+      x: COLUMNS.boarded,
+      y: y - 10,
+      width: 12,
+      height: 12,
+      stroke: [0, 0, 0],
+    });
+    text(String(index + 1), COLUMNS.index, { size: 9, color: MUTED });
+    text(fit(passenger.name, COLUMNS.group - COLUMNS.name, true), COLUMNS.name, {
+      size: 9,
+      font: "bold",
+    });
+    text(fit(passenger.group, COLUMNS.phone - COLUMNS.group), COLUMNS.group, { size: 9 });
+    text(fit(passenger.phone, COLUMNS.travel - COLUMNS.phone), COLUMNS.phone, { size: 9 });
+    text(
+      fit(
+        [passenger.mode, passenger.reference].filter(Boolean).join(" "),
+        COLUMNS.time - COLUMNS.travel
+      ),
+      COLUMNS.travel,
+      { size: 9 }
+    );
+    text(passenger.time ?? "-", CONTENT_RIGHT, { size: 9, align: "right" });
+    y += 6;
+    rule();
+  });
+
+  pages.push({ elements });
+  return pages;
+}
+
+export function renderShuttleManifestPdf(
+  eventName: string,
+  manifests: ShuttleManifest[],
+  title: string
+): Uint8Array {
+  const pages = manifests.flatMap((manifest) => manifestPages(eventName, manifest));
+  return renderPdf(pages.length > 0 ? pages : [{ elements: [] }], { title });
+}
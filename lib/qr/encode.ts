@@ -0,0 +1,373 @@
+// Minimal QR code encoder (ISO/IEC 18004) for badge codes: byte mode, error correction
+// level M, versions 1-10, which holds up to 213 bytes. Like the PDF writer it avoids a
+// dependency for the one thing the app needs.
+
+// true = dark module. Rows first: matrix[y][x].
+export type QrMatrix = boolean[][];
+
+type VersionSpec = {
+  ecPerBlock: number;
+  // [block count, data codewords per block] for each block group.
+  groups: Array<[number, number]>;
+  alignment: number[];
+};
+
+const LEVEL_M: VersionSpec[] = [
+  { ecPerBlock: 10, groups: [[1, 16]], alignment: [] },
+  { ecPerBlock: 16, groups: [[1, 28]], alignment: [6, 18] },
+  { ecPerBlock: 26, groups: [[1, 44]], alignment: [6, 22] },
+  { ecPerBlock: 18, groups: [[2, 32]], alignment: [6, 26] },
+  { ecPerBlock: 24, groups: [[2, 43]], alignment: [6, 30] },
+  { ecPerBlock: 16, groups: [[4, 27]], alignment: [6, 34] },
+  { ecPerBlock: 18, groups: [[4, 31]], alignment: [6, 22, 38] },
+  { ecPerBlock: 22, groups: [[2, 38], [2, 39]], alignment: [6, 24, 42] },
+  { ecPerBlock: 22, groups: [[3, 36], [2, 37]], alignment: [6, 26, 46] },
+  { ecPerBlock: 26, groups: [[4, 43], [1, 44]], alignment: [6, 28, 50] },
+];
+
+// Level M is 00 in the format information.
+const EC_LEVEL_BITS = 0b00;
+
+// --- Reed-Solomon over GF(256) with the QR polynomial x^8 + x^4 + x^3 + x^2 + 1.
+
+const GF_EXP = new Uint8Array(512);
+const GF_LOG = new Uint8Array(256);
+{
+  let value = 1;
+  for (let index = 0; index < 255; index += 1) {
+    GF_EXP[index] = value;
+    GF_LOG[value] = index;
+    value <<= 1;
+    if (value & 0x100) value ^= 0x11d;
+  }
+  for (let index = 255; index < 512; index += 1) {
+    GF_EXP[index] = GF_EXP[index - 255];
+  }
+}
+
+function gfMultiply(a: number, b: number): number {
+  if (a === 0 || b === 0) return 0;
+  return GF_EXP[GF_LOG[a] + GF_LOG[b]];
+}
+
+export function reedSolomonRemainder(data: number[], ecCount: number): number[] {
+  // Generator polynomial (x - a^0)(x - a^1)...(x - a^(ecCount-1)), highest term dropped.
+  let generator = [1];
+  for (let root = 0; root < ecCount; root += 1) {
+    const next = new Array<number>(generator.length + 1).fill(0);
+    for (let index = 0; index < generator.length; index += 1) {
+      next[index] ^= generator[index];
+      next[index + 1] ^= gfMultiply(generator[index], GF_EXP[root]);
+    }
+    generator = next;
+  }
+
+  const remainder = new Array<number>(ecCount).fill(0);
+  for (const byte of data) {
+    const factor = byte ^ (remainder.shift() ?? 0);
+    remainder.push(0);
+    for (let index = 0; index < ecCount; index += 1) {
+      remainder[index] ^= gfMultiply(generator[index + 1], factor);
+    }
+  }
+  return remainder;
+}
+
+// --- Data codewords.
+
+function dataCapacity(spec: VersionSpec): number {
+  return spec.groups.reduce((sum, [blocks, size]) => sum + blocks * size, 0);
+}
+
+function countBits(version: number): number {
+  return version <= 9 ? 8 : 16;
+}
+
+function pickVersion(byteLength: number): number {
+  for (let version = 1; version <= LEVEL_M.length; version += 1) {
+    const bits = 4 + countBits(version) + byteLength * 8;
+    if (bits <= dataCapacity(LEVEL_M[version - 1]) * 8) return version;
+  }
+  throw new Error("Text is too long for a QR code");
+}
+
+function buildCodewords(bytes: Uint8Array, version: number): number[] {
+  const spec = LEVEL_M[version - 1];
+  const capacity = dataCapacity(spec);
+  const bits: number[] = [];
+  const push = (value: number, length: number) => {
+    for (let bit = length - 1; bit >= 0; bit -= 1) bits.push((value >>> bit) & 1);
+  };
+
+  push(0b0100, 4);
+  push(bytes.length, countBits(version));
+  for (const byte of bytes) push(byte, 8);
+  push(0, Math.min(4, capacity * 8 - bits.length));
+  while (bits.length % 8 !== 0) bits.push(0);
+
+  const data: number[] = [];
+  for (let index = 0; index < bits.length; index += 8) {
+    data.push(bits.slice(index, index + 8).reduce((byte, bit) => (byte << 1) | bit, 0));
+  }
+  for (let pad = 0; data.length < capacity; pad += 1) {
+    data.push(pad % 2 === 0 ? 0xec : 0x11);
+  }
+
+  const blocks: number[][] = [];
+  let offset = 0;
+  for (const [count, size] of spec.groups) {
+    for (let block = 0; block < count; block += 1) {
+      blocks.push(data.slice(offset, offset + size));
+      offset += size;
+    }
+  }
+  const ecBlocks = blocks.map((block) => reedSolomonRemainder(block, spec.ecPerBlock));
+
+  const interleaved: number[] = [];
+  const longest = Math.max(...blocks.map((block) => block.length));
+  for (let index = 0; index < longest; index += 1) {
+    for (const block of blocks) {
+      if (index < block.length) interleaved.push(block[index]);
+    }
+  }
+  for (let index = 0; index < spec.ecPerBlock; index += 1) {
+    for (const block of ecBlocks) interleaved.push(block[index]);
+  }
+  return interleaved;
+}
+
+// --- Format and version information (BCH codes).
+
+function bchRemainder(value: number, generator: number, generatorBits: number): number {
+  let remainder = value;
+  for (let bit = 31 - Math.clz32(remainder); bit >= generatorBits - 1; bit -= 1) {
+    if (remainder & (1 << bit)) remainder ^= generator << (bit - generatorBits + 1);
+  }
+  return remainder;
+}
+
+export function formatInformationBits(mask: number): number {
+  const data = (EC_LEVEL_BITS << 3) | mask;
+  return ((data << 10) | bchRemainder(data << 10, 0x537, 11)) ^ 0x5412;
+}
+
+export function versionInformationBits(version: number): number {
+  return (version << 12) | bchRemainder(version << 12, 0x1f25, 13);
+}
+
+// --- Matrix construction.
+
+type Grid = {
+  size: number;
+  dark: boolean[][];
+  reserved: boolean[][];
+};
+
+function createGrid(version: number): Grid {
+  const size = 17 + version * 4;
+  return {
+    size,
+    dark: Array.from({ length: size }, () => new Array<boolean>(size).fill(false)),
+    reserved: Array.from({ length: size }, () => new Array<boolean>(size).fill(false)),
+  };
+}
+
+function setFunction(grid: Grid, x: number, y: number, dark: boolean) {
+  if (x < 0 || y < 0 || x >= grid.size || y >= grid.size) return;
+  grid.dark[y][x] = dark;
+  grid.reserved[y][x] = true;
+}
+
+function drawFinder(grid: Grid, left: number, top: number) {
+  // 7x7 pattern plus the light separator around it.
+  for (let dy = -1; dy <= 7; dy += 1) {
+    for (let dx = -1; dx <= 7; dx += 1) {
+      const ring = Math.max(Math.abs(dx - 3), Math.abs(dy - 3));
+      setFunction(grid, left + dx, top + dy, ring !== 2 && ring !== 4);
+    }
+  }
+}
+
+function drawFunctionPatterns(grid: Grid, version: number) {
+  const { size } = grid;
+  drawFinder(grid, 0, 0);
+  drawFinder(grid, size - 7, 0);
+  drawFinder(grid, 0, size - 7);
+
+  for (let index = 8; index < size - 8; index += 1) {
+    setFunction(grid, index, 6, index % 2 === 0);
+    setFunction(grid, 6, index, index % 2 === 0);
+  }
+
+  const positions = LEVEL_M[version - 1].alignment;
+  const last = positions.length - 1;
+  positions.forEach((cy, row) => {
+    positions.forEach((cx, column) => {
+      // Skip the three corners taken by finder patterns.
+      const finderCorner =
+        (row === 0 && column === 0) ||
+        (row === 0 && column === last) ||
+        (row === last && column === 0);
+      if (finderCorner) return;
+      for (let dy = -2; dy <= 2; dy += 1) {
+        for (let dx = -2; dx <= 2; dx += 1) {
+          setFunction(grid, cx + dx, cy + dy, Math.max(Math.abs(dx), Math.abs(dy)) !== 1);
+        }
+      }
+    });
+  });
+
+  // Reserve the format areas now; they are written once the mask is known.
+  drawFormatInformation(grid, 0);
+  setFunction(grid, 8, size - 8, true);
+
+  if (version >= 7) {
+    const bits = versionInformationBits(version);
+    for (let index = 0; index < 18; index += 1) {
+      const dark = ((bits >>> index) & 1) === 1;
+      const a = Math.floor(index / 3);
+      const b = size - 11 + (index % 3);
+      setFunction(grid, a, b, dark);
+      setFunction(grid, b, a, dark);
+    }
+  }
+}
+
+function drawFormatInformation(grid: Grid, mask: number) {
+  const { size } = grid;
+  const bits = formatInformationBits(mask);
+  const bit = (index: number) => ((bits >>> index) & 1) === 1;
+
+  // Copy around the top-left finder.
+  for (let index = 0; index <= 5; index += 1) setFunction(grid, 8, index, bit(index));
+  setFunction(grid, 8, 7, bit(6));
+  setFunction(grid, 8, 8, bit(7));
+  setFunction(grid, 7, 8, bit(8));
+  for (let index = 9; index < 15; index += 1) setFunction(grid, 14 - index, 8, bit(index));
+
+  // Copy split between the other two finders.
+  for (let index = 0; index < 8; index += 1) setFunction(grid, size - 1 - index, 8, bit(index));
+  for (let index = 8; index < 15; index += 1) setFunction(grid, 8, size - 15 + index, bit(index));
+}
+
+function placeCodewords(grid: Grid, codewords: number[]) {
+  const { size } = grid;
+  const totalBits = codewords.length * 8;
+  let bitIndex = 0;
+
+  // Two-module columns from the right edge, zigzagging up and down; column 6 is timing.
+  for (let right = size - 1; right >= 1; right -= 2) {
+    if (right === 6) right = 5;
+    const upward = ((right + 1) & 2) === 0;
+    for (let step = 0; step < size; step += 1) {
+      const y = upward ? size - 1 - step : step;
+      for (let dx = 0; dx < 2; dx += 1) {
+        const x = right - dx;
+        if (grid.reserved[y][x]) continue;
+        // Remainder bits beyond the codewords stay light.
+        if (bitIndex < totalBits) {
+          grid.dark[y][x] = ((codewords[bitIndex >>> 3] >>> (7 - (bitIndex & 7))) & 1) === 1;
+        }
+        bitIndex += 1;
+      }
+    }
+  }
+}
+
+const MASKS: Array<(x: number, y: number) => boolean> = [
+  (x, y) => (x + y) % 2 === 0,
+  (_x, y) => y % 2 === 0,
+  (x) => x % 3 === 0,
+  (x, y) => (x + y) % 3 === 0,
+  (x, y) => (Math.floor(y / 2) + Math.floor(x / 3)) % 2 === 0,
+  (x, y) => ((x * y) % 2) + ((x * y) % 3) === 0,
+  (x, y) => (((x * y) % 2) + ((x * y) % 3)) % 2 === 0,
+  (x, y) => (((x + y) % 2) + ((x * y) % 3)) % 2 === 0,
+];
+
+function applyMask(grid: Grid, mask: number) {
+  for (let y = 0; y < grid.size; y += 1) {
+    for (let x = 0; x < grid.size; x += 1) {
+      if (!grid.reserved[y][x] && MASKS[mask](x, y)) grid.dark[y][x] = !grid.dark[y][x];
+    }
+  }
+}
+
+// Penalty score of the standard's mask evaluation: runs, 2x2 blocks, finder-like
+// patterns and dark/light balance. The mask with the lowest score is used.
+function penalty(matrix: boolean[][]): number {
+  const size = matrix.length;
+  let score = 0;
+  const finderLike = [true, false, true, true, true, false, true];
+
+  const lines: boolean[][] = [];
+  for (let index = 0; index < size; index += 1) {
+    lines.push(matrix[index]);
+    lines.push(matrix.map((row) => row[index]));
+  }
+  for (const line of lines) {
+    let run = 1;
+    for (let index = 1; index <= size; index += 1) {
+      if (index < size && line[index] === line[index - 1]) {
+        run += 1;
+      } else {
+        if (run >= 5) score += run - 2;
+        run = 1;
+      }
+    }
+    for (let index = 0; index + 7 <= size; index += 1) {
+      if (!finderLike.every((dark, offset) => line[index + offset] === dark)) continue;
+      const lightBefore = index >= 4 && line.slice(index - 4, index).every((dark) => !dark);
+      const lightAfter =
+        index + 11 <= size && line.slice(index + 7, index + 11).every((dark) => !dark);
+      if (lightBefore || lightAfter) score += 40;
+    }
+  }
+
+  let darkCount = 0;
+  for (let y = 0; y < size; y += 1) {
+    for (let x = 0; x < size; x += 1) {
+      if (matrix[y][x]) darkCount += 1;
+      if (
+        x + 1 < size &&
+        y + 1 < size &&
+        matrix[y][x] === matrix[y][x + 1] &&
+        matrix[y][x] === matrix[y + 1][x] &&
+        matrix[y][x] === matrix[y + 1][x + 1]
+      ) {
+        score += 3;
+      }
+    }
+  }
+  score += Math.floor(Math.abs((darkCount * 100) / (size * size) - 50) / 5) * 10;
+  return score;
+}
+
+export function encodeQr(text: string): QrMatrix {
+  const bytes = new TextEncoder().encode(text);
+  const version = pickVersion(bytes.length);
+  const codewords = buildCodewords(bytes, version);
+
+  let best: { matrix: QrMatrix; score: number } | null = null;
+  for (let mask = 0; mask < MASKS.length; mask += 1) {
+    const grid = createGrid(version);
+    drawFunctionPatterns(grid, version);
+    placeCodewords(grid, codewords);
+    applyMask(grid, mask);
+    drawFormatInformation(grid, mask);
+    const score = penalty(grid.dark);
+    if (!best || score < best.score) best = { matrix: grid.dark, score };
+  }
+  return best!.matrix;
+}
+
+// SVG path of the dark modules in a viewBox of the matrix size, without the quiet zone.
+export function qrSvgPath(matrix: QrMatrix): string {
+  const parts: string[] = [];
+  matrix.forEach((row, y) => {
+    row.forEach((dark, x) => {
+      if (dark) parts.push(`M${x} ${y}h1v1h-1z`);
+    });
+  });
+  return parts.join("");
+}
@@ -0,0 +1,188 @@
+import type { PostgrestError, SupabaseClient } from "@supabase/supabase-js";
+import {
+  UNLIMITED_CAPACITY,
+  parseCapacitySettings,
+  type CapacitySettings,
+  type CapacityStay,
+} from "@/lib/registration/capacity";
+
+const MISSING_TABLE_CODES = new Set(["42P01", "PGRST205"]);
+const MISSING_FUNCTION_CODES = new Set(["42883", "PGRST202"]);
+const MISSING_COLUMN_CODES = new Set(["42703", "PGRST204"]);
+
+const REGISTRATION_FIELDS = "id,registration_status,waitlist_position,waitlisted_at,waitlist_reason";
+
+export type CapacityConfig = CapacitySettings & {
+  promotion_subject: string;
+  promotion_html: string;
+  updated_at: string | null;
+};
+
+export type RegistrationStatusDecision =
+  | { registration_status: "confirmed" }
+  | {
+      registration_status: "waitlisted";
+      waitlist_position: number;
+      waitlisted_at: string;
+      waitlist_reason: string;
+    };
+
+export type RegisteredParticipant = { id: string } & RegistrationStatusDecision;
+
+type RegistrationInsertRow = {
+  id: string;
+  registration_status: string;
+  waitlist_position: number | null;
+  waitlisted_at: string | null;
+  waitlist_reason: string | null;
+};
+
+type CapacitySettingsRow = {
+  total_limit: number | null;
+  accommodation_limits: unknown;
+  nightly_limit: number | null;
+  night_limits: unknown;
+  promotion_subject: string;
+  promotion_html: string;
+  updated_at: string;
+};
+
+// Returns null when the capacity migration has not been applied yet.
+export async function loadCapacityConfig(service: SupabaseClient): Promise<CapacityConfig | null> {
+  const { data, error } = await service
+    .from("registration_capacity_settings")
+    .select(
+      "total_limit,accommodation_limits,nightly_limit,night_limits,promotion_subject,promotion_html,updated_at"
+    )
+    .eq("id", true)
+    .maybeSingle();
+
+  if (error) {
+    if (MISSING_TABLE_CODES.has(error.code ?? "")) return null;
+    throw new Error(error.message);
+  }
+
+  const row = data as CapacitySettingsRow | null;
+  if (!row) return null;
+
+  // Rows are validated on save; a hand-edited invalid row falls back to "no limits".
+  const parsed = parseCapacitySettings(row);
+  return {
+    ...("error" in parsed ? UNLIMITED_CAPACITY : parsed.settings),
+    promotion_subject: row.promotion_subject,
+    promotion_html: row.promotion_html,
+    updated_at: row.updated_at,
+  };
+}
+
+export async function saveCapacityConfig(
+  service: SupabaseClient,
+  actorId: string,
+  settings: CapacitySettings,
+  template: { promotion_subject: string; promotion_html: string }
+) {
+  const { error } = await service.from("registration_capacity_settings").upsert(
+    {
+      id: true,
+      ...settings,
+      ...template,
+      updated_by: actorId,
+    },
+    { onConflict: "id" }
+  );
+
+  if (error) {
+    throw new Error(error.message);
+  }
+}
+
+export async function loadConfirmedStays(
+  service: SupabaseClient,
+  excludeParticipantId?: string
+): Promise<CapacityStay[]> {
+  let query = service
+    .from("partecipanti")
+    .select("id,data_arrivo,data_partenza,alloggio_short")
+    .eq("registration_status", "confirmed");
+
+  if (excludeParticipantId) {
+    query = query.neq("id", excludeParticipantId);
+  }
+
+  const { data, error } = await query;
+  if (error) {
+    throw new Error(error.message);
+  }
+
+  return (data ?? []) as CapacityStay[];
+}
+
+function registeredParticipant(row: RegistrationInsertRow): RegisteredParticipant {
+  if (row.registration_status !== "waitlisted") {
+    return { id: row.id, registration_status: "confirmed" };
+  }
+  return {
+    id: row.id,
+    registration_status: "waitlisted",
+    waitlist_position: row.waitlist_position ?? 0,
+    waitlisted_at: row.waitlisted_at ?? new Date().toISOString(),
+    waitlist_reason: row.waitlist_reason ?? "",
+  };
+}
+
+// The registration already stored for a submission, so a repeated delivery is answered
+// with the status it got the first time. Null when there is none yet.
+export async function loadRegistrationBySubmissionId(
+  service: SupabaseClient,
+  submissionId: string
+): Promise<RegisteredParticipant | null> {
+  const { data, error } = await service
+    .from("partecipanti")
+    .select(REGISTRATION_FIELDS)
+    .eq("tally_submission_id", submissionId)
+    .limit(1)
+    .maybeSingle();
+
+  if (error && MISSING_COLUMN_CODES.has(error.code ?? "")) {
+    // Before the capacity migration every registration is confirmed.
+    const { data: legacy, error: legacyError } = await service
+      .from("partecipanti")
+      .select("id")
+      .eq("tally_submission_id", submissionId)
+      .limit(1)
+      .maybeSingle();
+
+    if (legacyError) {
+      if (MISSING_COLUMN_CODES.has(legacyError.code ?? "")) return null;
+      throw new Error(legacyError.message);
+    }
+    return legacy ? { id: (legacy as { id: string }).id, registration_status: "confirmed" } : null;
+  }
+  if (error) {
+    throw new Error(error.message);
+  }
+
+  return data ? registeredParticipant(data as RegistrationInsertRow) : null;
+}
+
+// Inserts a registration as confirmed or waitlisted. The capacity check and the waitlist
+// position are decided in the database (insert_registration_with_capacity) with the
+// settings row locked, so two concurrent registrations cannot both take the last place
+// or share a position. Errors are returned, not thrown, so callers can inspect the code.
+// Before the capacity migration the row is inserted as is and counts as confirmed.
+export async function insertRegistration(
+  service: SupabaseClient,
+  row: Record<string, unknown>
+): Promise<{ data: RegisteredParticipant | null; error: PostgrestError | null }> {
+  const { data, error } = await service.rpc("insert_registration_with_capacity", { p_row: row });
+
+  if (error && MISSING_FUNCTION_CODES.has(error.code ?? "")) {
+    const fallback = await service.from("partecipanti").insert(row).select("id").single();
+    if (fallback.error) return { data: null, error: fallback.error };
+    const inserted = fallback.data as { id: string };
+    return { data: { id: inserted.id, registration_status: "confirmed" }, error: null };
+  }
+  if (error) return { data: null, error };
+
+  return { data: registeredParticipant(data as RegistrationInsertRow), error: null };
+}
@@ -0,0 +1,219 @@
+// Registration capacity: an overall cap, caps per accommodation type (alloggio_short) and
+// caps per night. Nights are derived from the stay: arrival is the first night, departure
+// day is not a night. Only confirmed registrations consume capacity.
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const DATE_ONLY_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+export type CapacitySettings = {
+  total_limit: number | null;
+  accommodation_limits: Record<string, number>;
+  // Applies to every night without an explicit entry in night_limits.
+  nightly_limit: number | null;
+  night_limits: Record<string, number>;
+};
+
+export type CapacityStay = {
+  data_arrivo: string | null;
+  data_partenza: string | null;
+  alloggio_short: string | null;
+};
+
+export type CapacityBreach =
+  | { kind: "total"; limit: number; used: number }
+  | { kind: "accommodation"; key: string; limit: number; used: number }
+  | { kind: "night"; night: string; limit: number; used: number };
+
+export type CapacityUsage = {
+  total: { used: number; limit: number | null };
+  accommodation: Array<{ key: string; used: number; limit: number | null }>;
+  nights: Array<{ night: string; used: number; limit: number | null }>;
+};
+
+export const UNLIMITED_CAPACITY: CapacitySettings = {
+  total_limit: null,
+  accommodation_limits: {},
+  nightly_limit: null,
+  night_limits: {},
+};
+
+function parseDateOnlyUtc(value: string | null): Date | null {
+  if (!value || !DATE_ONLY_PATTERN.test(value)) return null;
+  const date = new Date(`${value}T00:00:00Z`);
+  return Number.isNaN(date.getTime()) ? null : date;
+}
+
+function accommodationKey(value: string | null): string {
+  return (value ?? "").trim();
+}
+
+export function stayNights(arrival: string | null, departure: string | null): string[] {
+  const from = parseDateOnlyUtc(arrival);
+  const to = parseDateOnlyUtc(departure);
+  if (!from || !to) return [];
+
+  const nights: string[] = [];
+  for (let time = from.getTime(); time < to.getTime(); time += DAY_MS) {
+    nights.push(new Date(time).toISOString().slice(0, 10));
+  }
+  return nights;
+}
+
+export function nightLimit(settings: CapacitySettings, night: string): number | null {
+  return settings.night_limits[night] ?? settings.nightly_limit;
+}
+
+export function hasCapacityLimits(settings: CapacitySettings): boolean {
+  return (
+    settings.total_limit !== null ||
+    settings.nightly_limit !== null ||
+    Object.keys(settings.accommodation_limits).length > 0 ||
+    Object.keys(settings.night_limits).length > 0
+  );
+}
+
+function countUsage(confirmed: CapacityStay[]) {
+  const byAccommodation = new Map<string, number>();
+  const byNight = new Map<string, number>();
+
+  for (const stay of confirmed) {
+    const key = accommodationKey(stay.alloggio_short);
+    if (key) byAccommodation.set(key, (byAccommodation.get(key) ?? 0) + 1);
+    for (const night of stayNights(stay.data_arrivo, stay.data_partenza)) {
+      byNight.set(night, (byNight.get(night) ?? 0) + 1);
+    }
+  }
+
+  return { total: confirmed.length, byAccommodation, byNight };
+}
+
+// Returns every limit the candidate would push past; an empty list means it fits.
+export function findCapacityBreaches(
+  settings: CapacitySettings,
+  confirmed: CapacityStay[],
+  candidate: CapacityStay
+): CapacityBreach[] {
+  const usage = countUsage(confirmed);
+  const breaches: CapacityBreach[] = [];
+
+  if (settings.total_limit !== null && usage.total + 1 > settings.total_limit) {
+    breaches.push({ kind: "total", limit: settings.total_limit, used: usage.total });
+  }
+
+  const key = accommodationKey(candidate.alloggio_short);
+  const accommodationLimit = key ? settings.accommodation_limits[key] : undefined;
+  if (accommodationLimit !== undefined) {
+    const used = usage.byAccommodation.get(key) ?? 0;
+    if (used + 1 > accommodationLimit) {
+      breaches.push({ kind: "accommodation", key, limit: accommodationLimit, used });
+    }
+  }
+
+  for (const night of stayNights(candidate.data_arrivo, candidate.data_partenza)) {
+    const limit = nightLimit(settings, night);
+    if (limit === null) continue;
+    const used = usage.byNight.get(night) ?? 0;
+    if (used + 1 > limit) {
+      breaches.push({ kind: "night", night, limit, used });
+    }
+  }
+
+  return breaches;
+}
+
+export function describeCapacityBreach(breach: CapacityBreach): string {
+  switch (breach.kind) {
+    case "total":
+      return `Overall capacity reached (${breach.used}/${breach.limit})`;
+    case "accommodation":
+      return `Accommodation "${breach.key}" is full (${breach.used}/${breach.limit})`;
+    case "night":
+      return `Night ${breach.night} is full (${breach.used}/${breach.limit})`;
+  }
+}
+
+export function summarizeCapacity(
+  settings: CapacitySettings,
+  confirmed: CapacityStay[]
+): CapacityUsage {
+  const usage = countUsage(confirmed);
+  const accommodationKeys = new Set([
+    ...usage.byAccommodation.keys(),
+    ...Object.keys(settings.accommodation_limits),
+  ]);
+  const nights = new Set([...usage.byNight.keys(), ...Object.keys(settings.night_limits)]);
+
+  return {
+    total: { used: usage.total, limit: settings.total_limit },
+    accommodation: [...accommodationKeys]
+      .sort((a, b) => a.localeCompare(b))
+      .map((key) => ({
+        key,
+        used: usage.byAccommodation.get(key) ?? 0,
+        limit: settings.accommodation_limits[key] ?? null,
+      })),
+    nights: [...nights].sort().map((night) => ({
+      night,
+      used: usage.byNight.get(night) ?? 0,
+      limit: nightLimit(settings, night),
+    })),
+  };
+}
+
+function parseLimit(value: unknown): number | null | undefined {
+  if (value === null || value === undefined || value === "") return null;
+  const numeric = typeof value === "number" ? value : Number(value);
+  if (!Number.isInteger(numeric) || numeric < 0) return undefined;
+  return numeric;
+}
+
+function parseLimitMap(
+  value: unknown,
+  name: string,
+  validateKey: (key: string) => boolean
+): { limits: Record<string, number> } | { error: string } {
+  if (value === null || value === undefined) return { limits: {} };
+  if (typeof value !== "object" || Array.isArray(value)) {
+    return { error: `${name} must be an object` };
+  }
+
+  const limits: Record<string, number> = {};
+  for (const [rawKey, rawLimit] of Object.entries(value as Record<string, unknown>)) {
+    const key = rawKey.trim();
+    if (!key || !validateKey(key)) return { error: `${name}: invalid key "${rawKey}"` };
+    const limit = parseLimit(rawLimit);
+    if (limit === undefined) return { error: `${name}.${key} must be a whole number` };
+    if (limit !== null) limits[key] = limit;
+  }
+  return { limits };
+}
+
+export function parseCapacitySettings(
+  value: unknown
+): { settings: CapacitySettings } | { error: string } {
+  if (!value || typeof value !== "object" || Array.isArray(value)) {
+    return { error: "Capacity settings must be an object" };
+  }
+
+  const raw = value as Record<string, unknown>;
+  const totalLimit = parseLimit(raw.total_limit);
+  const nightlyLimit = parseLimit(raw.nightly_limit);
+  if (totalLimit === undefined) return { error: "total_limit must be a whole number" };
+  if (nightlyLimit === undefined) return { error: "nightly_limit must be a whole number" };
+
+  const accommodationLimits = parseLimitMap(raw.accommodation_limits, "accommodation_limits", () => true);
+  if ("error" in accommodationLimits) return accommodationLimits;
+  const nightLimits = parseLimitMap(raw.night_limits, "night_limits", (key) =>
+    Boolean(parseDateOnlyUtc(key))
+  );
+  if ("error" in nightLimits) return nightLimits;
+
+  return {
+    settings: {
+      total_limit: totalLimit,
+      accommodation_limits: accommodationLimits.limits,
+      nightly_limit: nightlyLimit,
+      night_limits: nightLimits.limits,
+    },
+  };
+}
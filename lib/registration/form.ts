@@ -0,0 +1,269 @@
+import {
+  ALLOGGIO_OPTIONS,
+  ARRIVAL_DATE_MAX,
+  ARRIVAL_DATE_MIN,
+  DEPARTURE_DATE_MAX,
+  DEPARTURE_DATE_MIN,
+  DIFFICOLTA_ACCESSIBILITA_OPTIONS,
+  ESIGENZE_ALIMENTARI_OPTIONS,
+} from "@/lib/partecipante/constants";
+import type { FieldMappingResult } from "@/lib/tally/field-mapping";
+
+export type RegistrationFormInput = {
+  nome: string;
+  cognome: string;
+  email: string;
+  telefono: string;
+  data_nascita: string;
+  sesso: string;
+  nazione: string;
+  paese_residenza: string;
+  citta: string;
+  gruppo_roma: string;
+  gruppo_leader: string;
+  tipo_iscrizione: string;
+  partecipa_intero_evento: boolean;
+  data_arrivo: string;
+  data_partenza: string;
+  alloggio: string;
+  esigenze_alimentari: string[];
+  allergie: string;
+  disabilita_accessibilita: boolean;
+  difficolta_accessibilita: string[];
+  note: string;
+  privacy_accettata: boolean;
+};
+
+export type RegistrationField = keyof RegistrationFormInput;
+
+// An i18n key plus params, so the form and the API report the same message.
+export type RegistrationError = {
+  field: RegistrationField;
+  key: string;
+  params?: Record<string, string>;
+};
+
+export const REGISTRATION_STEPS: Array<{ id: string; fields: RegistrationField[] }> = [
+  {
+    id: "personal",
+    fields: ["nome", "cognome", "email", "telefono", "data_nascita", "sesso", "nazione"],
+  },
+  {
+    id: "group",
+    fields: ["paese_residenza", "citta", "gruppo_roma", "gruppo_leader", "tipo_iscrizione"],
+  },
+  {
+    id: "stay",
+    fields: ["partecipa_intero_evento", "data_arrivo", "data_partenza", "alloggio"],
+  },
+  {
+    id: "needs",
+    fields: [
+      "esigenze_alimentari",
+      "allergie",
+      "disabilita_accessibilita",
+      "difficolta_accessibilita",
+      "note",
+    ],
+  },
+  { id: "review", fields: ["privacy_accettata"] },
+];
+
+export const EMPTY_REGISTRATION: RegistrationFormInput = {
+  nome: "",
+  cognome: "",
+  email: "",
+  telefono: "",
+  data_nascita: "",
+  sesso: "",
+  nazione: "",
+  paese_residenza: "",
+  citta: "",
+  gruppo_roma: "",
+  gruppo_leader: "",
+  tipo_iscrizione: "",
+  partecipa_intero_evento: true,
+  data_arrivo: ARRIVAL_DATE_MIN,
+  data_partenza: DEPARTURE_DATE_MAX,
+  alloggio: "",
+  esigenze_alimentari: [],
+  allergie: "",
+  disabilita_accessibilita: false,
+  difficolta_accessibilita: [],
+  note: "",
+  privacy_accettata: false,
+};
+
+// Suggestions for the free-text answers, worded like the Tally form (English / Italian)
+// so native and Tally registrations read the same in lists and fee rules.
+export const REGISTRATION_SUGGESTIONS: { sesso: string[]; tipoIscrizione: string[] } = {
+  sesso: ["Male / Maschio", "Female / Femmina"],
+  tipoIscrizione: [
+    "Participant / Partecipante",
+    "Group leader / Capogruppo",
+    "Volunteer / Volontario",
+  ],
+};
+
+const EMAIL_REGEX = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+const DATE_ONLY_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const ALLOGGIO_SET = new Set<string>(ALLOGGIO_OPTIONS);
+const ESIGENZE_SET = new Set<string>(ESIGENZE_ALIMENTARI_OPTIONS);
+const DIFFICOLTA_SET = new Set<string>(DIFFICOLTA_ACCESSIBILITA_OPTIONS);
+
+export function isRomeCity(value: string): boolean {
+  return value.trim().toLowerCase() === "roma";
+}
+
+function text(value: unknown): string {
+  return typeof value === "string" ? value.trim() : "";
+}
+
+function list(value: unknown): string[] {
+  if (!Array.isArray(value)) return [];
+  return [...new Set(value.map(text).filter(Boolean))];
+}
+
+export function parseRegistrationInput(value: unknown): RegistrationFormInput {
+  const raw =
+    value && typeof value === "object" && !Array.isArray(value)
+      ? (value as Record<string, unknown>)
+      : {};
+
+  return {
+    nome: text(raw.nome),
+    cognome: text(raw.cognome),
+    email: text(raw.email).toLowerCase(),
+    telefono: text(raw.telefono),
+    data_nascita: text(raw.data_nascita),
+    sesso: text(raw.sesso),
+    nazione: text(raw.nazione),
+    paese_residenza: text(raw.paese_residenza),
+    citta: text(raw.citta),
+    gruppo_roma: text(raw.gruppo_roma),
+    gruppo_leader: text(raw.gruppo_leader),
+    tipo_iscrizione: text(raw.tipo_iscrizione),
+    partecipa_intero_evento: raw.partecipa_intero_evento === true,
+    data_arrivo: text(raw.data_arrivo),
+    data_partenza: text(raw.data_partenza),
+    alloggio: text(raw.alloggio),
+    esigenze_alimentari: list(raw.esigenze_alimentari),
+    allergie: text(raw.allergie),
+    disabilita_accessibilita: raw.disabilita_accessibilita === true,
+    difficolta_accessibilita: raw.disabilita_accessibilita === true ? list(raw.difficolta_accessibilita) : [],
+    note: text(raw.note),
+    privacy_accettata: raw.privacy_accettata === true,
+  };
+}
+
+function validateField(
+  input: RegistrationFormInput,
+  field: RegistrationField
+): RegistrationError | null {
+  const required = (key = "register.error.required") =>
+    ({ field, key }) satisfies RegistrationError;
+
+  switch (field) {
+    case "nome":
+    case "cognome":
+    case "nazione":
+    case "paese_residenza":
+    case "citta":
+    case "sesso":
+      return input[field] ? null : required();
+    case "email":
+      if (!input.email) return required();
+      return EMAIL_REGEX.test(input.email) ? null : { field, key: "register.error.email" };
+    case "data_nascita":
+      if (!input.data_nascita) return required();
+      return DATE_ONLY_PATTERN.test(input.data_nascita) && input.data_nascita < ARRIVAL_DATE_MIN
+        ? null
+        : { field, key: "register.error.date" };
+    case "gruppo_roma":
+      return isRomeCity(input.citta) && !input.gruppo_roma ? required() : null;
+    case "data_arrivo":
+      if (!input.data_arrivo) return required();
+      return input.data_arrivo >= ARRIVAL_DATE_MIN && input.data_arrivo <= ARRIVAL_DATE_MAX
+        ? null
+        : {
+            field,
+            key: "participant.form.allowedBetween",
+            params: { min: ARRIVAL_DATE_MIN, max: ARRIVAL_DATE_MAX },
+          };
+    case "data_partenza":
+      if (!input.data_partenza) return required();
+      if (input.data_partenza < DEPARTURE_DATE_MIN || input.data_partenza > DEPARTURE_DATE_MAX) {
+        return {
+          field,
+          key: "participant.form.allowedBetween",
+          params: { min: DEPARTURE_DATE_MIN, max: DEPARTURE_DATE_MAX },
+        };
+      }
+      return input.data_arrivo && input.data_partenza < input.data_arrivo
+        ? { field, key: "register.error.departureBeforeArrival" }
+        : null;
+    case "alloggio":
+      if (!input.alloggio) return required();
+      return ALLOGGIO_SET.has(input.alloggio) ? null : { field, key: "register.error.option" };
+    case "esigenze_alimentari":
+      return input.esigenze_alimentari.every((item) => ESIGENZE_SET.has(item))
+        ? null
+        : { field, key: "register.error.option" };
+    case "difficolta_accessibilita":
+      return input.difficolta_accessibilita.every((item) => DIFFICOLTA_SET.has(item))
+        ? null
+        : { field, key: "register.error.option" };
+    case "privacy_accettata":
+      return input.privacy_accettata ? null : { field, key: "register.error.privacy" };
+    default:
+      return null;
+  }
+}
+
+export function validateRegistrationStep(
+  input: RegistrationFormInput,
+  stepIndex: number
+): RegistrationError[] {
+  const step = REGISTRATION_STEPS[stepIndex];
+  if (!step) return [];
+  return step.fields
+    .map((field) => validateField(input, field))
+    .filter((error): error is RegistrationError => error !== null);
+}
+
+export function validateRegistration(input: RegistrationFormInput): RegistrationError[] {
+  return REGISTRATION_STEPS.flatMap((_, index) => validateRegistrationStep(input, index));
+}
+
+// Produces the same per-column values the Tally field mapping yields, so both entry points
+// go through buildNormalizedSubmission and end up with identical participant rows.
+export function registrationToMappedValues(
+  input: RegistrationFormInput,
+  submittedAt: string
+): FieldMappingResult["values"] {
+  return {
+    nome: input.nome,
+    cognome: input.cognome,
+    email: input.email,
+    telefono: input.telefono || null,
+    tipo_iscrizione: input.tipo_iscrizione || null,
+    data_nascita: input.data_nascita,
+    sesso: input.sesso,
+    nazione: input.nazione,
+    paese_residenza: input.paese_residenza,
+    "città": input.citta,
+    gruppo_roma: isRomeCity(input.citta) ? input.gruppo_roma : null,
+    gruppo_leader: input.gruppo_leader || null,
+    partecipa_intero_evento: input.partecipa_intero_evento,
+    data_arrivo: input.data_arrivo,
+    data_partenza: input.data_partenza,
+    alloggio: input.alloggio,
+    esigenze_alimentari: input.esigenze_alimentari.join(", ") || null,
+    allergie: input.allergie || null,
+    disabilita_accessibilita: input.disabilita_accessibilita,
+    difficolta_accessibilita: input.difficolta_accessibilita.join(", ") || null,
+    note: input.note || null,
+    privacy_accettata: input.privacy_accettata,
+    submitted_at_tally: submittedAt,
+  };
+}
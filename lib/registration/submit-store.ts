@@ -0,0 +1,75 @@
+import {
+  parseRegistrationInput,
+  registrationToMappedValues,
+  validateRegistration,
+  type RegistrationError,
+} from "@/lib/registration/form";
+import {
+  REGISTRATION_FORM_SOURCE,
+  buildRegistrationPayload,
+  registrationSubmissionId,
+} from "@/lib/registration/submit";
+import {
+  buildNormalizedSubmission,
+  logWebhookEvent,
+  registerSubmission,
+  type SupabaseServiceClient,
+  type TallySubmissionResult,
+} from "@/lib/tally/submission";
+import { parseStoredLocale } from "@/lib/i18n";
+
+export type RegistrationFormResult =
+  | { validationErrors: RegistrationError[] }
+  | { error: string; status: number }
+  | { result: TallySubmissionResult };
+
+// Native form submissions are stored in webhook_events with the same shape the replay
+// queue expects: the raw body is the JSON the browser posted.
+export async function processRegistrationForm(
+  supabase: SupabaseServiceClient,
+  body: Record<string, unknown>,
+  options: { rawBody: string | null; replayOf?: string | null; submittedAt?: string }
+): Promise<RegistrationFormResult> {
+  const input = parseRegistrationInput(body.answers);
+  const validationErrors = validateRegistration(input);
+  if (validationErrors.length > 0) {
+    return { validationErrors };
+  }
+
+  const submissionId = registrationSubmissionId(body.clientId);
+  if (!submissionId) {
+    return { error: "clientId must be a UUID", status: 400 };
+  }
+
+  const submittedAt = options.submittedAt ?? new Date().toISOString();
+  const payload = buildRegistrationPayload(input, submissionId, submittedAt);
+  const eventContext = {
+    rawBody: options.rawBody,
+    replayOf: options.replayOf ?? null,
+    source: REGISTRATION_FORM_SOURCE,
+  };
+
+  try {
+    const values = registrationToMappedValues(input, submittedAt);
+    const normalized = {
+      ...buildNormalizedSubmission(payload, {}, values),
+      preferredLocale: parseStoredLocale(body.locale) ?? "",
+    };
+    return { result: await registerSubmission(supabase, payload, {}, normalized, eventContext) };
+  } catch (error) {
+    const reason = error instanceof Error ? error.message : "Unknown error";
+    const eventId = await logWebhookEvent(supabase, {
+      submissionId: String(payload.submissionId),
+      respondentId: input.email,
+      email: input.email,
+      status: "error",
+      errorCode: "500",
+      errorMessage: reason,
+      payload,
+      ...eventContext,
+    });
+
+    console.error("Registration form processing failed", error);
+    return { result: { httpStatus: 500, body: { error: reason }, eventStatus: "error", eventId } };
+  }
+}
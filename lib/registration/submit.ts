@@ -0,0 +1,35 @@
+import type { RegistrationFormInput } from "@/lib/registration/form";
+import type { TallyPayload } from "@/lib/tally/submission";
+
+// Request-level rules of the native registration form; the database side is in
+// lib/registration/submit-store.ts.
+
+export const REGISTRATION_FORM_SOURCE = "registration_form";
+
+const CLIENT_ID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+// The "website" field is hidden from people, so only bots fill it in.
+export function isHoneypotSubmission(body: Record<string, unknown>): boolean {
+  return typeof body.website === "string" && body.website.trim() !== "";
+}
+
+// The browser generates one id per form session, so a retried POST maps to the same
+// tally_submission_id and never creates a second participant. Null when it is not a UUID.
+export function registrationSubmissionId(clientId: unknown): string | null {
+  const value = typeof clientId === "string" ? clientId.trim() : "";
+  return CLIENT_ID_PATTERN.test(value) ? `form-${value.toLowerCase()}` : null;
+}
+
+export function buildRegistrationPayload(
+  input: RegistrationFormInput,
+  submissionId: string,
+  submittedAt: string
+): TallyPayload {
+  return {
+    source: REGISTRATION_FORM_SOURCE,
+    submissionId,
+    respondentId: input.email,
+    createdAt: submittedAt,
+    answers: input,
+  };
+}
@@ -0,0 +1,242 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { runAutomationTrigger } from "@/lib/email/automation";
+import {
+  htmlToText,
+  renderParticipantTemplateHtml,
+  renderParticipantTemplateText,
+  type ParticipantTemplateData,
+} from "@/lib/email/participant-template";
+import { loadEmailSenderRuntimeSettings } from "@/lib/email/settings";
+import { recipientLocale } from "@/lib/email/template-variants";
+import { sendEmail } from "@/lib/email/transport";
+import { alloggioLongToShort } from "@/lib/partecipante/constants";
+import {
+  describeCapacityBreach,
+  findCapacityBreaches,
+  type CapacityBreach,
+} from "@/lib/registration/capacity";
+import { loadCapacityConfig, loadConfirmedStays } from "@/lib/registration/capacity-store";
+
+const WAITLIST_FIELDS =
+  "id,nome,cognome,email,telefono,paese_residenza,nazione,data_nascita,data_arrivo,data_partenza,alloggio,alloggio_short,allergie,esigenze_alimentari,disabilita_accessibilita,difficolta_accessibilita,quota_totale,is_minorenne,preferred_locale,gruppo_id,gruppo_label,registration_status,waitlist_position,waitlisted_at,waitlist_reason";
+
+type WaitlistParticipantRow = {
+  id: string;
+  nome: string | null;
+  cognome: string | null;
+  email: string | null;
+  telefono: string | null;
+  paese_residenza: string | null;
+  nazione: string | null;
+  data_nascita: string | null;
+  data_arrivo: string | null;
+  data_partenza: string | null;
+  alloggio: string | null;
+  alloggio_short: string | null;
+  allergie: string | null;
+  esigenze_alimentari: string | null;
+  disabilita_accessibilita: boolean | null;
+  difficolta_accessibilita: string | null;
+  quota_totale: number | null;
+  is_minorenne: boolean | null;
+  preferred_locale: string | null;
+  gruppo_id: string | null;
+  gruppo_label: string | null;
+  registration_status: string;
+  waitlist_position: number | null;
+  waitlisted_at: string | null;
+  waitlist_reason: string | null;
+};
+
+export type WaitlistEntry = {
+  id: string;
+  rank: number;
+  waitlist_position: number | null;
+  nome: string | null;
+  cognome: string | null;
+  email: string | null;
+  group: string;
+  data_arrivo: string | null;
+  data_partenza: string | null;
+  alloggio_short: string | null;
+  waitlisted_at: string | null;
+  waitlist_reason: string | null;
+  // Limits that would still be exceeded if this person were promoted now.
+  blocking: string[];
+};
+
+export type PromotionResult =
+  | { ok: true; emailSent: boolean; emailError: string | null }
+  | { error: string; status: number; breaches?: CapacityBreach[] };
+
+function splitList(value: string | null): string[] {
+  return (value ?? "")
+    .split(",")
+    .map((item) => item.trim())
+    .filter(Boolean);
+}
+
+function groupLabel(row: Pick<WaitlistParticipantRow, "gruppo_label" | "gruppo_id">): string {
+  return (row.gruppo_label ?? row.gruppo_id ?? "").trim() || "-";
+}
+
+function toTemplateData(row: WaitlistParticipantRow): ParticipantTemplateData {
+  return {
+    id: row.id,
+    nome: row.nome,
+    cognome: row.cognome,
+    email: row.email,
+    telefono: row.telefono,
+    paese_residenza: row.paese_residenza,
+    nazione: row.nazione,
+    data_nascita: row.data_nascita,
+    data_arrivo: row.data_arrivo,
+    data_partenza: row.data_partenza,
+    alloggio: row.alloggio_short ?? alloggioLongToShort(row.alloggio),
+    allergie: row.allergie,
+    esigenze_alimentari: splitList(row.esigenze_alimentari),
+    disabilita_accessibilita: row.disabilita_accessibilita,
+    difficolta_accessibilita: splitList(row.difficolta_accessibilita),
+    quota_totale: row.quota_totale,
+    is_minorenne: row.is_minorenne,
+    group: groupLabel(row),
+    locale: recipientLocale(row.preferred_locale),
+  };
+}
+
+export async function loadWaitlist(service: SupabaseClient): Promise<WaitlistEntry[]> {
+  const { data, error } = await service
+    .from("partecipanti")
+    .select(WAITLIST_FIELDS)
+    .eq("registration_status", "waitlisted")
+    .order("waitlist_position", { ascending: true, nullsFirst: false });
+
+  if (error) {
+    throw new Error(error.message);
+  }
+
+  const rows = (data ?? []) as WaitlistParticipantRow[];
+  if (rows.length === 0) return [];
+
+  const [config, confirmed] = await Promise.all([
+    loadCapacityConfig(service),
+    loadConfirmedStays(service),
+  ]);
+
+  return rows.map((row, index) => ({
+    id: row.id,
+    rank: index + 1,
+    waitlist_position: row.waitlist_position,
+    nome: row.nome,
+    cognome: row.cognome,
+    email: row.email,
+    group: groupLabel(row),
+    data_arrivo: row.data_arrivo,
+    data_partenza: row.data_partenza,
+    alloggio_short: row.alloggio_short,
+    waitlisted_at: row.waitlisted_at,
+    waitlist_reason: row.waitlist_reason,
+    blocking: config ? findCapacityBreaches(config, confirmed, row).map(describeCapacityBreach) : [],
+  }));
+}
+
+// Confirms a waitlisted participant and sends the promotion email. Capacity is checked
+// again unless the manager explicitly overrides it. A failed email does not undo the
+// promotion; the caller reports it so the message can be sent by hand.
+export async function promoteFromWaitlist(
+  service: SupabaseClient,
+  actorId: string,
+  participantId: string,
+  options: { force: boolean; sendEmail: boolean }
+): Promise<PromotionResult> {
+  const { data, error } = await service
+    .from("partecipanti")
+    .select(WAITLIST_FIELDS)
+    .eq("id", participantId)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(error.message);
+  }
+
+  const participant = data as WaitlistParticipantRow | null;
+  if (!participant) {
+    return { error: "Participant not found", status: 404 };
+  }
+  if (participant.registration_status !== "waitlisted") {
+    return { error: "Participant is not on the waitlist", status: 409 };
+  }
+
+  const config = await loadCapacityConfig(service);
+  if (config && !options.force) {
+    const confirmed = await loadConfirmedStays(service, participant.id);
+    const breaches = findCapacityBreaches(config, confirmed, participant);
+    if (breaches.length > 0) {
+      return {
+        error: `Not enough capacity: ${breaches.map(describeCapacityBreach).join("; ")}`,
+        status: 409,
+        breaches,
+      };
+    }
+  }
+
+  const { data: updated, error: updateError } = await service
+    .from("partecipanti")
+    .update({
+      registration_status: "confirmed",
+      waitlist_position: null,
+      promoted_at: new Date().toISOString(),
+      promoted_by: actorId,
+    })
+    .eq("id", participant.id)
+    .eq("registration_status", "waitlisted")
+    .select("id");
+
+  if (updateError) {
+    throw new Error(updateError.message);
+  }
+  if (!updated || updated.length === 0) {
+    return { error: "Participant is not on the waitlist", status: 409 };
+  }
+
+  // The promotion email below is the participant's message; rules only reach group
+  // leaders, including rules saved before participant rules were rejected.
+  await runAutomationTrigger(service, "waitlist_promoted", [participant.id], {
+    recipientType: "group_leaders",
+  });
+
+  if (!options.sendEmail) {
+    return { ok: true, emailSent: false, emailError: null };
+  }
+
+  const to = (participant.email ?? "").trim();
+  if (!to) {
+    return { ok: true, emailSent: false, emailError: "Participant has no email address" };
+  }
+  if (!config) {
+    return { ok: true, emailSent: false, emailError: "Promotion email template is not configured" };
+  }
+
+  try {
+    const senderSettings = await loadEmailSenderRuntimeSettings(service);
+    if (senderSettings.transportError) {
+      return { ok: true, emailSent: false, emailError: senderSettings.transportError };
+    }
+
+    const templateData = toTemplateData(participant);
+    const html = renderParticipantTemplateHtml(config.promotion_html, templateData);
+    await sendEmail(
+      {
+        to,
+        subject: renderParticipantTemplateText(config.promotion_subject, templateData),
+        html,
+        text: htmlToText(html),
+      },
+      senderSettings
+    );
+    return { ok: true, emailSent: true, emailError: null };
+  } catch (sendError) {
+    const reason = sendError instanceof Error ? sendError.message : "Send failed";
+    return { ok: true, emailSent: false, emailError: reason };
+  }
+}
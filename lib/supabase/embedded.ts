@@ -0,0 +1,6 @@
+// The untyped client infers every embedded relation ("participant:partecipanti(...)") as
+// an array, but PostgREST returns a single object, or null, for a many-to-one embed.
+export function embeddedOne<T>(value: T | T[] | null | undefined): T | null {
+  if (Array.isArray(value)) return value[0] ?? null;
+  return value ?? null;
+}
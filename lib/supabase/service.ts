@@ -12,3 +12,15 @@ export function createSupabaseServiceClient() {
     auth: { persistSession: false, autoRefreshToken: false },
   });
 }
+
+// Secret for signed links (preference, tracking and badge links). A dedicated secret in
+// envName can be rotated on its own; without it the service role key is used, which is
+// always configured where such links are created and checked.
+export function signingSecret(envName: string): string {
+  const secret =
+    process.env[envName]?.trim() || process.env.SUPABASE_SERVICE_ROLE_KEY?.trim() || "";
+  if (!secret) {
+    throw new Error(`Missing ${envName}`);
+  }
+  return secret;
+}
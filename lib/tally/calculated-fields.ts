@@ -6,9 +6,9 @@ type CalculatedFieldInput = {
   dataNascita: string | null;
 };
 
+// quota_totale is computed by the DB from participation_fee_rules (see lib/fees/rules.ts).
 type CalculatedFieldOutput = {
   giorniPermanenza: number | null;
-  quotaTotale: number | null;
   eta: number | null;
   isMinorenne: boolean | null;
 };
@@ -31,11 +31,6 @@ export function calcNights(
   return Math.ceil(ms / (1000 * 60 * 60 * 24));
 }
 
-export function calcQuotaTotale(giorniPermanenza: number | null): number | null {
-  if (giorniPermanenza === null) return null;
-  return giorniPermanenza >= 4 ? 235 : 200;
-}
-
 export function calcEtaAtEvent(
   dataNascita: string | null,
   eventDate: string = GLOBAL_FRIENDSHIP_EVENT_DATE
@@ -65,13 +60,11 @@ export function computeParticipantCalculatedFields(
   input: CalculatedFieldInput
 ): CalculatedFieldOutput {
   const giorniPermanenza = calcNights(input.arrival, input.departure);
-  const quotaTotale = calcQuotaTotale(giorniPermanenza);
   const eta = calcEtaAtEvent(input.dataNascita);
   const isMinorenne = calcIsMinorenne(eta);
 
   return {
     giorniPermanenza,
-    quotaTotale,
     eta,
     isMinorenne,
   };
@@ -0,0 +1,72 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import {
+  DEFAULT_TALLY_FIELD_MAPPING,
+  parseFieldMapping,
+  type TallyFieldMapping,
+} from "@/lib/tally/field-mapping";
+
+const MISSING_TABLE_CODES = new Set(["42P01", "PGRST205"]);
+
+export type StoredTallyFieldMapping = {
+  mapping: TallyFieldMapping;
+  updated_at: string;
+  updated_by: string | null;
+};
+
+export async function loadStoredTallyFieldMapping(
+  service: SupabaseClient
+): Promise<StoredTallyFieldMapping | null> {
+  const { data, error } = await service
+    .from("tally_field_mapping")
+    .select("mapping,updated_at,updated_by")
+    .eq("id", true)
+    .maybeSingle();
+
+  if (error) {
+    if (MISSING_TABLE_CODES.has(error.code ?? "")) return null;
+    throw new Error(error.message);
+  }
+
+  return (data as StoredTallyFieldMapping | null) ?? null;
+}
+
+// The mapping used by the webhook: the stored one when it is valid, otherwise the built-in
+// default so a broken configuration never stops registrations from being recorded.
+export async function loadTallyFieldMapping(service: SupabaseClient): Promise<TallyFieldMapping> {
+  const stored = await loadStoredTallyFieldMapping(service);
+  if (!stored) return DEFAULT_TALLY_FIELD_MAPPING;
+
+  const parsed = parseFieldMapping(stored.mapping);
+  if ("error" in parsed) {
+    console.error("Stored Tally field mapping is invalid, using the default", parsed.error);
+    return DEFAULT_TALLY_FIELD_MAPPING;
+  }
+
+  return parsed.mapping;
+}
+
+export async function saveTallyFieldMapping(
+  service: SupabaseClient,
+  actorId: string | null,
+  mapping: TallyFieldMapping
+): Promise<StoredTallyFieldMapping> {
+  const { data, error } = await service
+    .from("tally_field_mapping")
+    .upsert({ id: true, mapping, updated_by: actorId }, { onConflict: "id" })
+    .select("mapping,updated_at,updated_by")
+    .single();
+
+  if (error) {
+    throw new Error(error.message);
+  }
+
+  return data as StoredTallyFieldMapping;
+}
+
+export async function resetTallyFieldMapping(service: SupabaseClient): Promise<void> {
+  const { error } = await service.from("tally_field_mapping").delete().eq("id", true);
+
+  if (error) {
+    throw new Error(error.message);
+  }
+}
@@ -0,0 +1,478 @@
+// Declarative mapping from Tally questions to partecipanti columns. Rules are evaluated in
+// order and the first rule that yields a non-empty value wins for its target, so fallbacks
+// (another label, a looser "contains" match) are simply later rules for the same target.
+
+export const MAPPING_TARGETS = [
+  { target: "nome", label: "First name", required: true },
+  { target: "cognome", label: "Last name", required: true },
+  { target: "email", label: "Email", required: true },
+  { target: "email_secondaria", label: "Secondary email", required: false },
+  { target: "telefono", label: "Phone", required: false },
+  { target: "tipo_iscrizione", label: "Registration type", required: false },
+  { target: "data_nascita", label: "Date of birth", required: false },
+  { target: "sesso", label: "Sex", required: false },
+  { target: "nazione", label: "Nationality", required: false },
+  { target: "paese_residenza", label: "Country of residence", required: false },
+  { target: "città", label: "City", required: false },
+  { target: "gruppo_roma", label: "Rome group (used for gruppo_label)", required: false },
+  { target: "gruppo_leader", label: "Group leader", required: false },
+  { target: "partecipa_intero_evento", label: "Attends the whole event", required: false },
+  { target: "presenza_dettaglio", label: "Presence detail", required: false },
+  { target: "data_arrivo", label: "Arrival date", required: false },
+  { target: "data_partenza", label: "Departure date", required: false },
+  { target: "alloggio", label: "Accommodation", required: false },
+  { target: "esigenze_alimentari", label: "Dietary requirements", required: false },
+  { target: "allergie", label: "Allergies", required: false },
+  { target: "disabilita_accessibilita", label: "Accessibility needs", required: false },
+  { target: "difficolta_accessibilita", label: "Accessibility difficulties", required: false },
+  { target: "note", label: "Notes", required: false },
+  { target: "privacy_accettata", label: "Privacy accepted", required: false },
+  { target: "submitted_at_tally", label: "Submitted at", required: false },
+] as const;
+
+export type MappingTarget = (typeof MAPPING_TARGETS)[number]["target"];
+
+export const FIELD_TRANSFORMS = [
+  "text",
+  "date",
+  "date_range",
+  "boolean",
+  "option_map",
+  "checked_options",
+  "prefix_map",
+] as const;
+
+export type FieldTransform = (typeof FIELD_TRANSFORMS)[number];
+
+export type FieldMatchMode = "exact" | "contains";
+
+export type FieldMappingRule = {
+  target: MappingTarget;
+  // Tally field keys or question labels; labels are compared case-insensitively.
+  sources: string[];
+  match: FieldMatchMode;
+  transform: FieldTransform;
+  // option_map only: raw answer (case-insensitive) -> stored value.
+  options?: Record<string, string>;
+};
+
+export type TallyFieldMapping = { rules: FieldMappingRule[] };
+
+export type TallyAnswer = { key: string; label: string; value: string };
+
+export type MappedValue = string | boolean | Record<string, unknown> | null;
+
+export type FieldMappingResult = {
+  values: Partial<Record<MappingTarget, MappedValue>>;
+  // The question label (or key) each target was read from, for previews.
+  matched: Partial<Record<MappingTarget, string>>;
+  unmatchedLabels: string[];
+};
+
+const TARGET_SET = new Set<string>(MAPPING_TARGETS.map((entry) => entry.target));
+const TRANSFORM_SET = new Set<string>(FIELD_TRANSFORMS);
+const RANGE_SEPARATOR = /\s+-\s+|\s+to\s+/i;
+
+export const DEFAULT_TALLY_FIELD_MAPPING: TallyFieldMapping = {
+  rules: [
+    { target: "nome", match: "exact", transform: "text", sources: ["Name/Nome/Nombre/Prenom", "Nome", "Name"] },
+    {
+      target: "cognome",
+      match: "exact",
+      transform: "text",
+      sources: ["Surname / Cognome / Apellido / Nom de famille", "Cognome", "Surname"],
+    },
+    { target: "email", match: "exact", transform: "text", sources: ["e-mail", "Email", "email"] },
+    { target: "email_secondaria", match: "exact", transform: "text", sources: ["e-mail-2", "Secondary email"] },
+    { target: "telefono", match: "exact", transform: "text", sources: ["Contacts (Phone number and email)", "Phone"] },
+    {
+      target: "tipo_iscrizione",
+      match: "exact",
+      transform: "text",
+      sources: [
+        "Type of registration / Tipo di iscrizione / Tipo de registro / Type d'inscription",
+        "Type of registration",
+      ],
+    },
+    {
+      target: "data_nascita",
+      match: "exact",
+      transform: "text",
+      sources: [
+        "Date of birth / Data di nascita / Fecha de nacimiento / Date de naissance",
+        "Date of birth",
+      ],
+    },
+    { target: "sesso", match: "exact", transform: "text", sources: ["Sex / Sesso / Sexo / Sexe", "Sex"] },
+    {
+      target: "nazione",
+      match: "exact",
+      transform: "text",
+      sources: ["Nationality/Nazionalità/Nacionalidad/Nationalitè", "Nationality"],
+    },
+    {
+      target: "paese_residenza",
+      match: "exact",
+      transform: "text",
+      sources: [
+        "Country of residence / Paese di residenza / País de residencia / Pays de résidence",
+        "Country of residence",
+      ],
+    },
+    {
+      target: "paese_residenza",
+      match: "contains",
+      transform: "text",
+      sources: ["country of residence", "paese di residenza", "país de residencia", "pays de résidence"],
+    },
+    { target: "città", match: "exact", transform: "text", sources: ["City", "Città"] },
+    { target: "gruppo_roma", match: "exact", transform: "text", sources: ["Gruppo di Roma"] },
+    { target: "gruppo_leader", match: "exact", transform: "text", sources: ["Who is your group leader?", "Group leader"] },
+    {
+      target: "partecipa_intero_evento",
+      match: "exact",
+      transform: "boolean",
+      sources: [
+        "Are you attending the entire event, from friday to sunday",
+        "Are you attending the entire event",
+      ],
+    },
+    { target: "presenza_dettaglio", match: "exact", transform: "prefix_map", sources: ["When will you be present?"] },
+    {
+      target: "data_arrivo",
+      match: "exact",
+      transform: "date_range",
+      sources: ["Date of arrival and departure", "Arrival", "Date of arrival"],
+    },
+    { target: "data_partenza", match: "exact", transform: "date", sources: ["Departure", "Date of departure"] },
+    {
+      target: "alloggio",
+      match: "exact",
+      transform: "text",
+      sources: ["Where are you staying? Dove alloggerai?", "Where are you staying?"],
+    },
+    {
+      target: "esigenze_alimentari",
+      match: "exact",
+      transform: "checked_options",
+      sources: ["Do you have any particular food requirement"],
+    },
+    {
+      target: "esigenze_alimentari",
+      match: "contains",
+      transform: "text",
+      sources: ["food requirement", "esigenze alimentari", "alimentari", "dietary"],
+    },
+    {
+      target: "allergie",
+      match: "exact",
+      transform: "text",
+      sources: ["Do you have any allergies or intolerances? If yes, please specify.", "Allergies"],
+    },
+    {
+      target: "disabilita_accessibilita",
+      match: "exact",
+      transform: "boolean",
+      sources: ["Do you have any disabilities or accessibility needs?"],
+    },
+    {
+      target: "disabilita_accessibilita",
+      match: "contains",
+      transform: "boolean",
+      sources: ["disabilities or accessibility needs", "disability", "accessibility needs", "disabilit", "accessibilit"],
+    },
+    {
+      target: "difficolta_accessibilita",
+      match: "exact",
+      transform: "checked_options",
+      sources: [
+        "Which difficulties do you experience? (Select all that apply)",
+        "A quali difficoltà partecipi",
+        "Which difficulties do you experience",
+      ],
+    },
+    {
+      target: "note",
+      match: "exact",
+      transform: "text",
+      sources: [
+        "Is there anything else important you would like to communicate to the organization?",
+        "Notes",
+      ],
+    },
+    {
+      target: "privacy_accettata",
+      match: "exact",
+      transform: "boolean",
+      sources: [
+        "Privacy (I have read and accept the privacy policy/ Ho letto e accetto l'informativa sulla privacy / He leído y acepto la política de privacidad / J'ai lu et j'accepte la politique de confidentialité)",
+        "Privacy",
+        "Pivacy (I have read and accept the privacy policy/ Ho letto e accetto l'informativa sulla privacy / He leído y acepto la política de privacidad / J'ai lu et j'accepte la politique de confidentialité)",
+        "Pivacy",
+      ],
+    },
+    { target: "submitted_at_tally", match: "exact", transform: "text", sources: ["Submitted at"] },
+  ],
+};
+
+function comparable(value: string): string {
+  return value.trim().toLowerCase();
+}
+
+export function parseMappingBool(value: string): boolean | null {
+  const v = comparable(value);
+  if (!v) return null;
+  if (["true", "si", "sì", "yes", "1", "on"].includes(v)) return true;
+  if (["false", "no", "0", "off"].includes(v)) return false;
+  return null;
+}
+
+// The YYYY-MM-DD form of a calendar date, or null when the day or month does not exist
+// (31/02 would otherwise roll over into March).
+function calendarDate(year: string, month: string, day: string): string | null {
+  const date = new Date(Date.UTC(Number(year), Number(month) - 1, Number(day)));
+  if (
+    date.getUTCFullYear() !== Number(year) ||
+    date.getUTCMonth() !== Number(month) - 1 ||
+    date.getUTCDate() !== Number(day)
+  ) {
+    return null;
+  }
+  return `${year}-${month.padStart(2, "0")}-${day.padStart(2, "0")}`;
+}
+
+// Accepts ISO dates (with or without time), European DD/MM/YYYY and anything Date can parse.
+export function parseMappingDate(value: string): string | null {
+  const trimmed = value.trim();
+  if (!trimmed) return null;
+
+  const iso = trimmed.match(/^(\d{4})-(\d{2})-(\d{2})(?:$|[T\s])/);
+  if (iso) return calendarDate(iso[1], iso[2], iso[3]);
+
+  const european = trimmed.match(/^(\d{1,2})[./](\d{1,2})[./](\d{4})$/);
+  if (european) return calendarDate(european[3], european[2], european[1]);
+
+  const parsed = new Date(trimmed);
+  return Number.isNaN(parsed.getTime()) ? null : parsed.toISOString().slice(0, 10);
+}
+
+function findAnswers(answers: TallyAnswer[], rule: FieldMappingRule): TallyAnswer[] {
+  const found: TallyAnswer[] = [];
+  for (const source of rule.sources) {
+    const needle = comparable(source);
+    if (!needle) continue;
+    for (const answer of answers) {
+      const label = comparable(answer.label);
+      const isMatch =
+        rule.match === "contains"
+          ? label.includes(needle)
+          : label === needle || comparable(answer.key) === needle;
+      if (isMatch && !found.includes(answer)) found.push(answer);
+    }
+  }
+  return found;
+}
+
+function findByPrefix(answers: TallyAnswer[], prefix: string): TallyAnswer[] {
+  const needle = comparable(prefix);
+  return answers.filter((answer) => comparable(answer.label).startsWith(needle));
+}
+
+function mapOption(rule: FieldMappingRule, value: string): string {
+  const options = rule.options ?? {};
+  const lookup = new Map(Object.entries(options).map(([raw, mapped]) => [comparable(raw), mapped]));
+  return value
+    .split(",")
+    .map((item) => item.trim())
+    .filter(Boolean)
+    .map((item) => lookup.get(comparable(item)) ?? item)
+    .join(", ");
+}
+
+type RuleOutput = { value: MappedValue; source: string; used: TallyAnswer[]; extra?: MappedValue };
+
+function applyRule(answers: TallyAnswer[], rule: FieldMappingRule): RuleOutput | null {
+  if (rule.transform === "checked_options") {
+    const selected = new Set<string>();
+    const used: TallyAnswer[] = [];
+    for (const answer of findAnswers(answers, { ...rule, match: "exact" })) {
+      if (!answer.value.trim()) continue;
+      used.push(answer);
+      answer.value
+        .split(",")
+        .map((item) => item.trim())
+        .filter(Boolean)
+        .forEach((item) => selected.add(item));
+    }
+    // Tally also sends one boolean field per checkbox option: "<question> (<option>)".
+    for (const source of rule.sources) {
+      for (const answer of findByPrefix(answers, `${source} (`)) {
+        used.push(answer);
+        if (parseMappingBool(answer.value) !== true) continue;
+        const choice = (answer.label.match(/\((.*)\)\s*$/)?.[1] ?? "").trim();
+        if (choice) selected.add(choice);
+      }
+    }
+    if (selected.size === 0) return null;
+    return { value: [...selected].join(", "), source: rule.sources[0] ?? "", used };
+  }
+
+  if (rule.transform === "prefix_map") {
+    const details: Record<string, unknown> = {};
+    const used: TallyAnswer[] = [];
+    for (const source of rule.sources) {
+      for (const answer of findByPrefix(answers, source)) {
+        used.push(answer);
+        const key = answer.label.slice(source.trim().length).trim() || "general";
+        const bool = parseMappingBool(answer.value);
+        details[key] = bool === null ? answer.value : bool;
+      }
+    }
+    if (Object.keys(details).length === 0) return null;
+    return { value: details, source: rule.sources[0] ?? "", used };
+  }
+
+  for (const answer of findAnswers(answers, rule)) {
+    const raw = answer.value.trim();
+    if (!raw) continue;
+    const used = [answer];
+
+    switch (rule.transform) {
+      case "boolean":
+        return { value: parseMappingBool(raw), source: answer.label, used };
+      case "date":
+        return { value: parseMappingDate(raw), source: answer.label, used };
+      case "date_range": {
+        const parts = RANGE_SEPARATOR.test(raw)
+          ? raw.split(RANGE_SEPARATOR).map((part) => part.trim()).filter(Boolean)
+          : [raw];
+        if (parts.length >= 2) {
+          return {
+            value: parseMappingDate(parts[0]),
+            extra: parseMappingDate(parts[1]),
+            source: answer.label,
+            used,
+          };
+        }
+        return { value: parseMappingDate(parts[0]), source: answer.label, used };
+      }
+      case "option_map":
+        return { value: mapOption(rule, raw), source: answer.label, used };
+      default:
+        return { value: raw, source: answer.label, used };
+    }
+  }
+
+  return null;
+}
+
+function isEmpty(value: MappedValue | undefined): boolean {
+  return value === undefined || value === null || value === "";
+}
+
+export function applyFieldMapping(
+  answers: TallyAnswer[],
+  mapping: TallyFieldMapping
+): FieldMappingResult {
+  const values: FieldMappingResult["values"] = {};
+  const matched: FieldMappingResult["matched"] = {};
+  const used = new Set<TallyAnswer>();
+
+  for (const rule of mapping.rules) {
+    if (!isEmpty(values[rule.target])) continue;
+    const output = applyRule(answers, rule);
+    if (!output) continue;
+
+    output.used.forEach((answer) => used.add(answer));
+    values[rule.target] = output.value;
+    matched[rule.target] = output.source;
+
+    // A "from - to" range answers the departure too, ahead of any dedicated departure rule.
+    if (rule.transform === "date_range" && rule.target === "data_arrivo" && !isEmpty(output.extra)) {
+      values.data_partenza = output.extra;
+      matched.data_partenza = output.source;
+    }
+  }
+
+  return {
+    values,
+    matched,
+    unmatchedLabels: answers
+      .filter((answer) => !used.has(answer) && answer.value.trim() !== "")
+      .map((answer) => answer.label),
+  };
+}
+
+function stringList(value: unknown): string[] {
+  if (!Array.isArray(value)) return [];
+  return value
+    .map((item) => (typeof item === "string" ? item.trim() : ""))
+    .filter(Boolean);
+}
+
+export function parseFieldMapping(
+  value: unknown
+): { mapping: TallyFieldMapping } | { error: string } {
+  const rawRules =
+    value && typeof value === "object" && !Array.isArray(value)
+      ? (value as { rules?: unknown }).rules
+      : undefined;
+  if (!Array.isArray(rawRules)) {
+    return { error: "mapping.rules must be an array" };
+  }
+
+  const rules: FieldMappingRule[] = [];
+  for (const [index, raw] of rawRules.entries()) {
+    const row = (raw ?? {}) as Record<string, unknown>;
+    const position = `Rule ${index + 1}`;
+    const target = typeof row.target === "string" ? row.target : "";
+    const transform = typeof row.transform === "string" ? row.transform : "text";
+    const match = row.match === "contains" ? "contains" : "exact";
+    const sources = stringList(row.sources);
+
+    if (!TARGET_SET.has(target)) {
+      return { error: `${position}: unknown target column "${target}"` };
+    }
+    if (!TRANSFORM_SET.has(transform)) {
+      return { error: `${position}: unknown transform "${transform}"` };
+    }
+    if (sources.length === 0) {
+      return { error: `${position}: at least one Tally field key or label is required` };
+    }
+    if (transform === "date_range" && target !== "data_arrivo") {
+      return { error: `${position}: date_range can only target data_arrivo` };
+    }
+
+    const rule: FieldMappingRule = {
+      target: target as MappingTarget,
+      sources,
+      match,
+      transform: transform as FieldTransform,
+    };
+
+    if (transform === "option_map") {
+      const options: Record<string, string> = {};
+      const rawOptions =
+        row.options && typeof row.options === "object" && !Array.isArray(row.options)
+          ? (row.options as Record<string, unknown>)
+          : {};
+      for (const [from, to] of Object.entries(rawOptions)) {
+        if (from.trim() && typeof to === "string") options[from.trim()] = to.trim();
+      }
+      if (Object.keys(options).length === 0) {
+        return { error: `${position}: option_map needs at least one option` };
+      }
+      rule.options = options;
+    }
+
+    rules.push(rule);
+  }
+
+  for (const entry of MAPPING_TARGETS) {
+    if (entry.required && !rules.some((rule) => rule.target === entry.target)) {
+      return { error: `A rule for the required column "${entry.target}" is missing` };
+    }
+  }
+
+  return { mapping: { rules } };
+}
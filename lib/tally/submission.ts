@@ -0,0 +1,1149 @@
+import crypto from "crypto";
+import { computeParticipantCalculatedFields } from "@/lib/tally/calculated-fields";
+import { runAutomationTrigger } from "@/lib/email/automation";
+import { loadEmailSenderRuntimeSettings } from "@/lib/email/settings";
+import { sendEmail } from "@/lib/email/transport";
+import { alloggioLongToShort } from "@/lib/partecipante/constants";
+import {
+  applyFieldMapping,
+  DEFAULT_TALLY_FIELD_MAPPING,
+  type FieldMappingResult,
+  type MappedValue,
+  type TallyAnswer,
+  type TallyFieldMapping,
+} from "@/lib/tally/field-mapping";
+import { loadTallyFieldMapping } from "@/lib/tally/field-mapping-store";
+import {
+  insertRegistration,
+  loadRegistrationBySubmissionId,
+  type RegistrationStatusDecision,
+} from "@/lib/registration/capacity-store";
+import { createSupabaseServiceClient } from "@/lib/supabase/service";
+import { webhookEventRow, type WebhookEventEntry } from "@/lib/tally/webhook-replay";
+
+type TallyOption = {
+  id?: string;
+  optionId?: string;
+  text?: string;
+  label?: string;
+  value?: unknown;
+};
+
+type TallyField = {
+  key?: string;
+  name?: string;
+  label?: string;
+  value?: unknown;
+  options?: TallyOption[];
+};
+
+export type NormalizedSubmission = {
+  nome: string;
+  cognome: string;
+  email: string;
+  emailSecondaria: string;
+  telefono: string;
+  tipoIscrizione: string;
+  dataNascita: string;
+  sesso: string;
+  nazione: string;
+  paeseResidenza: string;
+  citta: string;
+  gruppoRoma: string;
+  groupLeader: string;
+  gruppoLabel: string;
+  partecipaInteroEvento: boolean | null;
+  presenzaDettaglio: Record<string, unknown> | null;
+  alloggio: string;
+  alloggioShort: string;
+  esigenzeAlimentari: string;
+  allergie: string;
+  disabilitaAccessibilita: boolean | null;
+  difficoltaAccessibilita: string;
+  tallySubmissionId: string;
+  tallyRespondentId: string;
+  note: string;
+  privacyAccettata: boolean | null;
+  submittedAtTally: string;
+  dataArrivo: string;
+  dataPartenza: string;
+  eta: number | null;
+  isMinorenne: boolean | null;
+  // Language the registration was made in; empty when unknown (Tally submissions).
+  preferredLocale: string;
+};
+
+const GROUP_NAMESPACE_UUID = "6ba7b811-9dad-11d1-80b4-00c04fd430c8";
+const GROUP_LEADER_PORTAL_URL =
+  process.env.GROUP_LEADER_PORTAL_URL ||
+  "https://portal.globalfriendship.eu";
+const WEBHOOK_EVENT_MISSING_TABLE_CODES = new Set(["42P01", "PGRST204"]);
+
+type GroupNotificationRecipient = {
+  id: string;
+  nome: string | null;
+  cognome: string | null;
+  email: string | null;
+  ruolo: string | null;
+};
+
+type ProfileGroupLink = {
+  profilo_id: string | null;
+  gruppo_id?: string | null;
+};
+
+type GroupRow = {
+  id: string | null;
+  nome?: string | null;
+  name?: string | null;
+  label?: string | null;
+  gruppo_label?: string | null;
+};
+
+export type SupabaseServiceClient = ReturnType<typeof createSupabaseServiceClient>;
+type SupabaseErrorLike = { code?: string | null; message?: string | null };
+type SupabaseWriteResult = { data?: unknown; error: SupabaseErrorLike | null };
+
+export type TallyPayload = Record<string, unknown> & {
+  data?: {
+    fields?: TallyField[];
+    submissionId?: unknown;
+    respondentId?: unknown;
+    createdAt?: unknown;
+  };
+  fields?: TallyField[];
+  submissionId?: unknown;
+  respondentId?: unknown;
+  createdAt?: unknown;
+  submittedAt?: unknown;
+};
+
+export function asTallyPayload(value: unknown): TallyPayload {
+  if (value && typeof value === "object" && !Array.isArray(value)) {
+    return value as TallyPayload;
+  }
+  return {};
+}
+
+export function verifySignature(
+  rawBody: string,
+  signatureHeader: string | null,
+  secret: string
+): boolean {
+  if (!signatureHeader) return false;
+
+  const cleaned = signatureHeader.startsWith("sha256=")
+    ? signatureHeader.slice("sha256=".length)
+    : signatureHeader;
+
+  const expected = crypto
+    .createHmac("sha256", secret)
+    .update(rawBody)
+    .digest("base64");
+
+  const a = Buffer.from(cleaned);
+  const b = Buffer.from(expected);
+  if (a.length !== b.length) return false;
+
+  return crypto.timingSafeEqual(a, b);
+}
+
+export function normalize(value: unknown): string {
+  if (value === undefined || value === null) return "";
+  if (Array.isArray(value)) return value.map(normalize).join(", ");
+  return String(value).trim();
+}
+
+function parseDate(value: string | undefined | null): Date | null {
+  if (!value) return null;
+  const trimmed = value.trim();
+  if (!trimmed) return null;
+  const d = new Date(trimmed);
+  if (!Number.isNaN(d.getTime())) return d;
+  return null;
+}
+
+function normalizeCountry(value: string): string {
+  const normalized = normalize(value);
+  if (!normalized) return "";
+
+  const lower = normalized.toLowerCase();
+  const aliasToCanonical: Record<string, string> = {
+    italy: "Italy",
+    italia: "Italy",
+    it: "Italy",
+  };
+
+  return aliasToCanonical[lower] ?? normalized;
+}
+
+function isItaly(value: string): boolean {
+  const normalized = normalize(value).toLowerCase();
+  return normalized === "italy" || normalized === "italia" || normalized === "it";
+}
+
+function pickAnswer(answers: Record<string, string>, labels: string[]): string {
+  for (const label of labels) {
+    const value = answers[label];
+    if (value !== undefined && value !== null && value.trim() !== "") {
+      return value;
+    }
+  }
+  return "";
+}
+
+function optionId(option: TallyOption): string {
+  return normalize(option.id || option.optionId);
+}
+
+function optionText(option: TallyOption, fallback: string): string {
+  const valueText =
+    typeof option.value === "string" ? option.value : normalize(option.value);
+  return normalize(option.text || option.label || valueText || fallback);
+}
+
+function mapOptionValue(options: TallyOption[], raw: unknown): string {
+  const rawNorm = normalize(raw);
+  if (!rawNorm) return "";
+
+  const match = options.find((opt) => optionId(opt) === rawNorm);
+  if (match) return optionText(match, rawNorm);
+
+  return rawNorm;
+}
+
+function extractFieldValue(field: TallyField): string {
+  const options = Array.isArray(field.options) ? field.options : [];
+  const raw = field.value;
+
+  if (Array.isArray(raw)) {
+    if (options.length > 0) {
+      return raw.map((v) => mapOptionValue(options, v)).filter(Boolean).join(", ");
+    }
+    return raw.map((v) => normalize(v)).filter(Boolean).join(", ");
+  }
+
+  if (raw && typeof raw === "object") {
+    const objectText = normalize((raw as Record<string, unknown>).text);
+    if (objectText) return objectText;
+  }
+
+  if (options.length > 0) {
+    return mapOptionValue(options, raw);
+  }
+
+  return normalize(raw);
+}
+
+export function extractAnswers(payload: TallyPayload): Record<string, string> {
+  const answers: Record<string, string> = {};
+
+  const fields: TallyField[] = payload?.data?.fields ?? payload?.fields ?? [];
+  if (Array.isArray(fields)) {
+    for (const field of fields) {
+      const label = normalize(field?.label || field?.name || field?.key);
+      if (!label) continue;
+      answers[label] = extractFieldValue(field);
+    }
+  }
+
+  for (const [key, value] of Object.entries(payload ?? {})) {
+    if (!(key in answers)) answers[key] = normalize(value);
+  }
+
+  return answers;
+}
+
+// Same answers as extractAnswers, but keeping the stable Tally field key next to the label so
+// field mappings can target either.
+export function extractAnswerEntries(payload: TallyPayload): TallyAnswer[] {
+  const entries: TallyAnswer[] = [];
+  const labels = new Set<string>();
+
+  const fields: TallyField[] = payload?.data?.fields ?? payload?.fields ?? [];
+  if (Array.isArray(fields)) {
+    for (const field of fields) {
+      const label = normalize(field?.label || field?.name || field?.key);
+      if (!label) continue;
+      labels.add(label);
+      entries.push({ key: normalize(field?.key) || label, label, value: extractFieldValue(field) });
+    }
+  }
+
+  for (const [key, value] of Object.entries(payload ?? {})) {
+    if (labels.has(key)) continue;
+    if (value && typeof value === "object" && !Array.isArray(value)) continue;
+    entries.push({ key, label: key, value: normalize(value) });
+  }
+
+  return entries;
+}
+
+function looksLikeUuid(value: string): boolean {
+  return /^[0-9a-f]{8}-[0-9a-f]{4}-[1-5][0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/i.test(
+    value
+  );
+}
+
+function uuidToBytes(uuid: string): Buffer {
+  const hex = uuid.replace(/-/g, "");
+  return Buffer.from(hex, "hex");
+}
+
+function bytesToUuid(bytes: Buffer): string {
+  const hex = bytes.toString("hex");
+  return [
+    hex.slice(0, 8),
+    hex.slice(8, 12),
+    hex.slice(12, 16),
+    hex.slice(16, 20),
+    hex.slice(20, 32),
+  ].join("-");
+}
+
+function uuidV5FromString(name: string, namespace: string): string {
+  const nsBytes = uuidToBytes(namespace);
+  const nameBytes = Buffer.from(name, "utf8");
+  const hash = crypto
+    .createHash("sha1")
+    .update(Buffer.concat([nsBytes, nameBytes]))
+    .digest();
+
+  const out = Buffer.from(hash.subarray(0, 16));
+  out[6] = (out[6] & 0x0f) | 0x50;
+  out[8] = (out[8] & 0x3f) | 0x80;
+  return bytesToUuid(out);
+}
+
+export async function logWebhookEvent(
+  supabase: SupabaseServiceClient,
+  entry: WebhookEventEntry
+): Promise<string | null> {
+  let result = await supabase
+    .from("webhook_events")
+    .insert(webhookEventRow(entry, true))
+    .select("id")
+    .single();
+
+  if (result.error?.code === "PGRST204") {
+    result = await supabase
+      .from("webhook_events")
+      .insert(webhookEventRow(entry, false))
+      .select("id")
+      .single();
+  }
+
+  if (result.error) {
+    if (!WEBHOOK_EVENT_MISSING_TABLE_CODES.has(result.error.code ?? "")) {
+      console.error("Webhook event logging failed", result.error);
+    }
+    return null;
+  }
+
+  return (result.data as { id: string }).id;
+}
+
+async function findGroupByColumn(
+  supabase: SupabaseServiceClient,
+  column: string,
+  value: string
+): Promise<string | null> {
+  const { data, error } = await supabase
+    .from("gruppi")
+    .select("id")
+    .ilike(column, value)
+    .limit(1)
+    .maybeSingle();
+
+  if (error) {
+    const code = error.code ?? "";
+    if (code === "PGRST116" || code === "42703" || code === "PGRST204") {
+      return null;
+    }
+    console.error(`Group lookup by ${column} failed`, error);
+    return null;
+  }
+
+  return data?.id ?? null;
+}
+
+async function ensureGroupById(
+  supabase: SupabaseServiceClient,
+  groupId: string,
+  label: string
+): Promise<string | null> {
+  const payloadCandidates: Array<Record<string, unknown>> = [
+    { id: groupId },
+    { id: groupId, nome: label },
+    { id: groupId, name: label },
+    { id: groupId, label },
+    { id: groupId, gruppo_label: label },
+  ];
+
+  for (const payload of payloadCandidates) {
+    const { error } = await supabase
+      .from("gruppi")
+      .upsert(payload, { onConflict: "id" });
+
+    if (!error) {
+      const { data: byId } = await supabase
+        .from("gruppi")
+        .select("id")
+        .eq("id", groupId)
+        .maybeSingle();
+      if (byId?.id) return byId.id;
+      continue;
+    }
+
+    const code = error.code ?? "";
+    if (["42703", "PGRST204", "23502"].includes(code)) {
+      continue;
+    }
+
+    console.error("Group upsert failed", { payload, error });
+  }
+
+  const { data: finalCheck } = await supabase
+    .from("gruppi")
+    .select("id")
+    .eq("id", groupId)
+    .maybeSingle();
+
+  return finalCheck?.id ?? null;
+}
+
+async function resolveGruppoId(
+  supabase: SupabaseServiceClient,
+  rawValue: string
+): Promise<string | null> {
+  const value = rawValue.trim();
+  if (!value) return null;
+
+  const { data: byId, error: byIdError } = await supabase
+    .from("gruppi")
+    .select("id")
+    .eq("id", value)
+    .maybeSingle();
+
+  if (byId?.id) return byId.id;
+  if (byIdError && byIdError.code !== "PGRST116") {
+    console.error("Group lookup by id failed", byIdError);
+  }
+
+  const byNome = await findGroupByColumn(supabase, "nome", value);
+  if (byNome) return byNome;
+
+  const byName = await findGroupByColumn(supabase, "name", value);
+  if (byName) return byName;
+
+  const byLabel = await findGroupByColumn(supabase, "label", value);
+  if (byLabel) return byLabel;
+
+  const byGruppoLabel = await findGroupByColumn(supabase, "gruppo_label", value);
+  if (byGruppoLabel) return byGruppoLabel;
+
+  const deterministicId = looksLikeUuid(value)
+    ? value
+    : uuidV5FromString(value.toLowerCase(), GROUP_NAMESPACE_UUID);
+
+  const ensured = await ensureGroupById(supabase, deterministicId, value);
+  if (ensured) return ensured;
+
+  console.warn("Unable to resolve gruppo_id. Using null.", { value });
+  return null;
+}
+
+function buildFullName(nome: string | null | undefined, cognome: string | null | undefined): string {
+  return [normalize(nome), normalize(cognome)].filter(Boolean).join(" ").trim();
+}
+
+function buildNotificationKey(args: {
+  submissionId: string;
+  respondentId: string;
+  participantFullName: string;
+  participantEmail: string;
+  submittedAtIso: string | null;
+}): string {
+  if (args.submissionId) return args.submissionId;
+  if (args.respondentId) return args.respondentId;
+
+  return crypto
+    .createHash("sha1")
+    .update(
+      [
+        normalize(args.participantEmail).toLowerCase(),
+        normalize(args.participantFullName).toLowerCase(),
+        args.submittedAtIso ?? "",
+      ].join("|")
+    )
+    .digest("hex");
+}
+
+function uniqueNonEmpty(values: Array<string | null | undefined>): string[] {
+  return [...new Set(values.map((value) => normalize(value)).filter(Boolean))];
+}
+
+async function collectGroupKeysForLeaderLookup(
+  supabase: SupabaseServiceClient,
+  gruppoId: string | null,
+  gruppoLabel: string | null
+): Promise<string[]> {
+  const baseKeys = uniqueNonEmpty([gruppoId, gruppoLabel]);
+  if (baseKeys.length === 0) return [];
+
+  const keys = new Set(baseKeys);
+  const normalizedGroupId = normalize(gruppoId);
+  if (!normalizedGroupId) return [...keys];
+
+  const { data: groupById, error } = await supabase
+    .from("gruppi")
+    .select("id,nome,name,label,gruppo_label")
+    .eq("id", normalizedGroupId)
+    .maybeSingle();
+
+  if (error) {
+    const code = error.code ?? "";
+    if (!["PGRST116", "42703", "PGRST204"].includes(code)) {
+      console.error("Unable to load group aliases for leader lookup", error);
+    }
+    return [...keys];
+  }
+
+  const row = (groupById ?? null) as GroupRow | null;
+  for (const item of uniqueNonEmpty([
+    row?.id ?? null,
+    row?.nome ?? null,
+    row?.name ?? null,
+    row?.label ?? null,
+    row?.gruppo_label ?? null,
+  ])) {
+    keys.add(item);
+  }
+
+  return [...keys];
+}
+
+async function loadGroupLeadersForGroup(
+  supabase: SupabaseServiceClient,
+  groupKeys: string[]
+): Promise<GroupNotificationRecipient[]> {
+  if (groupKeys.length === 0) return [];
+
+  const { data: links, error: linksError } = await supabase
+    .from("profili_gruppi")
+    .select("profilo_id,gruppo_id")
+    .in("gruppo_id", groupKeys);
+
+  if (linksError) {
+    throw new Error(`Unable to load group links: ${linksError.message}`);
+  }
+
+  const leaderIds = [
+    ...new Set(
+      ((links ?? []) as ProfileGroupLink[])
+        .map((row) => normalize(row.profilo_id))
+        .filter(Boolean)
+    ),
+  ];
+
+  if (leaderIds.length === 0) return [];
+
+  const { data: leaders, error: leadersError } = await supabase
+    .from("profili")
+    .select("id,nome,cognome,email,ruolo")
+    .in("ruolo", ["capogruppo", "manager"])
+    .in("id", leaderIds);
+
+  if (leadersError) {
+    throw new Error(`Unable to load group leaders: ${leadersError.message}`);
+  }
+
+  const normalizedLeaders = ((leaders ?? []) as GroupNotificationRecipient[]).sort((a, b) =>
+    buildFullName(a.nome, a.cognome).localeCompare(buildFullName(b.nome, b.cognome))
+  );
+
+  return normalizedLeaders;
+}
+
+async function loadSuccessfulLeaderNotificationEmails(
+  supabase: SupabaseServiceClient,
+  notificationKey: string
+): Promise<{ dedupeAvailable: boolean; sentEmails: Set<string>; sentLeaderIds: Set<string> }> {
+  const { data, error } = await supabase
+    .from("webhook_events")
+    .select("email,normalized")
+    .eq("source", "tally")
+    .eq("event_type", "group_leader_notification")
+    .eq("status", "success")
+    .eq("submission_id", notificationKey);
+
+  if (error) {
+    const code = error.code ?? "";
+    if (WEBHOOK_EVENT_MISSING_TABLE_CODES.has(code)) {
+      return {
+        dedupeAvailable: false,
+        sentEmails: new Set<string>(),
+        sentLeaderIds: new Set<string>(),
+      };
+    }
+
+    throw new Error(`Unable to check sent notifications: ${error.message}`);
+  }
+
+  const sentEmails = new Set<string>();
+  const sentLeaderIds = new Set<string>();
+  for (const row of (data ?? []) as Array<{ email?: string | null; normalized?: unknown }>) {
+    const email = normalize(row.email).toLowerCase();
+    if (email) sentEmails.add(email);
+
+    const normalizedData =
+      row.normalized && typeof row.normalized === "object"
+        ? (row.normalized as Record<string, unknown>)
+        : null;
+    const leaderId = normalize(normalizedData?.groupLeaderId);
+    if (leaderId) sentLeaderIds.add(leaderId);
+  }
+
+  return { dedupeAvailable: true, sentEmails, sentLeaderIds };
+}
+
+async function notifyGroupLeadersAboutRegistration(args: {
+  supabase: SupabaseServiceClient;
+  gruppoId: string | null;
+  gruppoLabel: string | null;
+  participantFullName: string;
+  notificationKey: string;
+  payload: unknown;
+  respondentId: string;
+  duplicateSubmission: boolean;
+}): Promise<{ sent: number; skipped: number }> {
+  if (!args.gruppoId && !args.gruppoLabel) return { sent: 0, skipped: 0 };
+
+  const groupKeys = await collectGroupKeysForLeaderLookup(
+    args.supabase,
+    args.gruppoId,
+    args.gruppoLabel
+  );
+  const leaders = await loadGroupLeadersForGroup(args.supabase, groupKeys);
+  if (leaders.length === 0) return { sent: 0, skipped: 0 };
+
+  const { dedupeAvailable, sentEmails, sentLeaderIds } =
+    await loadSuccessfulLeaderNotificationEmails(
+    args.supabase,
+    args.notificationKey
+    );
+
+  if (args.duplicateSubmission && !dedupeAvailable) {
+    console.warn(
+      "Duplicate submission detected but notification dedupe storage is unavailable; skipping emails."
+    );
+    return { sent: 0, skipped: leaders.length };
+  }
+
+  let sent = 0;
+  let skipped = 0;
+  const failures: string[] = [];
+  const useLeaderIdDedupe = sentLeaderIds.size > 0;
+  const senderSettings = await loadEmailSenderRuntimeSettings(args.supabase);
+  const recipients: Array<{ leader: GroupNotificationRecipient; email: string }> = [];
+
+  for (const leader of leaders) {
+    const to = normalize(leader.email).toLowerCase();
+    if (!to) {
+      skipped += 1;
+      continue;
+    }
+
+    const alreadySent =
+      sentLeaderIds.has(leader.id) || (!useLeaderIdDedupe && sentEmails.has(to));
+    if (alreadySent) {
+      skipped += 1;
+      continue;
+    }
+
+    recipients.push({ leader, email: to });
+  }
+
+  if (recipients.length === 0) {
+    return { sent, skipped };
+  }
+
+  const subject = `New registration in your group: ${args.participantFullName}`;
+  const text = [
+    "Dear Group Team,",
+    "",
+    `A new participant called ${args.participantFullName}, has registered in your group.`,
+    "",
+    "You can review the current situations of participants in your group here:",
+    GROUP_LEADER_PORTAL_URL,
+    "",
+    "The Global Friendship Team",
+  ].join("\n");
+
+  const [primary, ...others] = recipients;
+  const cc = others.map((entry) => entry.email);
+
+  try {
+    await sendEmail(
+      {
+        to: primary.email,
+        cc: cc.length > 0 ? cc : undefined,
+        subject,
+        text,
+      },
+      senderSettings
+    );
+
+    for (const entry of recipients) {
+      sent += 1;
+      sentLeaderIds.add(entry.leader.id);
+      await logWebhookEvent(args.supabase, {
+        eventType: "group_leader_notification",
+        submissionId: args.notificationKey,
+        respondentId: args.respondentId,
+        email: entry.email,
+        status: "success",
+        payload: args.payload,
+        normalized: {
+          gruppoId: args.gruppoId,
+          gruppoKeys: groupKeys,
+          groupLeaderId: entry.leader.id,
+          groupRecipientRole: entry.leader.ruolo,
+          participantFullName: args.participantFullName,
+          deliveryMode: cc.length > 0 ? "to_cc_batch" : "single_to",
+          primaryRecipient: primary.email,
+          ccRecipients: cc,
+        },
+      });
+    }
+  } catch (error) {
+    const reason = error instanceof Error ? error.message : "Send failed";
+    for (const entry of recipients) {
+      failures.push(`${entry.email}: ${reason}`);
+      await logWebhookEvent(args.supabase, {
+        eventType: "group_leader_notification",
+        submissionId: args.notificationKey,
+        respondentId: args.respondentId,
+        email: entry.email,
+        status: "error",
+        errorCode: "500",
+        errorMessage: reason,
+        payload: args.payload,
+        normalized: {
+          gruppoId: args.gruppoId,
+          gruppoKeys: groupKeys,
+          groupLeaderId: entry.leader.id,
+          groupRecipientRole: entry.leader.ruolo,
+          participantFullName: args.participantFullName,
+          deliveryMode: cc.length > 0 ? "to_cc_batch" : "single_to",
+          primaryRecipient: primary.email,
+          ccRecipients: cc,
+        },
+      });
+    }
+  }
+
+  if (failures.length > 0) {
+    throw new Error(`Unable to send ${failures.length} leader notification(s): ${failures.join("; ")}`);
+  }
+
+  return { sent, skipped };
+}
+
+function mappedText(value: MappedValue | undefined): string {
+  return typeof value === "string" ? value : "";
+}
+
+function mappedBool(value: MappedValue | undefined): boolean | null {
+  return typeof value === "boolean" ? value : null;
+}
+
+// Derives the normalized submission (group label, accommodation short code, age) from the
+// per-column values. Shared by the Tally mapping and the native registration form.
+export function buildNormalizedSubmission(
+  payload: TallyPayload,
+  answers: Record<string, string>,
+  values: FieldMappingResult["values"]
+): NormalizedSubmission {
+  const citta = mappedText(values["città"]);
+  const gruppoRoma = mappedText(values.gruppo_roma);
+  const paeseResidenza = normalizeCountry(mappedText(values.paese_residenza));
+  const gruppoLabel =
+    citta.toLowerCase() === "roma"
+      ? gruppoRoma
+      : isItaly(paeseResidenza)
+        ? citta || gruppoRoma || paeseResidenza
+        : paeseResidenza;
+
+  const alloggio = mappedText(values.alloggio);
+  const dataNascita = mappedText(values.data_nascita);
+  const dataArrivo = mappedText(values.data_arrivo);
+  const dataPartenza = mappedText(values.data_partenza);
+  const calculated = computeParticipantCalculatedFields({
+    arrival: parseDate(dataArrivo),
+    departure: parseDate(dataPartenza),
+    dataNascita: dataNascita || null,
+  });
+  const presenza = values.presenza_dettaglio;
+
+  return {
+    nome: mappedText(values.nome),
+    cognome: mappedText(values.cognome),
+    email: mappedText(values.email),
+    emailSecondaria: mappedText(values.email_secondaria),
+    telefono: mappedText(values.telefono),
+    tipoIscrizione: mappedText(values.tipo_iscrizione),
+    dataNascita,
+    sesso: mappedText(values.sesso),
+    nazione: mappedText(values.nazione),
+    paeseResidenza,
+    citta,
+    gruppoRoma,
+    groupLeader: mappedText(values.gruppo_leader),
+    gruppoLabel,
+    partecipaInteroEvento: mappedBool(values.partecipa_intero_evento),
+    presenzaDettaglio:
+      presenza && typeof presenza === "object" ? (presenza as Record<string, unknown>) : null,
+    alloggio,
+    alloggioShort: alloggioLongToShort(alloggio) ?? "",
+    esigenzeAlimentari: mappedText(values.esigenze_alimentari),
+    allergie: mappedText(values.allergie),
+    disabilitaAccessibilita: mappedBool(values.disabilita_accessibilita),
+    difficoltaAccessibilita: mappedText(values.difficolta_accessibilita),
+    tallySubmissionId:
+      pickAnswer(answers, ['\ufeff"Submission ID"', "Submission ID"]) ||
+      normalize(payload?.data?.submissionId || payload?.submissionId),
+    tallyRespondentId:
+      pickAnswer(answers, ["Respondent ID"]) ||
+      normalize(payload?.data?.respondentId || payload?.respondentId),
+    note: mappedText(values.note),
+    privacyAccettata: mappedBool(values.privacy_accettata),
+    submittedAtTally:
+      mappedText(values.submitted_at_tally) ||
+      normalize(payload?.data?.createdAt || payload?.createdAt || payload?.submittedAt),
+    dataArrivo,
+    dataPartenza,
+    eta: calculated.eta,
+    isMinorenne: calculated.isMinorenne,
+    preferredLocale: "",
+  };
+}
+
+export function mapSubmission(
+  payload: TallyPayload,
+  answers: Record<string, string>,
+  mapping: TallyFieldMapping
+): { normalized: NormalizedSubmission; mapping: FieldMappingResult } {
+  const result = applyFieldMapping(extractAnswerEntries(payload), mapping);
+  return { normalized: buildNormalizedSubmission(payload, answers, result.values), mapping: result };
+}
+
+export function normalizeSubmission(
+  payload: TallyPayload,
+  answers: Record<string, string>,
+  mapping: TallyFieldMapping = DEFAULT_TALLY_FIELD_MAPPING
+): NormalizedSubmission {
+  return mapSubmission(payload, answers, mapping).normalized;
+}
+
+export type TallySubmissionResult = {
+  httpStatus: number;
+  body: Record<string, unknown>;
+  eventStatus: string;
+  eventId: string | null;
+};
+
+export type SubmissionEventContext = {
+  rawBody: string | null;
+  replayOf: string | null;
+  source?: string;
+};
+
+async function runTallySubmission(
+  supabase: SupabaseServiceClient,
+  payload: TallyPayload,
+  eventContext: SubmissionEventContext
+): Promise<TallySubmissionResult> {
+  const answers = extractAnswers(payload);
+  const mapping = await loadTallyFieldMapping(supabase);
+  const normalized = normalizeSubmission(payload, answers, mapping);
+  return registerSubmission(supabase, payload, answers, normalized, eventContext);
+}
+
+// Everything after normalization: group resolution, the idempotent participant insert,
+// group-leader notifications and the webhook_events audit trail.
+export async function registerSubmission(
+  supabase: SupabaseServiceClient,
+  payload: TallyPayload,
+  answers: Record<string, string>,
+  normalized: NormalizedSubmission,
+  eventContext: SubmissionEventContext
+): Promise<TallySubmissionResult> {
+  const submissionId =
+    normalize(payload?.data?.submissionId || payload?.submissionId) ||
+    normalize(payload?.["Submission ID"]) ||
+    normalize(payload?.['\ufeff"Submission ID"']) ||
+    normalize(answers['\ufeff"Submission ID"']) ||
+    normalize(answers["Submission ID"]);
+  const respondentId =
+    normalize(payload?.data?.respondentId || payload?.respondentId) ||
+    normalize(payload?.["Respondent ID"]) ||
+    normalize(answers["Respondent ID"]);
+
+  if (!normalized.email || !normalized.nome || !normalized.cognome) {
+    const eventId = await logWebhookEvent(supabase, {
+      submissionId,
+      respondentId,
+      email: normalized.email,
+      status: "rejected_missing_fields",
+      errorCode: "400",
+      errorMessage: "Missing required fields (nome, cognome, email)",
+      payload,
+      normalized,
+      ...eventContext,
+    });
+
+    return {
+      httpStatus: 400,
+      body: { error: "Missing required fields (nome, cognome, email)" },
+      eventStatus: "rejected_missing_fields",
+      eventId,
+    };
+  }
+
+  const gruppoId = await resolveGruppoId(supabase, normalized.gruppoLabel);
+  const submittedAtIso = parseDate(normalized.submittedAtTally)?.toISOString() || null;
+  const participantFullName = buildFullName(normalized.nome, normalized.cognome);
+  const notificationKey = buildNotificationKey({
+    submissionId: normalized.tallySubmissionId || submissionId,
+    respondentId: normalized.tallyRespondentId || respondentId,
+    participantFullName,
+    participantEmail: normalized.email,
+    submittedAtIso,
+  });
+  const submissionIdForDedupe = normalize(normalized.tallySubmissionId || submissionId);
+
+  const fullInsert = {
+    nome: normalized.nome,
+    cognome: normalized.cognome,
+    email: normalized.email,
+    nazione: normalized.nazione || null,
+    "città": normalized.citta || null,
+    gruppo_id: gruppoId,
+    telefono: normalized.telefono || null,
+    email_secondaria: normalized.emailSecondaria || null,
+    paese_residenza: normalized.paeseResidenza || null,
+    tipo_iscrizione: normalized.tipoIscrizione || null,
+    sesso: normalized.sesso || null,
+    data_nascita: normalized.dataNascita || null,
+    data_arrivo: normalized.dataArrivo || null,
+    data_partenza: normalized.dataPartenza || null,
+    alloggio: normalized.alloggio || null,
+    alloggio_short: normalized.alloggioShort || null,
+    esigenze_alimentari: normalized.esigenzeAlimentari || null,
+    allergie: normalized.allergie || null,
+    gruppo_leader: normalized.groupLeader || null,
+    partecipa_intero_evento: normalized.partecipaInteroEvento,
+    presenza_dettaglio: normalized.presenzaDettaglio,
+    disabilita_accessibilita: normalized.disabilitaAccessibilita,
+    difficolta_accessibilita: normalized.difficoltaAccessibilita || null,
+    tally_submission_id: normalized.tallySubmissionId || null,
+    tally_respondent_id: normalized.tallyRespondentId || null,
+    eta: normalized.eta,
+    is_minorenne: normalized.isMinorenne,
+    preferred_locale: normalized.preferredLocale || null,
+    note: normalized.note || null,
+    privacy_accettata: normalized.privacyAccettata,
+    submitted_at_tally: submittedAtIso,
+    gruppo_label: normalized.gruppoLabel || null,
+    dati_tally: payload,
+  };
+
+  const stored = submissionIdForDedupe
+    ? await loadRegistrationBySubmissionId(supabase, submissionIdForDedupe)
+    : null;
+  let duplicateSubmission = stored !== null;
+  let registrationStatus: RegistrationStatusDecision = stored ?? { registration_status: "confirmed" };
+  let insertResult: SupabaseWriteResult = { error: null };
+  if (!duplicateSubmission) {
+    let inserted = await insertRegistration(supabase, fullInsert);
+
+    const code = inserted.error?.code ?? "";
+    const message = inserted.error?.message ?? "";
+    const isMissingColumn =
+      code === "42703" || code === "PGRST204" || /column .* does not exist/i.test(message);
+
+    // Still through insertRegistration, so a full event waitlists the minimal row too.
+    if (isMissingColumn) {
+      console.warn("Missing normalized columns, fallback to minimal insert", {
+        code,
+        message,
+      });
+
+      inserted = await insertRegistration(supabase, {
+        nome: normalized.nome,
+        cognome: normalized.cognome,
+        email: normalized.email,
+        nazione: normalized.nazione || null,
+        "città": normalized.citta || null,
+        gruppo_id: gruppoId,
+        tally_submission_id: normalized.tallySubmissionId || null,
+        tally_respondent_id: normalized.tallyRespondentId || null,
+        dati_tally: payload,
+      });
+    }
+
+    insertResult = inserted;
+    if (inserted.data) registrationStatus = inserted.data;
+  }
+
+  if (insertResult.error) {
+    const err = insertResult.error;
+    const errMessage = err.message ?? "";
+    const isSubmissionUniqueViolation =
+      err.code === "23505" &&
+      /(tally_submission_id|partecipanti_tally_submission_id)/i.test(errMessage);
+    const isEmailUniqueViolation =
+      err.code === "23505" && /partecipanti_email_key/i.test(errMessage);
+
+    if (isSubmissionUniqueViolation) {
+      duplicateSubmission = true;
+      registrationStatus =
+        (await loadRegistrationBySubmissionId(supabase, submissionIdForDedupe)) ?? registrationStatus;
+    } else {
+      const eventId = await logWebhookEvent(supabase, {
+        submissionId,
+        respondentId,
+        email: normalized.email,
+        status: "error",
+        errorCode: err.code,
+        errorMessage: err.message,
+        payload,
+        normalized: { ...normalized, gruppoId },
+        ...eventContext,
+      });
+
+      if (isEmailUniqueViolation) {
+        return {
+          httpStatus: 409,
+          body: {
+            error:
+              "Email duplicata bloccata da vincolo DB. Rimuovi il constraint partecipanti_email_key per consentire più partecipanti con la stessa email.",
+          },
+          eventStatus: "error",
+          eventId,
+        };
+      }
+
+      console.error("Supabase insert error", err);
+      return { httpStatus: 500, body: { error: err.message }, eventStatus: "error", eventId };
+    }
+  }
+
+  try {
+    await notifyGroupLeadersAboutRegistration({
+      supabase,
+      gruppoId,
+      gruppoLabel: normalized.gruppoLabel || null,
+      participantFullName,
+      notificationKey,
+      payload,
+      respondentId,
+      duplicateSubmission,
+    });
+  } catch (notificationError) {
+    const reason =
+      notificationError instanceof Error
+        ? notificationError.message
+        : "Unable to notify group leaders";
+
+    const eventId = await logWebhookEvent(supabase, {
+      submissionId,
+      respondentId,
+      email: normalized.email,
+      status: "notification_error",
+      errorCode: "500",
+      errorMessage: reason,
+      payload,
+      normalized: { ...normalized, gruppoId, notificationKey, duplicateSubmission },
+      ...eventContext,
+    });
+
+    return {
+      httpStatus: 500,
+      body: { error: reason },
+      eventStatus: "notification_error",
+      eventId,
+    };
+  }
+
+  const participantId = (insertResult.data as { id?: string } | null | undefined)?.id;
+  if (!duplicateSubmission && participantId) {
+    await runAutomationTrigger(supabase, "registration_created", [participantId]);
+  }
+
+  const eventStatus = duplicateSubmission ? "success_duplicate_submission" : "success";
+  const eventId = await logWebhookEvent(supabase, {
+    submissionId,
+    respondentId,
+    email: normalized.email,
+    status: eventStatus,
+    payload,
+    normalized: {
+      ...normalized,
+      gruppoId,
+      notificationKey,
+      duplicateSubmission,
+      registrationStatus: registrationStatus.registration_status,
+    },
+    ...eventContext,
+  });
+
+  return {
+    httpStatus: 200,
+    body: {
+      ok: true,
+      gruppo_id: gruppoId,
+      duplicate_submission: duplicateSubmission,
+      registration_status: registrationStatus.registration_status,
+      waitlist_position:
+        registrationStatus.registration_status === "waitlisted"
+          ? registrationStatus.waitlist_position
+          : null,
+    },
+    eventStatus,
+    eventId,
+  };
+}
+
+// Runs a verified submission through normalization, group resolution, the participant
+// insert and leader notifications. Safe to run again for the same payload: the insert is
+// skipped when a participant with the same tally_submission_id exists, and notifications
+// are de-duplicated through webhook_events. Unexpected failures are logged with the raw
+// body so the event lands in the failed-events queue instead of being lost.
+export async function processTallySubmission(
+  supabase: SupabaseServiceClient,
+  payload: TallyPayload,
+  options: { rawBody: string | null; replayOf?: string | null }
+): Promise<TallySubmissionResult> {
+  const eventContext = { rawBody: options.rawBody, replayOf: options.replayOf ?? null };
+
+  try {
+    return await runTallySubmission(supabase, payload, eventContext);
+  } catch (error) {
+    const reason = error instanceof Error ? error.message : "Unknown error";
+    const eventId = await logWebhookEvent(supabase, {
+      submissionId: normalize(payload?.data?.submissionId || payload?.submissionId),
+      respondentId: normalize(payload?.data?.respondentId || payload?.respondentId),
+      email: "",
+      status: "error",
+      errorCode: "500",
+      errorMessage: reason,
+      payload,
+      ...eventContext,
+    });
+
+    console.error("Tally submission processing failed", error);
+    return { httpStatus: 500, body: { error: reason }, eventStatus: "error", eventId };
+  }
+}
@@ -0,0 +1,231 @@
+import {
+  asTallyPayload,
+  processTallySubmission,
+  type SupabaseServiceClient,
+  type TallySubmissionResult,
+} from "@/lib/tally/submission";
+import { REGISTRATION_FORM_SOURCE } from "@/lib/registration/submit";
+import { processRegistrationForm } from "@/lib/registration/submit-store";
+import { replayRequest } from "@/lib/tally/webhook-replay";
+
+// Form submissions in these states never produced a participant (or its notifications).
+export const FAILED_SUBMISSION_STATUSES = ["error", "rejected_missing_fields", "notification_error"];
+
+// Both registration entry points log their submissions here and share the replay queue.
+export const SUBMISSION_SOURCES = ["tally", REGISTRATION_FORM_SOURCE];
+
+export type WebhookEventView = "failed" | "all";
+
+export type WebhookEventSummary = {
+  id: string;
+  source: string;
+  event_type: string;
+  submission_id: string | null;
+  respondent_id: string | null;
+  email: string | null;
+  status: string;
+  error_code: string | null;
+  error_message: string | null;
+  replay_of: string | null;
+  replay_count: number;
+  last_replayed_at: string | null;
+  resolved_at: string | null;
+  resolution: string | null;
+  created_at: string;
+  has_raw_body: boolean;
+  participant_exists: boolean;
+};
+
+type WebhookEventRow = Omit<WebhookEventSummary, "has_raw_body" | "participant_exists"> & {
+  raw_body: string | null;
+  payload: unknown;
+};
+
+const SUMMARY_FIELDS =
+  "id,source,event_type,submission_id,respondent_id,email,status,error_code,error_message,replay_of,replay_count,last_replayed_at,resolved_at,resolution,created_at,raw_body";
+
+export async function loadWebhookEvents(
+  service: SupabaseServiceClient,
+  view: WebhookEventView,
+  limit: number,
+  sources: string[] = SUBMISSION_SOURCES
+): Promise<WebhookEventSummary[]> {
+  let query = service
+    .from("webhook_events")
+    .select(SUMMARY_FIELDS)
+    .in("source", sources)
+    .eq("event_type", "form_submission")
+    .order("created_at", { ascending: false })
+    .limit(limit);
+
+  if (view === "failed") {
+    query = query
+      .in("status", FAILED_SUBMISSION_STATUSES)
+      .is("resolved_at", null)
+      .is("replay_of", null);
+  }
+
+  const { data, error } = await query;
+  if (error) {
+    throw new Error(error.message);
+  }
+
+  const rows = (data ?? []) as Array<Omit<WebhookEventRow, "payload">>;
+  const submissionIds = [...new Set(rows.map((row) => row.submission_id).filter(Boolean))] as string[];
+  const existing = new Set<string>();
+
+  if (submissionIds.length > 0) {
+    const { data: participants, error: participantsError } = await service
+      .from("partecipanti")
+      .select("tally_submission_id")
+      .in("tally_submission_id", submissionIds);
+
+    if (participantsError) {
+      throw new Error(participantsError.message);
+    }
+
+    for (const row of (participants ?? []) as Array<{ tally_submission_id: string | null }>) {
+      if (row.tally_submission_id) existing.add(row.tally_submission_id);
+    }
+  }
+
+  return rows.map(({ raw_body, ...row }) => ({
+    ...row,
+    replay_count: row.replay_count ?? 0,
+    has_raw_body: Boolean(raw_body),
+    participant_exists: Boolean(row.submission_id && existing.has(row.submission_id)),
+  }));
+}
+
+export async function loadWebhookEvent(
+  service: SupabaseServiceClient,
+  id: string
+): Promise<WebhookEventRow | null> {
+  const { data, error } = await service
+    .from("webhook_events")
+    .select(`${SUMMARY_FIELDS},payload`)
+    .eq("id", id)
+    .in("source", SUBMISSION_SOURCES)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(error.message);
+  }
+
+  return (data as WebhookEventRow | null) ?? null;
+}
+
+// Marks the original event and any other open failure for the same submission as handled.
+async function resolveFailedEvents(
+  service: SupabaseServiceClient,
+  event: WebhookEventRow,
+  actorId: string | null,
+  resolution: "replayed" | "dismissed"
+) {
+  const update = {
+    resolved_at: new Date().toISOString(),
+    resolved_by: actorId,
+    resolution,
+  };
+
+  const { error } = await service.from("webhook_events").update(update).eq("id", event.id);
+  if (error) {
+    throw new Error(error.message);
+  }
+
+  if (!event.submission_id) return;
+
+  const { error: siblingsError } = await service
+    .from("webhook_events")
+    .update(update)
+    .eq("source", event.source)
+    .eq("event_type", "form_submission")
+    .eq("submission_id", event.submission_id)
+    .in("status", FAILED_SUBMISSION_STATUSES)
+    .is("resolved_at", null);
+
+  if (siblingsError) {
+    throw new Error(siblingsError.message);
+  }
+}
+
+export async function replayWebhookEvent(
+  service: SupabaseServiceClient,
+  actorId: string | null,
+  id: string
+): Promise<{ result: TallySubmissionResult } | { error: string; status: number }> {
+  const requested = await loadWebhookEvent(service, id);
+  if (!requested) {
+    return { error: "Webhook event not found", status: 404 };
+  }
+
+  // Replays of a replay always go back to the original delivery.
+  const event = requested.replay_of
+    ? (await loadWebhookEvent(service, requested.replay_of)) ?? requested
+    : requested;
+
+  const request = replayRequest(event);
+  if ("error" in request) {
+    return request;
+  }
+
+  const { body, options } = request;
+  let result: TallySubmissionResult;
+
+  if (event.source === REGISTRATION_FORM_SOURCE) {
+    const outcome = await processRegistrationForm(service, asTallyPayload(body), {
+      ...options,
+      submittedAt: event.created_at,
+    });
+    if ("error" in outcome) {
+      return outcome;
+    }
+    if ("validationErrors" in outcome) {
+      const fields = outcome.validationErrors.map((item) => item.field).join(", ");
+      return { error: `Stored form submission is invalid: ${fields}`, status: 400 };
+    }
+    result = outcome.result;
+  } else {
+    result = await processTallySubmission(service, asTallyPayload(body), options);
+  }
+
+  const { error: updateError } = await service
+    .from("webhook_events")
+    .update({
+      replay_count: (event.replay_count ?? 0) + 1,
+      last_replayed_at: new Date().toISOString(),
+    })
+    .eq("id", event.id);
+
+  if (updateError) {
+    throw new Error(updateError.message);
+  }
+
+  if (result.eventStatus.startsWith("success")) {
+    await resolveFailedEvents(service, event, actorId, "replayed");
+  }
+
+  return { result };
+}
+
+export async function dismissWebhookEvent(
+  service: SupabaseServiceClient,
+  actorId: string | null,
+  id: string
+): Promise<{ ok: true } | { error: string; status: number }> {
+  const event = await loadWebhookEvent(service, id);
+  if (!event) {
+    return { error: "Webhook event not found", status: 404 };
+  }
+
+  const { error } = await service
+    .from("webhook_events")
+    .update({ resolved_at: new Date().toISOString(), resolved_by: actorId, resolution: "dismissed" })
+    .eq("id", event.id);
+
+  if (error) {
+    throw new Error(error.message);
+  }
+
+  return { ok: true };
+}
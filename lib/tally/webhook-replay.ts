@@ -0,0 +1,78 @@
+// What gets stored for each webhook delivery and how a stored delivery is fed back to
+// the submission pipeline. The raw body is kept byte for byte so a replay sees exactly
+// what the sender signed, not the payload as parsed at the time.
+
+export type WebhookEventEntry = {
+  submissionId: string;
+  respondentId: string;
+  email: string;
+  status: string;
+  eventType?: string;
+  errorCode?: string | null;
+  errorMessage?: string | null;
+  payload: unknown;
+  normalized?: unknown;
+  rawBody?: string | null;
+  replayOf?: string | null;
+  source?: string;
+};
+
+export type ReplayableEvent = {
+  id: string;
+  event_type: string;
+  status: string;
+  raw_body: string | null;
+  payload: unknown;
+};
+
+// withReplayColumns is false on databases without the replay migration: they still get
+// the audit row, just without the raw body.
+export function webhookEventRow(entry: WebhookEventEntry, withReplayColumns: boolean) {
+  return {
+    source: entry.source ?? "tally",
+    event_type: entry.eventType ?? "form_submission",
+    submission_id: entry.submissionId || null,
+    respondent_id: entry.respondentId || null,
+    email: entry.email || null,
+    status: entry.status,
+    error_code: entry.errorCode ?? null,
+    error_message: entry.errorMessage ?? null,
+    payload: entry.payload,
+    normalized: entry.normalized ?? null,
+    ...(withReplayColumns
+      ? { raw_body: entry.rawBody ?? null, replay_of: entry.replayOf ?? null }
+      : {}),
+  };
+}
+
+// The body to process again and the options the new delivery is logged with. Events
+// stored before raw bodies were kept fall back to their parsed payload.
+export function replayRequest(
+  event: ReplayableEvent
+):
+  | { body: unknown; options: { rawBody: string; replayOf: string } }
+  | { error: string; status: number } {
+  if (event.event_type !== "form_submission") {
+    return { error: "Only form submissions can be replayed", status: 400 };
+  }
+  if (event.status === "invalid_signature") {
+    return { error: "Events with an invalid signature cannot be replayed", status: 400 };
+  }
+
+  let body: unknown = event.payload;
+  if (event.raw_body) {
+    try {
+      body = JSON.parse(event.raw_body);
+    } catch {
+      return { error: "Stored raw body is not valid JSON", status: 400 };
+    }
+  }
+
+  return {
+    body,
+    options: {
+      rawBody: event.raw_body ?? JSON.stringify(event.payload),
+      replayOf: event.id,
+    },
+  };
+}
@@ -0,0 +1,273 @@
+// Travel logistics: how participants reach the event and leave it, and the shuttle runs
+// that pick them up at airports and stations. Dates come from data_arrivo/data_partenza;
+// times are local times at the event.
+
+export const TRAVEL_DIRECTIONS = ["arrival", "departure"] as const;
+export type TravelDirection = (typeof TRAVEL_DIRECTIONS)[number];
+
+export const TRAVEL_MODES = ["plane", "train", "bus", "car", "other"] as const;
+export type TravelMode = (typeof TRAVEL_MODES)[number];
+
+// Modes that end at an airport or station, where a shuttle may be needed.
+export const SHUTTLE_MODES: readonly TravelMode[] = ["plane", "train", "bus"];
+
+// Arrivals within this many minutes of the first one in a window share a shuttle.
+export const DEFAULT_WINDOW_MINUTES = 90;
+
+// Arrival shuttles wait for luggage and delays after the last arrival of the window;
+// departure shuttles must reach the airport or station ahead of the first departure.
+const ARRIVAL_BUFFER_MINUTES = 45;
+const DEPARTURE_LEAD_MINUTES: Record<TravelMode, number> = {
+  plane: 180,
+  train: 60,
+  bus: 60,
+  car: 0,
+  other: 60,
+};
+
+const TIME_PATTERN = /^([01]\d|2[0-3]):([0-5]\d)(:00)?$/;
+
+export type TravelDetailsInput = {
+  mode: TravelMode;
+  reference: string | null;
+  time: string | null;
+  location: string | null;
+  notes: string | null;
+};
+
+// One participant's arrival or departure, as the planner sees it.
+export type TravelLeg = {
+  participantId: string;
+  name: string;
+  group: string | null;
+  phone: string | null;
+  direction: TravelDirection;
+  date: string | null;
+  mode: TravelMode;
+  reference: string | null;
+  time: string | null;
+  location: string | null;
+  notes: string | null;
+  shuttleRunId: string | null;
+};
+
+export type ShuttleRun = {
+  id: string;
+  direction: TravelDirection;
+  run_date: string;
+  departure_time: string;
+  location: string;
+  capacity: number;
+  driver_name: string | null;
+  driver_phone: string | null;
+  vehicle: string | null;
+  notes: string | null;
+};
+
+export type TravelCluster = {
+  key: string;
+  direction: TravelDirection;
+  date: string;
+  location: string;
+  from: string;
+  to: string;
+  legs: TravelLeg[];
+  // Suggested departure time of a shuttle serving the whole window.
+  suggestedTime: string;
+};
+
+export function isTravelDirection(value: unknown): value is TravelDirection {
+  return typeof value === "string" && (TRAVEL_DIRECTIONS as readonly string[]).includes(value);
+}
+
+export function isTravelMode(value: unknown): value is TravelMode {
+  return typeof value === "string" && (TRAVEL_MODES as readonly string[]).includes(value);
+}
+
+function text(value: unknown): string | null {
+  if (typeof value !== "string") return null;
+  const trimmed = value.trim().replace(/\s+/g, " ");
+  return trimmed.length > 0 ? trimmed : null;
+}
+
+// "14:05" from "14:05" or "14:05:00" (Postgres time columns), null when invalid.
+export function normalizeTime(value: unknown): string | null {
+  const raw = text(value);
+  const match = raw ? TIME_PATTERN.exec(raw) : null;
+  return match ? `${match[1]}:${match[2]}` : null;
+}
+
+export function timeToMinutes(time: string): number {
+  const [hours, minutes] = time.split(":").map(Number);
+  return hours * 60 + minutes;
+}
+
+// Clamped to the same day: shuttles are planned per date.
+export function minutesToTime(value: number): string {
+  const clamped = Math.min(Math.max(Math.round(value), 0), 23 * 60 + 59);
+  const hours = Math.floor(clamped / 60);
+  return `${String(hours).padStart(2, "0")}:${String(clamped % 60).padStart(2, "0")}`;
+}
+
+export function parseTravelDetails(
+  value: Record<string, unknown>
+): { input: TravelDetailsInput; error: null } | { input: null; error: string } {
+  if (!isTravelMode(value.mode)) {
+    return { input: null, error: "Select how you are travelling" };
+  }
+  const rawTime = text(value.time);
+  const time = normalizeTime(rawTime);
+  if (rawTime && !time) {
+    return { input: null, error: "Enter the time as HH:MM" };
+  }
+  const location = text(value.location);
+  if (SHUTTLE_MODES.includes(value.mode) && (!time || !location)) {
+    return { input: null, error: "Enter the time and the airport or station" };
+  }
+
+  return {
+    input: {
+      mode: value.mode,
+      reference: text(value.reference)?.toUpperCase() ?? null,
+      time,
+      location,
+      notes: text(value.notes),
+    },
+    error: null,
+  };
+}
+
+export function parseShuttleRun(
+  value: Record<string, unknown>
+): { input: Omit<ShuttleRun, "id">; error: null } | { input: null; error: string } {
+  if (!isTravelDirection(value.direction)) {
+    return { input: null, error: "Invalid direction" };
+  }
+  const runDate = text(value.run_date);
+  if (!runDate || !/^\d{4}-\d{2}-\d{2}$/.test(runDate)) {
+    return { input: null, error: "Invalid date" };
+  }
+  const departureTime = normalizeTime(value.departure_time);
+  if (!departureTime) {
+    return { input: null, error: "Enter the departure time as HH:MM" };
+  }
+  const location = text(value.location);
+  if (!location) {
+    return { input: null, error: "Enter the airport or station" };
+  }
+  const capacity = Number(value.capacity);
+  if (!Number.isInteger(capacity) || capacity < 1) {
+    return { input: null, error: "Capacity must be a whole number of seats" };
+  }
+
+  return {
+    input: {
+      direction: value.direction,
+      run_date: runDate,
+      departure_time: departureTime,
+      location,
+      capacity,
+      driver_name: text(value.driver_name),
+      driver_phone: text(value.driver_phone),
+      vehicle: text(value.vehicle),
+      notes: text(value.notes),
+    },
+    error: null,
+  };
+}
+
+// Case and spacing variants of the same airport or station cluster together.
+export function locationKey(location: string): string {
+  return location.trim().toLowerCase().replace(/\s+/g, " ");
+}
+
+function suggestedTime(direction: TravelDirection, legs: TravelLeg[]): string {
+  if (direction === "arrival") {
+    const last = Math.max(...legs.map((leg) => timeToMinutes(leg.time ?? "00:00")));
+    return minutesToTime(last + ARRIVAL_BUFFER_MINUTES);
+  }
+  const first = Math.min(
+    ...legs.map((leg) => timeToMinutes(leg.time ?? "00:00") - DEPARTURE_LEAD_MINUTES[leg.mode])
+  );
+  return minutesToTime(first);
+}
+
+// Legs that can share a shuttle: same direction, day and location, grouped into time
+// windows opened by the earliest leg. Legs without a date, time or location, or by car,
+// are left out.
+export function clusterTravelLegs(
+  legs: TravelLeg[],
+  windowMinutes = DEFAULT_WINDOW_MINUTES
+): TravelCluster[] {
+  const byPlace = new Map<string, TravelLeg[]>();
+  for (const leg of legs) {
+    if (!leg.date || !leg.time || !leg.location || !SHUTTLE_MODES.includes(leg.mode)) continue;
+    const key = `${leg.direction}|${leg.date}|${locationKey(leg.location)}`;
+    byPlace.set(key, [...(byPlace.get(key) ?? []), leg]);
+  }
+
+  const clusters: TravelCluster[] = [];
+  for (const [placeKey, placeLegs] of byPlace) {
+    const sorted = [...placeLegs].sort(
+      (a, b) => timeToMinutes(a.time ?? "00:00") - timeToMinutes(b.time ?? "00:00")
+    );
+    let window: TravelLeg[] = [];
+    const close = () => {
+      if (window.length === 0) return;
+      const first = window[0];
+      const from = first.time ?? "00:00";
+      clusters.push({
+        key: `${placeKey}|${from}`,
+        direction: first.direction,
+        date: first.date ?? "",
+        location: first.location ?? "",
+        from,
+        to: window[window.length - 1].time ?? from,
+        legs: window,
+        suggestedTime: suggestedTime(first.direction, window),
+      });
+      window = [];
+    };
+
+    for (const leg of sorted) {
+      const start = window.length > 0 ? timeToMinutes(window[0].time ?? "00:00") : null;
+      if (start !== null && timeToMinutes(leg.time ?? "00:00") - start > windowMinutes) close();
+      window.push(leg);
+    }
+    close();
+  }
+
+  return clusters.sort(
+    (a, b) =>
+      a.date.localeCompare(b.date) ||
+      TRAVEL_DIRECTIONS.indexOf(a.direction) - TRAVEL_DIRECTIONS.indexOf(b.direction) ||
+      a.from.localeCompare(b.from) ||
+      a.location.localeCompare(b.location)
+  );
+}
+
+// Why a leg cannot ride a run, or null when it can. assignedCount excludes the leg.
+export function shuttleAssignmentError(
+  run: ShuttleRun,
+  leg: Pick<TravelLeg, "direction" | "date">,
+  assignedCount: number
+): string | null {
+  if (run.direction !== leg.direction) {
+    return `This shuttle is for ${run.direction === "arrival" ? "arrivals" : "departures"}`;
+  }
+  if (leg.date && leg.date !== run.run_date) {
+    return `The ${leg.direction} is on ${leg.date}, the shuttle runs on ${run.run_date}`;
+  }
+  if (assignedCount >= run.capacity) {
+    return "The shuttle is full";
+  }
+  return null;
+}
+
+export function compareShuttleRuns(a: ShuttleRun, b: ShuttleRun): number {
+  return (
+    a.run_date.localeCompare(b.run_date) ||
+    a.departure_time.localeCompare(b.departure_time) ||
+    a.location.localeCompare(b.location)
+  );
+}
@@ -0,0 +1,478 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { loadOrganizationSettings } from "@/lib/fees/document-store";
+import { renderShuttleManifestPdf, type ShuttleManifest } from "@/lib/pdf/shuttle-manifest";
+import { embeddedOne } from "@/lib/supabase/embedded";
+import {
+  compareShuttleRuns,
+  normalizeTime,
+  shuttleAssignmentError,
+  TRAVEL_DIRECTIONS,
+  type ShuttleRun,
+  type TravelDetailsInput,
+  type TravelDirection,
+  type TravelLeg,
+  type TravelMode,
+} from "@/lib/travel/logistics";
+
+// Travel logistics (supabase/travel_logistics_migration.sql): travel details entered by
+// participants and group leaders, and the shuttle runs managers plan from them.
+
+type TravelRow = {
+  participant_id: string;
+  direction: TravelDirection;
+  mode: TravelMode;
+  reference: string | null;
+  travel_time: string | null;
+  location: string | null;
+  notes: string | null;
+  shuttle_run_id: string | null;
+};
+
+type TravelParticipantRow = {
+  id: string;
+  nome: string | null;
+  cognome: string | null;
+  gruppo_label: string | null;
+  telefono: string | null;
+  data_arrivo: string | null;
+  data_partenza: string | null;
+};
+
+// What participants and group leaders see of their own travel.
+export type TravelDetails = {
+  participantId: string;
+  direction: TravelDirection;
+  mode: TravelMode;
+  reference: string | null;
+  time: string | null;
+  location: string | null;
+  notes: string | null;
+  shuttle: Pick<ShuttleRun, "run_date" | "departure_time" | "location"> | null;
+};
+
+export type ShuttleRunInput = Omit<ShuttleRun, "id">;
+
+export type PlannedShuttleRun = ShuttleRun & { passengers: number };
+
+export type TravelPlan = {
+  legs: TravelLeg[];
+  runs: PlannedShuttleRun[];
+  // Confirmed participants who have not entered travel details yet, per direction.
+  missing: Record<TravelDirection, number>;
+};
+
+const TRAVEL_FIELDS =
+  "participant_id,direction,mode,reference,travel_time,location,notes,shuttle_run_id";
+
+const RUN_FIELDS =
+  "id,direction,run_date,departure_time,location,capacity,driver_name,driver_phone,vehicle,notes";
+
+// check_violation raised by the seat and capacity triggers of travel_logistics_migration.sql.
+const SEAT_CONFLICT_CODE = "23514";
+
+const PARTICIPANT_FIELDS = "id,nome,cognome,gruppo_label,telefono,data_arrivo,data_partenza";
+
+function fullName(row: { nome: string | null; cognome: string | null }): string {
+  return [row.nome, row.cognome].filter(Boolean).join(" ").trim() || "-";
+}
+
+// Postgres returns time columns as "HH:MM:SS".
+function toRun(row: ShuttleRun): ShuttleRun {
+  return { ...row, departure_time: normalizeTime(row.departure_time) ?? row.departure_time };
+}
+
+function toLeg(participant: TravelParticipantRow, row: TravelRow): TravelLeg {
+  return {
+    participantId: participant.id,
+    name: fullName(participant),
+    group: participant.gruppo_label,
+    phone: participant.telefono,
+    direction: row.direction,
+    date: row.direction === "arrival" ? participant.data_arrivo : participant.data_partenza,
+    mode: row.mode,
+    reference: row.reference,
+    time: normalizeTime(row.travel_time),
+    location: row.location,
+    notes: row.notes,
+    shuttleRunId: row.shuttle_run_id,
+  };
+}
+
+export async function loadTravelDetails(
+  service: SupabaseClient,
+  participantIds: string[]
+): Promise<TravelDetails[]> {
+  if (participantIds.length === 0) return [];
+
+  const { data, error } = await service
+    .from("participant_travel")
+    .select(
+      "participant_id,direction,mode,reference,travel_time,location,notes,shuttle_run_id,shuttle:shuttle_runs(run_date,departure_time,location)"
+    )
+    .in("participant_id", participantIds);
+
+  if (error) {
+    throw new Error(error.message);
+  }
+
+  return (data ?? []).map((row) => {
+    const shuttle = embeddedOne(row.shuttle);
+    return {
+      participantId: row.participant_id,
+      direction: row.direction,
+      mode: row.mode,
+      reference: row.reference,
+      time: normalizeTime(row.travel_time),
+      location: row.location,
+      notes: row.notes,
+      shuttle: shuttle
+        ? {
+            run_date: shuttle.run_date,
+            departure_time: normalizeTime(shuttle.departure_time) ?? shuttle.departure_time,
+            location: shuttle.location,
+          }
+        : null,
+    };
+  });
+}
+
+// Saves one direction, or clears it when input is null. A changed time, place or mode
+// drops the shuttle seat, since the run was planned for the old details.
+export async function saveTravelDetails(
+  service: SupabaseClient,
+  participantId: string,
+  direction: TravelDirection,
+  input: TravelDetailsInput | null,
+  userId: string
+): Promise<TravelDetails | null> {
+  if (!input) {
+    const { error } = await service
+      .from("participant_travel")
+      .delete()
+      .eq("participant_id", participantId)
+      .eq("direction", direction);
+    if (error) {
+      throw new Error(error.message);
+    }
+    return null;
+  }
+
+  const { data: existing, error: existingError } = await service
+    .from("participant_travel")
+    .select(TRAVEL_FIELDS)
+    .eq("participant_id", participantId)
+    .eq("direction", direction)
+    .maybeSingle();
+
+  if (existingError) {
+    throw new Error(existingError.message);
+  }
+
+  const previous = existing as TravelRow | null;
+  const keepsShuttle =
+    previous?.shuttle_run_id &&
+    previous.mode === input.mode &&
+    normalizeTime(previous.travel_time) === input.time &&
+    (previous.location ?? "") === (input.location ?? "");
+
+  const { error } = await service.from("participant_travel").upsert(
+    {
+      participant_id: participantId,
+      direction,
+      mode: input.mode,
+      reference: input.reference,
+      travel_time: input.time,
+      location: input.location,
+      notes: input.notes,
+      shuttle_run_id: keepsShuttle ? previous.shuttle_run_id : null,
+      updated_at: new Date().toISOString(),
+      updated_by: userId,
+    },
+    { onConflict: "participant_id,direction" }
+  );
+
+  if (error) {
+    throw new Error(error.message);
+  }
+
+  const [saved] = (await loadTravelDetails(service, [participantId])).filter(
+    (details) => details.direction === direction
+  );
+  return saved ?? null;
+}
+
+async function loadRuns(service: SupabaseClient): Promise<ShuttleRun[]> {
+  const { data, error } = await service.from("shuttle_runs").select(RUN_FIELDS);
+
+  if (error) {
+    throw new Error(error.message);
+  }
+  return ((data ?? []) as ShuttleRun[]).map(toRun).sort(compareShuttleRuns);
+}
+
+export async function loadTravelPlan(service: SupabaseClient): Promise<TravelPlan> {
+  const [participantsRes, travelRes, runs] = await Promise.all([
+    service
+      .from("partecipanti")
+      .select(PARTICIPANT_FIELDS)
+      .eq("registration_status", "confirmed"),
+    service.from("participant_travel").select(TRAVEL_FIELDS),
+    loadRuns(service),
+  ]);
+
+  if (participantsRes.error) {
+    throw new Error(participantsRes.error.message);
+  }
+  if (travelRes.error) {
+    throw new Error(travelRes.error.message);
+  }
+
+  const participants = new Map(
+    ((participantsRes.data ?? []) as TravelParticipantRow[]).map((row) => [row.id, row])
+  );
+  const legs: TravelLeg[] = [];
+  const entered = new Set<string>();
+  for (const row of (travelRes.data ?? []) as TravelRow[]) {
+    const participant = participants.get(row.participant_id);
+    if (!participant) continue;
+    legs.push(toLeg(participant, row));
+    entered.add(`${row.participant_id}|${row.direction}`);
+  }
+
+  const missing = Object.fromEntries(
+    TRAVEL_DIRECTIONS.map((direction) => [
+      direction,
+      [...participants.keys()].filter((id) => !entered.has(`${id}|${direction}`)).length,
+    ])
+  ) as Record<TravelDirection, number>;
+
+  const passengers = new Map<string, number>();
+  for (const leg of legs) {
+    if (leg.shuttleRunId) {
+      passengers.set(leg.shuttleRunId, (passengers.get(leg.shuttleRunId) ?? 0) + 1);
+    }
+  }
+
+  return {
+    legs: legs.sort(
+      (a, b) => (a.date ?? "").localeCompare(b.date ?? "") || a.name.localeCompare(b.name)
+    ),
+    runs: runs.map((run) => ({ ...run, passengers: passengers.get(run.id) ?? 0 })),
+    missing,
+  };
+}
+
+async function loadRun(service: SupabaseClient, runId: string): Promise<ShuttleRun | null> {
+  const { data, error } = await service
+    .from("shuttle_runs")
+    .select(RUN_FIELDS)
+    .eq("id", runId)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(error.message);
+  }
+  return data ? toRun(data as ShuttleRun) : null;
+}
+
+async function loadLeg(
+  service: SupabaseClient,
+  participantId: string,
+  direction: TravelDirection
+): Promise<TravelLeg | null> {
+  const [participantRes, travelRes] = await Promise.all([
+    service.from("partecipanti").select(PARTICIPANT_FIELDS).eq("id", participantId).maybeSingle(),
+    service
+      .from("participant_travel")
+      .select(TRAVEL_FIELDS)
+      .eq("participant_id", participantId)
+      .eq("direction", direction)
+      .maybeSingle(),
+  ]);
+
+  if (participantRes.error) {
+    throw new Error(participantRes.error.message);
+  }
+  if (travelRes.error) {
+    throw new Error(travelRes.error.message);
+  }
+  if (!participantRes.data || !travelRes.data) return null;
+  return toLeg(participantRes.data as TravelParticipantRow, travelRes.data as TravelRow);
+}
+
+async function countPassengers(
+  service: SupabaseClient,
+  runId: string,
+  exceptParticipantId: string
+): Promise<number> {
+  const { data, error } = await service
+    .from("participant_travel")
+    .select("participant_id")
+    .eq("shuttle_run_id", runId)
+    .neq("participant_id", exceptParticipantId);
+
+  if (error) {
+    throw new Error(error.message);
+  }
+  return (data ?? []).length;
+}
+
+// Puts a participant on a run, or takes them off when runId is null.
+export async function assignShuttleSeat(
+  service: SupabaseClient,
+  input: { participantId: string; direction: TravelDirection; runId: string | null }
+): Promise<{ ok: true } | { error: string; status: number }> {
+  const leg = await loadLeg(service, input.participantId, input.direction);
+  if (!leg) {
+    return { error: "No travel details for this participant", status: 404 };
+  }
+
+  if (input.runId) {
+    const run = await loadRun(service, input.runId);
+    if (!run) {
+      return { error: "Shuttle run not found", status: 404 };
+    }
+    const assigned = await countPassengers(service, run.id, input.participantId);
+    const problem = shuttleAssignmentError(run, leg, assigned);
+    if (problem) {
+      return { error: problem, status: 409 };
+    }
+  }
+
+  const { error } = await service
+    .from("participant_travel")
+    .update({ shuttle_run_id: input.runId })
+    .eq("participant_id", input.participantId)
+    .eq("direction", input.direction);
+
+  // The seat trigger re-checks the capacity with the run locked, for concurrent assignments.
+  if (error?.code === SEAT_CONFLICT_CODE) {
+    return { error: error.message, status: 409 };
+  }
+  if (error) {
+    throw new Error(error.message);
+  }
+  return { ok: true };
+}
+
+// Creates a run and seats the given participants in order until it is full; the ones
+// that do not fit or do not match the run are reported back.
+export async function createShuttleRun(
+  service: SupabaseClient,
+  input: ShuttleRunInput,
+  participantIds: string[],
+  userId: string
+): Promise<{ run: ShuttleRun; skipped: Array<{ participantId: string; error: string }> }> {
+  const { data, error } = await service
+    .from("shuttle_runs")
+    .insert({ ...input, created_by: userId })
+    .select(RUN_FIELDS)
+    .single();
+
+  if (error) {
+    throw new Error(error.message);
+  }
+
+  const run = toRun(data as ShuttleRun);
+  const skipped: Array<{ participantId: string; error: string }> = [];
+  for (const participantId of participantIds) {
+    const result = await assignShuttleSeat(service, {
+      participantId,
+      direction: run.direction,
+      runId: run.id,
+    });
+    if ("error" in result) skipped.push({ participantId, error: result.error });
+  }
+  return { run, skipped };
+}
+
+export async function updateShuttleRun(
+  service: SupabaseClient,
+  runId: string,
+  input: ShuttleRunInput
+): Promise<{ run: ShuttleRun } | { error: string; status: number }> {
+  const current = await loadRun(service, runId);
+  if (!current) {
+    return { error: "Shuttle run not found", status: 404 };
+  }
+  const { data: seated, error: seatedError } = await service
+    .from("participant_travel")
+    .select("participant_id")
+    .eq("shuttle_run_id", runId);
+  if (seatedError) {
+    throw new Error(seatedError.message);
+  }
+  const passengers = (seated ?? []).length;
+  if (
+    passengers > 0 &&
+    (current.direction !== input.direction || current.run_date !== input.run_date)
+  ) {
+    return { error: "Remove the passengers before changing the day or direction", status: 409 };
+  }
+  if (input.capacity < passengers) {
+    return {
+      error: `${passengers} passengers are seated on this shuttle; remove some before lowering the capacity`,
+      status: 409,
+    };
+  }
+
+  const { data, error } = await service
+    .from("shuttle_runs")
+    .update(input)
+    .eq("id", runId)
+    .select(RUN_FIELDS)
+    .single();
+
+  // The capacity trigger catches seats taken since the count above.
+  if (error?.code === SEAT_CONFLICT_CODE) {
+    return { error: error.message, status: 409 };
+  }
+  if (error) {
+    throw new Error(error.message);
+  }
+  return { run: toRun(data as ShuttleRun) };
+}
+
+export async function deleteShuttleRun(service: SupabaseClient, runId: string): Promise<boolean> {
+  const { data, error } = await service.from("shuttle_runs").delete().eq("id", runId).select("id");
+
+  if (error) {
+    throw new Error(error.message);
+  }
+  return (data ?? []).length > 0;
+}
+
+// Manifests of one run, or of every run on a date.
+export async function loadShuttleManifests(
+  service: SupabaseClient,
+  filter: { runId: string | null; date: string | null }
+): Promise<ShuttleManifest[]> {
+  const plan = await loadTravelPlan(service);
+  return plan.runs
+    .filter(
+      (run) =>
+        (!filter.runId || run.id === filter.runId) && (!filter.date || run.run_date === filter.date)
+    )
+    .map((run) => ({
+      run,
+      passengers: plan.legs
+        .filter((leg) => leg.shuttleRunId === run.id)
+        .sort((a, b) => (a.time ?? "").localeCompare(b.time ?? "") || a.name.localeCompare(b.name)),
+    }));
+}
+
+export async function renderShuttleManifests(
+  service: SupabaseClient,
+  manifests: ShuttleManifest[],
+  title: string
+): Promise<Uint8Array> {
+  const organization = await loadOrganizationSettings(service);
+  return renderShuttleManifestPdf(organization.name, manifests, title);
+}
+
+export function shuttleManifestFilename(run: ShuttleRun | null, date: string | null): string {
+  if (run) {
+    return `shuttle-${run.run_date}-${run.departure_time.replace(":", "")}-${run.direction}.pdf`;
+  }
+  return `shuttles-${date ?? "all"}.pdf`;
+}
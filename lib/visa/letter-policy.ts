@@ -0,0 +1,143 @@
+// Rules and wording of visa invitation letters. Participants request a letter with their
+// passport details; once a manager approves it the letter is numbered and rendered from
+// the details captured here.
+
+export const VISA_LETTER_STATUSES = ["pending", "approved", "rejected"] as const;
+
+export type VisaLetterStatus = (typeof VISA_LETTER_STATUSES)[number];
+
+export type VisaLetterRequestInput = {
+  passportNumber: string;
+  passportExpiry: string;
+  consulate: string;
+};
+
+// What the letter states about the participant, frozen at approval.
+export type VisaLetterDetails = {
+  participantName: string;
+  birthDate: string | null;
+  nationality: string | null;
+  residence: string | null;
+  arrivalDate: string | null;
+  departureDate: string | null;
+  passportNumber: string;
+  passportExpiry: string;
+  consulate: string;
+};
+
+// Consulates usually require the passport to be valid 3 months beyond the stay.
+const PASSPORT_VALIDITY_MONTHS = 3;
+const PASSPORT_NUMBER_PATTERN = /^[A-Z0-9]{5,20}$/;
+const ISO_DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+export function isVisaLetterStatus(value: unknown): value is VisaLetterStatus {
+  return typeof value === "string" && (VISA_LETTER_STATUSES as readonly string[]).includes(value);
+}
+
+function text(value: unknown): string {
+  return typeof value === "string" ? value.trim() : "";
+}
+
+function isIsoDate(value: string): boolean {
+  if (!ISO_DATE_PATTERN.test(value)) return false;
+  const date = new Date(`${value}T00:00:00Z`);
+  return !Number.isNaN(date.getTime()) && date.toISOString().slice(0, 10) === value;
+}
+
+function addMonths(isoDate: string, months: number): string {
+  const date = new Date(`${isoDate}T00:00:00Z`);
+  date.setUTCMonth(date.getUTCMonth() + months);
+  return date.toISOString().slice(0, 10);
+}
+
+export function normalizePassportNumber(value: unknown): string {
+  return text(value).toUpperCase().replace(/[\s-]+/g, "");
+}
+
+export function parseVisaLetterRequest(
+  value: Record<string, unknown>,
+  context: { today: string; departureDate: string | null }
+): { input: VisaLetterRequestInput; error: null } | { input: null; error: string } {
+  const passportNumber = normalizePassportNumber(value.passport_number);
+  const passportExpiry = text(value.passport_expiry);
+  const consulate = text(value.consulate).replace(/\s+/g, " ");
+
+  if (!PASSPORT_NUMBER_PATTERN.test(passportNumber)) {
+    return { input: null, error: "Passport number must be 5-20 letters or digits." };
+  }
+  if (!isIsoDate(passportExpiry)) {
+    return { input: null, error: "Passport expiry must be a valid date." };
+  }
+  if (passportExpiry <= context.today) {
+    return { input: null, error: "The passport has already expired." };
+  }
+
+  const departure =
+    context.departureDate && isIsoDate(context.departureDate) ? context.departureDate : null;
+  const requiredUntil = addMonths(departure ?? context.today, PASSPORT_VALIDITY_MONTHS);
+  if (passportExpiry < requiredUntil) {
+    return {
+      input: null,
+      error: `The passport must be valid for at least ${PASSPORT_VALIDITY_MONTHS} months after ${
+        departure ? "the end of your stay" : "today"
+      }.`,
+    };
+  }
+  if (consulate.length < 3 || consulate.length > 200) {
+    return { input: null, error: "Consulate must be between 3 and 200 characters." };
+  }
+
+  return { input: { passportNumber, passportExpiry, consulate }, error: null };
+}
+
+export function visaLetterNumber(prefix: string, year: number, sequence: number): string {
+  return `${prefix}-${year}-${String(sequence).padStart(4, "0")}`;
+}
+
+function formatLetterDate(value: string | null): string | null {
+  if (!value || !isIsoDate(value)) return null;
+  return new Intl.DateTimeFormat("en-GB", { dateStyle: "long", timeZone: "UTC" }).format(
+    new Date(`${value}T00:00:00Z`)
+  );
+}
+
+// Letters are always written in English, the language consulates accept everywhere.
+export function buildVisaLetterText(
+  details: VisaLetterDetails,
+  organizationName: string
+): { title: string; body: string } {
+  const birth = formatLetterDate(details.birthDate);
+  const arrival = formatLetterDate(details.arrivalDate);
+  const departure = formatLetterDate(details.departureDate);
+
+  const identity = [
+    details.participantName,
+    birth ? `born on ${birth}` : null,
+    details.nationality ? `citizen of ${details.nationality}` : null,
+    details.residence && details.residence !== details.nationality
+      ? `resident in ${details.residence}`
+      : null,
+  ]
+    .filter(Boolean)
+    .join(", ");
+  const stay =
+    arrival && departure
+      ? `The participant will stay in Italy from ${arrival} to ${departure}.`
+      : "The dates of the stay will be those of the event.";
+
+  return {
+    title: "Letter of invitation",
+    body: [
+      `To the ${details.consulate}`,
+      "",
+      `${organizationName} hereby invites ${identity}, holder of passport no. ` +
+        `${details.passportNumber} valid until ${formatLetterDate(details.passportExpiry)}, ` +
+        "to take part in the Global Friendship international youth meeting.",
+      "",
+      `${stay} Accommodation and meals during the event are arranged by the organization.`,
+      "",
+      "We kindly ask you to grant the visa needed for this stay. Please do not hesitate to " +
+        "contact us should you need any further information.",
+    ].join("\n"),
+  };
+}
@@ -0,0 +1,434 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type { OrganizationDetails } from "@/lib/fees/documents";
+import { loadOrganizationSettings } from "@/lib/fees/document-store";
+import { loadEmailSenderRuntimeSettings } from "@/lib/email/settings";
+import { sendEmail } from "@/lib/email/transport";
+import { recipientLocale } from "@/lib/email/template-variants";
+import { getMessage } from "@/lib/i18n";
+import { renderLetterPdf } from "@/lib/pdf/letter";
+import { embeddedOne } from "@/lib/supabase/embedded";
+import {
+  buildVisaLetterText,
+  visaLetterNumber,
+  type VisaLetterDetails,
+  type VisaLetterRequestInput,
+  type VisaLetterStatus,
+} from "@/lib/visa/letter-policy";
+
+export type VisaLetterSnapshot = VisaLetterDetails & {
+  number: string;
+  issuedOn: string;
+  organization: OrganizationDetails;
+};
+
+export type VisaLetterRequestRow = {
+  id: string;
+  participant_id: string;
+  status: VisaLetterStatus;
+  passport_number: string;
+  passport_expiry: string;
+  consulate: string;
+  letter_number: string | null;
+  snapshot: VisaLetterSnapshot | null;
+  rejection_reason: string | null;
+  decided_at: string | null;
+  emailed_at: string | null;
+  email_error: string | null;
+  created_at: string;
+};
+
+export type VisaLetterQueueRow = VisaLetterRequestRow & {
+  participant: {
+    id: string;
+    nome: string | null;
+    cognome: string | null;
+    email: string | null;
+    nazione: string | null;
+    paese_residenza: string | null;
+    gruppo_label: string | null;
+  } | null;
+};
+
+type ParticipantRow = {
+  id: string;
+  nome: string | null;
+  cognome: string | null;
+  email: string | null;
+  nazione: string | null;
+  paese_residenza: string | null;
+  data_nascita: string | null;
+  data_arrivo: string | null;
+  data_partenza: string | null;
+  preferred_locale: string | null;
+};
+
+export type VisaPassportDetails = {
+  passport_number: string;
+  passport_expiry: string;
+  consulate: string;
+};
+
+export type VisaLetterDecisionResult =
+  | { request: VisaLetterRequestRow; emailSent: boolean; emailError: string | null }
+  | { error: string; status: number };
+
+const REQUEST_FIELDS =
+  "id,participant_id,status,passport_number,passport_expiry,consulate,letter_number,snapshot,rejection_reason,decided_at,emailed_at,email_error,created_at";
+
+const MISSING_TABLE_CODES = new Set(["42P01", "PGRST205"]);
+
+const PARTICIPANT_FIELDS =
+  "id,nome,cognome,email,nazione,paese_residenza,data_nascita,data_arrivo,data_partenza,preferred_locale";
+
+function fullName(row: { nome: string | null; cognome: string | null }): string {
+  return [row.nome, row.cognome].filter(Boolean).join(" ").trim() || "Participant";
+}
+
+function blankToNull(value: string | null): string | null {
+  return (value ?? "").trim() || null;
+}
+
+async function loadParticipant(
+  service: SupabaseClient,
+  participantId: string
+): Promise<ParticipantRow | null> {
+  const { data, error } = await service
+    .from("partecipanti")
+    .select(PARTICIPANT_FIELDS)
+    .eq("id", participantId)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(error.message);
+  }
+  return (data as ParticipantRow | null) ?? null;
+}
+
+export async function loadVisaLetterRequest(
+  service: SupabaseClient,
+  requestId: string
+): Promise<VisaLetterRequestRow | null> {
+  const { data, error } = await service
+    .from("visa_letter_requests")
+    .select(REQUEST_FIELDS)
+    .eq("id", requestId)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(error.message);
+  }
+  return (data as VisaLetterRequestRow | null) ?? null;
+}
+
+async function setParticipantStatus(
+  service: SupabaseClient,
+  participantId: string,
+  status: VisaLetterStatus
+) {
+  const { error } = await service
+    .from("partecipanti")
+    .update({ visa_letter_status: status })
+    .eq("id", participantId);
+
+  if (error) {
+    throw new Error(error.message);
+  }
+}
+
+export async function loadLatestVisaLetterRequest(
+  service: SupabaseClient,
+  participantId: string
+): Promise<VisaLetterRequestRow | null> {
+  const { data, error } = await service
+    .from("visa_letter_requests")
+    .select(REQUEST_FIELDS)
+    .eq("participant_id", participantId)
+    .order("created_at", { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(error.message);
+  }
+  return (data as VisaLetterRequestRow | null) ?? null;
+}
+
+// Passport details of each participant's latest approved letter, for email and
+// attachment templates. Empty before the visa letter migration is applied.
+export async function loadApprovedPassports(
+  service: SupabaseClient,
+  participantIds: string[]
+): Promise<Map<string, VisaPassportDetails>> {
+  const passports = new Map<string, VisaPassportDetails>();
+  if (participantIds.length === 0) return passports;
+
+  const { data, error } = await service
+    .from("visa_letter_requests")
+    .select("participant_id,passport_number,passport_expiry,consulate")
+    .eq("status", "approved")
+    .in("participant_id", participantIds)
+    .order("decided_at", { ascending: false });
+
+  if (error) {
+    if (MISSING_TABLE_CODES.has(error.code ?? "")) return passports;
+    throw new Error(error.message);
+  }
+
+  for (const row of (data ?? []) as Array<VisaPassportDetails & { participant_id: string }>) {
+    if (passports.has(row.participant_id)) continue;
+    passports.set(row.participant_id, {
+      passport_number: row.passport_number,
+      passport_expiry: row.passport_expiry,
+      consulate: row.consulate,
+    });
+  }
+  return passports;
+}
+
+export async function listVisaLetterRequests(
+  service: SupabaseClient,
+  status: VisaLetterStatus | null
+): Promise<VisaLetterQueueRow[]> {
+  let query = service
+    .from("visa_letter_requests")
+    .select(
+      "id,participant_id,status,passport_number,passport_expiry,consulate,letter_number,snapshot,rejection_reason,decided_at,emailed_at,email_error,created_at,participant:partecipanti(id,nome,cognome,email,nazione,paese_residenza,gruppo_label)"
+    )
+    .order("created_at", { ascending: true });
+  if (status) {
+    query = query.eq("status", status);
+  }
+
+  const { data, error } = await query;
+  if (error) {
+    throw new Error(error.message);
+  }
+  return (data ?? []).map((row) => ({ ...row, participant: embeddedOne(row.participant) }));
+}
+
+// A participant has at most one pending request; a rejected or approved letter can be
+// followed by a new request (e.g. after renewing the passport).
+export async function createVisaLetterRequest(
+  service: SupabaseClient,
+  participantId: string,
+  input: VisaLetterRequestInput
+): Promise<{ request: VisaLetterRequestRow } | { error: string; status: number }> {
+  const latest = await loadLatestVisaLetterRequest(service, participantId);
+  if (latest?.status === "pending") {
+    return { error: "A visa letter request is already waiting for approval", status: 409 };
+  }
+
+  const { data, error } = await service
+    .from("visa_letter_requests")
+    .insert({
+      participant_id: participantId,
+      passport_number: input.passportNumber,
+      passport_expiry: input.passportExpiry,
+      consulate: input.consulate,
+    })
+    .select(REQUEST_FIELDS)
+    .single();
+
+  if (error) {
+    if (error.code === "23505") {
+      return { error: "A visa letter request is already waiting for approval", status: 409 };
+    }
+    throw new Error(error.message);
+  }
+
+  await setParticipantStatus(service, participantId, "pending");
+  return { request: data as VisaLetterRequestRow };
+}
+
+export function renderVisaLetterPdf(snapshot: VisaLetterSnapshot): Uint8Array {
+  const organization = snapshot.organization;
+  const letter = buildVisaLetterText(snapshot, organization.legal_name || organization.name);
+  return renderLetterPdf({
+    organization,
+    title: letter.title,
+    date: new Intl.DateTimeFormat("en-GB", { dateStyle: "long", timeZone: "UTC" }).format(
+      new Date(`${snapshot.issuedOn}T00:00:00Z`)
+    ),
+    body: letter.body,
+    reference: snapshot.number,
+    signature: {
+      name: organization.signatory_name || organization.name,
+      role: organization.signatory_role,
+    },
+  });
+}
+
+export function visaLetterFilename(snapshot: VisaLetterSnapshot): string {
+  return `${snapshot.number}.pdf`;
+}
+
+// Emails the approved letter to the participant in their preferred language and records
+// the outcome on the request, so a failed send can be retried from the queue.
+export async function emailVisaLetter(
+  service: SupabaseClient,
+  request: VisaLetterRequestRow
+): Promise<{ request: VisaLetterRequestRow; emailSent: boolean; emailError: string | null }> {
+  if (request.status !== "approved" || !request.snapshot) {
+    throw new Error("Only approved visa letters can be emailed");
+  }
+
+  const participant = await loadParticipant(service, request.participant_id);
+  const to = (participant?.email ?? "").trim();
+  let emailError: string | null = null;
+
+  if (!participant || !to) {
+    emailError = "Participant has no email address";
+  } else {
+    try {
+      const senderSettings = await loadEmailSenderRuntimeSettings(service);
+      const locale = recipientLocale(participant.preferred_locale);
+      const params = { name: fullName(participant), number: request.snapshot.number };
+      await sendEmail(
+        {
+          to,
+          subject: getMessage(locale, "email.visaLetter.subject", params),
+          text: getMessage(locale, "email.visaLetter.text", params),
+          attachments: [
+            {
+              filename: visaLetterFilename(request.snapshot),
+              content: Buffer.from(renderVisaLetterPdf(request.snapshot)).toString("base64"),
+              encoding: "base64",
+              contentType: "application/pdf",
+            },
+          ],
+        },
+        senderSettings
+      );
+    } catch (sendError) {
+      emailError = sendError instanceof Error ? sendError.message : "Send failed";
+    }
+  }
+
+  const { data, error } = await service
+    .from("visa_letter_requests")
+    .update(
+      emailError
+        ? { email_error: emailError }
+        : { emailed_at: new Date().toISOString(), email_error: null }
+    )
+    .eq("id", request.id)
+    .select(REQUEST_FIELDS)
+    .single();
+
+  if (error) {
+    throw new Error(error.message);
+  }
+
+  return { request: data as VisaLetterRequestRow, emailSent: !emailError, emailError };
+}
+
+export async function approveVisaLetterRequest(
+  service: SupabaseClient,
+  actorId: string,
+  requestId: string
+): Promise<VisaLetterDecisionResult> {
+  const request = await loadVisaLetterRequest(service, requestId);
+  if (!request) {
+    return { error: "Visa letter request not found", status: 404 };
+  }
+  if (request.status !== "pending") {
+    return { error: "This request has already been decided", status: 409 };
+  }
+
+  const participant = await loadParticipant(service, request.participant_id);
+  if (!participant) {
+    return { error: "Participant not found", status: 404 };
+  }
+
+  const organization = await loadOrganizationSettings(service);
+  const issuedOn = new Date().toISOString().slice(0, 10);
+  const year = Number(issuedOn.slice(0, 4));
+
+  const { data: sequence, error: sequenceError } = await service.rpc("next_fee_document_number", {
+    p_document_type: "visa_letter",
+    p_year: year,
+  });
+
+  if (sequenceError) {
+    throw new Error(sequenceError.message);
+  }
+
+  const sequenceNumber = Number(sequence);
+  const snapshot: VisaLetterSnapshot = {
+    participantName: fullName(participant),
+    birthDate: blankToNull(participant.data_nascita),
+    nationality: blankToNull(participant.nazione),
+    residence: blankToNull(participant.paese_residenza),
+    arrivalDate: blankToNull(participant.data_arrivo),
+    departureDate: blankToNull(participant.data_partenza),
+    passportNumber: request.passport_number,
+    passportExpiry: request.passport_expiry,
+    consulate: request.consulate,
+    number: visaLetterNumber(organization.visa_letter_prefix, year, sequenceNumber),
+    issuedOn,
+    organization,
+  };
+
+  // Guarded on the pending status so two managers approving at once cannot both issue a
+  // letter; the loser only burns a sequence number.
+  const { data: approved, error: approveError } = await service
+    .from("visa_letter_requests")
+    .update({
+      status: "approved",
+      letter_number: snapshot.number,
+      sequence_year: year,
+      sequence_number: sequenceNumber,
+      snapshot,
+      rejection_reason: null,
+      decided_at: new Date().toISOString(),
+      decided_by: actorId,
+    })
+    .eq("id", request.id)
+    .eq("status", "pending")
+    .select(REQUEST_FIELDS)
+    .maybeSingle();
+
+  if (approveError) {
+    throw new Error(approveError.message);
+  }
+  if (!approved) {
+    return { error: "This request has already been decided", status: 409 };
+  }
+
+  await setParticipantStatus(service, request.participant_id, "approved");
+  return emailVisaLetter(service, approved as VisaLetterRequestRow);
+}
+
+export async function rejectVisaLetterRequest(
+  service: SupabaseClient,
+  actorId: string,
+  requestId: string,
+  reason: string | null
+): Promise<VisaLetterDecisionResult> {
+  const { data, error } = await service
+    .from("visa_letter_requests")
+    .update({
+      status: "rejected",
+      rejection_reason: reason,
+      decided_at: new Date().toISOString(),
+      decided_by: actorId,
+    })
+    .eq("id", requestId)
+    .eq("status", "pending")
+    .select(REQUEST_FIELDS)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(error.message);
+  }
+  if (!data) {
+    const existing = await loadVisaLetterRequest(service, requestId);
+    return existing
+      ? { error: "This request has already been decided", status: 409 }
+      : { error: "Visa letter request not found", status: 404 };
+  }
+
+  const request = data as VisaLetterRequestRow;
+  await setParticipantStatus(service, request.participant_id, "rejected");
+  return { request, emailSent: false, emailError: null };
+}
@@ -0,0 +1,43 @@
+-- Follow-up of participants who declared accessibility needs: the volunteer buddy or
+-- action item the team assigned and where the follow-up stands. One row per participant,
+-- created the first time the team saves something for them.
+
+create table if not exists public.accessibility_support_plans (
+  participant_id uuid primary key references public.partecipanti (id) on delete cascade,
+  status text not null default 'to_contact',
+  buddy_name text null,
+  buddy_contact text null,
+  action_item text null,
+  notes text null,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now(),
+  updated_by uuid null references auth.users (id) on delete set null,
+  constraint accessibility_support_plans_status_check
+    check (status in ('to_contact', 'in_progress', 'arranged', 'not_needed'))
+);
+
+create or replace function public.can_manage_accessibility_support(user_id uuid)
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select exists (
+    select 1
+    from public.profili p
+    where p.id = user_id
+      and p.ruolo in ('manager', 'admin')
+  );
+$$;
+
+grant execute on function public.can_manage_accessibility_support(uuid) to authenticated;
+
+alter table public.accessibility_support_plans enable row level security;
+
+drop policy if exists accessibility_support_plans_select on public.accessibility_support_plans;
+create policy accessibility_support_plans_select
+on public.accessibility_support_plans
+for select
+to authenticated
+using (public.can_manage_accessibility_support(auth.uid()));
@@ -0,0 +1,4 @@
+-- Room attributes used by the automatic bed assignment suggestion.
+
+alter table public.accommodation_rooms
+  add column if not exists is_accessible boolean not null default false;
@@ -0,0 +1,195 @@
+-- Accommodation subsystem: structures -> rooms -> beds, with nightly bed assignments.
+-- A bed assignment covers the nights in [night_from, night_to): night_to is the departure day.
+
+create extension if not exists pgcrypto;
+create extension if not exists btree_gist;
+
+create table if not exists public.accommodation_structures (
+  id uuid primary key default gen_random_uuid(),
+  name text not null,
+  address text null,
+  notes text null,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now(),
+  constraint accommodation_structures_name_not_blank check (length(trim(name)) > 0)
+);
+
+create table if not exists public.accommodation_rooms (
+  id uuid primary key default gen_random_uuid(),
+  structure_id uuid not null references public.accommodation_structures (id) on delete cascade,
+  name text not null,
+  floor text null,
+  capacity integer not null,
+  notes text null,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now(),
+  constraint accommodation_rooms_name_not_blank check (length(trim(name)) > 0),
+  constraint accommodation_rooms_capacity_positive check (capacity > 0),
+  constraint accommodation_rooms_unique_name unique (structure_id, name)
+);
+
+create table if not exists public.accommodation_beds (
+  id uuid primary key default gen_random_uuid(),
+  room_id uuid not null references public.accommodation_rooms (id) on delete cascade,
+  label text not null,
+  created_at timestamptz not null default now(),
+  constraint accommodation_beds_label_not_blank check (length(trim(label)) > 0),
+  constraint accommodation_beds_unique_label unique (room_id, label)
+);
+
+create table if not exists public.accommodation_bed_assignments (
+  id uuid primary key default gen_random_uuid(),
+  bed_id uuid not null references public.accommodation_beds (id) on delete cascade,
+  participant_id uuid not null references public.partecipanti (id) on delete cascade,
+  night_from date not null,
+  night_to date not null,
+  notes text null,
+  created_at timestamptz not null default now(),
+  created_by uuid null references auth.users (id) on delete set null,
+  constraint accommodation_bed_assignments_range_valid check (night_to > night_from),
+  constraint accommodation_bed_assignments_bed_no_overlap
+    exclude using gist (bed_id with =, daterange(night_from, night_to, '[)') with &&),
+  constraint accommodation_bed_assignments_participant_no_overlap
+    exclude using gist (participant_id with =, daterange(night_from, night_to, '[)') with &&)
+);
+
+create index if not exists accommodation_rooms_structure_idx
+  on public.accommodation_rooms (structure_id);
+
+create index if not exists accommodation_beds_room_idx
+  on public.accommodation_beds (room_id);
+
+create index if not exists accommodation_bed_assignments_participant_idx
+  on public.accommodation_bed_assignments (participant_id);
+
+create or replace function public.set_accommodation_updated_at()
+returns trigger
+language plpgsql
+as $$
+begin
+  new.updated_at = now();
+  return new;
+end;
+$$;
+
+drop trigger if exists trg_accommodation_structures_updated_at on public.accommodation_structures;
+create trigger trg_accommodation_structures_updated_at
+before update on public.accommodation_structures
+for each row execute function public.set_accommodation_updated_at();
+
+drop trigger if exists trg_accommodation_rooms_updated_at on public.accommodation_rooms;
+create trigger trg_accommodation_rooms_updated_at
+before update on public.accommodation_rooms
+for each row execute function public.set_accommodation_updated_at();
+
+-- A room can never hold more beds than its declared capacity.
+create or replace function public.accommodation_beds_check_capacity()
+returns trigger
+language plpgsql
+as $$
+declare
+  room_capacity integer;
+  bed_count integer;
+begin
+  select r.capacity into room_capacity
+  from public.accommodation_rooms r
+  where r.id = new.room_id
+  for update;
+
+  select count(*) into bed_count
+  from public.accommodation_beds b
+  where b.room_id = new.room_id
+    and b.id <> new.id;
+
+  if bed_count + 1 > room_capacity then
+    raise exception 'room capacity exceeded (% beds allowed)', room_capacity
+      using errcode = 'check_violation';
+  end if;
+
+  return new;
+end;
+$$;
+
+drop trigger if exists trg_accommodation_beds_check_capacity on public.accommodation_beds;
+create trigger trg_accommodation_beds_check_capacity
+before insert or update of room_id on public.accommodation_beds
+for each row execute function public.accommodation_beds_check_capacity();
+
+create or replace function public.accommodation_rooms_check_capacity()
+returns trigger
+language plpgsql
+as $$
+declare
+  bed_count integer;
+begin
+  select count(*) into bed_count
+  from public.accommodation_beds b
+  where b.room_id = new.id;
+
+  if new.capacity < bed_count then
+    raise exception 'room capacity cannot be lower than its % beds', bed_count
+      using errcode = 'check_violation';
+  end if;
+
+  return new;
+end;
+$$;
+
+drop trigger if exists trg_accommodation_rooms_check_capacity on public.accommodation_rooms;
+create trigger trg_accommodation_rooms_check_capacity
+before update of capacity on public.accommodation_rooms
+for each row execute function public.accommodation_rooms_check_capacity();
+
+create or replace function public.can_manage_accommodation(user_id uuid)
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select exists (
+    select 1
+    from public.profili p
+    where p.id = user_id
+      and p.ruolo in ('alloggi', 'admin')
+  );
+$$;
+
+grant execute on function public.can_manage_accommodation(uuid) to authenticated;
+
+alter table public.accommodation_structures enable row level security;
+alter table public.accommodation_rooms enable row level security;
+alter table public.accommodation_beds enable row level security;
+alter table public.accommodation_bed_assignments enable row level security;
+
+drop policy if exists accommodation_structures_manage_all on public.accommodation_structures;
+create policy accommodation_structures_manage_all
+on public.accommodation_structures
+for all
+to authenticated
+using (public.can_manage_accommodation(auth.uid()))
+with check (public.can_manage_accommodation(auth.uid()));
+
+drop policy if exists accommodation_rooms_manage_all on public.accommodation_rooms;
+create policy accommodation_rooms_manage_all
+on public.accommodation_rooms
+for all
+to authenticated
+using (public.can_manage_accommodation(auth.uid()))
+with check (public.can_manage_accommodation(auth.uid()));
+
+drop policy if exists accommodation_beds_manage_all on public.accommodation_beds;
+create policy accommodation_beds_manage_all
+on public.accommodation_beds
+for all
+to authenticated
+using (public.can_manage_accommodation(auth.uid()))
+with check (public.can_manage_accommodation(auth.uid()));
+
+drop policy if exists accommodation_bed_assignments_manage_all on public.accommodation_bed_assignments;
+create policy accommodation_bed_assignments_manage_all
+on public.accommodation_bed_assignments
+for all
+to authenticated
+using (public.can_manage_accommodation(auth.uid()))
+with check (public.can_manage_accommodation(auth.uid()));
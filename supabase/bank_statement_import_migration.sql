@@ -0,0 +1,153 @@
+-- Bank statement import and reconciliation against participant fees.
+-- Confirmed lines become participant_payments entries; the rest stay in the review queue.
+-- Run AFTER participant_payments_migration.sql.
+
+create extension if not exists pgcrypto;
+
+create table if not exists public.bank_statement_layouts (
+  id uuid primary key default gen_random_uuid(),
+  name text not null,
+  layout jsonb not null,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now(),
+  constraint bank_statement_layouts_name_not_blank check (length(trim(name)) > 0),
+  constraint bank_statement_layouts_name_unique unique (name)
+);
+
+create table if not exists public.bank_statement_imports (
+  id uuid primary key default gen_random_uuid(),
+  file_name text null,
+  layout jsonb not null,
+  line_count integer not null default 0,
+  duplicate_count integer not null default 0,
+  error_count integer not null default 0,
+  created_at timestamptz not null default now(),
+  created_by uuid null references auth.users (id) on delete set null
+);
+
+create table if not exists public.bank_statement_lines (
+  id uuid primary key default gen_random_uuid(),
+  import_id uuid not null references public.bank_statement_imports (id) on delete cascade,
+  line_number integer not null,
+  booking_date date not null,
+  amount numeric(12, 2) not null,
+  currency public.event_finance_currency not null default 'EUR',
+  counterparty text null,
+  reference text null,
+  raw jsonb not null default '{}'::jsonb,
+  dedupe_key text not null,
+  status text not null default 'pending',
+  matched_at timestamptz null,
+  matched_by uuid null references auth.users (id) on delete set null,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now(),
+  constraint bank_statement_lines_status_valid check (status in ('pending', 'matched', 'ignored')),
+  constraint bank_statement_lines_dedupe_key_unique unique (dedupe_key)
+);
+
+create index if not exists bank_statement_lines_status_date_idx
+  on public.bank_statement_lines (status, booking_date desc);
+
+create index if not exists bank_statement_lines_import_idx
+  on public.bank_statement_lines (import_id);
+
+alter table public.participant_payments
+  add column if not exists bank_statement_line_id uuid null
+    references public.bank_statement_lines (id) on delete set null;
+
+create index if not exists participant_payments_bank_line_idx
+  on public.participant_payments (bank_statement_line_id);
+
+create or replace function public.set_bank_statement_updated_at()
+returns trigger
+language plpgsql
+as $$
+begin
+  new.updated_at = now();
+  return new;
+end;
+$$;
+
+drop trigger if exists trg_bank_statement_layouts_updated_at on public.bank_statement_layouts;
+create trigger trg_bank_statement_layouts_updated_at
+before update on public.bank_statement_layouts
+for each row execute function public.set_bank_statement_updated_at();
+
+drop trigger if exists trg_bank_statement_lines_updated_at on public.bank_statement_lines;
+create trigger trg_bank_statement_lines_updated_at
+before update on public.bank_statement_lines
+for each row execute function public.set_bank_statement_updated_at();
+
+-- Deleting the last ledger entry of a matched line sends it back to the review queue.
+create or replace function public.participant_payments_release_bank_line()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if old.bank_statement_line_id is not null
+    and not exists (
+      select 1
+      from public.participant_payments pp
+      where pp.bank_statement_line_id = old.bank_statement_line_id
+    ) then
+    update public.bank_statement_lines
+    set status = 'pending', matched_at = null, matched_by = null
+    where id = old.bank_statement_line_id
+      and status = 'matched';
+  end if;
+
+  return null;
+end;
+$$;
+
+drop trigger if exists trg_participant_payments_release_bank_line on public.participant_payments;
+create trigger trg_participant_payments_release_bank_line
+after delete on public.participant_payments
+for each row execute function public.participant_payments_release_bank_line();
+
+create or replace function public.can_manage_bank_statements(user_id uuid)
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select exists (
+    select 1
+    from public.profili p
+    where p.id = user_id
+      and p.ruolo = 'manager'
+  );
+$$;
+
+grant execute on function public.can_manage_bank_statements(uuid) to authenticated;
+
+alter table public.bank_statement_layouts enable row level security;
+alter table public.bank_statement_imports enable row level security;
+alter table public.bank_statement_lines enable row level security;
+
+drop policy if exists bank_statement_layouts_manager_all on public.bank_statement_layouts;
+create policy bank_statement_layouts_manager_all
+on public.bank_statement_layouts
+for all
+to authenticated
+using (public.can_manage_bank_statements(auth.uid()))
+with check (public.can_manage_bank_statements(auth.uid()));
+
+drop policy if exists bank_statement_imports_manager_all on public.bank_statement_imports;
+create policy bank_statement_imports_manager_all
+on public.bank_statement_imports
+for all
+to authenticated
+using (public.can_manage_bank_statements(auth.uid()))
+with check (public.can_manage_bank_statements(auth.uid()));
+
+drop policy if exists bank_statement_lines_manager_all on public.bank_statement_lines;
+create policy bank_statement_lines_manager_all
+on public.bank_statement_lines
+for all
+to authenticated
+using (public.can_manage_bank_statements(auth.uid()))
+with check (public.can_manage_bank_statements(auth.uid()));
@@ -0,0 +1,40 @@
+-- On-site check-ins scanned from participant badges (QR codes), one row per participant
+-- and event day. Undoing a check-in deletes its row.
+
+create table if not exists public.participant_check_ins (
+  id uuid primary key default gen_random_uuid(),
+  participant_id uuid not null references public.partecipanti (id) on delete cascade,
+  check_in_date date not null,
+  checked_in_at timestamptz not null default now(),
+  checked_in_by uuid null references auth.users (id) on delete set null,
+  constraint participant_check_ins_one_per_day unique (participant_id, check_in_date)
+);
+
+create index if not exists participant_check_ins_date_idx
+  on public.participant_check_ins (check_in_date, checked_in_at);
+
+create or replace function public.can_manage_check_ins(user_id uuid)
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select exists (
+    select 1
+    from public.profili p
+    where p.id = user_id
+      and p.ruolo in ('manager', 'admin')
+  );
+$$;
+
+grant execute on function public.can_manage_check_ins(uuid) to authenticated;
+
+alter table public.participant_check_ins enable row level security;
+
+drop policy if exists participant_check_ins_select on public.participant_check_ins;
+create policy participant_check_ins_select
+on public.participant_check_ins
+for select
+to authenticated
+using (public.can_manage_check_ins(auth.uid()));
@@ -0,0 +1,103 @@
+-- Rules-based automatic emails.
+-- Each rule binds a trigger to an email_templates row and a recipient type. Every
+-- (rule, participant, dedupe_key) is sent at most once; email_automation_sends records
+-- the claim and the email_send_logs job that delivered it.
+-- Run AFTER email_templates_migration.sql, email_send_queue_migration.sql and
+-- email_locale_migration.sql.
+
+create extension if not exists pgcrypto;
+
+create table if not exists public.email_automation_rules (
+  id uuid primary key default gen_random_uuid(),
+  name text not null,
+  trigger text not null,
+  template_id uuid not null references public.email_templates (id) on delete restrict,
+  recipient_type text not null default 'participants',
+  days_before integer null,
+  due_date date null,
+  enabled boolean not null default true,
+  created_by uuid null references auth.users (id) on delete set null,
+  updated_by uuid null references auth.users (id) on delete set null,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now(),
+  constraint email_automation_rules_name_not_blank check (length(trim(name)) > 0),
+  constraint email_automation_rules_trigger_check
+    check (trigger in (
+      'registration_created',
+      'profile_updated',
+      'waitlist_promoted',
+      'days_before_arrival',
+      'balance_unpaid'
+    )),
+  constraint email_automation_rules_recipient_type_check
+    check (recipient_type in ('participants', 'group_leaders')),
+  constraint email_automation_rules_days_before_check
+    check (
+      (trigger <> 'days_before_arrival' and days_before is null)
+      or (trigger = 'days_before_arrival' and days_before between 0 and 365)
+    ),
+  constraint email_automation_rules_due_date_check
+    check ((trigger = 'balance_unpaid') = (due_date is not null))
+);
+
+create index if not exists email_automation_rules_trigger_idx
+  on public.email_automation_rules (trigger)
+  where enabled;
+
+create table if not exists public.email_automation_sends (
+  id uuid primary key default gen_random_uuid(),
+  rule_id uuid not null references public.email_automation_rules (id) on delete cascade,
+  participant_id uuid not null references public.partecipanti (id) on delete cascade,
+  dedupe_key text not null default '',
+  send_log_id uuid null references public.email_send_logs (id) on delete set null,
+  created_at timestamptz not null default now(),
+  constraint email_automation_sends_unique unique (rule_id, participant_id, dedupe_key)
+);
+
+create index if not exists email_automation_sends_rule_idx
+  on public.email_automation_sends (rule_id, created_at desc);
+
+alter table public.email_send_logs
+  add column if not exists automation_rule_id uuid null
+    references public.email_automation_rules (id) on delete set null;
+
+create or replace function public.set_email_automation_rules_updated_at()
+returns trigger
+language plpgsql
+as $$
+begin
+  new.updated_at = now();
+  return new;
+end;
+$$;
+
+drop trigger if exists trg_email_automation_rules_updated_at on public.email_automation_rules;
+create trigger trg_email_automation_rules_updated_at
+before update on public.email_automation_rules
+for each row
+execute function public.set_email_automation_rules_updated_at();
+
+alter table public.email_automation_rules enable row level security;
+alter table public.email_automation_sends enable row level security;
+
+drop policy if exists email_automation_rules_select on public.email_automation_rules;
+create policy email_automation_rules_select
+on public.email_automation_rules
+for select
+to authenticated
+using (public.can_manage_email_templates(auth.uid()));
+
+drop policy if exists email_automation_rules_write on public.email_automation_rules;
+create policy email_automation_rules_write
+on public.email_automation_rules
+for all
+to authenticated
+using (public.can_manage_email_templates(auth.uid()))
+with check (public.can_manage_email_templates(auth.uid()));
+
+drop policy if exists email_automation_sends_select on public.email_automation_sends;
+create policy email_automation_sends_select
+on public.email_automation_sends
+for select
+to authenticated
+using (public.can_manage_email_templates(auth.uid()));
@@ -0,0 +1,7 @@
+-- Per-recipient PDF attachments for participant campaigns (confirmation letter, visa
+-- invitation letter, fee statement). Only the templates are stored on the job; each
+-- document is rendered from the participant's data when their email is sent.
+-- Run AFTER email_send_queue_migration.sql and fee_documents_migration.sql.
+
+alter table public.email_send_logs
+  add column if not exists generated_attachments jsonb not null default '[]'::jsonb;
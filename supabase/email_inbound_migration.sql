@@ -0,0 +1,73 @@
+-- Bounce and reply ingestion from the sender mailbox.
+-- Every queued email is sent with its own Message-ID (email_send_log_recipients.message_id);
+-- the mailbox poller (/api/cron/email-mailbox) links delivery-status notifications and
+-- replies back to that row through the Message-ID they reference.
+-- Run AFTER email_send_queue_migration.sql.
+
+alter table public.email_send_log_recipients
+  add column if not exists message_id text null,
+  add column if not exists bounced_at timestamptz null,
+  add column if not exists bounce_reason text null;
+
+create unique index if not exists email_send_log_recipients_message_id_idx
+  on public.email_send_log_recipients (message_id)
+  where message_id is not null;
+
+-- Hard bounces flag the address that bounced; correcting the email clears the problem
+-- without touching these columns, because sends compare them with the current address.
+alter table public.partecipanti
+  add column if not exists email_bounced_at timestamptz null,
+  add column if not exists email_bounced_address text null,
+  add column if not exists email_bounce_reason text null;
+
+alter table public.profili
+  add column if not exists email_bounced_at timestamptz null,
+  add column if not exists email_bounced_address text null,
+  add column if not exists email_bounce_reason text null;
+
+create table if not exists public.email_inbound_messages (
+  id uuid primary key default gen_random_uuid(),
+  mailbox text not null,
+  uid_validity bigint not null,
+  uid bigint not null,
+  kind text not null,
+  send_log_id uuid not null references public.email_send_logs (id) on delete cascade,
+  send_log_recipient_id uuid null
+    references public.email_send_log_recipients (id) on delete set null,
+  message_id text null,
+  from_email text null,
+  subject text not null default '',
+  body_text text not null default '',
+  bounce_action text null,
+  bounce_status text null,
+  bounce_diagnostic text null,
+  hard_bounce boolean not null default false,
+  automatic boolean not null default false,
+  received_at timestamptz null,
+  created_at timestamptz not null default now(),
+  constraint email_inbound_messages_kind_check check (kind in ('bounce', 'reply')),
+  constraint email_inbound_messages_mailbox_uid_unique unique (mailbox, uid_validity, uid)
+);
+
+create index if not exists email_inbound_messages_send_log_idx
+  on public.email_inbound_messages (send_log_id, created_at);
+
+-- Last processed UID per mailbox; a new UIDVALIDITY means the mailbox was rebuilt and
+-- is scanned again from the recent days.
+create table if not exists public.email_mailbox_state (
+  mailbox text primary key,
+  uid_validity bigint null,
+  last_uid bigint not null default 0,
+  last_polled_at timestamptz null,
+  last_error text null
+);
+
+alter table public.email_inbound_messages enable row level security;
+alter table public.email_mailbox_state enable row level security;
+
+drop policy if exists email_inbound_messages_select on public.email_inbound_messages;
+create policy email_inbound_messages_select
+on public.email_inbound_messages
+for select
+to authenticated
+using (public.can_manage_email_send_logs(auth.uid()));
@@ -0,0 +1,28 @@
+-- Preferred language per participant/profile and per-locale email template variants.
+-- Run after email_templates_migration.sql and email_send_queue_migration.sql.
+-- A null preferred_locale means "use the default language" (en).
+
+alter table public.partecipanti
+  add column if not exists preferred_locale text null;
+
+alter table public.partecipanti
+  drop constraint if exists partecipanti_preferred_locale_check;
+alter table public.partecipanti
+  add constraint partecipanti_preferred_locale_check
+  check (preferred_locale is null or preferred_locale in ('en', 'it', 'fr', 'de', 'es', 'nl-BE', 'uk'));
+
+alter table public.profili
+  add column if not exists preferred_locale text null;
+
+alter table public.profili
+  drop constraint if exists profili_preferred_locale_check;
+alter table public.profili
+  add constraint profili_preferred_locale_check
+  check (preferred_locale is null or preferred_locale in ('en', 'it', 'fr', 'de', 'es', 'nl-BE', 'uk'));
+
+-- { "<locale>": { "subject": "...", "html": "..." } }; subject/html stay the default version.
+alter table public.email_templates
+  add column if not exists variants jsonb not null default '{}'::jsonb;
+
+alter table public.email_send_logs
+  add column if not exists template_variants jsonb not null default '{}'::jsonb;
@@ -0,0 +1,52 @@
+-- Communication preferences per email address and campaign categories.
+-- Operational campaigns (registration and event information) reach everyone;
+-- newsletter campaigns skip addresses with newsletter = false. Rows are written by the
+-- public preference page (signed link in every campaign email) through the service role.
+-- Run AFTER email_templates_migration.sql and email_send_queue_migration.sql.
+
+create table if not exists public.email_preferences (
+  email text primary key,
+  newsletter boolean not null default true,
+  newsletter_opted_out_at timestamptz null,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now(),
+  constraint email_preferences_email_normalized check (email = lower(trim(email)) and email <> '')
+);
+
+create index if not exists email_preferences_newsletter_opt_out_idx
+  on public.email_preferences (email)
+  where not newsletter;
+
+create or replace function public.set_email_preferences_updated_at()
+returns trigger
+language plpgsql
+as $$
+begin
+  new.updated_at = now();
+  return new;
+end;
+$$;
+
+drop trigger if exists trg_email_preferences_updated_at on public.email_preferences;
+create trigger trg_email_preferences_updated_at
+before update on public.email_preferences
+for each row
+execute function public.set_email_preferences_updated_at();
+
+alter table public.email_preferences enable row level security;
+
+drop policy if exists email_preferences_select on public.email_preferences;
+create policy email_preferences_select
+on public.email_preferences
+for select
+to authenticated
+using (public.can_manage_email_templates(auth.uid()));
+
+alter table public.email_send_logs
+  add column if not exists category text not null default 'operational';
+
+alter table public.email_send_logs
+  drop constraint if exists email_send_logs_category_check;
+alter table public.email_send_logs
+  add constraint email_send_logs_category_check
+  check (category in ('operational', 'newsletter'));
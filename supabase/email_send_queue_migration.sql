@@ -0,0 +1,165 @@
+-- Turns email send logs into campaign jobs backed by a per-recipient send queue.
+-- Run after email_send_logs_migration.sql. Rows logged before this migration are
+-- marked as completed / sent so the send log keeps showing them unchanged.
+
+alter table public.email_send_logs
+  add column if not exists status text not null default 'completed',
+  add column if not exists send_at timestamptz null,
+  add column if not exists attachments jsonb not null default '[]'::jsonb,
+  add column if not exists started_at timestamptz null,
+  add column if not exists completed_at timestamptz null,
+  add column if not exists cancelled_at timestamptz null,
+  add column if not exists cancelled_by uuid null references auth.users (id) on delete set null;
+
+update public.email_send_logs
+set send_at = sent_at,
+    completed_at = coalesce(completed_at, sent_at)
+where send_at is null;
+
+alter table public.email_send_logs
+  alter column status set default 'scheduled',
+  alter column send_at set default now(),
+  alter column send_at set not null;
+
+alter table public.email_send_logs
+  drop constraint if exists email_send_logs_status_check;
+alter table public.email_send_logs
+  add constraint email_send_logs_status_check
+  check (status in ('scheduled', 'sending', 'completed', 'cancelled'));
+
+alter table public.email_send_logs
+  drop constraint if exists email_send_logs_attachments_is_array;
+alter table public.email_send_logs
+  add constraint email_send_logs_attachments_is_array
+  check (jsonb_typeof(attachments) = 'array');
+
+alter table public.email_send_log_recipients
+  add column if not exists status text not null default 'sent',
+  add column if not exists email text null,
+  add column if not exists attempts integer not null default 0,
+  add column if not exists last_error text null,
+  add column if not exists next_attempt_at timestamptz null,
+  add column if not exists locked_at timestamptz null,
+  -- Set right before the email is handed to the transport for the current attempt.
+  add column if not exists handed_off_at timestamptz null,
+  add column if not exists sent_at timestamptz null,
+  add column if not exists updated_at timestamptz not null default now();
+
+update public.email_send_log_recipients r
+set sent_at = l.sent_at
+from public.email_send_logs l
+where l.id = r.send_log_id
+  and r.status = 'sent'
+  and r.sent_at is null;
+
+alter table public.email_send_log_recipients
+  alter column status set default 'pending',
+  alter column next_attempt_at set default now();
+
+alter table public.email_send_log_recipients
+  drop constraint if exists email_send_log_recipients_status_check;
+alter table public.email_send_log_recipients
+  add constraint email_send_log_recipients_status_check
+  check (status in ('pending', 'sending', 'sent', 'failed', 'skipped', 'cancelled'));
+
+alter table public.email_send_log_recipients
+  drop constraint if exists email_send_log_recipients_attempts_non_negative;
+alter table public.email_send_log_recipients
+  add constraint email_send_log_recipients_attempts_non_negative
+  check (attempts >= 0);
+
+create index if not exists email_send_logs_status_send_at_idx
+  on public.email_send_logs (status, send_at);
+
+create index if not exists email_send_log_recipients_queue_idx
+  on public.email_send_log_recipients (status, next_attempt_at);
+
+create or replace function public.set_email_send_log_recipients_updated_at()
+returns trigger
+language plpgsql
+as $$
+begin
+  new.updated_at = now();
+  return new;
+end;
+$$;
+
+drop trigger if exists trg_email_send_log_recipients_updated_at on public.email_send_log_recipients;
+create trigger trg_email_send_log_recipients_updated_at
+before update on public.email_send_log_recipients
+for each row
+execute function public.set_email_send_log_recipients_updated_at();
+
+-- Claims a batch of due recipients for one worker. Rows are locked with
+-- skip locked so concurrent workers never pick the same recipient; rows stuck in
+-- 'sending' (worker crashed mid-send) become claimable again after p_stale_after,
+-- unless their email was already handed to the transport: those are recorded as sent
+-- rather than sent twice. Stale rows of cancelled jobs are closed as cancelled.
+create or replace function public.claim_email_send_queue(
+  p_limit integer,
+  p_stale_after interval default interval '10 minutes'
+)
+returns setof public.email_send_log_recipients
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  update public.email_send_log_recipients r
+  set status = case when r.handed_off_at is not null then 'sent' else 'cancelled' end,
+      sent_at = case when r.handed_off_at is not null then r.handed_off_at else r.sent_at end,
+      last_error = case
+        when r.handed_off_at is not null
+          then 'Result not recorded after the email was handed to the mail server; not sent again'
+        else r.last_error
+      end,
+      locked_at = null,
+      next_attempt_at = null
+  from public.email_send_logs l
+  where l.id = r.send_log_id
+    and r.status = 'sending'
+    and r.locked_at < now() - p_stale_after
+    and (r.handed_off_at is not null or l.status = 'cancelled');
+
+  return query
+  update public.email_send_log_recipients r
+  set status = 'sending',
+      locked_at = now(),
+      handed_off_at = null,
+      attempts = r.attempts + 1
+  where r.id in (
+    select q.id
+    from public.email_send_log_recipients q
+    join public.email_send_logs l on l.id = q.send_log_id
+    where l.status in ('scheduled', 'sending')
+      and l.send_at <= now()
+      and (
+        (q.status = 'pending' and coalesce(q.next_attempt_at, now()) <= now())
+        or (q.status = 'sending' and q.locked_at < now() - p_stale_after)
+      )
+    order by l.send_at asc, q.next_attempt_at asc nulls first
+    limit greatest(p_limit, 0)
+    for update of q skip locked
+  )
+  returning r.*;
+end;
+$$;
+
+revoke all on function public.claim_email_send_queue(integer, interval) from public;
+revoke all on function public.claim_email_send_queue(integer, interval) from anon, authenticated;
+
+drop policy if exists email_send_logs_update on public.email_send_logs;
+create policy email_send_logs_update
+on public.email_send_logs
+for update
+to authenticated
+using (public.can_manage_email_send_logs(auth.uid()))
+with check (public.can_manage_email_send_logs(auth.uid()));
+
+drop policy if exists email_send_log_recipients_update on public.email_send_log_recipients;
+create policy email_send_log_recipients_update
+on public.email_send_log_recipients
+for update
+to authenticated
+using (public.can_manage_email_send_logs(auth.uid()))
+with check (public.can_manage_email_send_logs(auth.uid()));
@@ -0,0 +1,89 @@
+-- Optional open/click tracking and A/B subject tests for campaign emails.
+-- Tracked emails carry an open pixel and links rewritten through /api/email-tracking,
+-- signed with the queue row id; each hit is stored as an event and summarized on the
+-- queue row. A/B campaigns store the second subject on the job and the variant of
+-- each recipient on its queue row.
+-- Run AFTER email_send_queue_migration.sql.
+
+alter table public.email_send_logs
+  add column if not exists track_opens boolean not null default false,
+  add column if not exists track_clicks boolean not null default false,
+  add column if not exists subject_b text null;
+
+alter table public.email_send_log_recipients
+  add column if not exists ab_variant text null,
+  add column if not exists opened_at timestamptz null,
+  add column if not exists last_opened_at timestamptz null,
+  add column if not exists open_count integer not null default 0,
+  add column if not exists clicked_at timestamptz null,
+  add column if not exists last_clicked_at timestamptz null,
+  add column if not exists click_count integer not null default 0;
+
+alter table public.email_send_log_recipients
+  drop constraint if exists email_send_log_recipients_ab_variant_check;
+alter table public.email_send_log_recipients
+  add constraint email_send_log_recipients_ab_variant_check
+  check (ab_variant is null or ab_variant in ('A', 'B'));
+
+create table if not exists public.email_tracking_events (
+  id uuid primary key default gen_random_uuid(),
+  send_log_id uuid not null references public.email_send_logs (id) on delete cascade,
+  send_log_recipient_id uuid not null
+    references public.email_send_log_recipients (id) on delete cascade,
+  kind text not null,
+  url text null,
+  created_at timestamptz not null default now(),
+  constraint email_tracking_events_kind_check check (kind in ('open', 'click')),
+  constraint email_tracking_events_click_url check (kind <> 'click' or url is not null)
+);
+
+create index if not exists email_tracking_events_send_log_idx
+  on public.email_tracking_events (send_log_id, kind);
+
+-- Records one hit and updates the counters of the queue row in one statement, so
+-- concurrent hits (mail clients often load the pixel twice) are all counted. A click
+-- also marks the email as opened, since images are often blocked.
+create or replace function public.record_email_tracking_event(
+  p_recipient_row_id uuid,
+  p_kind text,
+  p_url text default null
+)
+returns boolean
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_send_log_id uuid;
+begin
+  update public.email_send_log_recipients r
+  set opened_at = coalesce(r.opened_at, now()),
+      last_opened_at = case when p_kind = 'open' then now() else r.last_opened_at end,
+      open_count = r.open_count + case when p_kind = 'open' then 1 else 0 end,
+      clicked_at = case when p_kind = 'click' then coalesce(r.clicked_at, now()) else r.clicked_at end,
+      last_clicked_at = case when p_kind = 'click' then now() else r.last_clicked_at end,
+      click_count = r.click_count + case when p_kind = 'click' then 1 else 0 end
+  where r.id = p_recipient_row_id
+  returning r.send_log_id into v_send_log_id;
+
+  if v_send_log_id is null then
+    return false;
+  end if;
+
+  insert into public.email_tracking_events (send_log_id, send_log_recipient_id, kind, url)
+  values (v_send_log_id, p_recipient_row_id, p_kind, p_url);
+  return true;
+end;
+$$;
+
+revoke all on function public.record_email_tracking_event(uuid, text, text) from public;
+revoke all on function public.record_email_tracking_event(uuid, text, text) from anon, authenticated;
+
+alter table public.email_tracking_events enable row level security;
+
+drop policy if exists email_tracking_events_select on public.email_tracking_events;
+create policy email_tracking_events_select
+on public.email_tracking_events
+for select
+to authenticated
+using (public.can_manage_email_send_logs(auth.uid()));
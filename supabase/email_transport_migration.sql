@@ -0,0 +1,25 @@
+-- Adds a selectable email transport to admin_email_settings.
+-- Run after admin_email_settings_migration.sql. Existing installs keep using Gmail.
+
+alter table public.admin_email_settings
+  add column if not exists transport text not null default 'gmail',
+  add column if not exists smtp_host text null,
+  add column if not exists smtp_port integer null,
+  add column if not exists smtp_secure boolean not null default true,
+  add column if not exists smtp_user text null,
+  add column if not exists smtp_password text null,
+  add column if not exists http_api_url text null,
+  add column if not exists http_api_key text null,
+  add column if not exists capture_dir text null;
+
+alter table public.admin_email_settings
+  drop constraint if exists admin_email_settings_transport_check;
+alter table public.admin_email_settings
+  add constraint admin_email_settings_transport_check
+  check (transport in ('gmail', 'smtp', 'capture', 'http_api'));
+
+alter table public.admin_email_settings
+  drop constraint if exists admin_email_settings_smtp_port_check;
+alter table public.admin_email_settings
+  add constraint admin_email_settings_smtp_port_check
+  check (smtp_port is null or (smtp_port between 1 and 65535));
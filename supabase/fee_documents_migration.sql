@@ -0,0 +1,209 @@
+-- Participation fee receipts and group invoices.
+-- Organization details printed on documents live in a singleton settings row.
+-- Numbers are sequential per document type and year (e.g. R-2026-0001, INV-2026-0001).
+-- Run AFTER participant_payments_migration.sql.
+
+create extension if not exists pgcrypto;
+
+create table if not exists public.organization_settings (
+  id boolean primary key default true,
+  name text not null default 'Global Friendship',
+  legal_name text null,
+  address text null,
+  tax_id text null,
+  email text null,
+  phone text null,
+  website text null,
+  bank_details text null,
+  receipt_prefix text not null default 'R',
+  invoice_prefix text not null default 'INV',
+  document_footer text null,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now(),
+  constraint organization_settings_singleton check (id = true),
+  constraint organization_settings_name_not_blank check (length(trim(name)) > 0),
+  constraint organization_settings_receipt_prefix_not_blank check (length(trim(receipt_prefix)) > 0),
+  constraint organization_settings_invoice_prefix_not_blank check (length(trim(invoice_prefix)) > 0)
+);
+
+insert into public.organization_settings (id)
+values (true)
+on conflict (id) do nothing;
+
+create table if not exists public.fee_document_sequences (
+  document_type text not null,
+  year integer not null,
+  last_number integer not null default 0,
+  primary key (document_type, year),
+  constraint fee_document_sequences_type_valid check (document_type in ('receipt', 'invoice'))
+);
+
+create table if not exists public.fee_documents (
+  id uuid primary key default gen_random_uuid(),
+  document_type text not null,
+  document_number text not null,
+  sequence_year integer not null,
+  sequence_number integer not null,
+  -- participant id for receipts, group key (gruppo_id or gruppo_label) for invoices
+  subject_key text not null,
+  participant_id uuid null references public.partecipanti (id) on delete set null,
+  total_amount numeric(12, 2) not null,
+  paid_amount numeric(12, 2) not null,
+  snapshot jsonb not null,
+  -- md5 of feeDocumentFingerprint(): one document per distinct content of a subject
+  fingerprint text null,
+  issued_at timestamptz not null default now(),
+  issued_by uuid null references auth.users (id) on delete set null,
+  constraint fee_documents_type_valid check (document_type in ('receipt', 'invoice')),
+  constraint fee_documents_number_unique unique (document_number),
+  constraint fee_documents_sequence_unique unique (document_type, sequence_year, sequence_number),
+  constraint fee_documents_fingerprint_unique unique (document_type, subject_key, fingerprint)
+);
+
+create index if not exists fee_documents_subject_idx
+  on public.fee_documents (document_type, subject_key, issued_at desc);
+
+create or replace function public.set_organization_settings_updated_at()
+returns trigger
+language plpgsql
+as $$
+begin
+  new.updated_at = now();
+  return new;
+end;
+$$;
+
+drop trigger if exists trg_organization_settings_updated_at on public.organization_settings;
+create trigger trg_organization_settings_updated_at
+before update on public.organization_settings
+for each row execute function public.set_organization_settings_updated_at();
+
+-- Row lock on the sequence row keeps numbers unique under concurrent calls. A number is
+-- only gap-free when taken in the same transaction as the row that uses it.
+create or replace function public.next_fee_document_number(p_document_type text, p_year integer)
+returns integer
+language sql
+security definer
+set search_path = public
+as $$
+  insert into public.fee_document_sequences (document_type, year, last_number)
+  values (p_document_type, p_year, 1)
+  on conflict (document_type, year)
+  do update set last_number = public.fee_document_sequences.last_number + 1
+  returning last_number;
+$$;
+
+revoke all on function public.next_fee_document_number(text, integer) from public;
+grant execute on function public.next_fee_document_number(text, integer) to service_role;
+
+-- Returns the stored snapshot when the subject already has a document with this content;
+-- otherwise numbers and stores p_snapshot in one transaction, so a failed insert gives
+-- the number back. The subject lock makes concurrent first downloads share one document.
+create or replace function public.issue_fee_document(
+  p_document_type text,
+  p_subject_key text,
+  p_participant_id uuid,
+  p_fingerprint text,
+  p_prefix text,
+  p_year integer,
+  p_snapshot jsonb,
+  p_issued_by uuid
+)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_fingerprint text := md5(p_fingerprint);
+  v_existing jsonb;
+  v_number integer;
+  v_snapshot jsonb;
+begin
+  perform pg_advisory_xact_lock(hashtext('fee_document:' || p_document_type || ':' || p_subject_key));
+
+  select d.snapshot into v_existing
+  from public.fee_documents d
+  where d.document_type = p_document_type
+    and d.subject_key = p_subject_key
+    and d.fingerprint = v_fingerprint;
+
+  if found then
+    return v_existing;
+  end if;
+
+  v_number := public.next_fee_document_number(p_document_type, p_year);
+  v_snapshot := p_snapshot || jsonb_build_object(
+    'number',
+    p_prefix || '-' || p_year || '-' || lpad(v_number::text, greatest(4, length(v_number::text)), '0')
+  );
+
+  insert into public.fee_documents (
+    document_type,
+    document_number,
+    sequence_year,
+    sequence_number,
+    subject_key,
+    participant_id,
+    total_amount,
+    paid_amount,
+    snapshot,
+    fingerprint,
+    issued_by
+  )
+  values (
+    p_document_type,
+    v_snapshot->>'number',
+    p_year,
+    v_number,
+    p_subject_key,
+    p_participant_id,
+    (p_snapshot->>'totalAmount')::numeric,
+    (p_snapshot->>'paidAmount')::numeric,
+    v_snapshot,
+    v_fingerprint,
+    p_issued_by
+  );
+
+  return v_snapshot;
+end;
+$$;
+
+revoke all on function public.issue_fee_document(text, text, uuid, text, text, integer, jsonb, uuid) from public;
+grant execute on function public.issue_fee_document(text, text, uuid, text, text, integer, jsonb, uuid) to service_role;
+
+create or replace function public.can_manage_fee_documents(user_id uuid)
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select exists (
+    select 1
+    from public.profili p
+    where p.id = user_id
+      and p.ruolo = 'manager'
+  );
+$$;
+
+grant execute on function public.can_manage_fee_documents(uuid) to authenticated;
+
+alter table public.organization_settings enable row level security;
+alter table public.fee_document_sequences enable row level security;
+alter table public.fee_documents enable row level security;
+
+drop policy if exists organization_settings_manager_all on public.organization_settings;
+create policy organization_settings_manager_all
+on public.organization_settings
+for all
+to authenticated
+using (public.can_manage_fee_documents(auth.uid()))
+with check (public.can_manage_fee_documents(auth.uid()));
+
+drop policy if exists fee_documents_manager_select on public.fee_documents;
+create policy fee_documents_manager_select
+on public.fee_documents
+for select
+to authenticated
+using (public.can_manage_fee_documents(auth.uid()));
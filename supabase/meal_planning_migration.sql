@@ -0,0 +1,37 @@
+-- Meal slots the catering serves (one row per day and meal). Expected covers are computed
+-- from the confirmed participants' stay and dietary requirements, not stored.
+
+create table if not exists public.meal_slots (
+  id uuid primary key default gen_random_uuid(),
+  service_date date not null,
+  meal text not null check (meal in ('breakfast', 'lunch', 'dinner')),
+  created_at timestamptz not null default now(),
+  created_by uuid null references auth.users (id) on delete set null,
+  constraint meal_slots_one_per_meal unique (service_date, meal)
+);
+
+create or replace function public.can_manage_meal_plan(user_id uuid)
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select exists (
+    select 1
+    from public.profili p
+    where p.id = user_id
+      and p.ruolo in ('manager', 'admin')
+  );
+$$;
+
+grant execute on function public.can_manage_meal_plan(uuid) to authenticated;
+
+alter table public.meal_slots enable row level security;
+
+drop policy if exists meal_slots_select on public.meal_slots;
+create policy meal_slots_select
+on public.meal_slots
+for select
+to authenticated
+using (public.can_manage_meal_plan(auth.uid()));
@@ -0,0 +1,206 @@
+-- Per-participant payment ledger.
+-- partecipanti.fee_paid is derived from the ledger (payments minus refunds, in EUR)
+-- and must not be written directly anymore.
+-- Run AFTER event_finance_migration.sql and participation_fees_migration.sql.
+
+create extension if not exists pgcrypto;
+
+create table if not exists public.participant_payments (
+  id uuid primary key default gen_random_uuid(),
+  participant_id uuid not null references public.partecipanti (id) on delete cascade,
+  entry_type text not null default 'payment',
+  amount numeric(10, 2) not null,
+  currency public.event_finance_currency not null default 'EUR',
+  amount_eur numeric(10, 2) not null default 0,
+  payment_date date not null default current_date,
+  payment_method public.event_finance_payment_method not null default 'other',
+  payer_name text null,
+  payer_participant_id uuid null references public.partecipanti (id) on delete set null,
+  reference text null,
+  notes text null,
+  event_finance_transaction_id uuid null
+    references public.event_finance_transactions (id) on delete set null,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now(),
+  created_by uuid null references auth.users (id) on delete set null,
+  constraint participant_payments_entry_type_valid check (entry_type in ('payment', 'refund')),
+  constraint participant_payments_amount_positive check (amount > 0)
+);
+
+create index if not exists participant_payments_participant_date_idx
+  on public.participant_payments (participant_id, payment_date desc);
+
+create index if not exists participant_payments_payer_idx
+  on public.participant_payments (payer_participant_id);
+
+create index if not exists participant_payments_finance_tx_idx
+  on public.participant_payments (event_finance_transaction_id);
+
+-- Converts HUF entries with the event finance rate so fee_paid stays in EUR.
+create or replace function public.participant_payments_before_write()
+returns trigger
+language plpgsql
+as $$
+declare
+  rate numeric;
+begin
+  if new.currency = 'EUR' then
+    new.amount_eur := new.amount;
+  else
+    select s.huf_to_eur_rate into rate
+    from public.event_finance_settings s
+    where s.id = true;
+
+    new.amount_eur := round(new.amount * coalesce(rate, 0.0025), 2);
+  end if;
+
+  new.updated_at := now();
+  return new;
+end;
+$$;
+
+drop trigger if exists trg_participant_payments_before_write on public.participant_payments;
+create trigger trg_participant_payments_before_write
+before insert or update on public.participant_payments
+for each row execute function public.participant_payments_before_write();
+
+create or replace function public.refresh_participant_fee_paid(p_participant_id uuid)
+returns void
+language sql
+security definer
+set search_path = public
+as $$
+  update public.partecipanti pa
+  set fee_paid = (
+    select case
+      when count(*) = 0 then null
+      else sum(case when pp.entry_type = 'refund' then -pp.amount_eur else pp.amount_eur end)
+    end
+    from public.participant_payments pp
+    where pp.participant_id = p_participant_id
+  )
+  where pa.id = p_participant_id;
+$$;
+
+create or replace function public.participant_payments_after_write()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if tg_op in ('UPDATE', 'DELETE') then
+    perform public.refresh_participant_fee_paid(old.participant_id);
+  end if;
+
+  if tg_op in ('INSERT', 'UPDATE') and (tg_op = 'INSERT' or new.participant_id <> old.participant_id) then
+    perform public.refresh_participant_fee_paid(new.participant_id);
+  end if;
+
+  return null;
+end;
+$$;
+
+drop trigger if exists trg_participant_payments_after_write on public.participant_payments;
+create trigger trg_participant_payments_after_write
+after insert or update or delete on public.participant_payments
+for each row execute function public.participant_payments_after_write();
+
+-- Keep existing fee_paid values as an opening balance entry.
+insert into public.participant_payments (participant_id, amount, currency, reference, notes)
+select p.id, p.fee_paid, 'EUR', 'Opening balance', 'Imported from the previous fee_paid value'
+from public.partecipanti p
+where coalesce(p.fee_paid, 0) > 0
+  and not exists (
+    select 1
+    from public.participant_payments pp
+    where pp.participant_id = p.id
+  );
+
+-- "Mark as fully paid" now records the outstanding amount in the ledger.
+create or replace function public.manager_mark_participants_fully_paid(
+  participant_ids uuid[],
+  actor_id uuid
+)
+returns table (
+  id uuid,
+  fee_paid numeric
+)
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if actor_id is null then
+    raise exception 'actor_id is required';
+  end if;
+
+  if auth.uid() is not null and auth.uid() <> actor_id then
+    raise exception 'forbidden';
+  end if;
+
+  if not exists (
+    select 1
+    from public.profili p
+    where p.id = actor_id
+      and p.ruolo = 'manager'
+  ) then
+    raise exception 'forbidden';
+  end if;
+
+  insert into public.participant_payments (
+    participant_id,
+    amount,
+    currency,
+    payment_method,
+    reference,
+    created_by
+  )
+  select
+    pa.id,
+    pa.quota_totale - coalesce(pa.fee_paid, 0),
+    'EUR',
+    'other',
+    'Marked as fully paid',
+    actor_id
+  from public.partecipanti pa
+  where pa.id = any(coalesce(participant_ids, array[]::uuid[]))
+    and pa.quota_totale is not null
+    and pa.quota_totale - coalesce(pa.fee_paid, 0) > 0;
+
+  return query
+  select pa.id, pa.fee_paid
+  from public.partecipanti pa
+  where pa.id = any(coalesce(participant_ids, array[]::uuid[]));
+end;
+$$;
+
+grant execute on function public.manager_mark_participants_fully_paid(uuid[], uuid) to authenticated;
+grant execute on function public.manager_mark_participants_fully_paid(uuid[], uuid) to service_role;
+
+create or replace function public.can_manage_participant_payments(user_id uuid)
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select exists (
+    select 1
+    from public.profili p
+    where p.id = user_id
+      and p.ruolo = 'manager'
+  );
+$$;
+
+grant execute on function public.can_manage_participant_payments(uuid) to authenticated;
+
+alter table public.participant_payments enable row level security;
+
+drop policy if exists participant_payments_manager_all on public.participant_payments;
+create policy participant_payments_manager_all
+on public.participant_payments
+for all
+to authenticated
+using (public.can_manage_participant_payments(auth.uid()))
+with check (public.can_manage_participant_payments(auth.uid()));
@@ -0,0 +1,232 @@
+-- Participation fee rules stored as data.
+-- Rules are evaluated by priority (lowest first); the first active rule whose conditions
+-- all match sets quota_totale. A null condition matches everything.
+-- Keep public.evaluate_participation_fee in sync with lib/fees/rules.ts.
+
+create extension if not exists pgcrypto;
+
+create table if not exists public.participation_fee_rules (
+  id uuid primary key default gen_random_uuid(),
+  label text not null,
+  priority integer not null,
+  amount numeric(10, 2) not null,
+  min_nights integer null,
+  max_nights integer null,
+  alloggio_short text null,
+  tipo_iscrizione text null,
+  min_age integer null,
+  max_age integer null,
+  registered_until date null,
+  is_active boolean not null default true,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now(),
+  constraint participation_fee_rules_label_not_blank check (length(trim(label)) > 0),
+  constraint participation_fee_rules_priority_unique unique (priority),
+  constraint participation_fee_rules_amount_non_negative check (amount >= 0),
+  constraint participation_fee_rules_nights_valid check (
+    (min_nights is null or min_nights >= 0)
+    and (max_nights is null or max_nights >= 0)
+    and (min_nights is null or max_nights is null or min_nights <= max_nights)
+  ),
+  constraint participation_fee_rules_age_valid check (
+    (min_age is null or min_age >= 0)
+    and (max_age is null or max_age >= 0)
+    and (min_age is null or max_age is null or min_age <= max_age)
+  ),
+  constraint participation_fee_rules_alloggio_not_blank
+    check (alloggio_short is null or length(trim(alloggio_short)) > 0),
+  constraint participation_fee_rules_tipo_not_blank
+    check (tipo_iscrizione is null or length(trim(tipo_iscrizione)) > 0)
+);
+
+create or replace function public.set_participation_fee_rules_updated_at()
+returns trigger
+language plpgsql
+as $$
+begin
+  new.updated_at = now();
+  return new;
+end;
+$$;
+
+drop trigger if exists trg_participation_fee_rules_updated_at on public.participation_fee_rules;
+create trigger trg_participation_fee_rules_updated_at
+before update on public.participation_fee_rules
+for each row execute function public.set_participation_fee_rules_updated_at();
+
+-- Seed with the amounts that used to be hardcoded.
+insert into public.participation_fee_rules (label, priority, amount, min_nights, max_nights, alloggio_short)
+select seed.label, seed.priority, seed.amount, seed.min_nights, seed.max_nights, seed.alloggio_short
+from (
+  values
+    ('Autonomous accommodation', 10, 100::numeric, null::integer, null::integer, 'Atonoumous'),
+    ('Stay of 4 nights or more', 20, 235::numeric, 4, null::integer, null::text),
+    ('Stay of 1 to 3 nights', 30, 200::numeric, 1, 3, null::text)
+) as seed (label, priority, amount, min_nights, max_nights, alloggio_short)
+where not exists (select 1 from public.participation_fee_rules);
+
+create or replace function public.participation_fee_nights(arrival date, departure date)
+returns integer
+language sql
+immutable
+as $$
+  select case
+    when arrival is null or departure is null then null
+    when (departure - arrival) <= 0 then null
+    else (departure - arrival)
+  end;
+$$;
+
+-- Same keys as accommodationKey() in lib/fees/rules.ts: the short option, its corrected
+-- spelling and the bilingual long option all select the same rules.
+create or replace function public.participation_fee_accommodation(value text)
+returns text
+language sql
+immutable
+as $$
+  select case
+    when v ~ '(atonoumous|autonomous|alloggio autonomamente|arranged my own accommodation)'
+      then 'atonoumous'
+    when v ~ '(provided by (the )?organization|struttura fornita dall[''’]organizzazione)'
+      then 'provided by organization'
+    else v
+  end
+  from (select lower(trim(coalesce(value, ''))) as v) normalized;
+$$;
+
+create or replace function public.evaluate_participation_fee(
+  p_nights integer,
+  p_alloggio_short text,
+  p_tipo_iscrizione text,
+  p_eta integer,
+  p_registered_on date
+)
+returns numeric
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select r.amount
+  from public.participation_fee_rules r
+  where r.is_active
+    and (r.min_nights is null or (p_nights is not null and p_nights >= r.min_nights))
+    and (r.max_nights is null or (p_nights is not null and p_nights <= r.max_nights))
+    and (
+      r.alloggio_short is null
+      or public.participation_fee_accommodation(r.alloggio_short)
+        = public.participation_fee_accommodation(p_alloggio_short)
+    )
+    and (
+      r.tipo_iscrizione is null
+      or position(lower(trim(r.tipo_iscrizione)) in lower(coalesce(p_tipo_iscrizione, ''))) > 0
+    )
+    and (r.min_age is null or (p_eta is not null and p_eta >= r.min_age))
+    and (r.max_age is null or (p_eta is not null and p_eta <= r.max_age))
+    and (
+      r.registered_until is null
+      or (p_registered_on is not null and p_registered_on <= r.registered_until)
+    )
+  order by r.priority asc
+  limit 1;
+$$;
+
+create or replace function public.partecipanti_set_stay_and_fee()
+returns trigger
+language plpgsql
+as $$
+begin
+  new.giorni_permanenza := public.participation_fee_nights(new.data_arrivo, new.data_partenza);
+  new.quota_totale := public.evaluate_participation_fee(
+    new.giorni_permanenza,
+    new.alloggio_short,
+    new.tipo_iscrizione,
+    new.eta,
+    (coalesce(new.submitted_at_tally, new.created_at, now()) at time zone 'UTC')::date
+  );
+  return new;
+end;
+$$;
+
+drop trigger if exists trg_partecipanti_set_stay_and_fee on public.partecipanti;
+create trigger trg_partecipanti_set_stay_and_fee
+before insert or update of data_arrivo, data_partenza, alloggio_short, tipo_iscrizione, eta, submitted_at_tally
+on public.partecipanti
+for each row
+execute function public.partecipanti_set_stay_and_fee();
+
+create or replace function public.manager_recalculate_participation_fees(
+  participant_ids uuid[],
+  actor_id uuid
+)
+returns table (
+  id uuid,
+  quota_totale numeric
+)
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if actor_id is null then
+    raise exception 'actor_id is required';
+  end if;
+
+  if auth.uid() is not null and auth.uid() <> actor_id then
+    raise exception 'forbidden';
+  end if;
+
+  if not exists (
+    select 1
+    from public.profili p
+    where p.id = actor_id
+      and p.ruolo = 'manager'
+  ) then
+    raise exception 'forbidden';
+  end if;
+
+  return query
+  update public.partecipanti pa
+  set
+    giorni_permanenza = public.participation_fee_nights(pa.data_arrivo, pa.data_partenza),
+    quota_totale = public.evaluate_participation_fee(
+      public.participation_fee_nights(pa.data_arrivo, pa.data_partenza),
+      pa.alloggio_short,
+      pa.tipo_iscrizione,
+      pa.eta,
+      (coalesce(pa.submitted_at_tally, pa.created_at) at time zone 'UTC')::date
+    )
+  where pa.id = any(coalesce(participant_ids, array[]::uuid[]))
+  returning pa.id, pa.quota_totale;
+end;
+$$;
+
+grant execute on function public.manager_recalculate_participation_fees(uuid[], uuid) to authenticated;
+grant execute on function public.manager_recalculate_participation_fees(uuid[], uuid) to service_role;
+
+create or replace function public.can_manage_participation_fee_rules(user_id uuid)
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select exists (
+    select 1
+    from public.profili p
+    where p.id = user_id
+      and p.ruolo = 'manager'
+  );
+$$;
+
+grant execute on function public.can_manage_participation_fee_rules(uuid) to authenticated;
+
+alter table public.participation_fee_rules enable row level security;
+
+drop policy if exists participation_fee_rules_manager_all on public.participation_fee_rules;
+create policy participation_fee_rules_manager_all
+on public.participation_fee_rules
+for all
+to authenticated
+using (public.can_manage_participation_fee_rules(auth.uid()))
+with check (public.can_manage_participation_fee_rules(auth.uid()));
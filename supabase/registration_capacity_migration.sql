@@ -0,0 +1,233 @@
+-- Registration capacity limits and waitlist.
+-- Limits live in a singleton settings row; empty limits mean "no cap".
+-- Registrations over capacity are inserted with registration_status = 'waitlisted' and a
+-- waitlist_position ticket number; managers promote them from the dashboard.
+
+create table if not exists public.registration_capacity_settings (
+  id boolean primary key default true,
+  total_limit integer null,
+  -- { "<alloggio_short>": limit }
+  accommodation_limits jsonb not null default '{}'::jsonb,
+  -- default limit for every night without an entry in night_limits
+  nightly_limit integer null,
+  -- { "YYYY-MM-DD": limit }
+  night_limits jsonb not null default '{}'::jsonb,
+  promotion_subject text not null default 'Your Global Friendship registration is confirmed',
+  promotion_html text not null default '<p>Dear {{full_name}},</p><p>a place has become available and your registration is now confirmed. We look forward to seeing you from {{data_arrivo}} to {{data_partenza}}.</p>',
+  updated_by uuid null references auth.users (id) on delete set null,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now(),
+  constraint registration_capacity_settings_singleton check (id = true),
+  constraint registration_capacity_settings_total_limit_valid check (total_limit is null or total_limit >= 0),
+  constraint registration_capacity_settings_nightly_limit_valid check (nightly_limit is null or nightly_limit >= 0),
+  constraint registration_capacity_settings_accommodation_limits_object check (jsonb_typeof(accommodation_limits) = 'object'),
+  constraint registration_capacity_settings_night_limits_object check (jsonb_typeof(night_limits) = 'object'),
+  constraint registration_capacity_settings_promotion_html_not_blank check (length(trim(promotion_html)) > 0)
+);
+
+insert into public.registration_capacity_settings (id)
+values (true)
+on conflict (id) do nothing;
+
+alter table public.partecipanti
+  add column if not exists registration_status text not null default 'confirmed',
+  add column if not exists waitlist_position integer null,
+  add column if not exists waitlisted_at timestamptz null,
+  add column if not exists waitlist_reason text null,
+  add column if not exists promoted_at timestamptz null,
+  add column if not exists promoted_by uuid null references auth.users (id) on delete set null;
+
+alter table public.partecipanti
+  drop constraint if exists partecipanti_registration_status_valid;
+alter table public.partecipanti
+  add constraint partecipanti_registration_status_valid
+  check (registration_status in ('confirmed', 'waitlisted'));
+
+-- Positions used to be computed outside a transaction, so concurrent registrations could
+-- share one. Move later duplicates to the end of the line before adding the unique index.
+with positioned as (
+  select
+    id,
+    waitlist_position,
+    waitlisted_at,
+    row_number() over (partition by waitlist_position order by waitlisted_at, id) as copy
+  from public.partecipanti
+  where waitlist_position is not null
+),
+duplicates as (
+  select id, row_number() over (order by waitlist_position, waitlisted_at, id) as n
+  from positioned
+  where copy > 1
+)
+update public.partecipanti p
+set waitlist_position = (
+  select coalesce(max(waitlist_position), 0) from public.partecipanti
+) + duplicates.n
+from duplicates
+where p.id = duplicates.id;
+
+drop index if exists public.partecipanti_waitlist_idx;
+create unique index if not exists partecipanti_waitlist_position_key
+  on public.partecipanti (waitlist_position)
+  where waitlist_position is not null;
+
+create or replace function public.set_registration_capacity_settings_updated_at()
+returns trigger
+language plpgsql
+as $$
+begin
+  new.updated_at = now();
+  return new;
+end;
+$$;
+
+drop trigger if exists trg_registration_capacity_settings_updated_at on public.registration_capacity_settings;
+create trigger trg_registration_capacity_settings_updated_at
+before update on public.registration_capacity_settings
+for each row execute function public.set_registration_capacity_settings_updated_at();
+
+create or replace function public.can_manage_registration_capacity(user_id uuid)
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select exists (
+    select 1
+    from public.profili p
+    where p.id = user_id
+      and p.ruolo in ('manager', 'admin')
+  );
+$$;
+
+grant execute on function public.can_manage_registration_capacity(uuid) to authenticated;
+
+alter table public.registration_capacity_settings enable row level security;
+
+drop policy if exists registration_capacity_settings_select on public.registration_capacity_settings;
+create policy registration_capacity_settings_select
+on public.registration_capacity_settings
+for select
+to authenticated
+using (public.can_manage_registration_capacity(auth.uid()));
+
+drop policy if exists registration_capacity_settings_update on public.registration_capacity_settings;
+create policy registration_capacity_settings_update
+on public.registration_capacity_settings
+for update
+to authenticated
+using (public.can_manage_registration_capacity(auth.uid()))
+with check (public.can_manage_registration_capacity(auth.uid()));
+
+-- Inserts a registration as confirmed or waitlisted. The settings row is locked for the
+-- whole transaction, so concurrent registrations are counted one after the other and get
+-- distinct waitlist positions. Mirrors findCapacityBreaches in lib/registration/capacity.ts.
+-- p_row holds the partecipanti columns to insert; the result carries the new id and status.
+create or replace function public.insert_registration_with_capacity(p_row jsonb)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_settings public.registration_capacity_settings%rowtype;
+  v_candidate public.partecipanti%rowtype;
+  v_breaches text[] := '{}';
+  v_key text;
+  v_limit integer;
+  v_used integer;
+  v_night date;
+  v_position integer;
+  v_columns text;
+  v_id uuid;
+begin
+  v_candidate := jsonb_populate_record(null::public.partecipanti, p_row);
+
+  select * into v_settings
+  from public.registration_capacity_settings
+  where id = true
+  for update;
+
+  if found then
+    if v_settings.total_limit is not null then
+      select count(*) into v_used
+      from public.partecipanti
+      where registration_status = 'confirmed';
+      if v_used + 1 > v_settings.total_limit then
+        v_breaches := v_breaches
+          || format('Overall capacity reached (%s/%s)', v_used, v_settings.total_limit);
+      end if;
+    end if;
+
+    v_key := trim(coalesce(v_candidate.alloggio_short, ''));
+    v_limit := (v_settings.accommodation_limits ->> v_key)::integer;
+    if v_key <> '' and v_limit is not null then
+      select count(*) into v_used
+      from public.partecipanti
+      where registration_status = 'confirmed'
+        and trim(coalesce(alloggio_short, '')) = v_key;
+      if v_used + 1 > v_limit then
+        v_breaches := v_breaches
+          || format('Accommodation "%s" is full (%s/%s)', v_key, v_used, v_limit);
+      end if;
+    end if;
+
+    if v_candidate.data_arrivo is not null and v_candidate.data_partenza is not null then
+      for v_night in
+        select generate_series(v_candidate.data_arrivo, v_candidate.data_partenza - 1, interval '1 day')::date
+      loop
+        v_limit := coalesce(
+          (v_settings.night_limits ->> to_char(v_night, 'YYYY-MM-DD'))::integer,
+          v_settings.nightly_limit
+        );
+        continue when v_limit is null;
+
+        select count(*) into v_used
+        from public.partecipanti
+        where registration_status = 'confirmed'
+          and data_arrivo <= v_night
+          and data_partenza > v_night;
+        if v_used + 1 > v_limit then
+          v_breaches := v_breaches
+            || format('Night %s is full (%s/%s)', to_char(v_night, 'YYYY-MM-DD'), v_used, v_limit);
+        end if;
+      end loop;
+    end if;
+  end if;
+
+  if cardinality(v_breaches) > 0 then
+    select coalesce(max(waitlist_position), 0) + 1 into v_position
+    from public.partecipanti;
+
+    p_row := p_row || jsonb_build_object(
+      'registration_status', 'waitlisted',
+      'waitlist_position', v_position,
+      'waitlisted_at', now(),
+      'waitlist_reason', array_to_string(v_breaches, '; ')
+    );
+  end if;
+
+  select string_agg(format('%I', key), ', ') into v_columns
+  from jsonb_object_keys(p_row) as key;
+
+  execute format(
+    'insert into public.partecipanti (%1$s) select %1$s from jsonb_populate_record(null::public.partecipanti, $1) returning id',
+    v_columns
+  )
+  into v_id
+  using p_row;
+
+  return jsonb_build_object(
+    'id', v_id,
+    'registration_status', coalesce(p_row ->> 'registration_status', 'confirmed'),
+    'waitlist_position', v_position,
+    'waitlisted_at', p_row ->> 'waitlisted_at',
+    'waitlist_reason', p_row ->> 'waitlist_reason'
+  );
+end;
+$$;
+
+revoke all on function public.insert_registration_with_capacity(jsonb) from public;
+revoke all on function public.insert_registration_with_capacity(jsonb) from anon, authenticated;
+grant execute on function public.insert_registration_with_capacity(jsonb) to service_role;
@@ -0,0 +1,54 @@
+-- Stored Tally field mapping (question key or label -> partecipanti column + transform).
+-- No row means the webhook uses the built-in default in lib/tally/field-mapping.ts.
+
+create table if not exists public.tally_field_mapping (
+  id boolean primary key default true,
+  mapping jsonb not null,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now(),
+  updated_by uuid null references auth.users (id) on delete set null,
+  constraint tally_field_mapping_singleton check (id = true),
+  constraint tally_field_mapping_rules_array check (jsonb_typeof(mapping -> 'rules') = 'array')
+);
+
+create or replace function public.can_manage_tally_field_mapping(user_id uuid)
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select exists (
+    select 1
+    from public.profili p
+    where p.id = user_id
+      and p.ruolo = 'admin'
+  );
+$$;
+
+grant execute on function public.can_manage_tally_field_mapping(uuid) to authenticated;
+
+create or replace function public.set_tally_field_mapping_updated_at()
+returns trigger
+language plpgsql
+as $$
+begin
+  new.updated_at = now();
+  return new;
+end;
+$$;
+
+drop trigger if exists trg_tally_field_mapping_updated_at on public.tally_field_mapping;
+create trigger trg_tally_field_mapping_updated_at
+before update on public.tally_field_mapping
+for each row execute function public.set_tally_field_mapping_updated_at();
+
+alter table public.tally_field_mapping enable row level security;
+
+drop policy if exists tally_field_mapping_admin_all on public.tally_field_mapping;
+create policy tally_field_mapping_admin_all
+on public.tally_field_mapping
+for all
+to authenticated
+using (public.can_manage_tally_field_mapping(auth.uid()))
+with check (public.can_manage_tally_field_mapping(auth.uid()));
@@ -0,0 +1,142 @@
+-- Travel logistics: how participants arrive and leave (mode, flight or train number,
+-- time, airport or station) and the shuttle runs that carry them between the event and
+-- airports or stations. Travel dates stay in partecipanti.data_arrivo / data_partenza.
+
+create table if not exists public.shuttle_runs (
+  id uuid primary key default gen_random_uuid(),
+  direction text not null,
+  run_date date not null,
+  departure_time time not null,
+  location text not null,
+  capacity integer not null,
+  driver_name text null,
+  driver_phone text null,
+  vehicle text null,
+  notes text null,
+  created_at timestamptz not null default now(),
+  created_by uuid null references auth.users (id) on delete set null,
+  constraint shuttle_runs_direction_check check (direction in ('arrival', 'departure')),
+  constraint shuttle_runs_location_not_blank check (length(trim(location)) > 0),
+  constraint shuttle_runs_capacity_positive check (capacity > 0)
+);
+
+create index if not exists shuttle_runs_date_idx
+  on public.shuttle_runs (run_date, departure_time);
+
+-- One row per participant and direction. Deleting a run leaves its passengers unassigned.
+create table if not exists public.participant_travel (
+  id uuid primary key default gen_random_uuid(),
+  participant_id uuid not null references public.partecipanti (id) on delete cascade,
+  direction text not null,
+  mode text not null,
+  reference text null,
+  travel_time time null,
+  location text null,
+  notes text null,
+  shuttle_run_id uuid null references public.shuttle_runs (id) on delete set null,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now(),
+  updated_by uuid null references auth.users (id) on delete set null,
+  constraint participant_travel_direction_check check (direction in ('arrival', 'departure')),
+  constraint participant_travel_mode_check
+    check (mode in ('plane', 'train', 'bus', 'car', 'other')),
+  constraint participant_travel_one_per_direction unique (participant_id, direction)
+);
+
+create index if not exists participant_travel_shuttle_run_idx
+  on public.participant_travel (shuttle_run_id);
+
+-- Seats are checked with the run row locked, so two managers filling the last seat at
+-- the same time cannot both succeed, and a run cannot shrink below its passengers.
+create or replace function public.check_shuttle_run_seat()
+returns trigger
+language plpgsql
+as $$
+declare
+  v_capacity integer;
+  v_seated integer;
+begin
+  if new.shuttle_run_id is null
+    or (tg_op = 'UPDATE' and new.shuttle_run_id is not distinct from old.shuttle_run_id) then
+    return new;
+  end if;
+
+  select capacity into v_capacity
+  from public.shuttle_runs
+  where id = new.shuttle_run_id
+  for update;
+
+  select count(*) into v_seated
+  from public.participant_travel
+  where shuttle_run_id = new.shuttle_run_id
+    and id <> new.id;
+
+  if v_seated >= v_capacity then
+    raise exception 'The shuttle is full' using errcode = 'check_violation';
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists trg_participant_travel_shuttle_seat on public.participant_travel;
+create trigger trg_participant_travel_shuttle_seat
+before insert or update of shuttle_run_id on public.participant_travel
+for each row execute function public.check_shuttle_run_seat();
+
+create or replace function public.check_shuttle_run_capacity()
+returns trigger
+language plpgsql
+as $$
+declare
+  v_seated integer;
+begin
+  select count(*) into v_seated
+  from public.participant_travel
+  where shuttle_run_id = new.id;
+
+  if v_seated > new.capacity then
+    raise exception '% passengers are seated on this shuttle', v_seated
+      using errcode = 'check_violation';
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists trg_shuttle_runs_capacity on public.shuttle_runs;
+create trigger trg_shuttle_runs_capacity
+before update of capacity on public.shuttle_runs
+for each row execute function public.check_shuttle_run_capacity();
+
+create or replace function public.can_manage_travel_logistics(user_id uuid)
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select exists (
+    select 1
+    from public.profili p
+    where p.id = user_id
+      and p.ruolo in ('manager', 'admin')
+  );
+$$;
+
+grant execute on function public.can_manage_travel_logistics(uuid) to authenticated;
+
+alter table public.shuttle_runs enable row level security;
+alter table public.participant_travel enable row level security;
+
+drop policy if exists shuttle_runs_select on public.shuttle_runs;
+create policy shuttle_runs_select
+on public.shuttle_runs
+for select
+to authenticated
+using (public.can_manage_travel_logistics(auth.uid()));
+
+drop policy if exists participant_travel_select on public.participant_travel;
+create policy participant_travel_select
+on public.participant_travel
+for select
+to authenticated
+using (public.can_manage_travel_logistics(auth.uid()));
@@ -0,0 +1,88 @@
+-- Visa invitation letters requested by participants and approved by managers.
+-- Approved letters are numbered with the fee document sequences (e.g. VL-2026-0001) and
+-- keep a snapshot of what was printed, so re-downloads render identically.
+-- Run AFTER fee_documents_migration.sql.
+
+alter table public.organization_settings
+  add column if not exists visa_letter_prefix text not null default 'VL',
+  add column if not exists signatory_name text null,
+  add column if not exists signatory_role text null;
+
+alter table public.organization_settings
+  drop constraint if exists organization_settings_visa_letter_prefix_not_blank;
+alter table public.organization_settings
+  add constraint organization_settings_visa_letter_prefix_not_blank
+  check (length(trim(visa_letter_prefix)) > 0);
+
+alter table public.fee_document_sequences
+  drop constraint if exists fee_document_sequences_type_valid;
+alter table public.fee_document_sequences
+  add constraint fee_document_sequences_type_valid
+  check (document_type in ('receipt', 'invoice', 'visa_letter'));
+
+-- Status of the participant's latest request, for lists and exports.
+alter table public.partecipanti
+  add column if not exists visa_letter_status text null;
+
+alter table public.partecipanti
+  drop constraint if exists partecipanti_visa_letter_status_check;
+alter table public.partecipanti
+  add constraint partecipanti_visa_letter_status_check
+  check (visa_letter_status is null or visa_letter_status in ('pending', 'approved', 'rejected'));
+
+create table if not exists public.visa_letter_requests (
+  id uuid primary key default gen_random_uuid(),
+  participant_id uuid not null references public.partecipanti (id) on delete cascade,
+  status text not null default 'pending',
+  passport_number text not null,
+  passport_expiry date not null,
+  consulate text not null,
+  letter_number text null,
+  sequence_year integer null,
+  sequence_number integer null,
+  snapshot jsonb null,
+  rejection_reason text null,
+  decided_at timestamptz null,
+  decided_by uuid null references auth.users (id) on delete set null,
+  emailed_at timestamptz null,
+  email_error text null,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now(),
+  constraint visa_letter_requests_status_check
+    check (status in ('pending', 'approved', 'rejected')),
+  constraint visa_letter_requests_number_unique unique (letter_number),
+  constraint visa_letter_requests_approved_has_letter
+    check (status <> 'approved' or (letter_number is not null and snapshot is not null))
+);
+
+-- One open request per participant; decided requests are kept as history.
+create unique index if not exists visa_letter_requests_one_pending_idx
+  on public.visa_letter_requests (participant_id)
+  where status = 'pending';
+
+create index if not exists visa_letter_requests_status_idx
+  on public.visa_letter_requests (status, created_at);
+
+create or replace function public.set_visa_letter_requests_updated_at()
+returns trigger
+language plpgsql
+as $$
+begin
+  new.updated_at = now();
+  return new;
+end;
+$$;
+
+drop trigger if exists trg_visa_letter_requests_updated_at on public.visa_letter_requests;
+create trigger trg_visa_letter_requests_updated_at
+before update on public.visa_letter_requests
+for each row execute function public.set_visa_letter_requests_updated_at();
+
+alter table public.visa_letter_requests enable row level security;
+
+drop policy if exists visa_letter_requests_manager_select on public.visa_letter_requests;
+create policy visa_letter_requests_manager_select
+on public.visa_letter_requests
+for select
+to authenticated
+using (public.can_manage_fee_documents(auth.uid()));
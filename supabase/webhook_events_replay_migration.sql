@@ -0,0 +1,32 @@
+-- Raw body persistence and replay bookkeeping for Tally webhook events.
+-- Failed form submissions stay in the queue until a replay succeeds or an admin dismisses them.
+-- Run AFTER tally_webhook_migration.sql.
+
+alter table public.webhook_events
+  add column if not exists raw_body text null,
+  add column if not exists replay_of uuid null
+    references public.webhook_events (id) on delete set null,
+  add column if not exists replay_count integer not null default 0,
+  add column if not exists last_replayed_at timestamptz null,
+  add column if not exists resolved_at timestamptz null,
+  add column if not exists resolved_by uuid null references auth.users (id) on delete set null,
+  add column if not exists resolution text null;
+
+alter table public.webhook_events
+  drop constraint if exists webhook_events_resolution_valid;
+
+alter table public.webhook_events
+  add constraint webhook_events_resolution_valid
+    check (resolution is null or resolution in ('replayed', 'dismissed'));
+
+create index if not exists webhook_events_failed_queue_idx
+  on public.webhook_events (created_at desc)
+  where event_type = 'form_submission'
+    and status in ('error', 'rejected_missing_fields', 'notification_error')
+    and resolved_at is null;
+
+create index if not exists webhook_events_replay_of_idx
+  on public.webhook_events (replay_of);
+
+-- Only the service role reads or writes webhook events; they hold personal data.
+alter table public.webhook_events enable row level security;
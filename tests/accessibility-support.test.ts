@@ -0,0 +1,115 @@
+import { strict as assert } from "node:assert";
+import test from "node:test";
+import {
+  briefingEntries,
+  buildSupportEntries,
+  groupByDifficulty,
+  supportBriefingCsvRows,
+  UNSPECIFIED_DIFFICULTY,
+  type SupportParticipant,
+} from "../lib/accessibility/support.ts";
+
+const OPTIONS = [
+  "Difficulty seeing, even when wearing glasses",
+  "Difficulty walking or climbing steps",
+  "I use a wheelchair or mobility aid",
+];
+
+const participant = (overrides: Partial<SupportParticipant>): SupportParticipant => ({
+  id: "p1",
+  nome: "Anna",
+  cognome: "Rossi",
+  gruppo_label: "Roma",
+  telefono: null,
+  data_arrivo: "2026-08-27",
+  data_partenza: "2026-08-31",
+  disabilita_accessibilita: false,
+  difficolta_accessibilita: null,
+  accommodation: null,
+  ...overrides,
+});
+
+test("only participants with declared needs are listed, grouped by difficulty", () => {
+  const entries = buildSupportEntries(
+    [
+      participant({
+        id: "both",
+        nome: "Bruno",
+        difficolta_accessibilita: "Difficulty walking or climbing steps, I use a wheelchair or mobility aid",
+      }),
+      participant({ id: "flag", nome: "Carla", disabilita_accessibilita: true }),
+      participant({
+        id: "sight",
+        nome: "Dario",
+        difficolta_accessibilita: "Difficulty seeing, even when wearing glasses",
+      }),
+      participant({ id: "none" }),
+      participant({ id: "stale", difficolta_accessibilita: "Something removed from the form" }),
+    ],
+    [],
+    OPTIONS
+  );
+
+  assert.deepEqual(
+    entries.map((entry) => entry.id),
+    ["both", "flag", "sight"]
+  );
+  assert.equal(entries[0].plan.status, "to_contact");
+  assert.deepEqual(
+    groupByDifficulty(entries, OPTIONS).map((group) => [
+      group.difficulty,
+      group.entries.map((entry) => entry.id),
+    ]),
+    [
+      ["Difficulty seeing, even when wearing glasses", ["sight"]],
+      ["Difficulty walking or climbing steps", ["both"]],
+      ["I use a wheelchair or mobility aid", ["both"]],
+      [UNSPECIFIED_DIFFICULTY, ["flag"]],
+    ]
+  );
+});
+
+test("briefing leaves out people who need no support and keeps notes internal", () => {
+  const entries = buildSupportEntries(
+    [
+      participant({ id: "a", disabilita_accessibilita: true, accommodation: "Hostel, room 1" }),
+      participant({ id: "b", nome: "Bea", disabilita_accessibilita: true }),
+    ],
+    [
+      {
+        participant_id: "a",
+        status: "arranged",
+        buddy_name: "Marco",
+        buddy_contact: "+39 333 000",
+        action_item: "Ground floor room",
+        notes: "Private medical details",
+        updated_at: null,
+      },
+      {
+        participant_id: "b",
+        status: "not_needed",
+        buddy_name: null,
+        buddy_contact: null,
+        action_item: null,
+        notes: null,
+        updated_at: null,
+      },
+    ],
+    OPTIONS
+  );
+
+  const rows = supportBriefingCsvRows(briefingEntries(entries));
+  assert.equal(rows.length, 2);
+  assert.deepEqual(rows[1], [
+    "Anna Rossi",
+    "Roma",
+    null,
+    "2026-08-27 - 2026-08-31",
+    "Hostel, room 1",
+    UNSPECIFIED_DIFFICULTY,
+    "Marco",
+    "+39 333 000",
+    "Ground floor room",
+    "Arranged",
+  ]);
+});
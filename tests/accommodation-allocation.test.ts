@@ -0,0 +1,102 @@
+import { strict as assert } from "node:assert";
+import test from "node:test";
+import {
+  findAssignmentConflict,
+  listNights,
+  participantStayRange,
+  roomOccupancyByNight,
+  type AssignmentContext,
+} from "../lib/alloggi/allocation.ts";
+
+function buildContext(overrides: Partial<AssignmentContext> = {}): AssignmentContext {
+  return {
+    rooms: [{ id: "room-1", capacity: 2 }],
+    beds: [
+      { id: "bed-1", room_id: "room-1" },
+      { id: "bed-2", room_id: "room-1" },
+    ],
+    assignments: [],
+    ...overrides,
+  };
+}
+
+test("listNights excludes the departure day", () => {
+  assert.deepEqual(listNights({ from: "2026-07-01", to: "2026-07-04" }), [
+    "2026-07-01",
+    "2026-07-02",
+    "2026-07-03",
+  ]);
+});
+
+test("participantStayRange rejects missing or inverted dates", () => {
+  assert.equal(participantStayRange({ data_arrivo: null, data_partenza: "2026-07-04" }), null);
+  assert.equal(
+    participantStayRange({ data_arrivo: "2026-07-04", data_partenza: "2026-07-04" }),
+    null
+  );
+  assert.deepEqual(
+    participantStayRange({ data_arrivo: "2026-07-01", data_partenza: "2026-07-04" }),
+    { from: "2026-07-01", to: "2026-07-04" }
+  );
+});
+
+test("findAssignmentConflict allows back-to-back stays in the same bed", () => {
+  const context = buildContext({
+    assignments: [{ id: "a-1", bed_id: "bed-1", participant_id: "p-1", from: "2026-07-01", to: "2026-07-03" }],
+  });
+  const conflict = findAssignmentConflict(
+    { bed_id: "bed-1", participant_id: "p-2", from: "2026-07-03", to: "2026-07-05" },
+    context
+  );
+  assert.equal(conflict, null);
+});
+
+test("findAssignmentConflict rejects a double-booked bed", () => {
+  const context = buildContext({
+    assignments: [{ id: "a-1", bed_id: "bed-1", participant_id: "p-1", from: "2026-07-01", to: "2026-07-03" }],
+  });
+  const conflict = findAssignmentConflict(
+    { bed_id: "bed-1", participant_id: "p-2", from: "2026-07-02", to: "2026-07-04" },
+    context
+  );
+  assert.equal(conflict?.code, "bed_occupied");
+});
+
+test("findAssignmentConflict rejects a participant in two beds on the same night", () => {
+  const context = buildContext({
+    assignments: [{ id: "a-1", bed_id: "bed-1", participant_id: "p-1", from: "2026-07-01", to: "2026-07-03" }],
+  });
+  const conflict = findAssignmentConflict(
+    { bed_id: "bed-2", participant_id: "p-1", from: "2026-07-02", to: "2026-07-03" },
+    context
+  );
+  assert.equal(conflict?.code, "participant_already_assigned");
+});
+
+test("findAssignmentConflict keeps assignments within the participant stay", () => {
+  const conflict = findAssignmentConflict(
+    { bed_id: "bed-1", participant_id: "p-1", from: "2026-06-30", to: "2026-07-03" },
+    buildContext({ participantStay: { from: "2026-07-01", to: "2026-07-03" } })
+  );
+  assert.equal(conflict?.code, "outside_stay");
+});
+
+test("findAssignmentConflict enforces room capacity per night", () => {
+  const context = buildContext({
+    rooms: [{ id: "room-1", capacity: 1 }],
+    assignments: [{ id: "a-1", bed_id: "bed-1", participant_id: "p-1", from: "2026-07-01", to: "2026-07-03" }],
+  });
+  const conflict = findAssignmentConflict(
+    { bed_id: "bed-2", participant_id: "p-2", from: "2026-07-02", to: "2026-07-04" },
+    context
+  );
+  assert.equal(conflict?.code, "room_over_capacity");
+  assert.equal(conflict?.night, "2026-07-02");
+  assert.deepEqual(
+    [...roomOccupancyByNight("room-1", context).entries()],
+    [
+      ["2026-07-01", 1],
+      ["2026-07-02", 1],
+    ]
+  );
+});
@@ -0,0 +1,115 @@
+import { strict as assert } from "node:assert";
+import test from "node:test";
+import {
+  needsAccessibleRoom,
+  normalizeRoomSex,
+  suggestRoomAssignments,
+  type AutoAssignInput,
+  type AutoAssignParticipant,
+} from "../lib/alloggi/auto-assign.ts";
+
+const STAY = { from: "2026-07-01", to: "2026-07-04" };
+
+function participant(
+  id: string,
+  overrides: Partial<AutoAssignParticipant> = {}
+): AutoAssignParticipant {
+  return {
+    id,
+    sesso: "Male",
+    is_minorenne: false,
+    gruppo_id: null,
+    needs_accessible_room: false,
+    stay: STAY,
+    ...overrides,
+  };
+}
+
+function twoDoubleRooms(participants: AutoAssignParticipant[]): AutoAssignInput {
+  return {
+    participants,
+    rooms: [
+      { id: "room-a", capacity: 2, is_accessible: false },
+      { id: "room-b", capacity: 2, is_accessible: false },
+    ],
+    beds: [
+      { id: "a-1", room_id: "room-a" },
+      { id: "a-2", room_id: "room-a" },
+      { id: "b-1", room_id: "room-b" },
+      { id: "b-2", room_id: "room-b" },
+    ],
+    assignments: [],
+  };
+}
+
+function roomOf(bedId: string | undefined) {
+  return bedId?.split("-")[0];
+}
+
+test("normalizeRoomSex understands multilingual answers", () => {
+  assert.equal(normalizeRoomSex("Female / Femmina"), "F");
+  assert.equal(normalizeRoomSex("maschio"), "M");
+  assert.equal(normalizeRoomSex("Prefer not to say"), null);
+  assert.equal(normalizeRoomSex(null), null);
+});
+
+test("needsAccessibleRoom reads the stored accessibility answers", () => {
+  assert.equal(
+    needsAccessibleRoom("Difficulty hearing, even when using a hearing aid, I need accessible accommodation"),
+    true
+  );
+  assert.equal(needsAccessibleRoom("Difficulty concentrating or remembering"), false);
+});
+
+test("suggestRoomAssignments never mixes sexes in a room", () => {
+  const result = suggestRoomAssignments(
+    twoDoubleRooms([participant("m1"), participant("f1", { sesso: "Female" }), participant("m2")])
+  );
+  const byParticipant = new Map(result.draft.map((row) => [row.participant_id, row.bed_id]));
+  assert.equal(result.unplaced.length, 0);
+  assert.equal(roomOf(byParticipant.get("m1")), roomOf(byParticipant.get("m2")));
+  assert.notEqual(roomOf(byParticipant.get("m1")), roomOf(byParticipant.get("f1")));
+});
+
+test("suggestRoomAssignments keeps minors away from adults of other groups", () => {
+  const result = suggestRoomAssignments(
+    twoDoubleRooms([
+      participant("minor", { is_minorenne: true, gruppo_id: "g1" }),
+      participant("leader", { gruppo_id: "g1" }),
+      participant("stranger", { gruppo_id: "g2" }),
+    ])
+  );
+  const byParticipant = new Map(result.draft.map((row) => [row.participant_id, row.bed_id]));
+  assert.equal(roomOf(byParticipant.get("minor")), roomOf(byParticipant.get("leader")));
+  assert.notEqual(roomOf(byParticipant.get("minor")), roomOf(byParticipant.get("stranger")));
+});
+
+test("suggestRoomAssignments reports who could not be placed and why", () => {
+  const input = twoDoubleRooms([
+    participant("wheelchair", { needs_accessible_room: true }),
+    participant("no-dates", { stay: null }),
+    participant("no-sex", { sesso: "" }),
+  ]);
+  const result = suggestRoomAssignments(input);
+  assert.deepEqual(
+    result.unplaced
+      .map((row) => [row.participant_id, row.code])
+      .sort((a, b) => a[0].localeCompare(b[0])),
+    [
+      ["no-dates", "missing_dates"],
+      ["no-sex", "missing_sex"],
+      ["wheelchair", "no_accessible_bed"],
+    ]
+  );
+  assert.equal(result.draft.length, 0);
+});
+
+test("suggestRoomAssignments leaves saved assignments untouched", () => {
+  const input = twoDoubleRooms([participant("m1"), participant("f1", { sesso: "Female" })]);
+  input.assignments = [{ id: "x", bed_id: "a-1", participant_id: "f1", ...STAY }];
+  const result = suggestRoomAssignments(input);
+  assert.deepEqual(
+    result.draft.map((row) => [row.participant_id, roomOf(row.bed_id)]),
+    [["m1", "b"]]
+  );
+});
@@ -0,0 +1,17 @@
+import { strict as assert } from "node:assert";
+import test from "node:test";
+import { badgeMarkers, dietaryMarkers } from "../lib/check-in/badge-markers.ts";
+
+const labels = (markers: Array<{ label: string }>) => markers.map((marker) => marker.label);
+
+test("dietary needs map to one marker each", () => {
+  assert.deepEqual(labels(dietaryMarkers(["vegetarian", "no_pork"])), ["VEG", "NO PORK"]);
+  assert.deepEqual(labels(dietaryMarkers(["vegan"])), ["VEGAN"]);
+  assert.deepEqual(labels(dietaryMarkers(["other"])), ["DIET"]);
+  assert.deepEqual(dietaryMarkers([]), []);
+});
+
+test("minors are marked first", () => {
+  assert.deepEqual(labels(badgeMarkers(["vegan"], true)), ["U18", "VEGAN"]);
+  assert.deepEqual(badgeMarkers([], false), []);
+});
@@ -0,0 +1,173 @@
+import { strict as assert } from "node:assert";
+import test from "node:test";
+import {
+  bankLinesFromRows,
+  detectCsvDelimiter,
+  parseBankAmount,
+  parseBankDate,
+  pickConfidentMatch,
+  suggestBankMatches,
+  type BankStatementLayout,
+  type MatchableParticipant,
+} from "../lib/fees/bank-statement.ts";
+
+const layout: BankStatementLayout = {
+  delimiter: ";",
+  dateColumn: "Date",
+  amountColumn: "Amount",
+  creditColumn: null,
+  debitColumn: null,
+  currencyColumn: "Currency",
+  defaultCurrency: "EUR",
+  counterpartyColumn: "Counterparty",
+  referenceColumn: "Reference",
+  dateFormat: "DD/MM/YYYY",
+  decimalSeparator: ",",
+};
+
+function participant(
+  id: string,
+  nome: string,
+  cognome: string,
+  group: string,
+  quota: number | null,
+  paid: number | null = null
+): MatchableParticipant {
+  return { id, nome, cognome, group, quota_totale: quota, fee_paid: paid };
+}
+
+test("detects the delimiter from the header line", () => {
+  assert.equal(detectCsvDelimiter("Date;Amount;Reference\n01/07/2026;10,00;x"), ";");
+  assert.equal(detectCsvDelimiter("Date,Amount,Reference\n"), ",");
+  assert.equal(detectCsvDelimiter("Date\tAmount\tReference\n"), "\t");
+});
+
+test("parses european and english amount formats", () => {
+  assert.equal(parseBankAmount("1.234,56", ","), 1234.56);
+  assert.equal(parseBankAmount("-235,00 EUR", ","), -235);
+  assert.equal(parseBankAmount("200,00-", ","), -200);
+  assert.equal(parseBankAmount("1,234.50", "."), 1234.5);
+  assert.equal(parseBankAmount("(50.00)", "."), -50);
+  assert.equal(parseBankAmount("abc", "."), null);
+});
+
+test("parses configured date formats and rejects impossible dates", () => {
+  assert.equal(parseBankDate("03/07/2026", "DD/MM/YYYY"), "2026-07-03");
+  assert.equal(parseBankDate("03.07.2026", "DD.MM.YYYY"), "2026-07-03");
+  assert.equal(parseBankDate("07/03/2026", "MM/DD/YYYY"), "2026-07-03");
+  assert.equal(parseBankDate("2026-07-03 10:15", "YYYY-MM-DD"), "2026-07-03");
+  assert.equal(parseBankDate("31/02/2026", "DD/MM/YYYY"), null);
+});
+
+test("maps rows to lines, reports bad lines and keeps repeated transfers distinct", () => {
+  const result = bankLinesFromRows(
+    [
+      ["Date", "Amount", "Currency", "Counterparty", "Reference"],
+      ["01/07/2026", "235,00", "EUR", "Anna Rossi", "Fee Anna Rossi"],
+      ["01/07/2026", "235,00", "EUR", "Anna Rossi", "Fee Anna Rossi"],
+      ["02/07/2026", "90000", "HUF", "Kiss Peter", ""],
+      ["bad", "10,00", "EUR", "", ""],
+      ["03/07/2026", "10,00", "USD", "", ""],
+      ["", "", "", "", ""],
+    ],
+    layout
+  );
+
+  assert.equal(result.lines.length, 3);
+  assert.notEqual(result.lines[0].dedupeKey, result.lines[1].dedupeKey);
+  assert.equal(result.lines[2].currency, "HUF");
+  assert.equal(result.lines[2].reference, null);
+  assert.deepEqual(
+    result.errors.map((error) => error.lineNumber),
+    [5, 6]
+  );
+});
+
+test("supports separate credit and debit columns", () => {
+  const result = bankLinesFromRows(
+    [
+      ["Date", "Credit", "Debit"],
+      ["01/07/2026", "100,00", ""],
+      ["02/07/2026", "", "20,00"],
+    ],
+    { ...layout, amountColumn: null, creditColumn: "Credit", debitColumn: "Debit", currencyColumn: null }
+  );
+
+  assert.deepEqual(
+    result.lines.map((line) => line.amount),
+    [100, -20]
+  );
+});
+
+test("suggests the participant whose name and outstanding amount match", () => {
+  const participants = [
+    participant("p1", "Anna", "Rossi", "Roma", 235),
+    participant("p2", "Marco", "Rossi", "Roma", 235),
+    participant("p3", "Ana", "Silva", "Lisboa", 200),
+  ];
+
+  const suggestions = suggestBankMatches(
+    { amount: 235, currency: "EUR", counterparty: "ROSSI ANNA", reference: "Global Friendship fee" },
+    participants,
+    0.0025
+  );
+
+  assert.equal(suggestions[0].key, "p1");
+  assert.equal(suggestions[0].score, 95);
+  assert.equal(pickConfidentMatch(suggestions)?.key, "p1");
+});
+
+test("splits a group transfer over the outstanding balances of its members", () => {
+  const participants = [
+    participant("p1", "Anna", "Rossi", "Parrocchia San Luca", 235, 100),
+    participant("p2", "Marco", "Bianchi", "Parrocchia San Luca", 200),
+    participant("p3", "Ana", "Silva", "Lisboa", 200),
+  ];
+
+  const suggestions = suggestBankMatches(
+    { amount: 335, currency: "EUR", counterparty: "Don Luigi", reference: "Parrocchia San Luca" },
+    participants,
+    0.0025
+  );
+
+  const group = suggestions.find((suggestion) => suggestion.kind === "group");
+  assert.ok(group);
+  assert.equal(group.score, 90);
+  assert.deepEqual(group.allocations, [
+    { participant_id: "p2", amount: 200 },
+    { participant_id: "p1", amount: 135 },
+  ]);
+});
+
+test("converts HUF transfers before comparing amounts", () => {
+  const suggestions = suggestBankMatches(
+    { amount: 94000, currency: "HUF", counterparty: "Kiss Peter", reference: null },
+    [participant("p1", "Peter", "Kiss", "Budapest", 235)],
+    0.0025
+  );
+
+  assert.equal(suggestions[0].key, "p1");
+  assert.deepEqual(suggestions[0].allocations, [{ participant_id: "p1", amount: 94000 }]);
+});
+
+test("leaves ambiguous or weak lines for review", () => {
+  const participants = [
+    participant("p1", "Anna", "Rossi", "Roma", 235),
+    participant("p2", "Anna", "Rossi", "Milano", 235),
+  ];
+
+  const ambiguous = suggestBankMatches(
+    { amount: 235, currency: "EUR", counterparty: "Anna Rossi", reference: null },
+    participants,
+    0.0025
+  );
+  assert.equal(ambiguous.length, 2);
+  assert.equal(pickConfidentMatch(ambiguous), null);
+
+  const outgoing = suggestBankMatches(
+    { amount: -235, currency: "EUR", counterparty: "Anna Rossi", reference: null },
+    participants,
+    0.0025
+  );
+  assert.deepEqual(outgoing, []);
+});
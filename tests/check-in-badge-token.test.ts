@@ -0,0 +1,24 @@
+import { strict as assert } from "node:assert";
+import test from "node:test";
+import { createBadgeToken, isCheckInDate, verifyBadgeToken } from "../lib/check-in/badge-token.ts";
+
+const SECRET = "test-secret";
+const PARTICIPANT_ID = "3f2a9c1e-1111-4a4a-9b9b-0123456789ab";
+
+test("badge tokens round-trip and reject tampering", () => {
+  const token = createBadgeToken(PARTICIPANT_ID.toUpperCase(), SECRET);
+  assert.match(token, /^gf1\.[0-9a-f-]{36}\.[A-Za-z0-9_-]{22}$/);
+  assert.equal(verifyBadgeToken(` ${token}\n`, SECRET), PARTICIPANT_ID);
+
+  const other = "3f2a9c1e-1111-4a4a-9b9b-0123456789ac";
+  assert.equal(verifyBadgeToken(token.replace(PARTICIPANT_ID, other), SECRET), null);
+  assert.equal(verifyBadgeToken(token, "other-secret"), null);
+  assert.equal(verifyBadgeToken(`${token}.extra`, SECRET), null);
+  assert.equal(verifyBadgeToken("not a badge", SECRET), null);
+});
+
+test("check-in dates must be real calendar days", () => {
+  assert.ok(isCheckInDate("2026-10-28"));
+  assert.ok(!isCheckInDate("2026-02-30"));
+  assert.ok(!isCheckInDate("28/10/2026"));
+});
@@ -0,0 +1,19 @@
+import { strict as assert } from "node:assert";
+import test from "node:test";
+import { toCsvText } from "../lib/csv/write.ts";
+
+test("cells are quoted when they contain the delimiter, quotes or newlines", () => {
+  assert.equal(
+    toCsvText([["Name", "Notes"], ["Rossi; Mario", 'Says "hi"\nlater']]),
+    '\ufeffName;Notes\r\n"Rossi; Mario";"Says ""hi""\nlater"\r\n'
+  );
+  assert.equal(toCsvText([["a,b", null]], ","), '\ufeff"a,b",\r\n');
+});
+
+test("text that looks like a formula is written as plain text", () => {
+  assert.equal(
+    toCsvText([["=HYPERLINK(\"http://x\")", "+39 333", "-1", "@SUM(A1)", "ok"]]),
+    "\ufeff\"'=HYPERLINK(\"\"http://x\"\")\";'+39 333;'-1;'@SUM(A1);ok\r\n"
+  );
+  assert.equal(toCsvText([[-12.5, 0, "x=1"]]), "\ufeff-12.5;0;x=1\r\n");
+});
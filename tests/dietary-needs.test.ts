@@ -0,0 +1,21 @@
+import { strict as assert } from "node:assert";
+import test from "node:test";
+import { dietaryNeeds } from "../lib/partecipante/constants.ts";
+
+test("registration options map to one need each", () => {
+  assert.deepEqual(dietaryNeeds("Vegetarian, I don't eat pork"), ["vegetarian", "no_pork"]);
+  assert.deepEqual(dietaryNeeds("Vegan, Vegan"), ["vegan"]);
+  assert.deepEqual(dietaryNeeds("Other"), ["other"]);
+});
+
+test("legacy Italian wording and free text are classified", () => {
+  assert.deepEqual(dietaryNeeds("vegetariano, Niente maiale"), ["vegetarian", "no_pork"]);
+  assert.deepEqual(dietaryNeeds("Other, no nuts"), ["other"]);
+  assert.deepEqual(dietaryNeeds("toString"), ["other"]);
+});
+
+test("empty answers declare no needs", () => {
+  assert.deepEqual(dietaryNeeds("None"), []);
+  assert.deepEqual(dietaryNeeds(" - "), []);
+  assert.deepEqual(dietaryNeeds(null), []);
+});
@@ -0,0 +1,124 @@
+import { strict as assert } from "node:assert";
+import test from "node:test";
+import {
+  isDueForScheduledRule,
+  parseAutomationRuleInput,
+  profileChanges,
+} from "../lib/email/automation-rules.ts";
+
+const CONFIRMED = {
+  registration_status: "confirmed",
+  data_arrivo: "2026-07-20",
+  quota_totale: 300,
+  fee_paid: 100,
+};
+
+test("rule input requires the parameters of its trigger", () => {
+  assert.deepEqual(
+    parseAutomationRuleInput({
+      name: " Reminder ",
+      trigger: "days_before_arrival",
+      templateId: "tpl-1",
+      daysBefore: "14",
+    }),
+    {
+      values: {
+        name: "Reminder",
+        trigger: "days_before_arrival",
+        template_id: "tpl-1",
+        recipient_type: "participants",
+        days_before: 14,
+        due_date: null,
+        enabled: true,
+      },
+    }
+  );
+
+  assert.ok("error" in parseAutomationRuleInput({ name: "x", trigger: "unknown", templateId: "t" }));
+  assert.ok(
+    "error" in
+      parseAutomationRuleInput({ name: "x", trigger: "days_before_arrival", templateId: "t" })
+  );
+  assert.ok(
+    "error" in
+      parseAutomationRuleInput({
+        name: "x",
+        trigger: "balance_unpaid",
+        templateId: "t",
+        dueDate: "30/06/2026",
+      })
+  );
+  assert.ok(
+    "error" in
+      parseAutomationRuleInput({ name: "x", trigger: "waitlist_promoted", templateId: "t" })
+  );
+  assert.ok(
+    "values" in
+      parseAutomationRuleInput({
+        name: "x",
+        trigger: "waitlist_promoted",
+        templateId: "t",
+        recipientType: "group_leaders",
+      })
+  );
+
+  const event = parseAutomationRuleInput({
+    name: "Welcome",
+    trigger: "registration_created",
+    templateId: "t",
+    recipientType: "group_leaders",
+    daysBefore: 3,
+    enabled: false,
+  });
+  assert.ok("values" in event);
+  assert.equal(event.values.days_before, null);
+  assert.equal(event.values.recipient_type, "group_leaders");
+  assert.equal(event.values.enabled, false);
+});
+
+test("arrival reminders are due from N days before up to the arrival day", () => {
+  const rule = { trigger: "days_before_arrival" as const, days_before: 7, due_date: null };
+
+  assert.equal(isDueForScheduledRule(rule, CONFIRMED, "2026-07-12"), false);
+  assert.equal(isDueForScheduledRule(rule, CONFIRMED, "2026-07-13"), true);
+  assert.equal(isDueForScheduledRule(rule, CONFIRMED, "2026-07-20"), true);
+  assert.equal(isDueForScheduledRule(rule, CONFIRMED, "2026-07-21"), false);
+  assert.equal(
+    isDueForScheduledRule(rule, { ...CONFIRMED, registration_status: "waitlisted" }, "2026-07-15"),
+    false
+  );
+  assert.equal(isDueForScheduledRule(rule, { ...CONFIRMED, data_arrivo: null }, "2026-07-15"), false);
+});
+
+test("balance reminders are due after the deadline while money is owed", () => {
+  const rule = { trigger: "balance_unpaid" as const, days_before: null, due_date: "2026-06-30" };
+
+  assert.equal(isDueForScheduledRule(rule, CONFIRMED, "2026-06-30"), false);
+  assert.equal(isDueForScheduledRule(rule, CONFIRMED, "2026-07-01"), true);
+  assert.equal(isDueForScheduledRule(rule, { ...CONFIRMED, fee_paid: 300 }, "2026-07-01"), false);
+  assert.equal(
+    isDueForScheduledRule(rule, { ...CONFIRMED, quota_totale: null }, "2026-07-01"),
+    false
+  );
+});
+
+test("profile changes compare the saved values with the stored row", () => {
+  const stored = {
+    nome: "Anna",
+    allergie: null,
+    disabilita_accessibilita: null,
+    data_arrivo: "2026-07-20",
+    email: "anna@example.com",
+  };
+
+  assert.deepEqual(
+    profileChanges(stored, { nome: " Anna ", allergie: "", disabilita_accessibilita: false }),
+    {}
+  );
+  assert.deepEqual(profileChanges(stored, { nome: "Anna", data_arrivo: "2026-07-21" }), {
+    data_arrivo: { from: "2026-07-20", to: "2026-07-21" },
+  });
+  assert.deepEqual(profileChanges(stored, { allergie: "Nuts", eta: 30 }), {
+    allergie: { from: null, to: "Nuts" },
+  });
+});
@@ -0,0 +1,112 @@
+import { strict as assert } from "node:assert";
+import test from "node:test";
+import {
+  GENERATED_ATTACHMENT_KINDS,
+  defaultGeneratedAttachment,
+  generatedAttachmentFilename,
+  parseGeneratedAttachments,
+} from "../lib/email/generated-attachments.ts";
+import {
+  PARTICIPANT_TEMPLATE_SCHEMA,
+  buildParticipantTemplateScope,
+  type ParticipantTemplateData,
+} from "../lib/email/participant-template-data.ts";
+import { renderTemplate, validateTemplate } from "../lib/email/template-engine.ts";
+
+const PARTICIPANT: ParticipantTemplateData = {
+  id: "p-1",
+  nome: "Olena",
+  cognome: "Kovalenko",
+  email: "olena@example.org",
+  telefono: null,
+  paese_residenza: "Poland",
+  nazione: "Ukraine",
+  data_nascita: "2004-03-09",
+  data_arrivo: "2026-07-20",
+  data_partenza: "2026-07-27",
+  alloggio: "Hotel",
+  allergie: null,
+  esigenze_alimentari: [],
+  disabilita_accessibilita: false,
+  difficolta_accessibilita: [],
+  quota_totale: 320,
+  group: "Kyiv",
+  passport_number: "FA123456",
+  passport_expiry: "2031-05-31",
+  consulate: "Consulate General of Italy in Krakow",
+  locale: "en-GB",
+};
+
+function renderKind(kind: (typeof GENERATED_ATTACHMENT_KINDS)[number], participant = PARTICIPANT) {
+  const attachment = defaultGeneratedAttachment(kind);
+  const scope = buildParticipantTemplateScope(participant);
+  const render = (template: string) =>
+    renderTemplate(template, scope, { html: false, locale: participant.locale });
+  return {
+    filename: generatedAttachmentFilename(render(attachment.filename), kind),
+    title: render(attachment.title),
+    body: render(attachment.body),
+  };
+}
+
+test("generated attachments are parsed with defaults and letter text is required", () => {
+  const parsed = parseGeneratedAttachments([
+    { kind: "fee_statement", filename: "  ", title: "ignored", body: "ignored" },
+    { ...defaultGeneratedAttachment("confirmation_letter"), title: " Welcome " },
+  ]);
+
+  assert.equal(parsed.error, null);
+  assert.deepEqual(parsed.attachments[0], {
+    kind: "fee_statement",
+    filename: "fee-statement-{{cognome}}-{{nome}}.pdf",
+    title: "",
+    body: "",
+  });
+  assert.equal(parsed.attachments[1].title, "Welcome");
+
+  assert.match(
+    parseGeneratedAttachments([{ kind: "visa_invitation_letter", body: " " }]).error ?? "",
+    /letter text is required/
+  );
+  assert.match(parseGeneratedAttachments([{ kind: "passport" }]).error ?? "", /Unknown/);
+  assert.deepEqual(parseGeneratedAttachments(undefined), { attachments: [], error: null });
+});
+
+test("rendered filenames are made portable and always end in .pdf", () => {
+  assert.equal(
+    generatedAttachmentFilename("confirmation-Šarić-José María.pdf", "confirmation_letter"),
+    "confirmation-Saric-Jose-Maria.pdf"
+  );
+  assert.equal(generatedAttachmentFilename("../../etc/passwd", "fee_statement"), "etc-passwd.pdf");
+  assert.equal(generatedAttachmentFilename(" -- ", "fee_statement"), "fee-statement.pdf");
+});
+
+test("every default attachment renders from participant data", () => {
+  for (const kind of GENERATED_ATTACHMENT_KINDS) {
+    const attachment = defaultGeneratedAttachment(kind);
+    for (const template of [attachment.filename, attachment.title, attachment.body]) {
+      assert.deepEqual(validateTemplate(template, PARTICIPANT_TEMPLATE_SCHEMA, { html: false }), []);
+    }
+    const rendered = renderKind(kind);
+    assert.match(rendered.filename, /Kovalenko-Olena\.pdf$/);
+    assert.doesNotMatch(rendered.body, /\{\{|\}\}/);
+  }
+
+  const confirmation = renderKind("confirmation_letter");
+  assert.match(confirmation.body, /Dear Olena Kovalenko,/);
+  assert.match(confirmation.body, /with the group Kyiv/);
+
+  const visa = renderKind("visa_invitation_letter");
+  assert.match(visa.body, /^To the Consulate General of Italy in Krakow$/m);
+  assert.match(visa.body, /holder of passport no\. FA123456 valid until 31 May 2031/);
+  assert.match(visa.body, /from 20 July 2026 to 27 July 2026/);
+
+  const withoutRequest = renderKind("visa_invitation_letter", {
+    ...PARTICIPANT,
+    passport_number: null,
+    passport_expiry: null,
+    consulate: null,
+  });
+  assert.match(withoutRequest.body, /^To the Consulate \/ Embassy concerned$/m);
+  assert.doesNotMatch(withoutRequest.body, /passport/);
+});
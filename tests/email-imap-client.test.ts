@@ -0,0 +1,110 @@
+import { strict as assert } from "node:assert";
+import net from "node:net";
+import test from "node:test";
+import { connectImap } from "../lib/email/imap-client.ts";
+
+const MESSAGE = "Subject: Hello\r\nMessage-ID: <m1@example.com>\r\n\r\nBody with {3} braces\r\n";
+
+// Local stand-in for an IMAP server: answers the commands the poller sends with
+// canned responses and records what it received.
+function startServer(received: string[]): Promise<net.Server> {
+  const server = net.createServer((socket) => {
+    socket.write("* OK IMAP4rev1 ready\r\n");
+    let pending = "";
+    socket.on("data", (chunk) => {
+      pending += chunk.toString("utf8");
+      let lineEnd = pending.indexOf("\r\n");
+      while (lineEnd !== -1) {
+        const line = pending.slice(0, lineEnd);
+        pending = pending.slice(lineEnd + 2);
+        received.push(line);
+        const [tag, ...rest] = line.split(" ");
+        const command = rest.join(" ");
+        if (command.startsWith("LOGIN")) {
+          const ok = command === 'LOGIN "user@example.com" "p\\"ss"';
+          socket.write(ok ? `${tag} OK LOGIN completed\r\n` : `${tag} NO Invalid credentials\r\n`);
+        } else if (command.startsWith("SELECT")) {
+          socket.write(
+            "* 3 EXISTS\r\n* OK [UIDVALIDITY 777] UIDs valid\r\n" +
+              `${tag} OK [READ-WRITE] SELECT completed\r\n`
+          );
+        } else if (command.startsWith("UID SEARCH")) {
+          socket.write(`* SEARCH 12 5 9\r\n${tag} OK SEARCH completed\r\n`);
+        } else if (command.startsWith("UID FETCH 9")) {
+          const length = Buffer.byteLength(MESSAGE);
+          socket.write(
+            `* 2 FETCH (UID 9 BODY[] {${length}}\r\n${MESSAGE})\r\n${tag} OK FETCH completed\r\n`
+          );
+        } else if (command.startsWith("UID FETCH")) {
+          socket.write(`${tag} OK FETCH completed\r\n`);
+        } else if (command === "LOGOUT") {
+          socket.end(`* BYE\r\n${tag} OK LOGOUT completed\r\n`);
+        } else {
+          socket.write(`${tag} BAD Unknown command\r\n`);
+        }
+        lineEnd = pending.indexOf("\r\n");
+      }
+    });
+  });
+  return new Promise((resolve) => server.listen(0, "127.0.0.1", () => resolve(server)));
+}
+
+function portOf(server: net.Server): number {
+  const address = server.address();
+  return typeof address === "object" && address ? address.port : 0;
+}
+
+test("the client logs in, selects, searches and fetches whole messages", async () => {
+  const received: string[] = [];
+  const server = await startServer(received);
+  try {
+    const session = await connectImap({
+      host: "127.0.0.1",
+      port: portOf(server),
+      secure: false,
+      user: "user@example.com",
+      password: 'p"ss',
+      timeoutMs: 5000,
+    });
+
+    assert.deepEqual(await session.select("INBOX"), { uidValidity: 777, exists: 3 });
+    assert.deepEqual(await session.searchUids("UID 5:*"), [5, 9, 12]);
+    const message = await session.fetchMessage(9);
+    assert.equal(message?.toString("utf8"), MESSAGE);
+    assert.equal(await session.fetchMessage(10), null);
+    await session.logout();
+
+    assert.deepEqual(
+      received.map((line) => line.split(" ").slice(1).join(" ")),
+      [
+        'LOGIN "user@example.com" "p\\"ss"',
+        'SELECT "INBOX"',
+        "UID SEARCH UID 5:*",
+        "UID FETCH 9 (UID BODY.PEEK[])",
+        "UID FETCH 10 (UID BODY.PEEK[])",
+        "LOGOUT",
+      ]
+    );
+  } finally {
+    server.close();
+  }
+});
+
+test("rejected credentials fail the connection", async () => {
+  const server = await startServer([]);
+  try {
+    await assert.rejects(
+      connectImap({
+        host: "127.0.0.1",
+        port: portOf(server),
+        secure: false,
+        user: "user@example.com",
+        password: "wrong",
+        timeoutMs: 5000,
+      }),
+      /IMAP command failed: NO Invalid credentials/
+    );
+  } finally {
+    server.close();
+  }
+});
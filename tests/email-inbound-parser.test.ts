@@ -0,0 +1,96 @@
+import { strict as assert } from "node:assert";
+import test from "node:test";
+import { parseInboundMessage } from "../lib/email/inbound-parser.ts";
+
+const ORIGINAL_ID = "<3f2a.lx1@globalfriendship.eu>";
+
+const DSN = [
+  "From: Mail Delivery Subsystem <mailer-daemon@googlemail.com>",
+  "To: europeanyouthmeeting@gmail.com",
+  "Subject: Delivery Status Notification (Failure)",
+  "Date: Mon, 14 Sep 2026 10:00:00 +0000",
+  "Message-ID: <dsn-1@mx.google.com>",
+  'Content-Type: multipart/report; report-type=delivery-status; boundary="b1"',
+  "",
+  "--b1",
+  "Content-Type: text/plain; charset=UTF-8",
+  "",
+  "Address not found: anna@example.invalid",
+  "",
+  "--b1",
+  "Content-Type: message/delivery-status",
+  "",
+  "Reporting-MTA: dns; googlemail.com",
+  "",
+  "Final-Recipient: rfc822; anna@example.invalid",
+  "Action: failed",
+  "Status: 5.1.1",
+  "Diagnostic-Code: smtp; 550 5.1.1 The email account does not exist",
+  "",
+  "--b1",
+  "Content-Type: text/rfc822-headers",
+  "",
+  "From: europeanyouthmeeting@gmail.com",
+  "To: anna@example.invalid",
+  `Message-ID: ${ORIGINAL_ID}`,
+  "Subject: Welcome",
+  "",
+  "--b1--",
+  "",
+].join("\r\n");
+
+test("delivery status notifications are parsed as hard bounces of the original email", () => {
+  const parsed = parseInboundMessage(DSN);
+
+  assert.deepEqual(parsed.relatedMessageIds, [ORIGINAL_ID]);
+  assert.deepEqual(parsed.classification, {
+    kind: "bounce",
+    recipient: "anna@example.invalid",
+    action: "failed",
+    status: "5.1.1",
+    diagnostic: "550 5.1.1 The email account does not exist",
+    hard: true,
+  });
+  assert.equal(parsed.text, "Address not found: anna@example.invalid");
+});
+
+test("delayed deliveries are recorded but not treated as hard bounces", () => {
+  const delayed = DSN.replace("Action: failed", "Action: delayed").replace(
+    "Status: 5.1.1",
+    "Status: 4.4.7"
+  );
+  const parsed = parseInboundMessage(delayed);
+
+  assert.equal(parsed.classification.kind, "bounce");
+  assert.equal(parsed.classification.kind === "bounce" && parsed.classification.hard, false);
+});
+
+test("replies are linked through In-Reply-To and decode their text", () => {
+  const reply = [
+    "From: =?UTF-8?Q?Jos=C3=A9_Garc=C3=ADa?= <Jose@Example.com>",
+    "Subject: =?UTF-8?B?UmU6IEJlbnZlbnV0bw==?=",
+    `In-Reply-To: ${ORIGINAL_ID}`,
+    `References: <older@globalfriendship.eu> ${ORIGINAL_ID}`,
+    "Content-Type: text/plain; charset=UTF-8",
+    "Content-Transfer-Encoding: quoted-printable",
+    "",
+    "Grazie, arriver=C3=B2 venerd=C3=AC.",
+    "",
+  ].join("\r\n");
+  const parsed = parseInboundMessage(Buffer.from(reply, "utf8"));
+
+  assert.equal(parsed.from, "jose@example.com");
+  assert.equal(parsed.subject, "Re: Benvenuto");
+  assert.equal(parsed.text, "Grazie, arriverò venerdì.");
+  assert.deepEqual(parsed.relatedMessageIds, [ORIGINAL_ID, "<older@globalfriendship.eu>"]);
+  assert.deepEqual(parsed.classification, { kind: "reply", automatic: false });
+
+  const autoReply = parseInboundMessage(`Auto-Submitted: auto-replied\r\n${reply}`);
+  assert.deepEqual(autoReply.classification, { kind: "reply", automatic: true });
+});
+
+test("messages unrelated to our emails are ignored", () => {
+  const parsed = parseInboundMessage("From: someone@example.com\r\nSubject: Hi\r\n\r\nHello\r\n");
+  assert.deepEqual(parsed.classification, { kind: "other" });
+  assert.deepEqual(parsed.relatedMessageIds, []);
+});
@@ -0,0 +1,53 @@
+import { strict as assert } from "node:assert";
+import test from "node:test";
+import {
+  appendPreferenceFooter,
+  createPreferenceToken,
+  listUnsubscribeHeaders,
+  preferenceLinks,
+  verifyPreferenceToken,
+} from "../lib/email/preference-token.ts";
+
+const SECRET = "test-secret";
+
+test("preference tokens round-trip the normalized address", () => {
+  const token = createPreferenceToken(" Anna.Rossi@Example.com ", SECRET);
+  assert.equal(verifyPreferenceToken(token, SECRET), "anna.rossi@example.com");
+});
+
+test("tampered or foreign tokens are rejected", () => {
+  const token = createPreferenceToken("anna@example.com", SECRET);
+  const [, signature] = token.split(".");
+  const forged = `${Buffer.from("marco@example.com").toString("base64url")}.${signature}`;
+
+  assert.equal(verifyPreferenceToken(forged, SECRET), null);
+  assert.equal(verifyPreferenceToken(token, "another-secret"), null);
+  assert.equal(verifyPreferenceToken("not-a-token", SECRET), null);
+  assert.equal(verifyPreferenceToken(`${token}.extra`, SECRET), null);
+});
+
+test("the footer link is appended to both the html and text parts", () => {
+  const result = appendPreferenceFooter(
+    { html: "<p>Hello</p>", text: "Hello" },
+    { url: "https://example.com/email-preferences?token=a&b", label: "Unsubscribe <here>" }
+  );
+
+  assert.match(
+    result.html,
+    /<a href="https:\/\/example\.com\/email-preferences\?token=a&amp;b">Unsubscribe &lt;here&gt;<\/a>/
+  );
+  assert.equal(
+    result.text,
+    "Hello\n\n--\nUnsubscribe <here>: https://example.com/email-preferences?token=a&b"
+  );
+});
+
+test("one-click unsubscribe targets the API route, the footer the page", () => {
+  const links = preferenceLinks("https://portal.example.com", "abc.def");
+
+  assert.equal(links.page, "https://portal.example.com/email-preferences?token=abc.def");
+  assert.deepEqual(listUnsubscribeHeaders(links.oneClick), {
+    "List-Unsubscribe": "<https://portal.example.com/api/email-preferences?token=abc.def>",
+    "List-Unsubscribe-Post": "List-Unsubscribe=One-Click",
+  });
+});
@@ -0,0 +1,67 @@
+import { strict as assert } from "node:assert";
+import test from "node:test";
+import {
+  MAX_SEND_ATTEMPTS,
+  countDeliveries,
+  isBouncedAddress,
+  isJobFinished,
+  isPermanentSendError,
+  outcomeAfterFailure,
+  retryDelayMs,
+} from "../lib/email/send-queue-policy.ts";
+
+const NOW = new Date("2026-07-01T10:00:00.000Z");
+
+test("retryDelayMs doubles from one minute and caps at one hour", () => {
+  assert.equal(retryDelayMs(1), 60 * 1000);
+  assert.equal(retryDelayMs(2), 2 * 60 * 1000);
+  assert.equal(retryDelayMs(4), 8 * 60 * 1000);
+  assert.equal(retryDelayMs(20), 60 * 60 * 1000);
+});
+
+test("outcomeAfterFailure schedules a retry until attempts run out", () => {
+  assert.deepEqual(outcomeAfterFailure(1, new Error("timeout"), NOW), {
+    status: "pending",
+    next_attempt_at: "2026-07-01T10:01:00.000Z",
+  });
+  assert.deepEqual(outcomeAfterFailure(MAX_SEND_ATTEMPTS, new Error("timeout"), NOW), {
+    status: "failed",
+    next_attempt_at: null,
+  });
+});
+
+test("SMTP 5xx rejections fail without retrying", () => {
+  const rejected = Object.assign(new Error("550 mailbox unavailable"), { responseCode: 550 });
+  const throttled = Object.assign(new Error("421 try again later"), { responseCode: 421 });
+
+  assert.equal(isPermanentSendError(rejected), true);
+  assert.equal(isPermanentSendError(throttled), false);
+  assert.equal(outcomeAfterFailure(1, rejected, NOW).status, "failed");
+  assert.equal(outcomeAfterFailure(1, throttled, NOW).status, "pending");
+});
+
+test("HTTP API 4xx responses fail except timeouts and rate limits", () => {
+  const invalid = Object.assign(new Error("422"), { httpStatus: 422 });
+  const rateLimited = Object.assign(new Error("429"), { httpStatus: 429 });
+  const outage = Object.assign(new Error("503"), { httpStatus: 503 });
+
+  assert.equal(isPermanentSendError(invalid), true);
+  assert.equal(isPermanentSendError(rateLimited), false);
+  assert.equal(isPermanentSendError(outage), false);
+});
+
+test("a job is finished once nothing is pending or sending", () => {
+  const running = countDeliveries(["sent", "pending", "failed", "unknown"]);
+  assert.equal(running.sent, 1);
+  assert.equal(running.pending, 1);
+  assert.equal(isJobFinished(running), false);
+
+  assert.equal(isJobFinished(countDeliveries(["sent", "failed", "skipped", "cancelled"])), true);
+});
+
+test("only the address that bounced is skipped, not a corrected one", () => {
+  assert.equal(isBouncedAddress(" Anna@Example.com ", "anna@example.com"), true);
+  assert.equal(isBouncedAddress("anna.rossi@example.com", "anna@example.com"), false);
+  assert.equal(isBouncedAddress("anna@example.com", null), false);
+  assert.equal(isBouncedAddress("", ""), false);
+});
@@ -0,0 +1,103 @@
+import { strict as assert } from "node:assert";
+import test from "node:test";
+import { renderTemplate, validateTemplate } from "../lib/email/template-engine.ts";
+
+const SCHEMA = {
+  fields: ["nome", "is_minorenne", "alloggio", "data_arrivo", "quota_totale", "allergie"],
+  lists: { members: ["nome", "data_arrivo"] },
+};
+
+test("conditional blocks follow booleans, equality checks and else branches", () => {
+  const template =
+    "{{#if is_minorenne}}Bring the parental consent.{{else}}No consent needed.{{/if}}" +
+    '{{#if alloggio == "hotel"}} Hotel{{/if}}{{#unless alloggio != "Hotel"}} again{{/unless}}';
+
+  assert.equal(
+    renderTemplate(template, { is_minorenne: true, alloggio: "Hotel" }, { html: false }),
+    "Bring the parental consent. Hotel again"
+  );
+  assert.equal(
+    renderTemplate(template, { is_minorenne: false, alloggio: "Tent" }, { html: false }),
+    "No consent needed."
+  );
+});
+
+test("formatters use the recipient locale and fall back to en-GB", () => {
+  const template = "{{data_arrivo | date}} / {{quota_totale | currency:EUR}}";
+
+  assert.equal(
+    renderTemplate(template, { data_arrivo: "2026-07-03", quota_totale: 250 }, { html: false }),
+    "3 July 2026 / €250.00"
+  );
+  // Intl puts a no-break space before the euro sign in Italian.
+  assert.match(
+    renderTemplate(
+      template,
+      { data_arrivo: "2026-07-03", quota_totale: 250 },
+      { html: false, locale: "it" }
+    ),
+    /^3 luglio 2026 \/ 250,00\s€$/
+  );
+  assert.equal(
+    renderTemplate('{{allergie | default:"none"}} {{nome | upper}}', { nome: "Anna" }, {
+      html: false,
+      locale: "not a locale",
+    }),
+    "none ANNA"
+  );
+});
+
+test("each loops expose item fields, outer fields and the position", () => {
+  const template =
+    "<table>{{#each members}}<tr><td>{{@number}}</td><td>{{nome}}</td><td>{{alloggio}}</td></tr>" +
+    "{{else}}<tr><td>No members yet</td></tr>{{/each}}</table>";
+
+  assert.equal(
+    renderTemplate(
+      template,
+      { alloggio: "Hotel", members: [{ nome: "Anna <3" }, { nome: "Luca" }] },
+      { html: true }
+    ),
+    "<table><tr><td>1</td><td>Anna &lt;3</td><td>Hotel</td></tr>" +
+      "<tr><td>2</td><td>Luca</td><td>Hotel</td></tr></table>"
+  );
+  assert.equal(
+    renderTemplate(template, { members: [] }, { html: true }),
+    "<table><tr><td>No members yet</td></tr></table>"
+  );
+});
+
+test("block tags alone in an editor paragraph do not leave empty paragraphs", () => {
+  const template =
+    "<p>{{#if alloggio == &quot;Hotel&quot;}}</p><p>Check-in from 14:00</p><p>{{/if}}</p>";
+
+  assert.equal(
+    renderTemplate(template, { alloggio: "Hotel" }, { html: true }),
+    "<p>Check-in from 14:00</p>"
+  );
+});
+
+test("validateTemplate reports unknown fields, formatters and unbalanced blocks", () => {
+  assert.deepEqual(
+    validateTemplate("{{nome}} {{#each members}}{{nome}} {{@index}}{{/each}}", SCHEMA, {
+      html: false,
+    }),
+    []
+  );
+
+  const messages = validateTemplate(
+    "{{nmoe}} {{nome | shout}} {{#each nome}}{{/each}} {{#if alloggio}}{{/each}} {{#unless x}}",
+    SCHEMA,
+    { html: false }
+  ).map((issue) => issue.message);
+
+  assert.deepEqual(messages, [
+    '"{{/each}}" closes "{{#if alloggio}}"; expected {{/if}}',
+    '"{{#if alloggio}}" is never closed with {{/if}}',
+    '"{{#unless x}}" is never closed with {{/unless}}',
+    'Unknown field "{{nmoe}}"',
+    'Unknown formatter "shout" in "{{nome | shout}}"',
+    '"nome" in "{{#each nome}}" is not a list',
+    'Unknown field "x" in "{{#unless x}}"',
+  ]);
+});
@@ -0,0 +1,89 @@
+import { strict as assert } from "node:assert";
+import test from "node:test";
+import {
+  parseTemplateVariants,
+  pickTemplateVariant,
+  recipientLocale,
+} from "../lib/email/template-variants.ts";
+import { savePreferredLocale } from "../lib/i18n/preferred-locale-store.ts";
+import { fakeSupabase } from "./fake-supabase.ts";
+
+const template = {
+  subject: "Welcome",
+  html: "<p>Welcome</p>",
+  variants: parseTemplateVariants({
+    it: { subject: "Benvenuto", html: "<p>Benvenuto</p>" },
+    fr: { subject: "", html: "<p>Bienvenue</p>" },
+    de: { subject: "Willkommen", html: "   " },
+    en: { subject: "Hi", html: "<p>Hi</p>" },
+    xx: { subject: "?", html: "<p>?</p>" },
+  }),
+};
+
+test("only translations with a body in a supported language are kept", () => {
+  assert.deepEqual(Object.keys(template.variants).sort(), ["fr", "it"]);
+  assert.deepEqual(parseTemplateVariants(null), {});
+  assert.deepEqual(parseTemplateVariants(["it"]), {});
+});
+
+test("recipients get their language, or the default version without a translation", () => {
+  assert.deepEqual(pickTemplateVariant(template, recipientLocale("it")), {
+    subject: "Benvenuto",
+    html: "<p>Benvenuto</p>",
+    locale: "it",
+  });
+  assert.deepEqual(pickTemplateVariant(template, recipientLocale("fr")), {
+    subject: "Welcome",
+    html: "<p>Bienvenue</p>",
+    locale: "fr",
+  });
+  assert.deepEqual(pickTemplateVariant(template, recipientLocale("de")), {
+    subject: "Welcome",
+    html: "<p>Welcome</p>",
+    locale: "en",
+  });
+});
+
+test("unknown or unset preferred languages fall back to the default", () => {
+  assert.equal(recipientLocale(" nl-BE "), "nl-BE");
+  assert.equal(recipientLocale("klingon"), "en");
+  assert.equal(recipientLocale(null), "en");
+});
+
+test("the picked language is saved on the profile and the user's registrations", async () => {
+  const { service, calls } = fakeSupabase();
+
+  await savePreferredLocale(service, { id: "u1", email: " Ana_Maria%@Example.org " }, "uk");
+
+  assert.deepEqual(calls, [
+    {
+      table: "profili",
+      op: "update",
+      payload: { preferred_locale: "uk" },
+      filters: [["eq", "id", "u1"]],
+    },
+    {
+      table: "partecipanti",
+      op: "update",
+      payload: { preferred_locale: "uk" },
+      filters: [["ilike", "email", "ana\\_maria\\%@example.org"]],
+    },
+  ]);
+});
+
+test("users without an email only update their profile", async () => {
+  const { service, calls } = fakeSupabase();
+
+  await savePreferredLocale(service, { id: "u1", email: null }, "it");
+  assert.deepEqual(
+    calls.map((call) => call.table),
+    ["profili"]
+  );
+});
+
+test("a failed profile update stops before touching registrations", async () => {
+  const { service, calls } = fakeSupabase({ "profili update": [{ error: { message: "denied" } }] });
+
+  await assert.rejects(savePreferredLocale(service, { id: "u1", email: "a@b.c" }, "it"), /denied/);
+  assert.equal(calls.length, 1);
+});
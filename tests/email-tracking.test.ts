@@ -0,0 +1,75 @@
+import { strict as assert } from "node:assert";
+import test from "node:test";
+import {
+  addEmailTracking,
+  assignAbVariants,
+  summarizeTracking,
+  trackingClickUrl,
+  trackingOpenUrl,
+  verifyTrackingEvent,
+} from "../lib/email/tracking.ts";
+
+const SECRET = "test-secret";
+const BASE = "https://portal.example.org";
+
+test("tracking links are signed for one recipient row and one destination", () => {
+  const destination = "https://example.org/a?b=1&c=2";
+  const click = new URL(trackingClickUrl(BASE, "row-1", destination, SECRET));
+  assert.equal(click.pathname, "/api/email-tracking/click");
+  assert.equal(click.searchParams.get("u"), destination);
+
+  const signed = click.searchParams.get("s") ?? "";
+  assert.ok(verifyTrackingEvent("click", "row-1", destination, signed, SECRET));
+  assert.ok(!verifyTrackingEvent("click", "row-1", "https://evil.example", signed, SECRET));
+  assert.ok(!verifyTrackingEvent("click", "row-2", destination, signed, SECRET));
+  assert.ok(!verifyTrackingEvent("open", "row-1", "", signed, SECRET));
+
+  const open = new URL(trackingOpenUrl(BASE, "row-1", SECRET));
+  assert.ok(verifyTrackingEvent("open", "row-1", "", open.searchParams.get("s") ?? "", SECRET));
+});
+
+test("campaign html gets tracked links and an open pixel", () => {
+  const html =
+    '<p><a href="https://example.org/?a=1&amp;b=2">Info</a> ' +
+    '<a href="mailto:info@example.org">Mail</a> <a href=\'#top\'>Top</a></p>';
+
+  const tracked = addEmailTracking(html, {
+    openUrl: "https://t.example/open?r=1&s=x",
+    clickUrl: (url) => `https://t.example/click?u=${encodeURIComponent(url)}`,
+  });
+
+  assert.match(
+    tracked,
+    /<a href="https:\/\/t\.example\/click\?u=https%3A%2F%2Fexample\.org%2F%3Fa%3D1%26b%3D2">Info<\/a>/
+  );
+  assert.match(tracked, /href="mailto:info@example\.org"/);
+  assert.match(tracked, /href='#top'/);
+  assert.match(tracked, /<img src="https:\/\/t\.example\/open\?r=1&amp;s=x" width="1"/);
+
+  assert.equal(addEmailTracking(html, { openUrl: null, clickUrl: null }), html);
+});
+
+test("a/b split is balanced and open rates count clicks as opens", () => {
+  const variants = assignAbVariants(["a", "b", "c", "d", "e"], () => 0.5);
+  const values = [...variants.values()];
+  assert.equal(values.filter((value) => value === "A").length, 3);
+  assert.equal(values.filter((value) => value === "B").length, 2);
+
+  const summary = summarizeTracking([
+    { status: "sent", ab_variant: "A", opened_at: "2026-01-01", clicked_at: null },
+    { status: "sent", ab_variant: "A", opened_at: null, clicked_at: "2026-01-01" },
+    { status: "sent", ab_variant: "B", opened_at: null, clicked_at: null },
+    { status: "failed", ab_variant: "B", opened_at: null, clicked_at: null },
+  ]);
+  assert.deepEqual(summary.total, { delivered: 3, opened: 2, clicked: 1 });
+  assert.deepEqual(summary.variants, {
+    A: { delivered: 2, opened: 2, clicked: 1 },
+    B: { delivered: 1, opened: 0, clicked: 0 },
+  });
+
+  assert.equal(
+    summarizeTracking([{ status: "sent", ab_variant: null, opened_at: null, clicked_at: null }])
+      .variants,
+    null
+  );
+});
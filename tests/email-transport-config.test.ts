@@ -0,0 +1,93 @@
+import { strict as assert } from "node:assert";
+import test from "node:test";
+import {
+  DEFAULT_HTTP_API_URL,
+  parseTransportSettingsInput,
+  resolveTransportConfig,
+} from "../lib/email/transport-config.ts";
+
+const GMAIL = { user: "team@example.org", appPassword: "abcdabcdabcdabcd" };
+
+test("resolveTransportConfig defaults to Gmail and reports a missing app password", () => {
+  assert.deepEqual(resolveTransportConfig(null, GMAIL), {
+    config: { kind: "gmail", user: GMAIL.user, appPassword: GMAIL.appPassword },
+    error: null,
+  });
+
+  const missing = resolveTransportConfig(null, { user: GMAIL.user, appPassword: "" });
+  assert.equal(missing.error, "Google App Password is not configured for email sending");
+});
+
+test("resolveTransportConfig builds SMTP and HTTP API transports from the stored row", () => {
+  const smtp = resolveTransportConfig(
+    {
+      transport: "smtp",
+      smtp_host: " mail.example.org ",
+      smtp_secure: false,
+      smtp_user: "u",
+      smtp_password: "p",
+    },
+    GMAIL
+  );
+  assert.deepEqual(smtp.config, {
+    kind: "smtp",
+    host: "mail.example.org",
+    port: 587,
+    secure: false,
+    user: "u",
+    password: "p",
+  });
+  assert.equal(smtp.error, null);
+
+  const api = resolveTransportConfig({ transport: "http_api", http_api_key: "key" }, GMAIL);
+  assert.deepEqual(api.config, { kind: "http_api", url: DEFAULT_HTTP_API_URL, apiKey: "key" });
+
+  assert.equal(
+    resolveTransportConfig({ transport: "http_api" }, GMAIL).error,
+    "HTTP API key is not configured for email sending"
+  );
+});
+
+test("the environment override wins over the stored transport", () => {
+  const resolved = resolveTransportConfig(
+    { transport: "smtp", smtp_host: "mail.example.org", capture_dir: "/tmp/mail" },
+    GMAIL,
+    "capture"
+  );
+  assert.deepEqual(resolved, { config: { kind: "capture", directory: "/tmp/mail" }, error: null });
+
+  assert.equal(resolveTransportConfig({ transport: "smtp" }, GMAIL, "bogus").config.kind, "smtp");
+});
+
+test("parseTransportSettingsInput keeps stored secrets when fields are left blank", () => {
+  const parsed = parseTransportSettingsInput(
+    {
+      transport: "smtp",
+      smtpHost: "mail.example.org",
+      smtpPort: "2525",
+      smtpUser: "u",
+      smtpPassword: "",
+    },
+    { smtp_password: "stored", http_api_key: "stored-key" }
+  );
+  assert.ok("values" in parsed);
+  assert.equal(parsed.values.smtp_port, 2525);
+  assert.equal(parsed.values.smtp_password, "stored");
+  assert.equal(parsed.values.http_api_key, "stored-key");
+});
+
+test("parseTransportSettingsInput rejects incomplete or invalid settings", () => {
+  assert.deepEqual(parseTransportSettingsInput({ transport: "fax" }, null), {
+    error: "Unsupported transport: fax",
+  });
+  assert.deepEqual(parseTransportSettingsInput({ transport: "smtp" }, null), {
+    error: "SMTP host is required",
+  });
+  assert.deepEqual(
+    parseTransportSettingsInput({ transport: "smtp", smtpHost: "h", smtpPort: "70000" }, null),
+    { error: "SMTP port must be a number between 1 and 65535" }
+  );
+  assert.deepEqual(parseTransportSettingsInput({ transport: "http_api" }, null), {
+    error: "HTTP API key is required",
+  });
+});
@@ -0,0 +1,52 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+
+export type FakeCall = {
+  table: string;
+  op: "select" | "insert" | "update" | "delete";
+  payload?: unknown;
+  // [method, column, value], e.g. ["eq", "id", "tx1"].
+  filters: Array<[string, string, unknown]>;
+};
+
+export type FakeResult = { data?: unknown; error?: { message: string; code?: string } | null };
+
+// A Supabase client that records every query and answers each one with the next result
+// queued under "<table> <op>", or with { data: null, error: null }.
+export function fakeSupabase(results: Record<string, FakeResult[]> = {}) {
+  const calls: FakeCall[] = [];
+  const client = {
+    from(table: string) {
+      const call: FakeCall = { table, op: "select", filters: [] };
+      const write = (op: FakeCall["op"]) => (payload?: unknown) => {
+        call.op = op;
+        if (payload !== undefined) call.payload = payload;
+        return builder;
+      };
+      const filter = (method: string) => (column: string, value: unknown) => {
+        call.filters.push([method, column, value]);
+        return builder;
+      };
+      const builder = {
+        insert: write("insert"),
+        update: write("update"),
+        delete: write("delete"),
+        select: () => builder,
+        eq: filter("eq"),
+        ilike: filter("ilike"),
+        in: filter("in"),
+        is: filter("is"),
+        order: () => builder,
+        limit: () => builder,
+        single: () => builder,
+        maybeSingle: () => builder,
+        then<T>(resolve: (value: FakeResult) => T) {
+          calls.push(call);
+          const next = results[`${table} ${call.op}`]?.shift() ?? {};
+          return Promise.resolve({ data: null, error: null, ...next }).then(resolve);
+        },
+      };
+      return builder;
+    },
+  };
+  return { service: client as unknown as SupabaseClient, calls };
+}
@@ -0,0 +1,128 @@
+import { strict as assert } from "node:assert";
+import test from "node:test";
+import {
+  calcFeeNights,
+  evaluateParticipationFee,
+  feeRuleInputFromParticipant,
+  type FeeRule,
+  type FeeRuleInput,
+} from "../lib/fees/rules.ts";
+
+function rule(id: string, priority: number, amount: number, overrides: Partial<FeeRule> = {}): FeeRule {
+  return {
+    id,
+    label: id,
+    priority,
+    amount,
+    min_nights: null,
+    max_nights: null,
+    alloggio_short: null,
+    tipo_iscrizione: null,
+    min_age: null,
+    max_age: null,
+    registered_until: null,
+    is_active: true,
+    ...overrides,
+  };
+}
+
+// Same rules the migration seeds, i.e. the amounts that used to be hardcoded.
+const DEFAULT_RULES = [
+  rule("autonomous", 10, 100, { alloggio_short: "Atonoumous" }),
+  rule("long", 20, 235, { min_nights: 4 }),
+  rule("short", 30, 200, { min_nights: 1, max_nights: 3 }),
+];
+
+function input(overrides: Partial<FeeRuleInput> = {}): FeeRuleInput {
+  return {
+    nights: 4,
+    alloggio_short: "Provided by organization",
+    tipo_iscrizione: null,
+    eta: 25,
+    registered_on: "2026-03-01",
+    ...overrides,
+  };
+}
+
+test("default rules reproduce the previous hardcoded fees", () => {
+  assert.equal(evaluateParticipationFee(DEFAULT_RULES, input()).amount, 235);
+  assert.equal(evaluateParticipationFee(DEFAULT_RULES, input({ nights: 2 })).amount, 200);
+  assert.equal(
+    evaluateParticipationFee(DEFAULT_RULES, input({ alloggio_short: "atonoumous", nights: null })).amount,
+    100
+  );
+  assert.equal(evaluateParticipationFee(DEFAULT_RULES, input({ nights: null })).amount, null);
+});
+
+test("every spelling of autonomous accommodation gets the autonomous fee", () => {
+  for (const alloggio of [
+    "Atonoumous",
+    "autonomous",
+    "I arranged my own accommodation / Ho trovato un alloggio autonomamente",
+    "Ho trovato un alloggio autonomamente",
+  ]) {
+    assert.equal(evaluateParticipationFee(DEFAULT_RULES, input({ alloggio_short: alloggio })).amount, 100);
+  }
+  assert.equal(
+    evaluateParticipationFee(
+      DEFAULT_RULES,
+      input({
+        alloggio_short:
+          "I'm staying at the accommodation provided by the organization / Alloggero presso la struttura fornita dall'organizzazione",
+      })
+    ).amount,
+    235
+  );
+});
+
+test("rules are evaluated by priority regardless of list order", () => {
+  const rules = [rule("generic", 50, 235), rule("minor", 5, 150, { max_age: 17 })];
+  const result = evaluateParticipationFee(rules, input({ eta: 16 }));
+  assert.equal(result.amount, 150);
+  assert.equal(result.rule?.id, "minor");
+  assert.equal(evaluateParticipationFee(rules, input({ eta: null })).rule?.id, "generic");
+});
+
+test("early-bird cutoff and enrollment type conditions", () => {
+  const rules = [
+    rule("early", 10, 210, { registered_until: "2026-04-30", min_nights: 4 }),
+    rule("operators", 20, 50, { tipo_iscrizione: "operator" }),
+    rule("base", 30, 235),
+  ];
+  assert.equal(evaluateParticipationFee(rules, input({ registered_on: "2026-04-30" })).amount, 210);
+  assert.equal(evaluateParticipationFee(rules, input({ registered_on: "2026-05-01" })).amount, 235);
+  assert.equal(
+    evaluateParticipationFee(
+      rules,
+      input({ registered_on: null, tipo_iscrizione: "Operator - Operatore" })
+    ).amount,
+    50
+  );
+});
+
+test("inactive rules are skipped", () => {
+  const rules = [rule("off", 1, 10, { is_active: false }), rule("on", 2, 20)];
+  assert.equal(evaluateParticipationFee(rules, input()).rule?.id, "on");
+});
+
+test("feeRuleInputFromParticipant derives nights and registration date", () => {
+  assert.equal(calcFeeNights("2026-08-28", "2026-08-28"), null);
+  assert.deepEqual(
+    feeRuleInputFromParticipant({
+      data_arrivo: "2026-08-27",
+      data_partenza: "2026-08-31",
+      alloggio_short: "Provided by organization",
+      tipo_iscrizione: null,
+      eta: 20,
+      submitted_at_tally: null,
+      created_at: "2026-02-03T10:00:00+00:00",
+    }),
+    {
+      nights: 4,
+      alloggio_short: "Provided by organization",
+      tipo_iscrizione: null,
+      eta: 20,
+      registered_on: "2026-02-03",
+    }
+  );
+});
@@ -0,0 +1,78 @@
+import { strict as assert } from "node:assert";
+import test from "node:test";
+import {
+  buildMealPlan,
+  dietCategory,
+  mealPlanCsvRows,
+  type MealPlanParticipant,
+  type MealSlot,
+} from "../lib/catering/meal-plan.ts";
+
+const participant = (overrides: Partial<MealPlanParticipant>): MealPlanParticipant => ({
+  id: "p1",
+  nome: "Anna",
+  cognome: "Rossi",
+  gruppo_label: "Roma",
+  data_arrivo: "2026-08-27",
+  data_partenza: "2026-08-31",
+  partecipa_intero_evento: true,
+  presenza_dettaglio: null,
+  diet: "standard",
+  allergie: null,
+  ...overrides,
+});
+
+// 2026-08-28 is a Friday.
+const slots: MealSlot[] = [
+  { id: "s3", service_date: "2026-08-29", meal: "lunch" },
+  { id: "s2", service_date: "2026-08-28", meal: "dinner" },
+  { id: "s1", service_date: "2026-08-28", meal: "breakfast" },
+];
+
+test("each cover gets the most restrictive diet", () => {
+  assert.equal(dietCategory(["vegetarian", "vegan"]), "vegan");
+  assert.equal(dietCategory(["no_pork", "vegetarian"]), "vegetarian");
+  assert.equal(dietCategory(["no_pork"]), "no_pork");
+  assert.equal(dietCategory(["other"]), "other");
+  assert.equal(dietCategory([]), "standard");
+});
+
+test("covers follow the stay and the presence detail", () => {
+  const plan = buildMealPlan(slots, [
+    participant({ id: "whole", diet: "vegan", allergie: "Peanuts" }),
+    participant({ id: "late", data_arrivo: "2026-08-29", diet: "vegetarian" }),
+    participant({
+      id: "friday",
+      partecipa_intero_evento: false,
+      presenza_dettaglio: { Friday: true, Saturday: "maybe" },
+    }),
+    participant({
+      id: "dinner-only",
+      partecipa_intero_evento: false,
+      presenza_dettaglio: { "Friday dinner": true, "Friday breakfast": false },
+    }),
+    participant({ id: "no-dates", data_arrivo: null, data_partenza: null, partecipa_intero_evento: false }),
+  ]);
+
+  assert.deepEqual(
+    plan.map((row) => [row.slot.id, row.covers, row.maybe]),
+    [
+      ["s1", 2, 0],
+      ["s2", 3, 0],
+      ["s3", 3, 1],
+    ]
+  );
+  assert.deepEqual(plan[2].diets, { standard: 1, vegetarian: 1, vegan: 1, no_pork: 0, other: 0 });
+  assert.deepEqual(
+    plan[0].allergies.map((entry) => [entry.name, entry.diet, entry.allergy]),
+    [["Anna Rossi", "vegan", "Peanuts"]]
+  );
+});
+
+test("csv export has one line per slot", () => {
+  const rows = mealPlanCsvRows(
+    buildMealPlan([slots[2]], [participant({ allergie: "Gluten", diet: "other" })])
+  );
+  assert.equal(rows.length, 2);
+  assert.deepEqual(rows[1], ["2026-08-28", "Breakfast", 1, 0, 0, 0, 0, 0, 1, "Anna Rossi: Gluten"]);
+});
@@ -0,0 +1,118 @@
+import { strict as assert } from "node:assert";
+import test from "node:test";
+import {
+  deleteParticipantPayment,
+  recordParticipantPayments,
+  type RecordParticipantPaymentsInput,
+} from "../lib/fees/payments.ts";
+import { fakeSupabase } from "./fake-supabase.ts";
+
+const input = (overrides: Partial<RecordParticipantPaymentsInput>): RecordParticipantPaymentsInput => ({
+  entries: [
+    { participant_id: "p1", amount: 120.1 },
+    { participant_id: "p2", amount: 79.9 },
+  ],
+  entryType: "payment",
+  currency: "EUR",
+  paymentMethod: "bank transfer",
+  paymentDate: "2026-06-01",
+  payerName: "Group leader",
+  payerParticipantId: null,
+  reference: "INV-1",
+  notes: null,
+  finance: { description: "Participation fee payment - 2 participants", party: "Group leader" },
+  ...overrides,
+});
+
+test("one finance transaction carries the total and is linked to every entry", async () => {
+  const { service, calls } = fakeSupabase({
+    "event_finance_transactions insert": [{ data: { id: "tx1" } }],
+  });
+
+  await recordParticipantPayments(service, "manager", input({}));
+
+  const [finance, ledger] = calls;
+  assert.equal(finance.table, "event_finance_transactions");
+  assert.equal((finance.payload as Record<string, unknown>).amount_original, 200);
+  assert.equal((finance.payload as Record<string, unknown>).transaction_type, "INCOME");
+  assert.equal(ledger.table, "participant_payments");
+  assert.deepEqual(
+    (ledger.payload as Array<Record<string, unknown>>).map((row) => [
+      row.participant_id,
+      row.amount,
+      row.event_finance_transaction_id,
+    ]),
+    [
+      ["p1", 120.1, "tx1"],
+      ["p2", 79.9, "tx1"],
+    ]
+  );
+});
+
+test("fee_paid is never written: the ledger triggers derive it", async () => {
+  const { service, calls } = fakeSupabase({});
+
+  await recordParticipantPayments(service, "manager", input({ entryType: "refund", finance: null }));
+
+  assert.deepEqual(
+    calls.map((call) => `${call.table} ${call.op}`),
+    ["participant_payments insert"]
+  );
+  assert.equal((calls[0].payload as Array<Record<string, unknown>>)[0].entry_type, "refund");
+  assert.ok(calls.every((call) => call.table !== "partecipanti"));
+});
+
+test("a failed ledger insert removes the finance transaction it posted", async () => {
+  const { service, calls } = fakeSupabase({
+    "event_finance_transactions insert": [{ data: { id: "tx1" } }],
+    "participant_payments insert": [{ error: { message: "violates check constraint" } }],
+  });
+
+  await assert.rejects(
+    recordParticipantPayments(service, "manager", input({})),
+    /violates check constraint/
+  );
+  assert.deepEqual(calls.at(-1), {
+    table: "event_finance_transactions",
+    op: "delete",
+    filters: [["eq", "id", "tx1"]],
+  });
+});
+
+test("deleting an entry shrinks the linked finance transaction to what is left", async () => {
+  const { service, calls } = fakeSupabase({
+    "participant_payments delete": [
+      { data: { participant_id: "p1", event_finance_transaction_id: "tx1" } },
+    ],
+    "participant_payments select": [{ data: [{ amount: "79.90" }] }],
+  });
+
+  assert.deepEqual(await deleteParticipantPayment(service, "manager", "pay1"), {
+    participant_id: "p1",
+  });
+  assert.deepEqual(calls.at(-1), {
+    table: "event_finance_transactions",
+    op: "update",
+    payload: { amount_original: 79.9, updated_by: "manager" },
+    filters: [["eq", "id", "tx1"]],
+  });
+});
+
+test("deleting the last linked entry deletes the finance transaction", async () => {
+  const { service, calls } = fakeSupabase({
+    "participant_payments delete": [
+      { data: { participant_id: "p1", event_finance_transaction_id: "tx1" } },
+    ],
+    "participant_payments select": [{ data: [] }],
+  });
+
+  await deleteParticipantPayment(service, "manager", "pay1");
+  assert.equal(`${calls.at(-1)?.table} ${calls.at(-1)?.op}`, "event_finance_transactions delete");
+});
+
+test("deleting an unknown entry touches nothing else", async () => {
+  const { service, calls } = fakeSupabase({});
+
+  assert.equal(await deleteParticipantPayment(service, "manager", "missing"), null);
+  assert.equal(calls.length, 1);
+});
@@ -0,0 +1,64 @@
+import { strict as assert } from "node:assert";
+import test from "node:test";
+import { measureText, renderPdf, toWinAnsiCodes, wrapText } from "../lib/pdf/document.ts";
+
+function asText(bytes: Uint8Array): string {
+  return Array.from(bytes, (byte) => String.fromCharCode(byte)).join("");
+}
+
+test("measures text with the Helvetica metrics", () => {
+  assert.equal(measureText("Hello", 10), 22.78);
+  assert.equal(measureText("Hello", 10, "bold"), 24.45);
+  assert.equal(measureText("É", 10), measureText("E", 10));
+});
+
+test("wraps text on word boundaries within the width", () => {
+  const lines = wrapText("Participation fee for the whole group of Roma", 100, 10);
+
+  assert.ok(lines.length > 1);
+  for (const line of lines) {
+    assert.ok(measureText(line, 10) <= 100 || !line.includes(" "));
+  }
+  assert.equal(lines.join(" "), "Participation fee for the whole group of Roma");
+  assert.deepEqual(wrapText("first\n\nsecond", 200, 10), ["first", "", "second"]);
+});
+
+test("encodes text as WinAnsi and falls back for unsupported characters", () => {
+  assert.deepEqual(toWinAnsiCodes("é€"), [0xe9, 0x80]);
+  assert.deepEqual(toWinAnsiCodes("ő"), ["o".charCodeAt(0)]);
+  assert.deepEqual(toWinAnsiCodes("Ж"), ["?".charCodeAt(0)]);
+});
+
+test("renders a PDF with a valid cross-reference table", () => {
+  const bytes = renderPdf(
+    [
+      {
+        elements: [
+          { kind: "text", x: 50, y: 60, text: "Receipt (copy) \\ 1", size: 12, font: "bold" },
+          { kind: "line", x1: 50, y1: 70, x2: 300, y2: 70 },
+          { kind: "rect", x: 50, y: 80, width: 100, height: 20, fill: [0.9, 0.9, 0.9] },
+        ],
+      },
+      { elements: [{ kind: "text", x: 50, y: 60, text: "Page 2", align: "right" }] },
+    ],
+    { title: "Test" }
+  );
+  const pdf = asText(bytes);
+
+  assert.ok(pdf.startsWith("%PDF-1.4"));
+  assert.ok(pdf.trimEnd().endsWith("%%EOF"));
+  assert.match(pdf, /\/Count 2/);
+  assert.ok(pdf.includes("(Receipt \\(copy\\) \\\\ 1) Tj"));
+
+  const startxref = Number(pdf.match(/startxref\n(\d+)/)?.[1]);
+  assert.ok(pdf.slice(startxref).startsWith("xref"));
+
+  const entries = pdf
+    .slice(startxref)
+    .split("\n")
+    .filter((line) => / 00000 n $/.test(line));
+  entries.forEach((entry, index) => {
+    const offset = Number(entry.slice(0, 10));
+    assert.ok(pdf.slice(offset).startsWith(`${index + 1} 0 obj`));
+  });
+});
@@ -0,0 +1,41 @@
+import { strict as assert } from "node:assert";
+import test from "node:test";
+import {
+  encodeQr,
+  formatInformationBits,
+  qrSvgPath,
+  reedSolomonRemainder,
+  versionInformationBits,
+} from "../lib/qr/encode.ts";
+
+test("error correction codewords match the reference example", () => {
+  // "HELLO WORLD" as version 1-M, from the ISO/IEC 18004 worked example.
+  const data = [32, 91, 11, 120, 209, 114, 220, 77, 67, 64, 236, 17, 236, 17, 236, 17];
+  assert.deepEqual(reedSolomonRemainder(data, 10), [196, 35, 39, 119, 235, 215, 231, 226, 93, 23]);
+});
+
+test("format and version information match the standard tables", () => {
+  assert.equal(formatInformationBits(0).toString(2).padStart(15, "0"), "101010000010010");
+  assert.equal(formatInformationBits(5).toString(2).padStart(15, "0"), "100000011001110");
+  assert.equal(versionInformationBits(7).toString(2).padStart(18, "0"), "000111110010010100");
+});
+
+test("badge codes pick the smallest version and draw the finder patterns", () => {
+  const small = encodeQr("hi");
+  assert.equal(small.length, 21);
+
+  const badge = encodeQr(`gf1.${"0".repeat(8)}-0000-0000-0000-${"0".repeat(12)}.${"A".repeat(22)}`);
+  assert.equal(badge.length, 37);
+  for (const [left, top] of [
+    [0, 0],
+    [30, 0],
+    [0, 30],
+  ]) {
+    assert.equal(badge[top][left], true);
+    assert.equal(badge[top + 1][left + 1], false);
+    assert.equal(badge[top + 3][left + 3], true);
+  }
+
+  assert.match(qrSvgPath(small), /^(M\d+ \d+h1v1h-1z)+$/);
+  assert.throws(() => encodeQr("x".repeat(300)), /too long/);
+});
@@ -0,0 +1,77 @@
+import { strict as assert } from "node:assert";
+import test from "node:test";
+import {
+  UNLIMITED_CAPACITY,
+  findCapacityBreaches,
+  parseCapacitySettings,
+  stayNights,
+  summarizeCapacity,
+  type CapacityStay,
+} from "../lib/registration/capacity.ts";
+
+function stay(arrival: string, departure: string, alloggio = "Provided by organization"): CapacityStay {
+  return { data_arrivo: arrival, data_partenza: departure, alloggio_short: alloggio };
+}
+
+test("stayNights counts arrival day up to but excluding departure day", () => {
+  assert.deepEqual(stayNights("2026-08-27", "2026-08-30"), ["2026-08-27", "2026-08-28", "2026-08-29"]);
+  assert.deepEqual(stayNights("2026-08-29", "2026-08-29"), []);
+  assert.deepEqual(stayNights(null, "2026-08-29"), []);
+});
+
+test("no limits never produce breaches", () => {
+  const confirmed = Array.from({ length: 50 }, () => stay("2026-08-27", "2026-08-31"));
+  assert.deepEqual(findCapacityBreaches(UNLIMITED_CAPACITY, confirmed, stay("2026-08-27", "2026-08-31")), []);
+});
+
+test("overall, accommodation and per-night limits are checked independently", () => {
+  const settings = {
+    total_limit: 10,
+    accommodation_limits: { "Provided by organization": 2 },
+    nightly_limit: 3,
+    night_limits: { "2026-08-28": 1 },
+  };
+  const confirmed = [stay("2026-08-27", "2026-08-29"), stay("2026-08-29", "2026-08-31", "Atonoumous")];
+
+  // Only night 2026-08-28 is full; the accommodation still has one place.
+  const breaches = findCapacityBreaches(settings, confirmed, stay("2026-08-27", "2026-08-30"));
+  assert.deepEqual(breaches, [{ kind: "night", night: "2026-08-28", limit: 1, used: 1 }]);
+
+  // A stay that skips the full night fits.
+  assert.deepEqual(findCapacityBreaches(settings, confirmed, stay("2026-08-29", "2026-08-31")), []);
+
+  const full = [...confirmed, stay("2026-08-30", "2026-08-31")];
+  assert.deepEqual(
+    findCapacityBreaches(settings, full, stay("2026-08-30", "2026-08-31")).map((item) => item.kind),
+    ["accommodation"]
+  );
+});
+
+test("summarizeCapacity reports usage against limits", () => {
+  const settings = { ...UNLIMITED_CAPACITY, total_limit: 5, nightly_limit: 4 };
+  const usage = summarizeCapacity(settings, [stay("2026-08-27", "2026-08-29"), stay("2026-08-28", "2026-08-29")]);
+  assert.deepEqual(usage.total, { used: 2, limit: 5 });
+  assert.deepEqual(usage.nights, [
+    { night: "2026-08-27", used: 1, limit: 4 },
+    { night: "2026-08-28", used: 2, limit: 4 },
+  ]);
+});
+
+test("parseCapacitySettings validates limits and drops empty entries", () => {
+  const parsed = parseCapacitySettings({
+    total_limit: "",
+    nightly_limit: 300,
+    accommodation_limits: { "Provided by organization": "120", Atonoumous: null },
+    night_limits: { "2026-08-28": 250 },
+  });
+  assert.ok("settings" in parsed);
+  assert.deepEqual(parsed.settings, {
+    total_limit: null,
+    nightly_limit: 300,
+    accommodation_limits: { "Provided by organization": 120 },
+    night_limits: { "2026-08-28": 250 },
+  });
+
+  assert.ok("error" in parseCapacitySettings({ total_limit: -1 }));
+  assert.ok("error" in parseCapacitySettings({ night_limits: { tomorrow: 3 } }));
+});
@@ -0,0 +1,42 @@
+import { strict as assert } from "node:assert";
+import test from "node:test";
+import {
+  REGISTRATION_FORM_SOURCE,
+  buildRegistrationPayload,
+  isHoneypotSubmission,
+  registrationSubmissionId,
+} from "../lib/registration/submit.ts";
+
+test("only a filled-in honeypot field marks a submission as a bot", () => {
+  assert.equal(isHoneypotSubmission({ website: "http://spam.example" }), true);
+  assert.equal(isHoneypotSubmission({ website: "   " }), false);
+  assert.equal(isHoneypotSubmission({ website: "" }), false);
+  assert.equal(isHoneypotSubmission({ website: 1 }), false);
+  assert.equal(isHoneypotSubmission({}), false);
+});
+
+test("the client id becomes a stable, lower-case submission id", () => {
+  assert.equal(
+    registrationSubmissionId(" 3F2504E0-4F89-41D3-9A0C-0305E82C3301 "),
+    "form-3f2504e0-4f89-41d3-9a0c-0305e82c3301"
+  );
+  assert.equal(registrationSubmissionId("not-a-uuid"), null);
+  assert.equal(registrationSubmissionId(""), null);
+  assert.equal(registrationSubmissionId(undefined), null);
+});
+
+test("the payload is stored in the shape the replay queue expects", () => {
+  const input = {
+    nome: "Ana",
+    cognome: "Silva",
+    email: "ana@example.org",
+  } as Parameters<typeof buildRegistrationPayload>[0];
+
+  assert.deepEqual(buildRegistrationPayload(input, "form-abc", "2026-05-01T10:00:00.000Z"), {
+    source: REGISTRATION_FORM_SOURCE,
+    submissionId: "form-abc",
+    respondentId: "ana@example.org",
+    createdAt: "2026-05-01T10:00:00.000Z",
+    answers: input,
+  });
+});
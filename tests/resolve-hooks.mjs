@@ -0,0 +1,32 @@
+// Resolves the "@/" path alias and extensionless TypeScript imports the way the Next.js
+// bundler does, so tests can load modules that import other app modules.
+import { statSync } from "node:fs";
+import { registerHooks } from "node:module";
+import { fileURLToPath, pathToFileURL } from "node:url";
+
+const ROOT = fileURLToPath(new URL("../", import.meta.url));
+const CANDIDATES = ["", ".ts", ".tsx", "/index.ts"];
+
+function isFile(path) {
+  try {
+    return statSync(path).isFile();
+  } catch {
+    return false;
+  }
+}
+
+function localPath(specifier, parentURL) {
+  if (specifier.startsWith("@/")) return ROOT + specifier.slice(2);
+  if (specifier.startsWith(".") && parentURL?.startsWith("file:")) {
+    return fileURLToPath(new URL(specifier, parentURL));
+  }
+  return null;
+}
+
+registerHooks({
+  resolve(specifier, context, nextResolve) {
+    const base = localPath(specifier, context.parentURL);
+    const match = base && CANDIDATES.map((suffix) => base + suffix).find(isFile);
+    return nextResolve(match ? pathToFileURL(match).href : specifier, context);
+  },
+});
@@ -0,0 +1,117 @@
+import { strict as assert } from "node:assert";
+import test from "node:test";
+import {
+  applyFieldMapping,
+  DEFAULT_TALLY_FIELD_MAPPING,
+  parseFieldMapping,
+  parseMappingDate,
+  type TallyAnswer,
+} from "../lib/tally/field-mapping.ts";
+
+function answer(label: string, value: string, key = label): TallyAnswer {
+  return { key, label, value };
+}
+
+test("default mapping reads the current Tally form", () => {
+  const { values, unmatchedLabels } = applyFieldMapping(
+    [
+      answer("Name/Nome/Nombre/Prenom", "Anna"),
+      answer("Surname / Cognome / Apellido / Nom de famille", "Rossi"),
+      answer("e-mail", "anna@example.org"),
+      answer("Date of arrival and departure", "2026-08-28 - 2026-08-30"),
+      answer("Departure", "2026-09-01"),
+      answer("Do you have any particular food requirement", ""),
+      answer("Do you have any particular food requirement (Vegetarian)", "true"),
+      answer("Do you have any particular food requirement (Gluten free)", "false"),
+      answer("When will you be present? Friday", "true"),
+      answer("When will you be present? Saturday", "maybe"),
+      answer("Please tell us about your dietary habits", "none"),
+      answer("Favourite colour", "blue"),
+    ],
+    DEFAULT_TALLY_FIELD_MAPPING
+  );
+
+  assert.equal(values.nome, "Anna");
+  assert.equal(values.cognome, "Rossi");
+  assert.equal(values.email, "anna@example.org");
+  assert.equal(values.data_arrivo, "2026-08-28");
+  assert.equal(values.data_partenza, "2026-08-30");
+  assert.equal(values.esigenze_alimentari, "Vegetarian");
+  assert.deepEqual(values.presenza_dettaglio, { Friday: true, Saturday: "maybe" });
+  // The range already answered the departure, and the dietary fallback is not needed.
+  assert.deepEqual(unmatchedLabels, [
+    "Departure",
+    "Please tell us about your dietary habits",
+    "Favourite colour",
+  ]);
+});
+
+test("later rules are fallbacks and field keys match as well as labels", () => {
+  const mapping = {
+    rules: [
+      { target: "email" as const, match: "exact" as const, transform: "text" as const, sources: ["question_email"] },
+      { target: "paese_residenza" as const, match: "exact" as const, transform: "text" as const, sources: ["Country"] },
+      {
+        target: "paese_residenza" as const,
+        match: "contains" as const,
+        transform: "text" as const,
+        sources: ["residence"],
+      },
+      {
+        target: "sesso" as const,
+        match: "exact" as const,
+        transform: "option_map" as const,
+        sources: ["Sex"],
+        options: { maschio: "M", femmina: "F" },
+      },
+      { target: "privacy_accettata" as const, match: "exact" as const, transform: "boolean" as const, sources: ["Privacy"] },
+    ],
+  };
+
+  const { values, matched } = applyFieldMapping(
+    [
+      answer("Your e-mail address", "x@example.org", "question_email"),
+      answer("Where is your residence?", "Spain"),
+      answer("Sex", "Femmina"),
+      answer("Privacy", "Sì"),
+    ],
+    mapping
+  );
+
+  assert.equal(values.email, "x@example.org");
+  assert.equal(values.paese_residenza, "Spain");
+  assert.equal(matched.paese_residenza, "Where is your residence?");
+  assert.equal(values.sesso, "F");
+  assert.equal(values.privacy_accettata, true);
+});
+
+test("parses ISO and European dates", () => {
+  assert.equal(parseMappingDate("2026-08-28T10:00:00.000Z"), "2026-08-28");
+  assert.equal(parseMappingDate("3/9/2026"), "2026-09-03");
+  assert.equal(parseMappingDate("not a date"), null);
+  assert.equal(parseMappingDate("31/02/2026"), null);
+  assert.equal(parseMappingDate("12/13/2026"), null);
+  assert.equal(parseMappingDate("2026-02-30"), null);
+});
+
+test("validates stored mappings", () => {
+  assert.ok("mapping" in parseFieldMapping(DEFAULT_TALLY_FIELD_MAPPING));
+  assert.deepEqual(parseFieldMapping({ rules: "x" }), { error: "mapping.rules must be an array" });
+  assert.deepEqual(
+    parseFieldMapping({ rules: [{ target: "unknown", sources: ["a"], transform: "text" }] }),
+    { error: 'Rule 1: unknown target column "unknown"' }
+  );
+  assert.deepEqual(
+    parseFieldMapping({
+      rules: [
+        { target: "nome", sources: ["Name"], transform: "text" },
+        { target: "cognome", sources: ["Surname"], transform: "text" },
+      ],
+    }),
+    { error: 'A rule for the required column "email" is missing' }
+  );
+  assert.deepEqual(
+    parseFieldMapping({ rules: [{ target: "sesso", sources: ["Sex"], transform: "option_map" }] }),
+    { error: "Rule 1: option_map needs at least one option" }
+  );
+});
@@ -0,0 +1,70 @@
+import { strict as assert } from "node:assert";
+import test from "node:test";
+import { replayRequest, webhookEventRow } from "../lib/tally/webhook-replay.ts";
+
+const RAW_BODY = '{"eventId":"e1","data":{"responseId":"r1","fields":[]}}\n';
+
+const entry = {
+  submissionId: "r1",
+  respondentId: "",
+  email: "ana@example.org",
+  status: "error",
+  payload: { eventId: "e1" },
+  rawBody: RAW_BODY,
+  replayOf: "event-0",
+};
+
+test("the raw body is stored byte for byte with the replay link", () => {
+  const row = webhookEventRow(entry, true);
+
+  assert.equal(row.raw_body, RAW_BODY);
+  assert.equal(row.replay_of, "event-0");
+  assert.equal(row.source, "tally");
+  assert.equal(row.event_type, "form_submission");
+  assert.equal(row.respondent_id, null);
+});
+
+test("databases without the replay columns still get the audit row", () => {
+  const row = webhookEventRow(entry, false);
+
+  assert.equal("raw_body" in row, false);
+  assert.equal("replay_of" in row, false);
+  assert.deepEqual(row.payload, { eventId: "e1" });
+});
+
+const event = {
+  id: "event-1",
+  event_type: "form_submission",
+  status: "error",
+  raw_body: RAW_BODY,
+  payload: { parsed: "at the time" },
+};
+
+test("a replay processes the stored raw body, not the parsed payload", () => {
+  assert.deepEqual(replayRequest(event), {
+    body: { eventId: "e1", data: { responseId: "r1", fields: [] } },
+    options: { rawBody: RAW_BODY, replayOf: "event-1" },
+  });
+});
+
+test("events stored before raw bodies were kept replay their payload", () => {
+  assert.deepEqual(replayRequest({ ...event, raw_body: null }), {
+    body: { parsed: "at the time" },
+    options: { rawBody: '{"parsed":"at the time"}', replayOf: "event-1" },
+  });
+});
+
+test("unsigned, non-submission and unreadable events are not replayed", () => {
+  assert.deepEqual(replayRequest({ ...event, status: "invalid_signature" }), {
+    error: "Events with an invalid signature cannot be replayed",
+    status: 400,
+  });
+  assert.deepEqual(replayRequest({ ...event, event_type: "ping" }), {
+    error: "Only form submissions can be replayed",
+    status: 400,
+  });
+  assert.deepEqual(replayRequest({ ...event, raw_body: "{not json" }), {
+    error: "Stored raw body is not valid JSON",
+    status: 400,
+  });
+});
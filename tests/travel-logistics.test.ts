@@ -0,0 +1,100 @@
+import { strict as assert } from "node:assert";
+import test from "node:test";
+import {
+  clusterTravelLegs,
+  parseShuttleRun,
+  parseTravelDetails,
+  shuttleAssignmentError,
+  type ShuttleRun,
+  type TravelLeg,
+} from "../lib/travel/logistics.ts";
+
+const leg = (overrides: Partial<TravelLeg>): TravelLeg => ({
+  participantId: "p1",
+  name: "Anna Rossi",
+  group: "Roma",
+  phone: null,
+  direction: "arrival",
+  date: "2026-08-27",
+  mode: "plane",
+  reference: null,
+  time: "10:00",
+  location: "FCO",
+  notes: null,
+  shuttleRunId: null,
+  ...overrides,
+});
+
+test("travel details need a time and a place for planes, trains and buses", () => {
+  assert.deepEqual(
+    parseTravelDetails({ mode: "plane", reference: " az 123 ", time: "09:30:00", location: "FCO" }),
+    {
+      input: { mode: "plane", reference: "AZ 123", time: "09:30", location: "FCO", notes: null },
+      error: null,
+    }
+  );
+  assert.equal(parseTravelDetails({ mode: "train", time: "09:30" }).error !== null, true);
+  assert.equal(parseTravelDetails({ mode: "car", time: "25:00" }).error, "Enter the time as HH:MM");
+  assert.equal(parseTravelDetails({ mode: "car" }).error, null);
+  assert.equal(parseTravelDetails({ mode: "boat" }).error, "Select how you are travelling");
+});
+
+test("arrivals cluster into time windows per location", () => {
+  const clusters = clusterTravelLegs(
+    [
+      leg({ participantId: "a", time: "10:00" }),
+      leg({ participantId: "b", time: "11:15", location: " fco " }),
+      leg({ participantId: "c", time: "12:00" }),
+      leg({ participantId: "d", time: "10:30", location: "Roma Termini", mode: "train" }),
+      leg({ participantId: "e", time: "10:30", mode: "car" }),
+      leg({ participantId: "f", time: null }),
+      leg({ participantId: "g", direction: "departure", date: "2026-08-31", time: "15:00" }),
+    ],
+    90
+  );
+
+  assert.deepEqual(
+    clusters.map((cluster) => [
+      cluster.direction,
+      cluster.location,
+      cluster.from,
+      cluster.to,
+      cluster.suggestedTime,
+      cluster.legs.map((item) => item.participantId),
+    ]),
+    [
+      ["arrival", "FCO", "10:00", "11:15", "12:00", ["a", "b"]],
+      ["arrival", "Roma Termini", "10:30", "10:30", "11:15", ["d"]],
+      ["arrival", "FCO", "12:00", "12:00", "12:45", ["c"]],
+      ["departure", "FCO", "15:00", "15:00", "12:00", ["g"]],
+    ]
+  );
+});
+
+test("shuttle seats respect direction, day and capacity", () => {
+  const run: ShuttleRun = {
+    id: "r1",
+    direction: "arrival",
+    run_date: "2026-08-27",
+    departure_time: "12:00",
+    location: "FCO",
+    capacity: 2,
+    driver_name: null,
+    driver_phone: null,
+    vehicle: null,
+    notes: null,
+  };
+
+  assert.equal(shuttleAssignmentError(run, leg({}), 1), null);
+  assert.equal(shuttleAssignmentError(run, leg({}), 2), "The shuttle is full");
+  assert.equal(
+    shuttleAssignmentError(run, leg({ date: "2026-08-28" }), 0),
+    "The arrival is on 2026-08-28, the shuttle runs on 2026-08-27"
+  );
+  assert.equal(
+    shuttleAssignmentError(run, leg({ direction: "departure" }), 0),
+    "This shuttle is for arrivals"
+  );
+  assert.equal(parseShuttleRun({ ...run, capacity: "0" }).error, "Capacity must be a whole number of seats");
+  assert.equal(parseShuttleRun({ ...run, capacity: "8" }).input?.capacity, 8);
+});
@@ -0,0 +1,79 @@
+import { strict as assert } from "node:assert";
+import test from "node:test";
+import {
+  buildVisaLetterText,
+  parseVisaLetterRequest,
+  visaLetterNumber,
+} from "../lib/visa/letter-policy.ts";
+
+test("visa letter requests normalize the passport and check its validity", () => {
+  const context = { today: "2026-03-01", departureDate: "2026-07-20" };
+
+  assert.deepEqual(
+    parseVisaLetterRequest(
+      {
+        passport_number: " ab 123-4567 ",
+        passport_expiry: "2026-10-20",
+        consulate: "  Italian  Embassy in Nairobi ",
+      },
+      context
+    ),
+    {
+      input: {
+        passportNumber: "AB1234567",
+        passportExpiry: "2026-10-20",
+        consulate: "Italian Embassy in Nairobi",
+      },
+      error: null,
+    }
+  );
+
+  const tooShort = parseVisaLetterRequest(
+    { passport_number: "AB1234567", passport_expiry: "2026-10-19", consulate: "Embassy" },
+    context
+  );
+  assert.match(tooShort.error ?? "", /3 months after the end of your stay/);
+
+  assert.match(
+    parseVisaLetterRequest(
+      { passport_number: "AB1234567", passport_expiry: "2026-02-30", consulate: "Embassy" },
+      context
+    ).error ?? "",
+    /valid date/
+  );
+  assert.match(
+    parseVisaLetterRequest(
+      { passport_number: "AB#1", passport_expiry: "2027-01-01", consulate: "Embassy" },
+      context
+    ).error ?? "",
+    /Passport number/
+  );
+});
+
+test("visa letters are numbered and mention only the known details", () => {
+  assert.equal(visaLetterNumber("VL", 2026, 7), "VL-2026-0007");
+
+  const letter = buildVisaLetterText(
+    {
+      participantName: "Amina Okafor",
+      birthDate: "2001-05-04",
+      nationality: "Nigeria",
+      residence: "Nigeria",
+      arrivalDate: null,
+      departureDate: "2026-07-20",
+      passportNumber: "A12345678",
+      passportExpiry: "2030-01-31",
+      consulate: "Consulate General of Italy in Lagos",
+    },
+    "Comunità di Sant'Egidio"
+  );
+
+  assert.equal(letter.title, "Letter of invitation");
+  assert.match(letter.body, /^To the Consulate General of Italy in Lagos\n/);
+  assert.match(
+    letter.body,
+    /invites Amina Okafor, born on 4 May 2001, citizen of Nigeria, holder of passport no\. A12345678 valid until 31 January 2030,/
+  );
+  assert.doesNotMatch(letter.body, /resident in/);
+  assert.match(letter.body, /dates of the stay will be those of the event/);
+});